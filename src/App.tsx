@@ -10,14 +10,19 @@ import { RestaurantDashboard } from './components/RestaurantDashboard';
 import { CustomerBooking } from './components/CustomerBooking';
 import { RestaurantSetup } from './components/RestaurantSetup';
 import { CustomerOrderingInterface } from './components/qr-ordering/CustomerOrderingInterface';
+import { ManageBooking } from './components/ManageBooking';
 import { LoyaltyManagement } from './components/LoyaltyManagement';
-import { Settings, Users, Crown, LogOut, User, Building } from 'lucide-react';
+import { StaffInvite } from './components/StaffInvite';
+import { RestaurantGroupSettings } from './components/RestaurantGroupSettings';
+import { hasPermission } from './lib/staff';
+import { switchRestaurant } from './lib/restaurantGroups';
+import { Settings, Users, Crown, LogOut, User, Building, Network, Store } from 'lucide-react';
 
 function App() {
   const { user, loading: authLoading, signOut } = useAuth();
   const { subscription, loading: subscriptionLoading, getCurrentPlan, isPremium } = useSubscription();
-  const { restaurant, loading: restaurantLoading, error: restaurantError } = useRestaurantData();
-  const [viewMode, setViewMode] = useState<'dashboard' | 'subscription' | 'subscription-success' | 'setup'>('dashboard');
+  const { restaurant, restaurants, staffRole, loading: restaurantLoading, error: restaurantError } = useRestaurantData();
+  const [viewMode, setViewMode] = useState<'dashboard' | 'subscription' | 'subscription-success' | 'setup' | 'loyalty' | 'new-outlet' | 'group'>('dashboard');
   const [restaurantSlug, setRestaurantSlug] = useState<string | null>(null);
 
   // Check URL for restaurant booking page
@@ -25,9 +30,9 @@ function App() {
     const path = window.location.pathname;
     const pathSegments = path.split('/').filter(segment => segment);
     
-    // If URL contains a restaurant slug (not admin paths and not order paths)
+    // If URL contains a restaurant slug (not admin paths, order or manage-booking paths)
     if (pathSegments.length === 1 && pathSegments[0] && 
-        !['admin', 'dashboard', 'subscription', 'order'].includes(pathSegments[0])) {
+        !['admin', 'dashboard', 'subscription', 'order', 'manage'].includes(pathSegments[0])) {
       setRestaurantSlug(pathSegments[0]);
     }
     
@@ -46,13 +51,18 @@ function App() {
       setViewMode('setup');
     }
   }, [user, restaurant, restaurantLoading, restaurantError]);
+
+  // QR ordering and manage-booking links are for guests and never need staff auth;
+  // staff invitations handle signing in themselves
+  const isGuestPath = ['/order/', '/manage/', '/invite/'].some(prefix => window.location.pathname.startsWith(prefix));
+
   // If accessing a restaurant booking page, show customer interface
-  if (restaurantSlug && !window.location.pathname.startsWith('/order/')) {
+  if (restaurantSlug && !isGuestPath) {
     return <CustomerBooking restaurantSlug={restaurantSlug} />;
   }
 
-  // Only show loading for admin interface, not for QR ordering
-  if ((authLoading || (user && restaurantLoading)) && !window.location.pathname.startsWith('/order/')) {
+  // Only show loading for admin interface, not for guest pages
+  if ((authLoading || (user && restaurantLoading)) && !isGuestPath) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center max-w-md mx-auto p-6">
@@ -79,11 +89,24 @@ function App() {
 
   const currentPlan = getCurrentPlan();
 
+  // Setup is open until the restaurant exists; after that the staff role decides
+  const canSetup = !restaurant || hasPermission(staffRole, 'settings');
+  const canLoyalty = !!restaurant && hasPermission(staffRole, 'loyalty');
+  const canBilling = !restaurant || hasPermission(staffRole, 'billing');
+  // Outlets and groups belong to the owner's account
+  const isOwner = staffRole === 'owner';
+
   return (
     <Router>
       <Routes>
         {/* QR Ordering Route */}
         <Route path="/order/:token" element={<CustomerOrderingInterface />} />
+
+        {/* Guest Booking Management Route */}
+        <Route path="/manage/:token" element={<ManageBooking />} />
+
+        {/* Staff Invitation Route */}
+        <Route path="/invite/:token" element={<StaffInvite />} />
         
         {/* Main App Routes */}
         <Route path="/*" element={
@@ -94,6 +117,24 @@ function App() {
             {/* Staff Navigation */}
             <div className="fixed top-4 right-4 z-50">
               <div className="bg-white rounded-lg shadow-lg p-2 flex flex-wrap gap-2">
+                {/* Outlet Switcher */}
+                {restaurant && (restaurants.length > 1 || isOwner) && (
+                  <div className="flex items-center border-r border-gray-200 pr-2">
+                    <Store className="w-4 h-4 mr-1 text-gray-500" />
+                    <select
+                      value={viewMode === 'new-outlet' ? 'new' : restaurant.id}
+                      onChange={(e) => e.target.value === 'new' ? setViewMode('new-outlet') : switchRestaurant(e.target.value)}
+                      className="text-sm text-gray-700 bg-transparent focus:outline-none"
+                      title="Switch outlet"
+                    >
+                      {restaurants.map(outlet => (
+                        <option key={outlet.id} value={outlet.id}>{outlet.name}</option>
+                      ))}
+                      {isOwner && <option value="new">+ New outlet</option>}
+                    </select>
+                  </div>
+                )}
+
                 <button
                   onClick={() => setViewMode('dashboard')}
                   className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${
@@ -106,41 +147,61 @@ function App() {
                   Dashboard
                 </button>
                 
-                <button
-                  onClick={() => setViewMode('setup')}
-                  className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${
-                    viewMode === 'setup'
-                      ? 'bg-blue-600 text-white'
-                      : 'text-gray-600 hover:bg-gray-100'
-                  }`}
-                >
-                  <Building className="w-4 h-4 mr-2" />
-                  Setup
-                </button>
+                {canSetup && (
+                  <button
+                    onClick={() => setViewMode('setup')}
+                    className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                      viewMode === 'setup'
+                        ? 'bg-blue-600 text-white'
+                        : 'text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    <Building className="w-4 h-4 mr-2" />
+                    Setup
+                  </button>
+                )}
                 
-                <button
-                  onClick={() => setViewMode('loyalty')}
-                  className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${
-                    viewMode === 'loyalty'
-                      ? 'bg-blue-600 text-white'
-                      : 'text-gray-600 hover:bg-gray-100'
-                  }`}
-                >
-                  <Crown className="w-4 h-4 mr-2" />
-                  Loyalty
-                </button>
+                {canLoyalty && (
+                  <button
+                    onClick={() => setViewMode('loyalty')}
+                    className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                      viewMode === 'loyalty'
+                        ? 'bg-blue-600 text-white'
+                        : 'text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    <Crown className="w-4 h-4 mr-2" />
+                    Loyalty
+                  </button>
+                )}
                 
-                <button
-                  onClick={() => setViewMode('subscription')}
-                  className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${
-                    viewMode === 'subscription'
-                      ? 'bg-blue-600 text-white'
-                      : 'text-gray-600 hover:bg-gray-100'
-                  }`}
-                >
-                  <Crown className="w-4 h-4 mr-2" />
-                  {isPremium() ? 'Premium' : 'Upgrade'}
-                </button>
+                {isOwner && (
+                  <button
+                    onClick={() => setViewMode('group')}
+                    className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                      viewMode === 'group'
+                        ? 'bg-blue-600 text-white'
+                        : 'text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    <Network className="w-4 h-4 mr-2" />
+                    Group
+                  </button>
+                )}
+
+                {canBilling && (
+                  <button
+                    onClick={() => setViewMode('subscription')}
+                    className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                      viewMode === 'subscription'
+                        ? 'bg-blue-600 text-white'
+                        : 'text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    <Crown className="w-4 h-4 mr-2" />
+                    {isPremium() ? 'Premium' : 'Upgrade'}
+                  </button>
+                )}
                 
                 {/* User Menu */}
                 <div className="flex items-center space-x-2 border-l border-gray-200 pl-2">
@@ -173,9 +234,13 @@ function App() {
 
             {/* Content */}
             {viewMode === 'dashboard' && <RestaurantDashboard />}
-            {viewMode === 'setup' && <RestaurantSetup />}
-            {viewMode === 'loyalty' && restaurant && <LoyaltyManagement restaurant={restaurant} />}
-            {viewMode === 'subscription' && (
+            {viewMode === 'setup' && canSetup && <RestaurantSetup />}
+            {viewMode === 'new-outlet' && isOwner && <RestaurantSetup newOutlet groupId={restaurant?.group_id} />}
+            {viewMode === 'group' && restaurant && isOwner && (
+              <RestaurantGroupSettings restaurant={restaurant} restaurants={restaurants} />
+            )}
+            {viewMode === 'loyalty' && restaurant && canLoyalty && <LoyaltyManagement restaurant={restaurant} />}
+            {viewMode === 'subscription' && canBilling && (
               <div className="py-12 px-4">
                 <SubscriptionPlans currentPriceId={subscription?.price_id || undefined} />
               </div>
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { Restaurant } from '../types/database';
+import { GroupOutletSummary, Restaurant } from '../types/database';
+import { fetchGroupOutletSummary } from '../lib/restaurantGroups';
 import { format, subDays, startOfWeek, endOfWeek, eachDayOfInterval } from 'date-fns';
 import { 
   BarChart3, 
@@ -17,11 +18,14 @@ import {
   ChefHat,
   DollarSign,
   Award,
-  PieChart
+  PieChart,
+  Network
 } from 'lucide-react';
 
 interface BookingAnalyticsProps {
   restaurant: Restaurant;
+  // Compare every outlet in the restaurant's group; only the group's owner can
+  showGroupOutlets?: boolean;
 }
 
 interface TimeSlotAnalytics {
@@ -77,20 +81,21 @@ interface CategoryPerformance {
   category_percentage: number;
 }
 
-export function BookingAnalytics({ restaurant }: BookingAnalyticsProps) {
+export function BookingAnalytics({ restaurant, showGroupOutlets = false }: BookingAnalyticsProps) {
   const [timeSlotData, setTimeSlotData] = useState<TimeSlotAnalytics[]>([]);
   const [dayAnalytics, setDayAnalytics] = useState<DayAnalytics[]>([]);
   const [bookingTrends, setBookingTrends] = useState<BookingTrends[]>([]);
   const [popularDishes, setPopularDishes] = useState<PopularDish[]>([]);
   const [revenueAnalytics, setRevenueAnalytics] = useState<RevenueAnalytics | null>(null);
   const [categoryPerformance, setCategoryPerformance] = useState<CategoryPerformance[]>([]);
+  const [outletSummary, setOutletSummary] = useState<GroupOutletSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [dateRange, setDateRange] = useState<'week' | 'month' | 'quarter'>('week');
   const [selectedMetric, setSelectedMetric] = useState<'bookings' | 'waitlist' | 'party_size'>('bookings');
 
   useEffect(() => {
     fetchAnalyticsData();
-  }, [restaurant.id, dateRange]);
+  }, [restaurant.id, dateRange, showGroupOutlets]);
 
   const fetchAnalyticsData = async () => {
     setLoading(true);
@@ -198,6 +203,17 @@ export function BookingAnalytics({ restaurant }: BookingAnalyticsProps) {
         setCategoryPerformance(categoryResult.data || []);
       }
 
+      if (showGroupOutlets && restaurant.group_id) {
+        try {
+          setOutletSummary(await fetchGroupOutletSummary(restaurant.group_id, startDateStr, endDateStr));
+        } catch (error) {
+          console.error('Error fetching group outlet summary:', error);
+          setOutletSummary([]);
+        }
+      } else {
+        setOutletSummary([]);
+      }
+
     } catch (error) {
       console.error('Error fetching analytics:', error);
     } finally {
@@ -336,6 +352,26 @@ export function BookingAnalytics({ restaurant }: BookingAnalyticsProps) {
       csvData.push(['']); // Empty row
     }
     
+    // All Outlets
+    if (outletSummary.length > 0) {
+      csvData.push(['ALL OUTLETS']);
+      csvData.push(['Outlet', 'Bookings', 'Covers', 'No-shows', 'Waitlist Entries', 'Orders', 'Revenue', 'Avg Order Value', 'Discounts']);
+      [...outletSummary, outletTotals].forEach(outlet => {
+        csvData.push([
+          outlet.restaurant_name,
+          outlet.total_bookings,
+          outlet.total_covers,
+          outlet.no_shows,
+          outlet.waitlist_entries,
+          outlet.total_orders,
+          formatPrice(Number(outlet.total_revenue)),
+          formatPrice(Number(outlet.avg_order_value)),
+          formatPrice(Number(outlet.total_discounts))
+        ]);
+      });
+      csvData.push(['']); // Empty row
+    }
+
     // Category Performance
     if (categoryPerformance.length > 0) {
       csvData.push(['CATEGORY PERFORMANCE']);
@@ -382,6 +418,21 @@ export function BookingAnalytics({ restaurant }: BookingAnalyticsProps) {
   const totalWaitlist = timeSlotData.reduce((sum, slot) => sum + slot.waitlist_triggered, 0);
   const avgLeadTime = bookingTrends.reduce((sum, trend) => sum + trend.avg_lead_time, 0) / bookingTrends.length || 0;
 
+  const sumOutlets = (field: keyof Omit<GroupOutletSummary, 'restaurant_id' | 'restaurant_name'>) =>
+    outletSummary.reduce((sum, outlet) => sum + Number(outlet[field]), 0);
+  const outletTotals: GroupOutletSummary = {
+    restaurant_id: '',
+    restaurant_name: 'All outlets',
+    total_bookings: sumOutlets('total_bookings'),
+    total_covers: sumOutlets('total_covers'),
+    no_shows: sumOutlets('no_shows'),
+    waitlist_entries: sumOutlets('waitlist_entries'),
+    total_orders: sumOutlets('total_orders'),
+    total_revenue: sumOutlets('total_revenue'),
+    avg_order_value: sumOutlets('total_orders') > 0 ? sumOutlets('total_revenue') / sumOutlets('total_orders') : 0,
+    total_discounts: sumOutlets('total_discounts')
+  };
+
   return (
     <div className="space-y-6">
       {/* Header with Controls */}
@@ -478,6 +529,53 @@ export function BookingAnalytics({ restaurant }: BookingAnalyticsProps) {
         </div>
       </div>
 
+      {/* All Outlets Section */}
+      {outletSummary.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-6 overflow-x-auto">
+          <h3 className="text-xl font-semibold text-gray-800 mb-6 flex items-center">
+            <Network className="w-5 h-5 mr-2 text-blue-600" />
+            All Outlets
+          </h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-200">
+                <th className="py-2 pr-4 font-medium">Outlet</th>
+                <th className="py-2 px-2 font-medium text-right">Bookings</th>
+                <th className="py-2 px-2 font-medium text-right">Covers</th>
+                <th className="py-2 px-2 font-medium text-right">No-shows</th>
+                <th className="py-2 px-2 font-medium text-right">Waitlist</th>
+                <th className="py-2 px-2 font-medium text-right">Orders</th>
+                <th className="py-2 px-2 font-medium text-right">Revenue</th>
+                <th className="py-2 px-2 font-medium text-right">Avg Order</th>
+                <th className="py-2 pl-2 font-medium text-right">Share of Revenue</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {[...outletSummary, outletTotals].map(outlet => (
+                <tr
+                  key={outlet.restaurant_id || 'total'}
+                  className={outlet.restaurant_id ? (outlet.restaurant_id === restaurant.id ? 'bg-blue-50' : '') : 'font-semibold border-t-2 border-gray-200'}
+                >
+                  <td className="py-2 pr-4 text-gray-800">{outlet.restaurant_name}</td>
+                  <td className="py-2 px-2 text-right">{outlet.total_bookings}</td>
+                  <td className="py-2 px-2 text-right">{outlet.total_covers}</td>
+                  <td className="py-2 px-2 text-right">{outlet.no_shows}</td>
+                  <td className="py-2 px-2 text-right">{outlet.waitlist_entries}</td>
+                  <td className="py-2 px-2 text-right">{outlet.total_orders}</td>
+                  <td className="py-2 px-2 text-right">{formatPrice(Number(outlet.total_revenue))}</td>
+                  <td className="py-2 px-2 text-right">{formatPrice(Number(outlet.avg_order_value))}</td>
+                  <td className="py-2 pl-2 text-right">
+                    {outletTotals.total_revenue > 0
+                      ? `${Math.round(Number(outlet.total_revenue) / outletTotals.total_revenue * 100)}%`
+                      : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* Popular Dishes Section */}
       <div className="bg-white rounded-lg shadow-md p-6">
         <h3 className="text-xl font-semibold text-gray-800 mb-6 flex items-center">
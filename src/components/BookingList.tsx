@@ -1,5 +1,8 @@
 import React, { useState } from 'react';
 import { BookingWithDetails, RestaurantTable } from '../types/database';
+import { formatTableNumbers } from '../lib/tableAssignment';
+import { formatPaymentAmount, paymentStatusLabels } from '../lib/bookingPayments';
+import { diningDurationOptions, formatDiningDuration, getBookingEndTime } from '../lib/diningDuration';
 import { format } from 'date-fns';
 import { Clock, User, Phone, Mail, MapPin, AlertCircle, CheckCircle, XCircle, Eye, EyeOff, Filter, Calendar } from 'lucide-react';
 
@@ -8,6 +11,7 @@ interface BookingListProps {
   tables: RestaurantTable[];
   onUpdateBooking: (bookingId: string, status: BookingWithDetails['status']) => Promise<{ success: boolean }>;
   onAssignTable: (bookingId: string, tableId: string) => Promise<{ success: boolean }>;
+  onUpdateDuration: (bookingId: string, durationMinutes: number) => Promise<{ success: boolean }>;
 }
 
 const statusColors = {
@@ -19,7 +23,7 @@ const statusColors = {
   no_show: 'bg-orange-100 text-orange-800 border-orange-300'
 };
 
-export function BookingList({ bookings, tables, onUpdateBooking, onAssignTable }: BookingListProps) {
+export function BookingList({ bookings, tables, onUpdateBooking, onAssignTable, onUpdateDuration }: BookingListProps) {
   const [assigningTable, setAssigningTable] = useState<string | null>(null);
   const [processingAction, setProcessingAction] = useState<string | null>(null);
   const [hideCompleted, setHideCompleted] = useState(true);
@@ -112,6 +116,24 @@ export function BookingList({ bookings, tables, onUpdateBooking, onAssignTable }
     }
   };
 
+  const handleDurationUpdate = async (bookingId: string, durationMinutes: number) => {
+    const actionKey = `duration-${bookingId}`;
+    setProcessingAction(actionKey);
+
+    try {
+      const result = await onUpdateDuration(bookingId, durationMinutes);
+
+      if (result.success) {
+        showNotification(`Dining duration set to ${formatDiningDuration(durationMinutes)}`, 'success');
+      }
+    } catch (error) {
+      console.error('Error updating duration:', error);
+      showNotification(error instanceof Error ? error.message : 'Failed to update duration. Please try again.', 'error');
+    } finally {
+      setProcessingAction(null);
+    }
+  };
+
   const getAvailableTablesForBooking = (booking: BookingWithDetails) => {
     return tables.filter(table => 
       table.status === 'available' && 
@@ -226,7 +248,12 @@ export function BookingList({ bookings, tables, onUpdateBooking, onAssignTable }
                         </p>
                       )}
                       <p className="text-sm opacity-75">
-                        {booking.restaurant_table ? (
+                        {booking.held_tables && booking.held_tables.length > 1 ? (
+                          <>
+                            Tables {formatTableNumbers(booking.held_tables.map(held => held.restaurant_table?.table_number || '?'))}
+                            {' '}• {booking.party_size} people
+                          </>
+                        ) : booking.restaurant_table ? (
                           <>Table {booking.restaurant_table.table_number} • {booking.party_size} people</>
                         ) : (
                           <span className="flex items-center">
@@ -240,7 +267,31 @@ export function BookingList({ bookings, tables, onUpdateBooking, onAssignTable }
                       <div className="flex items-center text-sm mb-1">
                         <Clock className="w-4 h-4 mr-1" />
                         {format(new Date(`${booking.booking_date}T${booking.booking_time}`), 'h:mm a')}
+                        {' – '}
+                        {format(new Date(`${booking.booking_date}T${getBookingEndTime(booking.booking_time, booking.expected_duration_minutes)}`), 'h:mm a')}
                       </div>
+                      {['pending', 'confirmed'].includes(booking.status) ? (
+                        <select
+                          value={booking.expected_duration_minutes}
+                          onChange={(e) => handleDurationUpdate(booking.id, parseInt(e.target.value))}
+                          disabled={isProcessing(`duration-${booking.id}`)}
+                          className="text-xs border border-gray-300 rounded px-1 py-0.5 mb-1 bg-white disabled:opacity-50"
+                          title="Expected dining duration"
+                        >
+                          {!diningDurationOptions.includes(booking.expected_duration_minutes) && (
+                            <option value={booking.expected_duration_minutes}>
+                              {formatDiningDuration(booking.expected_duration_minutes)}
+                            </option>
+                          )}
+                          {diningDurationOptions.map(minutes => (
+                            <option key={minutes} value={minutes}>{formatDiningDuration(minutes)}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <div className="text-xs opacity-75 mb-1">
+                          {formatDiningDuration(booking.expected_duration_minutes)} sitting
+                        </div>
+                      )}
                       {booking.is_walk_in && (
                         <span className="text-xs bg-purple-100 text-purple-800 px-2 py-1 rounded">
                           Walk-in
@@ -251,6 +302,16 @@ export function BookingList({ bookings, tables, onUpdateBooking, onAssignTable }
                           From Waitlist
                         </span>
                       )}
+                      {booking.payment && (
+                        <span
+                          className={`text-xs px-2 py-1 rounded ml-1 ${
+                            booking.payment.status === 'failed' ? 'bg-red-100 text-red-800' : 'bg-emerald-100 text-emerald-800'
+                          }`}
+                          title={booking.payment.error_message || undefined}
+                        >
+                          {paymentStatusLabels[booking.payment.status]} · {formatPaymentAmount(booking.payment.amount, booking.payment.currency)}
+                        </span>
+                      )}
                     </div>
                   </div>
 
@@ -283,6 +344,12 @@ export function BookingList({ bookings, tables, onUpdateBooking, onAssignTable }
                     )}
                   </div>
 
+                  {booking.seating_area && (
+                    <p className="text-sm mb-2 text-blue-700">
+                      Prefers: {booking.seating_area.name}
+                    </p>
+                  )}
+
                   {booking.notes && (
                     <p className="text-sm italic mb-3 text-gray-600">
                       Note: {booking.notes}
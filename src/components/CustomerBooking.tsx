@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { useRestaurantData } from '../hooks/useRestaurantData';
 import { useTimeSlots } from '../hooks/useTimeSlots';
+import { getEffectiveHours } from '../lib/operatingHours';
 import { TimeSlotBookingForm } from './TimeSlotBookingForm';
 import { Calendar, Clock, Users, Phone, MapPin, ChefHat } from 'lucide-react';
 import { format, addDays } from 'date-fns';
@@ -10,13 +11,17 @@ interface CustomerBookingProps {
 }
 
 export function CustomerBooking({ restaurantSlug }: CustomerBookingProps) {
-  const { restaurant, bookings, operatingHours, loading, error } = useRestaurantData();
+  const { restaurant, operatingHours, servicePeriods, specialDates, loading, error } = useRestaurantData();
   const [selectedDate, setSelectedDate] = useState(format(new Date(), 'yyyy-MM-dd'));
   const [selectedTime, setSelectedTime] = useState<string | null>(null);
   const [partySize, setPartySize] = useState(2);
   const [showBookingForm, setShowBookingForm] = useState(false);
 
-  const { timeSlots, formatTimeSlot } = useTimeSlots(restaurant, operatingHours, bookings, selectedDate, restaurantSlug);
+  // Availability for the whole week shown in the date picker is loaded in one call
+  const { timeSlots, servicePeriods: slotGroups, loading: slotsLoading, formatTimeSlot } = useTimeSlots(restaurant, selectedDate, {
+    startDate: format(new Date(), 'yyyy-MM-dd'),
+    endDate: format(addDays(new Date(), 6), 'yyyy-MM-dd')
+  });
 
   if (loading) {
     return (
@@ -53,18 +58,15 @@ export function CustomerBooking({ restaurantSlug }: CustomerBookingProps) {
     );
   }
 
-  const selectedDateObj = new Date(selectedDate);
-  const dayOfWeek = selectedDateObj.getDay();
-  const todayHours = operatingHours.find(h => h.day_of_week === dayOfWeek);
-  const isRestaurantClosed = !todayHours || todayHours.is_closed;
+  const selectedHours = getEffectiveHours(selectedDate, operatingHours, servicePeriods, specialDates);
+  const isRestaurantClosed = selectedHours.isClosed;
 
   const availableTimeSlots = timeSlots.filter(slot => slot.available);
   const nextSevenDays = Array.from({ length: 7 }, (_, i) => {
     const date = addDays(new Date(), i);
     return {
       date: format(date, 'yyyy-MM-dd'),
-      display: format(date, i === 0 ? "'Today'" : i === 1 ? "'Tomorrow'" : 'EEE, MMM d'),
-      dayOfWeek: date.getDay()
+      display: format(date, i === 0 ? "'Today'" : i === 1 ? "'Tomorrow'" : 'EEE, MMM d')
     };
   });
 
@@ -154,8 +156,8 @@ export function CustomerBooking({ restaurantSlug }: CustomerBookingProps) {
             </h3>
             <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
               {nextSevenDays.map(day => {
-                const dayHours = operatingHours.find(h => h.day_of_week === day.dayOfWeek);
-                const isClosed = !dayHours || dayHours.is_closed;
+                const dayHours = getEffectiveHours(day.date, operatingHours, servicePeriods, specialDates);
+                const isClosed = dayHours.isClosed;
                 
                 return (
                   <button
@@ -171,13 +173,18 @@ export function CustomerBooking({ restaurantSlug }: CustomerBookingProps) {
                     }`}
                   >
                     <div className="font-medium">{day.display}</div>
+                    {dayHours.specialDate && (
+                      <div className="text-xs mt-1 font-medium truncate">{dayHours.specialDate.name}</div>
+                    )}
                     {isClosed ? (
                       <div className="text-xs mt-1">Closed</div>
-                    ) : dayHours ? (
-                      <div className="text-xs mt-1">
-                        {dayHours.opening_time.slice(0, 5)} - {dayHours.closing_time.slice(0, 5)}
-                      </div>
-                    ) : null}
+                    ) : (
+                      dayHours.periods.map(period => (
+                        <div key={`${period.name}-${period.openingTime}`} className="text-xs mt-1">
+                          {period.openingTime.slice(0, 5)} - {period.closingTime.slice(0, 5)}
+                        </div>
+                      ))
+                    )}
                   </button>
                 );
               })}
@@ -196,9 +203,16 @@ export function CustomerBooking({ restaurantSlug }: CustomerBookingProps) {
                 <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
                   <Clock className="w-8 h-8 text-gray-400" />
                 </div>
-                <h4 className="text-lg font-semibold text-gray-800 mb-2">Restaurant Closed</h4>
+                <h4 className="text-lg font-semibold text-gray-800 mb-2">
+                  {selectedHours.specialDate ? `Closed for ${selectedHours.specialDate.name}` : 'Restaurant Closed'}
+                </h4>
                 <p className="text-gray-600">We're closed on this day. Please select another date.</p>
               </div>
+            ) : slotsLoading && timeSlots.length === 0 ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600 mx-auto mb-4"></div>
+                <p className="text-gray-600">Checking availability...</p>
+              </div>
             ) : timeSlots.length === 0 ? (
               <div className="text-center py-8">
                 <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -208,23 +222,32 @@ export function CustomerBooking({ restaurantSlug }: CustomerBookingProps) {
                 <p className="text-gray-600">Please select a different date.</p>
               </div>
             ) : (
-              <div className="grid grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-3">
-                {timeSlots.map(slot => (
-                  <button
-                    key={slot.time}
-                    onClick={() => slot.available && handleTimeSlotSelect(slot.time)}
-                    disabled={!slot.available}
-                    className={`p-3 rounded-lg border-2 text-center transition-all ${
-                      slot.available
-                        ? 'bg-white text-gray-700 border-gray-300 hover:border-purple-300 hover:bg-purple-50'
-                        : 'bg-gray-100 text-gray-400 border-gray-200 cursor-not-allowed'
-                    }`}
-                  >
-                    <div className="font-medium">{formatTimeSlot(slot.time)}</div>
-                    <div className="text-xs mt-1">
-                      {slot.available ? 'Available' : 'Booked'}
+              <div className="space-y-6">
+                {slotGroups.map(group => (
+                  <div key={group.slots[0].time}>
+                    {group.name && slotGroups.length > 1 && (
+                      <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide mb-3">{group.name}</h4>
+                    )}
+                    <div className="grid grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-3">
+                      {group.slots.map(slot => (
+                        <button
+                          key={slot.time}
+                          onClick={() => slot.available && handleTimeSlotSelect(slot.time)}
+                          disabled={!slot.available}
+                          className={`p-3 rounded-lg border-2 text-center transition-all ${
+                            slot.available
+                              ? 'bg-white text-gray-700 border-gray-300 hover:border-purple-300 hover:bg-purple-50'
+                              : 'bg-gray-100 text-gray-400 border-gray-200 cursor-not-allowed'
+                          }`}
+                        >
+                          <div className="font-medium">{formatTimeSlot(slot.time)}</div>
+                          <div className="text-xs mt-1">
+                            {slot.available ? 'Available' : 'Booked'}
+                          </div>
+                        </button>
+                      ))}
                     </div>
-                  </button>
+                  </div>
                 ))}
               </div>
             )}
@@ -0,0 +1,513 @@
+import React, { useState, useEffect } from 'react';
+import { format, parseISO, isToday } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { formatQuantity, isLowStock } from '../lib/inventory';
+import { Restaurant, MenuItem, InventoryIngredient } from '../types/database';
+import { Package, Plus, Edit2, Trash2, RefreshCw, Save } from 'lucide-react';
+
+interface InventoryManagerProps {
+  restaurant: Restaurant;
+}
+
+interface RestockRow {
+  id: string;
+  kind: 'item' | 'ingredient';
+  name: string;
+  unit: string;
+  stock: number;
+  threshold: number | null;
+  parLevel: number | null;
+  restockedAt: string | null;
+}
+
+const emptyIngredientForm = {
+  name: '',
+  unit: 'portion',
+  stock_quantity: '',
+  low_stock_threshold: '',
+  par_level: ''
+};
+
+const rowKey = (row: Pick<RestockRow, 'kind' | 'id'>) => `${row.kind}:${row.id}`;
+
+export function InventoryManager({ restaurant }: InventoryManagerProps) {
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [ingredients, setIngredients] = useState<InventoryIngredient[]>([]);
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showIngredientForm, setShowIngredientForm] = useState(false);
+  const [editingIngredient, setEditingIngredient] = useState<InventoryIngredient | null>(null);
+  const [ingredientForm, setIngredientForm] = useState(emptyIngredientForm);
+
+  useEffect(() => {
+    fetchInventory();
+  }, [restaurant.id]);
+
+  const fetchInventory = async () => {
+    try {
+      setLoading(true);
+
+      const [itemsResult, ingredientsResult] = await Promise.all([
+        supabase
+          .from('menu_items')
+          .select('*, ingredients:menu_item_ingredients(*)')
+          .eq('restaurant_id', restaurant.id)
+          .order('name'),
+
+        supabase
+          .from('inventory_ingredients')
+          .select('*')
+          .eq('restaurant_id', restaurant.id)
+          .order('name')
+      ]);
+
+      if (itemsResult.error) throw itemsResult.error;
+      if (ingredientsResult.error) throw ingredientsResult.error;
+
+      setMenuItems(itemsResult.data || []);
+      setIngredients(ingredientsResult.data || []);
+      setCounts({});
+    } catch (error) {
+      console.error('Error fetching inventory:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showNotification = (message: string, type: 'success' | 'error' = 'success') => {
+    const notification = document.createElement('div');
+    notification.className = `fixed top-4 right-4 px-4 py-2 rounded-lg shadow-lg z-50 ${
+      type === 'success' ? 'bg-green-500 text-white' : 'bg-red-500 text-white'
+    }`;
+    notification.textContent = message;
+    document.body.appendChild(notification);
+
+    setTimeout(() => {
+      if (document.body.contains(notification)) {
+        document.body.removeChild(notification);
+      }
+    }, 3000);
+  };
+
+  const restockRows: RestockRow[] = [
+    ...menuItems
+      .filter(item => item.stock_quantity !== null)
+      .map(item => ({
+        id: item.id,
+        kind: 'item' as const,
+        name: item.name,
+        unit: 'portion',
+        stock: item.stock_quantity ?? 0,
+        threshold: item.low_stock_threshold,
+        parLevel: item.par_level,
+        restockedAt: item.restocked_at
+      })),
+    ...ingredients.map(ingredient => ({
+      id: ingredient.id,
+      kind: 'ingredient' as const,
+      name: ingredient.name,
+      unit: ingredient.unit,
+      stock: Number(ingredient.stock_quantity),
+      threshold: ingredient.low_stock_threshold,
+      parLevel: ingredient.par_level,
+      restockedAt: ingredient.restocked_at
+    }))
+  ];
+
+  const changedRows = restockRows.filter(row => counts[rowKey(row)] !== undefined && counts[rowKey(row)] !== '');
+
+  const fillToPar = () => {
+    const next: Record<string, string> = {};
+    restockRows.forEach(row => {
+      if (row.parLevel !== null && row.stock < row.parLevel) {
+        next[rowKey(row)] = String(row.parLevel);
+      }
+    });
+    setCounts(next);
+  };
+
+  const saveRestock = async () => {
+    const invalid = changedRows.find(row => {
+      const count = Number(counts[rowKey(row)]);
+      return !Number.isFinite(count) || count < 0 || (row.kind === 'item' && !Number.isInteger(count));
+    });
+    if (invalid) {
+      showNotification(`Enter a valid count for ${invalid.name}`, 'error');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const restockedAt = new Date().toISOString();
+
+      for (const row of changedRows) {
+        const { error } = await supabase
+          .from(row.kind === 'item' ? 'menu_items' : 'inventory_ingredients')
+          .update({ stock_quantity: Number(counts[rowKey(row)]), restocked_at: restockedAt })
+          .eq('id', row.id);
+
+        if (error) throw error;
+      }
+
+      showNotification(`Restocked ${changedRows.length} item${changedRows.length === 1 ? '' : 's'}`);
+      fetchInventory();
+    } catch (error) {
+      console.error('Error saving restock:', error);
+      showNotification('Failed to save restock', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resetIngredientForm = () => {
+    setIngredientForm(emptyIngredientForm);
+    setEditingIngredient(null);
+    setShowIngredientForm(false);
+  };
+
+  const editIngredient = (ingredient: InventoryIngredient) => {
+    setIngredientForm({
+      name: ingredient.name,
+      unit: ingredient.unit,
+      stock_quantity: String(ingredient.stock_quantity),
+      low_stock_threshold: ingredient.low_stock_threshold?.toString() ?? '',
+      par_level: ingredient.par_level?.toString() ?? ''
+    });
+    setEditingIngredient(ingredient);
+    setShowIngredientForm(true);
+  };
+
+  const handleIngredientSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const ingredientData = {
+      name: ingredientForm.name.trim(),
+      unit: ingredientForm.unit.trim() || 'portion',
+      low_stock_threshold: ingredientForm.low_stock_threshold ? parseFloat(ingredientForm.low_stock_threshold) : null,
+      par_level: ingredientForm.par_level ? parseFloat(ingredientForm.par_level) : null
+    };
+
+    try {
+      if (editingIngredient) {
+        const { error } = await supabase
+          .from('inventory_ingredients')
+          .update(ingredientData)
+          .eq('id', editingIngredient.id);
+
+        if (error) throw error;
+        showNotification('Ingredient updated successfully!');
+      } else {
+        const { error } = await supabase
+          .from('inventory_ingredients')
+          .insert({
+            ...ingredientData,
+            restaurant_id: restaurant.id,
+            stock_quantity: parseFloat(ingredientForm.stock_quantity) || 0
+          });
+
+        if (error) throw error;
+        showNotification('Ingredient created successfully!');
+      }
+
+      resetIngredientForm();
+      fetchInventory();
+    } catch (error) {
+      console.error('Error saving ingredient:', error);
+      showNotification('Failed to save ingredient', 'error');
+    }
+  };
+
+  const deleteIngredient = async (ingredient: InventoryIngredient) => {
+    const usedBy = menuItems.filter(item => item.ingredients?.some(link => link.ingredient_id === ingredient.id));
+    const warning = usedBy.length > 0 ? ` It is used by ${usedBy.map(item => item.name).join(', ')}.` : '';
+    if (!confirm(`Delete ingredient "${ingredient.name}"?${warning}`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('inventory_ingredients')
+        .delete()
+        .eq('id', ingredient.id);
+
+      if (error) throw error;
+      showNotification('Ingredient deleted successfully!');
+      fetchInventory();
+    } catch (error) {
+      console.error('Error deleting ingredient:', error);
+      showNotification('Failed to delete ingredient', 'error');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="animate-pulse">
+          <div className="h-6 bg-gray-200 rounded w-1/4 mb-4"></div>
+          <div className="space-y-3">
+            <div className="h-4 bg-gray-200 rounded"></div>
+            <div className="h-4 bg-gray-200 rounded w-5/6"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Daily Restock */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800 flex items-center">
+              <Package className="w-5 h-5 mr-2" />
+              Daily Restock
+            </h2>
+            <p className="text-gray-600">
+              Enter today's counts. Items that ran out come back on the menu once restocked.
+            </p>
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={fillToPar}
+              className="flex items-center px-3 py-2 border border-gray-300 rounded text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Fill to Par
+            </button>
+            <button
+              onClick={saveRestock}
+              disabled={saving || changedRows.length === 0}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {saving ? 'Saving...' : `Save Counts${changedRows.length > 0 ? ` (${changedRows.length})` : ''}`}
+            </button>
+          </div>
+        </div>
+
+        {restockRows.length === 0 ? (
+          <div className="text-center py-8">
+            <Package className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">
+              Nothing is being counted yet. Add ingredients below, or turn on stock tracking for a menu item in Menu Management.
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-600">
+                  <th className="py-2 pr-4 font-medium">Name</th>
+                  <th className="py-2 pr-4 font-medium">On Hand</th>
+                  <th className="py-2 pr-4 font-medium">Par</th>
+                  <th className="py-2 pr-4 font-medium">Last Restocked</th>
+                  <th className="py-2 font-medium">New Count</th>
+                </tr>
+              </thead>
+              <tbody>
+                {restockRows.map(row => (
+                  <tr key={rowKey(row)} className="border-b last:border-0">
+                    <td className="py-2 pr-4">
+                      <span className="font-medium text-gray-800">{row.name}</span>
+                      <span className="ml-2 text-xs text-gray-500">{row.kind === 'item' ? 'Menu item' : 'Ingredient'}</span>
+                    </td>
+                    <td className={`py-2 pr-4 ${
+                      row.stock <= 0 ? 'text-red-600 font-medium' : isLowStock(row.stock, row.threshold) ? 'text-amber-600 font-medium' : 'text-gray-800'
+                    }`}>
+                      {formatQuantity(row.stock, row.unit)}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-600">
+                      {row.parLevel !== null ? formatQuantity(row.parLevel, row.unit) : '-'}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-600">
+                      {row.restockedAt
+                        ? isToday(parseISO(row.restockedAt)) ? `Today ${format(parseISO(row.restockedAt), 'h:mm a')}` : format(parseISO(row.restockedAt), 'MMM d')
+                        : 'Never'}
+                    </td>
+                    <td className="py-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step={row.kind === 'item' ? '1' : '0.01'}
+                        value={counts[rowKey(row)] ?? ''}
+                        onChange={(e) => setCounts(prev => ({ ...prev, [rowKey(row)]: e.target.value }))}
+                        placeholder={String(row.stock)}
+                        className="w-24 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Ingredients */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 className="text-lg font-medium">Ingredients</h3>
+            <p className="text-sm text-gray-600">
+              Link ingredients to menu items in Menu Management to deduct them with every order.
+            </p>
+          </div>
+          <button
+            onClick={() => setShowIngredientForm(true)}
+            className="flex items-center px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Ingredient
+          </button>
+        </div>
+
+        {ingredients.length === 0 ? (
+          <p className="text-gray-600 text-center py-4">No ingredients yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {ingredients.map(ingredient => {
+              const usedBy = menuItems.filter(item => item.ingredients?.some(link => link.ingredient_id === ingredient.id));
+              return (
+                <div key={ingredient.id} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex justify-between items-start mb-2">
+                    <h4 className="font-semibold text-gray-800">{ingredient.name}</h4>
+                    <div className="flex space-x-1">
+                      <button
+                        onClick={() => editIngredient(ingredient)}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => deleteIngredient(ingredient)}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                  <p className={`text-sm ${isLowStock(Number(ingredient.stock_quantity), ingredient.low_stock_threshold) ? 'text-amber-600' : 'text-gray-700'}`}>
+                    {formatQuantity(ingredient.stock_quantity, ingredient.unit)} on hand
+                    {ingredient.low_stock_threshold !== null && ` • low at ${formatQuantity(ingredient.low_stock_threshold, ingredient.unit)}`}
+                  </p>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {usedBy.length > 0 ? `Used by ${usedBy.map(item => item.name).join(', ')}` : 'Not used by any menu item'}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Ingredient Form Modal */}
+      {showIngredientForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="p-6">
+              <h3 className="text-lg font-semibold mb-4">
+                {editingIngredient ? 'Edit Ingredient' : 'Add New Ingredient'}
+              </h3>
+
+              <form onSubmit={handleIngredientSubmit} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Ingredient Name *
+                  </label>
+                  <input
+                    type="text"
+                    required
+                    value={ingredientForm.name}
+                    onChange={(e) => setIngredientForm({ ...ingredientForm, name: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="e.g., Tiger Prawns"
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Unit
+                    </label>
+                    <input
+                      type="text"
+                      value={ingredientForm.unit}
+                      onChange={(e) => setIngredientForm({ ...ingredientForm, unit: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="e.g., kg, pcs, portion"
+                    />
+                  </div>
+                  {!editingIngredient && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        On Hand
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={ingredientForm.stock_quantity}
+                        onChange={(e) => setIngredientForm({ ...ingredientForm, stock_quantity: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        placeholder="0"
+                      />
+                    </div>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Low Stock Alert At
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={ingredientForm.low_stock_threshold}
+                      onChange={(e) => setIngredientForm({ ...ingredientForm, low_stock_threshold: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="No alert"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Par Level
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={ingredientForm.par_level}
+                      onChange={(e) => setIngredientForm({ ...ingredientForm, par_level: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="Restock up to"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex space-x-4 pt-4">
+                  <button
+                    type="button"
+                    onClick={resetIngredientForm}
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                  >
+                    {editingIngredient ? 'Update' : 'Create'}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
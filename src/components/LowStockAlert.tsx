@@ -0,0 +1,83 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { formatQuantity, getLowStock, LowStockEntry } from '../lib/inventory';
+import { Restaurant } from '../types/database';
+import { Package } from 'lucide-react';
+
+interface LowStockAlertProps {
+  restaurant: Restaurant;
+  onRestock: () => void;
+}
+
+export function LowStockAlert({ restaurant, onRestock }: LowStockAlertProps) {
+  const [entries, setEntries] = useState<LowStockEntry[]>([]);
+
+  useEffect(() => {
+    fetchLowStock();
+
+    // Stock drops as orders come in, so follow it live
+    const channel = supabase
+      .channel('low_stock_changes')
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'menu_items',
+        filter: `restaurant_id=eq.${restaurant.id}`
+      }, fetchLowStock)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'inventory_ingredients',
+        filter: `restaurant_id=eq.${restaurant.id}`
+      }, fetchLowStock)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [restaurant.id]);
+
+  const fetchLowStock = async () => {
+    try {
+      setEntries(await getLowStock(restaurant.id));
+    } catch (error) {
+      console.error('Error fetching low stock:', error);
+    }
+  };
+
+  if (entries.length === 0) return null;
+
+  const outOfStock = entries.filter(entry => entry.stock <= 0);
+  const runningLow = entries.filter(entry => entry.stock > 0);
+
+  return (
+    <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-start justify-between">
+      <div className="flex items-start">
+        <Package className="w-5 h-5 text-amber-600 mr-3 mt-0.5" />
+        <div className="text-sm">
+          <p className="font-medium text-amber-800">
+            {outOfStock.length > 0 && `${outOfStock.length} out of stock`}
+            {outOfStock.length > 0 && runningLow.length > 0 && ' • '}
+            {runningLow.length > 0 && `${runningLow.length} running low`}
+          </p>
+          {outOfStock.length > 0 && (
+            <p className="text-red-700 mt-1">
+              Out: {outOfStock.map(entry => entry.name).join(', ')}
+            </p>
+          )}
+          {runningLow.length > 0 && (
+            <p className="text-amber-700 mt-1">
+              Low: {runningLow.map(entry => `${entry.name} (${formatQuantity(entry.stock, entry.unit)} left)`).join(', ')}
+            </p>
+          )}
+        </div>
+      </div>
+      <button
+        onClick={onRestock}
+        className="ml-4 px-3 py-1 text-sm bg-amber-600 text-white rounded hover:bg-amber-700 transition-colors whitespace-nowrap"
+      >
+        Restock
+      </button>
+    </div>
+  );
+}
@@ -1,6 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { Restaurant } from '../types/database';
+import {
+  DiscountCodeInput,
+  LoyaltySettingsInput,
+  defaultLoyaltySettings,
+  deleteDiscountCode,
+  describeDiscountCode,
+  fetchDiscountCodes,
+  fetchLoyaltySettings,
+  saveDiscountCode,
+  saveLoyaltySettings
+} from '../lib/loyalty';
+import { DiscountCode, DiscountCodeType, LoyaltyMember, Restaurant } from '../types/database';
+import { format } from 'date-fns';
 import { 
   Gift, 
   Users, 
@@ -14,37 +26,14 @@ import {
   Tag,
   Star,
   TrendingUp,
-  Award
+  Award,
+  X
 } from 'lucide-react';
 
 interface LoyaltyManagementProps {
   restaurant: Restaurant;
 }
 
-interface LoyaltySettings {
-  discount_threshold: number;
-  discount_percentage: number;
-  points_per_dollar: number;
-  welcome_bonus: number;
-  birthday_bonus: number;
-  referral_bonus: number;
-}
-
-interface DiscountCode {
-  id: string;
-  code: string;
-  description: string;
-  discount_type: 'percentage' | 'fixed';
-  discount_value: number;
-  min_order_amount: number;
-  max_uses: number | null;
-  current_uses: number;
-  valid_from: string;
-  valid_until: string;
-  is_active: boolean;
-  created_at: string;
-}
-
 interface LoyaltyStats {
   total_members: number;
   active_members: number;
@@ -55,14 +44,7 @@ interface LoyaltyStats {
 
 export function LoyaltyManagement({ restaurant }: LoyaltyManagementProps) {
   const [activeTab, setActiveTab] = useState<'overview' | 'settings' | 'codes' | 'members'>('overview');
-  const [loyaltySettings, setLoyaltySettings] = useState<LoyaltySettings>({
-    discount_threshold: 100,
-    discount_percentage: 10,
-    points_per_dollar: 1,
-    welcome_bonus: 0,
-    birthday_bonus: 0,
-    referral_bonus: 0
-  });
+  const [loyaltySettings, setLoyaltySettings] = useState<LoyaltySettingsInput>(defaultLoyaltySettings);
   const [discountCodes, setDiscountCodes] = useState<DiscountCode[]>([]);
   const [loyaltyStats, setLoyaltyStats] = useState<LoyaltyStats | null>(null);
   const [loading, setLoading] = useState(true);
@@ -70,16 +52,17 @@ export function LoyaltyManagement({ restaurant }: LoyaltyManagementProps) {
   const [showCodeForm, setShowCodeForm] = useState(false);
   const [editingCode, setEditingCode] = useState<DiscountCode | null>(null);
 
-  const [codeForm, setCodeForm] = useState({
+  const emptyCodeForm = {
     code: '',
     description: '',
-    discount_type: 'percentage' as 'percentage' | 'fixed',
+    discount_type: 'percentage' as DiscountCodeType,
     discount_value: 0,
     min_order_amount: 0,
     max_uses: null as number | null,
     valid_from: '',
     valid_until: ''
-  });
+  };
+  const [codeForm, setCodeForm] = useState(emptyCodeForm);
 
   useEffect(() => {
     fetchLoyaltyData();
@@ -89,21 +72,24 @@ export function LoyaltyManagement({ restaurant }: LoyaltyManagementProps) {
     try {
       setLoading(true);
       
-      // Fetch loyalty statistics
-      const { data: stats, error: statsError } = await supabase
-        .from('loyalty_users')
-        .select('total_spent_sgd, order_count, discount_eligible, last_order_date')
-        .eq('restaurant_id', restaurant.id);
+      // Fetch loyalty statistics; members are counted once across a group
+      // that shares loyalty
+      const { data, error: statsError } = await supabase
+        .rpc('get_loyalty_members', { p_restaurant_id: restaurant.id });
 
       if (statsError) throw statsError;
 
+      const stats = data as LoyaltyMember[] | null;
+      setLoyaltySettings(await fetchLoyaltySettings(restaurant.id));
+      setDiscountCodes(await fetchDiscountCodes(restaurant.id));
+
       if (stats) {
         const totalMembers = stats.length;
         const activeMembers = stats.filter(s => s.last_order_date && 
           new Date(s.last_order_date) > new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
         ).length;
-        const totalSpent = stats.reduce((sum, s) => sum + s.total_spent_sgd, 0);
-        const avgOrderValue = totalSpent / Math.max(stats.reduce((sum, s) => sum + s.order_count, 0), 1);
+        const totalSpent = stats.reduce((sum, s) => sum + Number(s.total_spent_sgd), 0);
+        const avgOrderValue = totalSpent / Math.max(stats.reduce((sum, s) => sum + Number(s.order_count), 0), 1);
         const discountEligibleCount = stats.filter(s => s.discount_eligible).length;
 
         setLoyaltyStats({
@@ -140,8 +126,7 @@ export function LoyaltyManagement({ restaurant }: LoyaltyManagementProps) {
   const handleSaveSettings = async () => {
     setSaving(true);
     try {
-      // In a real implementation, you would save these settings to a restaurant_settings table
-      // For now, we'll just show a success message
+      await saveLoyaltySettings(restaurant.id, loyaltySettings);
       showNotification('Loyalty settings saved successfully!');
     } catch (error) {
       console.error('Error saving settings:', error);
@@ -151,6 +136,93 @@ export function LoyaltyManagement({ restaurant }: LoyaltyManagementProps) {
     }
   };
 
+  const openCodeForm = (code?: DiscountCode) => {
+    setEditingCode(code || null);
+    setCodeForm(code ? {
+      code: code.code,
+      description: code.description || '',
+      discount_type: code.discount_type,
+      discount_value: code.discount_value,
+      min_order_amount: code.min_order_amount,
+      max_uses: code.max_uses,
+      valid_from: code.valid_from || '',
+      valid_until: code.valid_until || ''
+    } : emptyCodeForm);
+    setShowCodeForm(true);
+  };
+
+  const closeCodeForm = () => {
+    setShowCodeForm(false);
+    setEditingCode(null);
+    setCodeForm(emptyCodeForm);
+  };
+
+  const codeInput = (code: Omit<DiscountCodeInput, 'is_active'>, isActive: boolean): DiscountCodeInput => ({
+    ...code,
+    description: code.description?.trim() || null,
+    valid_from: code.valid_from || null,
+    valid_until: code.valid_until || null,
+    is_active: isActive
+  });
+
+  const handleSaveCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (codeForm.discount_type === 'percentage' && codeForm.discount_value > 100) {
+      showNotification('A percentage discount can be at most 100%', 'error');
+      return;
+    }
+    if (codeForm.valid_from && codeForm.valid_until && codeForm.valid_until < codeForm.valid_from) {
+      showNotification('The end date must be on or after the start date', 'error');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveDiscountCode(restaurant.id, codeInput(codeForm, editingCode?.is_active ?? true), editingCode?.id);
+      setDiscountCodes(await fetchDiscountCodes(restaurant.id));
+      showNotification(editingCode ? 'Discount code updated' : 'Discount code created');
+      closeCodeForm();
+    } catch (error) {
+      console.error('Error saving discount code:', error);
+      showNotification(error instanceof Error ? error.message : 'Failed to save discount code', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleCode = async (code: DiscountCode) => {
+    try {
+      await saveDiscountCode(restaurant.id, codeInput(code, !code.is_active), code.id);
+      setDiscountCodes(await fetchDiscountCodes(restaurant.id));
+    } catch (error) {
+      console.error('Error updating discount code:', error);
+      showNotification('Failed to update discount code', 'error');
+    }
+  };
+
+  const handleDeleteCode = async (code: DiscountCode) => {
+    if (!confirm(`Delete the code ${code.code}? Orders that already used it keep their discount.`)) return;
+
+    try {
+      await deleteDiscountCode(code.id);
+      setDiscountCodes(discountCodes.filter(c => c.id !== code.id));
+      showNotification('Discount code deleted');
+    } catch (error) {
+      console.error('Error deleting discount code:', error);
+      showNotification('Failed to delete discount code', 'error');
+    }
+  };
+
+  const codeStatus = (code: DiscountCode) => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    if (!code.is_active) return { label: 'Paused', className: 'bg-gray-100 text-gray-700' };
+    if (code.valid_until && code.valid_until < today) return { label: 'Expired', className: 'bg-red-100 text-red-700' };
+    if (code.max_uses !== null && code.current_uses >= code.max_uses) return { label: 'Used up', className: 'bg-red-100 text-red-700' };
+    if (code.valid_from && code.valid_from > today) return { label: 'Scheduled', className: 'bg-blue-100 text-blue-700' };
+    return { label: 'Active', className: 'bg-green-100 text-green-700' };
+  };
+
   const formatPrice = (price: number) => `S$${price.toFixed(2)}`;
 
   if (loading) {
@@ -172,6 +244,11 @@ export function LoyaltyManagement({ restaurant }: LoyaltyManagementProps) {
           <p className="text-gray-600">
             Configure loyalty programs, discount codes, and customer rewards
           </p>
+          {restaurant.group_id && (
+            <p className="text-sm text-gray-500 mt-1">
+              When your group shares loyalty, members and spending include every outlet in it.
+            </p>
+          )}
         </div>
 
         {/* Navigation Tabs */}
@@ -275,7 +352,7 @@ export function LoyaltyManagement({ restaurant }: LoyaltyManagementProps) {
                   <div className="ml-4">
                     <p className="text-sm font-medium text-gray-600">Discount Eligible</p>
                     <p className="text-2xl font-bold text-gray-900">{loyaltyStats.discount_eligible_count}</p>
-                    <p className="text-xs text-gray-500">Members with S$100+ spent</p>
+                    <p className="text-xs text-gray-500">Members with {formatPrice(loyaltySettings.discount_threshold)}+ spent</p>
                   </div>
                 </div>
               </div>
@@ -457,7 +534,7 @@ export function LoyaltyManagement({ restaurant }: LoyaltyManagementProps) {
             <div className="flex justify-between items-center mb-6">
               <h3 className="text-lg font-semibold text-gray-800">Discount Codes</h3>
               <button
-                onClick={() => setShowCodeForm(true)}
+                onClick={() => openCodeForm()}
                 className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
               >
                 <Plus className="w-4 h-4 mr-2" />
@@ -465,22 +542,230 @@ export function LoyaltyManagement({ restaurant }: LoyaltyManagementProps) {
               </button>
             </div>
 
-            <div className="text-center py-8">
-              <Tag className="w-16 h-16 text-gray-400 mx-auto mb-4" />
-              <h4 className="text-lg font-semibold text-gray-800 mb-2">Discount Codes Coming Soon</h4>
-              <p className="text-gray-600 mb-4">
-                Create and manage promotional discount codes for your customers.
-              </p>
-              <div className="bg-blue-50 rounded-lg p-4 border border-blue-200 max-w-md mx-auto">
-                <h5 className="font-semibold text-blue-800 mb-2">Planned Features:</h5>
-                <ul className="text-sm text-blue-700 space-y-1">
-                  <li>• Percentage and fixed amount discounts</li>
-                  <li>• Minimum order requirements</li>
-                  <li>• Usage limits and expiry dates</li>
-                  <li>• Customer-specific codes</li>
-                  <li>• Bulk code generation</li>
-                </ul>
+            {discountCodes.length === 0 ? (
+              <div className="text-center py-8">
+                <Tag className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+                <h4 className="text-lg font-semibold text-gray-800 mb-2">No Discount Codes Yet</h4>
+                <p className="text-gray-600">
+                  Create a code and diners can enter it in their cart when they order.
+                </p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Discount</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Min. Order</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Uses</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Valid</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                      <th className="px-4 py-3" />
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {discountCodes.map(code => {
+                      const status = codeStatus(code);
+                      return (
+                        <tr key={code.id}>
+                          <td className="px-4 py-3">
+                            <p className="font-mono font-semibold text-gray-800">{code.code}</p>
+                            {code.description && (
+                              <p className="text-xs text-gray-500">{code.description}</p>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-700">{describeDiscountCode(code)}</td>
+                          <td className="px-4 py-3 text-sm text-gray-700">
+                            {code.min_order_amount > 0 ? formatPrice(code.min_order_amount) : '—'}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-700">
+                            {code.current_uses}{code.max_uses !== null && ` / ${code.max_uses}`}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-700">
+                            {code.valid_from || code.valid_until ? (
+                              <>
+                                {code.valid_from ? format(new Date(`${code.valid_from}T00:00:00`), 'MMM d, yyyy') : 'Now'}
+                                {' – '}
+                                {code.valid_until ? format(new Date(`${code.valid_until}T00:00:00`), 'MMM d, yyyy') : 'No end'}
+                              </>
+                            ) : 'Always'}
+                          </td>
+                          <td className="px-4 py-3">
+                            <span className={`px-2 py-1 text-xs font-medium rounded-full ${status.className}`}>
+                              {status.label}
+                            </span>
+                          </td>
+                          <td className="px-4 py-3">
+                            <div className="flex items-center justify-end space-x-2">
+                              <button
+                                onClick={() => handleToggleCode(code)}
+                                className="text-sm text-gray-600 hover:text-gray-800"
+                              >
+                                {code.is_active ? 'Pause' : 'Resume'}
+                              </button>
+                              <button
+                                onClick={() => openCodeForm(code)}
+                                className="p-1 text-blue-600 hover:text-blue-800"
+                                title="Edit code"
+                              >
+                                <Edit2 className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => handleDeleteCode(code)}
+                                className="p-1 text-red-600 hover:text-red-800"
+                                title="Delete code"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
               </div>
+            )}
+          </div>
+        )}
+
+        {/* Discount Code Form */}
+        {showCodeForm && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+              <div className="flex items-center justify-between p-6 border-b">
+                <h3 className="text-lg font-semibold text-gray-800">
+                  {editingCode ? `Edit ${editingCode.code}` : 'Create Discount Code'}
+                </h3>
+                <button onClick={closeCodeForm} className="text-gray-400 hover:text-gray-600">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <form onSubmit={handleSaveCode} className="p-6 space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Code *</label>
+                  <input
+                    type="text"
+                    required
+                    pattern="[A-Z0-9_\-]{3,32}"
+                    title="3-32 letters, numbers, dashes or underscores"
+                    value={codeForm.code}
+                    onChange={(e) => setCodeForm({ ...codeForm, code: e.target.value.toUpperCase().replace(/\s/g, '') })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="SUMMER10"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+                  <input
+                    type="text"
+                    value={codeForm.description}
+                    onChange={(e) => setCodeForm({ ...codeForm, description: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Summer promotion"
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Discount Type</label>
+                    <select
+                      value={codeForm.discount_type}
+                      onChange={(e) => setCodeForm({ ...codeForm, discount_type: e.target.value as DiscountCodeType })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="percentage">Percentage (%)</option>
+                      <option value="fixed">Fixed amount (SGD)</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {codeForm.discount_type === 'percentage' ? 'Percentage Off *' : 'Amount Off (SGD) *'}
+                    </label>
+                    <input
+                      type="number"
+                      required
+                      min="0.01"
+                      max={codeForm.discount_type === 'percentage' ? '100' : undefined}
+                      step="0.01"
+                      value={codeForm.discount_value || ''}
+                      onChange={(e) => setCodeForm({ ...codeForm, discount_value: parseFloat(e.target.value) || 0 })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Minimum Order (SGD)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={codeForm.min_order_amount}
+                      onChange={(e) => setCodeForm({ ...codeForm, min_order_amount: parseFloat(e.target.value) || 0 })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Maximum Uses</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={codeForm.max_uses ?? ''}
+                      onChange={(e) => setCodeForm({ ...codeForm, max_uses: parseInt(e.target.value) || null })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="Unlimited"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Valid From</label>
+                    <input
+                      type="date"
+                      value={codeForm.valid_from}
+                      onChange={(e) => setCodeForm({ ...codeForm, valid_from: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Valid Until</label>
+                    <input
+                      type="date"
+                      value={codeForm.valid_until}
+                      min={codeForm.valid_from || undefined}
+                      onChange={(e) => setCodeForm({ ...codeForm, valid_until: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Leave the dates empty for a code that works until you pause it. Codes apply on top of the loyalty discount.
+                </p>
+
+                <div className="flex justify-end space-x-3 pt-4 border-t">
+                  <button
+                    type="button"
+                    onClick={closeCodeForm}
+                    className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="flex items-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:opacity-50"
+                  >
+                    <Save className="w-4 h-4 mr-2" />
+                    {saving ? 'Saving...' : editingCode ? 'Save Changes' : 'Create Code'}
+                  </button>
+                </div>
+              </form>
             </div>
           </div>
         )}
@@ -0,0 +1,572 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { useTimeSlots } from '../hooks/useTimeSlots';
+import { formatTableNumbers } from '../lib/tableAssignment';
+import { flushNotifications } from '../lib/notifications';
+import { formatPaymentAmount, paymentStatusLabels, settleBookingPayments, startBookingPayment } from '../lib/bookingPayments';
+import { formatDiningDuration, getBookingEndTime } from '../lib/diningDuration';
+import { BookingPaymentStatus, ManagedBooking, Restaurant } from '../types/database';
+import { format, addDays, parseISO, differenceInSeconds } from 'date-fns';
+import { Calendar, Clock, Users, Phone, ChefHat, AlertCircle, CheckCircle, XCircle, Edit, MapPin, Bell, CreditCard } from 'lucide-react';
+
+interface ManageBookingProps {
+  manageToken?: string;
+}
+
+interface GuestPayment {
+  payment_type: 'deposit' | 'guarantee';
+  amount: number;
+  currency: string;
+  status: BookingPaymentStatus;
+}
+
+const statusLabels: Record<string, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  seated: 'Seated',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  no_show: 'No show',
+  waiting: 'On the waiting list',
+  notified: 'Table offered',
+  expired: 'Expired'
+};
+
+export function ManageBooking({ manageToken }: ManageBookingProps) {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const activeToken = manageToken || token;
+  const paymentReturn = searchParams.get('payment');
+
+  const [booking, setBooking] = useState<ManagedBooking | null>(null);
+  const [payment, setPayment] = useState<GuestPayment | null>(null);
+  const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [newDate, setNewDate] = useState('');
+  const [newTime, setNewTime] = useState('');
+  const [newPartySize, setNewPartySize] = useState(2);
+  const [saving, setSaving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [now, setNow] = useState(new Date());
+
+  // Only load slots while the guest is picking a new time
+  const { servicePeriods, loading: slotsLoading, formatTimeSlot } = useTimeSlots(editing ? restaurant : null, newDate);
+
+  useEffect(() => {
+    if (activeToken) {
+      fetchBooking();
+    } else {
+      setError('Invalid booking link. Please use the link from your confirmation.');
+      setLoading(false);
+    }
+  }, [activeToken]);
+
+  // Stripe confirms the payment by webhook, so keep checking until the booking is confirmed
+  useEffect(() => {
+    if (paymentReturn !== 'success' || booking?.status !== 'pending') return;
+
+    const timeout = setTimeout(fetchBooking, 3000);
+    return () => clearTimeout(timeout);
+  }, [paymentReturn, booking]);
+
+  // Count down an open table offer
+  useEffect(() => {
+    if (!booking?.offer_expires_at) return;
+
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [booking?.offer_expires_at]);
+
+  const fetchBooking = async () => {
+    try {
+      setError(null);
+
+      const { data, error: bookingError } = await supabase
+        .rpc('get_managed_booking', { p_token: activeToken });
+
+      if (bookingError) throw bookingError;
+      if (!data || data.length === 0) {
+        throw new Error("We couldn't find this booking. Please check the link from your confirmation.");
+      }
+
+      const managedBooking = data[0] as ManagedBooking;
+      setBooking(managedBooking);
+
+      if (managedBooking.entry_type === 'booking') {
+        const { data: paymentData, error: paymentError } = await supabase
+          .rpc('get_booking_payment', { p_token: activeToken });
+
+        if (paymentError) throw paymentError;
+        setPayment(paymentData?.[0] ?? null);
+      }
+
+      const { data: restaurantData, error: restaurantError } = await supabase
+        .from('restaurants')
+        .select('*')
+        .eq('id', managedBooking.restaurant_id)
+        .single();
+
+      if (restaurantError) throw restaurantError;
+      setRestaurant(restaurantData);
+    } catch (err) {
+      console.error('Error loading managed booking:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load booking');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEditing = () => {
+    if (!booking) return;
+    setNewDate(booking.booking_date);
+    setNewTime(booking.booking_time.slice(0, 5));
+    setNewPartySize(booking.party_size);
+    setActionError(null);
+    setActionMessage(null);
+    setEditing(true);
+  };
+
+  const handleSaveChanges = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTime) {
+      setActionError('Please choose a time');
+      return;
+    }
+
+    setSaving(true);
+    setActionError(null);
+
+    try {
+      const { error: modifyError } = await supabase
+        .rpc('modify_booking_by_token', {
+          p_token: activeToken,
+          p_date: newDate,
+          p_time: newTime,
+          p_party_size: newPartySize
+        });
+
+      if (modifyError) throw modifyError;
+      flushNotifications();
+
+      setEditing(false);
+      setActionMessage('Your booking has been updated.');
+      await fetchBooking();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to update booking');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!booking) return;
+    const prompt = booking.entry_type === 'waitlist'
+      ? 'Leave the waiting list?'
+      : 'Are you sure you want to cancel this booking?';
+    if (!confirm(prompt)) return;
+
+    setSaving(true);
+    setActionError(null);
+
+    try {
+      const { error: cancelError } = await supabase
+        .rpc('cancel_booking_by_token', { p_token: activeToken });
+
+      if (cancelError) throw cancelError;
+      flushNotifications();
+      settleBookingPayments();
+
+      setEditing(false);
+      setActionMessage(booking.entry_type === 'waitlist'
+        ? "You've been removed from the waiting list."
+        : 'Your booking has been cancelled.');
+      await fetchBooking();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to cancel booking');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePayment = async () => {
+    if (!activeToken) return;
+
+    setSaving(true);
+    setActionError(null);
+
+    try {
+      await startBookingPayment(activeToken);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to start payment');
+      setSaving(false);
+    }
+  };
+
+  const handleOfferResponse = async (accept: boolean) => {
+    if (!accept && !confirm('Decline this table? It will be offered to the next guest.')) return;
+
+    setSaving(true);
+    setActionError(null);
+
+    try {
+      const { data: bookingToken, error: respondError } = await supabase
+        .rpc('respond_to_waitlist_offer', { p_token: activeToken, p_accept: accept });
+
+      if (respondError) throw respondError;
+      flushNotifications();
+
+      if (accept && bookingToken) {
+        // The booking has its own manage link from now on
+        navigate(`/manage/${bookingToken}`, { replace: true });
+        return;
+      }
+
+      setActionMessage("You've declined the table and left the waiting list.");
+      await fetchBooking();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to respond to the offer');
+      await fetchBooking();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatTime = (time: string) => {
+    const [hour, minute] = time.split(':').map(Number);
+    const period = hour >= 12 ? 'PM' : 'AM';
+    const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
+    return `${displayHour}:${minute.toString().padStart(2, '0')} ${period}`;
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-100 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-amber-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading your booking...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !booking) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-100 flex items-center justify-center">
+        <div className="bg-red-100 border border-red-300 rounded-lg p-6 max-w-md text-center">
+          <h2 className="text-red-800 font-semibold mb-2">Unable to Load Booking</h2>
+          <p className="text-red-600 text-sm">{error || 'Booking not found'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const isWaitlist = booking.entry_type === 'waitlist';
+  const offerSecondsLeft = booking.offer_expires_at
+    ? Math.max(0, differenceInSeconds(parseISO(booking.offer_expires_at), now))
+    : 0;
+  const hasOpenOffer = booking.status === 'notified' && offerSecondsLeft > 0;
+  const isActive = ['pending', 'confirmed', 'waiting', 'notified'].includes(booking.status);
+  const canModify = !isWaitlist && booking.can_change;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-100">
+      <header className="bg-white shadow-lg">
+        <div className="max-w-2xl mx-auto px-4 sm:px-6 py-8 text-center">
+          <div className="flex justify-center mb-4">
+            <div className="w-16 h-16 bg-amber-100 rounded-full flex items-center justify-center">
+              <ChefHat className="w-8 h-8 text-amber-600" />
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold text-gray-800 mb-2">{booking.restaurant_name}</h1>
+          <p className="text-gray-600">{isWaitlist ? 'Your waiting list request' : 'Your reservation'}</p>
+        </div>
+      </header>
+
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 py-8 space-y-6">
+        {actionMessage && (
+          <div className="p-3 bg-green-100 border border-green-300 rounded text-green-700 flex items-center">
+            <CheckCircle className="w-4 h-4 mr-2" />
+            {actionMessage}
+          </div>
+        )}
+
+        {actionError && (
+          <div className="p-3 bg-red-100 border border-red-300 rounded text-red-700 flex items-center">
+            <AlertCircle className="w-4 h-4 mr-2" />
+            {actionError}
+          </div>
+        )}
+
+        {/* Booking Details */}
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex justify-between items-start mb-4">
+            <h2 className="text-xl font-semibold text-gray-800">
+              {booking.customer_name ? `Hi ${booking.customer_name}` : 'Booking Details'}
+            </h2>
+            <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+              isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+            }`}>
+              {statusLabels[booking.status] || booking.status}
+            </span>
+          </div>
+
+          <div className="space-y-3 text-gray-700">
+            <div className="flex items-center">
+              <Calendar className="w-4 h-4 mr-3 text-amber-600" />
+              {format(parseISO(booking.booking_date), 'EEEE, MMMM d, yyyy')}
+            </div>
+            <div className="flex items-center">
+              <Clock className="w-4 h-4 mr-3 text-amber-600" />
+              {formatTime(booking.booking_time)}
+              {!isWaitlist && (
+                <span className="ml-2 text-sm text-gray-500">
+                  (table held for {formatDiningDuration(booking.expected_duration_minutes)}, until {formatTime(getBookingEndTime(booking.booking_time, booking.expected_duration_minutes))})
+                </span>
+              )}
+            </div>
+            <div className="flex items-center">
+              <Users className="w-4 h-4 mr-3 text-amber-600" />
+              {booking.party_size} {booking.party_size === 1 ? 'Guest' : 'Guests'}
+            </div>
+            {booking.table_numbers && booking.table_numbers.length > 0 && isActive && (
+              <div className="flex items-center">
+                <MapPin className="w-4 h-4 mr-3 text-amber-600" />
+                {booking.table_numbers.length > 1 ? 'Tables' : 'Table'} {formatTableNumbers(booking.table_numbers)}
+              </div>
+            )}
+          </div>
+
+          {isWaitlist && booking.waitlist_position && (
+            <div className="mt-4 p-4 bg-orange-50 rounded-lg border border-orange-200 text-orange-800">
+              <div className="font-semibold">You're #{booking.waitlist_position} on the waiting list</div>
+              <p className="text-sm mt-1">We'll contact you as soon as a table becomes available for this time.</p>
+            </div>
+          )}
+        </div>
+
+        {/* Deposit / Card Guarantee */}
+        {payment && (
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <div className="flex items-center mb-2">
+              <CreditCard className="w-5 h-5 mr-2 text-amber-600" />
+              <h3 className="text-lg font-semibold text-gray-800">
+                {payment.payment_type === 'deposit' ? 'Deposit' : 'Card Guarantee'}
+              </h3>
+              <span className="ml-auto text-sm font-medium text-gray-700">
+                {formatPaymentAmount(payment.amount, payment.currency)}
+              </span>
+            </div>
+            {payment.status === 'pending' && booking.status === 'pending' ? (
+              paymentReturn === 'success' ? (
+                <p className="text-sm text-gray-600">Thanks! We're confirming your payment - this page will update in a moment.</p>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-600 mb-4">
+                    {payment.payment_type === 'deposit'
+                      ? 'Your table is being held. Pay the deposit to confirm your booking.'
+                      : "Your table is being held. Add a card to confirm your booking - you'll only be charged if you don't show up."}
+                  </p>
+                  <button
+                    onClick={handlePayment}
+                    disabled={saving}
+                    className="w-full flex items-center justify-center px-4 py-2 bg-amber-600 text-white rounded-md hover:bg-amber-700 transition-colors disabled:opacity-50"
+                  >
+                    <CreditCard className="w-4 h-4 mr-2" />
+                    {payment.payment_type === 'deposit' ? 'Pay Deposit' : 'Add Card'}
+                  </button>
+                </>
+              )
+            ) : (
+              <p className="text-sm text-gray-600">{paymentStatusLabels[payment.status]}</p>
+            )}
+          </div>
+        )}
+
+        {/* Table Offer */}
+        {booking.status === 'notified' && (
+          <div className="bg-white rounded-lg shadow-md p-6 border-2 border-green-300">
+            {hasOpenOffer ? (
+              <>
+                <div className="flex items-center mb-2">
+                  <Bell className="w-5 h-5 mr-2 text-green-600" />
+                  <h3 className="text-lg font-semibold text-gray-800">A table is ready for you!</h3>
+                </div>
+                <p className="text-sm text-gray-600 mb-4">
+                  We're holding it for {Math.floor(offerSecondsLeft / 60)}:{(offerSecondsLeft % 60).toString().padStart(2, '0')} more.
+                  After that it goes to the next guest on the waiting list.
+                </p>
+                <div className="flex space-x-4">
+                  <button
+                    onClick={() => handleOfferResponse(true)}
+                    disabled={saving}
+                    className="flex-1 flex items-center justify-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:opacity-50"
+                  >
+                    <CheckCircle className="w-4 h-4 mr-2" />
+                    Accept Table
+                  </button>
+                  <button
+                    onClick={() => handleOfferResponse(false)}
+                    disabled={saving}
+                    className="flex-1 flex items-center justify-center px-4 py-2 border border-red-300 text-red-700 rounded-md hover:bg-red-50 transition-colors disabled:opacity-50"
+                  >
+                    <XCircle className="w-4 h-4 mr-2" />
+                    Decline
+                  </button>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-gray-600">
+                This table offer has expired and the table has been offered to the next guest.
+                {booking.restaurant_phone && ` Please call us on ${booking.restaurant_phone} if you still need a table.`}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Actions */}
+        {isActive && !editing && booking.status !== 'notified' && (
+          <div className="bg-white rounded-lg shadow-md p-6">
+            {booking.can_change ? (
+              <>
+                <p className="text-sm text-gray-600 mb-4">
+                  {isWaitlist
+                    ? 'No longer need a table? Let us know so we can offer it to the next guest.'
+                    : `You can change or cancel online until ${booking.change_cutoff_hours} ${booking.change_cutoff_hours === 1 ? 'hour' : 'hours'} before your booking.`
+                  }
+                </p>
+                <div className="flex space-x-4">
+                  {canModify && (
+                    <button
+                      onClick={startEditing}
+                      className="flex-1 flex items-center justify-center px-4 py-2 bg-amber-600 text-white rounded-md hover:bg-amber-700 transition-colors"
+                    >
+                      <Edit className="w-4 h-4 mr-2" />
+                      Change Booking
+                    </button>
+                  )}
+                  <button
+                    onClick={handleCancel}
+                    disabled={saving}
+                    className="flex-1 flex items-center justify-center px-4 py-2 border border-red-300 text-red-700 rounded-md hover:bg-red-50 transition-colors disabled:opacity-50"
+                  >
+                    <XCircle className="w-4 h-4 mr-2" />
+                    {isWaitlist ? 'Leave Waiting List' : 'Cancel Booking'}
+                  </button>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-gray-600">
+                Online changes close {booking.change_cutoff_hours} {booking.change_cutoff_hours === 1 ? 'hour' : 'hours'} before your booking.
+                {booking.restaurant_phone && (
+                  <span className="flex items-center mt-2 font-medium text-gray-800">
+                    <Phone className="w-4 h-4 mr-2" />
+                    Please call us on {booking.restaurant_phone}
+                  </span>
+                )}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Change Form */}
+        {editing && (
+          <form onSubmit={handleSaveChanges} className="bg-white rounded-lg shadow-md p-6 space-y-6">
+            <h3 className="text-lg font-semibold text-gray-800">Change Booking</h3>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Party Size</label>
+              <div className="flex flex-wrap gap-2">
+                {[1, 2, 3, 4, 5, 6, 7, 8].map(size => (
+                  <button
+                    key={size}
+                    type="button"
+                    onClick={() => setNewPartySize(size)}
+                    className={`px-3 py-1 rounded-lg border-2 transition-all ${
+                      newPartySize === size
+                        ? 'bg-amber-600 text-white border-amber-600'
+                        : 'bg-white text-gray-700 border-gray-300 hover:border-amber-300'
+                    }`}
+                  >
+                    {size}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Date</label>
+              <input
+                type="date"
+                required
+                value={newDate}
+                min={format(new Date(), 'yyyy-MM-dd')}
+                max={format(addDays(new Date(), 60), 'yyyy-MM-dd')}
+                onChange={(e) => {
+                  setNewDate(e.target.value);
+                  setNewTime('');
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Time</label>
+              {slotsLoading && servicePeriods.length === 0 ? (
+                <p className="text-sm text-gray-500">Checking availability...</p>
+              ) : servicePeriods.length === 0 ? (
+                <p className="text-sm text-gray-500">We're closed on this day. Please choose another date.</p>
+              ) : (
+                <select
+                  required
+                  value={newTime}
+                  onChange={(e) => setNewTime(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500"
+                >
+                  <option value="">Select a time</option>
+                  {servicePeriods.map(group => (
+                    <optgroup key={group.slots[0].time} label={group.name || 'Available times'}>
+                      {group.slots.map(slot => {
+                        // The current time stays selectable since the booking already counts towards it
+                        const isCurrentSlot = newDate === booking.booking_date && slot.time === booking.booking_time.slice(0, 5);
+                        return (
+                          <option key={slot.time} value={slot.time} disabled={!slot.available && !isCurrentSlot}>
+                            {formatTimeSlot(slot.time)}{slot.available || isCurrentSlot ? '' : ' (fully booked)'}
+                          </option>
+                        );
+                      })}
+                    </optgroup>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            <div className="flex space-x-4">
+              <button
+                type="button"
+                onClick={() => {
+                  setEditing(false);
+                  setActionError(null);
+                }}
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                Keep Current Booking
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex-1 px-4 py-2 bg-amber-600 text-white rounded-md hover:bg-amber-700 transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Changes'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { Restaurant, MenuCategory, MenuItem } from '../types/database';
-import { Plus, Edit2, Trash2, Save, X, Upload, Eye, EyeOff, ChefHat, Tag, DollarSign } from 'lucide-react';
+import { Restaurant, MenuCategory, MenuItem, MenuSchedule, InventoryIngredient } from '../types/database';
+import { MenuModifierEditor } from './MenuModifierEditor';
+import { MenuScheduleManager } from './MenuScheduleManager';
+import { isLowStock } from '../lib/inventory';
+import { overrideFieldLabels, resetMenuItemOverrides } from '../lib/restaurantGroups';
+import { ModifierGroupForm, toModifierGroupForms, validateModifierGroups } from '../lib/menuModifiers';
+import { Plus, Edit2, Trash2, Save, X, Upload, Eye, EyeOff, ChefHat, Tag, DollarSign, CalendarClock, Layers, RotateCcw } from 'lucide-react';
 
 interface MenuManagementProps {
   restaurant: Restaurant;
@@ -10,8 +15,10 @@ interface MenuManagementProps {
 export function MenuManagement({ restaurant }: MenuManagementProps) {
   const [categories, setCategories] = useState<MenuCategory[]>([]);
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [schedules, setSchedules] = useState<MenuSchedule[]>([]);
+  const [ingredients, setIngredients] = useState<InventoryIngredient[]>([]);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'categories' | 'items'>('categories');
+  const [activeTab, setActiveTab] = useState<'categories' | 'items' | 'schedules'>('categories');
   const [showCategoryForm, setShowCategoryForm] = useState(false);
   const [showItemForm, setShowItemForm] = useState(false);
   const [editingCategory, setEditingCategory] = useState<MenuCategory | null>(null);
@@ -20,7 +27,8 @@ export function MenuManagement({ restaurant }: MenuManagementProps) {
   const [categoryForm, setCategoryForm] = useState({
     name: '',
     description: '',
-    display_order: 0
+    display_order: 0,
+    schedule_id: ''
   });
 
   const [itemForm, setItemForm] = useState({
@@ -32,9 +40,16 @@ export function MenuManagement({ restaurant }: MenuManagementProps) {
     allergens: [] as string[],
     dietary_info: [] as string[],
     display_order: 0,
-    image_file: null as File | null
+    image_file: null as File | null,
+    track_stock: false,
+    stock_quantity: '',
+    low_stock_threshold: '',
+    par_level: ''
   });
 
+  const [modifierGroups, setModifierGroups] = useState<ModifierGroupForm[]>([]);
+  const [recipe, setRecipe] = useState<{ ingredient_id: string; quantity: string }[]>([]);
+
   const [uploadingImage, setUploadingImage] = useState(false);
 
   useEffect(() => {
@@ -45,7 +60,7 @@ export function MenuManagement({ restaurant }: MenuManagementProps) {
     try {
       setLoading(true);
       
-      const [categoriesResult, itemsResult] = await Promise.all([
+      const [categoriesResult, itemsResult, schedulesResult, ingredientsResult] = await Promise.all([
         supabase
           .from('menu_categories')
           .select('*')
@@ -56,17 +71,38 @@ export function MenuManagement({ restaurant }: MenuManagementProps) {
           .from('menu_items')
           .select(`
             *,
-            category:menu_categories(*)
+            category:menu_categories(*),
+            modifier_groups:menu_modifier_groups(
+              *,
+              options:menu_modifier_options(*)
+            ),
+            ingredients:menu_item_ingredients(*)
           `)
           .eq('restaurant_id', restaurant.id)
-          .order('display_order')
+          .order('display_order'),
+
+        supabase
+          .from('menu_schedules')
+          .select('*')
+          .eq('restaurant_id', restaurant.id)
+          .order('display_order'),
+
+        supabase
+          .from('inventory_ingredients')
+          .select('*')
+          .eq('restaurant_id', restaurant.id)
+          .order('name')
       ]);
 
       if (categoriesResult.error) throw categoriesResult.error;
       if (itemsResult.error) throw itemsResult.error;
+      if (schedulesResult.error) throw schedulesResult.error;
+      if (ingredientsResult.error) throw ingredientsResult.error;
 
       setCategories(categoriesResult.data || []);
       setMenuItems(itemsResult.data || []);
+      setSchedules(schedulesResult.data || []);
+      setIngredients(ingredientsResult.data || []);
     } catch (error) {
       console.error('Error fetching menu data:', error);
     } finally {
@@ -99,7 +135,8 @@ export function MenuManagement({ restaurant }: MenuManagementProps) {
           .update({
             name: categoryForm.name,
             description: categoryForm.description,
-            display_order: categoryForm.display_order
+            display_order: categoryForm.display_order,
+            schedule_id: categoryForm.schedule_id || null
           })
           .eq('id', editingCategory.id);
 
@@ -113,6 +150,7 @@ export function MenuManagement({ restaurant }: MenuManagementProps) {
             name: categoryForm.name,
             description: categoryForm.description,
             display_order: categoryForm.display_order,
+            schedule_id: categoryForm.schedule_id || null,
             is_active: true
           });
 
@@ -128,8 +166,122 @@ export function MenuManagement({ restaurant }: MenuManagementProps) {
     }
   };
 
+  // Keeps existing group and option ids so carts and reports still line up
+  const saveModifierGroups = async (menuItemId: string, existingGroups: MenuItem['modifier_groups']) => {
+    const keptGroupIds = modifierGroups.flatMap(group => group.id ? [group.id] : []);
+    const removedGroupIds = (existingGroups || [])
+      .map(group => group.id)
+      .filter(id => !keptGroupIds.includes(id));
+
+    if (removedGroupIds.length > 0) {
+      const { error } = await supabase
+        .from('menu_modifier_groups')
+        .delete()
+        .in('id', removedGroupIds);
+
+      if (error) throw error;
+    }
+
+    for (const [groupIndex, group] of modifierGroups.entries()) {
+      const groupFields = {
+        name: group.name.trim(),
+        min_selections: group.min_selections,
+        max_selections: group.max_selections,
+        display_order: groupIndex
+      };
+
+      let groupId = group.id;
+      if (groupId) {
+        const { error } = await supabase
+          .from('menu_modifier_groups')
+          .update(groupFields)
+          .eq('id', groupId);
+
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('menu_modifier_groups')
+          .insert({ ...groupFields, restaurant_id: restaurant.id, menu_item_id: menuItemId })
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        groupId = data.id;
+      }
+
+      const existingOptions = existingGroups?.find(existing => existing.id === group.id)?.options || [];
+      const keptOptionIds = group.options.flatMap(option => option.id ? [option.id] : []);
+      const removedOptionIds = existingOptions
+        .map(option => option.id)
+        .filter(id => !keptOptionIds.includes(id));
+
+      if (removedOptionIds.length > 0) {
+        const { error } = await supabase
+          .from('menu_modifier_options')
+          .delete()
+          .in('id', removedOptionIds);
+
+        if (error) throw error;
+      }
+
+      for (const [optionIndex, option] of group.options.entries()) {
+        const optionFields = {
+          name: option.name.trim(),
+          price_delta_sgd: option.price_delta_sgd,
+          is_available: option.is_available,
+          display_order: optionIndex
+        };
+
+        const { error } = option.id
+          ? await supabase.from('menu_modifier_options').update(optionFields).eq('id', option.id)
+          : await supabase.from('menu_modifier_options').insert({ ...optionFields, group_id: groupId });
+
+        if (error) throw error;
+      }
+    }
+  };
+
+  const saveRecipe = async (menuItemId: string) => {
+    const { error: deleteError } = await supabase
+      .from('menu_item_ingredients')
+      .delete()
+      .eq('menu_item_id', menuItemId);
+
+    if (deleteError) throw deleteError;
+
+    const rows = recipe
+      .filter(line => line.ingredient_id && parseFloat(line.quantity) > 0)
+      .map(line => ({ menu_item_id: menuItemId, ingredient_id: line.ingredient_id, quantity: parseFloat(line.quantity) }));
+
+    if (rows.length > 0) {
+      const { error } = await supabase
+        .from('menu_item_ingredients')
+        .insert(rows);
+
+      if (error) throw error;
+    }
+  };
+
   const handleItemSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    const modifierError = validateModifierGroups(modifierGroups);
+    if (modifierError) {
+      showNotification(modifierError, 'error');
+      return;
+    }
+
+    const recipeIngredientIds = recipe.map(line => line.ingredient_id).filter(Boolean);
+    if (new Set(recipeIngredientIds).size !== recipeIngredientIds.length) {
+      showNotification('Each ingredient can only be listed once', 'error');
+      return;
+    }
+
+    const stockQuantity = itemForm.track_stock ? parseInt(itemForm.stock_quantity) || 0 : null;
+    const stockFields = {
+      low_stock_threshold: itemForm.track_stock && itemForm.low_stock_threshold ? parseInt(itemForm.low_stock_threshold) : null,
+      par_level: itemForm.track_stock && itemForm.par_level ? parseInt(itemForm.par_level) : null
+    };
     
     try {
       if (editingItem) {
@@ -143,14 +295,19 @@ export function MenuManagement({ restaurant }: MenuManagementProps) {
             image_url: itemForm.image_url || null,
             allergens: itemForm.allergens.length > 0 ? itemForm.allergens : null,
             dietary_info: itemForm.dietary_info.length > 0 ? itemForm.dietary_info : null,
-            display_order: itemForm.display_order
+            display_order: itemForm.display_order,
+            ...stockFields,
+            // Orders may have used stock since the form was opened
+            ...(stockQuantity !== editingItem.stock_quantity ? { stock_quantity: stockQuantity } : {})
           })
           .eq('id', editingItem.id);
 
         if (error) throw error;
+        await saveModifierGroups(editingItem.id, editingItem.modifier_groups);
+        await saveRecipe(editingItem.id);
         showNotification('Menu item updated successfully!');
       } else {
-        const { error } = await supabase
+        const { data: newItem, error } = await supabase
           .from('menu_items')
           .insert({
             restaurant_id: restaurant.id,
@@ -162,10 +319,16 @@ export function MenuManagement({ restaurant }: MenuManagementProps) {
             allergens: itemForm.allergens.length > 0 ? itemForm.allergens : null,
             dietary_info: itemForm.dietary_info.length > 0 ? itemForm.dietary_info : null,
             display_order: itemForm.display_order,
+            ...stockFields,
+            stock_quantity: stockQuantity,
             is_available: true
-          });
+          })
+          .select('id')
+          .single();
 
         if (error) throw error;
+        await saveModifierGroups(newItem.id, []);
+        await saveRecipe(newItem.id);
         showNotification('Menu item created successfully!');
       }
 
@@ -181,7 +344,7 @@ export function MenuManagement({ restaurant }: MenuManagementProps) {
     try {
       const { error } = await supabase
         .from('menu_items')
-        .update({ is_available: !item.is_available })
+        .update({ is_available: !item.is_available, sold_out_at: null })
         .eq('id', item.id);
 
       if (error) throw error;
@@ -216,7 +379,10 @@ export function MenuManagement({ restaurant }: MenuManagementProps) {
   };
 
   const deleteItem = async (item: MenuItem) => {
-    if (!confirm(`Delete "${item.name}"?`)) {
+    const message = item.shared_item_id
+      ? `Delete "${item.name}"? It's on the group menu, so it comes back the next time the menu is published. Turn it off instead to keep it off this outlet's menu.`
+      : `Delete "${item.name}"?`;
+    if (!confirm(message)) {
       return;
     }
 
@@ -236,8 +402,23 @@ export function MenuManagement({ restaurant }: MenuManagementProps) {
     }
   };
 
+  const resetItemOverrides = async (item: MenuItem) => {
+    if (!confirm(`Put "${item.name}" back to the group menu's version? This outlet's changes to it are discarded.`)) {
+      return;
+    }
+
+    try {
+      await resetMenuItemOverrides(item.id);
+      showNotification(`${item.name} now matches the group menu`);
+      fetchMenuData();
+    } catch (error) {
+      console.error('Error resetting menu item:', error);
+      showNotification('Failed to reset menu item', 'error');
+    }
+  };
+
   const resetCategoryForm = () => {
-    setCategoryForm({ name: '', description: '', display_order: 0 });
+    setCategoryForm({ name: '', description: '', display_order: 0, schedule_id: '' });
     setEditingCategory(null);
     setShowCategoryForm(false);
   };
@@ -252,8 +433,14 @@ export function MenuManagement({ restaurant }: MenuManagementProps) {
       allergens: [],
       dietary_info: [],
       display_order: 0,
-      image_file: null
+      image_file: null,
+      track_stock: false,
+      stock_quantity: '',
+      low_stock_threshold: '',
+      par_level: ''
     });
+    setModifierGroups([]);
+    setRecipe([]);
     setEditingItem(null);
     setShowItemForm(false);
   };
@@ -292,7 +479,8 @@ export function MenuManagement({ restaurant }: MenuManagementProps) {
     setCategoryForm({
       name: category.name,
       description: category.description || '',
-      display_order: category.display_order
+      display_order: category.display_order,
+      schedule_id: category.schedule_id || ''
     });
     setEditingCategory(category);
     setShowCategoryForm(true);
@@ -308,8 +496,14 @@ export function MenuManagement({ restaurant }: MenuManagementProps) {
       allergens: item.allergens || [],
       dietary_info: item.dietary_info || [],
       display_order: item.display_order,
-      image_file: null
+      image_file: null,
+      track_stock: item.stock_quantity !== null,
+      stock_quantity: item.stock_quantity?.toString() ?? '',
+      low_stock_threshold: item.low_stock_threshold?.toString() ?? '',
+      par_level: item.par_level?.toString() ?? ''
     });
+    setModifierGroups(toModifierGroupForms(item.modifier_groups));
+    setRecipe((item.ingredients || []).map(line => ({ ingredient_id: line.ingredient_id, quantity: String(line.quantity) })));
     setEditingItem(item);
     setShowItemForm(true);
   };
@@ -365,6 +559,16 @@ export function MenuManagement({ restaurant }: MenuManagementProps) {
           >
             Menu Items ({menuItems.length})
           </button>
+          <button
+            onClick={() => setActiveTab('schedules')}
+            className={`py-2 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'schedules'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            Menus ({schedules.length})
+          </button>
         </nav>
       </div>
 
@@ -415,6 +619,18 @@ export function MenuManagement({ restaurant }: MenuManagementProps) {
                     Order: {category.display_order} • 
                     {menuItems.filter(item => item.category_id === category.id).length} items
                   </div>
+                  {category.shared_category_id && (
+                    <div className="flex items-center text-xs text-purple-700 mt-2">
+                      <Layers className="w-3 h-3 mr-1" />
+                      From the group menu
+                    </div>
+                  )}
+                  {category.schedule_id && (
+                    <div className="flex items-center text-xs text-blue-700 mt-2">
+                      <CalendarClock className="w-3 h-3 mr-1" />
+                      {schedules.find(schedule => schedule.id === category.schedule_id)?.name}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -490,7 +706,39 @@ export function MenuManagement({ restaurant }: MenuManagementProps) {
                           {item.description && (
                             <p className="text-sm text-gray-600 mb-2">{item.description}</p>
                           )}
+                          {item.shared_item_id && (
+                            <div className="flex items-center justify-between text-xs text-purple-700 mb-2">
+                              <span className="flex items-center">
+                                <Layers className="w-3 h-3 mr-1" />
+                                {item.overridden_fields.length > 0
+                                  ? `Group menu, changed here: ${item.overridden_fields.map(field => overrideFieldLabels[field]).join(', ')}`
+                                  : 'From the group menu'}
+                              </span>
+                              {item.overridden_fields.length > 0 && (
+                                <button
+                                  onClick={() => resetItemOverrides(item)}
+                                  className="flex items-center text-purple-700 hover:text-purple-900"
+                                  title="Use the group menu's version"
+                                >
+                                  <RotateCcw className="w-3 h-3 mr-1" />
+                                  Reset
+                                </button>
+                              )}
+                            </div>
+                          )}
+                          {item.stock_quantity !== null && (
+                            <p className={`text-xs mb-2 ${
+                              item.stock_quantity <= 0 ? 'text-red-600' : isLowStock(item.stock_quantity, item.low_stock_threshold) ? 'text-amber-600' : 'text-gray-500'
+                            }`}>
+                              {item.sold_out_at ? 'Sold out' : `${item.stock_quantity} left`}
+                            </p>
+                          )}
                           <div className="flex flex-wrap gap-1">
+                            {item.modifier_groups?.map((group) => (
+                              <span key={group.id} className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">
+                                {group.name}
+                              </span>
+                            ))}
                             {item.dietary_info?.map((info) => (
                               <span key={info} className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded">
                                 {info}
@@ -513,6 +761,17 @@ export function MenuManagement({ restaurant }: MenuManagementProps) {
         </div>
       )}
 
+      {/* Scheduled Menus Tab */}
+      {activeTab === 'schedules' && (
+        <MenuScheduleManager
+          restaurant={restaurant}
+          schedules={schedules}
+          categories={categories}
+          onUpdate={fetchMenuData}
+          onNotify={showNotification}
+        />
+      )}
+
       {/* Category Form Modal */}
       {showCategoryForm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -563,6 +822,25 @@ export function MenuManagement({ restaurant }: MenuManagementProps) {
                   />
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Menu
+                  </label>
+                  <select
+                    value={categoryForm.schedule_id}
+                    onChange={(e) => setCategoryForm({ ...categoryForm, schedule_id: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">All opening hours</option>
+                    {schedules.map(schedule => (
+                      <option key={schedule.id} value={schedule.id}>{schedule.name}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Set up scheduled menus such as Breakfast in the Menus tab.
+                  </p>
+                </div>
+
                 <div className="flex space-x-4 pt-4">
                   <button
                     type="button"
@@ -592,7 +870,13 @@ export function MenuManagement({ restaurant }: MenuManagementProps) {
               <h3 className="text-lg font-semibold mb-4">
                 {editingItem ? 'Edit Menu Item' : 'Add New Menu Item'}
               </h3>
-              
+
+              {editingItem?.shared_item_id && (
+                <div className="mb-4 p-3 bg-purple-50 border border-purple-200 rounded text-sm text-purple-800">
+                  This item comes from the group menu. Changes you make here only apply to {restaurant.name} and are kept when the group menu is published. Options that came from the group menu follow the group's version.
+                </div>
+              )}
+
               <form onSubmit={handleItemSubmit} className="space-y-4">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
@@ -746,6 +1030,121 @@ export function MenuManagement({ restaurant }: MenuManagementProps) {
                   </div>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Options & Modifiers
+                  </label>
+                  <p className="text-xs text-gray-500 mb-2">
+                    Let diners choose things like spice level, sides or add-ons. Price changes are added to the item price.
+                  </p>
+                  <MenuModifierEditor groups={modifierGroups} onChange={setModifierGroups} />
+                </div>
+
+                <div>
+                  <label className="flex items-center text-sm font-medium text-gray-700 mb-1">
+                    <input
+                      type="checkbox"
+                      checked={itemForm.track_stock}
+                      onChange={(e) => setItemForm({ ...itemForm, track_stock: e.target.checked })}
+                      className="mr-2"
+                    />
+                    Track stock
+                  </label>
+                  <p className="text-xs text-gray-500 mb-2">
+                    Counts down with every order and takes the item off the menu when it runs out.
+                  </p>
+                  {itemForm.track_stock && (
+                    <div className="grid grid-cols-3 gap-3">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Portions left</label>
+                        <input
+                          type="number"
+                          min="0"
+                          value={itemForm.stock_quantity}
+                          onChange={(e) => setItemForm({ ...itemForm, stock_quantity: e.target.value })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Low stock alert at</label>
+                        <input
+                          type="number"
+                          min="0"
+                          value={itemForm.low_stock_threshold}
+                          onChange={(e) => setItemForm({ ...itemForm, low_stock_threshold: e.target.value })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          placeholder="No alert"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Par level</label>
+                        <input
+                          type="number"
+                          min="0"
+                          value={itemForm.par_level}
+                          onChange={(e) => setItemForm({ ...itemForm, par_level: e.target.value })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          placeholder="Restock up to"
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {ingredients.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Ingredients Used
+                    </label>
+                    <p className="text-xs text-gray-500 mb-2">
+                      Deducted from inventory for every portion ordered.
+                    </p>
+                    <div className="space-y-2">
+                      {recipe.map((line, index) => (
+                        <div key={index} className="flex items-center space-x-2">
+                          <select
+                            value={line.ingredient_id}
+                            onChange={(e) => setRecipe(prev => prev.map((l, i) => i === index ? { ...l, ingredient_id: e.target.value } : l))}
+                            className="flex-1 px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          >
+                            <option value="">Select ingredient</option>
+                            {ingredients.map(ingredient => (
+                              <option key={ingredient.id} value={ingredient.id}>{ingredient.name}</option>
+                            ))}
+                          </select>
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={line.quantity}
+                            onChange={(e) => setRecipe(prev => prev.map((l, i) => i === index ? { ...l, quantity: e.target.value } : l))}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            placeholder="Qty"
+                          />
+                          <span className="text-sm text-gray-500 w-16">
+                            {ingredients.find(ingredient => ingredient.id === line.ingredient_id)?.unit}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => setRecipe(prev => prev.filter((_, i) => i !== index))}
+                            className="text-red-600 hover:text-red-800"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        type="button"
+                        onClick={() => setRecipe(prev => [...prev, { ingredient_id: '', quantity: '' }])}
+                        className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+                      >
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add ingredient
+                      </button>
+                    </div>
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Display Order
@@ -0,0 +1,139 @@
+import React from 'react';
+import { ModifierGroupForm, ModifierOptionForm } from '../lib/menuModifiers';
+import { Plus, Trash2, Eye, EyeOff } from 'lucide-react';
+
+interface MenuModifierEditorProps {
+  groups: ModifierGroupForm[];
+  onChange: (groups: ModifierGroupForm[]) => void;
+}
+
+export function MenuModifierEditor({ groups, onChange }: MenuModifierEditorProps) {
+  const updateGroup = (index: number, changes: Partial<ModifierGroupForm>) => {
+    onChange(groups.map((group, i) => i === index ? { ...group, ...changes } : group));
+  };
+
+  const updateOption = (groupIndex: number, optionIndex: number, changes: Partial<ModifierOptionForm>) => {
+    updateGroup(groupIndex, {
+      options: groups[groupIndex].options.map((option, i) => i === optionIndex ? { ...option, ...changes } : option)
+    });
+  };
+
+  const addGroup = () => {
+    onChange([
+      ...groups,
+      { name: '', min_selections: 0, max_selections: 1, options: [{ name: '', price_delta_sgd: 0, is_available: true }] }
+    ]);
+  };
+
+  return (
+    <div className="space-y-4">
+      {groups.map((group, groupIndex) => (
+        <div key={group.id ?? `new-${groupIndex}`} className="border border-gray-200 rounded-md p-3 space-y-3">
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={group.name}
+              onChange={(e) => updateGroup(groupIndex, { name: e.target.value })}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="e.g., Spice Level, Choose a Side, Add-ons"
+            />
+            <button
+              type="button"
+              onClick={() => onChange(groups.filter((_, i) => i !== groupIndex))}
+              className="text-red-600 hover:text-red-800"
+              title="Remove option group"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">
+                Minimum choices (0 = optional)
+              </label>
+              <input
+                type="number"
+                min="0"
+                value={group.min_selections}
+                onChange={(e) => updateGroup(groupIndex, { min_selections: Math.max(0, parseInt(e.target.value) || 0) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">
+                Maximum choices (blank = no limit)
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={group.max_selections ?? ''}
+                onChange={(e) => updateGroup(groupIndex, { max_selections: e.target.value ? parseInt(e.target.value) : null })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {group.options.map((option, optionIndex) => (
+              <div key={option.id ?? `new-${optionIndex}`} className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={option.name}
+                  onChange={(e) => updateOption(groupIndex, optionIndex, { name: e.target.value })}
+                  className="flex-1 px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Option name"
+                />
+                <div className="flex items-center">
+                  <span className="text-sm text-gray-500 mr-1">+S$</span>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={option.price_delta_sgd}
+                    onChange={(e) => updateOption(groupIndex, optionIndex, { price_delta_sgd: parseFloat(e.target.value) || 0 })}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={() => updateOption(groupIndex, optionIndex, { is_available: !option.is_available })}
+                  className={`p-1 rounded ${option.is_available ? 'text-green-600' : 'text-gray-400'}`}
+                  title={option.is_available ? 'Available' : 'Unavailable'}
+                >
+                  {option.is_available ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => updateGroup(groupIndex, { options: group.options.filter((_, i) => i !== optionIndex) })}
+                  className="text-red-600 hover:text-red-800"
+                  title="Remove option"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => updateGroup(groupIndex, {
+                options: [...group.options, { name: '', price_delta_sgd: 0, is_available: true }]
+              })}
+              className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add option
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addGroup}
+        className="flex items-center px-3 py-2 text-sm border border-dashed border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        Add option group
+      </button>
+    </div>
+  );
+}
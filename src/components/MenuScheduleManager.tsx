@@ -0,0 +1,374 @@
+import React, { useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { describeSchedule } from '../lib/menuSchedules';
+import { Restaurant, MenuCategory, MenuSchedule } from '../types/database';
+import { Plus, Edit2, Trash2, Eye, EyeOff, CalendarClock } from 'lucide-react';
+
+interface MenuScheduleManagerProps {
+  restaurant: Restaurant;
+  schedules: MenuSchedule[];
+  categories: MenuCategory[];
+  onUpdate: () => void;
+  onNotify: (message: string, type?: 'success' | 'error') => void;
+}
+
+const daysOfWeek = [
+  { value: 0, label: 'Sun' },
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' }
+];
+
+const emptyScheduleForm = {
+  name: '',
+  description: '',
+  days_of_week: [0, 1, 2, 3, 4, 5, 6],
+  start_time: '',
+  end_time: '',
+  start_date: '',
+  end_date: '',
+  display_order: 0
+};
+
+export function MenuScheduleManager({ restaurant, schedules, categories, onUpdate, onNotify }: MenuScheduleManagerProps) {
+  const [showForm, setShowForm] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<MenuSchedule | null>(null);
+  const [scheduleForm, setScheduleForm] = useState(emptyScheduleForm);
+
+  const resetForm = () => {
+    setScheduleForm(emptyScheduleForm);
+    setEditingSchedule(null);
+    setShowForm(false);
+  };
+
+  const editSchedule = (schedule: MenuSchedule) => {
+    setScheduleForm({
+      name: schedule.name,
+      description: schedule.description || '',
+      days_of_week: schedule.days_of_week,
+      start_time: schedule.start_time?.slice(0, 5) || '',
+      end_time: schedule.end_time?.slice(0, 5) || '',
+      start_date: schedule.start_date || '',
+      end_date: schedule.end_date || '',
+      display_order: schedule.display_order
+    });
+    setEditingSchedule(schedule);
+    setShowForm(true);
+  };
+
+  const toggleDay = (day: number) => {
+    setScheduleForm(prev => ({
+      ...prev,
+      days_of_week: prev.days_of_week.includes(day)
+        ? prev.days_of_week.filter(d => d !== day)
+        : [...prev.days_of_week, day].sort()
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (scheduleForm.days_of_week.length === 0) {
+      onNotify('Choose at least one day', 'error');
+      return;
+    }
+    if (scheduleForm.start_time && scheduleForm.end_time && scheduleForm.end_time <= scheduleForm.start_time) {
+      onNotify('End time must be after start time', 'error');
+      return;
+    }
+    if (scheduleForm.start_date && scheduleForm.end_date && scheduleForm.end_date < scheduleForm.start_date) {
+      onNotify('End date must be on or after start date', 'error');
+      return;
+    }
+
+    const scheduleData = {
+      name: scheduleForm.name,
+      description: scheduleForm.description || null,
+      days_of_week: scheduleForm.days_of_week,
+      start_time: scheduleForm.start_time || null,
+      end_time: scheduleForm.end_time || null,
+      start_date: scheduleForm.start_date || null,
+      end_date: scheduleForm.end_date || null,
+      display_order: scheduleForm.display_order
+    };
+
+    try {
+      if (editingSchedule) {
+        const { error } = await supabase
+          .from('menu_schedules')
+          .update(scheduleData)
+          .eq('id', editingSchedule.id);
+
+        if (error) throw error;
+        onNotify('Menu updated successfully!');
+      } else {
+        const { error } = await supabase
+          .from('menu_schedules')
+          .insert({ ...scheduleData, restaurant_id: restaurant.id, is_active: true });
+
+        if (error) throw error;
+        onNotify('Menu created successfully!');
+      }
+
+      resetForm();
+      onUpdate();
+    } catch (error) {
+      console.error('Error saving menu schedule:', error);
+      onNotify('Failed to save menu', 'error');
+    }
+  };
+
+  const toggleActive = async (schedule: MenuSchedule) => {
+    try {
+      const { error } = await supabase
+        .from('menu_schedules')
+        .update({ is_active: !schedule.is_active })
+        .eq('id', schedule.id);
+
+      if (error) throw error;
+      onUpdate();
+    } catch (error) {
+      console.error('Error updating menu schedule:', error);
+      onNotify('Failed to update menu', 'error');
+    }
+  };
+
+  const deleteSchedule = async (schedule: MenuSchedule) => {
+    if (!confirm(`Delete menu "${schedule.name}"? Its categories will be offered at all opening hours.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('menu_schedules')
+        .delete()
+        .eq('id', schedule.id);
+
+      if (error) throw error;
+      onNotify('Menu deleted successfully!');
+      onUpdate();
+    } catch (error) {
+      console.error('Error deleting menu schedule:', error);
+      onNotify('Failed to delete menu', 'error');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="text-lg font-medium">Scheduled Menus</h3>
+          <p className="text-sm text-gray-600">
+            Categories on a menu are only offered at its times, and never outside your operating hours.
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(true)}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Menu
+        </button>
+      </div>
+
+      {schedules.length === 0 ? (
+        <div className="text-center py-8">
+          <CalendarClock className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">No scheduled menus. Categories are offered whenever you take orders.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {schedules.map(schedule => {
+            const scheduleCategories = categories.filter(category => category.schedule_id === schedule.id);
+            return (
+              <div
+                key={schedule.id}
+                className={`border rounded-lg p-4 ${schedule.is_active ? 'border-gray-200' : 'border-gray-200 bg-gray-50 opacity-75'}`}
+              >
+                <div className="flex justify-between items-start mb-2">
+                  <h4 className="font-semibold text-gray-800">{schedule.name}</h4>
+                  <div className="flex space-x-1">
+                    <button
+                      onClick={() => toggleActive(schedule)}
+                      className={schedule.is_active ? 'text-green-600 hover:text-green-800' : 'text-gray-400 hover:text-gray-600'}
+                      title={schedule.is_active ? 'Active' : 'Paused'}
+                    >
+                      {schedule.is_active ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => editSchedule(schedule)}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => deleteSchedule(schedule)}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                {schedule.description && (
+                  <p className="text-sm text-gray-600 mb-2">{schedule.description}</p>
+                )}
+                <p className="text-sm text-gray-700 mb-2">{describeSchedule(schedule)}</p>
+                <div className="text-xs text-gray-500">
+                  {scheduleCategories.length === 0
+                    ? 'No categories yet - assign them when editing a category'
+                    : scheduleCategories.map(category => category.name).join(', ')}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6">
+              <h3 className="text-lg font-semibold mb-4">
+                {editingSchedule ? 'Edit Menu' : 'Add New Menu'}
+              </h3>
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Menu Name *
+                  </label>
+                  <input
+                    type="text"
+                    required
+                    value={scheduleForm.name}
+                    onChange={(e) => setScheduleForm({ ...scheduleForm, name: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="e.g., Breakfast, Weekend Brunch"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Description
+                  </label>
+                  <input
+                    type="text"
+                    value={scheduleForm.description}
+                    onChange={(e) => setScheduleForm({ ...scheduleForm, description: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Days
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    {daysOfWeek.map(day => (
+                      <button
+                        key={day.value}
+                        type="button"
+                        onClick={() => toggleDay(day.value)}
+                        className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                          scheduleForm.days_of_week.includes(day.value)
+                            ? 'bg-blue-600 text-white border-blue-600'
+                            : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                        }`}
+                      >
+                        {day.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      From
+                    </label>
+                    <input
+                      type="time"
+                      value={scheduleForm.start_time}
+                      onChange={(e) => setScheduleForm({ ...scheduleForm, start_time: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Until
+                    </label>
+                    <input
+                      type="time"
+                      value={scheduleForm.end_time}
+                      onChange={(e) => setScheduleForm({ ...scheduleForm, end_time: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500 -mt-2">Leave blank to follow your opening or closing time.</p>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Start Date
+                    </label>
+                    <input
+                      type="date"
+                      value={scheduleForm.start_date}
+                      onChange={(e) => setScheduleForm({ ...scheduleForm, start_date: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      End Date
+                    </label>
+                    <input
+                      type="date"
+                      value={scheduleForm.end_date}
+                      min={scheduleForm.start_date || undefined}
+                      onChange={(e) => setScheduleForm({ ...scheduleForm, end_date: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500 -mt-2">Optional, for seasonal or limited-time menus.</p>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Display Order
+                  </label>
+                  <input
+                    type="number"
+                    value={scheduleForm.display_order}
+                    onChange={(e) => setScheduleForm({ ...scheduleForm, display_order: parseInt(e.target.value) || 0 })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+
+                <div className="flex space-x-4 pt-4">
+                  <button
+                    type="button"
+                    onClick={resetForm}
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                  >
+                    {editingSchedule ? 'Update' : 'Create'}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
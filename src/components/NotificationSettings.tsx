@@ -0,0 +1,412 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { flushNotifications, notificationChannels, notificationEvents, templatePlaceholders } from '../lib/notifications';
+import { NotificationChannel, NotificationEvent, NotificationLogEntry, NotificationStatus, NotificationTemplate, Restaurant } from '../types/database';
+import { Bell, Mail, MessageSquare, RefreshCw, RotateCcw, Save } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface NotificationSettingsProps {
+  restaurant: Restaurant;
+}
+
+interface TemplateFormData {
+  subject: string;
+  body: string;
+  is_enabled: boolean;
+}
+
+const statusStyles: Record<NotificationStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  skipped: 'bg-gray-100 text-gray-700',
+};
+
+export function NotificationSettings({ restaurant }: NotificationSettingsProps) {
+  const [defaults, setDefaults] = useState<NotificationTemplate[]>([]);
+  const [overrides, setOverrides] = useState<NotificationTemplate[]>([]);
+  const [log, setLog] = useState<NotificationLogEntry[]>([]);
+  const [selected, setSelected] = useState<{ event: NotificationEvent; channel: NotificationChannel }>({
+    event: 'booking_confirmed',
+    channel: 'email',
+  });
+  const [form, setForm] = useState<TemplateFormData>({ subject: '', body: '', is_enabled: true });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchNotificationData();
+  }, [restaurant.id]);
+
+  const findTemplate = (event: NotificationEvent, channel: NotificationChannel) => {
+    return overrides.find(t => t.event === event && t.channel === channel)
+      ?? defaults.find(t => t.event === event && t.channel === channel)
+      ?? null;
+  };
+
+  // Load the selected template into the editor whenever the selection or data changes
+  useEffect(() => {
+    const template = findTemplate(selected.event, selected.channel);
+    setForm({
+      subject: template?.subject || '',
+      body: template?.body || '',
+      is_enabled: template?.is_enabled ?? true,
+    });
+  }, [selected, defaults, overrides]);
+
+  const fetchNotificationData = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [templatesResult, logResult] = await Promise.all([
+        supabase
+          .from('notification_templates')
+          .select('*')
+          .or(`restaurant_id.eq.${restaurant.id},restaurant_id.is.null`),
+        supabase
+          .from('notification_log')
+          .select('*')
+          .eq('restaurant_id', restaurant.id)
+          .order('created_at', { ascending: false })
+          .limit(50)
+      ]);
+
+      if (templatesResult.error) throw templatesResult.error;
+      if (logResult.error) throw logResult.error;
+
+      const templates = (templatesResult.data || []) as NotificationTemplate[];
+      setDefaults(templates.filter(t => !t.restaurant_id));
+      setOverrides(templates.filter(t => t.restaurant_id));
+      setLog(logResult.data || []);
+    } catch (err) {
+      console.error('Error fetching notification settings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load notification settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showNotification = (message: string, type: 'success' | 'error' = 'success') => {
+    const notification = document.createElement('div');
+    notification.className = `fixed top-4 right-4 px-4 py-2 rounded-lg shadow-lg z-50 ${
+      type === 'success' ? 'bg-green-500 text-white' : 'bg-red-500 text-white'
+    }`;
+    notification.textContent = message;
+    document.body.appendChild(notification);
+
+    setTimeout(() => {
+      if (document.body.contains(notification)) {
+        document.body.removeChild(notification);
+      }
+    }, 3000);
+  };
+
+  const handleSave = async () => {
+    if (!form.body.trim()) {
+      setError('Message body is required');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const templateData = {
+        subject: selected.channel === 'email' ? form.subject.trim() || null : null,
+        body: form.body,
+        is_enabled: form.is_enabled,
+      };
+
+      // Overrides are keyed by a partial unique index, so update or insert explicitly
+      const existing = overrides.find(t => t.event === selected.event && t.channel === selected.channel);
+      const { error: saveError } = existing
+        ? await supabase
+            .from('notification_templates')
+            .update(templateData)
+            .eq('id', existing.id)
+        : await supabase
+            .from('notification_templates')
+            .insert({
+              restaurant_id: restaurant.id,
+              event: selected.event,
+              channel: selected.channel,
+              ...templateData,
+            });
+
+      if (saveError) throw saveError;
+
+      showNotification('Template saved');
+      await fetchNotificationData();
+    } catch (err) {
+      console.error('Error saving template:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!confirm('Reset this template to the default message?')) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const { error: deleteError } = await supabase
+        .from('notification_templates')
+        .delete()
+        .eq('restaurant_id', restaurant.id)
+        .eq('event', selected.event)
+        .eq('channel', selected.channel);
+
+      if (deleteError) throw deleteError;
+
+      showNotification('Template reset to default');
+      await fetchNotificationData();
+    } catch (err) {
+      console.error('Error resetting template:', err);
+      setError(err instanceof Error ? err.message : 'Failed to reset template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRetry = async (entry: NotificationLogEntry) => {
+    try {
+      const { error: retryError } = await supabase
+        .from('notification_log')
+        .update({ status: 'pending', attempts: 0, error_message: null })
+        .eq('id', entry.id);
+
+      if (retryError) throw retryError;
+
+      await flushNotifications();
+      await fetchNotificationData();
+    } catch (err) {
+      console.error('Error retrying notification:', err);
+      showNotification('Failed to retry notification', 'error');
+    }
+  };
+
+  const insertPlaceholder = (placeholder: string) => {
+    setForm(prev => ({ ...prev, body: `${prev.body}{{${placeholder}}}` }));
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex items-center justify-center py-8">
+          <div className="w-8 h-8 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  const isCustomized = overrides.some(t => t.event === selected.event && t.channel === selected.channel);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="mb-6">
+          <h2 className="text-xl font-semibold text-gray-800 mb-2 flex items-center">
+            <Bell className="w-5 h-5 mr-2" />
+            Guest Notifications
+          </h2>
+          <p className="text-gray-600">
+            Email and SMS messages sent when bookings and waiting list entries change. Guests without an email address or phone number are skipped for that channel.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 border border-red-300 rounded text-red-700">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Template list */}
+          <div className="space-y-2">
+            {notificationEvents.map(event => (
+              <div key={event.value} className="p-3 border border-gray-200 rounded-lg">
+                <p className="font-medium text-gray-800">{event.label}</p>
+                <p className="text-xs text-gray-500 mb-2">{event.description}</p>
+                <div className="flex space-x-2">
+                  {notificationChannels.map(channel => {
+                    const template = findTemplate(event.value, channel.value);
+                    const isSelected = selected.event === event.value && selected.channel === channel.value;
+                    return (
+                      <button
+                        key={channel.value}
+                        onClick={() => setSelected({ event: event.value, channel: channel.value })}
+                        className={`flex items-center px-2 py-1 rounded text-xs font-medium border ${
+                          isSelected
+                            ? 'border-blue-500 bg-blue-50 text-blue-700'
+                            : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                        } ${template && !template.is_enabled ? 'line-through' : ''}`}
+                      >
+                        {channel.value === 'email' ? <Mail className="w-3 h-3 mr-1" /> : <MessageSquare className="w-3 h-3 mr-1" />}
+                        {channel.label}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Template editor */}
+          <div className="lg:col-span-2 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold text-gray-800">
+                {notificationEvents.find(e => e.value === selected.event)?.label} · {selected.channel === 'email' ? 'Email' : 'SMS'}
+              </h3>
+              <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                isCustomized ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-700'
+              }`}>
+                {isCustomized ? 'Customized' : 'Default'}
+              </span>
+            </div>
+
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={form.is_enabled}
+                onChange={(e) => setForm(prev => ({ ...prev, is_enabled: e.target.checked }))}
+                className="rounded"
+              />
+              <span className="text-sm text-gray-700">Send this message</span>
+            </label>
+
+            {selected.channel === 'email' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Subject</label>
+                <input
+                  type="text"
+                  value={form.subject}
+                  onChange={(e) => setForm(prev => ({ ...prev, subject: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Message</label>
+              <textarea
+                value={form.body}
+                onChange={(e) => setForm(prev => ({ ...prev, body: e.target.value }))}
+                rows={selected.channel === 'email' ? 8 : 4}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+              />
+              {selected.channel === 'sms' && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Keep SMS messages short - long messages are split and billed as multiple texts.
+                </p>
+              )}
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Placeholders</p>
+              <div className="flex flex-wrap gap-2">
+                {templatePlaceholders.map(placeholder => (
+                  <button
+                    key={placeholder}
+                    onClick={() => insertPlaceholder(placeholder)}
+                    className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-xs font-mono hover:bg-gray-200"
+                  >
+                    {`{{${placeholder}}}`}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              {isCustomized && (
+                <button
+                  onClick={handleReset}
+                  disabled={saving}
+                  className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Reset to Default
+                </button>
+              )}
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                {saving ? 'Saving...' : 'Save Template'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Delivery log */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-800">Delivery Log</h3>
+          <button
+            onClick={fetchNotificationData}
+            className="flex items-center px-3 py-1 text-sm text-gray-600 hover:text-gray-800"
+          >
+            <RefreshCw className="w-4 h-4 mr-1" />
+            Refresh
+          </button>
+        </div>
+
+        {log.length === 0 ? (
+          <p className="text-gray-500 text-center py-6">No notifications sent yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">Time</th>
+                  <th className="py-2 pr-4 font-medium">Event</th>
+                  <th className="py-2 pr-4 font-medium">Channel</th>
+                  <th className="py-2 pr-4 font-medium">Recipient</th>
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {log.map(entry => (
+                  <tr key={entry.id}>
+                    <td className="py-2 pr-4 text-gray-600 whitespace-nowrap">
+                      {format(new Date(entry.created_at), 'MMM d, h:mm a')}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-800">
+                      {notificationEvents.find(e => e.value === entry.event)?.label || entry.event}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-600">{entry.channel === 'email' ? 'Email' : 'SMS'}</td>
+                    <td className="py-2 pr-4 text-gray-600">{entry.recipient || '-'}</td>
+                    <td className="py-2 pr-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusStyles[entry.status]}`}>
+                        {entry.status}
+                      </span>
+                      {entry.error_message && (
+                        <p className="text-xs text-gray-500 mt-1">{entry.error_message}</p>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">
+                      {entry.status === 'failed' && (
+                        <button
+                          onClick={() => handleRetry(entry)}
+                          className="text-blue-600 hover:text-blue-800 text-xs font-medium"
+                        >
+                          Retry
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
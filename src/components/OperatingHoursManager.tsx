@@ -1,14 +1,52 @@
 import React, { useState } from 'react';
 import { supabase } from '../lib/supabase';
-import { Restaurant, RestaurantOperatingHours } from '../types/database';
-import { Clock, Save, RotateCcw } from 'lucide-react';
+import { timeToMinutes } from '../lib/diningDuration';
+import { Restaurant, RestaurantOperatingHours, RestaurantServicePeriod, RestaurantSpecialDate } from '../types/database';
+import { Clock, Save, RotateCcw, CalendarX, Plus, Trash2, X } from 'lucide-react';
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
 
 interface OperatingHoursManagerProps {
   restaurant: Restaurant;
   operatingHours: RestaurantOperatingHours[];
+  servicePeriods: RestaurantServicePeriod[];
+  specialDates: RestaurantSpecialDate[];
   onUpdate: () => void;
 }
 
+interface ServicePeriodFormData {
+  name: string;
+  opening_time: string;
+  closing_time: string;
+  last_seating_time: string;
+}
+
+interface DayHoursFormData {
+  is_closed: boolean;
+  periods: ServicePeriodFormData[];
+}
+
+interface SpecialDateFormData {
+  name: string;
+  start_date: string;
+  end_date: string;
+  is_closed: boolean;
+  opening_time: string;
+  closing_time: string;
+  time_slot_duration_minutes: string;
+  requires_deposit: boolean;
+}
+
+const emptySpecialDateForm: SpecialDateFormData = {
+  name: '',
+  start_date: '',
+  end_date: '',
+  is_closed: true,
+  opening_time: '',
+  closing_time: '',
+  time_slot_duration_minutes: '',
+  requires_deposit: false
+};
+
 const daysOfWeek = [
   { value: 0, label: 'Sunday' },
   { value: 1, label: 'Monday' },
@@ -19,16 +57,31 @@ const daysOfWeek = [
   { value: 6, label: 'Saturday' }
 ];
 
-export function OperatingHoursManager({ restaurant, operatingHours, onUpdate }: OperatingHoursManagerProps) {
-  const [hours, setHours] = useState<Record<number, { opening_time: string; closing_time: string; is_closed: boolean }>>(
+export function OperatingHoursManager({ restaurant, operatingHours, servicePeriods, specialDates, onUpdate }: OperatingHoursManagerProps) {
+  const [hours, setHours] = useState<Record<number, DayHoursFormData>>(
     () => {
-      const initialHours: Record<number, { opening_time: string; closing_time: string; is_closed: boolean }> = {};
+      const initialHours: Record<number, DayHoursFormData> = {};
       daysOfWeek.forEach(day => {
         const existingHours = operatingHours.find(h => h.day_of_week === day.value);
+        const existingPeriods = servicePeriods
+          .filter(period => period.day_of_week === day.value)
+          .sort((a, b) => a.opening_time.localeCompare(b.opening_time) || a.display_order - b.display_order);
+
         initialHours[day.value] = {
-          opening_time: existingHours?.opening_time || '11:00',
-          closing_time: existingHours?.closing_time || '22:00',
-          is_closed: existingHours?.is_closed || false
+          is_closed: existingHours?.is_closed || false,
+          periods: existingPeriods.length > 0
+            ? existingPeriods.map(period => ({
+                name: period.name,
+                opening_time: period.opening_time.slice(0, 5),
+                closing_time: period.closing_time.slice(0, 5),
+                last_seating_time: period.last_seating_time?.slice(0, 5) || ''
+              }))
+            : [{
+                name: 'Service',
+                opening_time: existingHours?.opening_time.slice(0, 5) || '11:00',
+                closing_time: existingHours?.closing_time.slice(0, 5) || '22:00',
+                last_seating_time: ''
+              }]
         };
       });
       return initialHours;
@@ -37,13 +90,47 @@ export function OperatingHoursManager({ restaurant, operatingHours, onUpdate }:
   
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [showSpecialDateForm, setShowSpecialDateForm] = useState(false);
+  const [specialDateForm, setSpecialDateForm] = useState<SpecialDateFormData>(emptySpecialDateForm);
+  const [savingSpecialDate, setSavingSpecialDate] = useState(false);
 
-  const handleTimeChange = (dayOfWeek: number, field: 'opening_time' | 'closing_time', value: string) => {
+  const handlePeriodChange = (dayOfWeek: number, index: number, field: keyof ServicePeriodFormData, value: string) => {
     setHours(prev => ({
       ...prev,
       [dayOfWeek]: {
         ...prev[dayOfWeek],
-        [field]: value
+        periods: prev[dayOfWeek].periods.map((period, i) => i === index ? { ...period, [field]: value } : period)
+      }
+    }));
+  };
+
+  const addPeriod = (dayOfWeek: number) => {
+    setHours(prev => {
+      const lastPeriod = prev[dayOfWeek].periods[prev[dayOfWeek].periods.length - 1];
+      return {
+        ...prev,
+        [dayOfWeek]: {
+          ...prev[dayOfWeek],
+          periods: [
+            ...prev[dayOfWeek].periods,
+            {
+              name: '',
+              opening_time: lastPeriod?.closing_time || '17:00',
+              closing_time: '22:00',
+              last_seating_time: ''
+            }
+          ]
+        }
+      };
+    });
+  };
+
+  const removePeriod = (dayOfWeek: number, index: number) => {
+    setHours(prev => ({
+      ...prev,
+      [dayOfWeek]: {
+        ...prev[dayOfWeek],
+        periods: prev[dayOfWeek].periods.filter((_, i) => i !== index)
       }
     }));
   };
@@ -63,29 +150,68 @@ export function OperatingHoursManager({ restaurant, operatingHours, onUpdate }:
     const newHours = { ...hours };
     
     daysOfWeek.forEach(day => {
-      newHours[day.value] = { ...sourceHours };
+      newHours[day.value] = {
+        ...sourceHours,
+        periods: sourceHours.periods.map(period => ({ ...period }))
+      };
     });
     
     setHours(newHours);
   };
 
+  // Returns the first problem with a day's periods, or null when they're valid
+  const validatePeriods = (periods: ServicePeriodFormData[]) => {
+    if (periods.length === 0) return 'add at least one service period or mark the day as closed';
+
+    const sorted = [...periods].sort((a, b) => timeToMinutes(a.opening_time) - timeToMinutes(b.opening_time));
+    for (let i = 0; i < sorted.length; i++) {
+      const period = sorted[i];
+      const label = period.name.trim() || 'unnamed period';
+
+      if (!period.name.trim()) return 'every service period needs a name';
+      if (timeToMinutes(period.closing_time) <= timeToMinutes(period.opening_time)) {
+        return `${label} must close after it opens`;
+      }
+      if (period.last_seating_time && (
+        timeToMinutes(period.last_seating_time) < timeToMinutes(period.opening_time) ||
+        timeToMinutes(period.last_seating_time) >= timeToMinutes(period.closing_time)
+      )) {
+        return `${label} last seating must be between opening and closing`;
+      }
+      if (i > 0 && timeToMinutes(period.opening_time) < timeToMinutes(sorted[i - 1].closing_time)) {
+        return `${label} overlaps ${sorted[i - 1].name}`;
+      }
+    }
+
+    return null;
+  };
+
   const handleSave = async () => {
     setSaving(true);
     setError(null);
 
     try {
-      // Update or insert operating hours for each day
+      for (const day of daysOfWeek) {
+        if (hours[day.value].is_closed) continue;
+        const problem = validatePeriods(hours[day.value].periods);
+        if (problem) throw new Error(`${day.label}: ${problem}`);
+      }
+
+      // Update or insert operating hours for each day. The opening and closing
+      // times are the envelope of the day's service periods.
       for (const day of daysOfWeek) {
         const dayHours = hours[day.value];
+        const openingTimes = dayHours.periods.map(period => period.opening_time).sort();
+        const closingTimes = dayHours.periods.map(period => period.closing_time).sort();
         
         const { error: upsertError } = await supabase
           .from('restaurant_operating_hours')
           .upsert({
             restaurant_id: restaurant.id,
             day_of_week: day.value,
-            opening_time: dayHours.opening_time,
-            closing_time: dayHours.closing_time,
-            is_closed: dayHours.is_closed
+            opening_time: openingTimes[0] || '11:00',
+            closing_time: closingTimes[closingTimes.length - 1] || '22:00',
+            is_closed: dayHours.is_closed || dayHours.periods.length === 0
           }, {
             onConflict: 'restaurant_id,day_of_week'
           });
@@ -93,6 +219,35 @@ export function OperatingHoursManager({ restaurant, operatingHours, onUpdate }:
         if (upsertError) throw upsertError;
       }
 
+      // Replace the service periods. Closed days keep valid ones so reopening the
+      // day restores the previous schedule.
+      const { error: deleteError } = await supabase
+        .from('restaurant_service_periods')
+        .delete()
+        .eq('restaurant_id', restaurant.id);
+
+      if (deleteError) throw deleteError;
+
+      const periodRows = daysOfWeek
+        .filter(day => !validatePeriods(hours[day.value].periods))
+        .flatMap(day => hours[day.value].periods.map((period, index) => ({
+          restaurant_id: restaurant.id,
+          day_of_week: day.value,
+          name: period.name.trim(),
+          opening_time: period.opening_time,
+          closing_time: period.closing_time,
+          last_seating_time: period.last_seating_time || null,
+          display_order: index
+        })));
+
+      if (periodRows.length > 0) {
+        const { error: insertError } = await supabase
+          .from('restaurant_service_periods')
+          .insert(periodRows);
+
+        if (insertError) throw insertError;
+      }
+
       // Show success message
       const notification = document.createElement('div');
       notification.className = 'fixed top-4 right-4 bg-green-500 text-white px-4 py-2 rounded-lg shadow-lg z-50';
@@ -111,6 +266,89 @@ export function OperatingHoursManager({ restaurant, operatingHours, onUpdate }:
     }
   };
 
+  const showNotification = (message: string, type: 'success' | 'error' = 'success') => {
+    const notification = document.createElement('div');
+    notification.className = `fixed top-4 right-4 px-4 py-2 rounded-lg shadow-lg z-50 ${
+      type === 'success' ? 'bg-green-500 text-white' : 'bg-red-500 text-white'
+    }`;
+    notification.textContent = message;
+    document.body.appendChild(notification);
+
+    setTimeout(() => {
+      if (document.body.contains(notification)) {
+        document.body.removeChild(notification);
+      }
+    }, 3000);
+  };
+
+  const handleSaveSpecialDate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const endDate = specialDateForm.end_date || specialDateForm.start_date;
+    if (endDate < specialDateForm.start_date) {
+      showNotification('End date must be on or after the start date', 'error');
+      return;
+    }
+
+    const dates = eachDayOfInterval({
+      start: parseISO(specialDateForm.start_date),
+      end: parseISO(endDate)
+    });
+
+    if (dates.length > 31) {
+      showNotification('Special dates can cover at most 31 days at a time', 'error');
+      return;
+    }
+
+    setSavingSpecialDate(true);
+    try {
+      // One override per date so a multi-day closure can be edited day by day later
+      const { error: upsertError } = await supabase
+        .from('restaurant_special_dates')
+        .upsert(dates.map(date => ({
+          restaurant_id: restaurant.id,
+          special_date: format(date, 'yyyy-MM-dd'),
+          name: specialDateForm.name,
+          is_closed: specialDateForm.is_closed,
+          opening_time: specialDateForm.is_closed ? null : specialDateForm.opening_time || null,
+          closing_time: specialDateForm.is_closed ? null : specialDateForm.closing_time || null,
+          time_slot_duration_minutes: specialDateForm.is_closed || !specialDateForm.time_slot_duration_minutes
+            ? null
+            : parseInt(specialDateForm.time_slot_duration_minutes),
+          requires_deposit: !specialDateForm.is_closed && specialDateForm.requires_deposit
+        })), {
+          onConflict: 'restaurant_id,special_date'
+        });
+
+      if (upsertError) throw upsertError;
+
+      showNotification(dates.length === 1 ? 'Special date saved successfully!' : `${dates.length} special dates saved successfully!`);
+      setSpecialDateForm(emptySpecialDateForm);
+      setShowSpecialDateForm(false);
+      onUpdate();
+    } catch (err) {
+      showNotification(err instanceof Error ? err.message : 'Failed to save special date', 'error');
+    } finally {
+      setSavingSpecialDate(false);
+    }
+  };
+
+  const handleDeleteSpecialDate = async (specialDate: RestaurantSpecialDate) => {
+    try {
+      const { error: deleteError } = await supabase
+        .from('restaurant_special_dates')
+        .delete()
+        .eq('id', specialDate.id);
+
+      if (deleteError) throw deleteError;
+
+      showNotification('Special date removed');
+      onUpdate();
+    } catch (err) {
+      showNotification(err instanceof Error ? err.message : 'Failed to remove special date', 'error');
+    }
+  };
+
   const formatTime = (time: string) => {
     const [hour, minute] = time.split(':').map(Number);
     const period = hour >= 12 ? 'PM' : 'AM';
@@ -126,7 +364,7 @@ export function OperatingHoursManager({ restaurant, operatingHours, onUpdate }:
           Operating Hours
         </h2>
         <p className="text-gray-600">
-          Set your restaurant's opening and closing times for each day of the week.
+          Set your restaurant's service periods (e.g. lunch and dinner) for each day of the week.
         </p>
       </div>
 
@@ -138,12 +376,12 @@ export function OperatingHoursManager({ restaurant, operatingHours, onUpdate }:
 
       <div className="space-y-4">
         {daysOfWeek.map(day => (
-          <div key={day.value} className="flex items-center space-x-4 p-4 border border-gray-200 rounded-lg">
-            <div className="w-24">
+          <div key={day.value} className="flex items-start space-x-4 p-4 border border-gray-200 rounded-lg">
+            <div className="w-24 pt-1">
               <label className="font-medium text-gray-700">{day.label}</label>
             </div>
             
-            <div className="flex items-center space-x-2">
+            <div className="flex items-center space-x-2 pt-1">
               <input
                 type="checkbox"
                 checked={hours[day.value].is_closed}
@@ -154,40 +392,75 @@ export function OperatingHoursManager({ restaurant, operatingHours, onUpdate }:
             </div>
 
             {!hours[day.value].is_closed && (
-              <>
-                <div className="flex items-center space-x-2">
-                  <label className="text-sm text-gray-600">Open:</label>
-                  <input
-                    type="time"
-                    value={hours[day.value].opening_time}
-                    onChange={(e) => handleTimeChange(day.value, 'opening_time', e.target.value)}
-                    className="px-3 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  />
-                </div>
+              <div className="flex-1 space-y-2">
+                {hours[day.value].periods.map((period, index) => (
+                  <div key={index} className="flex flex-wrap items-center gap-2">
+                    <input
+                      type="text"
+                      value={period.name}
+                      onChange={(e) => handlePeriodChange(day.value, index, 'name', e.target.value)}
+                      className="w-28 px-3 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="e.g., Lunch"
+                    />
 
-                <div className="flex items-center space-x-2">
-                  <label className="text-sm text-gray-600">Close:</label>
-                  <input
-                    type="time"
-                    value={hours[day.value].closing_time}
-                    onChange={(e) => handleTimeChange(day.value, 'closing_time', e.target.value)}
-                    className="px-3 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  />
-                </div>
+                    <label className="text-sm text-gray-600">Open:</label>
+                    <input
+                      type="time"
+                      value={period.opening_time}
+                      onChange={(e) => handlePeriodChange(day.value, index, 'opening_time', e.target.value)}
+                      className="px-3 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
 
-                <button
-                  onClick={() => copyToAllDays(day.value)}
-                  className="text-sm text-blue-600 hover:text-blue-800 flex items-center"
-                  title="Copy to all days"
-                >
-                  <RotateCcw className="w-4 h-4 mr-1" />
-                  Copy to all
-                </button>
-              </>
+                    <label className="text-sm text-gray-600">Last seating:</label>
+                    <input
+                      type="time"
+                      value={period.last_seating_time}
+                      onChange={(e) => handlePeriodChange(day.value, index, 'last_seating_time', e.target.value)}
+                      className="px-3 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+
+                    <label className="text-sm text-gray-600">Close:</label>
+                    <input
+                      type="time"
+                      value={period.closing_time}
+                      onChange={(e) => handlePeriodChange(day.value, index, 'closing_time', e.target.value)}
+                      className="px-3 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+
+                    {hours[day.value].periods.length > 1 && (
+                      <button
+                        onClick={() => removePeriod(day.value, index)}
+                        className="text-red-600 hover:text-red-800"
+                        title="Remove service period"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+
+                <div className="flex items-center space-x-4">
+                  <button
+                    onClick={() => addPeriod(day.value)}
+                    className="text-sm text-blue-600 hover:text-blue-800 flex items-center"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add period
+                  </button>
+                  <button
+                    onClick={() => copyToAllDays(day.value)}
+                    className="text-sm text-blue-600 hover:text-blue-800 flex items-center"
+                    title="Copy to all days"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Copy to all
+                  </button>
+                </div>
+              </div>
             )}
 
             {hours[day.value].is_closed && (
-              <div className="text-gray-500 italic">Restaurant is closed</div>
+              <div className="text-gray-500 italic pt-1">Restaurant is closed</div>
             )}
           </div>
         ))}
@@ -197,7 +470,7 @@ export function OperatingHoursManager({ restaurant, operatingHours, onUpdate }:
         <div className="flex justify-between items-center">
           <div className="text-sm text-gray-600">
             <p className="mb-1">Current time slot duration: {restaurant.time_slot_duration_minutes} minutes</p>
-            <p>Time slots will be generated based on these operating hours.</p>
+            <p>Time slots are generated within each service period, up to its last seating time.</p>
           </div>
           
           <button
@@ -211,6 +484,188 @@ export function OperatingHoursManager({ restaurant, operatingHours, onUpdate }:
         </div>
       </div>
 
+      {/* Special Dates */}
+      <div className="mt-6 pt-6 border-t border-gray-200">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 className="text-lg font-medium text-gray-800 flex items-center">
+              <CalendarX className="w-5 h-5 mr-2" />
+              Special Dates & Holidays
+            </h3>
+            <p className="text-sm text-gray-600">
+              Closures and custom hours for specific dates override the weekly schedule.
+            </p>
+          </div>
+          {!showSpecialDateForm && (
+            <button
+              onClick={() => setShowSpecialDateForm(true)}
+              className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Special Date
+            </button>
+          )}
+        </div>
+
+        {showSpecialDateForm && (
+          <form onSubmit={handleSaveSpecialDate} className="mb-4 p-4 bg-indigo-50 rounded-lg border border-indigo-200 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+                <input
+                  type="text"
+                  required
+                  value={specialDateForm.name}
+                  onChange={(e) => setSpecialDateForm({ ...specialDateForm, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  placeholder="e.g., Chinese New Year, Private event"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Date *</label>
+                <input
+                  type="date"
+                  required
+                  value={specialDateForm.start_date}
+                  min={format(new Date(), 'yyyy-MM-dd')}
+                  onChange={(e) => setSpecialDateForm({ ...specialDateForm, start_date: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Until (optional)</label>
+                <input
+                  type="date"
+                  value={specialDateForm.end_date}
+                  min={specialDateForm.start_date || format(new Date(), 'yyyy-MM-dd')}
+                  onChange={(e) => setSpecialDateForm({ ...specialDateForm, end_date: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={specialDateForm.is_closed}
+                onChange={(e) => setSpecialDateForm({ ...specialDateForm, is_closed: e.target.checked })}
+                className="rounded"
+              />
+              <label className="text-sm text-gray-700">Closed all day</label>
+            </div>
+
+            {!specialDateForm.is_closed && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Open</label>
+                  <input
+                    type="time"
+                    value={specialDateForm.opening_time}
+                    onChange={(e) => setSpecialDateForm({ ...specialDateForm, opening_time: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Close</label>
+                  <input
+                    type="time"
+                    value={specialDateForm.closing_time}
+                    onChange={(e) => setSpecialDateForm({ ...specialDateForm, closing_time: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Slot length</label>
+                  <select
+                    value={specialDateForm.time_slot_duration_minutes}
+                    onChange={(e) => setSpecialDateForm({ ...specialDateForm, time_slot_duration_minutes: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="">Default ({restaurant.time_slot_duration_minutes} min)</option>
+                    {[15, 30, 45, 60].map(minutes => (
+                      <option key={minutes} value={minutes}>{minutes} minutes</option>
+                    ))}
+                  </select>
+                </div>
+                <p className="md:col-span-3 text-xs text-gray-500">
+                  Leave a time empty to keep the regular weekly time for that day.
+                </p>
+                {restaurant.deposit_policy !== 'none' && (
+                  <div className="md:col-span-3 flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={specialDateForm.requires_deposit}
+                      onChange={(e) => setSpecialDateForm({ ...specialDateForm, requires_deposit: e.target.checked })}
+                      className="rounded"
+                    />
+                    <label className="text-sm text-gray-700">
+                      Require a {restaurant.deposit_policy === 'deposit' ? 'deposit' : 'card guarantee'} for every booking
+                    </label>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="flex space-x-4">
+              <button
+                type="button"
+                onClick={() => {
+                  setSpecialDateForm(emptySpecialDateForm);
+                  setShowSpecialDateForm(false);
+                }}
+                className="flex-1 px-4 py-2 border border-gray-300 rounded text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={savingSpecialDate}
+                className="flex-1 flex items-center justify-center px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors disabled:opacity-50"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                {savingSpecialDate ? 'Saving...' : 'Save Special Date'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {specialDates.length === 0 ? (
+          <p className="text-sm text-gray-500">No upcoming special dates.</p>
+        ) : (
+          <div className="space-y-2">
+            {specialDates.map(specialDate => (
+              <div key={specialDate.id} className="flex items-center justify-between p-3 bg-gray-50 rounded border border-gray-200">
+                <div>
+                  <div className="font-medium text-gray-800">
+                    {format(parseISO(specialDate.special_date), 'EEE, MMM d, yyyy')} • {specialDate.name}
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    {specialDate.is_closed ? (
+                      'Closed'
+                    ) : (
+                      <>
+                        {specialDate.opening_time ? formatTime(specialDate.opening_time) : 'Regular opening'}
+                        {' - '}
+                        {specialDate.closing_time ? formatTime(specialDate.closing_time) : 'regular closing'}
+                        {specialDate.time_slot_duration_minutes && ` • ${specialDate.time_slot_duration_minutes} min slots`}
+                        {specialDate.requires_deposit && ' • Deposit required'}
+                      </>
+                    )}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleDeleteSpecialDate(specialDate)}
+                  className="text-red-600 hover:text-red-800"
+                  title="Remove special date"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Preview */}
       <div className="mt-6 pt-6 border-t border-gray-200">
         <h3 className="text-lg font-medium text-gray-800 mb-4">Hours Preview</h3>
@@ -219,10 +674,18 @@ export function OperatingHoursManager({ restaurant, operatingHours, onUpdate }:
             <div key={day.value} className="p-3 bg-gray-50 rounded">
               <div className="font-medium text-gray-800">{day.label}</div>
               <div className="text-sm text-gray-600">
-                {hours[day.value].is_closed ? (
+                {hours[day.value].is_closed || hours[day.value].periods.length === 0 ? (
                   'Closed'
                 ) : (
-                  `${formatTime(hours[day.value].opening_time)} - ${formatTime(hours[day.value].closing_time)}`
+                  hours[day.value].periods
+                    .filter(period => period.opening_time && period.closing_time)
+                    .map((period, index) => (
+                      <div key={index}>
+                        {period.name && <span className="font-medium">{period.name}: </span>}
+                        {formatTime(period.opening_time)} - {formatTime(period.closing_time)}
+                        {period.last_seating_time && ` (last seating ${formatTime(period.last_seating_time)})`}
+                      </div>
+                    ))
                 )}
               </div>
             </div>
@@ -0,0 +1,216 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { flushPrintJobs, retryPrintJob } from '../lib/printing';
+import { PrintJob, PrintJobAttempt, PrintJobStatus, Restaurant } from '../types/database';
+import { PrintJobStatusBadge } from './kitchen/PrintJobQueue';
+import { format } from 'date-fns';
+import { ChevronDown, ChevronRight, History, RefreshCw } from 'lucide-react';
+
+interface PrintJobHistoryProps {
+  restaurant: Restaurant;
+  printers: { id?: string; printer_name: string }[];
+}
+
+interface PrintJobWithOrder extends PrintJob {
+  order: { order_number: string } | null;
+}
+
+const jobTypeLabels: Record<PrintJob['job_type'], string> = {
+  kitchen_ticket: 'Kitchen ticket',
+  receipt: 'Receipt',
+  test_page: 'Test page',
+  table_qr: 'Table QR code'
+};
+
+export function PrintJobHistory({ restaurant, printers }: PrintJobHistoryProps) {
+  const [jobs, setJobs] = useState<PrintJobWithOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<PrintJobStatus | 'all'>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [attempts, setAttempts] = useState<PrintJobAttempt[]>([]);
+  const [retrying, setRetrying] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchJobs();
+
+    const channel = supabase
+      .channel('print_job_history')
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'print_jobs',
+        filter: `restaurant_id=eq.${restaurant.id}`
+      }, fetchJobs)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [restaurant.id, statusFilter]);
+
+  const fetchJobs = async () => {
+    try {
+      let query = supabase
+        .from('print_jobs')
+        .select('*, order:orders(order_number)')
+        .eq('restaurant_id', restaurant.id)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setJobs(data || []);
+    } catch (err) {
+      console.error('Error fetching print history:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleAttempts = async (jobId: string) => {
+    if (expandedId === jobId) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(jobId);
+    setAttempts([]);
+    try {
+      const { data, error } = await supabase
+        .from('print_job_attempts')
+        .select('*')
+        .eq('job_id', jobId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setAttempts(data || []);
+    } catch (err) {
+      console.error('Error fetching print attempts:', err);
+    }
+  };
+
+  const retry = async (jobId: string) => {
+    setRetrying(jobId);
+    try {
+      await retryPrintJob(jobId);
+      await flushPrintJobs(restaurant.id);
+      await fetchJobs();
+    } catch (err) {
+      console.error('Error retrying print job:', err);
+      alert('Failed to retry the print job. Please try again.');
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  const printerName = (printerId: string | null) => {
+    return printers.find(printer => printer.id === printerId)?.printer_name || 'Removed printer';
+  };
+
+  return (
+    <div className="mt-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <History className="h-5 w-5 text-gray-700 mr-2" />
+          <h3 className="text-lg font-semibold text-gray-900">Print History</h3>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as PrintJobStatus | 'all')}
+          className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+        >
+          <option value="all">All jobs</option>
+          <option value="queued">Queued</option>
+          <option value="sent">Sent</option>
+          <option value="printed">Printed</option>
+          <option value="failed">Failed</option>
+        </select>
+      </div>
+
+      {loading ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-4 bg-gray-200 rounded"></div>
+          <div className="h-4 bg-gray-200 rounded w-5/6"></div>
+        </div>
+      ) : jobs.length === 0 ? (
+        <p className="text-center text-gray-600 py-8">No print jobs yet</p>
+      ) : (
+        <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+          {jobs.map(job => (
+            <div key={job.id} className="p-3">
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => toggleAttempts(job.id)}
+                  className="flex items-start text-left"
+                >
+                  {expandedId === job.id
+                    ? <ChevronDown className="h-4 w-4 text-gray-400 mt-0.5 mr-2" />
+                    : <ChevronRight className="h-4 w-4 text-gray-400 mt-0.5 mr-2" />}
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {jobTypeLabels[job.job_type]}
+                      {job.order && ` · ${job.order.order_number}`}
+                      {job.payload?.tableNumber && ` · Table ${job.payload.tableNumber}`}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {format(new Date(job.created_at), 'MMM d, h:mm a')} · {printerName(job.printer_config_id)}
+                      {job.failed_over_from && ` (moved from ${printerName(job.failed_over_from)})`}
+                      {` · ${job.attempts} ${job.attempts === 1 ? 'attempt' : 'attempts'}`}
+                    </p>
+                    {job.status === 'queued' && job.attempts > 0 && (
+                      <p className="text-xs text-gray-500">
+                        Next attempt at {format(new Date(job.next_attempt_at), 'h:mm:ss a')}
+                      </p>
+                    )}
+                    {job.error_message && (job.status === 'queued' || job.status === 'failed') && (
+                      <p className="text-xs text-red-600">{job.error_message}</p>
+                    )}
+                  </div>
+                </button>
+                <div className="flex items-center space-x-2">
+                  <PrintJobStatusBadge status={job.status} />
+                  {job.status === 'failed' && (
+                    <button
+                      onClick={() => retry(job.id)}
+                      disabled={retrying === job.id}
+                      className="flex items-center px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      <RefreshCw className={`w-3 h-3 mr-1 ${retrying === job.id ? 'animate-spin' : ''}`} />
+                      Retry
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {expandedId === job.id && (
+                <div className="mt-2 ml-6 text-xs">
+                  {attempts.length === 0 ? (
+                    <p className="text-gray-500">No attempts yet</p>
+                  ) : (
+                    <table className="w-full">
+                      <tbody>
+                        {attempts.map(attempt => (
+                          <tr key={attempt.id} className="align-top">
+                            <td className="py-1 pr-3 text-gray-500">#{attempt.attempt}</td>
+                            <td className="py-1 pr-3 text-gray-500">{format(new Date(attempt.created_at), 'h:mm:ss a')}</td>
+                            <td className="py-1 pr-3 text-gray-700">{printerName(attempt.printer_config_id)}</td>
+                            <td className="py-1 pr-3 capitalize">{attempt.status}</td>
+                            <td className="py-1 text-red-600">{attempt.error_message}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
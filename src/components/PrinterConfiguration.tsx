@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { Restaurant } from '../types/database';
+import { PrintOutputFormat, Restaurant } from '../types/database';
+import { previewTemplate, PrintTemplate, printTemplate, printTemplates } from '../lib/printing';
 import { Printer, Settings, RefreshCw, Plus, Edit2, Trash2, Check, X, ZapIcon } from 'lucide-react';
 import { useRestaurantData } from '../hooks/useRestaurantData';
+import { PrintJobHistory } from './PrintJobHistory';
 
 interface PrinterConfigurationProps {
   restaurant: Restaurant;
@@ -17,6 +19,10 @@ interface PrinterConfig {
   printer_id?: string;
   is_default: boolean;
   is_active: boolean;
+  output_format?: PrintOutputFormat;
+  paper_width_mm?: number;
+  print_logo?: boolean;
+  backup_printer_config_id?: string | null;
 }
 
 interface PrinterDevice {
@@ -39,6 +45,10 @@ export function PrinterConfiguration({ restaurant }: PrinterConfigurationProps)
     printer_id: '',
     is_default: false,
     is_active: true,
+    output_format: 'html',
+    paper_width_mm: 80,
+    print_logo: false,
+    backup_printer_config_id: null,
   });
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -51,6 +61,10 @@ export function PrinterConfiguration({ restaurant }: PrinterConfigurationProps)
   });
   const [showApiConfig, setShowApiConfig] = useState(false);
   const [savingApiConfig, setSavingApiConfig] = useState(false);
+  const [autoPrintTickets, setAutoPrintTickets] = useState(restaurant.auto_print_tickets);
+  const [previewTemplateName, setPreviewTemplateName] = useState<PrintTemplate>('test_page');
+  const [preview, setPreview] = useState<string | null>(null);
+  const [loadingPreview, setLoadingPreview] = useState(false);
 
   useEffect(() => {
     fetchPrinterConfigs();
@@ -201,6 +215,24 @@ export function PrinterConfiguration({ restaurant }: PrinterConfigurationProps)
     }
   };
 
+  const toggleAutoPrintTickets = async () => {
+    const enabled = !autoPrintTickets;
+    try {
+      setError(null);
+      const { error } = await supabase
+        .from('restaurants')
+        .update({ auto_print_tickets: enabled })
+        .eq('id', restaurant.id);
+
+      if (error) throw error;
+      setAutoPrintTickets(enabled);
+      refetch();
+    } catch (err) {
+      console.error('Error updating auto print setting:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update ticket printing');
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -270,8 +302,13 @@ export function PrinterConfiguration({ restaurant }: PrinterConfigurationProps)
       printer_id: '',
       is_default: false,
       is_active: true,
+      output_format: 'html',
+      paper_width_mm: 80,
+      print_logo: false,
+      backup_printer_config_id: null,
     });
     setEditingId(null);
+    setPreview(null);
     setShowForm(false);
   };
 
@@ -389,62 +426,14 @@ export function PrinterConfiguration({ restaurant }: PrinterConfigurationProps)
       setTestPrinting(true);
       setError(null);
       
-      // Generate a simple test page
-      const testHtml = `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <title>Printer Test</title>
-          <style>
-            body { font-family: Arial, sans-serif; text-align: center; margin: 20px; }
-            h1 { font-size: 18px; margin-bottom: 10px; }
-            p { font-size: 14px; }
-            .test-box { border: 1px solid #000; padding: 10px; margin: 10px 0; }
-          </style>
-        </head>
-        <body>
-          <h1>Printer Test Page</h1>
-          <p>Restaurant: ${restaurant.name}</p>
-          <p>Printer: ${formData.printer_name || 'New Printer'}</p>
-          <p>Date: ${new Date().toLocaleString()}</p>
-          <div class="test-box">
-            <p>If you can read this, your printer is working correctly!</p>
-          </div>
-        </body>
-        </html>
-      `;
-      
-      const base64Content = btoa(testHtml);
-      
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/print-proxy/print`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          restaurantId: restaurant.id,
-          deviceId: formData.device_id,
-          printerId: formData.printer_id,
-          content: base64Content,
-          options: {
-            mimeType: 'text/html',
-            copies: 1
-          },
-          jobName: 'Test Print'
-        }),
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Test print failed: ${response.status} ${response.statusText} - ${errorText}`);
-      }
-      
-      const result = await response.json();
-      
-      if (!result.success) {
-        throw new Error(result.error || 'Test print job failed');
-      }
+      // Printed with the form's settings, so it works before the printer is saved
+      await printTemplate(restaurant.id, {
+        deviceId: formData.device_id,
+        printerId: formData.printer_id,
+        outputFormat: formData.output_format || 'html',
+        paperWidthMm: formData.paper_width_mm || 80,
+        printLogo: !!formData.print_logo
+      }, 'test_page');
       
       // Show success notification
       const notification = document.createElement('div');
@@ -466,6 +455,24 @@ export function PrinterConfiguration({ restaurant }: PrinterConfigurationProps)
     }
   };
 
+  const loadPreview = async () => {
+    try {
+      setLoadingPreview(true);
+      setError(null);
+      setPreview(await previewTemplate(
+        restaurant.id,
+        previewTemplateName,
+        formData.paper_width_mm || 80,
+        formData.output_format === 'escpos' && !!formData.print_logo
+      ));
+    } catch (err) {
+      console.error('Preview error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load preview');
+    } finally {
+      setLoadingPreview(false);
+    }
+  };
+
   const getConnectionIcon = (type: string) => {
     switch (type) {
       case 'network':
@@ -517,6 +524,22 @@ export function PrinterConfiguration({ restaurant }: PrinterConfigurationProps)
         </div>
       )}
 
+      <label className="flex items-start mb-6 p-4 bg-gray-50 border border-gray-200 rounded-md cursor-pointer">
+        <input
+          type="checkbox"
+          checked={autoPrintTickets}
+          onChange={toggleAutoPrintTickets}
+          className="mt-1 mr-3"
+        />
+        <div>
+          <p className="text-sm font-medium text-gray-900">Print kitchen tickets automatically</p>
+          <p className="text-xs text-gray-600">
+            New orders print a ticket at each kitchen station's printer, or at the default printer for stations
+            without one. Assign printers to stations from the Kitchen tab.
+          </p>
+        </div>
+      </label>
+
       {/* API Configuration Modal */}
       {showApiConfig && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
@@ -674,6 +697,105 @@ export function PrinterConfiguration({ restaurant }: PrinterConfigurationProps)
                 </div>
               </div>
               
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Print Format
+                  </label>
+                  <select
+                    value={formData.output_format}
+                    onChange={(e) => setFormData(prev => ({ ...prev, output_format: e.target.value as PrintOutputFormat }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="html">HTML (office and label printers)</option>
+                    <option value="escpos">ESC/POS (thermal receipt printers)</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Paper Width
+                  </label>
+                  <select
+                    value={formData.paper_width_mm}
+                    onChange={(e) => setFormData(prev => ({ ...prev, paper_width_mm: parseInt(e.target.value) }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value={80}>80mm (48 characters)</option>
+                    <option value={58}>58mm (32 characters)</option>
+                  </select>
+                </div>
+
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Backup Printer
+                  </label>
+                  <select
+                    value={formData.backup_printer_config_id || ''}
+                    onChange={(e) => setFormData(prev => ({ ...prev, backup_printer_config_id: e.target.value || null }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">None</option>
+                    {printerConfigs
+                      .filter(config => config.id !== editingId)
+                      .map(config => (
+                        <option key={config.id} value={config.id}>{config.printer_name}</option>
+                      ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Jobs move to the backup printer when this printer fails twice in a row.
+                  </p>
+                </div>
+
+                {formData.output_format === 'escpos' && (
+                  <label className="flex items-start col-span-2">
+                    <input
+                      type="checkbox"
+                      checked={!!formData.print_logo}
+                      onChange={(e) => setFormData(prev => ({ ...prev, print_logo: e.target.checked }))}
+                      className="mt-1 rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                    />
+                    <span className="ml-2 text-sm text-gray-700">
+                      Print logo on receipts
+                      <span className="block text-xs text-gray-500">
+                        Uses the logo stored in the printer with its setup utility (NV graphics slot 1).
+                      </span>
+                    </span>
+                  </label>
+                )}
+              </div>
+
+              <div className="mt-4 p-4 bg-gray-50 border border-gray-200 rounded-md">
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="font-medium text-gray-800">Preview</h4>
+                  <div className="flex space-x-2">
+                    <select
+                      value={previewTemplateName}
+                      onChange={(e) => setPreviewTemplateName(e.target.value as PrintTemplate)}
+                      className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+                    >
+                      {printTemplates.map(template => (
+                        <option key={template.value} value={template.value}>{template.label}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={loadPreview}
+                      disabled={loadingPreview}
+                      className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50"
+                    >
+                      {loadingPreview ? <RefreshCw className="h-4 w-4 animate-spin" /> : 'Show'}
+                    </button>
+                  </div>
+                </div>
+                <p className="text-xs text-gray-600 mb-2">
+                  How a thermal printer with this paper width lays out the page, using example content.
+                </p>
+                {preview !== null && (
+                  <pre className="bg-white border border-gray-300 p-3 text-xs font-mono overflow-x-auto inline-block">{preview}</pre>
+                )}
+              </div>
+
               <div className="mt-4">
                 <div className="mb-4 p-4 bg-blue-50 border border-blue-200 rounded-md">
                   <div className="flex items-center mb-2">
@@ -786,6 +908,12 @@ export function PrinterConfiguration({ restaurant }: PrinterConfigurationProps)
                         <span> • Printer ID: {config.printer_id}</span>
                       )}
                     </div>
+                    <div className="text-xs text-gray-500">
+                      {config.output_format === 'escpos' ? 'ESC/POS' : 'HTML'} • {config.paper_width_mm || 80}mm
+                      {config.backup_printer_config_id && (
+                        <span> • Backup: {printerConfigs.find(p => p.id === config.backup_printer_config_id)?.printer_name}</span>
+                      )}
+                    </div>
                   </div>
                 </div>
                 <div className="flex space-x-2">
@@ -846,6 +974,8 @@ export function PrinterConfiguration({ restaurant }: PrinterConfigurationProps)
           ))
         )}
       </div>
+
+      <PrintJobHistory restaurant={restaurant} printers={printerConfigs} />
     </div>
   );
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
+import { printTemplate } from '../lib/printing';
 import { Restaurant, RestaurantTable, OrderSession } from '../types/database';
 import { QrCode, Download, ExternalLink, RefreshCw, Copy, Check, Printer } from 'lucide-react';
 
@@ -179,52 +180,6 @@ export function QRCodeGenerator({ restaurant, tables }: QRCodeGeneratorProps) {
     document.body.removeChild(link);
   };
 
-  const generateQRCodeHtml = (tableNumber: string, qrCodeUrl: string) => {
-    return `
-      <html>
-        <head>
-          <style>
-            body {
-              font-family: Arial, sans-serif;
-              margin: 0;
-              padding: 0;
-              text-align: center;
-            }
-            .container {
-              padding: 10px;
-            }
-            .restaurant-name {
-              font-size: 14px;
-              font-weight: bold;
-              margin-bottom: 5px;
-            }
-            .table-number {
-              font-size: 16px;
-              font-weight: bold;
-              margin-bottom: 10px;
-            }
-            .instructions {
-              font-size: 12px;
-              margin-top: 10px;
-            }
-            img {
-              max-width: 200px;
-              height: auto;
-            }
-          </style>
-        </head>
-        <body>
-          <div class="container">
-            <div class="restaurant-name">${restaurant.name}</div>
-            <div class="table-number">Table ${tableNumber}</div>
-            <img src="https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=${encodeURIComponent(qrCodeUrl)}" alt="QR Code" />
-            <div class="instructions">Scan to order food & drinks</div>
-          </div>
-        </body>
-      </html>
-    `;
-  };
-
   const printQRCode = async (table: TableWithSession) => {
     if (!table.qrCodeUrl || !selectedPrinter) return;
     
@@ -235,45 +190,12 @@ export function QRCodeGenerator({ restaurant, tables }: QRCodeGeneratorProps) {
       const printer = printerConfigs.find(p => p.id === selectedPrinter);
       if (!printer) throw new Error('Selected printer not found');
       
-      const qrCodeHtml = generateQRCodeHtml(table.table_number, table.qrCodeUrl);
-      
-      const base64Content = btoa(qrCodeHtml);
-      
-      // Get API configuration from localStorage
-      const apiUrl = localStorage.getItem('print_api_url');
-      const apiKey = localStorage.getItem('print_api_key');
-      
-      if (!apiUrl || !apiKey) {
-        throw new Error('Print API not configured. Please set up API settings in Printer Configuration.');
-      }
-      
-      // Direct API call to the middleware server
-      const response = await fetch(`${apiUrl}/api/command`, {
-        method: 'POST',
-        headers: {
-          'x-api-key': apiKey,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          deviceId: printer.device_id,
-          command: 'print',
-          payload: {
-            printer_id: printer.printer_id,
-            content: base64Content,
-            options: {
-              mimeType: 'text/html',
-              copies: 1
-            },
-            jobName: `QR Code - Table ${table.table_number}`
-          }
-        }),
+      // Laid out by the print proxy for the printer's format and paper width
+      await printTemplate(restaurant.id, { printerConfigId: printer.id }, 'table_qr', {
+        tableNumber: table.table_number,
+        url: table.qrCodeUrl
       });
       
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to print QR code');
-      }
-      
       // Show success notification
       const notification = document.createElement('div');
       notification.className = 'fixed top-4 right-4 bg-green-500 text-white px-4 py-2 rounded-lg shadow-lg z-50';
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { useRestaurantData } from '../hooks/useRestaurantData';
 import { TableGridWithOrders } from './TableGridWithOrders';
+import { FloorView } from './floor/FloorView';
 import { WalkInLogger } from './WalkInLogger';
 import { BookingList } from './BookingList';
 import { WaitingListManager } from './WaitingListManager';
@@ -10,8 +11,32 @@ import { StaffOrderManagement } from './qr-ordering/StaffOrderManagement';
 import { MenuManagement } from './MenuManagement';
 import { QRCodeGenerator } from './QRCodeGenerator';
 import { LoyaltyManagement } from './LoyaltyManagement';
-import { RestaurantTable } from '../types/database';
-import { Settings, Users, Calendar, Clock, RefreshCw, Building, AlertCircle, BarChart3, ChefHat, QrCode, Crown } from 'lucide-react';
+import { NotificationSettings } from './NotificationSettings';
+import { InventoryManager } from './InventoryManager';
+import { KitchenDisplay } from './kitchen/KitchenDisplay';
+import { LowStockAlert } from './LowStockAlert';
+import { StaffManagement } from './StaffManagement';
+import { hasPermission } from '../lib/staff';
+import { RestaurantTable, StaffPermission } from '../types/database';
+import { Settings, Users, Calendar, Clock, RefreshCw, Building, AlertCircle, BarChart3, ChefHat, QrCode, Crown, Bell, Package, Flame, Grid, MapIcon, UserCog } from 'lucide-react';
+
+type DashboardTab = 'bookings' | 'tables' | 'waiting' | 'hours' | 'analytics' | 'orders' | 'kitchen' | 'menu' | 'inventory' | 'loyalty' | 'notifications' | 'staff';
+
+// What each tab needs, in the order the tabs are shown
+const tabPermissions: [DashboardTab, StaffPermission][] = [
+  ['bookings', 'bookings'],
+  ['waiting', 'bookings'],
+  ['orders', 'orders'],
+  ['kitchen', 'kitchen'],
+  ['menu', 'menu'],
+  ['inventory', 'menu'],
+  ['loyalty', 'loyalty'],
+  ['analytics', 'analytics'],
+  ['tables', 'tables'],
+  ['hours', 'settings'],
+  ['notifications', 'settings'],
+  ['staff', 'staff']
+];
 
 export function RestaurantDashboard() {
   const { 
@@ -20,20 +45,26 @@ export function RestaurantDashboard() {
     bookings, 
     waitingList, 
     operatingHours, 
+    servicePeriods,
+    specialDates,
+    staffRole,
     loading, 
     error, 
     updateTableStatus, 
     updateBookingStatus, 
     assignTableToBooking, 
+    updateBookingDuration,
     promoteFromWaitingList,
     cancelWaitingListEntry,
+    expireWaitlistOffers,
     refetch 
   } = useRestaurantData();
   
   const [selectedTable, setSelectedTable] = useState<RestaurantTable | null>(null);
   const [showWalkInLogger, setShowWalkInLogger] = useState(false);
-  const [activeTab, setActiveTab] = useState<'bookings' | 'tables' | 'waiting' | 'hours' | 'analytics' | 'orders' | 'menu' | 'loyalty'>('bookings');
+  const [activeTab, setActiveTab] = useState<DashboardTab>('bookings');
   const [refreshing, setRefreshing] = useState(false);
+  const [tableView, setTableView] = useState<'floor' | 'grid'>('floor');
 
   const handleManualRefresh = async () => {
     setRefreshing(true);
@@ -123,6 +154,11 @@ export function RestaurantDashboard() {
     );
   }
 
+  const can = (permission: StaffPermission) => hasPermission(staffRole, permission);
+  const allowedTabs = tabPermissions.filter(([, permission]) => can(permission)).map(([tab]) => tab);
+  // Kitchen staff land on the kitchen display, hosts on bookings, and so on
+  const currentTab = allowedTabs.includes(activeTab) ? activeTab : allowedTabs[0];
+
   const handleMarkOccupied = (table: RestaurantTable) => {
     setSelectedTable(table);
     setShowWalkInLogger(true);
@@ -155,6 +191,15 @@ export function RestaurantDashboard() {
     }
   };
 
+  const handleDurationUpdate = async (bookingId: string, durationMinutes: number) => {
+    try {
+      return await updateBookingDuration(bookingId, durationMinutes);
+    } catch (err) {
+      console.error('Failed to update booking duration:', err);
+      throw err;
+    }
+  };
+
   // Show all active bookings instead of just today's
   const activeBookings = bookings.filter(booking => 
     ['pending', 'confirmed', 'seated'].includes(booking.status)
@@ -289,147 +334,262 @@ export function RestaurantDashboard() {
           </div>
         </div>
 
+        {can('menu') && (
+          <LowStockAlert restaurant={restaurant} onRestock={() => setActiveTab('inventory')} />
+        )}
+
         {/* Navigation Tabs */}
         <div className="mb-6">
           <nav className="flex space-x-8">
-            <button
-              onClick={() => setActiveTab('bookings')}
-              className={`py-2 px-1 border-b-2 font-medium text-sm ${
-                activeTab === 'bookings'
-                  ? 'border-blue-500 text-blue-600'
-                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-              }`}
-            >
-              Bookings ({activeBookings.length})
-            </button>
-            <button
-              onClick={() => setActiveTab('waiting')}
-              className={`py-2 px-1 border-b-2 font-medium text-sm ${
-                activeTab === 'waiting'
-                  ? 'border-blue-500 text-blue-600'
-                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-              }`}
-            >
-              Waiting List ({waitingList.length})
-            </button>
-            <button
-              onClick={() => setActiveTab('orders')}
-              className={`py-2 px-1 border-b-2 font-medium text-sm ${
-                activeTab === 'orders'
-                  ? 'border-blue-500 text-blue-600'
-                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-              }`}
-            >
-              <ChefHat className="w-4 h-4 inline mr-1" />
-              Orders
-            </button>
-            <button
-              onClick={() => setActiveTab('menu')}
-              className={`py-2 px-1 border-b-2 font-medium text-sm ${
-                activeTab === 'menu'
-                  ? 'border-blue-500 text-blue-600'
-                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-              }`}
-            >
-              Menu & QR Codes
-            </button>
-            <button
-              onClick={() => setActiveTab('loyalty')}
-              className={`py-2 px-1 border-b-2 font-medium text-sm ${
-                activeTab === 'loyalty'
-                  ? 'border-blue-500 text-blue-600'
-                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-              }`}
-            >
-              <Crown className="w-4 h-4 inline mr-1" />
-              Loyalty
-            </button>
-            <button
-              onClick={() => setActiveTab('analytics')}
-              className={`py-2 px-1 border-b-2 font-medium text-sm ${
-                activeTab === 'analytics'
-                  ? 'border-blue-500 text-blue-600'
-                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-              }`}
-            >
-              <BarChart3 className="w-4 h-4 inline mr-1" />
-              Analytics
-            </button>
-            <button
-              onClick={() => setActiveTab('tables')}
-              className={`py-2 px-1 border-b-2 font-medium text-sm ${
-                activeTab === 'tables'
-                  ? 'border-blue-500 text-blue-600'
-                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-              }`}
-            >
-              Table Management
-            </button>
-            <button
-              onClick={() => setActiveTab('hours')}
-              className={`py-2 px-1 border-b-2 font-medium text-sm ${
-                activeTab === 'hours'
-                  ? 'border-blue-500 text-blue-600'
-                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-              }`}
-            >
-              Operating Hours
-            </button>
+            {can('bookings') && (
+              <button
+                onClick={() => setActiveTab('bookings')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  currentTab === 'bookings'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                Bookings ({activeBookings.length})
+              </button>
+            )}
+            {can('bookings') && (
+              <button
+                onClick={() => setActiveTab('waiting')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  currentTab === 'waiting'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                Waiting List ({waitingList.length})
+              </button>
+            )}
+            {can('orders') && (
+              <button
+                onClick={() => setActiveTab('orders')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  currentTab === 'orders'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                <ChefHat className="w-4 h-4 inline mr-1" />
+                Orders
+              </button>
+            )}
+            {can('kitchen') && (
+              <button
+                onClick={() => setActiveTab('kitchen')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  currentTab === 'kitchen'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                <Flame className="w-4 h-4 inline mr-1" />
+                Kitchen
+              </button>
+            )}
+            {can('menu') && (
+              <button
+                onClick={() => setActiveTab('menu')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  currentTab === 'menu'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                Menu & QR Codes
+              </button>
+            )}
+            {can('menu') && (
+              <button
+                onClick={() => setActiveTab('inventory')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  currentTab === 'inventory'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                <Package className="w-4 h-4 inline mr-1" />
+                Inventory
+              </button>
+            )}
+            {can('loyalty') && (
+              <button
+                onClick={() => setActiveTab('loyalty')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  currentTab === 'loyalty'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                <Crown className="w-4 h-4 inline mr-1" />
+                Loyalty
+              </button>
+            )}
+            {can('analytics') && (
+              <button
+                onClick={() => setActiveTab('analytics')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  currentTab === 'analytics'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                <BarChart3 className="w-4 h-4 inline mr-1" />
+                Analytics
+              </button>
+            )}
+            {can('tables') && (
+              <button
+                onClick={() => setActiveTab('tables')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  currentTab === 'tables'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                Table Management
+              </button>
+            )}
+            {can('settings') && (
+              <button
+                onClick={() => setActiveTab('hours')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  currentTab === 'hours'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                Operating Hours
+              </button>
+            )}
+            {can('settings') && (
+              <button
+                onClick={() => setActiveTab('notifications')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  currentTab === 'notifications'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                <Bell className="w-4 h-4 inline mr-1" />
+                Notifications
+              </button>
+            )}
+            {can('staff') && (
+              <button
+                onClick={() => setActiveTab('staff')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  currentTab === 'staff'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                <UserCog className="w-4 h-4 inline mr-1" />
+                Staff
+              </button>
+            )}
           </nav>
         </div>
 
         {/* Content */}
-        {activeTab === 'bookings' && (
+        {allowedTabs.length === 0 && (
+          <div className="text-center py-12 bg-white rounded-lg shadow">
+            <p className="text-gray-600">Your account doesn't have a role at {restaurant.name} yet. Ask the owner or a manager to invite you.</p>
+          </div>
+        )}
+
+        {currentTab === 'bookings' && (
           <BookingList 
             bookings={activeBookings} 
             tables={tables}
             onUpdateBooking={handleBookingStatusUpdate}
             onAssignTable={handleTableAssignment}
+            onUpdateDuration={handleDurationUpdate}
           />
         )}
 
-        {activeTab === 'waiting' && (
+        {currentTab === 'waiting' && (
           <WaitingListManager
             waitingList={waitingList}
             onPromoteCustomer={handlePromoteFromWaitingList}
             onCancelWaiting={handleCancelWaiting}
+            onExpireOffers={expireWaitlistOffers}
           />
         )}
 
-        {activeTab === 'orders' && (
+        {currentTab === 'orders' && (
           <StaffOrderManagement restaurant={restaurant} />
         )}
 
-        {activeTab === 'menu' && (
+        {currentTab === 'kitchen' && (
+          <KitchenDisplay restaurant={restaurant} canManageStations={can('settings')} />
+        )}
+
+        {currentTab === 'menu' && (
           <div className="space-y-6">
             <MenuManagement restaurant={restaurant} />
             <QRCodeGenerator restaurant={restaurant} tables={tables} />
           </div>
         )}
         
-        {activeTab === 'loyalty' && (
+        {currentTab === 'inventory' && (
+          <InventoryManager restaurant={restaurant} />
+        )}
+
+        {currentTab === 'loyalty' && (
           <LoyaltyManagement restaurant={restaurant} />
         )}
         
-        {activeTab === 'analytics' && (
-          <BookingAnalytics restaurant={restaurant} />
+        {currentTab === 'analytics' && (
+          <BookingAnalytics restaurant={restaurant} showGroupOutlets={staffRole === 'owner'} />
         )}
         
-        {activeTab === 'tables' && (
+        {currentTab === 'tables' && (
           <div className="bg-white rounded-lg shadow-md p-6">
-            <div className="mb-6">
-              <h2 className="text-xl font-semibold text-gray-800 mb-2">Table Layout, Walk-In Management & QR Ordering</h2>
-              <p className="text-gray-600">
-                Click "Mark Occupied" on available tables to instantly log walk-ins and enable QR ordering. View active orders and manage table sessions.
-              </p>
+            <div className="mb-6 flex justify-between items-start">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-800 mb-2">Table Layout, Walk-In Management & QR Ordering</h2>
+                <p className="text-gray-600">
+                  Click "Mark Occupied" on available tables to instantly log walk-ins and enable QR ordering. View active orders and manage table sessions.
+                </p>
+              </div>
+              <div className="flex bg-gray-100 rounded-lg p-1 ml-4">
+                <button
+                  onClick={() => setTableView('floor')}
+                  className={`p-2 rounded ${tableView === 'floor' ? 'bg-white shadow' : ''}`}
+                  title="Floor plan"
+                >
+                  <MapIcon className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setTableView('grid')}
+                  className={`p-2 rounded ${tableView === 'grid' ? 'bg-white shadow' : ''}`}
+                  title="Grid"
+                >
+                  <Grid className="w-4 h-4" />
+                </button>
+              </div>
             </div>
-            <TableGridWithOrders 
-              restaurant={restaurant}
-              tables={tables} 
-              bookings={bookings}
-              onMarkOccupied={handleMarkOccupied}
-              showOccupiedButton={true}
-            />
+            {tableView === 'floor' ? (
+              <FloorView
+                restaurant={restaurant}
+                tables={tables}
+                bookings={bookings}
+                onMarkOccupied={handleMarkOccupied}
+              />
+            ) : (
+              <TableGridWithOrders 
+                restaurant={restaurant}
+                tables={tables} 
+                bookings={bookings}
+                onMarkOccupied={handleMarkOccupied}
+                showOccupiedButton={true}
+              />
+            )}
             
             {/* Walk-in Instructions */}
             <div className="mt-6 p-4 bg-orange-50 rounded-lg border border-orange-200">
@@ -446,13 +606,23 @@ export function RestaurantDashboard() {
           </div>
         )}
 
-        {activeTab === 'hours' && (
+        {currentTab === 'hours' && (
           <OperatingHoursManager 
             restaurant={restaurant}
             operatingHours={operatingHours}
+            servicePeriods={servicePeriods}
+            specialDates={specialDates}
             onUpdate={refetch}
           />
         )}
+
+        {currentTab === 'notifications' && (
+          <NotificationSettings restaurant={restaurant} />
+        )}
+
+        {currentTab === 'staff' && (
+          <StaffManagement restaurant={restaurant} staffRole={staffRole} />
+        )}
       </div>
 
       {/* Walk-In Logger Modal */}
@@ -0,0 +1,337 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import {
+  createRestaurantGroup,
+  deleteRestaurantGroup,
+  fetchRestaurantGroup,
+  publishGroupMenu,
+  setRestaurantGroup,
+  switchRestaurant,
+  updateRestaurantGroup
+} from '../lib/restaurantGroups';
+import { Restaurant, RestaurantGroup } from '../types/database';
+import { Crown, Layers, Network, Save, Send, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface RestaurantGroupSettingsProps {
+  restaurant: Restaurant;
+  restaurants: Restaurant[];
+}
+
+export function RestaurantGroupSettings({ restaurant, restaurants }: RestaurantGroupSettingsProps) {
+  const { user } = useAuth();
+  const [group, setGroup] = useState<RestaurantGroup | null>(null);
+  // Outlets the user owns; kept here so membership changes show straight away
+  const [outlets, setOutlets] = useState<Restaurant[]>([]);
+  const [groupName, setGroupName] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+
+  useEffect(() => {
+    fetchGroup();
+  }, [restaurant.id]);
+
+  const fetchGroup = async () => {
+    try {
+      const groupData = restaurant.group_id ? await fetchRestaurantGroup(restaurant.group_id) : null;
+      setGroup(groupData);
+      setGroupName(groupData?.name || `${restaurant.name} Group`);
+      setOutlets(restaurants.filter(r => r.owner_id === user?.id));
+    } catch (error) {
+      console.error('Error fetching restaurant group:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showToast = (message: string) => {
+    const notification = document.createElement('div');
+    notification.className = 'fixed top-4 right-4 bg-green-500 text-white px-4 py-2 rounded-lg shadow-lg z-50';
+    notification.textContent = message;
+    document.body.appendChild(notification);
+
+    setTimeout(() => {
+      if (document.body.contains(notification)) {
+        document.body.removeChild(notification);
+      }
+    }, 3000);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      await createRestaurantGroup(user.id, groupName.trim(), restaurant.id);
+      // The rest of the dashboard needs to see the outlet's new group
+      switchRestaurant(restaurant.id);
+    } catch (error) {
+      console.error('Error creating restaurant group:', error);
+      alert(error instanceof Error ? error.message : 'Failed to create the group');
+      setSaving(false);
+    }
+  };
+
+  const updateGroup = async (updates: Parameters<typeof updateRestaurantGroup>[1], message: string) => {
+    if (!group) return;
+
+    setSaving(true);
+    try {
+      await updateRestaurantGroup(group.id, updates);
+      const groupData = await fetchRestaurantGroup(group.id);
+      setGroup(groupData);
+      showToast(message);
+    } catch (error) {
+      console.error('Error updating restaurant group:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update the group');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMenuSourceChange = (menuRestaurantId: string) => {
+    if (group?.menu_restaurant_id && !confirm('Change where the group menu comes from? Outlets keep the dishes they already have as their own, and the new menu is added next time you publish.')) {
+      return;
+    }
+
+    updateGroup({ menu_restaurant_id: menuRestaurantId || null }, 'Shared menu updated');
+  };
+
+  const toggleOutlet = async (outlet: Restaurant) => {
+    if (!group) return;
+
+    const joining = outlet.group_id !== group.id;
+    if (!joining && !confirm(`Take ${outlet.name} out of ${group.name}? It keeps its menu and stops sharing loyalty with the group.`)) {
+      return;
+    }
+    if (joining && outlet.group_id && !confirm(`${outlet.name} is in another group. Move it to ${group.name}?`)) {
+      return;
+    }
+
+    try {
+      await setRestaurantGroup(outlet.id, joining ? group.id : null);
+      if (outlet.id === restaurant.id) {
+        switchRestaurant(restaurant.id);
+        return;
+      }
+      setOutlets(outlets.map(r => r.id === outlet.id ? { ...r, group_id: joining ? group.id : null } : r));
+      // Leaving takes the outlet off the group menu if it was the source
+      setGroup(await fetchRestaurantGroup(group.id));
+    } catch (error) {
+      console.error('Error changing outlet group:', error);
+      alert(error instanceof Error ? error.message : 'Failed to change the outlet\'s group');
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!group) return;
+
+    setPublishing(true);
+    try {
+      const outletCount = await publishGroupMenu(group.id);
+      setGroup(await fetchRestaurantGroup(group.id));
+      showToast(`Menu published to ${outletCount} outlet${outletCount === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Error publishing group menu:', error);
+      alert(error instanceof Error ? error.message : 'Failed to publish the menu');
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!group || !confirm(`Delete ${group.name}? Every outlet keeps its menu, bookings and loyalty members, but they stop sharing them.`)) {
+      return;
+    }
+
+    try {
+      await deleteRestaurantGroup(group.id);
+      switchRestaurant(restaurant.id);
+    } catch (error) {
+      console.error('Error deleting restaurant group:', error);
+      alert(error instanceof Error ? error.message : 'Failed to delete the group');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="w-8 h-8 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const groupOutlets = group ? outlets.filter(r => r.group_id === group.id) : [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800 mb-2">Restaurant Group</h1>
+          <p className="text-gray-600">
+            Outlets in a group can share one menu and one loyalty programme, and you can compare them side by side in Analytics.
+          </p>
+        </div>
+
+        {!group ? (
+          <form onSubmit={handleCreate} className="bg-white rounded-lg shadow-md p-6">
+            <h2 className="text-xl font-semibold text-gray-800 mb-2 flex items-center">
+              <Network className="w-5 h-5 mr-2" />
+              Start a Group
+            </h2>
+            <p className="text-gray-600 mb-4">
+              {restaurant.name} will be the first outlet in the group. You can add your other outlets afterwards.
+            </p>
+            <div className="flex gap-3">
+              <input
+                type="text"
+                required
+                value={groupName}
+                onChange={(e) => setGroupName(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Group name"
+              />
+              <button
+                type="submit"
+                disabled={saving || !groupName.trim()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Creating...' : 'Create Group'}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <>
+            {/* Name and outlets */}
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center">
+                <Network className="w-5 h-5 mr-2" />
+                Outlets
+              </h2>
+              <div className="flex gap-3 mb-6">
+                <input
+                  type="text"
+                  value={groupName}
+                  onChange={(e) => setGroupName(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  onClick={() => updateGroup({ name: groupName.trim() }, 'Group name saved')}
+                  disabled={saving || !groupName.trim() || groupName.trim() === group.name}
+                  className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  Save
+                </button>
+              </div>
+
+              <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {outlets.map(outlet => (
+                  <label key={outlet.id} className="flex items-center justify-between p-3 cursor-pointer">
+                    <div>
+                      <p className="font-medium text-gray-800">
+                        {outlet.name}
+                        {outlet.id === restaurant.id && <span className="ml-2 text-xs text-gray-500">(open now)</span>}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {outlet.group_id === group.id ? 'In this group' : outlet.group_id ? 'In another group' : 'Not in a group'}
+                      </p>
+                    </div>
+                    <input
+                      type="checkbox"
+                      checked={outlet.group_id === group.id}
+                      onChange={() => toggleOutlet(outlet)}
+                      className="w-4 h-4 text-blue-600"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {/* Shared menu */}
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <h2 className="text-xl font-semibold text-gray-800 mb-2 flex items-center">
+                <Layers className="w-5 h-5 mr-2" />
+                Shared Menu
+              </h2>
+              <p className="text-gray-600 mb-4">
+                Pick the outlet whose menu the group uses and publish it to the others. Each outlet can still change prices and
+                details on its copy; those changes are kept when you publish again. Availability, stock and kitchen stations
+                always stay with the outlet.
+              </p>
+              <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Menu comes from</label>
+                  <select
+                    value={group.menu_restaurant_id || ''}
+                    onChange={(e) => handleMenuSourceChange(e.target.value)}
+                    disabled={saving}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Each outlet keeps its own menu</option>
+                    {groupOutlets.map(outlet => (
+                      <option key={outlet.id} value={outlet.id}>{outlet.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <button
+                  onClick={handlePublish}
+                  disabled={publishing || !group.menu_restaurant_id || groupOutlets.length < 2}
+                  className="flex items-center justify-center px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors disabled:opacity-50"
+                >
+                  <Send className="w-4 h-4 mr-2" />
+                  {publishing ? 'Publishing...' : 'Publish to Outlets'}
+                </button>
+              </div>
+              {group.menu_restaurant_id && (
+                <p className="mt-2 text-xs text-gray-500">
+                  {group.menu_published_at
+                    ? `Last published ${format(new Date(group.menu_published_at), 'MMM d, h:mm a')}`
+                    : 'Not published yet'}
+                </p>
+              )}
+            </div>
+
+            {/* Loyalty */}
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <h2 className="text-xl font-semibold text-gray-800 mb-2 flex items-center">
+                <Crown className="w-5 h-5 mr-2" />
+                Loyalty
+              </h2>
+              <label className="flex items-start space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={group.shared_loyalty}
+                  onChange={(e) => updateGroup(
+                    { shared_loyalty: e.target.checked },
+                    e.target.checked ? 'Loyalty is now shared across the group' : 'Each outlet now runs its own loyalty'
+                  )}
+                  disabled={saving}
+                  className="mt-1 w-4 h-4 text-blue-600"
+                />
+                <span>
+                  <span className="font-medium text-gray-800">Share loyalty across the group</span>
+                  <span className="block text-sm text-gray-600">
+                    Members' spending at any outlet counts towards their rewards at all of them.
+                  </span>
+                </span>
+              </label>
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                onClick={handleDelete}
+                className="flex items-center px-4 py-2 text-red-600 hover:bg-red-50 rounded-md transition-colors"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete Group
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
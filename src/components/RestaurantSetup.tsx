@@ -1,12 +1,42 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
-import { Restaurant, RestaurantTable } from '../types/database';
+import { DepositPolicy, Restaurant, RestaurantTable, WaitlistMatchingMode } from '../types/database';
 import { TableManager } from './TableManager';
 import { Building, Globe, Copy, Check, ExternalLink, Settings, Users, Printer } from 'lucide-react';
 import { PrinterConfiguration } from './PrinterConfiguration';
-
-export function RestaurantSetup() {
+import { getStaffRestaurantId } from '../lib/staff';
+import { fetchMyRestaurants, pickRestaurant, switchRestaurant } from '../lib/restaurantGroups';
+
+const waitlistMatchingModes: { value: WaitlistMatchingMode; label: string; description: string }[] = [
+  { value: 'strict', label: 'Strict queue order', description: 'Only the first guest in line is offered a table. Nobody is skipped, but tables may stay empty.' },
+  { value: 'first_fit', label: 'First guest who fits', description: 'The first guest in line whose party fits the free table is offered it.' },
+  { value: 'best_fit', label: 'Best fitting party', description: 'The party that fills the free table most closely is offered it, with queue order breaking ties.' }
+];
+
+// IANA names, stored in restaurants.timezone
+const timeZones = [
+  'Asia/Singapore',
+  'Asia/Kuala_Lumpur',
+  'Asia/Jakarta',
+  'Asia/Bangkok',
+  'Asia/Manila',
+  'Asia/Hong_Kong',
+  'Asia/Shanghai',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Europe/London',
+  'America/New_York',
+  'UTC'
+];
+
+interface RestaurantSetupProps {
+  // Create another outlet, in this group if one is given
+  newOutlet?: boolean;
+  groupId?: string | null;
+}
+
+export function RestaurantSetup({ newOutlet = false, groupId = null }: RestaurantSetupProps) {
   const { user } = useAuth();
   const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
   const [tables, setTables] = useState<RestaurantTable[]>([]);
@@ -20,26 +50,33 @@ export function RestaurantSetup() {
     address: '',
     phone: '',
     email: '',
-    time_slot_duration_minutes: 15
+    time_slot_duration_minutes: 15,
+    timezone: 'Asia/Singapore',
+    booking_change_cutoff_hours: 2,
+    waitlist_offer_minutes: 15,
+    waitlist_matching_mode: 'first_fit' as WaitlistMatchingMode,
+    waitlist_time_tolerance_minutes: 0,
+    deposit_policy: 'none' as DepositPolicy,
+    deposit_amount_per_guest: 0,
+    deposit_min_party_size: '' as string
   });
 
   useEffect(() => {
     fetchRestaurant();
-  }, [user]);
+  }, [user, newOutlet]);
 
   const fetchRestaurant = async () => {
     if (!user) return;
 
-    try {
-      const { data, error } = await supabase
-        .from('restaurants')
-        .select('*')
-        .eq('owner_id', user.id)
-        .single();
+    if (newOutlet) {
+      setLoading(false);
+      return;
+    }
 
-      if (error && error.code !== 'PGRST116') {
-        throw error;
-      }
+    try {
+      // The outlet picked in the switcher, as on the dashboard
+      const staffRestaurantId = await getStaffRestaurantId(user.id);
+      const data = pickRestaurant(await fetchMyRestaurants(user.id, staffRestaurantId), staffRestaurantId);
 
       if (data) {
         setRestaurant(data);
@@ -49,7 +86,15 @@ export function RestaurantSetup() {
           address: data.address || '',
           phone: data.phone || '',
           email: data.email || '',
-          time_slot_duration_minutes: data.time_slot_duration_minutes
+          time_slot_duration_minutes: data.time_slot_duration_minutes,
+          timezone: data.timezone ?? 'Asia/Singapore',
+          booking_change_cutoff_hours: data.booking_change_cutoff_hours ?? 2,
+          waitlist_offer_minutes: data.waitlist_offer_minutes ?? 15,
+          waitlist_matching_mode: data.waitlist_matching_mode ?? 'first_fit',
+          waitlist_time_tolerance_minutes: data.waitlist_time_tolerance_minutes ?? 0,
+          deposit_policy: data.deposit_policy ?? 'none',
+          deposit_amount_per_guest: data.deposit_amount_per_guest ?? 0,
+          deposit_min_party_size: data.deposit_min_party_size ? String(data.deposit_min_party_size) : ''
         });
         
         // Fetch tables for this restaurant
@@ -109,7 +154,15 @@ export function RestaurantSetup() {
             address: formData.address,
             phone: formData.phone,
             email: formData.email,
-            time_slot_duration_minutes: formData.time_slot_duration_minutes
+            time_slot_duration_minutes: formData.time_slot_duration_minutes,
+            timezone: formData.timezone,
+            booking_change_cutoff_hours: formData.booking_change_cutoff_hours,
+            waitlist_offer_minutes: formData.waitlist_offer_minutes,
+            waitlist_matching_mode: formData.waitlist_matching_mode,
+            waitlist_time_tolerance_minutes: formData.waitlist_time_tolerance_minutes,
+            deposit_policy: formData.deposit_policy,
+            deposit_amount_per_guest: formData.deposit_amount_per_guest,
+            deposit_min_party_size: formData.deposit_min_party_size ? parseInt(formData.deposit_min_party_size) : null
           })
           .eq('id', restaurant.id);
 
@@ -125,12 +178,28 @@ export function RestaurantSetup() {
             phone: formData.phone,
             email: formData.email,
             time_slot_duration_minutes: formData.time_slot_duration_minutes,
-            owner_id: user?.id
+            timezone: formData.timezone,
+            booking_change_cutoff_hours: formData.booking_change_cutoff_hours,
+            waitlist_offer_minutes: formData.waitlist_offer_minutes,
+            waitlist_matching_mode: formData.waitlist_matching_mode,
+            waitlist_time_tolerance_minutes: formData.waitlist_time_tolerance_minutes,
+            deposit_policy: formData.deposit_policy,
+            deposit_amount_per_guest: formData.deposit_amount_per_guest,
+            deposit_min_party_size: formData.deposit_min_party_size ? parseInt(formData.deposit_min_party_size) : null,
+            owner_id: user?.id,
+            group_id: groupId
           })
           .select()
           .single();
 
         if (error) throw error;
+
+        // Further outlets open straight away; the profile stays with the first
+        if (newOutlet) {
+          switchRestaurant(data.id);
+          return;
+        }
+
         setRestaurant(data);
         
         // Also create user profile if it doesn't exist
@@ -213,9 +282,11 @@ export function RestaurantSetup() {
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-800 mb-2">Restaurant Setup</h1>
+          <h1 className="text-3xl font-bold text-gray-800 mb-2">{newOutlet ? 'New Outlet' : 'Restaurant Setup'}</h1>
           <p className="text-gray-600">
-            Configure your restaurant details and manage your tables
+            {newOutlet
+              ? 'Add another restaurant to your account. You can switch between outlets from the top of the page.'
+              : 'Configure your restaurant details and manage your tables'}
           </p>
         </div>
 
@@ -362,6 +433,149 @@ export function RestaurantSetup() {
                   </select>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Time Zone
+                  </label>
+                  <select
+                    value={formData.timezone}
+                    onChange={(e) => setFormData(prev => ({ ...prev, timezone: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {(timeZones.includes(formData.timezone) ? timeZones : [formData.timezone, ...timeZones]).map(zone => (
+                      <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Scheduled menus and the guest change cutoff follow the restaurant's local time.
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Guest Changes & Cancellations
+                  </label>
+                  <select
+                    value={formData.booking_change_cutoff_hours}
+                    onChange={(e) => setFormData(prev => ({ ...prev, booking_change_cutoff_hours: parseInt(e.target.value) }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {[0, 1, 2, 4, 12, 24, 48].map(hours => (
+                      <option key={hours} value={hours}>
+                        {hours === 0 ? 'Until the booking starts' : `Up to ${hours} ${hours === 1 ? 'hour' : 'hours'} before`}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    How long before a booking guests can still change or cancel it from their confirmation link.
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Waiting List Offer Hold
+                  </label>
+                  <select
+                    value={formData.waitlist_offer_minutes}
+                    onChange={(e) => setFormData(prev => ({ ...prev, waitlist_offer_minutes: parseInt(e.target.value) }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {[5, 10, 15, 20, 30, 60].map(minutes => (
+                      <option key={minutes} value={minutes}>{minutes} minutes</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    How long a freed table is held for the next waiting guest to accept before it's offered to the guest after them.
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Waiting List Matching
+                  </label>
+                  <select
+                    value={formData.waitlist_matching_mode}
+                    onChange={(e) => setFormData(prev => ({ ...prev, waitlist_matching_mode: e.target.value as WaitlistMatchingMode }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {waitlistMatchingModes.map(mode => (
+                      <option key={mode.value} value={mode.value}>{mode.label}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {waitlistMatchingModes.find(mode => mode.value === formData.waitlist_matching_mode)?.description}
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Waiting List Time Flexibility
+                  </label>
+                  <select
+                    value={formData.waitlist_time_tolerance_minutes}
+                    onChange={(e) => setFormData(prev => ({ ...prev, waitlist_time_tolerance_minutes: parseInt(e.target.value) }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {[0, 15, 30, 45, 60].map(minutes => (
+                      <option key={minutes} value={minutes}>
+                        {minutes === 0 ? 'Requested time only' : `Within ${minutes} minutes of the requested time`}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Waiting guests can be offered a table at a nearby time instead of exactly the time they asked for.
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Deposits & Card Guarantees
+                  </label>
+                  <select
+                    value={formData.deposit_policy}
+                    onChange={(e) => setFormData(prev => ({ ...prev, deposit_policy: e.target.value as DepositPolicy }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="none">Not required</option>
+                    <option value="deposit">Deposit paid when booking</option>
+                    <option value="guarantee">Card on file, charged on no-show</option>
+                  </select>
+                  {formData.deposit_policy !== 'none' && (
+                    <div className="grid grid-cols-2 gap-4 mt-3">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">
+                          {formData.deposit_policy === 'deposit' ? 'Deposit per guest' : 'No-show fee per guest'} ({restaurant?.deposit_currency?.toUpperCase() ?? 'SGD'})
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={formData.deposit_amount_per_guest}
+                          onChange={(e) => setFormData(prev => ({ ...prev, deposit_amount_per_guest: parseFloat(e.target.value) || 0 }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">
+                          For parties of at least
+                        </label>
+                        <input
+                          type="number"
+                          min="1"
+                          value={formData.deposit_min_party_size}
+                          onChange={(e) => setFormData(prev => ({ ...prev, deposit_min_party_size: e.target.value }))}
+                          placeholder="Special dates only"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                    </div>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">
+                    Applies to online bookings for larger parties and to special dates marked as requiring a deposit (set under Operating Hours).
+                    Deposits are refunded on cancellations within the change window above.
+                  </p>
+                </div>
+
                 <button
                   type="submit"
                   disabled={saving}
@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth';
+import { acceptStaffInvitation, getRoleLabel, getStaffInvitation, staffRoles } from '../lib/staff';
+import { StaffInvitationDetails } from '../types/database';
+import { AuthPage } from './auth/AuthPage';
+import { format } from 'date-fns';
+import { AlertCircle, CheckCircle, UserCog } from 'lucide-react';
+
+export function StaffInvite() {
+  const { token } = useParams<{ token: string }>();
+  const { user, loading: authLoading, signOut } = useAuth();
+  const [invitation, setInvitation] = useState<StaffInvitationDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [accepting, setAccepting] = useState(false);
+  const [acceptError, setAcceptError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (token) {
+      fetchInvitation();
+    } else {
+      setError('Invalid invitation link. Please use the link from your email.');
+      setLoading(false);
+    }
+  }, [token]);
+
+  const fetchInvitation = async () => {
+    try {
+      setError(null);
+      const data = await getStaffInvitation(token!);
+      if (!data) {
+        throw new Error("We couldn't find this invitation. Please check the link from your email.");
+      }
+      setInvitation(data);
+    } catch (err) {
+      console.error('Error loading staff invitation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load invitation');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAccept = async () => {
+    setAccepting(true);
+    setAcceptError(null);
+    try {
+      await acceptStaffInvitation(token!);
+      window.location.href = '/';
+    } catch (err) {
+      console.error('Error accepting staff invitation:', err);
+      setAcceptError(err instanceof Error ? err.message : 'Failed to accept the invitation');
+      setAccepting(false);
+    }
+  };
+
+  if (loading || authLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="w-8 h-8 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !invitation) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-lg shadow-md p-6 max-w-md w-full text-center">
+          <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+          <h1 className="text-xl font-semibold text-gray-800 mb-2">Invitation Not Found</h1>
+          <p className="text-gray-600">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const expired = new Date(invitation.expires_at) < new Date();
+
+  // Signing in reloads this page so the invitation can be accepted straight away
+  if (!user && !invitation.accepted_at && !expired) {
+    return <AuthPage onAuthSuccess={() => window.location.reload()} />;
+  }
+
+  const emailMatches = user?.email?.toLowerCase() === invitation.email.toLowerCase();
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-md p-6 max-w-md w-full">
+        <div className="text-center mb-6">
+          <UserCog className="w-12 h-12 text-blue-600 mx-auto mb-4" />
+          <h1 className="text-xl font-semibold text-gray-800 mb-2">Join {invitation.restaurant_name}</h1>
+          <p className="text-gray-600">
+            You've been invited as <span className="font-medium">{getRoleLabel(invitation.role)}</span>
+            {' '}({staffRoles.find(r => r.value === invitation.role)?.description.toLowerCase()}).
+          </p>
+        </div>
+
+        {invitation.accepted_at ? (
+          <div className="p-3 bg-green-50 border border-green-200 rounded text-green-800 flex items-start">
+            <CheckCircle className="w-5 h-5 mr-2 flex-shrink-0" />
+            <div>
+              <p>This invitation was accepted on {format(new Date(invitation.accepted_at), 'MMMM d, yyyy')}.</p>
+              <a href="/" className="text-sm font-medium underline">Go to the dashboard</a>
+            </div>
+          </div>
+        ) : expired ? (
+          <div className="p-3 bg-red-50 border border-red-200 rounded text-red-700">
+            This invitation expired on {format(new Date(invitation.expires_at), 'MMMM d, yyyy')}. Ask whoever invited you to send a new one.
+          </div>
+        ) : !emailMatches ? (
+          <div className="space-y-4">
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded text-amber-800">
+              This invitation is for {invitation.email}, but you're signed in as {user?.email}. Sign out and sign in with the invited address to accept it.
+            </div>
+            <button
+              onClick={signOut}
+              className="w-full px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+            >
+              Sign Out
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {acceptError && (
+              <div className="p-3 bg-red-100 border border-red-300 rounded text-red-700">
+                {acceptError}
+              </div>
+            )}
+            <button
+              onClick={handleAccept}
+              disabled={accepting}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {accepting ? 'Joining...' : `Join as ${getRoleLabel(invitation.role)}`}
+            </button>
+            <p className="text-xs text-gray-500 text-center">
+              Expires {format(new Date(invitation.expires_at), 'MMMM d, h:mm a')}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
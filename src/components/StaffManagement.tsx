@@ -0,0 +1,323 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import {
+  assignableRoles,
+  fetchStaffInvitations,
+  fetchStaffMembers,
+  getInvitationLink,
+  getRoleLabel,
+  inviteStaffMember,
+  removeStaffMember,
+  revokeStaffInvitation,
+  rolePermissions,
+  setStaffRole,
+  staffPermissions,
+  staffRoles
+} from '../lib/staff';
+import { Restaurant, StaffInvitation, StaffMember, StaffRole } from '../types/database';
+import { Check, Copy, Mail, Send, Trash2, UserCog, X } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface StaffManagementProps {
+  restaurant: Restaurant;
+  staffRole: StaffRole | null;
+}
+
+export function StaffManagement({ restaurant, staffRole }: StaffManagementProps) {
+  const { user } = useAuth();
+  const [members, setMembers] = useState<StaffMember[]>([]);
+  const [invitations, setInvitations] = useState<StaffInvitation[]>([]);
+  const [inviteForm, setInviteForm] = useState<{ email: string; role: StaffRole }>({ email: '', role: 'server' });
+  const [loading, setLoading] = useState(true);
+  const [inviting, setInviting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const roleOptions = assignableRoles(staffRole);
+
+  useEffect(() => {
+    fetchStaff();
+  }, [restaurant.id]);
+
+  const fetchStaff = async () => {
+    try {
+      setError(null);
+      const [memberData, invitationData] = await Promise.all([
+        fetchStaffMembers(restaurant.id),
+        fetchStaffInvitations(restaurant.id)
+      ]);
+      setMembers(memberData);
+      setInvitations(invitationData);
+    } catch (err) {
+      console.error('Error fetching staff:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load staff');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showToast = (message: string) => {
+    const notification = document.createElement('div');
+    notification.className = 'fixed top-4 right-4 bg-green-500 text-white px-4 py-2 rounded-lg shadow-lg z-50';
+    notification.textContent = message;
+    document.body.appendChild(notification);
+
+    setTimeout(() => {
+      if (document.body.contains(notification)) {
+        document.body.removeChild(notification);
+      }
+    }, 3000);
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviting(true);
+    try {
+      const result = await inviteStaffMember(restaurant.id, inviteForm.email, inviteForm.role);
+      if (result.emailSent) {
+        showToast(`Invitation sent to ${inviteForm.email}`);
+      } else {
+        alert(`The invitation was created but the email couldn't be sent (${result.emailError}). Send them this link instead:\n\n${result.inviteLink}`);
+      }
+      setInviteForm({ ...inviteForm, email: '' });
+      await fetchStaff();
+    } catch (err) {
+      console.error('Error inviting staff member:', err);
+      alert(err instanceof Error ? err.message : 'Failed to send the invitation');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: StaffMember, role: StaffRole) => {
+    try {
+      await setStaffRole(restaurant.id, member.user_id, role);
+      await fetchStaff();
+    } catch (err) {
+      console.error('Error changing staff role:', err);
+      alert(err instanceof Error ? err.message : 'Failed to change the role');
+    }
+  };
+
+  const handleRemove = async (member: StaffMember) => {
+    if (!confirm(`Remove ${member.email} from the team? They'll lose access straight away.`)) {
+      return;
+    }
+
+    try {
+      await removeStaffMember(restaurant.id, member.user_id);
+      await fetchStaff();
+    } catch (err) {
+      console.error('Error removing staff member:', err);
+      alert(err instanceof Error ? err.message : 'Failed to remove the staff member');
+    }
+  };
+
+  const handleRevoke = async (invitation: StaffInvitation) => {
+    if (!confirm(`Cancel the invitation for ${invitation.email}? The link will stop working.`)) {
+      return;
+    }
+
+    try {
+      await revokeStaffInvitation(invitation.id);
+      await fetchStaff();
+    } catch (err) {
+      console.error('Error revoking invitation:', err);
+      alert(err instanceof Error ? err.message : 'Failed to cancel the invitation');
+    }
+  };
+
+  const copyLink = async (invitation: StaffInvitation) => {
+    try {
+      await navigator.clipboard.writeText(getInvitationLink(invitation.token));
+      setCopiedId(invitation.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (err) {
+      console.error('Failed to copy invitation link:', err);
+    }
+  };
+
+  // Owners and your own row can't be changed, and managers only look after the
+  // roles they can hand out
+  const canManage = (member: StaffMember) => {
+    return member.role !== 'owner' && member.user_id !== user?.id && roleOptions.includes(member.role);
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex items-center justify-center py-8">
+          <div className="w-8 h-8 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="mb-6">
+          <h2 className="text-xl font-semibold text-gray-800 mb-2 flex items-center">
+            <UserCog className="w-5 h-5 mr-2" />
+            Staff
+          </h2>
+          <p className="text-gray-600">
+            Everyone who can sign in to {restaurant.name}'s dashboard. Their role decides which tabs they see and what they can change.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 border border-red-300 rounded text-red-700">
+            {error}
+          </div>
+        )}
+
+        {roleOptions.length > 0 && (
+          <form onSubmit={handleInvite} className="mb-6 p-4 bg-blue-50 rounded-lg border border-blue-200 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Email Address *</label>
+              <input
+                type="email"
+                required
+                value={inviteForm.email}
+                onChange={(e) => setInviteForm({ ...inviteForm, email: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="name@example.com"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+              <select
+                value={inviteForm.role}
+                onChange={(e) => setInviteForm({ ...inviteForm, role: e.target.value as StaffRole })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {roleOptions.map(role => (
+                  <option key={role} value={role}>{getRoleLabel(role)}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="submit"
+              disabled={inviting}
+              className="flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Send className="w-4 h-4 mr-2" />
+              {inviting ? 'Sending...' : 'Send Invite'}
+            </button>
+          </form>
+        )}
+
+        <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {members.map(member => (
+            <div key={member.user_id} className="flex items-center justify-between p-3">
+              <div>
+                <p className="font-medium text-gray-800">
+                  {member.email}
+                  {member.user_id === user?.id && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                </p>
+                <p className="text-xs text-gray-500">{staffRoles.find(r => r.value === member.role)?.description}</p>
+              </div>
+              {canManage(member) ? (
+                <div className="flex items-center space-x-2">
+                  <select
+                    value={member.role}
+                    onChange={(e) => handleRoleChange(member, e.target.value as StaffRole)}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {roleOptions.map(role => (
+                      <option key={role} value={role}>{getRoleLabel(role)}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleRemove(member)}
+                    className="text-red-600 hover:text-red-800"
+                    title="Remove from team"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                  {getRoleLabel(member.role)}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {invitations.length > 0 && (
+          <div className="mt-6">
+            <h3 className="font-semibold text-gray-800 mb-2">Pending Invitations</h3>
+            <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+              {invitations.map(invitation => {
+                const expired = new Date(invitation.expires_at) < new Date();
+                return (
+                  <div key={invitation.id} className="flex items-center justify-between p-3">
+                    <div>
+                      <p className="font-medium text-gray-800 flex items-center">
+                        <Mail className="w-4 h-4 mr-2 text-gray-400" />
+                        {invitation.email}
+                      </p>
+                      <p className={`text-xs ${expired ? 'text-red-600' : 'text-gray-500'}`}>
+                        {getRoleLabel(invitation.role)} · {expired ? 'Expired' : 'Expires'} {format(new Date(invitation.expires_at), 'MMM d, h:mm a')}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      {!expired && (
+                        <button
+                          onClick={() => copyLink(invitation)}
+                          className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+                        >
+                          {copiedId === invitation.id ? <Check className="w-4 h-4 mr-1" /> : <Copy className="w-4 h-4 mr-1" />}
+                          {copiedId === invitation.id ? 'Copied' : 'Copy link'}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleRevoke(invitation)}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Cancel invitation"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <p className="mt-2 text-xs text-gray-500">To send a new link, invite the same email address again.</p>
+          </div>
+        )}
+      </div>
+
+      {/* Permission matrix */}
+      <div className="bg-white rounded-lg shadow-md p-6 overflow-x-auto">
+        <h3 className="font-semibold text-gray-800 mb-4">What Each Role Can Do</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600">
+              <th className="py-2 pr-4 font-medium"></th>
+              {staffRoles.map(role => (
+                <th key={role.value} className="py-2 px-2 font-medium text-center">{role.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {staffPermissions.map(permission => (
+              <tr key={permission.value}>
+                <td className="py-2 pr-4 text-gray-700">{permission.label}</td>
+                {staffRoles.map(role => (
+                  <td key={role.value} className="py-2 px-2 text-center">
+                    {rolePermissions[role.value].includes(permission.value) && (
+                      <Check className="w-4 h-4 text-green-600 inline" />
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
+import { formatModifiers } from '../lib/menuModifiers';
 import { RestaurantTable, Restaurant, OrderWithDetails } from '../types/database';
 import { Users, MapPin, ShoppingCart, Clock, DollarSign, Eye, QrCode, ExternalLink } from 'lucide-react';
 
@@ -375,7 +376,12 @@ export function TableGridWithOrders({
                       <div className="space-y-2 mb-3">
                         {order.items?.map((item) => (
                           <div key={item.id} className="flex justify-between text-sm">
-                            <span>{item.quantity}x {item.menu_item?.name}</span>
+                            <span>
+                              {item.quantity}x {item.menu_item?.name}
+                              {item.modifiers?.length > 0 && (
+                                <span className="block text-xs text-gray-500">{formatModifiers(item.modifiers)}</span>
+                              )}
+                            </span>
                             <span>{formatPrice(item.total_price_sgd)}</span>
                           </div>
                         ))}
@@ -1,7 +1,9 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { Restaurant, RestaurantTable } from '../types/database';
-import { Plus, Edit2, Trash2, Save, X, Grid, List, Settings } from 'lucide-react';
+import { formatTableNumbers } from '../lib/tableAssignment';
+import { Restaurant, RestaurantTable, TableCombination } from '../types/database';
+import { FloorPlanEditor } from './floor/FloorPlanEditor';
+import { Plus, Edit2, Trash2, Save, X, Grid, List, Settings, Link2, MapIcon } from 'lucide-react';
 
 interface TableManagerProps {
   restaurant: Restaurant;
@@ -15,6 +17,11 @@ interface TableFormData {
   location_notes: string;
 }
 
+interface CombinationFormData {
+  name: string;
+  table_ids: string[];
+}
+
 export function TableManager({ restaurant, tables, onUpdate }: TableManagerProps) {
   const [showForm, setShowForm] = useState(false);
   const [editingTable, setEditingTable] = useState<RestaurantTable | null>(null);
@@ -25,7 +32,32 @@ export function TableManager({ restaurant, tables, onUpdate }: TableManagerProps
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const [viewMode, setViewMode] = useState<'grid' | 'list' | 'floor'>('grid');
+  const [combinations, setCombinations] = useState<TableCombination[]>([]);
+  const [showCombinationForm, setShowCombinationForm] = useState(false);
+  const [combinationForm, setCombinationForm] = useState<CombinationFormData>({
+    name: '',
+    table_ids: []
+  });
+
+  useEffect(() => {
+    fetchCombinations();
+  }, [restaurant.id]);
+
+  const fetchCombinations = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('table_combinations')
+        .select('*, members:table_combination_members(table_id)')
+        .eq('restaurant_id', restaurant.id)
+        .order('name');
+
+      if (error) throw error;
+      setCombinations(data || []);
+    } catch (err) {
+      console.error('Error fetching table combinations:', err);
+    }
+  };
 
   const showNotification = (message: string, type: 'success' | 'error' = 'success') => {
     const notification = document.createElement('div');
@@ -131,6 +163,113 @@ export function TableManager({ restaurant, tables, onUpdate }: TableManagerProps
     }
   };
 
+  const resetCombinationForm = () => {
+    setCombinationForm({ name: '', table_ids: [] });
+    setShowCombinationForm(false);
+  };
+
+  const toggleCombinationTable = (tableId: string) => {
+    setCombinationForm(prev => ({
+      ...prev,
+      table_ids: prev.table_ids.includes(tableId)
+        ? prev.table_ids.filter(id => id !== tableId)
+        : [...prev.table_ids, tableId]
+    }));
+  };
+
+  const handleCreateCombination = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (combinationForm.table_ids.length < 2) {
+      showNotification('Select at least two tables to combine', 'error');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data: combination, error: combinationError } = await supabase
+        .from('table_combinations')
+        .insert({
+          restaurant_id: restaurant.id,
+          name: combinationForm.name || formatTableNumbers(getTableNumbers(combinationForm.table_ids)),
+          is_active: true
+        })
+        .select()
+        .single();
+
+      if (combinationError) throw combinationError;
+
+      const { error: membersError } = await supabase
+        .from('table_combination_members')
+        .insert(combinationForm.table_ids.map(tableId => ({
+          combination_id: combination.id,
+          table_id: tableId
+        })));
+
+      if (membersError) throw membersError;
+
+      showNotification('Table combination created successfully!');
+      resetCombinationForm();
+      fetchCombinations();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create table combination';
+      showNotification(errorMessage, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleCombination = async (combination: TableCombination) => {
+    try {
+      const { error } = await supabase
+        .from('table_combinations')
+        .update({
+          is_active: !combination.is_active,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', combination.id);
+
+      if (error) throw error;
+      fetchCombinations();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update table combination';
+      showNotification(errorMessage, 'error');
+    }
+  };
+
+  const handleDeleteCombination = async (combination: TableCombination) => {
+    if (!confirm(`Delete the combination "${combination.name}"? Existing bookings keep their tables.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('table_combinations')
+        .delete()
+        .eq('id', combination.id);
+
+      if (error) throw error;
+
+      showNotification('Table combination deleted successfully!');
+      fetchCombinations();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete table combination';
+      showNotification(errorMessage, 'error');
+    }
+  };
+
+  const getTableNumbers = (tableIds: string[]) => {
+    return tables
+      .filter(table => tableIds.includes(table.id))
+      .map(table => table.table_number);
+  };
+
+  const getCombinedCapacity = (tableIds: string[]) => {
+    return tables
+      .filter(table => tableIds.includes(table.id))
+      .reduce((sum, table) => sum + table.capacity, 0);
+  };
+
   const generateTableNumbers = async () => {
     const count = parseInt(prompt('How many tables would you like to create?') || '0');
     if (count <= 0 || count > 50) {
@@ -212,6 +351,13 @@ export function TableManager({ restaurant, tables, onUpdate }: TableManagerProps
             >
               <List className="w-4 h-4" />
             </button>
+            <button
+              onClick={() => setViewMode('floor')}
+              className={`p-2 rounded ${viewMode === 'floor' ? 'bg-white shadow' : ''}`}
+              title="Floor plan"
+            >
+              <MapIcon className="w-4 h-4" />
+            </button>
           </div>
           
           {tables.length === 0 && (
@@ -350,7 +496,9 @@ export function TableManager({ restaurant, tables, onUpdate }: TableManagerProps
         </div>
       ) : (
         <>
-          {viewMode === 'grid' ? (
+          {viewMode === 'floor' ? (
+            <FloorPlanEditor restaurant={restaurant} tables={tables} onUpdate={onUpdate} />
+          ) : viewMode === 'grid' ? (
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
               {tables.map((table) => (
                 <div
@@ -444,13 +592,149 @@ export function TableManager({ restaurant, tables, onUpdate }: TableManagerProps
               </table>
             </div>
           )}
+
+          {/* Table Combinations */}
+          <div className="mt-8 border-t border-gray-200 pt-6">
+            <div className="flex justify-between items-center mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-800 flex items-center">
+                  <Link2 className="w-5 h-5 mr-2" />
+                  Table Combinations
+                </h3>
+                <p className="text-sm text-gray-600">
+                  Tables that can be pushed together for larger parties
+                </p>
+              </div>
+              {tables.length > 1 && !showCombinationForm && (
+                <button
+                  onClick={() => setShowCombinationForm(true)}
+                  disabled={loading}
+                  className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Combination
+                </button>
+              )}
+            </div>
+
+            {showCombinationForm && (
+              <form onSubmit={handleCreateCombination} className="mb-4 p-4 bg-indigo-50 rounded-lg border border-indigo-200 space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Name
+                  </label>
+                  <input
+                    type="text"
+                    value={combinationForm.name}
+                    onChange={(e) => setCombinationForm({ ...combinationForm, name: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    placeholder={combinationForm.table_ids.length > 1
+                      ? formatTableNumbers(getTableNumbers(combinationForm.table_ids))
+                      : 'e.g., Window long table'}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Tables * (select at least two)
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    {tables.map(table => (
+                      <button
+                        key={table.id}
+                        type="button"
+                        onClick={() => toggleCombinationTable(table.id)}
+                        className={`px-3 py-1 rounded border text-sm transition-colors ${
+                          combinationForm.table_ids.includes(table.id)
+                            ? 'bg-indigo-600 text-white border-indigo-600'
+                            : 'bg-white text-gray-700 border-gray-300 hover:border-indigo-300'
+                        }`}
+                      >
+                        Table {table.table_number} ({table.capacity})
+                      </button>
+                    ))}
+                  </div>
+                  {combinationForm.table_ids.length > 1 && (
+                    <p className="text-sm text-indigo-700 mt-2">
+                      Combined capacity: {getCombinedCapacity(combinationForm.table_ids)} people
+                    </p>
+                  )}
+                </div>
+
+                <div className="flex space-x-4">
+                  <button
+                    type="button"
+                    onClick={resetCombinationForm}
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={loading || combinationForm.table_ids.length < 2}
+                    className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors disabled:opacity-50 flex items-center justify-center"
+                  >
+                    <Save className="w-4 h-4 mr-2" />
+                    Create
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {combinations.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No combinations yet. Parties larger than your biggest table will go to the waiting list.
+              </p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {combinations.map(combination => {
+                  const memberIds = (combination.members || []).map(member => member.table_id);
+                  return (
+                    <div
+                      key={combination.id}
+                      className={`p-3 rounded-lg border-2 flex items-center justify-between ${
+                        combination.is_active ? 'border-indigo-200 bg-white' : 'border-gray-200 bg-gray-50 opacity-75'
+                      }`}
+                    >
+                      <div>
+                        <p className="font-medium text-gray-800">{combination.name}</p>
+                        <p className="text-sm text-gray-600">
+                          Tables {formatTableNumbers(getTableNumbers(memberIds))} • Seats {getCombinedCapacity(memberIds)}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => handleToggleCombination(combination)}
+                          className={`px-2 py-1 rounded text-xs font-medium ${
+                            combination.is_active
+                              ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                              : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                          }`}
+                        >
+                          {combination.is_active ? 'Active' : 'Inactive'}
+                        </button>
+                        <button
+                          onClick={() => handleDeleteCombination(combination)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
           
           <div className="mt-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
             <h4 className="font-semibold text-blue-800 mb-2">Table Management Tips</h4>
             <ul className="text-sm text-blue-700 space-y-1">
               <li>• Table numbers can be numeric (1, 2, 3) or alphanumeric (A1, VIP-1)</li>
               <li>• Capacity determines the maximum party size for automatic assignment</li>
+              <li>• Use the floor plan view to place tables in each room or zone; the dashboard shows the live floor from it</li>
               <li>• Location notes help staff identify table positions</li>
+              <li>• Combinations are only used when no single table fits the party</li>
               <li>• Table status is automatically managed during booking operations</li>
               <li>• All changes are immediately synchronized across all devices</li>
             </ul>
@@ -1,8 +1,13 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { Restaurant, AvailableTable } from '../types/database';
+import { DepositRequirement, Restaurant, SeatingArea } from '../types/database';
+import { createBooking, findTableAssignment } from '../lib/tableAssignment';
+import { flushNotifications } from '../lib/notifications';
+import { abandonBookingPayment, formatPaymentAmount, getDepositRequirement, startBookingPayment } from '../lib/bookingPayments';
+import { getSeatingAreas } from '../lib/floorPlan';
+import { getDefaultDiningDuration, diningDurationOptions, formatDiningDuration, getBookingEndTime } from '../lib/diningDuration';
 import { format } from 'date-fns';
-import { Calendar, Clock, Users, Phone, Mail, User, AlertCircle, CheckCircle } from 'lucide-react';
+import { Calendar, Clock, Users, Phone, Mail, User, AlertCircle, CheckCircle, CreditCard, MapPin } from 'lucide-react';
 
 interface TimeSlotBookingFormProps {
   restaurant: Restaurant;
@@ -29,9 +34,32 @@ export function TimeSlotBookingForm({
     phone: '',
     notes: ''
   });
+  // Staff can override how long the table is held; public bookings use the party size default
+  const [durationMinutes, setDurationMinutes] = useState(getDefaultDiningDuration(partySize));
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [bookingResult, setBookingResult] = useState<'confirmed' | 'waitlist' | null>(null);
+  const [manageToken, setManageToken] = useState<string | null>(null);
+  const [depositRequirement, setDepositRequirement] = useState<DepositRequirement | null>(null);
+  const [seatingAreas, setSeatingAreas] = useState<SeatingArea[]>([]);
+  const [seatingAreaId, setSeatingAreaId] = useState('');
+  // Set when the guest asked for an area that had no table free
+  const [seatedElsewhere, setSeatedElsewhere] = useState(false);
+
+  // Guests booking online may need to pay a deposit or save a card
+  useEffect(() => {
+    if (!isPublicBooking) return;
+
+    getDepositRequirement(restaurant.id, selectedDate, partySize)
+      .then(setDepositRequirement)
+      .catch(err => console.error('Error checking deposit requirement:', err));
+  }, [restaurant.id, selectedDate, partySize, isPublicBooking]);
+
+  useEffect(() => {
+    getSeatingAreas(restaurant.id)
+      .then(setSeatingAreas)
+      .catch(err => console.error('Error fetching seating areas:', err));
+  }, [restaurant.id]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -75,47 +103,49 @@ export function TimeSlotBookingForm({
         customerId = newCustomer.id;
       }
 
-      // Check for available tables using the RPC function
-      const { data: availableTables, error: tablesError } = await supabase
-        .rpc('get_available_tables', {
-          p_restaurant_id: restaurant.id,
-          p_date: selectedDate,
-          p_time: selectedTime,
-          p_party_size: partySize
-        }) as { data: AvailableTable[] | null, error: any };
-
-      if (tablesError) throw tablesError;
-
-      if (availableTables && availableTables.length > 0) {
-        // Table available - create confirmed booking with auto-assigned table
-        const assignedTable = availableTables[0]; // Get the smallest suitable table
-
-        const { error: bookingError } = await supabase
-          .from('bookings')
-          .insert({
-            restaurant_id: restaurant.id,
-            table_id: assignedTable.table_id,
-            customer_id: customerId,
-            booking_date: selectedDate,
-            booking_time: selectedTime,
-            party_size: partySize,
-            notes: formData.notes || null,
-            is_walk_in: false,
-            status: 'confirmed',
-            assignment_method: 'auto',
-            was_on_waitlist: false
-          });
-
-        if (bookingError) throw bookingError;
+      // Find a single table, or a combination of tables for larger parties
+      const assignment = await findTableAssignment({
+        restaurantId: restaurant.id,
+        date: selectedDate,
+        time: selectedTime,
+        partySize,
+        durationMinutes,
+        areaId: seatingAreaId || null
+      });
 
-        // Update table status to reserved
-        const { error: tableError } = await supabase
-          .from('restaurant_tables')
-          .update({ status: 'reserved' })
-          .eq('id', assignedTable.table_id);
+      if (assignment) {
+        // Tables available - create confirmed booking with auto-assigned tables.
+        // Bookings that need a payment stay pending until Stripe confirms it.
+        const needsPayment = depositRequirement !== null;
+        const newBooking = await createBooking({
+          restaurantId: restaurant.id,
+          customerId,
+          date: selectedDate,
+          time: selectedTime,
+          partySize,
+          durationMinutes,
+          notes: formData.notes || null,
+          seatingAreaId: seatingAreaId || null,
+          status: needsPayment ? 'pending' : 'confirmed'
+        }, assignment);
 
-        if (tableError) throw tableError;
+        if (needsPayment) {
+          try {
+            await startBookingPayment(newBooking.manage_token);
+          } catch (paymentError) {
+            console.error('Error starting booking payment:', paymentError);
+            // Without a checkout there's nothing to finish paying, so give the
+            // tables back; otherwise the guest can pay from their manage page
+            if (await abandonBookingPayment(newBooking.manage_token)) {
+              throw new Error('We couldn\'t start the payment, so your booking wasn\'t made. Please try again.');
+            }
+            window.location.href = `/manage/${newBooking.manage_token}`;
+          }
+          return;
+        }
 
+        setManageToken(newBooking.manage_token);
+        setSeatedElsewhere(seatingAreaId !== '' && assignment.areaId !== seatingAreaId);
         setBookingResult('confirmed');
       } else {
         // No tables available - add to waiting list
@@ -133,7 +163,7 @@ export function TimeSlotBookingForm({
 
         const nextPriority = (lastPriority?.priority_order || 0) + 1;
 
-        const { error: waitingError } = await supabase
+        const { data: waitingEntry, error: waitingError } = await supabase
           .from('waiting_list')
           .insert({
             restaurant_id: restaurant.id,
@@ -144,12 +174,18 @@ export function TimeSlotBookingForm({
             notes: formData.notes || null,
             status: 'waiting',
             priority_order: nextPriority
-          });
+          })
+          .select('manage_token')
+          .single();
 
         if (waitingError) throw waitingError;
 
+        setManageToken(waitingEntry.manage_token);
         setBookingResult('waitlist');
       }
+
+      // Send the confirmation or waiting list message queued for this booking
+      flushNotifications();
       
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to process booking');
@@ -199,6 +235,11 @@ export function TimeSlotBookingForm({
                 <p className="text-gray-600 mb-6">
                   Your table has been automatically assigned. We look forward to seeing you!
                 </p>
+                {seatedElsewhere && (
+                  <p className="text-sm text-amber-700 mb-6">
+                    {seatingAreas.find(area => area.area_id === seatingAreaId)?.name || 'Your preferred area'} was fully booked, so we've found you a table elsewhere. We've noted your preference for the team.
+                  </p>
+                )}
                 <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
                   <h4 className="font-semibold text-blue-800 mb-2">What's Next?</h4>
                   <ul className="text-sm text-blue-700 space-y-1">
@@ -236,6 +277,18 @@ export function TimeSlotBookingForm({
                 </p>
               </>
             )}
+
+            {manageToken && (
+              <div className="mb-6 p-4 bg-gray-50 rounded-lg border border-gray-200 text-sm text-gray-700">
+                <p className="mb-2">Need to make a change? Keep this link to view, change or cancel your {bookingResult === 'confirmed' ? 'booking' : 'request'}:</p>
+                <a
+                  href={`/manage/${manageToken}`}
+                  className="text-blue-600 hover:text-blue-800 font-medium break-all"
+                >
+                  {`${window.location.origin}/manage/${manageToken}`}
+                </a>
+              </div>
+            )}
             
             <button
               onClick={onSuccess}
@@ -271,6 +324,10 @@ export function TimeSlotBookingForm({
                 <Users className="w-4 h-4 mr-2" />
                 {partySize} {partySize === 1 ? 'Guest' : 'Guests'}
               </div>
+              <div className="flex items-center text-amber-700">
+                <Clock className="w-4 h-4 mr-2" />
+                Table held for {formatDiningDuration(durationMinutes)} (until {formatTime(getBookingEndTime(selectedTime, durationMinutes))})
+              </div>
             </div>
           </div>
           
@@ -325,6 +382,49 @@ export function TimeSlotBookingForm({
               />
             </div>
 
+            {!isPublicBooking && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  <Clock className="w-4 h-4 inline mr-1" />
+                  Dining Duration
+                </label>
+                <select
+                  value={durationMinutes}
+                  onChange={(e) => setDurationMinutes(parseInt(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                >
+                  {diningDurationOptions.map(minutes => (
+                    <option key={minutes} value={minutes}>
+                      {formatDiningDuration(minutes)}
+                      {minutes === getDefaultDiningDuration(partySize) ? ' (default)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Only worth asking when there's more than one area to choose from */}
+            {seatingAreas.length > 1 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  <MapPin className="w-4 h-4 inline mr-1" />
+                  Seating Preference
+                </label>
+                <select
+                  value={seatingAreaId}
+                  onChange={(e) => setSeatingAreaId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                >
+                  <option value="">No preference</option>
+                  {seatingAreas.map(area => (
+                    <option key={area.area_id} value={area.area_id}>
+                      {area.name}{area.description ? ` - ${area.description}` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Special Requests
@@ -334,10 +434,30 @@ export function TimeSlotBookingForm({
                 onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
                 rows={3}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
-                placeholder="Allergies, celebrations, seating preferences..."
+                placeholder="Allergies, celebrations, accessibility needs..."
               />
             </div>
 
+            {depositRequirement && (
+              <div className="bg-amber-50 rounded-lg p-4 border border-amber-200">
+                <p className="text-sm text-amber-800 flex items-start">
+                  <CreditCard className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                  {depositRequirement.payment_type === 'deposit' ? (
+                    <span>
+                      A deposit of {formatPaymentAmount(depositRequirement.amount_per_guest, depositRequirement.currency)} per guest
+                      ({formatPaymentAmount(depositRequirement.amount, depositRequirement.currency)}) is required to confirm this booking.
+                      It's refunded if you cancel at least {restaurant.booking_change_cutoff_hours} hours before your booking.
+                    </span>
+                  ) : (
+                    <span>
+                      A card is required to hold this booking. Nothing is charged now; a no-show fee of{' '}
+                      {formatPaymentAmount(depositRequirement.amount, depositRequirement.currency)} applies if you don't arrive.
+                    </span>
+                  )}
+                </p>
+              </div>
+            )}
+
             <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
               <p className="text-sm text-blue-800">
                 <strong>Automatic Assignment:</strong> {isPublicBooking 
@@ -360,7 +480,7 @@ export function TimeSlotBookingForm({
                 disabled={loading}
                 className="flex-1 px-4 py-2 bg-amber-600 text-white rounded-md hover:bg-amber-700 transition-colors disabled:opacity-50"
               >
-                {loading ? 'Processing...' : 'Submit Request'}
+                {loading ? 'Processing...' : depositRequirement ? 'Continue to Payment' : 'Submit Request'}
               </button>
             </div>
           </form>
@@ -1,16 +1,47 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { WaitingListWithDetails } from '../types/database';
 import { format } from 'date-fns';
-import { Clock, User, Phone, Mail, Users, ArrowUp, X, CheckCircle, XCircle } from 'lucide-react';
+import { Clock, User, Phone, Mail, Users, ArrowUp, X, CheckCircle, XCircle, Bell } from 'lucide-react';
 
 interface WaitingListManagerProps {
   waitingList: WaitingListWithDetails[];
   onPromoteCustomer: (waitingListId: string) => Promise<{ success: boolean }>;
   onCancelWaiting: (waitingListId: string) => Promise<{ success: boolean }>;
+  onExpireOffers: () => Promise<void>;
 }
 
-export function WaitingListManager({ waitingList, onPromoteCustomer, onCancelWaiting }: WaitingListManagerProps) {
+export function WaitingListManager({ waitingList, onPromoteCustomer, onCancelWaiting, onExpireOffers }: WaitingListManagerProps) {
   const [processingAction, setProcessingAction] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const expiredOfferIds = useRef(new Set<string>());
+
+  const openOffers = waitingList.filter(entry => entry.status === 'notified' && entry.offer_expires_at);
+
+  // Tick the offer countdowns while any offer is open
+  useEffect(() => {
+    if (openOffers.length === 0) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [openOffers.length]);
+
+  // Expire lapsed offers right away so the table rolls to the next guest
+  useEffect(() => {
+    const lapsed = openOffers.filter(entry =>
+      new Date(entry.offer_expires_at!).getTime() <= now && !expiredOfferIds.current.has(entry.id)
+    );
+    if (lapsed.length === 0) return;
+
+    lapsed.forEach(entry => expiredOfferIds.current.add(entry.id));
+    onExpireOffers();
+  }, [now, openOffers]);
+
+  const getOfferTimeLeft = (expiresAt: string) => {
+    const secondsLeft = Math.max(0, Math.floor((new Date(expiresAt).getTime() - now) / 1000));
+    const minutes = Math.floor(secondsLeft / 60);
+    const seconds = secondsLeft % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  };
 
   const showNotification = (message: string, type: 'success' | 'error' = 'success') => {
     const notification = document.createElement('div');
@@ -126,6 +157,12 @@ export function WaitingListManager({ waitingList, onPromoteCustomer, onCancelWai
                               #{index + 1}
                             </span>
                             <h4 className="font-semibold text-gray-800">{entry.customer.name}</h4>
+                            {entry.status === 'notified' && entry.offer_expires_at && (
+                              <span className="ml-3 flex items-center bg-blue-100 text-blue-800 text-xs font-medium px-2 py-1 rounded-full">
+                                <Bell className="w-3 h-3 mr-1" />
+                                Table offered{entry.offer_time && entry.offer_time !== entry.requested_time ? ` for ${formatTime(entry.offer_time)}` : ''} · {getOfferTimeLeft(entry.offer_expires_at)} left
+                              </span>
+                            )}
                           </div>
                           
                           <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm text-gray-600 mb-3">
@@ -162,14 +199,14 @@ export function WaitingListManager({ waitingList, onPromoteCustomer, onCancelWai
                             onClick={() => handlePromoteCustomer(entry.id)}
                             disabled={processingAction !== null}
                             className="flex items-center px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700 transition-colors disabled:opacity-50"
-                            title="Promote to confirmed booking"
+                            title={entry.status === 'notified' ? 'Accept the offer for the guest' : 'Promote to confirmed booking'}
                           >
                             {isProcessing(`promote-${entry.id}`) ? (
                               <div className="w-3 h-3 border border-white border-t-transparent rounded-full animate-spin mr-1" />
                             ) : (
                               <ArrowUp className="w-4 h-4 mr-1" />
                             )}
-                            Seat Now
+                            {entry.status === 'notified' ? 'Accept Offer' : 'Seat Now'}
                           </button>
                           <button
                             onClick={() => handleCancelWaiting(entry.id)}
@@ -199,7 +236,9 @@ export function WaitingListManager({ waitingList, onPromoteCustomer, onCancelWai
           <li>• Customers are automatically added when all tables are booked</li>
           <li>• Priority is based on arrival time (first come, first served)</li>
           <li>• Use "Seat Now" to manually assign a table when available</li>
-          <li>• System automatically notifies next customer when tables become available</li>
+          <li>• When a table frees up, it's offered to the waiting customers it fits best (see Restaurant Settings for matching rules)</li>
+          <li>• Offered customers have a limited time to accept or decline</li>
+          <li>• Offers that aren't answered in time expire and the table goes to the next customer</li>
           <li>• All actions are immediately synchronized with the database</li>
         </ul>
       </div>
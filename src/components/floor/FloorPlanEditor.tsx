@@ -0,0 +1,503 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { supabase } from '../../lib/supabase';
+import {
+  clampToArea,
+  fetchDiningAreas,
+  GRID_SIZE,
+  isPlaced,
+  MAX_TABLE_SIZE,
+  MIN_TABLE_SIZE,
+  nextFreePosition,
+  saveTableLayout,
+  snapToGrid,
+  TableLayout,
+  tableShapes
+} from '../../lib/floorPlan';
+import { DiningArea, Restaurant, RestaurantTable, TableShape } from '../../types/database';
+import { FloorTable } from './FloorTable';
+import { Edit2, Plus, RotateCcw, RotateCw, Save, Trash2, X } from 'lucide-react';
+
+interface FloorPlanEditorProps {
+  restaurant: Restaurant;
+  tables: RestaurantTable[];
+  onUpdate: () => void;
+}
+
+interface AreaFormData {
+  name: string;
+  description: string;
+  width: number;
+  height: number;
+}
+
+interface DragState {
+  tableId: string;
+  pointerX: number;
+  pointerY: number;
+  originX: number;
+  originY: number;
+  moved: boolean;
+}
+
+const emptyAreaForm: AreaFormData = { name: '', description: '', width: 900, height: 600 };
+
+export function FloorPlanEditor({ restaurant, tables, onUpdate }: FloorPlanEditorProps) {
+  const [areas, setAreas] = useState<DiningArea[]>([]);
+  const [activeAreaId, setActiveAreaId] = useState<string | null>(null);
+  const [selectedTableId, setSelectedTableId] = useState<string | null>(null);
+  // Saved changes, shown until the refreshed tables come back
+  const [layouts, setLayouts] = useState<Record<string, TableLayout>>({});
+  const [dragPosition, setDragPosition] = useState<{ tableId: string; x: number; y: number } | null>(null);
+  const [showAreaForm, setShowAreaForm] = useState(false);
+  const [editingAreaId, setEditingAreaId] = useState<string | null>(null);
+  const [areaForm, setAreaForm] = useState<AreaFormData>(emptyAreaForm);
+  const [saving, setSaving] = useState(false);
+  const drag = useRef<DragState | null>(null);
+
+  useEffect(() => {
+    fetchAreas();
+  }, [restaurant.id]);
+
+  useEffect(() => {
+    setLayouts({});
+  }, [tables]);
+
+  const fetchAreas = async () => {
+    try {
+      const data = await fetchDiningAreas(restaurant.id);
+      setAreas(data);
+      setActiveAreaId(current => data.some(area => area.id === current) ? current : data[0]?.id ?? null);
+    } catch (err) {
+      console.error('Error fetching dining areas:', err);
+    }
+  };
+
+  const floorTables = tables.map(table => ({ ...table, ...layouts[table.id] }));
+  const activeArea = areas.find(area => area.id === activeAreaId) || null;
+  const areaTables = floorTables.filter(table => isPlaced(table) && table.area_id === activeAreaId);
+  const unplacedTables = floorTables.filter(table => !isPlaced(table) || !areas.some(area => area.id === table.area_id));
+  const selectedTable = floorTables.find(table => table.id === selectedTableId) || null;
+
+  const updateLayout = async (table: RestaurantTable, layout: TableLayout) => {
+    setLayouts(prev => ({ ...prev, [table.id]: { ...prev[table.id], ...layout } }));
+    try {
+      await saveTableLayout(table.id, layout);
+      onUpdate();
+    } catch (err) {
+      console.error('Error saving table layout:', err);
+      setLayouts(prev => {
+        const next = { ...prev };
+        delete next[table.id];
+        return next;
+      });
+      alert(err instanceof Error ? err.message : 'Failed to save the table layout');
+    }
+  };
+
+  const placeTable = (table: RestaurantTable, area: DiningArea) => {
+    const others = floorTables.filter(other => other.id !== table.id && isPlaced(other) && other.area_id === area.id);
+    const { x, y } = nextFreePosition(area, others, table);
+    updateLayout(table, { area_id: area.id, pos_x: x, pos_y: y });
+    setActiveAreaId(area.id);
+    setSelectedTableId(table.id);
+  };
+
+  const removeFromPlan = (table: RestaurantTable) => {
+    updateLayout(table, { area_id: null, pos_x: null, pos_y: null });
+    setSelectedTableId(null);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, table: RestaurantTable) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = {
+      tableId: table.id,
+      pointerX: e.clientX,
+      pointerY: e.clientY,
+      originX: table.pos_x ?? 0,
+      originY: table.pos_y ?? 0,
+      moved: false
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>, table: RestaurantTable) => {
+    const current = drag.current;
+    if (!current || current.tableId !== table.id || !activeArea) return;
+
+    const dx = e.clientX - current.pointerX;
+    const dy = e.clientY - current.pointerY;
+    // Small movements are clicks
+    if (!current.moved && Math.abs(dx) < 3 && Math.abs(dy) < 3) return;
+
+    current.moved = true;
+    const { x, y } = clampToArea(table, snapToGrid(current.originX + dx), snapToGrid(current.originY + dy), activeArea);
+    setDragPosition({ tableId: table.id, x, y });
+  };
+
+  const handlePointerUp = (table: RestaurantTable) => {
+    const current = drag.current;
+    drag.current = null;
+    if (!current || current.tableId !== table.id) return;
+
+    setSelectedTableId(table.id);
+    if (current.moved && dragPosition?.tableId === table.id) {
+      updateLayout(table, { pos_x: dragPosition.x, pos_y: dragPosition.y });
+    }
+    setDragPosition(null);
+  };
+
+  const changeShape = (table: RestaurantTable, shape: TableShape) => {
+    // Square and round tables are as wide as they are deep
+    const size = shape === 'rectangle' ? { width: table.width, height: table.height } : { width: table.width, height: table.width };
+    updateLayout(table, { shape, ...size });
+  };
+
+  const changeSize = (table: RestaurantTable, dimension: 'width' | 'height', value: number) => {
+    if (isNaN(value)) return;
+    const size = Math.min(MAX_TABLE_SIZE, Math.max(MIN_TABLE_SIZE, snapToGrid(value)));
+    const layout: TableLayout = table.shape === 'rectangle' ? { [dimension]: size } : { width: size, height: size };
+    updateLayout(table, layout);
+  };
+
+  const rotate = (table: RestaurantTable, degrees: number) => {
+    updateLayout(table, { rotation: (((table.rotation + degrees) % 360) + 360) % 360 });
+  };
+
+  const openAreaForm = (area?: DiningArea) => {
+    setAreaForm(area ? { name: area.name, description: area.description || '', width: area.width, height: area.height } : emptyAreaForm);
+    setEditingAreaId(area?.id ?? null);
+    setShowAreaForm(true);
+  };
+
+  const resetAreaForm = () => {
+    setAreaForm(emptyAreaForm);
+    setEditingAreaId(null);
+    setShowAreaForm(false);
+  };
+
+  const handleSaveArea = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const areaData = { ...areaForm, description: areaForm.description || null };
+
+      if (editingAreaId) {
+        const { error } = await supabase
+          .from('dining_areas')
+          .update(areaData)
+          .eq('id', editingAreaId);
+
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('dining_areas')
+          .insert({ ...areaData, restaurant_id: restaurant.id, display_order: areas.length })
+          .select()
+          .single();
+
+        if (error) throw error;
+        setActiveAreaId(data.id);
+      }
+
+      resetAreaForm();
+      await fetchAreas();
+    } catch (err) {
+      console.error('Error saving dining area:', err);
+      alert(err instanceof Error ? err.message : 'Failed to save the area');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteArea = async (area: DiningArea) => {
+    if (!confirm(`Delete ${area.name}? Its tables are kept but taken off the floor plan.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('dining_areas')
+        .delete()
+        .eq('id', area.id);
+
+      if (error) throw error;
+      await fetchAreas();
+      onUpdate();
+    } catch (err) {
+      console.error('Error deleting dining area:', err);
+      alert(err instanceof Error ? err.message : 'Failed to delete the area');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {areas.map(area => (
+          <button
+            key={area.id}
+            onClick={() => {
+              setActiveAreaId(area.id);
+              setSelectedTableId(null);
+            }}
+            className={`px-3 py-1 rounded-full text-sm font-medium border ${
+              area.id === activeAreaId
+                ? 'bg-blue-600 text-white border-blue-600'
+                : 'bg-white text-gray-700 border-gray-300 hover:border-blue-300'
+            }`}
+          >
+            {area.name}
+            {!area.is_open && <span className="ml-1 opacity-75">(closed)</span>}
+          </button>
+        ))}
+        <button
+          onClick={() => openAreaForm()}
+          className="flex items-center px-3 py-1 rounded-full text-sm text-blue-600 border border-dashed border-blue-300 hover:bg-blue-50"
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Add Area
+        </button>
+        {activeArea && (
+          <div className="ml-auto flex items-center space-x-2">
+            <button onClick={() => openAreaForm(activeArea)} className="text-gray-500 hover:text-gray-700" title="Edit area">
+              <Edit2 className="w-4 h-4" />
+            </button>
+            <button onClick={() => handleDeleteArea(activeArea)} className="text-red-600 hover:text-red-800" title="Delete area">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {showAreaForm && (
+        <form onSubmit={handleSaveArea} className="mb-4 p-4 bg-blue-50 rounded-lg border border-blue-200 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Area Name *</label>
+            <input
+              type="text"
+              required
+              value={areaForm.name}
+              onChange={(e) => setAreaForm({ ...areaForm, name: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="e.g., Main Dining, Patio, Bar"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description for Guests</label>
+            <input
+              type="text"
+              value={areaForm.description}
+              onChange={(e) => setAreaForm({ ...areaForm, description: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="e.g., Outdoor, under cover"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Width</label>
+            <input
+              type="number"
+              min={300}
+              max={3000}
+              step={50}
+              value={areaForm.width}
+              onChange={(e) => setAreaForm({ ...areaForm, width: parseInt(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Depth</label>
+            <input
+              type="number"
+              min={300}
+              max={3000}
+              step={50}
+              value={areaForm.height}
+              onChange={(e) => setAreaForm({ ...areaForm, height: parseInt(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="md:col-span-4 flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={resetAreaForm}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {editingAreaId ? 'Update' : 'Create'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {areas.length === 0 ? (
+        <div className="text-center py-12 border-2 border-dashed border-gray-300 rounded-lg">
+          <p className="text-gray-600 mb-2">No dining areas yet</p>
+          <p className="text-sm text-gray-500">Add an area such as Main Dining or Patio, then place your tables on it.</p>
+        </div>
+      ) : (
+        <div className="flex flex-col lg:flex-row gap-4">
+          <div className="flex-1 overflow-auto border border-gray-300 rounded-lg bg-gray-50">
+            {activeArea && (
+              <div
+                className="relative"
+                style={{
+                  width: activeArea.width,
+                  height: activeArea.height,
+                  backgroundImage: 'radial-gradient(circle, #d1d5db 1px, transparent 1px)',
+                  backgroundSize: `${GRID_SIZE * 2}px ${GRID_SIZE * 2}px`
+                }}
+                onClick={(e) => {
+                  if (e.target === e.currentTarget) setSelectedTableId(null);
+                }}
+              >
+                {areaTables.map(table => (
+                  <FloorTable
+                    key={table.id}
+                    table={table}
+                    position={dragPosition?.tableId === table.id ? dragPosition : undefined}
+                    selected={table.id === selectedTableId}
+                    className="bg-white border-gray-500 text-gray-800 cursor-move touch-none"
+                    onPointerDown={(e) => handlePointerDown(e, table)}
+                    onPointerMove={(e) => handlePointerMove(e, table)}
+                    onPointerUp={() => handlePointerUp(table)}
+                  >
+                    <p className="font-bold text-sm">{table.table_number}</p>
+                    <p className="text-xs text-gray-500">{table.capacity} seats</p>
+                  </FloorTable>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="lg:w-64 space-y-4">
+            {selectedTable && (
+              <div className="p-4 border border-gray-200 rounded-lg">
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="font-semibold text-gray-800">Table {selectedTable.table_number}</h4>
+                  <button onClick={() => setSelectedTableId(null)} className="text-gray-400 hover:text-gray-600">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+
+                <div className="space-y-3 text-sm">
+                  <div>
+                    <label className="block text-gray-700 mb-1">Shape</label>
+                    <select
+                      value={selectedTable.shape}
+                      onChange={(e) => changeShape(selectedTable, e.target.value as TableShape)}
+                      className="w-full px-2 py-1 border border-gray-300 rounded-md"
+                    >
+                      {tableShapes.map(shape => (
+                        <option key={shape.value} value={shape.value}>{shape.label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className={selectedTable.shape === 'rectangle' ? '' : 'col-span-2'}>
+                      <label className="block text-gray-700 mb-1">{selectedTable.shape === 'rectangle' ? 'Width' : 'Size'}</label>
+                      <input
+                        type="number"
+                        min={MIN_TABLE_SIZE}
+                        max={MAX_TABLE_SIZE}
+                        step={GRID_SIZE}
+                        value={selectedTable.width}
+                        onChange={(e) => changeSize(selectedTable, 'width', parseInt(e.target.value))}
+                        className="w-full px-2 py-1 border border-gray-300 rounded-md"
+                      />
+                    </div>
+                    {selectedTable.shape === 'rectangle' && (
+                      <div>
+                        <label className="block text-gray-700 mb-1">Depth</label>
+                        <input
+                          type="number"
+                          min={MIN_TABLE_SIZE}
+                          max={MAX_TABLE_SIZE}
+                          step={GRID_SIZE}
+                          value={selectedTable.height}
+                          onChange={(e) => changeSize(selectedTable, 'height', parseInt(e.target.value))}
+                          className="w-full px-2 py-1 border border-gray-300 rounded-md"
+                        />
+                      </div>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-gray-700 mb-1">Rotation</label>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => rotate(selectedTable, -15)}
+                        className="p-1 border border-gray-300 rounded hover:bg-gray-100"
+                        title="Rotate left"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </button>
+                      <span className="flex-1 text-center">{selectedTable.rotation}°</span>
+                      <button
+                        onClick={() => rotate(selectedTable, 15)}
+                        className="p-1 border border-gray-300 rounded hover:bg-gray-100"
+                        title="Rotate right"
+                      >
+                        <RotateCw className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-gray-700 mb-1">Area</label>
+                    <select
+                      value={selectedTable.area_id || ''}
+                      onChange={(e) => {
+                        const area = areas.find(a => a.id === e.target.value);
+                        if (area) placeTable(selectedTable, area);
+                      }}
+                      className="w-full px-2 py-1 border border-gray-300 rounded-md"
+                    >
+                      {areas.map(area => (
+                        <option key={area.id} value={area.id}>{area.name}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <button
+                    onClick={() => removeFromPlan(selectedTable)}
+                    className="w-full px-3 py-1 text-red-600 border border-red-200 rounded hover:bg-red-50"
+                  >
+                    Remove from floor plan
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <div className="p-4 border border-gray-200 rounded-lg">
+              <h4 className="font-semibold text-gray-800 mb-1">Not on the plan</h4>
+              {unplacedTables.length === 0 ? (
+                <p className="text-sm text-gray-500">Every table has been placed.</p>
+              ) : (
+                <>
+                  <p className="text-xs text-gray-500 mb-2">Click a table to add it to {activeArea?.name}, then drag it into place.</p>
+                  <div className="flex flex-wrap gap-2">
+                    {unplacedTables.map(table => (
+                      <button
+                        key={table.id}
+                        onClick={() => activeArea && placeTable(table, activeArea)}
+                        className="px-3 py-1 rounded border border-gray-300 text-sm text-gray-700 hover:border-blue-300"
+                      >
+                        {table.table_number}
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import React from 'react';
+import { RestaurantTable } from '../../types/database';
+
+interface FloorTableProps extends React.HTMLAttributes<HTMLDivElement> {
+  table: RestaurantTable;
+  // Overrides the saved position while the table is being dragged
+  position?: { x: number; y: number };
+  selected?: boolean;
+}
+
+// A table drawn at its place on the floor plan. The label is turned back
+// upright so it stays readable whatever the table's rotation.
+export function FloorTable({ table, position, selected = false, className = '', style, children, ...props }: FloorTableProps) {
+  return (
+    <div
+      {...props}
+      className={`absolute flex items-center justify-center border-2 select-none ${
+        table.shape === 'round' ? 'rounded-full' : 'rounded-md'
+      } ${selected ? 'ring-2 ring-blue-500 ring-offset-1' : ''} ${className}`}
+      style={{
+        left: position?.x ?? table.pos_x ?? 0,
+        top: position?.y ?? table.pos_y ?? 0,
+        width: table.width,
+        height: table.height,
+        transform: `rotate(${table.rotation}deg)`,
+        ...style
+      }}
+    >
+      <div className="text-center leading-tight" style={{ transform: `rotate(${-table.rotation}deg)` }}>
+        {children}
+      </div>
+    </div>
+  );
+}
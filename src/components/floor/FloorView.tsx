@@ -0,0 +1,331 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../../lib/supabase';
+import { fetchDiningAreas, isPlaced, seatedSince, setDiningAreaOpen, upcomingBookings } from '../../lib/floorPlan';
+import { BookingWithDetails, DiningArea, Order, Restaurant, RestaurantTable, TableStatus } from '../../types/database';
+import { FloorTable } from './FloorTable';
+import { format } from 'date-fns';
+import { CalendarClock, Clock, DoorClosed, DoorOpen, ExternalLink, ShoppingCart, Users, X } from 'lucide-react';
+
+interface FloorViewProps {
+  restaurant: Restaurant;
+  tables: RestaurantTable[];
+  bookings: BookingWithDetails[];
+  onMarkOccupied: (table: RestaurantTable) => void;
+}
+
+interface TableSession {
+  table_id: string;
+  session_token: string;
+  created_at: string;
+  orders: Pick<Order, 'id' | 'total_sgd' | 'status'>[];
+}
+
+const statusColors: Record<TableStatus, string> = {
+  available: 'bg-green-100 border-green-400 text-green-900',
+  occupied: 'bg-red-100 border-red-400 text-red-900',
+  reserved: 'bg-yellow-100 border-yellow-400 text-yellow-900',
+  maintenance: 'bg-gray-200 border-gray-400 text-gray-700'
+};
+
+const statusLabels: Record<TableStatus, string> = {
+  available: 'Available',
+  occupied: 'Occupied',
+  reserved: 'Reserved',
+  maintenance: 'Maintenance'
+};
+
+const formatPrice = (price: number) => `S$${price.toFixed(2)}`;
+
+const formatDuration = (minutes: number) => {
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+export function FloorView({ restaurant, tables, bookings, onMarkOccupied }: FloorViewProps) {
+  const [areas, setAreas] = useState<DiningArea[]>([]);
+  const [activeAreaId, setActiveAreaId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<TableSession[]>([]);
+  const [selectedTableId, setSelectedTableId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [togglingArea, setTogglingArea] = useState(false);
+  const [now, setNow] = useState(new Date());
+
+  useEffect(() => {
+    fetchAreas();
+
+    const channel = supabase
+      .channel('floor_view_orders')
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'orders',
+        filter: `restaurant_id=eq.${restaurant.id}`
+      }, fetchSessions)
+      .subscribe();
+
+    const timer = setInterval(() => {
+      setNow(new Date());
+      // Sessions opened and closed without an order change
+      fetchSessions();
+    }, 30000);
+
+    return () => {
+      supabase.removeChannel(channel);
+      clearInterval(timer);
+    };
+  }, [restaurant.id]);
+
+  // Also runs on mount; occupying or freeing a table opens or closes its session
+  useEffect(() => {
+    fetchSessions();
+  }, [tables]);
+
+  const fetchAreas = async () => {
+    try {
+      const data = await fetchDiningAreas(restaurant.id);
+      setAreas(data);
+      setActiveAreaId(current => data.some(area => area.id === current) ? current : data[0]?.id ?? null);
+    } catch (err) {
+      console.error('Error fetching dining areas:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchSessions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('order_sessions')
+        .select('table_id, session_token, created_at, orders(id, total_sgd, status)')
+        .eq('restaurant_id', restaurant.id)
+        .eq('is_active', true);
+
+      if (error) throw error;
+      setSessions(data || []);
+    } catch (err) {
+      console.error('Error fetching table sessions:', err);
+    }
+  };
+
+  const handleToggleArea = async (area: DiningArea) => {
+    if (area.is_open && !confirm(`Close ${area.name}? Its tables won't be offered for new bookings until it's reopened.`)) {
+      return;
+    }
+
+    setTogglingArea(true);
+    try {
+      await setDiningAreaOpen(area.id, !area.is_open);
+      await fetchAreas();
+    } catch (err) {
+      console.error('Error updating dining area:', err);
+      alert(err instanceof Error ? err.message : 'Failed to update the area');
+    } finally {
+      setTogglingArea(false);
+    }
+  };
+
+  const tableDetails = (table: RestaurantTable) => {
+    const session = sessions.find(s => s.table_id === table.id);
+    const openOrders = (session?.orders || []).filter(order => order.status !== 'paid');
+    const since = table.status === 'occupied' ? seatedSince(table, bookings, session?.created_at) : null;
+
+    return {
+      session,
+      openOrders,
+      openTotal: openOrders.reduce((sum, order) => sum + Number(order.total_sgd), 0),
+      seatedMinutes: since ? Math.max(0, Math.floor((now.getTime() - since.getTime()) / 60000)) : null,
+      since,
+      upcoming: upcomingBookings(table, bookings, now)
+    };
+  };
+
+  const activeArea = areas.find(area => area.id === activeAreaId) || null;
+  const areaTables = tables.filter(table => isPlaced(table) && table.area_id === activeAreaId);
+  const unplacedTables = tables.filter(table => !isPlaced(table) || !areas.some(area => area.id === table.area_id));
+  const selectedTable = tables.find(table => table.id === selectedTableId) || null;
+  const selected = selectedTable ? tableDetails(selectedTable) : null;
+
+  if (loading) {
+    return (
+      <div className="h-64 bg-gray-100 rounded-lg animate-pulse"></div>
+    );
+  }
+
+  if (areas.length === 0) {
+    return (
+      <div className="text-center py-12 border-2 border-dashed border-gray-300 rounded-lg">
+        <p className="text-gray-600 mb-2">No floor plan yet</p>
+        <p className="text-sm text-gray-500">
+          Lay out your dining areas under Restaurant Setup, Tables, Floor plan. Until then, use the grid view.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {areas.map(area => {
+          const occupied = tables.filter(table => table.area_id === area.id && table.status === 'occupied').length;
+          const total = tables.filter(table => table.area_id === area.id && isPlaced(table)).length;
+          return (
+            <button
+              key={area.id}
+              onClick={() => setActiveAreaId(area.id)}
+              className={`px-3 py-1 rounded-full text-sm font-medium border ${
+                area.id === activeAreaId
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : area.is_open
+                    ? 'bg-white text-gray-700 border-gray-300 hover:border-blue-300'
+                    : 'bg-gray-100 text-gray-500 border-gray-300 hover:border-blue-300'
+              }`}
+            >
+              {area.name} <span className="opacity-75">{area.is_open ? `${occupied}/${total}` : 'closed'}</span>
+            </button>
+          );
+        })}
+        {activeArea && (
+          <button
+            onClick={() => handleToggleArea(activeArea)}
+            disabled={togglingArea}
+            className={`flex items-center px-3 py-1 rounded-full text-sm border transition-colors disabled:opacity-50 ${
+              activeArea.is_open
+                ? 'text-gray-700 border-gray-300 hover:bg-gray-50'
+                : 'text-green-700 border-green-300 hover:bg-green-50'
+            }`}
+          >
+            {activeArea.is_open ? <DoorClosed className="w-3 h-3 mr-1" /> : <DoorOpen className="w-3 h-3 mr-1" />}
+            {activeArea.is_open ? `Close ${activeArea.name}` : `Reopen ${activeArea.name}`}
+          </button>
+        )}
+        <div className="ml-auto flex flex-wrap gap-3 text-xs text-gray-600">
+          {(Object.keys(statusLabels) as TableStatus[]).map(status => (
+            <span key={status} className="flex items-center">
+              <span className={`inline-block w-3 h-3 mr-1 rounded border ${statusColors[status]}`}></span>
+              {statusLabels[status]}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {activeArea && !activeArea.is_open && (
+        <p className="mb-3 p-3 bg-gray-100 border border-gray-300 rounded text-sm text-gray-700">
+          {activeArea.name} is closed. Its tables aren't offered for new bookings; existing bookings keep their tables.
+        </p>
+      )}
+
+      <div className="flex flex-col lg:flex-row gap-4">
+        <div className={`flex-1 overflow-auto border border-gray-300 rounded-lg bg-gray-50 ${activeArea?.is_open === false ? 'opacity-60' : ''}`}>
+          {activeArea && (
+            <div
+              className="relative"
+              style={{ width: activeArea.width, height: activeArea.height }}
+              onClick={(e) => {
+                if (e.target === e.currentTarget) setSelectedTableId(null);
+              }}
+            >
+              {areaTables.map(table => {
+                const details = tableDetails(table);
+                const next = details.upcoming[0];
+                return (
+                  <FloorTable
+                    key={table.id}
+                    table={table}
+                    selected={table.id === selectedTableId}
+                    className={`cursor-pointer ${statusColors[table.status]}`}
+                    onClick={() => setSelectedTableId(table.id)}
+                  >
+                    <p className="font-bold text-sm">{table.table_number}</p>
+                    {details.seatedMinutes !== null && (
+                      <p className="text-xs">{formatDuration(details.seatedMinutes)}</p>
+                    )}
+                    {details.openTotal > 0 && (
+                      <p className="text-xs font-semibold">{formatPrice(details.openTotal)}</p>
+                    )}
+                    {table.status !== 'occupied' && next && (
+                      <p className="text-xs">{format(new Date(`${next.booking_date}T${next.booking_time}`), 'h:mm a')}</p>
+                    )}
+                  </FloorTable>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {selectedTable && selected && (
+          <div className="lg:w-72 p-4 border border-gray-200 rounded-lg space-y-4">
+            <div className="flex items-start justify-between">
+              <div>
+                <h4 className="font-semibold text-gray-800">Table {selectedTable.table_number}</h4>
+                <p className="text-sm text-gray-600 flex items-center">
+                  <Users className="w-3 h-3 mr-1" />
+                  {selectedTable.capacity} seats · {statusLabels[selectedTable.status]}
+                </p>
+              </div>
+              <button onClick={() => setSelectedTableId(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            {selected.since && selected.seatedMinutes !== null && (
+              <p className="text-sm text-gray-700 flex items-center">
+                <Clock className="w-4 h-4 mr-2" />
+                Seated at {format(selected.since, 'h:mm a')} ({formatDuration(selected.seatedMinutes)})
+              </p>
+            )}
+
+            {selected.session && (
+              <div className="text-sm text-gray-700">
+                <p className="flex items-center">
+                  <ShoppingCart className="w-4 h-4 mr-2" />
+                  {selected.openOrders.length} open order{selected.openOrders.length !== 1 ? 's' : ''}
+                  {selected.openTotal > 0 && ` · ${formatPrice(selected.openTotal)}`}
+                </p>
+                <button
+                  onClick={() => window.open(`${window.location.origin}/order/${selected.session!.session_token}`, '_blank')}
+                  className="mt-1 flex items-center text-blue-600 hover:text-blue-800 text-xs"
+                >
+                  <ExternalLink className="w-3 h-3 mr-1" />
+                  Open QR ordering
+                </button>
+              </div>
+            )}
+
+            <div>
+              <p className="text-sm font-medium text-gray-700 flex items-center mb-1">
+                <CalendarClock className="w-4 h-4 mr-2" />
+                Upcoming reservations
+              </p>
+              {selected.upcoming.length === 0 ? (
+                <p className="text-xs text-gray-500">None today</p>
+              ) : (
+                <ul className="text-xs text-gray-700 space-y-1">
+                  {selected.upcoming.map(booking => (
+                    <li key={booking.id} className="flex justify-between">
+                      <span>{format(new Date(`${booking.booking_date}T${booking.booking_time}`), 'h:mm a')} · {booking.customer?.name || 'Guest'}</span>
+                      <span>{booking.party_size} pax</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {selectedTable.status === 'available' && (
+              <button
+                onClick={() => onMarkOccupied(selectedTable)}
+                className="w-full px-3 py-2 bg-orange-600 text-white rounded-md text-sm font-medium hover:bg-orange-700 transition-colors"
+              >
+                Mark Occupied
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {unplacedTables.length > 0 && (
+        <p className="mt-3 text-xs text-gray-500">
+          Not on the floor plan: {unplacedTables.map(table => table.table_number).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,419 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../../lib/supabase';
+import { formatModifiers } from '../../lib/menuModifiers';
+import {
+  buildTickets,
+  KitchenTicket,
+  nextItemStatus,
+  RECALL_WINDOW_MINUTES,
+  setItemsKitchenStatus,
+  ticketAgeMinutes,
+  ticketUrgency,
+  TicketUrgency
+} from '../../lib/kitchen';
+import { KitchenStation, OrderWithDetails, Restaurant } from '../../types/database';
+import { flushPrintJobs, reprintKitchenTicket } from '../../lib/printing';
+import { KitchenStationManager } from './KitchenStationManager';
+import { PrintJobQueue } from './PrintJobQueue';
+import { format } from 'date-fns';
+import { ChefHat, Clock, Maximize2, Minimize2, RotateCcw, Settings, CheckCircle, MapPin, Printer } from 'lucide-react';
+
+interface KitchenDisplayProps {
+  restaurant: Restaurant;
+  // Station setup is a settings change; kitchen staff only work the tickets
+  canManageStations?: boolean;
+}
+
+const urgencyBorders: Record<TicketUrgency, string> = {
+  normal: 'border-green-500',
+  warning: 'border-amber-500',
+  critical: 'border-red-600'
+};
+
+const urgencyHeaders: Record<TicketUrgency, string> = {
+  normal: 'bg-green-500',
+  warning: 'bg-amber-500',
+  critical: 'bg-red-600 animate-pulse'
+};
+
+const itemStatusStyles = {
+  pending: 'text-gray-900',
+  preparing: 'text-blue-700 bg-blue-50',
+  ready: 'text-gray-400 line-through'
+};
+
+export function KitchenDisplay({ restaurant, canManageStations = true }: KitchenDisplayProps) {
+  const [stations, setStations] = useState<KitchenStation[]>([]);
+  const [orders, setOrders] = useState<OrderWithDetails[]>([]);
+  const [stationId, setStationId] = useState<string | null>(null);
+  const [showRecall, setShowRecall] = useState(false);
+  const [fullScreen, setFullScreen] = useState(false);
+  const [showStationManager, setShowStationManager] = useState(false);
+  const [showPrintQueue, setShowPrintQueue] = useState(false);
+  const [now, setNow] = useState(new Date());
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchStations();
+    fetchOrders();
+
+    const channel = supabase
+      .channel('kitchen_display_changes')
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'orders',
+        filter: `restaurant_id=eq.${restaurant.id}`
+      }, fetchOrders)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'order_items'
+      }, fetchOrders)
+      .subscribe();
+
+    // Keeps ticket timers moving between updates
+    const timer = setInterval(() => setNow(new Date()), 15000);
+
+    return () => {
+      supabase.removeChannel(channel);
+      clearInterval(timer);
+    };
+  }, [restaurant.id]);
+
+  const fetchStations = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('kitchen_stations')
+        .select('*')
+        .eq('restaurant_id', restaurant.id)
+        .order('display_order');
+
+      if (error) throw error;
+      setStations(data || []);
+    } catch (err) {
+      console.error('Error fetching kitchen stations:', err);
+    }
+  };
+
+  const fetchOrders = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .select(`
+          *,
+          session:order_sessions(
+            *,
+            table:restaurant_tables(*)
+          ),
+          items:order_items(
+            *,
+            menu_item:menu_items(*)
+          )
+        `)
+        .eq('restaurant_id', restaurant.id)
+        .in('status', ['confirmed', 'preparing', 'ready'])
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setOrders(data || []);
+      setNow(new Date());
+    } catch (err) {
+      console.error('Error fetching kitchen orders:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const activeStations = stations.filter(station => station.is_active);
+  const selectedStation = activeStations.find(station => station.id === stationId) || null;
+  const tickets = buildTickets(orders, selectedStation?.id ?? null);
+  const openTickets = tickets.filter(ticket => !ticket.bumpedAt);
+  const recallableTickets = tickets
+    .filter(ticket => ticket.bumpedAt && now.getTime() - new Date(ticket.bumpedAt).getTime() < RECALL_WINDOW_MINUTES * 60000)
+    .sort((a, b) => b.bumpedAt!.localeCompare(a.bumpedAt!));
+
+  const openCount = (station: KitchenStation | null) => {
+    return buildTickets(orders, station?.id ?? null).filter(ticket => !ticket.bumpedAt).length;
+  };
+
+  const updateItems = async (key: string, itemIds: string[], status: 'preparing' | 'ready') => {
+    setUpdating(key);
+    try {
+      await setItemsKitchenStatus(itemIds, status);
+      await fetchOrders();
+    } catch (err) {
+      console.error('Error updating kitchen status:', err);
+      alert('Failed to update the ticket. Please try again.');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const bumpTicket = (ticket: KitchenTicket) => {
+    const itemIds = ticket.items.filter(item => item.kitchen_status !== 'ready').map(item => item.id);
+    return updateItems(ticket.key, itemIds, 'ready');
+  };
+
+  const recallTicket = (ticket: KitchenTicket) => {
+    return updateItems(ticket.key, ticket.items.map(item => item.id), 'preparing');
+  };
+
+  const reprintTicket = async (ticket: KitchenTicket) => {
+    setUpdating(ticket.key);
+    try {
+      await reprintKitchenTicket(ticket.order.id, selectedStation?.id ?? null);
+      await flushPrintJobs(restaurant.id);
+    } catch (err) {
+      console.error('Error reprinting ticket:', err);
+      alert(err instanceof Error ? err.message : 'Failed to reprint the ticket');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const toggleFullScreen = async () => {
+    try {
+      if (!fullScreen) {
+        await document.documentElement.requestFullscreen?.();
+      } else if (document.fullscreenElement) {
+        await document.exitFullscreen();
+      }
+    } catch (err) {
+      // Some tablets don't allow it; the display still fills the window
+      console.warn('Full screen not available:', err);
+    }
+    setFullScreen(!fullScreen);
+  };
+
+  const renderTicket = (ticket: KitchenTicket, recalled: boolean) => {
+    const age = ticketAgeMinutes(ticket, now);
+    const urgency = recalled ? 'normal' : ticketUrgency(age, selectedStation);
+    const itemStation = (id: string | null) => stations.find(station => station.id === id);
+
+    return (
+      <div
+        key={ticket.key}
+        className={`bg-white rounded-lg shadow-md overflow-hidden border-t-8 ${
+          recalled ? 'border-gray-400 opacity-75' : urgencyBorders[urgency]
+        }`}
+      >
+        <div className={`px-4 py-2 flex justify-between items-center text-white ${
+          recalled ? 'bg-gray-500' : urgencyHeaders[urgency]
+        }`}>
+          <div>
+            <p className="font-bold text-lg">#{ticket.order.order_number.split('-').pop()}</p>
+            <p className="text-xs flex items-center">
+              <MapPin className="w-3 h-3 mr-1" />
+              Table {ticket.order.session?.table?.table_number}
+            </p>
+          </div>
+          <div className="text-right">
+            <p className="font-bold text-lg flex items-center justify-end">
+              <button
+                onClick={() => reprintTicket(ticket)}
+                disabled={updating === ticket.key}
+                className="mr-3 opacity-75 hover:opacity-100 disabled:opacity-50"
+                title="Reprint ticket"
+              >
+                <Printer className="w-4 h-4" />
+              </button>
+              <Clock className="w-4 h-4 mr-1" />
+              {age}m
+            </p>
+            <p className="text-xs">{format(new Date(ticket.order.created_at), 'h:mm a')}</p>
+          </div>
+        </div>
+
+        <ul className="divide-y divide-gray-100">
+          {ticket.items.map(item => (
+            <li key={item.id}>
+              <button
+                onClick={() => updateItems(ticket.key, [item.id], nextItemStatus(item.kitchen_status) as 'preparing' | 'ready')}
+                disabled={updating === ticket.key || recalled}
+                className={`w-full text-left px-4 py-2 transition-colors hover:bg-gray-50 disabled:cursor-default ${itemStatusStyles[item.kitchen_status]}`}
+              >
+                <div className="flex items-start">
+                  <span className="font-bold mr-2">{item.quantity}×</span>
+                  <div className="flex-1">
+                    <p className="font-semibold">{item.menu_item?.name}</p>
+                    {item.modifiers?.length > 0 && (
+                      <p className="text-sm">{formatModifiers(item.modifiers)}</p>
+                    )}
+                    {item.special_instructions && (
+                      <p className="text-sm text-orange-700 font-medium">{item.special_instructions}</p>
+                    )}
+                    {!selectedStation && itemStation(item.station_id) && (
+                      <span
+                        className="inline-block mt-1 text-xs text-white px-2 py-0.5 rounded"
+                        style={{ backgroundColor: itemStation(item.station_id)!.color }}
+                      >
+                        {itemStation(item.station_id)!.name}
+                      </span>
+                    )}
+                  </div>
+                  {item.kitchen_status === 'preparing' && (
+                    <span className="text-xs font-medium text-blue-700 ml-2">Cooking</span>
+                  )}
+                  {item.kitchen_status === 'ready' && (
+                    <CheckCircle className="w-4 h-4 text-green-500 ml-2" />
+                  )}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="p-3 border-t border-gray-100">
+          {recalled ? (
+            <button
+              onClick={() => recallTicket(ticket)}
+              disabled={updating === ticket.key}
+              className="w-full flex items-center justify-center px-4 py-2 bg-gray-700 text-white rounded font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50"
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Recall
+            </button>
+          ) : (
+            <button
+              onClick={() => bumpTicket(ticket)}
+              disabled={updating === ticket.key}
+              className="w-full flex items-center justify-center px-4 py-2 bg-green-600 text-white rounded font-semibold hover:bg-green-700 transition-colors disabled:opacity-50"
+            >
+              <CheckCircle className="w-4 h-4 mr-2" />
+              Bump
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="animate-pulse">
+          <div className="h-6 bg-gray-200 rounded w-1/4 mb-4"></div>
+          <div className="space-y-3">
+            <div className="h-4 bg-gray-200 rounded"></div>
+            <div className="h-4 bg-gray-200 rounded w-5/6"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={fullScreen ? 'fixed inset-0 z-40 bg-gray-900 overflow-y-auto p-4' : 'bg-gray-900 rounded-lg shadow-md p-4'}>
+      {/* Header */}
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <div className="flex items-center text-white">
+          <ChefHat className="w-6 h-6 mr-2" />
+          <h2 className="text-xl font-semibold">Kitchen Display</h2>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => setStationId(null)}
+            className={`px-3 py-2 rounded text-sm font-medium transition-colors ${
+              !selectedStation ? 'bg-white text-gray-900' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+            }`}
+          >
+            All Stations ({openCount(null)})
+          </button>
+          {activeStations.map(station => (
+            <button
+              key={station.id}
+              onClick={() => setStationId(station.id)}
+              className={`px-3 py-2 rounded text-sm font-medium transition-colors ${
+                selectedStation?.id === station.id ? 'text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+              }`}
+              style={selectedStation?.id === station.id ? { backgroundColor: station.color } : undefined}
+            >
+              {station.name} ({openCount(station)})
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowRecall(!showRecall)}
+            className={`flex items-center px-3 py-2 rounded text-sm transition-colors ${
+              showRecall ? 'bg-white text-gray-900' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+            }`}
+          >
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Recall ({recallableTickets.length})
+          </button>
+          <button
+            onClick={() => setShowPrintQueue(true)}
+            className="p-2 rounded bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors"
+            title="Print queue"
+          >
+            <Printer className="w-4 h-4" />
+          </button>
+          {canManageStations && (
+            <button
+              onClick={() => setShowStationManager(true)}
+              className="p-2 rounded bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors"
+              title="Stations"
+            >
+              <Settings className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={toggleFullScreen}
+            className="p-2 rounded bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors"
+            title={fullScreen ? 'Exit full screen' : 'Full screen'}
+          >
+            {fullScreen ? <Minimize2 className="w-4 h-4" /> : <Maximize2 className="w-4 h-4" />}
+          </button>
+        </div>
+      </div>
+
+      {/* Tickets */}
+      {showRecall ? (
+        recallableTickets.length === 0 ? (
+          <p className="text-center text-gray-400 py-16">
+            No tickets bumped in the last {RECALL_WINDOW_MINUTES} minutes
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+            {recallableTickets.map(ticket => renderTicket(ticket, true))}
+          </div>
+        )
+      ) : openTickets.length === 0 ? (
+        <div className="text-center py-16">
+          <ChefHat className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+          <p className="text-gray-300 text-lg">All caught up</p>
+          <p className="text-gray-500 text-sm">Confirmed orders appear here</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+          {openTickets.map(ticket => renderTicket(ticket, false))}
+        </div>
+      )}
+
+      {showPrintQueue && (
+        <PrintJobQueue
+          restaurant={restaurant}
+          stations={stations}
+          onClose={() => setShowPrintQueue(false)}
+        />
+      )}
+
+      {showStationManager && (
+        <KitchenStationManager
+          restaurant={restaurant}
+          stations={stations}
+          onUpdate={() => {
+            fetchStations();
+            fetchOrders();
+          }}
+          onClose={() => setShowStationManager(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,369 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../../lib/supabase';
+import { KitchenStation, MenuCategory, PrinterConfig, Restaurant } from '../../types/database';
+import { Plus, Edit2, Trash2, Eye, EyeOff, X } from 'lucide-react';
+
+interface KitchenStationManagerProps {
+  restaurant: Restaurant;
+  stations: KitchenStation[];
+  onUpdate: () => void;
+  onClose: () => void;
+}
+
+const emptyStationForm = {
+  name: '',
+  color: '#2563eb',
+  warning_minutes: 10,
+  critical_minutes: 20,
+  display_order: 0,
+  printer_config_id: ''
+};
+
+export function KitchenStationManager({ restaurant, stations, onUpdate, onClose }: KitchenStationManagerProps) {
+  const [categories, setCategories] = useState<MenuCategory[]>([]);
+  const [printers, setPrinters] = useState<PrinterConfig[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [editingStation, setEditingStation] = useState<KitchenStation | null>(null);
+  const [stationForm, setStationForm] = useState(emptyStationForm);
+
+  useEffect(() => {
+    fetchCategories();
+    fetchPrinters();
+  }, [restaurant.id]);
+
+  const fetchCategories = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('menu_categories')
+        .select('*')
+        .eq('restaurant_id', restaurant.id)
+        .order('display_order');
+
+      if (error) throw error;
+      setCategories(data || []);
+    } catch (err) {
+      console.error('Error fetching categories:', err);
+    }
+  };
+
+  const fetchPrinters = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('printer_configs')
+        .select('*')
+        .eq('restaurant_id', restaurant.id)
+        .eq('is_active', true)
+        .order('printer_name');
+
+      if (error) throw error;
+      setPrinters(data || []);
+    } catch (err) {
+      console.error('Error fetching printers:', err);
+    }
+  };
+
+  const resetForm = () => {
+    setStationForm(emptyStationForm);
+    setEditingStation(null);
+    setShowForm(false);
+  };
+
+  const editStation = (station: KitchenStation) => {
+    setStationForm({
+      name: station.name,
+      color: station.color,
+      warning_minutes: station.warning_minutes,
+      critical_minutes: station.critical_minutes,
+      display_order: station.display_order,
+      printer_config_id: station.printer_config_id || ''
+    });
+    setEditingStation(station);
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (stationForm.critical_minutes <= stationForm.warning_minutes) {
+      alert('The red timer must be longer than the amber timer');
+      return;
+    }
+
+    const stationData = {
+      ...stationForm,
+      printer_config_id: stationForm.printer_config_id || null
+    };
+
+    try {
+      if (editingStation) {
+        const { error } = await supabase
+          .from('kitchen_stations')
+          .update(stationData)
+          .eq('id', editingStation.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('kitchen_stations')
+          .insert({ ...stationData, restaurant_id: restaurant.id, is_active: true });
+
+        if (error) throw error;
+      }
+
+      resetForm();
+      onUpdate();
+    } catch (error) {
+      console.error('Error saving kitchen station:', error);
+      alert('Failed to save station. Station names must be unique.');
+    }
+  };
+
+  const toggleActive = async (station: KitchenStation) => {
+    try {
+      const { error } = await supabase
+        .from('kitchen_stations')
+        .update({ is_active: !station.is_active })
+        .eq('id', station.id);
+
+      if (error) throw error;
+      onUpdate();
+    } catch (error) {
+      console.error('Error updating kitchen station:', error);
+      alert('Failed to update station');
+    }
+  };
+
+  const deleteStation = async (station: KitchenStation) => {
+    if (!confirm(`Delete station "${station.name}"? Its categories will only show on the all-stations view.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('kitchen_stations')
+        .delete()
+        .eq('id', station.id);
+
+      if (error) throw error;
+      fetchCategories();
+      onUpdate();
+    } catch (error) {
+      console.error('Error deleting kitchen station:', error);
+      alert('Failed to delete station');
+    }
+  };
+
+  const assignCategory = async (category: MenuCategory, stationId: string) => {
+    try {
+      const { error } = await supabase
+        .from('menu_categories')
+        .update({ station_id: stationId || null })
+        .eq('id', category.id);
+
+      if (error) throw error;
+      setCategories(prev => prev.map(c => c.id === category.id ? { ...c, station_id: stationId || null } : c));
+    } catch (error) {
+      console.error('Error assigning category:', error);
+      alert('Failed to assign category');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-semibold">Kitchen Stations</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* Stations */}
+          <div className="space-y-2 mb-4">
+            {stations.length === 0 && (
+              <p className="text-sm text-gray-600">
+                No stations yet. Without stations every ticket shows on the all-stations view.
+              </p>
+            )}
+            {stations.map(station => (
+              <div
+                key={station.id}
+                className={`flex items-center justify-between border rounded-lg p-3 ${station.is_active ? 'border-gray-200' : 'border-gray-200 bg-gray-50 opacity-75'}`}
+              >
+                <div className="flex items-center">
+                  <span className="w-4 h-4 rounded-full mr-3" style={{ backgroundColor: station.color }}></span>
+                  <div>
+                    <p className="font-medium text-gray-800">{station.name}</p>
+                    <p className="text-xs text-gray-500">
+                      Amber after {station.warning_minutes} min, red after {station.critical_minutes} min
+                      {' · '}
+                      Prints to {printers.find(printer => printer.id === station.printer_config_id)?.printer_name || 'default printer'}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex space-x-1">
+                  <button
+                    onClick={() => toggleActive(station)}
+                    className={station.is_active ? 'text-green-600 hover:text-green-800' : 'text-gray-400 hover:text-gray-600'}
+                    title={station.is_active ? 'Active' : 'Hidden'}
+                  >
+                    {station.is_active ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => editStation(station)}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => deleteStation(station)}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {showForm ? (
+            <form onSubmit={handleSubmit} className="space-y-4 border border-gray-200 rounded-lg p-4 mb-6">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Station Name *
+                  </label>
+                  <input
+                    type="text"
+                    required
+                    value={stationForm.name}
+                    onChange={(e) => setStationForm({ ...stationForm, name: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="e.g., Grill, Bar, Dessert"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Colour
+                  </label>
+                  <input
+                    type="color"
+                    value={stationForm.color}
+                    onChange={(e) => setStationForm({ ...stationForm, color: e.target.value })}
+                    className="w-full h-10 border border-gray-300 rounded-md"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Amber After (min)
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={stationForm.warning_minutes}
+                    onChange={(e) => setStationForm({ ...stationForm, warning_minutes: parseInt(e.target.value) || 1 })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Red After (min)
+                  </label>
+                  <input
+                    type="number"
+                    min="2"
+                    value={stationForm.critical_minutes}
+                    onChange={(e) => setStationForm({ ...stationForm, critical_minutes: parseInt(e.target.value) || 2 })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Display Order
+                  </label>
+                  <input
+                    type="number"
+                    value={stationForm.display_order}
+                    onChange={(e) => setStationForm({ ...stationForm, display_order: parseInt(e.target.value) || 0 })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Ticket Printer
+                </label>
+                <select
+                  value={stationForm.printer_config_id}
+                  onChange={(e) => setStationForm({ ...stationForm, printer_config_id: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Default printer</option>
+                  {printers.map(printer => (
+                    <option key={printer.id} value={printer.id}>{printer.printer_name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex space-x-4">
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                >
+                  {editingStation ? 'Update' : 'Create'}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <button
+              onClick={() => setShowForm(true)}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors mb-6"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Station
+            </button>
+          )}
+
+          {/* Category routing */}
+          <h4 className="font-medium text-gray-800 mb-1">Category Routing</h4>
+          <p className="text-sm text-gray-600 mb-3">
+            Items are sent to their category's station when ordered.
+          </p>
+          {categories.length === 0 ? (
+            <p className="text-sm text-gray-500">No menu categories yet</p>
+          ) : (
+            <div className="space-y-2">
+              {categories.map(category => (
+                <div key={category.id} className="flex items-center justify-between">
+                  <span className="text-sm text-gray-700">{category.name}</span>
+                  <select
+                    value={category.station_id || ''}
+                    onChange={(e) => assignCategory(category, e.target.value)}
+                    className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">No station</option>
+                    {stations.map(station => (
+                      <option key={station.id} value={station.id}>{station.name}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../../lib/supabase';
+import { flushPrintJobs, retryPrintJob } from '../../lib/printing';
+import { KitchenStation, PrintJob, PrintJobStatus, Restaurant } from '../../types/database';
+import { format } from 'date-fns';
+import { Printer, RefreshCw, X } from 'lucide-react';
+
+interface PrintJobQueueProps {
+  restaurant: Restaurant;
+  stations: KitchenStation[];
+  onClose: () => void;
+}
+
+interface PrintJobWithDetails extends PrintJob {
+  order: { order_number: string } | null;
+  printer: { printer_name: string } | null;
+}
+
+const statusStyles: Record<PrintJobStatus, string> = {
+  queued: 'bg-yellow-100 text-yellow-800',
+  sent: 'bg-blue-100 text-blue-800',
+  printed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+const statusLabels: Record<PrintJobStatus, string> = {
+  queued: 'Queued',
+  sent: 'Sent',
+  printed: 'Printed',
+  failed: 'Failed'
+};
+
+export function PrintJobStatusBadge({ status }: { status: PrintJobStatus }) {
+  return (
+    <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusStyles[status]}`}>
+      {statusLabels[status]}
+    </span>
+  );
+}
+
+export function PrintJobQueue({ restaurant, stations, onClose }: PrintJobQueueProps) {
+  const [jobs, setJobs] = useState<PrintJobWithDetails[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [retrying, setRetrying] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchJobs();
+
+    const channel = supabase
+      .channel('print_job_changes')
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'print_jobs',
+        filter: `restaurant_id=eq.${restaurant.id}`
+      }, fetchJobs)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [restaurant.id]);
+
+  const fetchJobs = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('print_jobs')
+        .select(`
+          *,
+          order:orders(order_number),
+          printer:printer_configs(printer_name)
+        `)
+        .eq('restaurant_id', restaurant.id)
+        .in('job_type', ['kitchen_ticket', 'receipt'])
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      setJobs(data || []);
+    } catch (err) {
+      console.error('Error fetching print jobs:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const retry = async (job: PrintJobWithDetails) => {
+    setRetrying(job.id);
+    try {
+      await retryPrintJob(job.id);
+      await flushPrintJobs(restaurant.id);
+      await fetchJobs();
+    } catch (err) {
+      console.error('Error retrying print job:', err);
+      alert('Failed to retry the print job. Please try again.');
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  const stationName = (stationId: string | null) => {
+    return stations.find(station => station.id === stationId)?.name || 'Kitchen';
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-4">
+            <div className="flex items-center">
+              <Printer className="w-5 h-5 text-gray-700 mr-2" />
+              <h3 className="text-lg font-semibold">Print Queue</h3>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {!restaurant.auto_print_tickets && (
+            <p className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded text-sm text-blue-800">
+              Automatic ticket printing is off. Turn it on in Printer Configuration; reprints still work.
+            </p>
+          )}
+
+          {loading ? (
+            <div className="animate-pulse space-y-3">
+              <div className="h-4 bg-gray-200 rounded"></div>
+              <div className="h-4 bg-gray-200 rounded w-5/6"></div>
+            </div>
+          ) : jobs.length === 0 ? (
+            <p className="text-center text-gray-600 py-8">No tickets printed yet</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2">Time</th>
+                  <th className="py-2">Ticket</th>
+                  <th className="py-2">Printer</th>
+                  <th className="py-2">Status</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {jobs.map(job => (
+                  <tr key={job.id}>
+                    <td className="py-2 text-gray-600">{format(new Date(job.created_at), 'h:mm a')}</td>
+                    <td className="py-2">
+                      <p className="font-medium text-gray-900">
+                        {stationName(job.station_id)} · {job.order?.order_number || 'Deleted order'}
+                      </p>
+                      {job.is_reprint && <span className="text-xs text-gray-500">Reprint</span>}
+                    </td>
+                    <td className="py-2 text-gray-600">
+                      {job.printer?.printer_name || 'No printer'}
+                      {job.failed_over_from && <span className="block text-xs text-orange-600">Backup printer</span>}
+                    </td>
+                    <td className="py-2">
+                      <PrintJobStatusBadge status={job.status} />
+                      {job.error_message && (job.status === 'queued' || job.status === 'failed') && (
+                        <p className="text-xs text-red-600 mt-1">
+                          {job.error_message} (attempt {job.attempts})
+                        </p>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">
+                      {job.status === 'failed' && (
+                        <button
+                          onClick={() => retry(job)}
+                          disabled={retrying === job.id}
+                          className="flex items-center ml-auto px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          <RefreshCw className={`w-3 h-3 mr-1 ${retrying === job.id ? 'animate-spin' : ''}`} />
+                          Retry
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
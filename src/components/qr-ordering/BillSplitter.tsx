@@ -0,0 +1,277 @@
+import React, { useState } from 'react';
+import { createBillSplit } from '../../lib/sessionPayments';
+import { BillSplitMethod, OrderWithDetails } from '../../types/database';
+import { X, Users, List, Edit3, Plus, Minus, Trash2 } from 'lucide-react';
+
+interface BillSplitterProps {
+  sessionToken: string;
+  orders: OrderWithDetails[];
+  amountDue: number;
+  onCreated: () => void;
+  onClose: () => void;
+}
+
+const splitMethods: { value: BillSplitMethod; label: string; icon: React.ElementType }[] = [
+  { value: 'even', label: 'Evenly', icon: Users },
+  { value: 'items', label: 'By Item', icon: List },
+  { value: 'custom', label: 'Custom', icon: Edit3 }
+];
+
+const MAX_PAYERS = 20;
+
+export function BillSplitter({ sessionToken, orders, amountDue, onCreated, onClose }: BillSplitterProps) {
+  const [method, setMethod] = useState<BillSplitMethod>('even');
+  const [evenCount, setEvenCount] = useState(2);
+  const [people, setPeople] = useState(['Guest 1', 'Guest 2']);
+  const [itemAssignments, setItemAssignments] = useState<Record<string, number>>({});
+  const [customAmounts, setCustomAmounts] = useState(['', '']);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const formatPrice = (price: number) => {
+    return `S$${price.toFixed(2)}`;
+  };
+
+  const toCents = (amount: number) => Math.round(amount * 100);
+
+  // Each item carries its order's loyalty discount
+  const items = orders.flatMap(order => {
+    const discountFactor = Number(order.subtotal_sgd) > 0 ? Number(order.total_sgd) / Number(order.subtotal_sgd) : 1;
+    return order.items.map(item => ({
+      ...item,
+      amount: Number(item.total_price_sgd) * discountFactor
+    }));
+  });
+
+  const personItemTotal = (index: number) => {
+    return items
+      .filter(item => itemAssignments[item.id] === index)
+      .reduce((sum, item) => sum + item.amount, 0);
+  };
+
+  const customTotal = customAmounts.reduce((sum, amount) => sum + (parseFloat(amount) || 0), 0);
+  const unassignedItems = items.filter(item => itemAssignments[item.id] === undefined);
+
+  const addPerson = () => {
+    if (people.length >= MAX_PAYERS) return;
+    setPeople(prev => [...prev, `Guest ${prev.length + 1}`]);
+    setCustomAmounts(prev => [...prev, '']);
+  };
+
+  const removePerson = (index: number) => {
+    if (people.length <= 2) return;
+    setPeople(prev => prev.filter((_, i) => i !== index));
+    setCustomAmounts(prev => prev.filter((_, i) => i !== index));
+    // Shift assignments of the people after the removed one down by one
+    setItemAssignments(prev => {
+      const next: Record<string, number> = {};
+      Object.entries(prev).forEach(([itemId, person]) => {
+        if (person < index) next[itemId] = person;
+        if (person > index) next[itemId] = person - 1;
+      });
+      return next;
+    });
+  };
+
+  const canSubmit = () => {
+    if (method === 'items') return unassignedItems.length === 0 && people.every((_, index) => personItemTotal(index) > 0);
+    if (method === 'custom') {
+      return customAmounts.every(amount => parseFloat(amount) > 0) && toCents(customTotal) === toCents(amountDue);
+    }
+    return true;
+  };
+
+  const handleSubmit = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      if (method === 'even') {
+        await createBillSplit(sessionToken, 'even', { count: evenCount });
+      } else if (method === 'items') {
+        await createBillSplit(sessionToken, 'items', people.map((label, index) => ({
+          label,
+          item_ids: items.filter(item => itemAssignments[item.id] === index).map(item => item.id)
+        })));
+      } else {
+        await createBillSplit(sessionToken, 'custom', people.map((label, index) => ({
+          label,
+          amount: parseFloat(customAmounts[index])
+        })));
+      }
+
+      onCreated();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to split the bill');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderPeopleEditor = (renderExtra: (index: number) => React.ReactNode) => (
+    <div className="space-y-2">
+      {people.map((label, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setPeople(prev => prev.map((name, i) => i === index ? e.target.value : name))}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+          />
+          {renderExtra(index)}
+          <button
+            onClick={() => removePerson(index)}
+            disabled={people.length <= 2}
+            className="p-2 text-gray-400 hover:text-red-500 transition-colors disabled:opacity-30"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={addPerson}
+        disabled={people.length >= MAX_PAYERS}
+        className="flex items-center text-sm text-orange-600 hover:text-orange-700 disabled:opacity-50"
+      >
+        <Plus className="w-4 h-4 mr-1" />
+        Add person
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="text-lg font-semibold text-gray-800">Split the Bill</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            {splitMethods.map(({ value, label, icon: Icon }) => (
+              <button
+                key={value}
+                onClick={() => setMethod(value)}
+                className={`flex flex-col items-center py-3 text-sm rounded-md border transition-colors ${
+                  method === value
+                    ? 'bg-orange-500 text-white border-orange-500'
+                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                <Icon className="w-5 h-5 mb-1" />
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex justify-between text-sm text-gray-600">
+            <span>Amount to split</span>
+            <span className="font-medium text-gray-800">{formatPrice(amountDue)}</span>
+          </div>
+
+          {method === 'even' && (
+            <div className="text-center space-y-3">
+              <p className="text-sm text-gray-600">How many people are paying?</p>
+              <div className="flex items-center justify-center space-x-4">
+                <button
+                  onClick={() => setEvenCount(count => Math.max(2, count - 1))}
+                  className="w-10 h-10 rounded bg-gray-200 flex items-center justify-center hover:bg-gray-300 transition-colors"
+                >
+                  <Minus className="w-4 h-4" />
+                </button>
+                <span className="text-2xl font-bold w-10">{evenCount}</span>
+                <button
+                  onClick={() => setEvenCount(count => Math.min(MAX_PAYERS, count + 1))}
+                  className="w-10 h-10 rounded bg-orange-500 text-white flex items-center justify-center hover:bg-orange-600 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+              <p className="text-sm text-gray-500">
+                About {formatPrice(Math.floor((amountDue / evenCount) * 100) / 100)} each
+              </p>
+            </div>
+          )}
+
+          {method === 'items' && (
+            <>
+              {renderPeopleEditor(index => (
+                <span className="text-sm text-gray-600 w-20 text-right">{formatPrice(personItemTotal(index))}</span>
+              ))}
+              <div className="border-t pt-4 space-y-2">
+                <p className="text-sm font-medium text-gray-700">Who had what?</p>
+                {items.map(item => (
+                  <div key={item.id} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-700">
+                      {item.quantity}x {item.menu_item.name}
+                      <span className="text-gray-400 ml-1">{formatPrice(item.amount)}</span>
+                    </span>
+                    <select
+                      value={itemAssignments[item.id] ?? ''}
+                      onChange={(e) => setItemAssignments(prev => ({ ...prev, [item.id]: parseInt(e.target.value) }))}
+                      className={`px-2 py-1 border rounded text-sm ${
+                        itemAssignments[item.id] === undefined ? 'border-orange-400' : 'border-gray-300'
+                      }`}
+                    >
+                      <option value="" disabled>Choose</option>
+                      {people.map((label, index) => (
+                        <option key={index} value={index}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+                {unassignedItems.length > 0 && (
+                  <p className="text-xs text-orange-600">
+                    {unassignedItems.length} item{unassignedItems.length === 1 ? '' : 's'} still to assign
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+
+          {method === 'custom' && (
+            <>
+              {renderPeopleEditor(index => (
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={customAmounts[index]}
+                  onChange={(e) => setCustomAmounts(prev => prev.map((amount, i) => i === index ? e.target.value : amount))}
+                  placeholder="0.00"
+                  className="w-24 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+                />
+              ))}
+              <div className={`flex justify-between text-sm ${
+                toCents(customTotal) === toCents(amountDue) ? 'text-green-600' : 'text-orange-600'
+              }`}>
+                <span>Remaining</span>
+                <span className="font-medium">{formatPrice(amountDue - customTotal)}</span>
+              </div>
+            </>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+        </div>
+
+        <div className="p-4 border-t">
+          <button
+            onClick={handleSubmit}
+            disabled={saving || !canSubmit()}
+            className="w-full px-4 py-3 bg-orange-500 text-white rounded-md hover:bg-orange-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Splitting...' : 'Split Bill'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
-import React from 'react';
-import { CartItem, LoyaltyDiscount } from '../../types/database';
-import { X, Plus, Minus, ShoppingCart, CreditCard, Tag, Trash2 } from 'lucide-react';
+import React, { useState } from 'react';
+import { AppliedDiscountCode, CartItem, LoyaltyDiscount } from '../../types/database';
+import { cartItemUnitPrice, formatModifiers } from '../../lib/menuModifiers';
+import { describeDiscountCode } from '../../lib/loyalty';
+import { X, Plus, Minus, ShoppingCart, CreditCard, Tag, Trash2, Receipt, Ticket } from 'lucide-react';
 
 interface CartSidebarProps {
   isOpen: boolean;
@@ -10,9 +12,14 @@ interface CartSidebarProps {
   onRemoveItem: (index: number) => void;
   subtotal: number;
   discount: number;
+  codeDiscount: number;
   total: number;
   loyaltyDiscount: LoyaltyDiscount | null;
+  discountCode: AppliedDiscountCode | null;
+  onApplyCode: (code: string) => Promise<void>;
+  onRemoveCode: () => void;
   onSubmitOrder: () => void;
+  onViewBill: () => void;
   loading: boolean;
 }
 
@@ -24,15 +31,41 @@ export function CartSidebar({
   onRemoveItem,
   subtotal,
   discount,
+  codeDiscount,
   total,
   loyaltyDiscount,
+  discountCode,
+  onApplyCode,
+  onRemoveCode,
   onSubmitOrder,
+  onViewBill,
   loading
 }: CartSidebarProps) {
   const formatPrice = (price: number) => {
     return `S$${price.toFixed(2)}`;
   };
 
+  const [codeInput, setCodeInput] = useState('');
+  const [applyingCode, setApplyingCode] = useState(false);
+  const [codeError, setCodeError] = useState<string | null>(null);
+
+  const handleApplyCode = async () => {
+    if (!codeInput.trim()) return;
+
+    setApplyingCode(true);
+    setCodeError(null);
+    try {
+      await onApplyCode(codeInput);
+      setCodeInput('');
+    } catch (err) {
+      setCodeError(err instanceof Error ? err.message : 'Failed to apply the code');
+    } finally {
+      setApplyingCode(false);
+    }
+  };
+
+  const loyaltyPercentage = Math.round((loyaltyDiscount?.discount_amount || 0) * 100);
+
   if (!isOpen) return null;
 
   return (
@@ -54,12 +87,19 @@ export function CartSidebar({
           </div>
 
           {/* Cart Items */}
-          <div className="flex-1 overflow-y-auto p-4 pb-32">
+          <div className="flex-1 overflow-y-auto p-4 pb-72">
             {cart.length === 0 ? (
               <div className="text-center py-8">
                 <ShoppingCart className="w-16 h-16 text-gray-300 mx-auto mb-4" />
                 <p className="text-gray-500">Your cart is empty</p>
                 <p className="text-sm text-gray-400">Add items from the menu to get started</p>
+                <button
+                  onClick={onViewBill}
+                  className="mt-6 inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  <Receipt className="w-4 h-4 mr-2" />
+                  View Bill & Pay
+                </button>
               </div>
             ) : (
               <div className="space-y-4">
@@ -75,7 +115,12 @@ export function CartSidebar({
                       )}
                       <div className="flex-1">
                         <div className="flex justify-between items-start mb-2">
-                          <h3 className="font-medium text-gray-800">{item.menu_item.name}</h3>
+                          <div>
+                            <h3 className="font-medium text-gray-800">{item.menu_item.name}</h3>
+                            {item.modifiers && item.modifiers.length > 0 && (
+                              <p className="text-sm text-gray-500">{formatModifiers(item.modifiers)}</p>
+                            )}
+                          </div>
                           <button
                             onClick={() => onRemoveItem(index)}
                             className="text-gray-400 hover:text-red-500 transition-colors"
@@ -102,7 +147,7 @@ export function CartSidebar({
                           </div>
                           
                           <span className="font-semibold text-orange-500">
-                            {formatPrice(item.menu_item.price_sgd * item.quantity)}
+                            {formatPrice(cartItemUnitPrice(item) * item.quantity)}
                           </span>
                         </div>
                         
@@ -130,11 +175,59 @@ export function CartSidebar({
                     <span className="font-medium">Loyalty Discount Applied!</span>
                   </div>
                   <p className="text-sm text-green-700">
-                    10% discount from User ID: {loyaltyDiscount.triggering_user_id}
+                    {loyaltyPercentage}% discount from User ID: {loyaltyDiscount.triggering_user_id}
                   </p>
                 </div>
               )}
 
+              {/* Discount Code */}
+              {discountCode ? (
+                <div className="flex items-start justify-between bg-orange-50 border border-orange-200 rounded-md p-3">
+                  <div>
+                    <div className="flex items-center text-orange-800">
+                      <Ticket className="w-4 h-4 mr-2" />
+                      <span className="font-medium">{discountCode.code}</span>
+                      <span className="ml-2 text-sm">{describeDiscountCode(discountCode)}</span>
+                    </div>
+                    {subtotal < discountCode.min_order_amount && (
+                      <p className="text-sm text-orange-700 mt-1">
+                        Add {formatPrice(discountCode.min_order_amount - subtotal)} more to use this code
+                      </p>
+                    )}
+                  </div>
+                  <button
+                    onClick={onRemoveCode}
+                    className="text-gray-400 hover:text-red-500 transition-colors"
+                    title="Remove code"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <div>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={codeInput}
+                      onChange={(e) => setCodeInput(e.target.value.toUpperCase())}
+                      onKeyDown={(e) => e.key === 'Enter' && handleApplyCode()}
+                      placeholder="Discount code"
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-orange-500"
+                    />
+                    <button
+                      onClick={handleApplyCode}
+                      disabled={applyingCode || !codeInput.trim()}
+                      className="px-4 py-2 border border-orange-500 text-orange-500 rounded-md hover:bg-orange-50 transition-colors disabled:opacity-50"
+                    >
+                      {applyingCode ? 'Checking...' : 'Apply'}
+                    </button>
+                  </div>
+                  {codeError && (
+                    <p className="text-sm text-red-600 mt-1">{codeError}</p>
+                  )}
+                </div>
+              )}
+
               {/* Price Breakdown */}
               <div className="space-y-2">
                 <div className="flex justify-between text-gray-600">
@@ -144,10 +237,17 @@ export function CartSidebar({
                 
                 {discount > 0 && (
                   <div className="flex justify-between text-green-500">
-                    <span>Loyalty Discount (10%)</span>
+                    <span>Loyalty Discount ({loyaltyPercentage}%)</span>
                     <span className="font-medium">-{formatPrice(discount)}</span>
                   </div>
                 )}
+
+                {codeDiscount > 0 && discountCode && (
+                  <div className="flex justify-between text-green-500">
+                    <span>Code {discountCode.code}</span>
+                    <span className="font-medium">-{formatPrice(codeDiscount)}</span>
+                  </div>
+                )}
                 
                 <div className="border-t pt-3 mt-3">
                   <div className="flex justify-between text-lg font-bold">
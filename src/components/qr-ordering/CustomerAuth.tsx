@@ -108,7 +108,7 @@ export function CustomerAuth({ onSuccess, onClose, restaurantId }: CustomerAuthP
               </li>
               <li className="flex items-center">
                 <Star className="w-3 h-3 mr-2" />
-                10% discount after spending S$100
+                A member discount once you've spent enough
               </li>
               <li className="flex items-center">
                 <Star className="w-3 h-3 mr-2" />
@@ -1,13 +1,20 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
-import { MenuCategory, MenuItem, CartItem, OrderSession, LoyaltyDiscount } from '../../types/database';
+import { flushNotifications } from '../../lib/notifications';
+import { getSessionPayment } from '../../lib/sessionPayments';
+import { cartItemUnitPrice, sameModifiers } from '../../lib/menuModifiers';
+import { getAvailableScheduleIds, getUnorderableMenuItems } from '../../lib/menuSchedules';
+import { placeOrder } from '../../lib/orders';
+import { checkDiscountCode, discountCodeAmount } from '../../lib/loyalty';
+import { MenuCategory, MenuItem, CartItem, OrderSession, LoyaltyDiscount, AppliedDiscountCode, SessionPaymentStatus, SelectedModifier } from '../../types/database';
 import { MenuDisplay } from './MenuDisplay';
 import { CartSidebar } from './CartSidebar';
 import { LoyaltyInput } from './LoyaltyInput';
 import { OrderConfirmation } from './OrderConfirmation';
 import { CustomerAuth } from './CustomerAuth';
-import { ShoppingCart, ArrowLeft, Users, Clock, MapPin, User, LogOut } from 'lucide-react';
+import { SessionBill } from './SessionBill';
+import { ShoppingCart, ArrowLeft, Users, Clock, MapPin, User, LogOut, Receipt, CheckCircle } from 'lucide-react';
 
 interface CustomerOrderingInterfaceProps {
   sessionToken?: string;
@@ -16,6 +23,9 @@ interface CustomerOrderingInterfaceProps {
 export function CustomerOrderingInterface({ sessionToken }: CustomerOrderingInterfaceProps) {
   const { token } = useParams<{ token: string }>();
   const activeToken = sessionToken || token;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const paymentReturn = searchParams.get('payment');
+  const paidShareId = searchParams.get('share');
 
   // Debug logging for production
   console.log('CustomerOrderingInterface loaded with token:', activeToken);
@@ -29,14 +39,20 @@ export function CustomerOrderingInterface({ sessionToken }: CustomerOrderingInte
   const [showCart, setShowCart] = useState(false);
   const [loyaltyUserIds, setLoyaltyUserIds] = useState<string[]>([]);
   const [loyaltyDiscount, setLoyaltyDiscount] = useState<LoyaltyDiscount | null>(null);
+  const [discountCode, setDiscountCode] = useState<AppliedDiscountCode | null>(null);
   const [orderConfirmed, setOrderConfirmed] = useState(false);
   const [showCustomerAuth, setShowCustomerAuth] = useState(false);
+  const [showBill, setShowBill] = useState(false);
+  const [sessionPayment, setSessionPayment] = useState<SessionPaymentStatus | null>(null);
   const [customerUser, setCustomerUser] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    if (activeToken) {
+    if (activeToken && paymentReturn === 'success') {
+      // The session closes once the bill is paid, so follow the payment instead
+      checkSessionPayment();
+    } else if (activeToken) {
       console.log('Fetching session and menu for token:', activeToken);
       fetchSessionAndMenu();
     } else {
@@ -44,7 +60,15 @@ export function CustomerOrderingInterface({ sessionToken }: CustomerOrderingInte
       setError('Invalid ordering session. Please scan the QR code again.');
       setLoading(false);
     }
-  }, [activeToken]);
+  }, [activeToken, paymentReturn]);
+
+  useEffect(() => {
+    // The webhook may land a moment after Stripe sends the diner back
+    if (paymentReturn !== 'success' || paymentSettled(sessionPayment?.status)) return;
+
+    const interval = setInterval(checkSessionPayment, 3000);
+    return () => clearInterval(interval);
+  }, [paymentReturn, sessionPayment?.status]);
 
   useEffect(() => {
     // Check if customer is already logged in
@@ -63,11 +87,13 @@ export function CustomerOrderingInterface({ sessionToken }: CustomerOrderingInte
       const { data: { session: authSession } } = await supabase.auth.getSession();
       if (authSession?.user) {
         setCustomerUser(authSession.user);
-        // Auto-add customer to loyalty if they have a profile
+        // Auto-add customer to loyalty if they have a profile; members of a
+        // restaurant group have one per outlet they've ordered at
         const { data: loyaltyProfile } = await supabase
           .from('loyalty_users')
           .select('user_id')
           .eq('user_id', authSession.user.id)
+          .limit(1)
           .maybeSingle();
         
         if (loyaltyProfile) {
@@ -116,21 +142,32 @@ export function CustomerOrderingInterface({ sessionToken }: CustomerOrderingInte
         .order('display_order', { ascending: true });
 
       if (categoriesError) throw categoriesError;
-      setCategories(categoriesData || []);
+
+      // Categories on a scheduled menu only show while that menu is being served
+      const availableScheduleIds = await getAvailableScheduleIds(sessionData.restaurant_id);
+      const availableCategories = (categoriesData || []).filter(category =>
+        !category.schedule_id || availableScheduleIds.has(category.schedule_id)
+      );
+      const availableCategoryIds = new Set(availableCategories.map(category => category.id));
+      setCategories(availableCategories);
 
       // Fetch menu items
       const { data: itemsData, error: itemsError } = await supabase
         .from('menu_items')
         .select(`
           *,
-          category:menu_categories(*)
+          category:menu_categories(*),
+          modifier_groups:menu_modifier_groups(
+            *,
+            options:menu_modifier_options(*)
+          )
         `)
         .eq('restaurant_id', sessionData.restaurant_id)
         .eq('is_available', true)
         .order('display_order', { ascending: true });
 
       if (itemsError) throw itemsError;
-      setMenuItems(itemsData || []);
+      setMenuItems((itemsData || []).filter(item => availableCategoryIds.has(item.category_id)));
 
       console.log('Menu data loaded successfully');
     } catch (err) {
@@ -141,6 +178,32 @@ export function CustomerOrderingInterface({ sessionToken }: CustomerOrderingInte
     }
   };
 
+  // Paid, or paid for a checkout that no longer covered the bill and is refunded
+  const paymentSettled = (status?: SessionPaymentStatus['status']) =>
+    status === 'paid' || status === 'refund_due' || status === 'refunded';
+
+  const checkSessionPayment = async () => {
+    if (!activeToken) return;
+
+    try {
+      const payment = await getSessionPayment(activeToken, paidShareId);
+      setSessionPayment(payment);
+      if (payment?.status === 'paid') {
+        // Paying frees the table, which may have been offered to a waiting guest
+        flushNotifications();
+      }
+    } catch (err) {
+      console.error('Error checking session payment:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const returnToMenu = () => {
+    setSearchParams({}, { replace: true });
+    setSessionPayment(null);
+  };
+
   const checkLoyaltyDiscount = async () => {
     if (!session || loyaltyUserIds.length === 0) return;
 
@@ -173,11 +236,12 @@ export function CustomerOrderingInterface({ sessionToken }: CustomerOrderingInte
     setLoyaltyUserIds([]);
     setLoyaltyDiscount(null);
   };
-  const addToCart = (menuItem: MenuItem, quantity: number = 1, specialInstructions?: string) => {
+  const addToCart = (menuItem: MenuItem, quantity: number = 1, specialInstructions?: string, modifiers?: SelectedModifier[]) => {
     setCart(prevCart => {
       const existingItem = prevCart.find(item => 
         item.menu_item.id === menuItem.id && 
-        item.special_instructions === specialInstructions
+        item.special_instructions === specialInstructions &&
+        sameModifiers(item.modifiers, modifiers)
       );
 
       if (existingItem) {
@@ -190,7 +254,8 @@ export function CustomerOrderingInterface({ sessionToken }: CustomerOrderingInte
         return [...prevCart, {
           menu_item: menuItem,
           quantity,
-          special_instructions: specialInstructions
+          special_instructions: specialInstructions,
+          modifiers
         }];
       }
     });
@@ -229,7 +294,7 @@ export function CustomerOrderingInterface({ sessionToken }: CustomerOrderingInte
 
   const calculateSubtotal = () => {
     return cart.reduce((total, item) => 
-      total + (item.menu_item.price_sgd * item.quantity), 0
+      total + (cartItemUnitPrice(item) * item.quantity), 0
     );
   };
 
@@ -238,74 +303,47 @@ export function CustomerOrderingInterface({ sessionToken }: CustomerOrderingInte
     return calculateSubtotal() * loyaltyDiscount.discount_amount;
   };
 
+  const calculateCodeDiscount = () => {
+    if (!discountCode) return 0;
+    return discountCodeAmount(discountCode, calculateSubtotal(), calculateDiscount());
+  };
+
   const calculateTotal = () => {
-    return calculateSubtotal() - calculateDiscount();
+    return calculateSubtotal() - calculateDiscount() - calculateCodeDiscount();
+  };
+
+  // Errors are the reason the code can't be used, for the cart to show
+  const applyDiscountCode = async (code: string) => {
+    if (!activeToken) return;
+    setDiscountCode(await checkDiscountCode(activeToken, code));
   };
 
   const submitOrder = async () => {
-    if (!session || cart.length === 0) return;
+    if (!session || !activeToken || cart.length === 0) return;
 
     try {
       setLoading(true);
 
-      // Generate order number
-      const { data: orderNumber } = await supabase.rpc('generate_order_number');
-
-      // Create order
-      const subtotal = calculateSubtotal();
-      const discount = calculateDiscount();
-      const total = calculateTotal();
-
-      const { data: orderData, error: orderError } = await supabase
-        .from('orders')
-        .insert({
-          restaurant_id: session.restaurant_id,
-          session_id: session.id,
-          order_number: orderNumber,
-          loyalty_user_ids: loyaltyUserIds.length > 0 ? loyaltyUserIds : null,
-          subtotal_sgd: subtotal,
-          discount_sgd: discount,
-          total_sgd: total,
-          discount_applied: loyaltyDiscount?.discount_eligible || false,
-          triggering_user_id: loyaltyDiscount?.triggering_user_id || null,
-          status: 'pending'
-        })
-        .select()
-        .single();
-
-      if (orderError) throw orderError;
-
-      // Create order items
-      const orderItems = cart.map(item => ({
-        order_id: orderData.id,
-        menu_item_id: item.menu_item.id,
-        quantity: item.quantity,
-        unit_price_sgd: item.menu_item.price_sgd,
-        total_price_sgd: item.menu_item.price_sgd * item.quantity,
-        special_instructions: item.special_instructions || null
-      }));
-
-      const { error: itemsError } = await supabase
-        .from('order_items')
-        .insert(orderItems);
-
-      if (itemsError) throw itemsError;
-
-      // Update loyalty user spending if discount was applied
-      if (loyaltyDiscount?.triggering_user_id) {
-        await supabase.rpc('update_loyalty_spending', {
-          p_restaurant_id: session.restaurant_id,
-          p_user_id: loyaltyDiscount.triggering_user_id,
-          p_amount: total
-        });
+      // The menu may have changed since the page was loaded, e.g. breakfast ended
+      const unorderable = await getUnorderableMenuItems([...new Set(cart.map(item => item.menu_item.id))]);
+      if (unorderable.length > 0) {
+        const unorderableIds = new Set(unorderable.map(item => item.menu_item_id));
+        setCart(prevCart => prevCart.filter(item => !unorderableIds.has(item.menu_item.id)));
+        alert(`${unorderable.map(item => item.name).join(', ')} ${unorderable.length === 1 ? 'is' : 'are'} no longer available and ${unorderable.length === 1 ? 'has' : 'have'} been removed from your cart. Please review your order.`);
+        await fetchSessionAndMenu();
+        return;
       }
 
+      await placeOrder(activeToken, cart, loyaltyUserIds, discountCode?.code ?? null);
+
       setOrderConfirmed(true);
       setCart([]);
+      setDiscountCode(null);
       setShowCart(false);
 
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to submit order');
+      // Keep the cart so the diner can adjust it and try again
+      alert(err instanceof Error ? err.message : 'Failed to submit order');
     } finally {
       setLoading(false);
     }
@@ -349,6 +387,73 @@ export function CustomerOrderingInterface({ sessionToken }: CustomerOrderingInte
     );
   }
 
+  if (paymentReturn === 'success') {
+    const paid = sessionPayment?.status === 'paid';
+    const refunded = sessionPayment?.status === 'refund_due' || sessionPayment?.status === 'refunded';
+
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-green-50 to-emerald-100 flex items-center justify-center p-4">
+        <div className="max-w-md w-full">
+          <div className="bg-white rounded-lg shadow-xl p-8 text-center">
+            {paid ? (
+              <>
+                <div className="w-20 h-20 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-6">
+                  <CheckCircle className="w-12 h-12 text-green-600" />
+                </div>
+                <h1 className="text-3xl font-bold text-gray-800 mb-4">
+                  Payment Received
+                </h1>
+                <p className="text-gray-600 mb-2">
+                  Thank you for dining with us! We received S${Number(sessionPayment.total_sgd).toFixed(2)}
+                  {sessionPayment.label && ` for ${sessionPayment.label}'s share`}
+                  {Number(sessionPayment.tip_sgd) > 0 && ` including a S$${Number(sessionPayment.tip_sgd).toFixed(2)} tip`}.
+                </p>
+                {sessionPayment.label && sessionPayment.session_active && (
+                  <p className="text-sm text-gray-500">
+                    The table stays open until everyone has paid their share.
+                  </p>
+                )}
+                {sessionPayment.session_active && (
+                  <button
+                    onClick={returnToMenu}
+                    className="w-full mt-6 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    Back to Menu
+                  </button>
+                )}
+              </>
+            ) : refunded ? (
+              <>
+                <h1 className="text-2xl font-bold text-gray-800 mb-4">
+                  Payment Refunded
+                </h1>
+                <p className="text-gray-600 mb-2">
+                  {sessionPayment.label
+                    ? 'The bill was split differently while you were paying, so this share is no longer part of it.'
+                    : 'Someone else paid or split the bill while you were paying.'}
+                  {' '}Your S${Number(sessionPayment.total_sgd).toFixed(2)} will be refunded to your card.
+                </p>
+                {sessionPayment.session_active && (
+                  <button
+                    onClick={returnToMenu}
+                    className="w-full mt-6 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    Back to Menu
+                  </button>
+                )}
+              </>
+            ) : (
+              <>
+                <div className="w-8 h-8 border-2 border-green-600 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+                <p className="text-gray-600">Confirming your payment...</p>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (orderConfirmed) {
     return <OrderConfirmation onContinue={() => setOrderConfirmed(false)} />;
   }
@@ -410,6 +515,15 @@ export function CustomerOrderingInterface({ sessionToken }: CustomerOrderingInte
                 </button>
               )}
 
+              {/* Bill Button */}
+              <button
+                onClick={() => setShowBill(true)}
+                className="p-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                title="View bill and pay"
+              >
+                <Receipt className="w-5 h-5" />
+              </button>
+
               {/* Cart Button */}
               <button
                 onClick={() => setShowCart(true)}
@@ -458,11 +572,27 @@ export function CustomerOrderingInterface({ sessionToken }: CustomerOrderingInte
         onRemoveItem={removeFromCart}
         subtotal={calculateSubtotal()}
         discount={calculateDiscount()}
+        codeDiscount={calculateCodeDiscount()}
         total={calculateTotal()}
         loyaltyDiscount={loyaltyDiscount}
+        discountCode={discountCode}
+        onApplyCode={applyDiscountCode}
+        onRemoveCode={() => setDiscountCode(null)}
         onSubmitOrder={submitOrder}
+        onViewBill={() => {
+          setShowCart(false);
+          setShowBill(true);
+        }}
         loading={loading}
       />
+      {/* Bill */}
+      {session && (
+        <SessionBill
+          isOpen={showBill}
+          onClose={() => setShowBill(false)}
+          session={session}
+        />
+      )}
       {/* Customer Auth Modal */}
       {showCustomerAuth && (
         <CustomerAuth
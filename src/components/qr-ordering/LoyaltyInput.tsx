@@ -12,6 +12,7 @@ interface LoyaltyInputProps {
 export function LoyaltyInput({ loyaltyUserIds, onLoyaltyUserIdsChange, loyaltyDiscount, customerUser }: LoyaltyInputProps) {
   const [newUserId, setNewUserId] = useState('');
   const [showInput, setShowInput] = useState(false);
+  const discountPercentage = Math.round((loyaltyDiscount?.discount_amount || 0) * 100);
 
   const addUserId = () => {
     if (newUserId.trim() && !loyaltyUserIds.includes(newUserId.trim())) {
@@ -42,7 +43,7 @@ export function LoyaltyInput({ loyaltyUserIds, onLoyaltyUserIdsChange, loyaltyDi
         {loyaltyDiscount?.discount_eligible && (
           <div className="flex items-center text-green-600">
             <CheckCircle className="w-4 h-4 mr-1" />
-            <span className="text-sm font-medium">10% Discount Applied!</span>
+            <span className="text-sm font-medium">{discountPercentage}% Discount Applied!</span>
           </div>
         )}
       </div>
@@ -61,7 +62,7 @@ export function LoyaltyInput({ loyaltyUserIds, onLoyaltyUserIdsChange, loyaltyDi
       <p className="text-sm text-gray-600 mb-4">
         {customerUser 
           ? "Add additional loyalty member IDs to share rewards with friends or family."
-          : "Enter User IDs to check for loyalty discounts. If any member has spent S$100+, a 10% discount will be applied to your entire order."
+          : "Enter User IDs to check for loyalty discounts. If any member has spent enough to qualify, their discount will be applied to your entire order."
         }
       </p>
 
@@ -152,8 +153,8 @@ export function LoyaltyInput({ loyaltyUserIds, onLoyaltyUserIdsChange, loyaltyDi
               </div>
               <p className="text-sm">
                 {loyaltyDiscount.triggering_user_id === customerUser?.id 
-                  ? "You qualify for a 10% discount!" 
-                  : `User ID "${loyaltyDiscount.triggering_user_id}" qualifies for a 10% discount.`
+                  ? `You qualify for a ${discountPercentage}% discount!`
+                  : `User ID "${loyaltyDiscount.triggering_user_id}" qualifies for a ${discountPercentage}% discount.`
                 }
               </p>
             </div>
@@ -1,12 +1,13 @@
 import React, { useState } from 'react';
-import { MenuCategory, MenuItem } from '../../types/database';
+import { CartItem, MenuCategory, MenuItem, MenuModifierGroup, MenuModifierOption, SelectedModifier } from '../../types/database';
+import { describeSelectionRule, findIncompleteGroup, modifierTotal } from '../../lib/menuModifiers';
 import { Plus, Minus, Info, Leaf, AlertTriangle, ShoppingCart } from 'lucide-react';
 
 interface MenuDisplayProps {
   categories: MenuCategory[];
   menuItems: MenuItem[];
   cart: CartItem[];
-  onAddToCart: (item: MenuItem, quantity: number, specialInstructions?: string) => void;
+  onAddToCart: (item: MenuItem, quantity: number, specialInstructions?: string, modifiers?: SelectedModifier[]) => void;
   onUpdateCartItem: (itemId: string, quantity: number) => void;
   onRemoveCartItem: (itemId: string) => void;
 }
@@ -18,6 +19,8 @@ export function MenuDisplay({ categories, menuItems, cart, onAddToCart, onUpdate
   const [selectedItem, setSelectedItem] = useState<MenuItem | null>(null);
   const [quantity, setQuantity] = useState(1);
   const [specialInstructions, setSpecialInstructions] = useState('');
+  const [selectedModifiers, setSelectedModifiers] = useState<SelectedModifier[]>([]);
+  const [modifierError, setModifierError] = useState<string | null>(null);
 
   const getItemsByCategory = (categoryId: string) => {
     return menuItems.filter(item => item.category_id === categoryId);
@@ -27,12 +30,71 @@ export function MenuDisplay({ categories, menuItems, cart, onAddToCart, onUpdate
     return `S$${price.toFixed(2)}`;
   };
 
+  const hasOptions = (item: MenuItem) => (item.modifier_groups?.length ?? 0) > 0;
+
+  const sortedGroups = (item: MenuItem) => {
+    return [...(item.modifier_groups || [])].sort((a, b) => a.display_order - b.display_order);
+  };
+
+  const sortedOptions = (group: MenuModifierGroup) => {
+    return [...(group.options || [])].sort((a, b) => a.display_order - b.display_order);
+  };
+
+  const openItem = (item: MenuItem) => {
+    setSelectedItem(item);
+    setQuantity(1);
+    setSpecialInstructions('');
+    setSelectedModifiers([]);
+    setModifierError(null);
+  };
+
+  const toggleModifier = (group: MenuModifierGroup, option: MenuModifierOption) => {
+    setModifierError(null);
+    setSelectedModifiers(prev => {
+      if (prev.some(modifier => modifier.option_id === option.id)) {
+        return prev.filter(modifier => modifier.option_id !== option.id);
+      }
+
+      const modifier: SelectedModifier = {
+        group_id: group.id,
+        group_name: group.name,
+        option_id: option.id,
+        name: option.name,
+        price_delta_sgd: Number(option.price_delta_sgd)
+      };
+
+      // Single-choice groups swap the previous pick
+      if (group.max_selections === 1) {
+        return [...prev.filter(selected => selected.group_id !== group.id), modifier];
+      }
+
+      const groupCount = prev.filter(selected => selected.group_id === group.id).length;
+      if (group.max_selections !== null && groupCount >= group.max_selections) {
+        return prev;
+      }
+
+      return [...prev, modifier];
+    });
+  };
+
   const handleAddToCart = () => {
     if (selectedItem) {
-      onAddToCart(selectedItem, quantity, specialInstructions || undefined);
+      const incompleteGroup = findIncompleteGroup(selectedItem.modifier_groups || [], selectedModifiers);
+      if (incompleteGroup) {
+        setModifierError(`${incompleteGroup.name}: ${describeSelectionRule(incompleteGroup)}`);
+        return;
+      }
+
+      onAddToCart(
+        selectedItem,
+        quantity,
+        specialInstructions || undefined,
+        selectedModifiers.length > 0 ? selectedModifiers : undefined
+      );
       setSelectedItem(null);
       setQuantity(1);
       setSpecialInstructions('');
+      setSelectedModifiers([]);
     }
   };
 
@@ -169,7 +231,20 @@ export function MenuDisplay({ categories, menuItems, cart, onAddToCart, onUpdate
                       {getDietaryBadges(item)}
                     </div>
                     
-                    {getItemQuantityInCart(item.id) > 0 ? (
+                    {hasOptions(item) ? (
+                      <div className="flex justify-between items-center mt-3">
+                        <span className="text-sm text-gray-600">
+                          {getItemQuantityInCart(item.id) > 0 ? `${getItemQuantityInCart(item.id)} in cart` : 'Options available'}
+                        </span>
+                        <button
+                          onClick={() => openItem(item)}
+                          className="flex items-center px-4 py-2 bg-orange-500 text-white rounded-md hover:bg-orange-600 transition-colors"
+                        >
+                          <ShoppingCart className="w-4 h-4 mr-2" />
+                          {getItemQuantityInCart(item.id) > 0 ? 'Add Another' : 'Choose Options'}
+                        </button>
+                      </div>
+                    ) : getItemQuantityInCart(item.id) > 0 ? (
                       <div className="flex items-center justify-between mt-3 p-2 bg-gray-50 rounded-lg border border-gray-200">
                         <span className="text-sm font-medium text-gray-700">In cart</span>
                         <div className="flex items-center">
@@ -197,7 +272,7 @@ export function MenuDisplay({ categories, menuItems, cart, onAddToCart, onUpdate
                     ) : (
                       <div className="flex justify-between items-center mt-3">
                         <button
-                          onClick={() => setSelectedItem(item)}
+                          onClick={() => openItem(item)}
                           className="text-blue-600 hover:text-blue-800 text-sm flex items-center transition-colors"
                         >
                           <Info className="w-4 h-4 mr-1" />
@@ -258,6 +333,57 @@ export function MenuDisplay({ categories, menuItems, cart, onAddToCart, onUpdate
                 )}
               </div>
               
+              {/* Modifier groups */}
+              {sortedGroups(selectedItem).map(group => (
+                <div key={group.id} className="mb-4">
+                  <div className="flex justify-between items-baseline mb-2">
+                    <label className="block text-sm font-medium text-gray-700">{group.name}</label>
+                    <span className={`text-xs ${group.min_selections > 0 ? 'text-orange-600' : 'text-gray-500'}`}>
+                      {describeSelectionRule(group)}
+                    </span>
+                  </div>
+                  <div className="space-y-2">
+                    {sortedOptions(group).map(option => {
+                      const checked = selectedModifiers.some(modifier => modifier.option_id === option.id);
+                      return (
+                        <label
+                          key={option.id}
+                          className={`flex items-center justify-between p-2 rounded border ${
+                            !option.is_available
+                              ? 'border-gray-200 text-gray-400'
+                              : checked
+                                ? 'border-orange-400 bg-orange-50 cursor-pointer'
+                                : 'border-gray-200 cursor-pointer hover:bg-gray-50'
+                          }`}
+                        >
+                          <span className="flex items-center">
+                            <input
+                              type={group.max_selections === 1 ? 'radio' : 'checkbox'}
+                              name={`modifier-${group.id}`}
+                              checked={checked}
+                              disabled={!option.is_available}
+                              onChange={() => toggleModifier(group, option)}
+                              className="mr-2"
+                            />
+                            {option.name}
+                            {!option.is_available && <span className="ml-2 text-xs">(Unavailable)</span>}
+                          </span>
+                          {Number(option.price_delta_sgd) !== 0 && (
+                            <span className="text-sm text-gray-600">
+                              {Number(option.price_delta_sgd) > 0 ? '+' : '-'}{formatPrice(Math.abs(Number(option.price_delta_sgd)))}
+                            </span>
+                          )}
+                        </label>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+
+              {modifierError && (
+                <p className="text-sm text-red-600 mb-4">{modifierError}</p>
+              )}
+
               {/* Quantity selector */}
               <div className="mb-4">
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -312,7 +438,7 @@ export function MenuDisplay({ categories, menuItems, cart, onAddToCart, onUpdate
                   className="flex-1 px-4 py-3 bg-orange-500 text-white rounded-md hover:bg-orange-600 transition-colors flex items-center justify-center"
                 >
                   <ShoppingCart className="w-5 h-5 mr-2" />
-                  Add to Cart - {formatPrice(selectedItem.price_sgd * quantity)}
+                  Add to Cart - {formatPrice((selectedItem.price_sgd + modifierTotal(selectedModifiers)) * quantity)}
                 </button>
               </div>
             </div>
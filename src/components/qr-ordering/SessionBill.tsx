@@ -0,0 +1,347 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../../lib/supabase';
+import { formatModifiers } from '../../lib/menuModifiers';
+import { cancelBillSplit, getBillSplit, startSessionPayment, tipPercentages } from '../../lib/sessionPayments';
+import { BillSplitShare, OrderSession, OrderWithDetails } from '../../types/database';
+import { BillSplitter } from './BillSplitter';
+import { X, Receipt, CreditCard, CheckCircle, Users } from 'lucide-react';
+
+interface SessionBillProps {
+  isOpen: boolean;
+  onClose: () => void;
+  session: OrderSession;
+}
+
+export function SessionBill({ isOpen, onClose, session }: SessionBillProps) {
+  const [orders, setOrders] = useState<OrderWithDetails[]>([]);
+  const [shares, setShares] = useState<BillSplitShare[]>([]);
+  const [selectedShareId, setSelectedShareId] = useState<string | null>(null);
+  const [showSplitter, setShowSplitter] = useState(false);
+  const [tipPercentage, setTipPercentage] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [paying, setPaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchOrders();
+    }
+  }, [isOpen, session.id]);
+
+  const fetchOrders = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('orders')
+        .select(`
+          *,
+          items:order_items(
+            *,
+            menu_item:menu_items(*)
+          )
+        `)
+        .eq('session_id', session.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setOrders(data || []);
+
+      const splitShares = await getBillSplit(session.session_token);
+      setShares(splitShares);
+      setSelectedShareId(current => splitShares.some(share => share.share_id === current && share.status === 'pending')
+        ? current
+        : splitShares.find(share => share.status === 'pending')?.share_id ?? null);
+    } catch (err) {
+      console.error('Error fetching bill:', err);
+      setError('Could not load your bill. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatPrice = (price: number) => {
+    return `S$${price.toFixed(2)}`;
+  };
+
+  const unpaidOrders = orders.filter(order => order.status !== 'paid');
+  const subtotal = unpaidOrders.reduce((sum, order) => sum + Number(order.subtotal_sgd), 0);
+  const discount = unpaidOrders.reduce((sum, order) => sum + Number(order.discount_sgd), 0);
+  const amountDue = unpaidOrders.reduce((sum, order) => sum + Number(order.total_sgd), 0);
+
+  // With a split open each diner pays their own share
+  const selectedShare = shares.find(share => share.share_id === selectedShareId) ?? null;
+  const payingAmount = shares.length > 0 ? Number(selectedShare?.amount_sgd ?? 0) : amountDue;
+  const tip = Math.round(payingAmount * tipPercentage) / 100;
+  const sharesPaid = shares.filter(share => share.status === 'paid');
+  const itemNames = new Map(orders.flatMap(order => order.items.map(item => [item.id, `${item.quantity}x ${item.menu_item.name}`])));
+
+  const handlePay = async () => {
+    try {
+      setPaying(true);
+      setError(null);
+      await startSessionPayment(session.session_token, tip, selectedShare?.share_id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start payment');
+      setPaying(false);
+    }
+  };
+
+  const handleCancelSplit = async () => {
+    if (!confirm('Cancel the split and pay the bill together?')) return;
+
+    try {
+      setError(null);
+      await cancelBillSplit(session.session_token);
+      await fetchOrders();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel the split');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50">
+      <div className="fixed right-0 top-0 h-full w-full max-w-md bg-white shadow-xl">
+        <div className="flex flex-col h-full overflow-hidden">
+          {/* Header */}
+          <div className="flex items-center justify-between p-4 border-b sticky top-0 bg-white z-10">
+            <h2 className="text-lg font-semibold text-gray-800 flex items-center">
+              <Receipt className="w-5 h-5 mr-2" />
+              Bill{session.table && ` - Table ${session.table.table_number}`}
+            </h2>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* Orders */}
+          <div className="flex-1 overflow-y-auto p-4 pb-96">
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <div className="w-8 h-8 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+              </div>
+            ) : orders.length === 0 ? (
+              <div className="text-center py-8">
+                <Receipt className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                <p className="text-gray-500">No orders yet</p>
+                <p className="text-sm text-gray-400">Orders you place at this table will appear here</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {orders.map(order => (
+                  <div key={order.id} className="bg-white rounded-lg p-4 border border-gray-200 shadow-sm">
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="font-medium text-gray-800">Order #{order.order_number}</span>
+                      {order.status === 'paid' && (
+                        <span className="flex items-center text-xs text-green-700 bg-green-100 px-2 py-1 rounded-full">
+                          <CheckCircle className="w-3 h-3 mr-1" />
+                          Paid
+                        </span>
+                      )}
+                    </div>
+                    <div className="space-y-1">
+                      {order.items.map(item => (
+                        <div key={item.id} className="flex justify-between text-sm text-gray-600">
+                          <span>
+                            {item.quantity}x {item.menu_item.name}
+                            {item.modifiers?.length > 0 && (
+                              <span className="block text-xs text-gray-400">{formatModifiers(item.modifiers)}</span>
+                            )}
+                          </span>
+                          <span>{formatPrice(Number(item.total_price_sgd))}</span>
+                        </div>
+                      ))}
+                    </div>
+                    {Number(order.discount_sgd) > 0 && (
+                      <div className="flex justify-between text-sm text-green-600 mt-1">
+                        <span>Loyalty Discount</span>
+                        <span>-{formatPrice(Number(order.discount_sgd))}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between text-sm font-medium text-gray-800 border-t mt-2 pt-2">
+                      <span>Order Total</span>
+                      <span>{formatPrice(Number(order.total_sgd))}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Payment Summary */}
+          {!loading && orders.length > 0 && (
+            <div className="border-t p-4 space-y-4 absolute bottom-0 left-0 right-0 bg-white shadow-md">
+              {unpaidOrders.length === 0 ? (
+                <div className="text-center text-green-700 py-2">
+                  <CheckCircle className="w-8 h-8 mx-auto mb-2" />
+                  <p className="font-medium">Everything has been paid. Thank you!</p>
+                </div>
+              ) : (
+                <>
+                  {shares.length > 0 && (
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <p className="text-sm font-medium text-gray-700">
+                          Split {sharesPaid.length} of {shares.length} paid
+                        </p>
+                        {sharesPaid.length === 0 && (
+                          <button
+                            onClick={handleCancelSplit}
+                            className="text-xs text-gray-500 hover:text-red-600 underline"
+                          >
+                            Cancel split
+                          </button>
+                        )}
+                      </div>
+                      <div className="space-y-1 max-h-40 overflow-y-auto">
+                        {shares.map(share => (
+                          <label
+                            key={share.share_id}
+                            className={`flex items-start justify-between p-2 rounded border text-sm ${
+                              share.status === 'paid'
+                                ? 'bg-green-50 border-green-200 text-green-800'
+                                : selectedShareId === share.share_id
+                                  ? 'border-orange-400 bg-orange-50'
+                                  : 'border-gray-200 cursor-pointer'
+                            }`}
+                          >
+                            <span className="flex items-start">
+                              <input
+                                type="radio"
+                                name="bill-share"
+                                checked={selectedShareId === share.share_id}
+                                disabled={share.status === 'paid'}
+                                onChange={() => setSelectedShareId(share.share_id)}
+                                className="mt-1 mr-2"
+                              />
+                              <span>
+                                <span className="font-medium">{share.label}</span>
+                                {share.item_ids && (
+                                  <span className="block text-xs text-gray-500">
+                                    {share.item_ids.map(id => itemNames.get(id)).filter(Boolean).join(', ')}
+                                  </span>
+                                )}
+                              </span>
+                            </span>
+                            <span className="font-medium whitespace-nowrap">
+                              {share.status === 'paid' ? 'Paid' : formatPrice(Number(share.amount_sgd))}
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <div>
+                    <p className="text-sm font-medium text-gray-700 mb-2">Add a tip</p>
+                    <div className="grid grid-cols-4 gap-2">
+                      {tipPercentages.map(percentage => (
+                        <button
+                          key={percentage}
+                          onClick={() => setTipPercentage(percentage)}
+                          className={`py-2 text-sm rounded-md border transition-colors ${
+                            tipPercentage === percentage
+                              ? 'bg-orange-500 text-white border-orange-500'
+                              : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                          }`}
+                        >
+                          {percentage === 0 ? 'No tip' : `${percentage}%`}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    {shares.length > 0 ? (
+                      <div className="flex justify-between text-gray-600">
+                        <span>{selectedShare ? `${selectedShare.label}'s share` : 'Choose your share'}</span>
+                        <span className="font-medium">{formatPrice(payingAmount)}</span>
+                      </div>
+                    ) : (
+                      <div className="flex justify-between text-gray-600">
+                        <span>Subtotal</span>
+                        <span className="font-medium">{formatPrice(subtotal)}</span>
+                      </div>
+                    )}
+                    {shares.length === 0 && discount > 0 && (
+                      <div className="flex justify-between text-green-500">
+                        <span>Loyalty Discount</span>
+                        <span className="font-medium">-{formatPrice(discount)}</span>
+                      </div>
+                    )}
+                    {tip > 0 && (
+                      <div className="flex justify-between text-gray-600">
+                        <span>Tip ({tipPercentage}%)</span>
+                        <span className="font-medium">{formatPrice(tip)}</span>
+                      </div>
+                    )}
+                    <div className="border-t pt-3 mt-3">
+                      <div className="flex justify-between text-lg font-bold">
+                        <span>Total</span>
+                        <span className="text-orange-500">{formatPrice(payingAmount + tip)}</span>
+                      </div>
+                    </div>
+                  </div>
+
+                  {error && (
+                    <p className="text-sm text-red-600">{error}</p>
+                  )}
+
+                  <button
+                    onClick={handlePay}
+                    disabled={paying || (shares.length > 0 && !selectedShare)}
+                    className="w-full flex items-center justify-center px-4 py-3 bg-orange-500 text-white rounded-md hover:bg-orange-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {paying ? (
+                      <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+                    ) : (
+                      <CreditCard className="w-5 h-5 mr-2" />
+                    )}
+                    {paying ? 'Redirecting...' : `Pay ${formatPrice(payingAmount + tip)}`}
+                  </button>
+
+                  {shares.length === 0 && (
+                    <button
+                      onClick={() => setShowSplitter(true)}
+                      className="w-full flex items-center justify-center px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+                    >
+                      <Users className="w-4 h-4 mr-2" />
+                      Split the Bill
+                    </button>
+                  )}
+
+                  <p className="text-xs text-gray-500 text-center">
+                    Your table will be closed once the {shares.length > 0 ? 'last share' : 'bill'} is paid
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+
+          {error && orders.length === 0 && !loading && (
+            <p className="p-4 text-sm text-red-600">{error}</p>
+          )}
+        </div>
+      </div>
+
+      {showSplitter && (
+        <BillSplitter
+          sessionToken={session.session_token}
+          orders={unpaidOrders}
+          amountDue={amountDue}
+          onCreated={() => {
+            setShowSplitter(false);
+            fetchOrders();
+          }}
+          onClose={() => setShowSplitter(false)}
+        />
+      )}
+    </div>
+  );
+}
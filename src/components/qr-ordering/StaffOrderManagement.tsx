@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
+import { formatModifiers } from '../../lib/menuModifiers';
+import { flushPrintJobs, printOrderReceipt } from '../../lib/printing';
 import { OrderWithDetails, Restaurant } from '../../types/database';
 import { format } from 'date-fns';
 import { 
@@ -13,7 +15,8 @@ import {
   MapPin,
   Tag,
   RefreshCw,
-  AlertCircle
+  AlertCircle,
+  Printer
 } from 'lucide-react';
 
 interface StaffOrderManagementProps {
@@ -26,6 +29,7 @@ export function StaffOrderManagement({ restaurant }: StaffOrderManagementProps)
   const [refreshing, setRefreshing] = useState(false);
   const [selectedOrder, setSelectedOrder] = useState<OrderWithDetails | null>(null);
   const [processingOrder, setProcessingOrder] = useState<string | null>(null);
+  const [printingReceipt, setPrintingReceipt] = useState(false);
 
   useEffect(() => {
     fetchOrders();
@@ -51,7 +55,7 @@ export function StaffOrderManagement({ restaurant }: StaffOrderManagementProps)
           )
         `)
         .eq('restaurant_id', restaurant.id)
-        .in('status', ['pending', 'confirmed'])
+        .in('status', ['pending', 'confirmed', 'preparing', 'ready', 'served'])
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -133,6 +137,12 @@ export function StaffOrderManagement({ restaurant }: StaffOrderManagementProps)
         return 'bg-orange-100 text-orange-800 border-orange-300';
       case 'confirmed':
         return 'bg-green-100 text-green-800 border-green-300';
+      case 'preparing':
+        return 'bg-yellow-100 text-yellow-800 border-yellow-300';
+      case 'ready':
+        return 'bg-blue-100 text-blue-800 border-blue-300';
+      case 'served':
+        return 'bg-purple-100 text-purple-800 border-purple-300';
       case 'paid':
         return 'bg-gray-100 text-gray-800 border-gray-300';
       default:
@@ -146,6 +156,11 @@ export function StaffOrderManagement({ restaurant }: StaffOrderManagementProps)
         return <AlertCircle className="w-4 h-4" />;
       case 'confirmed':
         return <CheckCircle className="w-4 h-4" />;
+      case 'preparing':
+        return <ChefHat className="w-4 h-4" />;
+      case 'ready':
+      case 'served':
+        return <Utensils className="w-4 h-4" />;
       case 'paid':
         return <CreditCard className="w-4 h-4" />;
       default:
@@ -157,7 +172,11 @@ export function StaffOrderManagement({ restaurant }: StaffOrderManagementProps)
     switch (currentStatus) {
       case 'pending':
         return 'confirmed';
+      case 'ready':
+        return 'served';
       case 'confirmed':
+      case 'preparing':
+      case 'served':
         return 'paid';
       default:
         return null;
@@ -168,13 +187,41 @@ export function StaffOrderManagement({ restaurant }: StaffOrderManagementProps)
     switch (currentStatus) {
       case 'pending':
         return 'Confirm Order';
+      case 'ready':
+        return 'Mark Served';
       case 'confirmed':
+      case 'preparing':
+      case 'served':
         return 'Mark Paid';
       default:
         return null;
     }
   };
 
+  const printReceipt = async (order: OrderWithDetails) => {
+    setPrintingReceipt(true);
+    try {
+      await printOrderReceipt(order.id);
+      await flushPrintJobs(restaurant.id);
+
+      const notification = document.createElement('div');
+      notification.className = 'fixed top-4 right-4 bg-green-500 text-white px-4 py-2 rounded-lg shadow-lg z-50';
+      notification.textContent = `Receipt for order #${order.order_number} sent to printer`;
+      document.body.appendChild(notification);
+
+      setTimeout(() => {
+        if (document.body.contains(notification)) {
+          document.body.removeChild(notification);
+        }
+      }, 3000);
+    } catch (err) {
+      console.error('Error printing receipt:', err);
+      alert(err instanceof Error ? err.message : 'Failed to print receipt');
+    } finally {
+      setPrintingReceipt(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="bg-white rounded-lg shadow-md p-6">
@@ -268,7 +315,12 @@ export function StaffOrderManagement({ restaurant }: StaffOrderManagementProps)
                         <span className="bg-blue-100 text-blue-800 text-xs font-bold px-2 py-1 rounded-full mr-3">
                           {item.quantity}
                         </span>
-                        <span className="font-medium text-gray-800">{item.menu_item?.name}</span>
+                        <div>
+                          <span className="font-medium text-gray-800">{item.menu_item?.name}</span>
+                          {item.modifiers?.length > 0 && (
+                            <p className="text-xs text-gray-500">{formatModifiers(item.modifiers)}</p>
+                          )}
+                        </div>
                       </div>
                       <span className="font-semibold text-green-600">{formatPrice(item.total_price_sgd)}</span>
                     </div>
@@ -286,7 +338,13 @@ export function StaffOrderManagement({ restaurant }: StaffOrderManagementProps)
                 {order.discount_applied && (
                   <div className="flex items-center text-sm text-green-600 mb-4 bg-green-50 p-3 rounded-lg">
                     <Tag className="w-3 h-3 mr-1" />
-                    <span className="font-medium">10% Loyalty Discount Applied</span>
+                    <span className="font-medium">Loyalty Discount Applied</span>
+                  </div>
+                )}
+                {order.discount_code && (
+                  <div className="flex items-center text-sm text-green-600 mb-4 bg-green-50 p-3 rounded-lg">
+                    <Tag className="w-3 h-3 mr-1" />
+                    <span className="font-medium">Code {order.discount_code} Applied</span>
                   </div>
                 )}
                 
@@ -369,6 +427,16 @@ export function StaffOrderManagement({ restaurant }: StaffOrderManagementProps)
                           <span className="font-bold text-lg text-gray-800">{item.menu_item?.name}</span>
                           <span className="font-bold text-xl text-green-600">{formatPrice(item.total_price_sgd)}</span>
                         </div>
+                        {item.modifiers?.length > 0 && (
+                          <ul className="text-sm text-gray-700 mb-2 space-y-1">
+                            {item.modifiers.map((modifier) => (
+                              <li key={modifier.option_id}>
+                                <span className="text-gray-500">{modifier.group_name}:</span> {modifier.name}
+                                {Number(modifier.price_delta_sgd) !== 0 && ` (+${formatPrice(Number(modifier.price_delta_sgd))})`}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
                         <div className="text-sm text-gray-600 mb-2">
                           <span className="bg-blue-100 text-blue-800 px-2 py-1 rounded-full font-medium">
                             {item.quantity} × {formatPrice(item.unit_price_sgd)}
@@ -394,7 +462,7 @@ export function StaffOrderManagement({ restaurant }: StaffOrderManagementProps)
                   </div>
                   <div className="text-green-700">
                     <p>Triggering User ID: {selectedOrder.triggering_user_id}</p>
-                    <p>Discount Amount: {formatPrice(selectedOrder.discount_sgd)}</p>
+                    <p>Discount Amount: {formatPrice(selectedOrder.discount_sgd - selectedOrder.code_discount_sgd)}</p>
                   </div>
                 </div>
               )}
@@ -406,10 +474,16 @@ export function StaffOrderManagement({ restaurant }: StaffOrderManagementProps)
                     <span className="text-lg font-medium">Subtotal</span>
                     <span className="text-lg font-semibold">{formatPrice(selectedOrder.subtotal_sgd)}</span>
                   </div>
-                  {selectedOrder.discount_sgd > 0 && (
+                  {selectedOrder.discount_sgd - selectedOrder.code_discount_sgd > 0 && (
                     <div className="flex justify-between text-green-600">
                       <span className="text-lg font-medium">Loyalty Discount</span>
-                      <span className="text-lg font-semibold">-{formatPrice(selectedOrder.discount_sgd)}</span>
+                      <span className="text-lg font-semibold">-{formatPrice(selectedOrder.discount_sgd - selectedOrder.code_discount_sgd)}</span>
+                    </div>
+                  )}
+                  {selectedOrder.code_discount_sgd > 0 && (
+                    <div className="flex justify-between text-green-600">
+                      <span className="text-lg font-medium">Code {selectedOrder.discount_code}</span>
+                      <span className="text-lg font-semibold">-{formatPrice(selectedOrder.code_discount_sgd)}</span>
                     </div>
                   )}
                   <div className="flex justify-between text-2xl font-bold border-t-2 border-gray-300 pt-3">
@@ -427,6 +501,15 @@ export function StaffOrderManagement({ restaurant }: StaffOrderManagementProps)
                 >
                   Close
                 </button>
+
+                <button
+                  onClick={() => printReceipt(selectedOrder)}
+                  disabled={printingReceipt}
+                  className="flex items-center justify-center px-6 py-4 border-2 border-gray-300 rounded-xl text-gray-700 font-semibold hover:bg-gray-50 hover:border-gray-400 transition-all duration-200 disabled:opacity-50"
+                >
+                  <Printer className="w-5 h-5 mr-2" />
+                  {printingReceipt ? 'Printing...' : 'Print Receipt'}
+                </button>
                 
                 {getNextStatus(selectedOrder.status) && (
                   <button
@@ -1,13 +1,24 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { Restaurant, RestaurantTable, BookingWithDetails, RestaurantOperatingHours, WaitingListWithDetails } from '../types/database';
+import { Restaurant, RestaurantTable, BookingWithDetails, StaffRole, RestaurantOperatingHours, RestaurantServicePeriod, RestaurantSpecialDate, WaitingListWithDetails } from '../types/database';
+import { createBooking, findTableAssignment } from '../lib/tableAssignment';
+import { flushNotifications } from '../lib/notifications';
+import { settleBookingPayments } from '../lib/bookingPayments';
+import { fetchStaffRole, getStaffRestaurantId } from '../lib/staff';
+import { fetchMyRestaurants, pickRestaurant } from '../lib/restaurantGroups';
 
 export function useRestaurantData(restaurantSlug?: string) {
   const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
+  // Every outlet the signed-in user can switch to; empty on public pages
+  const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
   const [tables, setTables] = useState<RestaurantTable[]>([]);
   const [bookings, setBookings] = useState<BookingWithDetails[]>([]);
   const [waitingList, setWaitingList] = useState<WaitingListWithDetails[]>([]);
   const [operatingHours, setOperatingHours] = useState<RestaurantOperatingHours[]>([]);
+  const [servicePeriods, setServicePeriods] = useState<RestaurantServicePeriod[]>([]);
+  const [specialDates, setSpecialDates] = useState<RestaurantSpecialDate[]>([]);
+  // The signed-in user's role at the restaurant; null on public pages
+  const [staffRole, setStaffRole] = useState<StaffRole | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -23,15 +34,24 @@ export function useRestaurantData(restaurantSlug?: string) {
       
       // Fetch restaurant
       let restaurantQuery = supabase.from('restaurants').select('*');
+      let staffUserId: string | null = null;
       
       if (slug) {
         // Public booking page - fetch by slug
         restaurantQuery = restaurantQuery.eq('slug', slug);
       } else {
-        // Staff dashboard - fetch user's restaurant
+        // Staff dashboard - fetch the outlet picked in the switcher, from
+        // those the user owns or works at
         const { data: { user } } = await supabase.auth.getUser();
         if (user) {
-          restaurantQuery = restaurantQuery.eq('owner_id', user.id);
+          staffUserId = user.id;
+          const staffRestaurantId = await getStaffRestaurantId(user.id);
+          const myRestaurants = await fetchMyRestaurants(user.id, staffRestaurantId);
+          const selected = pickRestaurant(myRestaurants, staffRestaurantId);
+          setRestaurants(myRestaurants);
+          restaurantQuery = selected
+            ? restaurantQuery.eq('id', selected.id)
+            : restaurantQuery.eq('owner_id', user.id);
         } else {
           // For demo purposes, fetch first restaurant
           restaurantQuery = restaurantQuery.limit(1);
@@ -50,9 +70,10 @@ export function useRestaurantData(restaurantSlug?: string) {
       }
 
       setRestaurant(restaurantData);
+      setStaffRole(staffUserId ? await fetchStaffRole(restaurantData.id) : null);
 
       // Fetch all related data in parallel for better performance
-      const [tablesResult, hoursResult, bookingsResult, waitingResult] = await Promise.all([
+      const [tablesResult, hoursResult, periodsResult, specialDatesResult, bookingsResult, waitingResult] = await Promise.all([
         // Fetch tables
         supabase
           .from('restaurant_tables')
@@ -67,13 +88,32 @@ export function useRestaurantData(restaurantSlug?: string) {
           .eq('restaurant_id', restaurantData.id)
           .order('day_of_week'),
 
+        // Fetch service periods (lunch, dinner, ...) for every weekday
+        supabase
+          .from('restaurant_service_periods')
+          .select('*')
+          .eq('restaurant_id', restaurantData.id)
+          .order('day_of_week')
+          .order('opening_time'),
+
+        // Fetch upcoming special dates (holidays, closures, late openings)
+        supabase
+          .from('restaurant_special_dates')
+          .select('*')
+          .eq('restaurant_id', restaurantData.id)
+          .gte('special_date', new Date().toISOString().split('T')[0])
+          .order('special_date'),
+
         // Fetch today's bookings with customer and table details
         supabase
           .from('bookings')
           .select(`
             *,
             customer:customers(*),
-            restaurant_table:restaurant_tables(*)
+            restaurant_table:restaurant_tables(*),
+            held_tables:booking_tables(*, restaurant_table:restaurant_tables(*)),
+            payment:booking_payments(*),
+            seating_area:dining_areas(name)
           `)
           .eq('restaurant_id', restaurantData.id)
           .in('status', ['pending', 'confirmed', 'seated'])
@@ -88,18 +128,22 @@ export function useRestaurantData(restaurantSlug?: string) {
           `)
           .eq('restaurant_id', restaurantData.id)
           .eq('requested_date', new Date().toISOString().split('T')[0])
-          .eq('status', 'waiting')
+          .in('status', ['waiting', 'notified'])
           .order('priority_order', { ascending: true })
       ]);
 
       // Check for errors and set data
       if (tablesResult.error) throw tablesResult.error;
       if (hoursResult.error) throw hoursResult.error;
+      if (periodsResult.error) throw periodsResult.error;
+      if (specialDatesResult.error) throw specialDatesResult.error;
       if (bookingsResult.error) throw bookingsResult.error;
       if (waitingResult.error) throw waitingResult.error;
 
       setTables(tablesResult.data || []);
       setOperatingHours(hoursResult.data || []);
+      setServicePeriods(periodsResult.data || []);
+      setSpecialDates(specialDatesResult.data || []);
       setBookings(bookingsResult.data || []);
       setWaitingList(waitingResult.data || []);
       
@@ -232,13 +276,18 @@ export function useRestaurantData(restaurantSlug?: string) {
             break;
         }
 
+        // Combined bookings move all of their tables together
+        const heldTableIds = booking.held_tables && booking.held_tables.length > 0
+          ? booking.held_tables.map(held => held.table_id)
+          : [booking.table_id];
+
         const { error: tableError } = await supabase
           .from('restaurant_tables')
           .update({ 
             status: tableStatus,
             updated_at: new Date().toISOString()
           })
-          .eq('id', booking.table_id);
+          .in('id', heldTableIds);
 
         if (tableError) throw tableError;
 
@@ -288,6 +337,13 @@ export function useRestaurantData(restaurantSlug?: string) {
         }
       }
 
+      // Deliver the confirmation, cancellation or waitlist promotion queued by the database
+      flushNotifications();
+      // Refund deposits on timely cancellations and charge guarantee cards on no-shows
+      if (status === 'cancelled' || status === 'no_show') {
+        settleBookingPayments();
+      }
+
       // Force immediate refresh to ensure UI consistency
       await fetchRestaurantData(restaurantSlug);
       
@@ -301,11 +357,18 @@ export function useRestaurantData(restaurantSlug?: string) {
 
   const assignTableToBooking = async (bookingId: string, tableId: string) => {
     try {
+      // Tables from a previous combined assignment are released by the reassignment
+      const booking = bookings.find(b => b.id === bookingId);
+      const releasedTableIds = (booking?.held_tables || [])
+        .map(held => held.table_id)
+        .filter(heldTableId => heldTableId !== tableId);
+
       // Update booking with table assignment
       const { error: bookingError } = await supabase
         .from('bookings')
         .update({ 
           table_id: tableId,
+          combination_id: null,
           assignment_method: 'manual',
           updated_at: new Date().toISOString()
         })
@@ -324,6 +387,18 @@ export function useRestaurantData(restaurantSlug?: string) {
 
       if (tableError) throw tableError;
 
+      if (releasedTableIds.length > 0) {
+        const { error: releaseError } = await supabase
+          .from('restaurant_tables')
+          .update({ 
+            status: 'available',
+            updated_at: new Date().toISOString()
+          })
+          .in('id', releasedTableIds);
+
+        if (releaseError) throw releaseError;
+      }
+
       // Force immediate refresh to ensure UI consistency
       await fetchRestaurantData(restaurantSlug);
       
@@ -334,85 +409,67 @@ export function useRestaurantData(restaurantSlug?: string) {
     }
   };
 
-  const processWaitingList = async (restaurantId: string, date: string, time: string) => {
+  const updateBookingDuration = async (bookingId: string, durationMinutes: number) => {
     try {
-      // Get next person on waiting list for this time slot
-      const { data: nextWaitingData, error: waitingError } = await supabase
-        .from('waiting_list')
-        .select('*')
-        .eq('restaurant_id', restaurantId)
-        .eq('requested_date', date)
-        .eq('requested_time', time)
-        .eq('status', 'waiting')
-        .order('priority_order', { ascending: true })
-        .limit(1);
-
-      if (waitingError) throw waitingError;
-      
-      if (!nextWaitingData || nextWaitingData.length === 0) {
-        return; // No customers waiting
-      }
+      // The database refuses a longer sitting that runs into another booking
+      const { error } = await supabase
+        .from('bookings')
+        .update({
+          expected_duration_minutes: durationMinutes,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', bookingId);
 
-      const nextWaiting = nextWaitingData[0];
+      if (error) throw new Error(error.message);
+
+      // Force immediate refresh to ensure UI consistency
+      await fetchRestaurantData(restaurantSlug);
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating booking duration:', error);
+      throw error;
+    }
+  };
 
-      // Check if there's an available table for their party size
-      const { data: availableTables } = await supabase
-        .rpc('get_available_tables', {
+  const processWaitingList = async (restaurantId: string, date: string, time: string) => {
+    try {
+      // Hold freed tables for the best-matching waiting guests and ask them to accept
+      const { data: offerCount, error: offerError } = await supabase
+        .rpc('offer_waitlist_table', {
           p_restaurant_id: restaurantId,
           p_date: date,
-          p_time: time,
-          p_party_size: nextWaiting.party_size
+          p_time: time
         });
 
-      if (availableTables && availableTables.length > 0) {
-        const assignedTable = availableTables[0];
+      if (offerError) throw offerError;
 
-        // Create booking from waiting list
-        const { error: bookingError } = await supabase
-          .from('bookings')
-          .insert({
-            restaurant_id: restaurantId,
-            table_id: assignedTable.table_id,
-            customer_id: nextWaiting.customer_id,
-            booking_date: date,
-            booking_time: time,
-            party_size: nextWaiting.party_size,
-            notes: nextWaiting.notes,
-            status: 'confirmed',
-            assignment_method: 'waitlist',
-            was_on_waitlist: true,
-            is_walk_in: false
-          });
-
-        if (bookingError) throw bookingError;
-
-        // Update waiting list status
-        const { error: waitingUpdateError } = await supabase
-          .from('waiting_list')
-          .update({ 
-            status: 'notified',
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', nextWaiting.id);
+      if (offerCount > 0) {
+        flushNotifications();
+        console.log(`Tables offered to ${offerCount} waiting list customer(s)`);
+      }
+    } catch (error) {
+      console.error('Error processing waiting list:', error);
+      // Don't throw here as this is a background process
+    }
+  };
 
-        if (waitingUpdateError) throw waitingUpdateError;
+  const expireWaitlistOffers = async () => {
+    if (!restaurant) return;
 
-        // Update table status
-        const { error: tableError } = await supabase
-          .from('restaurant_tables')
-          .update({ 
-            status: 'reserved',
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', assignedTable.table_id);
+    try {
+      const { data: expiredCount, error } = await supabase
+        .rpc('expire_waitlist_offers', { p_restaurant_id: restaurant.id });
 
-        if (tableError) throw tableError;
+      if (error) throw error;
 
-        console.log('Waiting list customer automatically promoted and table assigned');
+      // Expired tables roll to the next guest, who gets an offer message
+      if (expiredCount > 0) {
+        flushNotifications();
+        await fetchRestaurantData(restaurantSlug);
       }
     } catch (error) {
-      console.error('Error processing waiting list:', error);
-      // Don't throw here as this is a background process
+      console.error('Error expiring waiting list offers:', error);
     }
   };
 
@@ -421,39 +478,44 @@ export function useRestaurantData(restaurantSlug?: string) {
       const waitingEntry = waitingList.find(w => w.id === waitingListId);
       if (!waitingEntry) throw new Error('Waiting list entry not found');
 
-      // Get available tables
-      const { data: availableTables } = await supabase
-        .rpc('get_available_tables', {
-          p_restaurant_id: waitingEntry.restaurant_id,
-          p_date: waitingEntry.requested_date,
-          p_time: waitingEntry.requested_time,
-          p_party_size: waitingEntry.party_size
-        });
+      // The guest already has tables held, so accept the offer on their behalf
+      if (waitingEntry.status === 'notified') {
+        const { error: acceptError } = await supabase
+          .rpc('respond_to_waitlist_offer', {
+            p_token: waitingEntry.manage_token,
+            p_accept: true
+          });
 
-      if (!availableTables || availableTables.length === 0) {
-        throw new Error('No available tables for this party size');
+        if (acceptError) throw acceptError;
+
+        flushNotifications();
+        await fetchRestaurantData(restaurantSlug);
+        return { success: true };
       }
 
-      const assignedTable = availableTables[0];
+      // Get available tables, combining tables for larger parties
+      const assignment = await findTableAssignment({
+        restaurantId: waitingEntry.restaurant_id,
+        date: waitingEntry.requested_date,
+        time: waitingEntry.requested_time,
+        partySize: waitingEntry.party_size
+      });
 
-      // Create booking
-      const { error: bookingError } = await supabase
-        .from('bookings')
-        .insert({
-          restaurant_id: waitingEntry.restaurant_id,
-          table_id: assignedTable.table_id,
-          customer_id: waitingEntry.customer_id,
-          booking_date: waitingEntry.requested_date,
-          booking_time: waitingEntry.requested_time,
-          party_size: waitingEntry.party_size,
-          notes: waitingEntry.notes,
-          status: 'confirmed',
-          assignment_method: 'waitlist',
-          was_on_waitlist: true,
-          is_walk_in: false
-        });
+      if (!assignment) {
+        throw new Error('No available tables for this party size');
+      }
 
-      if (bookingError) throw bookingError;
+      // Create the booking and hold its tables
+      await createBooking({
+        restaurantId: waitingEntry.restaurant_id,
+        customerId: waitingEntry.customer_id,
+        date: waitingEntry.requested_date,
+        time: waitingEntry.requested_time,
+        partySize: waitingEntry.party_size,
+        notes: waitingEntry.notes,
+        assignmentMethod: 'waitlist',
+        wasOnWaitlist: true
+      }, assignment);
 
       // Update waiting list status
       const { error: waitingUpdateError } = await supabase
@@ -466,16 +528,7 @@ export function useRestaurantData(restaurantSlug?: string) {
 
       if (waitingUpdateError) throw waitingUpdateError;
 
-      // Update table status
-      const { error: tableError } = await supabase
-        .from('restaurant_tables')
-        .update({ 
-          status: 'reserved',
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', assignedTable.table_id);
-
-      if (tableError) throw tableError;
+      flushNotifications();
 
       // Force immediate refresh to ensure UI consistency
       await fetchRestaurantData(restaurantSlug);
@@ -489,16 +542,25 @@ export function useRestaurantData(restaurantSlug?: string) {
 
   const cancelWaitingListEntry = async (waitingListId: string) => {
     try {
+      const waitingEntry = waitingList.find(w => w.id === waitingListId);
+
       const { error } = await supabase
         .from('waiting_list')
         .update({ 
           status: 'cancelled',
+          offer_table_ids: null,
+          offer_combination_id: null,
           updated_at: new Date().toISOString()
         })
         .eq('id', waitingListId);
 
       if (error) throw error;
 
+      // A withdrawn offer frees its tables for the next guest
+      if (waitingEntry?.status === 'notified') {
+        await processWaitingList(waitingEntry.restaurant_id, waitingEntry.requested_date, waitingEntry.requested_time);
+      }
+
       // Force immediate refresh to ensure UI consistency
       await fetchRestaurantData(restaurantSlug);
       
@@ -631,17 +693,23 @@ export function useRestaurantData(restaurantSlug?: string) {
 
   return {
     restaurant,
+    restaurants,
     tables,
     bookings,
     waitingList,
     operatingHours,
+    servicePeriods,
+    specialDates,
+    staffRole,
     loading,
     error,
     updateTableStatus,
     updateBookingStatus,
     assignTableToBooking,
+    updateBookingDuration,
     promoteFromWaitingList,
     cancelWaitingListEntry,
+    expireWaitlistOffers,
     createOrderSession,
     markTableOccupiedWithSession,
     updateOrderStatus,
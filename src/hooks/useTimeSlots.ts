@@ -1,102 +1,244 @@
 import { useState, useEffect } from 'react';
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
 import { supabase } from '../lib/supabase';
-import { Restaurant, RestaurantOperatingHours, BookingWithDetails, TimeSlot } from '../types/database';
+import { timeToMinutes } from '../lib/diningDuration';
+import { Restaurant, TimeSlot, SlotAvailability, Booking, WaitingListEntry } from '../types/database';
+
+interface TimeSlotRange {
+  startDate: string;
+  endDate: string;
+}
+
+export interface ServicePeriodSlots {
+  name: string | null;
+  slots: TimeSlot[];
+}
+
+interface SlotChange {
+  date?: string;
+  time?: string;
+  durationMinutes?: number;
+}
+
+// Slot availability cached per restaurant and date, keyed by 'HH:MM'. Shared across
+// hook instances so switching dates doesn't hit the database again; kept up to
+// date by the realtime subscription below and dropped when it closes.
+const availabilityCache = new Map<string, Map<string, TimeSlot>>();
+
+const cacheKey = (restaurantId: string, date: string) => `${restaurantId}:${date}`;
+
+const toTimeSlot = (time: string, row: Omit<SlotAvailability, 'slot_date' | 'slot_time'>): TimeSlot => ({
+  time,
+  servicePeriod: row.period_name,
+  available: row.available_capacity > 0,
+  totalCapacity: row.total_capacity,
+  bookedCapacity: row.booked_capacity,
+  availableCapacity: row.available_capacity,
+  waitingCount: row.waiting_count
+});
+
+const loadAvailability = async (restaurantId: string, startDate: string, endDate: string) => {
+  const { data, error } = await supabase
+    .rpc('get_day_availability', {
+      p_restaurant_id: restaurantId,
+      p_start_date: startDate,
+      p_end_date: endDate
+    });
+
+  if (error) throw error;
+
+  // Every date in the range gets an entry, so closed days are cached as empty
+  const days = eachDayOfInterval({ start: parseISO(startDate), end: parseISO(endDate) });
+  days.forEach(day => {
+    availabilityCache.set(cacheKey(restaurantId, format(day, 'yyyy-MM-dd')), new Map());
+  });
+
+  ((data || []) as SlotAvailability[]).forEach(row => {
+    const time = row.slot_time.slice(0, 5);
+    availabilityCache.get(cacheKey(restaurantId, row.slot_date))?.set(time, toTimeSlot(time, row));
+  });
+};
+
+const refreshSlot = async (restaurantId: string, date: string, time: string) => {
+  const slots = availabilityCache.get(cacheKey(restaurantId, date));
+  // Only slots we've already loaded need refreshing; anything else loads on demand
+  if (!slots?.has(time)) return false;
+
+  const { data, error } = await supabase
+    .rpc('get_time_slot_availability', {
+      p_restaurant_id: restaurantId,
+      p_date: date,
+      p_time: time
+    });
+
+  if (error) throw error;
+
+  if (data && data.length > 0) {
+    // The single-slot RPC doesn't know about service periods, so keep the cached one
+    slots.set(time, toTimeSlot(time, { ...data[0], period_name: slots.get(time)?.servicePeriod ?? null }));
+  }
+  return true;
+};
+
+// Cached slots touched by a change: a booking occupies every slot of its sitting,
+// a waiting list entry only its requested slot
+const affectedSlotTimes = (restaurantId: string, change: SlotChange) => {
+  if (!change.date || !change.time) return [];
+
+  const slots = availabilityCache.get(cacheKey(restaurantId, change.date));
+  if (!slots) return [];
+
+  const start = timeToMinutes(change.time);
+  const end = start + (change.durationMinutes || 1);
+  return Array.from(slots.keys()).filter(time => {
+    const minutes = timeToMinutes(time);
+    return minutes >= start && minutes < end;
+  });
+};
+
+// Slots come back sorted by time, so each service period is a consecutive run
+const groupByServicePeriod = (slots: TimeSlot[]): ServicePeriodSlots[] =>
+  slots.reduce<ServicePeriodSlots[]>((groups, slot) => {
+    const current = groups[groups.length - 1];
+    if (current && current.name === slot.servicePeriod) {
+      current.slots.push(slot);
+    } else {
+      groups.push({ name: slot.servicePeriod, slots: [slot] });
+    }
+    return groups;
+  }, []);
+
+const invalidateRestaurant = (restaurantId: string) => {
+  Array.from(availabilityCache.keys())
+    .filter(key => key.startsWith(`${restaurantId}:`))
+    .forEach(key => availabilityCache.delete(key));
+};
 
 export function useTimeSlots(
   restaurant: Restaurant | null,
-  operatingHours: RestaurantOperatingHours[],
-  bookings: BookingWithDetails[],
   selectedDate: string,
-  restaurantSlug?: string
+  range?: TimeSlotRange
 ) {
   const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [cacheVersion, setCacheVersion] = useState(0);
+
+  const restaurantId = restaurant?.id;
+  const rangeStart = range?.startDate;
+  const rangeEnd = range?.endDate;
 
   useEffect(() => {
-    if (!restaurant || !selectedDate) {
+    if (!restaurantId || !selectedDate) {
       setTimeSlots([]);
       return;
     }
 
-    generateTimeSlots(restaurantSlug);
-  }, [restaurant, operatingHours, bookings, selectedDate, restaurantSlug]);
-
-  const generateTimeSlots = async (slug?: string) => {
-    if (!restaurant || !selectedDate) return;
-
-    const date = new Date(selectedDate);
-    const dayOfWeek = date.getDay(); // 0 = Sunday, 6 = Saturday
-    
-    // Find operating hours for this day
-    const todayHours = operatingHours.find(h => h.day_of_week === dayOfWeek);
-    
-    if (!todayHours || todayHours.is_closed) {
-      setTimeSlots([]);
+    const cached = availabilityCache.get(cacheKey(restaurantId, selectedDate));
+    if (cached) {
+      setTimeSlots(Array.from(cached.values()).sort((a, b) => a.time.localeCompare(b.time)));
       return;
     }
 
-    const slots: TimeSlot[] = [];
-    const slotDuration = restaurant.time_slot_duration_minutes || 15;
-    
-    // Parse opening and closing times
-    const [openHour, openMinute] = todayHours.opening_time.split(':').map(Number);
-    const [closeHour, closeMinute] = todayHours.closing_time.split(':').map(Number);
-    
-    const openingMinutes = openHour * 60 + openMinute;
-    const closingMinutes = closeHour * 60 + closeMinute;
-    
-    // Generate time slots and check availability for each
-    for (let minutes = openingMinutes; minutes < closingMinutes; minutes += slotDuration) {
-      const hour = Math.floor(minutes / 60);
-      const minute = minutes % 60;
-      const timeString = `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
-      
+    // Load the whole range in one call when the selected date falls inside it
+    const inRange = !!rangeStart && !!rangeEnd && selectedDate >= rangeStart && selectedDate <= rangeEnd;
+    let cancelled = false;
+
+    setLoading(true);
+    loadAvailability(restaurantId, inRange ? rangeStart : selectedDate, inRange ? rangeEnd : selectedDate)
+      .then(() => {
+        if (!cancelled) setCacheVersion(version => version + 1);
+      })
+      .catch(error => {
+        console.error('Error loading time slot availability:', error);
+        if (!cancelled) setTimeSlots([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [restaurantId, selectedDate, rangeStart, rangeEnd, cacheVersion]);
+
+  useEffect(() => {
+    if (!restaurantId) return;
+
+    const refreshSlots = async (changes: SlotChange[]) => {
+      const affected = new Set(
+        changes.flatMap(change =>
+          affectedSlotTimes(restaurantId, change).map(time => `${change.date}|${time}`)
+        )
+      );
+
       try {
-        // Get real-time availability for this time slot
-        const { data: availability } = await supabase
-          .rpc('get_time_slot_availability', {
-            p_restaurant_id: restaurant.id,
-            p_date: selectedDate,
-            p_time: timeString
-          });
-
-        if (availability && availability.length > 0) {
-          const avail = availability[0];
-          
-          slots.push({
-            time: timeString,
-            available: avail.available_capacity > 0,
-            totalCapacity: avail.total_capacity,
-            bookedCapacity: avail.booked_capacity,
-            availableCapacity: avail.available_capacity,
-            waitingCount: avail.waiting_count
-          });
-        } else {
-          // Fallback if RPC fails
-          slots.push({
-            time: timeString,
-            available: false,
-            totalCapacity: 0,
-            bookedCapacity: 0,
-            availableCapacity: 0,
-            waitingCount: 0
-          });
+        const results = await Promise.all(
+          Array.from(affected).map(entry => {
+            const [date, time] = entry.split('|');
+            return refreshSlot(restaurantId, date, time);
+          })
+        );
+        if (results.some(Boolean)) {
+          setCacheVersion(version => version + 1);
         }
       } catch (error) {
-        console.error('Error checking availability for time slot:', timeString, error);
-        // Fallback for error cases
-        slots.push({
-          time: timeString,
-          available: false,
-          totalCapacity: 0,
-          bookedCapacity: 0,
-          availableCapacity: 0,
-          waitingCount: 0
-        });
+        console.error('Error refreshing time slot availability:', error);
       }
-    }
-    
-    setTimeSlots(slots);
-  };
+    };
+
+    const channel = supabase
+      .channel(`time_slots_${restaurantId}`)
+      .on<Booking>('postgres_changes',
+        { event: '*', schema: 'public', table: 'bookings', filter: `restaurant_id=eq.${restaurantId}` },
+        (payload) => {
+          const rows = [payload.new as Partial<Booking>, payload.old as Partial<Booking>];
+          refreshSlots(rows.map(row => ({
+            date: row?.booking_date,
+            time: row?.booking_time,
+            durationMinutes: row?.expected_duration_minutes
+          })));
+        })
+      .on<WaitingListEntry>('postgres_changes',
+        { event: '*', schema: 'public', table: 'waiting_list', filter: `restaurant_id=eq.${restaurantId}` },
+        (payload) => {
+          const rows = [payload.new as Partial<WaitingListEntry>, payload.old as Partial<WaitingListEntry>];
+          refreshSlots(rows.map(row => ({ date: row?.requested_date, time: row?.requested_time })));
+        })
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'restaurant_tables', filter: `restaurant_id=eq.${restaurantId}` },
+        () => {
+          // Table changes alter total capacity for every slot
+          invalidateRestaurant(restaurantId);
+          setCacheVersion(version => version + 1);
+        })
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'restaurant_operating_hours', filter: `restaurant_id=eq.${restaurantId}` },
+        () => {
+          invalidateRestaurant(restaurantId);
+          setCacheVersion(version => version + 1);
+        })
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'restaurant_service_periods', filter: `restaurant_id=eq.${restaurantId}` },
+        () => {
+          invalidateRestaurant(restaurantId);
+          setCacheVersion(version => version + 1);
+        })
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'restaurant_special_dates', filter: `restaurant_id=eq.${restaurantId}` },
+        () => {
+          // Overrides change which slots exist at all
+          invalidateRestaurant(restaurantId);
+          setCacheVersion(version => version + 1);
+        })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+      // Changes made while nobody is listening would be missed, so the next
+      // booking page for this restaurant loads afresh
+      invalidateRestaurant(restaurantId);
+    };
+  }, [restaurantId]);
 
   const formatTimeSlot = (time: string) => {
     const [hour, minute] = time.split(':').map(Number);
@@ -105,8 +247,17 @@ export function useTimeSlots(
     return `${displayHour}:${minute.toString().padStart(2, '0')} ${period}`;
   };
 
+  const refresh = () => {
+    if (!restaurantId) return;
+    invalidateRestaurant(restaurantId);
+    setCacheVersion(version => version + 1);
+  };
+
   return {
     timeSlots,
-    formatTimeSlot
+    servicePeriods: groupByServicePeriod(timeSlots),
+    loading,
+    formatTimeSlot,
+    refresh
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,85 @@
+import { supabase } from './supabase';
+import { BookingPaymentStatus, DepositRequirement } from '../types/database';
+
+export const paymentStatusLabels: Record<BookingPaymentStatus, string> = {
+  pending: 'Awaiting payment',
+  paid: 'Deposit paid',
+  card_saved: 'Card on file',
+  charged: 'No-show fee charged',
+  refunded: 'Deposit refunded',
+  retained: 'Deposit kept',
+  released: 'Card released',
+  cancelled: 'Payment not completed',
+  failed: 'Payment action failed'
+};
+
+export const formatPaymentAmount = (amount: number, currency: string) => {
+  return new Intl.NumberFormat('en-SG', {
+    style: 'currency',
+    currency: currency.toUpperCase()
+  }).format(amount);
+};
+
+// Deposit or card guarantee the restaurant requires for this booking, if any
+export const getDepositRequirement = async (restaurantId: string, date: string, partySize: number) => {
+  const { data, error } = await supabase
+    .rpc('get_deposit_requirement', {
+      p_restaurant_id: restaurantId,
+      p_date: date,
+      p_party_size: partySize
+    });
+
+  if (error) throw error;
+  return (data?.[0] as DepositRequirement | undefined) ?? null;
+};
+
+const callBookingPayment = async (body: Record<string, unknown>) => {
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/booking-payment`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Payment request failed');
+  }
+  return data;
+};
+
+// Sends the guest to Stripe Checkout to pay the deposit or save a card. They come
+// back to their manage page either way.
+export const startBookingPayment = async (manageToken: string) => {
+  const manageUrl = `${window.location.origin}/manage/${manageToken}`;
+  const { url } = await callBookingPayment({
+    action: 'checkout',
+    manage_token: manageToken,
+    success_url: `${manageUrl}?payment=success`,
+    cancel_url: `${manageUrl}?payment=cancelled`,
+  });
+
+  window.location.href = url;
+};
+
+// Cancels a pending booking whose checkout never got created, releasing its
+// tables. False when there's a checkout, which cancels the booking if it expires.
+export const abandonBookingPayment = async (manageToken: string) => {
+  const { data, error } = await supabase
+    .rpc('abandon_booking_payment', { p_token: manageToken });
+
+  if (error) throw error;
+  return data === true;
+};
+
+// Booking status changes queue deposit refunds and no-show charges in the
+// database; this asks the booking-payment function to settle them with Stripe.
+export const settleBookingPayments = async () => {
+  try {
+    await callBookingPayment({ action: 'settle' });
+  } catch (error) {
+    console.warn('Could not settle booking payments:', error);
+  }
+};
@@ -0,0 +1,32 @@
+// Mirrors get_default_dining_duration in the database
+export const getDefaultDiningDuration = (partySize: number) => {
+  if (partySize <= 2) return 90;
+  if (partySize <= 4) return 105;
+  if (partySize <= 6) return 120;
+  return 150;
+};
+
+export const diningDurationOptions = [60, 75, 90, 105, 120, 150, 180, 240];
+
+export const formatDiningDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const remainder = minutes % 60;
+  if (hours === 0) return `${remainder}m`;
+  return remainder === 0 ? `${hours}h` : `${hours}h ${remainder}m`;
+};
+
+export const timeToMinutes = (time: string) => {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+};
+
+export const minutesToTime = (minutes: number) => {
+  const wrapped = ((minutes % 1440) + 1440) % 1440;
+  const hour = Math.floor(wrapped / 60);
+  const minute = wrapped % 60;
+  return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+};
+
+export const getBookingEndTime = (bookingTime: string, durationMinutes: number) => {
+  return minutesToTime(timeToMinutes(bookingTime) + durationMinutes);
+};
@@ -0,0 +1,120 @@
+import { format } from 'date-fns';
+import { supabase } from './supabase';
+import { BookingWithDetails, DiningArea, RestaurantTable, SeatingArea, TableShape } from '../types/database';
+
+// Tables snap to this grid when dragged, in plan pixels
+export const GRID_SIZE = 10;
+
+export const MIN_TABLE_SIZE = 40;
+export const MAX_TABLE_SIZE = 400;
+
+export const tableShapes: { value: TableShape; label: string }[] = [
+  { value: 'square', label: 'Square' },
+  { value: 'round', label: 'Round' },
+  { value: 'rectangle', label: 'Rectangle' }
+];
+
+export const snapToGrid = (value: number) => Math.round(value / GRID_SIZE) * GRID_SIZE;
+
+// Keeps a table's top-left corner inside the area
+export const clampToArea = (table: Pick<RestaurantTable, 'width' | 'height'>, x: number, y: number, area: DiningArea) => {
+  return {
+    x: Math.min(Math.max(0, x), Math.max(0, area.width - table.width)),
+    y: Math.min(Math.max(0, y), Math.max(0, area.height - table.height))
+  };
+};
+
+export const isPlaced = (table: RestaurantTable) => {
+  return table.area_id !== null && table.pos_x !== null && table.pos_y !== null;
+};
+
+// First free spot along the top of the area, for tables placed without dragging
+export const nextFreePosition = (area: DiningArea, placed: RestaurantTable[], size: { width: number; height: number }) => {
+  const step = size.width + GRID_SIZE * 2;
+  for (let y = GRID_SIZE * 2; y + size.height <= area.height; y += size.height + GRID_SIZE * 2) {
+    for (let x = GRID_SIZE * 2; x + size.width <= area.width; x += step) {
+      const overlaps = placed.some(table =>
+        x < (table.pos_x ?? 0) + table.width &&
+        x + size.width > (table.pos_x ?? 0) &&
+        y < (table.pos_y ?? 0) + table.height &&
+        y + size.height > (table.pos_y ?? 0)
+      );
+      if (!overlaps) return { x, y };
+    }
+  }
+  return { x: 0, y: 0 };
+};
+
+export const fetchDiningAreas = async (restaurantId: string): Promise<DiningArea[]> => {
+  const { data, error } = await supabase
+    .from('dining_areas')
+    .select('*')
+    .eq('restaurant_id', restaurantId)
+    .order('display_order')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Closing an area takes its tables out of availability and table assignment
+export const setDiningAreaOpen = async (areaId: string, isOpen: boolean) => {
+  const { error } = await supabase
+    .from('dining_areas')
+    .update({ is_open: isOpen, updated_at: new Date().toISOString() })
+    .eq('id', areaId);
+
+  if (error) throw error;
+};
+
+// Open areas with tables, for guests to choose from when booking
+export const getSeatingAreas = async (restaurantId: string): Promise<SeatingArea[]> => {
+  const { data, error } = await supabase
+    .rpc('get_seating_areas', { p_restaurant_id: restaurantId });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export type TableLayout = Partial<Pick<RestaurantTable, 'area_id' | 'pos_x' | 'pos_y' | 'shape' | 'width' | 'height' | 'rotation'>>;
+
+export const saveTableLayout = async (tableId: string, layout: TableLayout) => {
+  const { error } = await supabase
+    .from('restaurant_tables')
+    .update({ ...layout, updated_at: new Date().toISOString() })
+    .eq('id', tableId);
+
+  if (error) throw error;
+};
+
+const bookingStart = (booking: BookingWithDetails) => new Date(`${booking.booking_date}T${booking.booking_time}`);
+
+const bookingHoldsTable = (booking: BookingWithDetails, tableId: string) => {
+  return booking.table_id === tableId || (booking.held_tables || []).some(held => held.table_id === tableId);
+};
+
+// When the party at the table sat down: the table's open QR session, or its
+// seated booking
+export const seatedSince = (
+  table: RestaurantTable,
+  bookings: BookingWithDetails[],
+  sessionStartedAt?: string | null
+): Date | null => {
+  if (sessionStartedAt) return new Date(sessionStartedAt);
+
+  const seated = bookings.find(booking => booking.status === 'seated' && bookingHoldsTable(booking, table.id));
+  return seated ? bookingStart(seated) : null;
+};
+
+// Today's bookings still to arrive at the table, soonest first
+export const upcomingBookings = (table: RestaurantTable, bookings: BookingWithDetails[], now: Date) => {
+  const today = format(now, 'yyyy-MM-dd');
+  return bookings
+    .filter(booking =>
+      booking.booking_date === today &&
+      ['pending', 'confirmed'].includes(booking.status) &&
+      bookingHoldsTable(booking, table.id) &&
+      bookingStart(booking).getTime() + booking.expected_duration_minutes * 60000 > now.getTime()
+    )
+    .sort((a, b) => bookingStart(a).getTime() - bookingStart(b).getTime());
+};
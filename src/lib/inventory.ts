@@ -0,0 +1,68 @@
+import { supabase } from './supabase';
+import { InventoryIngredient, MenuItem } from '../types/database';
+
+export interface LowStockEntry {
+  id: string;
+  kind: 'item' | 'ingredient';
+  name: string;
+  stock: number;
+  unit: string;
+  threshold: number | null;
+}
+
+// Out of stock always counts as low, even without a threshold
+export const isLowStock = (stock: number | null, threshold: number | null) => {
+  if (stock === null) return false;
+  return stock <= 0 || (threshold !== null && stock <= threshold);
+};
+
+export const formatQuantity = (quantity: number, unit: string) => {
+  const amount = Number.isInteger(Number(quantity)) ? Number(quantity).toString() : Number(quantity).toFixed(2);
+  return unit === 'portion' ? amount : `${amount} ${unit}`;
+};
+
+export const getLowStock = async (restaurantId: string) => {
+  const [itemsResult, ingredientsResult] = await Promise.all([
+    supabase
+      .from('menu_items')
+      .select('id, name, stock_quantity, low_stock_threshold')
+      .eq('restaurant_id', restaurantId)
+      .not('stock_quantity', 'is', null),
+
+    supabase
+      .from('inventory_ingredients')
+      .select('id, name, unit, stock_quantity, low_stock_threshold')
+      .eq('restaurant_id', restaurantId)
+  ]);
+
+  if (itemsResult.error) throw itemsResult.error;
+  if (ingredientsResult.error) throw ingredientsResult.error;
+
+  const items = (itemsResult.data || []) as Pick<MenuItem, 'id' | 'name' | 'stock_quantity' | 'low_stock_threshold'>[];
+  const ingredients = (ingredientsResult.data || []) as Pick<InventoryIngredient, 'id' | 'name' | 'unit' | 'stock_quantity' | 'low_stock_threshold'>[];
+
+  const entries: LowStockEntry[] = [
+    ...items
+      .filter(item => isLowStock(item.stock_quantity, item.low_stock_threshold))
+      .map(item => ({
+        id: item.id,
+        kind: 'item' as const,
+        name: item.name,
+        stock: item.stock_quantity ?? 0,
+        unit: 'portion',
+        threshold: item.low_stock_threshold
+      })),
+    ...ingredients
+      .filter(ingredient => isLowStock(Number(ingredient.stock_quantity), ingredient.low_stock_threshold))
+      .map(ingredient => ({
+        id: ingredient.id,
+        kind: 'ingredient' as const,
+        name: ingredient.name,
+        stock: Number(ingredient.stock_quantity),
+        unit: ingredient.unit,
+        threshold: ingredient.low_stock_threshold
+      }))
+  ];
+
+  return entries.sort((a, b) => a.stock - b.stock || a.name.localeCompare(b.name));
+};
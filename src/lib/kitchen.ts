@@ -0,0 +1,66 @@
+import { supabase } from './supabase';
+import { KitchenItemStatus, KitchenStation, OrderWithDetails } from '../types/database';
+
+export type TicketUrgency = 'normal' | 'warning' | 'critical';
+
+// One order as seen by one station
+export interface KitchenTicket {
+  key: string;
+  order: OrderWithDetails;
+  items: OrderWithDetails['items'];
+  bumpedAt: string | null;
+}
+
+// Used on the all-stations view, where no station's timings apply
+export const DEFAULT_WARNING_MINUTES = 10;
+export const DEFAULT_CRITICAL_MINUTES = 20;
+
+// Bumped tickets stay available to recall for this long
+export const RECALL_WINDOW_MINUTES = 30;
+
+export const buildTickets = (orders: OrderWithDetails[], stationId: string | null): KitchenTicket[] => {
+  return orders.flatMap(order => {
+    const items = order.items.filter(item => stationId === null || item.station_id === stationId);
+    if (items.length === 0) return [];
+
+    const bumped = items.every(item => item.kitchen_status === 'ready');
+    const bumpedAt = bumped
+      ? items.map(item => item.kitchen_ready_at || order.updated_at).sort().reverse()[0]
+      : null;
+
+    return [{ key: `${order.id}:${stationId ?? 'all'}`, order, items, bumpedAt }];
+  });
+};
+
+export const ticketAgeMinutes = (ticket: KitchenTicket, now: Date) => {
+  return Math.max(0, Math.floor((now.getTime() - new Date(ticket.order.created_at).getTime()) / 60000));
+};
+
+export const ticketUrgency = (ageMinutes: number, station?: KitchenStation | null): TicketUrgency => {
+  const warning = station?.warning_minutes ?? DEFAULT_WARNING_MINUTES;
+  const critical = station?.critical_minutes ?? DEFAULT_CRITICAL_MINUTES;
+  if (ageMinutes >= critical) return 'critical';
+  if (ageMinutes >= warning) return 'warning';
+  return 'normal';
+};
+
+export const nextItemStatus = (status: KitchenItemStatus): KitchenItemStatus => {
+  switch (status) {
+    case 'pending':
+      return 'preparing';
+    case 'preparing':
+      return 'ready';
+    default:
+      // Tapping a bumped item un-bumps it
+      return 'preparing';
+  }
+};
+
+export const setItemsKitchenStatus = async (itemIds: string[], status: KitchenItemStatus) => {
+  const { error } = await supabase
+    .from('order_items')
+    .update({ kitchen_status: status })
+    .in('id', itemIds);
+
+  if (error) throw error;
+};
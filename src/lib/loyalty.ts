@@ -0,0 +1,115 @@
+import { supabase } from './supabase';
+import { AppliedDiscountCode, DiscountCode, LoyaltySettings } from '../types/database';
+
+export type LoyaltySettingsInput = Pick<
+  LoyaltySettings,
+  'discount_threshold' | 'discount_percentage' | 'points_per_dollar' | 'welcome_bonus' | 'birthday_bonus' | 'referral_bonus'
+>;
+
+export type DiscountCodeInput = Pick<
+  DiscountCode,
+  'code' | 'description' | 'discount_type' | 'discount_value' | 'min_order_amount' | 'max_uses' | 'valid_from' | 'valid_until' | 'is_active'
+>;
+
+// What check_loyalty_discount uses until the restaurant saves its own
+export const defaultLoyaltySettings: LoyaltySettingsInput = {
+  discount_threshold: 100,
+  discount_percentage: 10,
+  points_per_dollar: 1,
+  welcome_bonus: 0,
+  birthday_bonus: 0,
+  referral_bonus: 0
+};
+
+export const fetchLoyaltySettings = async (restaurantId: string): Promise<LoyaltySettingsInput> => {
+  const { data, error } = await supabase
+    .from('loyalty_settings')
+    .select('*')
+    .eq('restaurant_id', restaurantId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return defaultLoyaltySettings;
+
+  return {
+    discount_threshold: Number(data.discount_threshold),
+    discount_percentage: Number(data.discount_percentage),
+    points_per_dollar: data.points_per_dollar,
+    welcome_bonus: data.welcome_bonus,
+    birthday_bonus: data.birthday_bonus,
+    referral_bonus: data.referral_bonus
+  };
+};
+
+export const saveLoyaltySettings = async (restaurantId: string, settings: LoyaltySettingsInput) => {
+  const { error } = await supabase
+    .from('loyalty_settings')
+    .upsert({ restaurant_id: restaurantId, ...settings });
+
+  if (error) throw error;
+};
+
+export const fetchDiscountCodes = async (restaurantId: string): Promise<DiscountCode[]> => {
+  const { data, error } = await supabase
+    .from('discount_codes')
+    .select('*')
+    .eq('restaurant_id', restaurantId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(code => ({
+    ...code,
+    discount_value: Number(code.discount_value),
+    min_order_amount: Number(code.min_order_amount)
+  }));
+};
+
+// Codes are matched in upper case, however the diner types them
+export const normalizeDiscountCode = (code: string) => code.trim().toUpperCase();
+
+export const saveDiscountCode = async (restaurantId: string, code: DiscountCodeInput, codeId?: string) => {
+  const values = { ...code, code: normalizeDiscountCode(code.code) };
+  const { error } = codeId
+    ? await supabase.from('discount_codes').update(values).eq('id', codeId)
+    : await supabase.from('discount_codes').insert({ restaurant_id: restaurantId, ...values });
+
+  if (error) {
+    if (error.code === '23505') throw new Error(`There is already a code called ${values.code}`);
+    throw error;
+  }
+};
+
+export const deleteDiscountCode = async (codeId: string) => {
+  const { error } = await supabase
+    .from('discount_codes')
+    .delete()
+    .eq('id', codeId);
+
+  if (error) throw error;
+};
+
+// Throws the reason a code can't be used, e.g. "The code SUMMER10 has expired"
+export const checkDiscountCode = async (sessionToken: string, code: string): Promise<AppliedDiscountCode> => {
+  const { data, error } = await supabase
+    .rpc('check_discount_code', { p_token: sessionToken, p_code: code });
+
+  if (error) throw new Error(error.message);
+  const applied = data[0];
+  return {
+    ...applied,
+    discount_value: Number(applied.discount_value),
+    min_order_amount: Number(applied.min_order_amount)
+  };
+};
+
+// Mirrors submit_order: codes come off the subtotal, after the loyalty discount
+export const discountCodeAmount = (code: AppliedDiscountCode, subtotal: number, loyaltyDiscount: number) => {
+  if (subtotal < code.min_order_amount) return 0;
+  const amount = code.discount_type === 'percentage'
+    ? Math.round(subtotal * code.discount_value) / 100
+    : code.discount_value;
+  return Math.min(amount, subtotal - loyaltyDiscount);
+};
+
+export const describeDiscountCode = (code: Pick<DiscountCode, 'discount_type' | 'discount_value'>) =>
+  code.discount_type === 'percentage' ? `${code.discount_value}% off` : `S$${code.discount_value.toFixed(2)} off`;
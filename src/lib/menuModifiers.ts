@@ -0,0 +1,85 @@
+import { CartItem, MenuModifierGroup, SelectedModifier } from '../types/database';
+
+export const modifierTotal = (modifiers: SelectedModifier[] | null | undefined) => {
+  return (modifiers || []).reduce((sum, modifier) => sum + Number(modifier.price_delta_sgd), 0);
+};
+
+// Price of one unit of a cart item, including the options picked
+export const cartItemUnitPrice = (item: CartItem) => {
+  return item.menu_item.price_sgd + modifierTotal(item.modifiers);
+};
+
+export const formatModifiers = (modifiers: SelectedModifier[] | null | undefined) => {
+  return (modifiers || []).map(modifier => modifier.name).join(', ');
+};
+
+// Cart lines with the same options are merged into one
+export const sameModifiers = (a: SelectedModifier[] | undefined, b: SelectedModifier[] | undefined) => {
+  const ids = (modifiers: SelectedModifier[] | undefined) => (modifiers || []).map(modifier => modifier.option_id).sort().join(',');
+  return ids(a) === ids(b);
+};
+
+export const describeSelectionRule = (group: MenuModifierGroup) => {
+  const { min_selections: min, max_selections: max } = group;
+  if (min > 0 && max === min) return min === 1 ? 'Required - choose 1' : `Required - choose ${min}`;
+  if (min > 0) return max ? `Required - choose ${min} to ${max}` : `Required - choose at least ${min}`;
+  if (max) return max === 1 ? 'Optional - choose up to 1' : `Optional - choose up to ${max}`;
+  return 'Optional';
+};
+
+// Returns the first group whose selection rules are not met, if any
+export const findIncompleteGroup = (groups: MenuModifierGroup[], selected: SelectedModifier[]) => {
+  return groups.find(group => {
+    const count = selected.filter(modifier => modifier.group_id === group.id).length;
+    return count < group.min_selections || (group.max_selections !== null && count > group.max_selections);
+  }) ?? null;
+};
+
+export interface ModifierOptionForm {
+  id?: string;
+  name: string;
+  price_delta_sgd: number;
+  is_available: boolean;
+}
+
+export interface ModifierGroupForm {
+  id?: string;
+  name: string;
+  min_selections: number;
+  max_selections: number | null;
+  options: ModifierOptionForm[];
+}
+
+export const toModifierGroupForms = (groups: MenuModifierGroup[] | undefined): ModifierGroupForm[] => {
+  return [...(groups || [])]
+    .sort((a, b) => a.display_order - b.display_order)
+    .map(group => ({
+      id: group.id,
+      name: group.name,
+      min_selections: group.min_selections,
+      max_selections: group.max_selections,
+      options: [...(group.options || [])]
+        .sort((a, b) => a.display_order - b.display_order)
+        .map(option => ({
+          id: option.id,
+          name: option.name,
+          price_delta_sgd: option.price_delta_sgd,
+          is_available: option.is_available
+        }))
+    }));
+};
+
+// Returns a message for the first group that can't be saved, if any
+export const validateModifierGroups = (groups: ModifierGroupForm[]) => {
+  for (const group of groups) {
+    const label = group.name.trim() || 'An option group';
+    if (!group.name.trim()) return 'Every option group needs a name';
+    if (group.options.length === 0) return `${label} needs at least one option`;
+    if (group.options.some(option => !option.name.trim())) return `Every option in ${label} needs a name`;
+    if (group.min_selections > group.options.length) return `${label} requires more choices than it has options`;
+    if (group.max_selections !== null && group.max_selections < Math.max(1, group.min_selections)) {
+      return `${label} allows fewer choices than it requires`;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,48 @@
+import { format, parseISO } from 'date-fns';
+import { supabase } from './supabase';
+import { MenuSchedule } from '../types/database';
+
+const dayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatTime = (time: string) => {
+  const [hour, minute] = time.split(':').map(Number);
+  const period = hour >= 12 ? 'PM' : 'AM';
+  const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
+  return `${displayHour}:${minute.toString().padStart(2, '0')} ${period}`;
+};
+
+// e.g. "Mon, Tue, Wed • 7:00 AM - 11:00 AM • Dec 1 - Dec 31"
+export const describeSchedule = (schedule: MenuSchedule) => {
+  const days = schedule.days_of_week.length === 7
+    ? 'Every day'
+    : [...schedule.days_of_week].sort().map(day => dayLabels[day]).join(', ');
+
+  const times = schedule.start_time || schedule.end_time
+    ? `${schedule.start_time ? formatTime(schedule.start_time) : 'Opening'} - ${schedule.end_time ? formatTime(schedule.end_time) : 'closing'}`
+    : 'All opening hours';
+
+  const parts = [days, times];
+  if (schedule.start_date || schedule.end_date) {
+    parts.push(`${schedule.start_date ? format(parseISO(schedule.start_date), 'MMM d') : 'Now'} - ${schedule.end_date ? format(parseISO(schedule.end_date), 'MMM d') : 'ongoing'}`);
+  }
+
+  return parts.join(' • ');
+};
+
+// Worked out by the database against the restaurant's local time
+// (restaurants.timezone), not the diner's clock or time zone
+export const getAvailableScheduleIds = async (restaurantId: string) => {
+  const { data, error } = await supabase
+    .rpc('get_available_menu_schedules', { p_restaurant_id: restaurantId });
+
+  if (error) throw error;
+  return new Set<string>((data || []).map((row: { schedule_id: string }) => row.schedule_id));
+};
+
+export const getUnorderableMenuItems = async (menuItemIds: string[]) => {
+  const { data, error } = await supabase
+    .rpc('get_unorderable_menu_items', { p_menu_item_ids: menuItemIds });
+
+  if (error) throw error;
+  return (data || []) as { menu_item_id: string; name: string }[];
+};
@@ -0,0 +1,51 @@
+import { supabase } from './supabase';
+import { NotificationChannel, NotificationEvent } from '../types/database';
+
+export const notificationEvents: { value: NotificationEvent; label: string; description: string }[] = [
+  { value: 'booking_confirmed', label: 'Booking confirmed', description: 'A booking is confirmed with a table' },
+  { value: 'booking_updated', label: 'Booking changed', description: 'Date, time or party size changed' },
+  { value: 'booking_cancelled', label: 'Booking cancelled', description: 'The booking was cancelled by the guest or staff' },
+  { value: 'waitlist_joined', label: 'Joined waiting list', description: 'The guest was added to the waiting list' },
+  { value: 'waitlist_promoted', label: 'Promoted from waiting list', description: 'A table freed up and the guest was booked in' },
+  { value: 'waitlist_notified', label: 'Table offered', description: 'A table is held for the guest to accept or decline' }
+];
+
+export const notificationChannels: { value: NotificationChannel; label: string }[] = [
+  { value: 'email', label: 'Email' },
+  { value: 'sms', label: 'SMS' }
+];
+
+export const templatePlaceholders = [
+  'customer_name',
+  'restaurant_name',
+  'restaurant_phone',
+  'date',
+  'time',
+  'party_size',
+  'table_numbers',
+  'waitlist_position',
+  'offer_minutes',
+  'manage_link'
+];
+
+// Booking and waiting list triggers queue notifications in the database; this asks
+// the send-notifications edge function to deliver whatever is queued. Delivery
+// problems never block the booking flow.
+export const flushNotifications = async () => {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/send-notifications`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      console.warn('Notification delivery returned', response.status);
+    }
+  } catch (error) {
+    console.warn('Could not trigger notification delivery:', error);
+  }
+};
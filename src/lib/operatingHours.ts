@@ -0,0 +1,67 @@
+import { parseISO } from 'date-fns';
+import { RestaurantOperatingHours, RestaurantServicePeriod, RestaurantSpecialDate } from '../types/database';
+
+export interface EffectiveServicePeriod {
+  name: string;
+  openingTime: string;
+  closingTime: string;
+  lastSeatingTime: string | null;
+}
+
+export interface EffectiveHours {
+  isClosed: boolean;
+  openingTime: string | null;
+  closingTime: string | null;
+  periods: EffectiveServicePeriod[];
+  specialDate: RestaurantSpecialDate | null;
+}
+
+const toEffectivePeriod = (period: RestaurantServicePeriod): EffectiveServicePeriod => ({
+  name: period.name,
+  openingTime: period.opening_time,
+  closingTime: period.closing_time,
+  lastSeatingTime: period.last_seating_time
+});
+
+// Mirrors get_service_periods in the database: a special date with custom times
+// replaces the day's service periods with a single one (unset times fall back to
+// the weekly hours), otherwise the weekly periods apply
+export const getEffectiveHours = (
+  date: string,
+  operatingHours: RestaurantOperatingHours[],
+  servicePeriods: RestaurantServicePeriod[],
+  specialDates: RestaurantSpecialDate[]
+): EffectiveHours => {
+  const dayOfWeek = parseISO(date).getDay();
+  const weekly = operatingHours.find(h => h.day_of_week === dayOfWeek);
+  const specialDate = specialDates.find(d => d.special_date === date) || null;
+
+  if (specialDate && (specialDate.is_closed || specialDate.opening_time || specialDate.closing_time)) {
+    const openingTime = specialDate.opening_time || weekly?.opening_time || null;
+    const closingTime = specialDate.closing_time || weekly?.closing_time || null;
+    const isClosed = specialDate.is_closed || !openingTime || !closingTime;
+    return {
+      isClosed,
+      openingTime,
+      closingTime,
+      periods: isClosed || !openingTime || !closingTime
+        ? []
+        : [{ name: specialDate.name, openingTime, closingTime, lastSeatingTime: null }],
+      specialDate
+    };
+  }
+
+  const periods = servicePeriods
+    .filter(period => period.day_of_week === dayOfWeek)
+    .sort((a, b) => a.opening_time.localeCompare(b.opening_time) || a.display_order - b.display_order)
+    .map(toEffectivePeriod);
+  const isClosed = !weekly || weekly.is_closed || periods.length === 0;
+
+  return {
+    isClosed,
+    openingTime: weekly?.opening_time || null,
+    closingTime: weekly?.closing_time || null,
+    periods: isClosed ? [] : periods,
+    specialDate
+  };
+};
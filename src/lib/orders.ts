@@ -0,0 +1,35 @@
+import { supabase } from './supabase';
+import { CartItem } from '../types/database';
+
+export interface PlacedOrder {
+  order_id: string;
+  order_number: string;
+  subtotal_sgd: number;
+  discount_sgd: number;
+  total_sgd: number;
+}
+
+// Only what was ordered is sent; submit_order prices it from the menu
+export const placeOrder = async (
+  sessionToken: string,
+  cart: CartItem[],
+  loyaltyUserIds: string[],
+  discountCode: string | null = null
+) => {
+  const { data, error } = await supabase
+    .rpc('submit_order', {
+      p_token: sessionToken,
+      p_items: cart.map(item => ({
+        menu_item_id: item.menu_item.id,
+        quantity: item.quantity,
+        option_ids: (item.modifiers || []).map(modifier => modifier.option_id),
+        special_instructions: item.special_instructions || null
+      })),
+      p_loyalty_user_ids: loyaltyUserIds.length > 0 ? loyaltyUserIds : null,
+      p_discount_code: discountCode
+    });
+
+  // Validation failures come back as readable messages, e.g. "Laksa is not available right now"
+  if (error) throw new Error(error.message);
+  return data[0] as PlacedOrder;
+};
@@ -0,0 +1,113 @@
+import { supabase } from './supabase';
+import { PrintOutputFormat } from '../types/database';
+
+// Order triggers and reprints queue print jobs in the database, and the
+// database runs the queue every minute; staff call this to print their
+// restaurant's queued jobs straight away. Printer problems never block ordering.
+export const flushPrintJobs = async (restaurantId: string) => {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return;
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/print-proxy/process-jobs`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ restaurantId }),
+    });
+
+    if (!response.ok) {
+      console.warn('Print job processing returned', response.status);
+    }
+  } catch (error) {
+    console.warn('Could not trigger print job processing:', error);
+  }
+};
+
+// Reprints every station's ticket for the order when stationId is null
+export const reprintKitchenTicket = async (orderId: string, stationId: string | null) => {
+  const { error } = await supabase.rpc('reprint_kitchen_ticket', {
+    p_order_id: orderId,
+    p_station_id: stationId
+  });
+
+  if (error) throw new Error(error.message);
+};
+
+export const retryPrintJob = async (jobId: string) => {
+  const { error } = await supabase
+    .rpc('retry_print_job', { p_job_id: jobId });
+
+  if (error) throw error;
+};
+
+export type PrintTemplate = 'kitchen_ticket' | 'receipt' | 'test_page' | 'table_qr';
+
+export const printTemplates: { value: PrintTemplate; label: string }[] = [
+  { value: 'test_page', label: 'Test page' },
+  { value: 'kitchen_ticket', label: 'Kitchen ticket' },
+  { value: 'receipt', label: 'Receipt' },
+  { value: 'table_qr', label: 'Table QR code' }
+];
+
+// Either a saved printer, or the settings of one that hasn't been saved yet
+export type PrintTarget =
+  | { printerConfigId: string }
+  | { deviceId: string; printerId: string; outputFormat: PrintOutputFormat; paperWidthMm: number; printLogo: boolean };
+
+const callPrintProxy = async (endpoint: string, body: Record<string, unknown>) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/print-proxy/${endpoint}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${session?.access_token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error || `Print request failed: ${response.status}`);
+  }
+  return result;
+};
+
+// Prints a test page or table QR code, laid out for the printer's format and
+// paper. Saved printers print through the queue: if the first attempt fails the
+// job stays queued and is retried, and this throws to say so.
+export const printTemplate = async (
+  restaurantId: string,
+  target: PrintTarget,
+  template: 'test_page' | 'table_qr',
+  data?: Record<string, string>
+) => {
+  const result = await callPrintProxy('print', { restaurantId, template, data, ...target });
+
+  if (result.status === 'queued') {
+    throw new Error(`${result.error || 'The printer did not respond'}. The job will be retried automatically.`);
+  }
+  if (result.status === 'failed') {
+    throw new Error(result.error || 'Print failed');
+  }
+};
+
+// Plain-text rendering of a template with example content, as a thermal
+// printer with this paper width would print it
+export const previewTemplate = async (
+  restaurantId: string,
+  template: PrintTemplate,
+  paperWidthMm: number,
+  printLogo: boolean
+): Promise<string> => {
+  const result = await callPrintProxy('preview', { restaurantId, template, paperWidthMm, printLogo });
+  return result.text;
+};
+
+export const printOrderReceipt = async (orderId: string) => {
+  const { error } = await supabase.rpc('queue_order_receipt', { p_order_id: orderId });
+
+  if (error) throw new Error(error.message);
+};
@@ -0,0 +1,135 @@
+import { supabase } from './supabase';
+import { GroupOutletSummary, MenuItemOverrideField, Restaurant, RestaurantGroup } from '../types/database';
+
+// The outlet picked in the switcher, remembered on this device
+const SELECTED_RESTAURANT_KEY = 'selectedRestaurantId';
+
+export const getSelectedRestaurantId = () => localStorage.getItem(SELECTED_RESTAURANT_KEY);
+
+// Every part of the dashboard loads its own copy of the restaurant, so switching
+// outlets reloads the page
+export const switchRestaurant = (restaurantId: string) => {
+  localStorage.setItem(SELECTED_RESTAURANT_KEY, restaurantId);
+  window.location.reload();
+};
+
+// The outlets the user owns plus the one they work at, by name
+export const fetchMyRestaurants = async (userId: string, staffRestaurantId: string | null): Promise<Restaurant[]> => {
+  const { data, error } = await supabase
+    .from('restaurants')
+    .select('*')
+    .or(staffRestaurantId ? `owner_id.eq.${userId},id.eq.${staffRestaurantId}` : `owner_id.eq.${userId}`)
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// The remembered outlet if the user can still open it, then the one on their
+// profile, then the first
+export const pickRestaurant = (restaurants: Restaurant[], staffRestaurantId: string | null) => {
+  const selectedId = getSelectedRestaurantId();
+  return restaurants.find(r => r.id === selectedId)
+    || restaurants.find(r => r.id === staffRestaurantId)
+    || restaurants[0]
+    || null;
+};
+
+export const fetchRestaurantGroup = async (groupId: string): Promise<RestaurantGroup | null> => {
+  const { data, error } = await supabase
+    .from('restaurant_groups')
+    .select('*')
+    .eq('id', groupId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Starts a group with the outlet in it
+export const createRestaurantGroup = async (ownerId: string, name: string, restaurantId: string) => {
+  const { data, error } = await supabase
+    .from('restaurant_groups')
+    .insert({ owner_id: ownerId, name })
+    .select()
+    .single();
+
+  if (error) throw error;
+  await setRestaurantGroup(restaurantId, data.id);
+  return data as RestaurantGroup;
+};
+
+export const updateRestaurantGroup = async (
+  groupId: string,
+  updates: Partial<Pick<RestaurantGroup, 'name' | 'menu_restaurant_id' | 'shared_loyalty'>>
+) => {
+  const { error } = await supabase
+    .from('restaurant_groups')
+    .update(updates)
+    .eq('id', groupId);
+
+  if (error) throw error;
+};
+
+// Outlets keep their menus and data when the group goes
+export const deleteRestaurantGroup = async (groupId: string) => {
+  const { error } = await supabase
+    .from('restaurant_groups')
+    .delete()
+    .eq('id', groupId);
+
+  if (error) throw error;
+};
+
+export const setRestaurantGroup = async (restaurantId: string, groupId: string | null) => {
+  const { error } = await supabase
+    .from('restaurants')
+    .update({ group_id: groupId })
+    .eq('id', restaurantId);
+
+  if (error) throw error;
+};
+
+// Copies the source outlet's menu to the rest of the group; returns how many
+// outlets were updated
+export const publishGroupMenu = async (groupId: string): Promise<number> => {
+  const { data, error } = await supabase
+    .rpc('sync_group_menu', { p_group_id: groupId });
+
+  if (error) throw error;
+  return data ?? 0;
+};
+
+export const overrideFieldLabels: Record<MenuItemOverrideField, string> = {
+  name: 'Name',
+  description: 'Description',
+  price_sgd: 'Price',
+  image_url: 'Image',
+  allergens: 'Allergens',
+  dietary_info: 'Dietary info',
+  category_id: 'Category'
+};
+
+// Puts an outlet's copy of a group menu item back to the group's version
+export const resetMenuItemOverrides = async (menuItemId: string) => {
+  const { error } = await supabase
+    .rpc('reset_menu_item_overrides', { p_item_id: menuItemId });
+
+  if (error) throw error;
+};
+
+export const fetchGroupOutletSummary = async (
+  groupId: string,
+  startDate: string,
+  endDate: string
+): Promise<GroupOutletSummary[]> => {
+  const { data, error } = await supabase
+    .rpc('get_group_outlet_summary', {
+      p_group_id: groupId,
+      p_start_date: startDate,
+      p_end_date: endDate
+    });
+
+  if (error) throw error;
+  return data || [];
+};
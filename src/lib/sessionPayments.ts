@@ -0,0 +1,82 @@
+import { supabase } from './supabase';
+import { BillSplitMethod, BillSplitShare, SessionPaymentStatus } from '../types/database';
+
+export const tipPercentages = [0, 5, 10, 15];
+
+// Sends the diner to checkout for every unpaid order at their table, or for one
+// share of a split bill. They come back to the ordering page either way.
+export const startSessionPayment = async (sessionToken: string, tip: number, shareId?: string) => {
+  const orderUrl = `${window.location.origin}${window.location.pathname}`;
+  const shareParam = shareId ? `&share=${shareId}` : '';
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/session-payment`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      session_token: sessionToken,
+      share_id: shareId,
+      tip_sgd: tip,
+      success_url: `${orderUrl}?payment=success${shareParam}`,
+      cancel_url: `${orderUrl}?payment=cancelled${shareParam}`,
+    }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to start payment');
+  }
+
+  window.location.href = data.url;
+};
+
+export const getSessionPayment = async (sessionToken: string, paymentId?: string | null) => {
+  const { data, error } = await supabase
+    .rpc('get_session_payment', { p_token: sessionToken, p_payment_id: paymentId ?? null });
+
+  if (error) throw error;
+  return (data?.[0] as SessionPaymentStatus | undefined) ?? null;
+};
+
+export const getBillSplit = async (sessionToken: string) => {
+  const { data, error } = await supabase
+    .rpc('get_bill_split', { p_token: sessionToken });
+
+  if (error) throw error;
+  return (data || []) as BillSplitShare[];
+};
+
+export interface ItemSplitShare {
+  label: string;
+  item_ids: string[];
+}
+
+export interface CustomSplitShare {
+  label: string;
+  amount: number;
+}
+
+// Replaces any split nobody has paid into yet
+export const createBillSplit = async (
+  sessionToken: string,
+  method: BillSplitMethod,
+  shares: { count: number } | ItemSplitShare[] | CustomSplitShare[]
+) => {
+  const { data, error } = await supabase
+    .rpc('create_bill_split', {
+      p_token: sessionToken,
+      p_method: method,
+      p_shares: shares
+    });
+
+  if (error) throw error;
+  return data as string;
+};
+
+export const cancelBillSplit = async (sessionToken: string) => {
+  const { error } = await supabase
+    .rpc('cancel_bill_split', { p_token: sessionToken });
+
+  if (error) throw error;
+};
@@ -0,0 +1,153 @@
+import { supabase } from './supabase';
+import { StaffInvitation, StaffInvitationDetails, StaffMember, StaffPermission, StaffRole } from '../types/database';
+
+export const staffRoles: { value: StaffRole; label: string; description: string }[] = [
+  { value: 'owner', label: 'Owner', description: 'Everything, including billing' },
+  { value: 'manager', label: 'Manager', description: 'Everything but billing; can invite hosts, servers and kitchen staff' },
+  { value: 'host', label: 'Host', description: 'Bookings, the waiting list and tables' },
+  { value: 'server', label: 'Server', description: 'Tables, orders and the kitchen display' },
+  { value: 'kitchen', label: 'Kitchen', description: 'The kitchen display' }
+];
+
+export const staffPermissions: { value: StaffPermission; label: string }[] = [
+  { value: 'bookings', label: 'Bookings & waiting list' },
+  { value: 'tables', label: 'Tables & walk-ins' },
+  { value: 'orders', label: 'Orders' },
+  { value: 'kitchen', label: 'Kitchen display' },
+  { value: 'printing', label: 'Printing' },
+  { value: 'menu', label: 'Menu & inventory' },
+  { value: 'settings', label: 'Restaurant settings' },
+  { value: 'analytics', label: 'Analytics' },
+  { value: 'loyalty', label: 'Loyalty' },
+  { value: 'staff', label: 'Staff' },
+  { value: 'billing', label: 'Billing' }
+];
+
+// Copy of role_has_permission in the database, which enforces it; keep the two
+// in step
+export const rolePermissions: Record<StaffRole, StaffPermission[]> = {
+  owner: ['bookings', 'tables', 'orders', 'kitchen', 'printing', 'menu', 'settings', 'analytics', 'loyalty', 'staff', 'billing'],
+  manager: ['bookings', 'tables', 'orders', 'kitchen', 'printing', 'menu', 'settings', 'analytics', 'loyalty', 'staff'],
+  host: ['bookings', 'tables', 'printing'],
+  server: ['tables', 'orders', 'kitchen', 'printing'],
+  kitchen: ['kitchen', 'printing']
+};
+
+export const hasPermission = (role: StaffRole | null, permission: StaffPermission) => {
+  return role !== null && rolePermissions[role].includes(permission);
+};
+
+export const getRoleLabel = (role: StaffRole) => {
+  return staffRoles.find(r => r.value === role)?.label || role;
+};
+
+// Roles the user may give others; only owners add managers
+export const assignableRoles = (role: StaffRole | null): StaffRole[] => {
+  if (role === 'owner') return ['manager', 'host', 'server', 'kitchen'];
+  if (role === 'manager') return ['host', 'server', 'kitchen'];
+  return [];
+};
+
+// Staff who aren't the owner find their restaurant through their profile
+export const getStaffRestaurantId = async (userId: string): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('restaurant_id')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.restaurant_id ?? null;
+};
+
+export const fetchStaffRole = async (restaurantId: string): Promise<StaffRole | null> => {
+  const { data, error } = await supabase
+    .rpc('get_my_staff_role', { p_restaurant_id: restaurantId });
+
+  if (error) throw error;
+  return data ?? null;
+};
+
+export const fetchStaffMembers = async (restaurantId: string): Promise<StaffMember[]> => {
+  const { data, error } = await supabase
+    .rpc('get_restaurant_staff', { p_restaurant_id: restaurantId });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const setStaffRole = async (restaurantId: string, userId: string, role: StaffRole) => {
+  const { error } = await supabase
+    .rpc('set_staff_role', { p_restaurant_id: restaurantId, p_user_id: userId, p_role: role });
+
+  if (error) throw error;
+};
+
+export const removeStaffMember = async (restaurantId: string, userId: string) => {
+  const { error } = await supabase
+    .rpc('remove_staff_member', { p_restaurant_id: restaurantId, p_user_id: userId });
+
+  if (error) throw error;
+};
+
+// Invitations that haven't been accepted yet, newest first
+export const fetchStaffInvitations = async (restaurantId: string): Promise<StaffInvitation[]> => {
+  const { data, error } = await supabase
+    .from('staff_invitations')
+    .select('*')
+    .eq('restaurant_id', restaurantId)
+    .is('accepted_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const getInvitationLink = (token: string) => `${window.location.origin}/invite/${token}`;
+
+// The staff-invite edge function records the invitation and emails the link
+export const inviteStaffMember = async (
+  restaurantId: string,
+  email: string,
+  role: StaffRole
+): Promise<{ inviteLink: string; emailSent: boolean; emailError: string | null }> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/staff-invite`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${session?.access_token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ restaurantId, email, role }),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error || `Invitation failed: ${response.status}`);
+  }
+  return result;
+};
+
+export const revokeStaffInvitation = async (invitationId: string) => {
+  const { error } = await supabase
+    .from('staff_invitations')
+    .delete()
+    .eq('id', invitationId);
+
+  if (error) throw error;
+};
+
+export const getStaffInvitation = async (token: string): Promise<StaffInvitationDetails | null> => {
+  const { data, error } = await supabase
+    .rpc('get_staff_invitation', { p_token: token });
+
+  if (error) throw error;
+  return data && data.length > 0 ? data[0] : null;
+};
+
+export const acceptStaffInvitation = async (token: string) => {
+  const { error } = await supabase
+    .rpc('accept_staff_invitation', { p_token: token });
+
+  if (error) throw error;
+};
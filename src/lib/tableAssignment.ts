@@ -0,0 +1,121 @@
+import { supabase } from './supabase';
+import { AvailableTable, AvailableTableCombination } from '../types/database';
+
+export interface TableAssignment {
+  tableIds: string[];
+  tableNumbers: string[];
+  combinationId: string | null;
+  areaId: string | null;
+}
+
+interface TableAssignmentQuery {
+  restaurantId: string;
+  date: string;
+  time: string;
+  partySize: number;
+  durationMinutes?: number;
+  // Dining area the guest would like to sit in
+  areaId?: string | null;
+}
+
+const fromTable = (table: AvailableTable): TableAssignment => ({
+  tableIds: [table.table_id],
+  tableNumbers: [table.table_number],
+  combinationId: null,
+  areaId: table.area_id
+});
+
+const fromCombination = (combination: AvailableTableCombination): TableAssignment => ({
+  tableIds: combination.table_ids,
+  tableNumbers: combination.table_numbers,
+  combinationId: combination.combination_id,
+  areaId: combination.area_id
+});
+
+// Smallest single table that fits the party, falling back to the smallest free
+// table combination when no single table is big enough. With a preferred area,
+// a combination there beats a single table elsewhere.
+export const findTableAssignment = async ({
+  restaurantId,
+  date,
+  time,
+  partySize,
+  durationMinutes,
+  areaId
+}: TableAssignmentQuery): Promise<TableAssignment | null> => {
+  const params = {
+    p_restaurant_id: restaurantId,
+    p_date: date,
+    p_time: time,
+    p_party_size: partySize,
+    p_duration_minutes: durationMinutes ?? null,
+    p_area_id: areaId ?? null
+  };
+
+  const { data: availableTables, error: tablesError } = await supabase
+    .rpc('get_available_tables', params);
+
+  if (tablesError) throw tablesError;
+
+  // Tables in the preferred area come first
+  const table = (availableTables?.[0] as AvailableTable | undefined) ?? null;
+  if (table && (!areaId || table.area_id === areaId)) {
+    return fromTable(table);
+  }
+
+  const { data: combinations, error: combinationsError } = await supabase
+    .rpc('get_available_table_combinations', params);
+
+  if (combinationsError) throw combinationsError;
+
+  const combination = (combinations?.[0] as AvailableTableCombination | undefined) ?? null;
+  if (combination && (!table || (areaId && combination.area_id === areaId))) {
+    return fromCombination(combination);
+  }
+
+  return table ? fromTable(table) : null;
+};
+
+interface BookingRequest {
+  restaurantId: string;
+  customerId: string;
+  date: string;
+  time: string;
+  partySize: number;
+  notes?: string | null;
+  seatingAreaId?: string | null;
+  // Staff only; guests get the default sitting and a plain 'auto' booking
+  durationMinutes?: number;
+  status?: 'pending' | 'confirmed';
+  assignmentMethod?: string;
+  wasOnWaitlist?: boolean;
+}
+
+// Writes the booking and holds every assigned table in one step. Fails when
+// someone else has taken one of the tables since they were found.
+export const createBooking = async (request: BookingRequest, assignment: TableAssignment) => {
+  const { data, error } = await supabase.rpc('create_booking', {
+    p_restaurant_id: request.restaurantId,
+    p_customer_id: request.customerId,
+    p_booking_date: request.date,
+    p_booking_time: request.time,
+    p_party_size: request.partySize,
+    p_table_ids: assignment.tableIds,
+    p_combination_id: assignment.combinationId,
+    p_duration_minutes: request.durationMinutes ?? null,
+    p_notes: request.notes ?? null,
+    p_seating_area_id: request.seatingAreaId ?? null,
+    p_status: request.status ?? 'confirmed',
+    p_assignment_method: request.assignmentMethod ?? 'auto',
+    p_was_on_waitlist: request.wasOnWaitlist ?? false
+  });
+
+  if (error) throw new Error(error.message);
+
+  const booking = data?.[0] as { booking_id: string; manage_token: string } | undefined;
+  if (!booking) throw new Error('Failed to create booking');
+
+  return { id: booking.booking_id, manage_token: booking.manage_token };
+};
+
+export const formatTableNumbers = (tableNumbers: string[]) => tableNumbers.join(' + ');
@@ -2,6 +2,18 @@ export type TableStatus = 'available' | 'occupied' | 'reserved' | 'maintenance';
 export type BookingStatus = 'pending' | 'confirmed' | 'seated' | 'completed' | 'cancelled' | 'no_show';
 export type WaitingListStatus = 'waiting' | 'notified' | 'confirmed' | 'expired' | 'cancelled';
 export type AssignmentMethod = 'auto' | 'manual' | 'waitlist';
+export type WaitlistMatchingMode = 'strict' | 'first_fit' | 'best_fit';
+export type DepositPolicy = 'none' | 'deposit' | 'guarantee';
+export type BookingPaymentStatus =
+  | 'pending'
+  | 'paid'
+  | 'card_saved'
+  | 'charged'
+  | 'refunded'
+  | 'retained'
+  | 'released'
+  | 'cancelled'
+  | 'failed';
 
 export interface Restaurant {
   id: string;
@@ -12,12 +24,48 @@ export interface Restaurant {
   email: string | null;
   owner_id: string;
   time_slot_duration_minutes: number;
+  timezone: string; // IANA name, e.g. Asia/Singapore
+  booking_change_cutoff_hours: number;
+  waitlist_offer_minutes: number;
+  waitlist_matching_mode: WaitlistMatchingMode;
+  waitlist_time_tolerance_minutes: number;
+  deposit_policy: DepositPolicy;
+  deposit_amount_per_guest: number;
+  deposit_min_party_size: number | null; // null = only on special dates that require it
+  deposit_currency: string;
   print_api_url: string | null;
   print_api_key: string | null;
+  auto_print_tickets: boolean;
+  group_id: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Outlets with one owner that share a menu, loyalty and analytics
+export interface RestaurantGroup {
+  id: string;
+  owner_id: string;
+  name: string;
+  menu_restaurant_id: string | null; // null = each outlet keeps its own menu
+  menu_published_at: string | null;
+  shared_loyalty: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GroupOutletSummary {
+  restaurant_id: string;
+  restaurant_name: string;
+  total_bookings: number;
+  total_covers: number;
+  no_shows: number;
+  waitlist_entries: number;
+  total_orders: number;
+  total_revenue: number;
+  avg_order_value: number;
+  total_discounts: number;
+}
+
 export interface RestaurantTable {
   id: string;
   restaurant_id: string;
@@ -25,8 +73,47 @@ export interface RestaurantTable {
   capacity: number;
   status: TableStatus;
   location_notes: string | null;
+  area_id: string | null;
+  // Top-left corner on the area's floor plan; null until the table is placed
+  pos_x: number | null;
+  pos_y: number | null;
+  shape: TableShape;
+  width: number;
+  height: number;
+  rotation: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type TableShape = 'square' | 'round' | 'rectangle';
+
+export interface DiningArea {
+  id: string;
+  restaurant_id: string;
+  name: string;
+  description: string | null;
+  display_order: number;
+  width: number;
+  height: number;
+  is_open: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SeatingArea {
+  area_id: string;
+  name: string;
+  description: string | null;
+}
+
+export interface TableCombination {
+  id: string;
+  restaurant_id: string;
+  name: string;
+  is_active: boolean;
   created_at: string;
   updated_at: string;
+  members?: { table_id: string }[];
 }
 
 export interface Customer {
@@ -46,15 +133,55 @@ export interface Booking {
   booking_date: string;
   booking_time: string;
   party_size: number;
+  expected_duration_minutes: number;
   status: BookingStatus;
   notes: string | null;
   is_walk_in: boolean;
   assignment_method: AssignmentMethod;
   was_on_waitlist: boolean;
+  combination_id: string | null;
+  seating_area_id: string | null;
+  manage_token: string;
   created_at: string;
   updated_at: string;
   customer?: Customer;
   restaurant_table?: RestaurantTable;
+  held_tables?: BookingTable[];
+  seating_area?: Pick<DiningArea, 'name'> | null;
+  payment?: BookingPayment | null;
+}
+
+export interface BookingTable {
+  booking_id: string;
+  table_id: string;
+  created_at: string;
+  restaurant_table?: RestaurantTable;
+}
+
+export interface BookingPayment {
+  id: string;
+  booking_id: string;
+  restaurant_id: string;
+  payment_type: 'deposit' | 'guarantee';
+  amount: number;
+  currency: string;
+  status: BookingPaymentStatus;
+  pending_action: 'refund' | 'charge' | null;
+  stripe_checkout_session_id: string | null;
+  stripe_customer_id: string | null;
+  stripe_payment_intent_id: string | null;
+  stripe_payment_method_id: string | null;
+  stripe_refund_id: string | null;
+  error_message: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DepositRequirement {
+  payment_type: 'deposit' | 'guarantee';
+  amount_per_guest: number;
+  amount: number;
+  currency: string;
 }
 
 export interface BookingWithDetails extends Booking {
@@ -72,6 +199,12 @@ export interface WaitingListEntry {
   status: WaitingListStatus;
   priority_order: number;
   notes: string | null;
+  manage_token: string;
+  offered_at: string | null;
+  offer_expires_at: string | null;
+  offer_time: string | null; // sitting the open offer is for
+  offer_table_ids: string[] | null;
+  offer_combination_id: string | null;
   created_at: string;
   updated_at: string;
   customer?: Customer;
@@ -92,6 +225,36 @@ export interface RestaurantOperatingHours {
   updated_at: string;
 }
 
+export interface RestaurantServicePeriod {
+  id: string;
+  restaurant_id: string;
+  day_of_week: number; // 0 = Sunday, 6 = Saturday
+  name: string;
+  opening_time: string;
+  closing_time: string;
+  last_seating_time: string | null;
+  display_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RestaurantSpecialDate {
+  id: string;
+  restaurant_id: string;
+  special_date: string;
+  name: string;
+  is_closed: boolean;
+  opening_time: string | null;
+  closing_time: string | null;
+  time_slot_duration_minutes: number | null;
+  requires_deposit: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// escpos: raw commands for thermal printers; html: rendered by the print client
+export type PrintOutputFormat = 'html' | 'escpos';
+
 export interface PrinterConfig {
   id: string;
   restaurant_id: string;
@@ -103,12 +266,17 @@ export interface PrinterConfig {
   printer_id: string | null;
   is_default: boolean;
   is_active: boolean;
+  output_format: PrintOutputFormat;
+  paper_width_mm: 58 | 80;
+  print_logo: boolean;
+  backup_printer_config_id: string | null;
   created_at: string;
   updated_at: string;
 }
 
 export interface TimeSlot {
   time: string;
+  servicePeriod: string | null;
   available: boolean;
   totalCapacity: number;
   bookedCapacity: number;
@@ -120,6 +288,90 @@ export interface AvailableTable {
   table_id: string;
   table_number: string;
   capacity: number;
+  area_id: string | null;
+  area_name: string | null;
+}
+
+export interface AvailableTableCombination {
+  combination_id: string;
+  combination_name: string;
+  table_ids: string[];
+  table_numbers: string[];
+  capacity: number;
+  // Set when every table of the combination stands in the same area
+  area_id: string | null;
+}
+
+export interface SlotAvailability {
+  slot_date: string;
+  slot_time: string;
+  period_name: string | null;
+  total_capacity: number;
+  booked_capacity: number;
+  available_capacity: number;
+  waiting_count: number;
+}
+
+// Booking or waiting list entry behind a guest manage link (get_managed_booking)
+export interface ManagedBooking {
+  entry_type: 'booking' | 'waitlist';
+  entry_id: string;
+  restaurant_id: string;
+  restaurant_name: string;
+  restaurant_phone: string | null;
+  customer_name: string | null;
+  booking_date: string;
+  booking_time: string;
+  party_size: number;
+  expected_duration_minutes: number;
+  status: BookingStatus | WaitingListStatus;
+  notes: string | null;
+  table_numbers: string[] | null;
+  waitlist_position: number | null;
+  change_cutoff_hours: number;
+  can_change: boolean;
+  offer_expires_at: string | null; // open waiting list offer
+}
+
+export type NotificationEvent =
+  | 'booking_confirmed'
+  | 'booking_updated'
+  | 'booking_cancelled'
+  | 'waitlist_joined'
+  | 'waitlist_promoted'
+  | 'waitlist_notified';
+export type NotificationChannel = 'email' | 'sms';
+export type NotificationStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+
+export interface NotificationTemplate {
+  id: string;
+  restaurant_id: string | null; // null = built-in default
+  event: NotificationEvent;
+  channel: NotificationChannel;
+  subject: string | null;
+  body: string;
+  is_enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NotificationLogEntry {
+  id: string;
+  restaurant_id: string;
+  booking_id: string | null;
+  waiting_list_id: string | null;
+  event: NotificationEvent;
+  channel: NotificationChannel;
+  recipient: string | null;
+  subject: string | null;
+  body: string | null;
+  status: NotificationStatus;
+  provider: string | null;
+  provider_message_id: string | null;
+  error_message: string | null;
+  attempts: number;
+  created_at: string;
+  sent_at: string | null;
 }
 
 // QR Ordering System Types
@@ -130,6 +382,26 @@ export interface MenuCategory {
   description: string | null;
   display_order: number;
   is_active: boolean;
+  schedule_id: string | null;
+  station_id: string | null;
+  shared_category_id: string | null;
+  created_at: string;
+  updated_at: string;
+  schedule?: MenuSchedule | null;
+}
+
+export interface MenuSchedule {
+  id: string;
+  restaurant_id: string;
+  name: string;
+  description: string | null;
+  days_of_week: number[];
+  start_time: string | null;
+  end_time: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  is_active: boolean;
+  display_order: number;
   created_at: string;
   updated_at: string;
 }
@@ -146,9 +418,84 @@ export interface MenuItem {
   display_order: number;
   allergens: string[] | null;
   dietary_info: string[] | null;
+  stock_quantity: number | null;
+  low_stock_threshold: number | null;
+  par_level: number | null;
+  sold_out_at: string | null;
+  restocked_at: string | null;
+  // Set on an outlet's copy of a group menu item
+  shared_item_id: string | null;
+  overridden_fields: MenuItemOverrideField[];
   created_at: string;
   updated_at: string;
   category?: MenuCategory;
+  modifier_groups?: MenuModifierGroup[];
+  ingredients?: MenuItemIngredient[];
+}
+
+export type MenuItemOverrideField =
+  | 'name'
+  | 'description'
+  | 'price_sgd'
+  | 'image_url'
+  | 'allergens'
+  | 'dietary_info'
+  | 'category_id';
+
+export interface InventoryIngredient {
+  id: string;
+  restaurant_id: string;
+  name: string;
+  unit: string;
+  stock_quantity: number;
+  low_stock_threshold: number | null;
+  par_level: number | null;
+  restocked_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MenuItemIngredient {
+  menu_item_id: string;
+  ingredient_id: string;
+  quantity: number;
+  created_at: string;
+  ingredient?: InventoryIngredient;
+}
+
+export interface MenuModifierGroup {
+  id: string;
+  restaurant_id: string;
+  menu_item_id: string;
+  name: string;
+  min_selections: number;
+  max_selections: number | null;
+  display_order: number;
+  shared_group_id: string | null;
+  created_at: string;
+  updated_at: string;
+  options?: MenuModifierOption[];
+}
+
+export interface MenuModifierOption {
+  id: string;
+  group_id: string;
+  name: string;
+  price_delta_sgd: number;
+  is_available: boolean;
+  display_order: number;
+  shared_option_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// An option picked for an order item, copied from the menu when ordered
+export interface SelectedModifier {
+  group_id: string;
+  group_name: string;
+  option_id: string;
+  name: string;
+  price_delta_sgd: number;
 }
 
 export interface LoyaltyUser {
@@ -166,6 +513,53 @@ export interface LoyaltyUser {
   updated_at: string;
 }
 
+// A loyalty member's spending, added up across the outlets sharing loyalty
+export interface LoyaltyMember {
+  user_id: string;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  total_spent_sgd: number;
+  order_count: number;
+  last_order_date: string | null;
+  discount_eligible: boolean;
+  outlet_count: number;
+}
+
+export interface LoyaltySettings {
+  restaurant_id: string;
+  discount_threshold: number;
+  discount_percentage: number;
+  points_per_dollar: number;
+  welcome_bonus: number;
+  birthday_bonus: number;
+  referral_bonus: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type DiscountCodeType = 'percentage' | 'fixed';
+
+export interface DiscountCode {
+  id: string;
+  restaurant_id: string;
+  code: string;
+  description: string | null;
+  discount_type: DiscountCodeType;
+  discount_value: number;
+  min_order_amount: number;
+  max_uses: number | null;
+  current_uses: number;
+  valid_from: string | null;
+  valid_until: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// A code a diner entered, as check_discount_code returns it
+export type AppliedDiscountCode = Pick<DiscountCode, 'code' | 'description' | 'discount_type' | 'discount_value' | 'min_order_amount'>;
+
 export interface OrderSession {
   id: string;
   restaurant_id: string;
@@ -190,6 +584,9 @@ export interface Order {
   total_sgd: number;
   discount_applied: boolean;
   triggering_user_id: string | null;
+  discount_code_id: string | null;
+  discount_code: string | null;
+  code_discount_sgd: number;
   status: 'pending' | 'confirmed' | 'preparing' | 'ready' | 'served' | 'paid';
   notes: string | null;
   created_at: string;
@@ -206,23 +603,183 @@ export interface OrderItem {
   unit_price_sgd: number;
   total_price_sgd: number;
   special_instructions: string | null;
+  modifiers: SelectedModifier[];
+  station_id: string | null;
+  kitchen_status: KitchenItemStatus;
+  kitchen_started_at: string | null;
+  kitchen_ready_at: string | null;
   created_at: string;
   menu_item?: MenuItem;
 }
 
+export type KitchenItemStatus = 'pending' | 'preparing' | 'ready';
+
+export interface KitchenStation {
+  id: string;
+  restaurant_id: string;
+  name: string;
+  color: string;
+  warning_minutes: number;
+  critical_minutes: number;
+  display_order: number;
+  is_active: boolean;
+  printer_config_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// sent: accepted by the print middleware; printed: confirmed by the print client
+export type PrintJobStatus = 'queued' | 'sent' | 'printed' | 'failed';
+
+export interface PrintJob {
+  id: string;
+  restaurant_id: string;
+  order_id: string | null;
+  station_id: string | null;
+  printer_config_id: string | null;
+  failed_over_from: string | null;
+  job_type: 'kitchen_ticket' | 'receipt' | 'test_page' | 'table_qr';
+  item_ids: string[];
+  payload: Record<string, string>;
+  is_reprint: boolean;
+  status: PrintJobStatus;
+  error_message: string | null;
+  attempts: number;
+  next_attempt_at: string;
+  created_at: string;
+  sent_at: string | null;
+  printed_at: string | null;
+}
+
+export interface PrintJobAttempt {
+  id: string;
+  job_id: string;
+  restaurant_id: string;
+  printer_config_id: string | null;
+  attempt: number;
+  status: 'sent' | 'printed' | 'failed';
+  error_message: string | null;
+  created_at: string;
+}
+
 export interface OrderWithDetails extends Order {
   session: OrderSession;
   items: (OrderItem & { menu_item: MenuItem })[];
 }
 
+export interface SessionPayment {
+  id: string;
+  session_id: string;
+  restaurant_id: string;
+  order_ids: string[];
+  provider: 'stripe' | 'mock' | null;
+  split_id: string | null;
+  share_number: number | null;
+  label: string | null;
+  item_ids: string[] | null;
+  subtotal_sgd: number;
+  tip_sgd: number;
+  total_sgd: number;
+  // refund_due/refunded: paid after the checkout was replaced (by a newer one or
+  // a split), or for orders that were already paid
+  status: 'pending' | 'paid' | 'cancelled' | 'refund_due' | 'refunded';
+  stripe_checkout_session_id: string | null;
+  stripe_payment_intent_id: string | null;
+  paid_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Latest payment for a session as seen by the diner
+export interface SessionPaymentStatus {
+  status: SessionPayment['status'];
+  label: string | null;
+  subtotal_sgd: number;
+  tip_sgd: number;
+  total_sgd: number;
+  paid_at: string | null;
+  session_active: boolean;
+}
+
+export type BillSplitMethod = 'even' | 'items' | 'custom';
+
+export interface BillSplit {
+  id: string;
+  session_id: string;
+  restaurant_id: string;
+  split_method: BillSplitMethod;
+  order_ids: string[];
+  total_sgd: number;
+  status: 'open' | 'settled' | 'cancelled';
+  created_at: string;
+  updated_at: string;
+}
+
+// One share of a session's open split, as returned by get_bill_split
+export interface BillSplitShare {
+  split_id: string;
+  split_method: BillSplitMethod;
+  split_total_sgd: number;
+  share_id: string;
+  share_number: number;
+  label: string;
+  item_ids: string[] | null;
+  amount_sgd: number;
+  tip_sgd: number;
+  status: SessionPayment['status'];
+}
+
 export interface CartItem {
   menu_item: MenuItem;
   quantity: number;
   special_instructions?: string;
+  modifiers?: SelectedModifier[];
 }
 
 export interface LoyaltyDiscount {
   discount_eligible: boolean;
   discount_amount: number;
   triggering_user_id: string | null;
-}
\ No newline at end of file
+}
+export type StaffRole = 'owner' | 'manager' | 'host' | 'server' | 'kitchen';
+export type StaffPermission =
+  | 'bookings'
+  | 'tables'
+  | 'orders'
+  | 'kitchen'
+  | 'printing'
+  | 'menu'
+  | 'settings'
+  | 'analytics'
+  | 'loyalty'
+  | 'staff'
+  | 'billing';
+
+// As returned by get_restaurant_staff
+export interface StaffMember {
+  user_id: string;
+  email: string;
+  role: StaffRole;
+}
+
+export interface StaffInvitation {
+  id: string;
+  restaurant_id: string;
+  email: string;
+  role: Exclude<StaffRole, 'owner'>;
+  token: string;
+  invited_by: string | null;
+  expires_at: string;
+  accepted_at: string | null;
+  accepted_by: string | null;
+  created_at: string;
+}
+
+// What the invite page shows, as returned by get_staff_invitation
+export interface StaffInvitationDetails {
+  restaurant_name: string;
+  email: string;
+  role: Exclude<StaffRole, 'owner'>;
+  expires_at: string;
+  accepted_at: string | null;
+}
@@ -0,0 +1,122 @@
+export type NotificationChannel = 'email' | 'sms';
+
+export interface OutboundMessage {
+  channel: NotificationChannel;
+  to: string;
+  subject: string | null;
+  body: string;
+}
+
+export interface SendResult {
+  providerMessageId: string | null;
+}
+
+// Every transport implements this; pick one per channel with
+// NOTIFICATION_EMAIL_PROVIDER / NOTIFICATION_SMS_PROVIDER
+export interface NotificationProvider {
+  name: string;
+  send(message: OutboundMessage): Promise<SendResult>;
+}
+
+// Logs messages instead of sending them, optionally appending them as JSON lines
+// to NOTIFICATION_OUTBOX_FILE. Used for local testing and as the default.
+class ConsoleProvider implements NotificationProvider {
+  name = 'console';
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    const providerMessageId = crypto.randomUUID();
+    console.log(`[notification:${message.channel}] to=${message.to}${message.subject ? ` subject="${message.subject}"` : ''}\n${message.body}`);
+
+    const outboxFile = Deno.env.get('NOTIFICATION_OUTBOX_FILE');
+    if (outboxFile) {
+      const line = JSON.stringify({ id: providerMessageId, sentAt: new Date().toISOString(), ...message });
+      await Deno.writeTextFile(outboxFile, `${line}\n`, { append: true });
+    }
+
+    return { providerMessageId };
+  }
+}
+
+class ResendEmailProvider implements NotificationProvider {
+  name = 'resend';
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    const apiKey = Deno.env.get('RESEND_API_KEY');
+    const from = Deno.env.get('NOTIFICATION_FROM_EMAIL');
+    if (!apiKey || !from) {
+      throw new Error('RESEND_API_KEY and NOTIFICATION_FROM_EMAIL must be set');
+    }
+
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from,
+        to: [message.to],
+        subject: message.subject ?? '',
+        text: message.body,
+      }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.message || `Email provider returned ${response.status}`);
+    }
+
+    return { providerMessageId: data.id ?? null };
+  }
+}
+
+class TwilioSmsProvider implements NotificationProvider {
+  name = 'twilio';
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
+    const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+    const from = Deno.env.get('TWILIO_FROM_NUMBER');
+    if (!accountSid || !authToken || !from) {
+      throw new Error('TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER must be set');
+    }
+
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ To: message.to, From: from, Body: message.body }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.message || `SMS provider returned ${response.status}`);
+    }
+
+    return { providerMessageId: data.sid ?? null };
+  }
+}
+
+const emailProviders: Record<string, () => NotificationProvider> = {
+  console: () => new ConsoleProvider(),
+  resend: () => new ResendEmailProvider(),
+};
+
+const smsProviders: Record<string, () => NotificationProvider> = {
+  console: () => new ConsoleProvider(),
+  twilio: () => new TwilioSmsProvider(),
+};
+
+export function getProvider(channel: NotificationChannel): NotificationProvider {
+  const providers = channel === 'email' ? emailProviders : smsProviders;
+  const configured = Deno.env.get(channel === 'email' ? 'NOTIFICATION_EMAIL_PROVIDER' : 'NOTIFICATION_SMS_PROVIDER') || 'console';
+  const createProvider = providers[configured];
+
+  if (!createProvider) {
+    throw new Error(`Unknown ${channel} provider "${configured}"`);
+  }
+
+  return createProvider();
+}
@@ -0,0 +1,308 @@
+// Printer-independent layout for tickets and receipts. Templates build a
+// PrintDocument once; it's rendered to ESC/POS bytes for thermal printers, HTML
+// for printers driven through the OS, or plain text for previews.
+
+export type PrintAlign = 'left' | 'center' | 'right';
+
+// double: twice as wide and tall; tall: twice as tall only
+export type PrintTextSize = 'normal' | 'tall' | 'double';
+
+export type PrintBlock =
+  | { type: 'text'; text: string; align?: PrintAlign; bold?: boolean; size?: PrintTextSize }
+  | { type: 'row'; left: string; right: string; bold?: boolean }
+  | { type: 'divider'; char?: string }
+  | { type: 'feed'; lines?: number }
+  | { type: 'qr'; data: string; size?: number }
+  | { type: 'logo' }
+  | { type: 'cut' };
+
+export interface PrintDocument {
+  title: string;
+  blocks: PrintBlock[];
+}
+
+export type PrintFormat = 'html' | 'escpos';
+
+export interface RenderOptions {
+  // Characters per line in the normal font: 48 on 80mm paper, 32 on 58mm
+  width: number;
+  // Print the logo stored in the printer's memory (NV graphics slot 1)
+  logo: boolean;
+}
+
+export const PAPER_WIDTH_CHARS: Record<number, number> = {
+  58: 32,
+  80: 48
+};
+
+// =============================================
+// LAYOUT
+// =============================================
+
+const charsPerLine = (width: number, size: PrintTextSize = 'normal') => {
+  return size === 'double' ? Math.floor(width / 2) : width;
+};
+
+const wrapWords = (paragraph: string, width: number) => {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+    let rest = word;
+    while (rest.length > width) {
+      if (line) {
+        lines.push(line);
+        line = '';
+      }
+      lines.push(rest.slice(0, width));
+      rest = rest.slice(width);
+    }
+    if (!rest) continue;
+
+    if (!line) {
+      line = rest;
+    } else if (line.length + 1 + rest.length <= width) {
+      line += ` ${rest}`;
+    } else {
+      lines.push(line);
+      line = rest;
+    }
+  }
+  lines.push(line);
+
+  return lines;
+};
+
+// Word-wraps to the line width, breaking words longer than a whole line.
+// Leading spaces indent every line of the paragraph.
+export function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    const indent = paragraph.match(/^ */)![0].slice(0, Math.max(0, width - 1));
+    const wrapped = wrapWords(paragraph, width - indent.length);
+    lines.push(...wrapped.map(line => line ? indent + line : line));
+  }
+
+  return lines;
+}
+
+const alignLine = (line: string, width: number, align: PrintAlign = 'left') => {
+  const space = Math.max(0, width - line.length);
+  if (align === 'center') return ' '.repeat(Math.floor(space / 2)) + line;
+  if (align === 'right') return ' '.repeat(space) + line;
+  return line;
+};
+
+// Left text wraps; the right text stays on the first line, e.g. prices
+const rowLines = (left: string, right: string, width: number) => {
+  const leftWidth = Math.max(1, width - right.length - 1);
+  const lines = wrapText(left, leftWidth);
+  lines[0] = lines[0].padEnd(width - right.length) + right;
+  return lines;
+};
+
+// =============================================
+// PLAIN TEXT
+// =============================================
+
+// What the printer would print, for checking templates without hardware
+export function renderPlainText(document: PrintDocument, options: RenderOptions): string {
+  const { width } = options;
+  const lines: string[] = [];
+
+  for (const block of document.blocks) {
+    switch (block.type) {
+      case 'text': {
+        const lineWidth = charsPerLine(width, block.size);
+        for (const line of wrapText(block.text, lineWidth)) {
+          // Double-width characters take two columns each
+          const shown = block.size === 'double' ? line.split('').join(' ') : line;
+          lines.push(alignLine(shown, width, block.align));
+        }
+        break;
+      }
+      case 'row':
+        lines.push(...rowLines(block.left, block.right, width));
+        break;
+      case 'divider':
+        lines.push((block.char || '-').repeat(width));
+        break;
+      case 'feed':
+        for (let i = 0; i < (block.lines ?? 1); i++) lines.push('');
+        break;
+      case 'qr':
+        lines.push(alignLine('[QR CODE]', width, 'center'));
+        lines.push(...wrapText(block.data, width).map(line => alignLine(line, width, 'center')));
+        break;
+      case 'logo':
+        if (options.logo) lines.push(alignLine('[LOGO]', width, 'center'));
+        break;
+      case 'cut':
+        lines.push(alignLine('--- cut ---', width, 'center'));
+        break;
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// =============================================
+// ESC/POS
+// =============================================
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const FS = 0x1c;
+const LF = 0x0a;
+
+const alignCodes: Record<PrintAlign, number> = { left: 0, center: 1, right: 2 };
+const sizeCodes: Record<PrintTextSize, number> = { normal: 0x00, tall: 0x01, double: 0x11 };
+
+// Thermal printers default to a single-byte code page; accents are dropped and
+// anything else outside ASCII becomes '?'
+const toAscii = (text: string) => {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e\n]/g, '?');
+};
+
+const asciiBytes = (text: string) => {
+  return Array.from(toAscii(text), char => char.charCodeAt(0));
+};
+
+const qrBytes = (data: string, size = 6) => {
+  const stored = asciiBytes(data);
+  const length = stored.length + 3;
+  return [
+    // Model 2
+    GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00,
+    // Module size in dots
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, Math.min(16, Math.max(1, size)),
+    // Error correction level M
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31,
+    // Store the data, then print it
+    GS, 0x28, 0x6b, length & 0xff, length >> 8, 0x31, 0x50, 0x30, ...stored,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30
+  ];
+};
+
+export function renderEscPos(document: PrintDocument, options: RenderOptions): Uint8Array {
+  const { width } = options;
+  const bytes: number[] = [ESC, 0x40];
+
+  const line = (text: string) => {
+    bytes.push(...asciiBytes(text), LF);
+  };
+
+  for (const block of document.blocks) {
+    switch (block.type) {
+      case 'text': {
+        bytes.push(ESC, 0x61, alignCodes[block.align || 'left']);
+        bytes.push(ESC, 0x45, block.bold ? 1 : 0);
+        bytes.push(GS, 0x21, sizeCodes[block.size || 'normal']);
+        for (const text of wrapText(block.text, charsPerLine(width, block.size))) {
+          line(text);
+        }
+        bytes.push(GS, 0x21, 0x00, ESC, 0x45, 0, ESC, 0x61, 0);
+        break;
+      }
+      case 'row':
+        bytes.push(ESC, 0x45, block.bold ? 1 : 0);
+        rowLines(block.left, block.right, width).forEach(line);
+        bytes.push(ESC, 0x45, 0);
+        break;
+      case 'divider':
+        line((block.char || '-').repeat(width));
+        break;
+      case 'feed':
+        bytes.push(ESC, 0x64, Math.min(255, block.lines ?? 1));
+        break;
+      case 'qr':
+        bytes.push(ESC, 0x61, 1, ...qrBytes(block.data, block.size), LF, ESC, 0x61, 0);
+        break;
+      case 'logo':
+        if (options.logo) {
+          bytes.push(ESC, 0x61, 1, FS, 0x70, 0x01, 0x00, ESC, 0x61, 0);
+        }
+        break;
+      case 'cut':
+        // Feed past the cutter, then partial cut
+        bytes.push(GS, 0x56, 0x42, 0x03);
+        break;
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+// =============================================
+// HTML
+// =============================================
+
+const escapeHtml = (value: string) => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+export function renderHtml(document: PrintDocument, options: RenderOptions): string {
+  const body = document.blocks.map(block => {
+    switch (block.type) {
+      case 'text': {
+        const size = block.size === 'double' ? '22px' : block.size === 'tall' ? '18px' : '13px';
+        return `<div style="text-align:${block.align || 'left'};font-size:${size};${block.bold ? 'font-weight:bold;' : ''}">${escapeHtml(block.text).replace(/\n/g, '<br />')}</div>`;
+      }
+      case 'row':
+        return `<div style="display:flex;justify-content:space-between;${block.bold ? 'font-weight:bold;' : ''}"><span>${escapeHtml(block.left)}</span><span>${escapeHtml(block.right)}</span></div>`;
+      case 'divider':
+        return '<hr style="border:none;border-top:1px dashed #000;" />';
+      case 'feed':
+        return `<div style="height:${(block.lines ?? 1) * 1.2}em;"></div>`;
+      case 'qr':
+        return `<div style="text-align:center;"><img src="https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=${encodeURIComponent(block.data)}" alt="QR code" /></div>`;
+      case 'logo':
+      case 'cut':
+        return '';
+    }
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>${escapeHtml(document.title)}</title>
+  <style>body { font-family: monospace; margin: 0; padding: 8px; width: ${options.width <= 32 ? '48mm' : '72mm'}; }</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+// Base64 for the print middleware; btoa only takes Latin-1
+export function encodeBase64(content: string | Uint8Array): string {
+  const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+export function renderForPrinter(document: PrintDocument, format: PrintFormat, options: RenderOptions) {
+  if (format === 'escpos') {
+    return {
+      content: encodeBase64(renderEscPos(document, options)),
+      // Raw bytes, passed straight through to the printer
+      options: { mimeType: 'application/vnd.escpos', copies: 1 }
+    };
+  }
+
+  return {
+    content: encodeBase64(renderHtml(document, options)),
+    options: { mimeType: 'text/html', copies: 1 }
+  };
+}
@@ -0,0 +1,52 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.49.1';
+
+// Matches role_has_permission in the database, which holds the matrix
+export type StaffPermission =
+  | 'bookings'
+  | 'tables'
+  | 'orders'
+  | 'kitchen'
+  | 'printing'
+  | 'menu'
+  | 'settings'
+  | 'analytics'
+  | 'loyalty'
+  | 'staff'
+  | 'billing';
+
+export type StaffRole = 'owner' | 'manager' | 'host' | 'server' | 'kitchen';
+
+// Whether the user's role at the restaurant grants the permission. Needs a
+// service role client.
+export async function userHasPermission(
+  supabase: SupabaseClient,
+  userId: string,
+  restaurantId: string,
+  permission: StaffPermission
+) {
+  const { data, error } = await supabase.rpc('staff_has_permission', {
+    p_user_id: userId,
+    p_restaurant_id: restaurantId,
+    p_permission: permission,
+  });
+
+  if (error) throw error;
+  return data === true;
+}
+
+// Whether the user may give someone the role, by invitation or otherwise
+export async function userCanAssignRole(
+  supabase: SupabaseClient,
+  userId: string,
+  restaurantId: string,
+  role: StaffRole
+) {
+  const { data, error } = await supabase.rpc('staff_can_assign_role', {
+    p_user_id: userId,
+    p_restaurant_id: restaurantId,
+    p_role: role,
+  });
+
+  if (error) throw error;
+  return data === true;
+}
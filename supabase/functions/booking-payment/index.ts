@@ -0,0 +1,307 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
+import Stripe from 'npm:stripe@17.7.0';
+import { createClient } from 'npm:@supabase/supabase-js@2.49.1';
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+const stripeSecret = Deno.env.get('STRIPE_SECRET_KEY')!;
+const stripe = new Stripe(stripeSecret, {
+  appInfo: {
+    name: 'Bolt Integration',
+    version: '1.0.0',
+  },
+});
+
+// Guests come back from Stripe to their manage page on this site
+const siteUrl = (Deno.env.get('SITE_URL') ?? '').replace(/\/$/, '');
+
+// Stripe requires checkout sessions to stay open for at least 30 minutes
+const CHECKOUT_EXPIRY_SECONDS = 31 * 60;
+const SETTLE_BATCH_SIZE = 50;
+
+// Helper function to create responses with CORS headers
+function corsResponse(body: string | object | null, status = 200) {
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': '*',
+  };
+
+  // For 204 No Content, don't include Content-Type or body
+  if (status === 204) {
+    return new Response(null, { status, headers });
+  }
+
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...headers,
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+const toMinorUnits = (amount: number) => Math.round(Number(amount) * 100);
+
+// Only the booking's own manage page, so a checkout can't send the guest to
+// another site after they pay
+function isManagePageUrl(url: string, manageToken: string) {
+  if (!siteUrl) return false;
+
+  try {
+    const parsed = new URL(url);
+    return parsed.origin === new URL(siteUrl).origin && parsed.pathname === `/manage/${manageToken}`;
+  } catch {
+    return false;
+  }
+}
+
+// Guests start checkout with their manage token; anyone may trigger a settle run,
+// which only processes refunds and no-show charges already queued by booking updates.
+Deno.serve(async (req) => {
+  try {
+    if (req.method === 'OPTIONS') {
+      return corsResponse({}, 204);
+    }
+
+    if (req.method !== 'POST') {
+      return corsResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const { action, manage_token, success_url, cancel_url } = await req.json();
+
+    if (action === 'checkout') {
+      if (typeof manage_token !== 'string' || typeof success_url !== 'string' || typeof cancel_url !== 'string') {
+        return corsResponse({ error: 'manage_token, success_url and cancel_url are required' }, 400);
+      }
+      if (!isManagePageUrl(success_url, manage_token) || !isManagePageUrl(cancel_url, manage_token)) {
+        return corsResponse({ error: 'success_url and cancel_url must be the booking\'s manage page' }, 400);
+      }
+      return await createCheckout(manage_token, success_url, cancel_url);
+    }
+
+    if (action === 'settle') {
+      return corsResponse(await settlePendingActions());
+    }
+
+    return corsResponse({ error: 'Expected action to be one of checkout, settle' }, 400);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Booking payment error: ${message}`);
+    return corsResponse({ error: message }, 500);
+  }
+});
+
+async function createCheckout(manageToken: string, successUrl: string, cancelUrl: string) {
+  const { data: booking, error: bookingError } = await supabase
+    .from('bookings')
+    .select('id, restaurant_id, booking_date, party_size, status, customer:customers(name, email, phone), restaurant:restaurants(name)')
+    .eq('manage_token', manageToken)
+    .maybeSingle();
+
+  if (bookingError) throw bookingError;
+  if (!booking) {
+    return corsResponse({ error: 'Booking not found' }, 404);
+  }
+
+  if (booking.status !== 'pending') {
+    return corsResponse({ error: 'This booking does not need a payment' }, 400);
+  }
+
+  const { data: requirements, error: requirementError } = await supabase
+    .rpc('get_deposit_requirement', {
+      p_restaurant_id: booking.restaurant_id,
+      p_date: booking.booking_date,
+      p_party_size: booking.party_size,
+    });
+
+  if (requirementError) throw requirementError;
+  const requirement = requirements?.[0];
+  if (!requirement) {
+    return corsResponse({ error: 'This booking does not need a payment' }, 400);
+  }
+
+  const { data: existingPayment, error: existingError } = await supabase
+    .from('booking_payments')
+    .select('id, status, stripe_customer_id')
+    .eq('booking_id', booking.id)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+  if (existingPayment && existingPayment.status !== 'pending') {
+    return corsResponse({ error: 'Payment for this booking has already been completed' }, 400);
+  }
+
+  const customer = booking.customer as { name: string; email: string | null; phone: string | null } | null;
+  const restaurant = booking.restaurant as { name: string } | null;
+  const paymentType: 'deposit' | 'guarantee' = requirement.payment_type;
+
+  const { data: payment, error: paymentError } = await supabase
+    .from('booking_payments')
+    .upsert({
+      booking_id: booking.id,
+      restaurant_id: booking.restaurant_id,
+      payment_type: paymentType,
+      amount: requirement.amount,
+      currency: requirement.currency,
+      status: 'pending',
+    }, { onConflict: 'booking_id' })
+    .select('id')
+    .single();
+
+  if (paymentError) throw paymentError;
+
+  const metadata = { booking_payment_id: payment.id, booking_id: booking.id };
+  const expiresAt = Math.floor(Date.now() / 1000) + CHECKOUT_EXPIRY_SECONDS;
+  let session: Stripe.Checkout.Session;
+
+  if (paymentType === 'deposit') {
+    session = await stripe.checkout.sessions.create({
+      mode: 'payment',
+      payment_method_types: ['card'],
+      customer_email: customer?.email || undefined,
+      line_items: [
+        {
+          price_data: {
+            currency: requirement.currency,
+            unit_amount: toMinorUnits(requirement.amount_per_guest),
+            product_data: {
+              name: `Booking deposit - ${restaurant?.name ?? 'Restaurant'}`,
+            },
+          },
+          quantity: booking.party_size,
+        },
+      ],
+      payment_intent_data: { metadata },
+      metadata,
+      expires_at: expiresAt,
+      success_url: successUrl,
+      cancel_url: cancelUrl,
+    });
+  } else {
+    // A saved card can only be charged later through a Stripe customer
+    let customerId = existingPayment?.stripe_customer_id;
+    if (!customerId) {
+      const stripeCustomer = await stripe.customers.create({
+        name: customer?.name,
+        email: customer?.email || undefined,
+        phone: customer?.phone || undefined,
+        metadata,
+      });
+      customerId = stripeCustomer.id;
+    }
+
+    session = await stripe.checkout.sessions.create({
+      mode: 'setup',
+      payment_method_types: ['card'],
+      customer: customerId,
+      setup_intent_data: { metadata },
+      metadata,
+      expires_at: expiresAt,
+      success_url: successUrl,
+      cancel_url: cancelUrl,
+    });
+
+    const { error: customerUpdateError } = await supabase
+      .from('booking_payments')
+      .update({ stripe_customer_id: customerId })
+      .eq('id', payment.id);
+
+    if (customerUpdateError) throw customerUpdateError;
+  }
+
+  const { error: sessionUpdateError } = await supabase
+    .from('booking_payments')
+    .update({ stripe_checkout_session_id: session.id })
+    .eq('id', payment.id);
+
+  if (sessionUpdateError) throw sessionUpdateError;
+
+  console.log(`Created ${paymentType} checkout session ${session.id} for booking ${booking.id}`);
+
+  return corsResponse({ sessionId: session.id, url: session.url });
+}
+
+interface PaymentAction {
+  id: string;
+  booking_id: string;
+  amount: number;
+  currency: string;
+  pending_action: 'refund' | 'charge';
+  stripe_customer_id: string | null;
+  stripe_payment_intent_id: string | null;
+  stripe_payment_method_id: string | null;
+}
+
+async function settlePendingActions() {
+  const { data: queued, error: queuedError } = await supabase
+    .from('booking_payments')
+    .select('id, booking_id, amount, currency, pending_action, stripe_customer_id, stripe_payment_intent_id, stripe_payment_method_id')
+    .not('pending_action', 'is', null)
+    .order('updated_at', { ascending: true })
+    .limit(SETTLE_BATCH_SIZE);
+
+  if (queuedError) throw queuedError;
+
+  const results = { refunded: 0, charged: 0, failed: 0 };
+  for (const payment of (queued || []) as PaymentAction[]) {
+    // Claim the action so concurrent runs don't settle it twice
+    const { data: claimed, error: claimError } = await supabase
+      .from('booking_payments')
+      .update({ pending_action: null })
+      .eq('id', payment.id)
+      .eq('pending_action', payment.pending_action)
+      .select('id');
+
+    if (claimError) throw claimError;
+    if (!claimed || claimed.length === 0) continue;
+
+    try {
+      if (payment.pending_action === 'refund') {
+        if (!payment.stripe_payment_intent_id) throw new Error('No payment to refund');
+
+        const refund = await stripe.refunds.create(
+          { payment_intent: payment.stripe_payment_intent_id },
+          { idempotencyKey: `booking-payment-refund-${payment.id}` },
+        );
+
+        await updatePayment(payment.id, { status: 'refunded', stripe_refund_id: refund.id, error_message: null });
+        results.refunded++;
+      } else {
+        if (!payment.stripe_customer_id || !payment.stripe_payment_method_id) throw new Error('No saved card to charge');
+
+        const paymentIntent = await stripe.paymentIntents.create(
+          {
+            amount: toMinorUnits(payment.amount),
+            currency: payment.currency,
+            customer: payment.stripe_customer_id,
+            payment_method: payment.stripe_payment_method_id,
+            off_session: true,
+            confirm: true,
+            description: 'No-show fee',
+            metadata: { booking_payment_id: payment.id, booking_id: payment.booking_id },
+          },
+          { idempotencyKey: `booking-payment-charge-${payment.id}` },
+        );
+
+        await updatePayment(payment.id, {
+          status: 'charged',
+          stripe_payment_intent_id: paymentIntent.id,
+          error_message: null,
+        });
+        results.charged++;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to ${payment.pending_action} booking payment ${payment.id}: ${message}`);
+      await updatePayment(payment.id, { status: 'failed', error_message: message });
+      results.failed++;
+    }
+  }
+
+  return results;
+}
+
+async function updatePayment(id: string, fields: Record<string, unknown>) {
+  const { error } = await supabase.from('booking_payments').update(fields).eq('id', id);
+  if (error) throw error;
+}
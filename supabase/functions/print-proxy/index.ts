@@ -1,5 +1,22 @@
 import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
 import { createClient } from 'npm:@supabase/supabase-js@2.49.1';
+import {
+  PAPER_WIDTH_CHARS,
+  PrintDocument,
+  PrintFormat,
+  renderForPrinter,
+  renderPlainText,
+} from '../_shared/printDocument.ts';
+import { userHasPermission } from '../_shared/staffPermissions.ts';
+import {
+  kitchenTicket,
+  PrintTemplate,
+  receipt,
+  sampleDocument,
+  tableQr,
+  testPage,
+  TicketLine,
+} from './templates.ts';
 
 // Initialize Supabase client with service role key for admin access
 const supabase = createClient(
@@ -7,10 +24,20 @@ const supabase = createClient(
   Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
 );
 
+// Queued print jobs are retried until they've been attempted this many times,
+// waiting 15s, 30s, 1m, 2m... between attempts
+const MAX_ATTEMPTS = 6;
+const BACKOFF_BASE_SECONDS = 15;
+// Failures in a row before a job moves to its printer's backup
+const FAILOVER_AFTER = 2;
+const BATCH_SIZE = 20;
+// Sent by run_print_jobs in the database, which runs the whole queue
+const printJobsSecret = Deno.env.get('PRINT_JOBS_SECRET') ?? '';
+
 // CORS headers for all responses
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-api-key, x-print-jobs-secret',
   'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
 };
 
@@ -40,6 +67,17 @@ Deno.serve(async (req) => {
     const url = new URL(req.url);
     const endpoint = url.pathname.split('/').pop();
 
+    // The database's scheduled run, or staff nudging their own restaurant's
+    // queue after a reprint
+    if (endpoint === 'process-jobs') {
+      return handleProcessJobs(req);
+    }
+
+    // Called back by the print client with the restaurant's print API key
+    if (endpoint === 'job-status') {
+      return handleJobStatus(req);
+    }
+
     // Verify authentication
     const authHeader = req.headers.get('Authorization');
     if (!authHeader) {
@@ -56,13 +94,16 @@ Deno.serve(async (req) => {
     // Handle different endpoints
     switch (endpoint) {
       case 'printers':
-        return handleGetPrinters(url);
+        return handleGetPrinters(url, user.id);
       
       case 'refresh-device-printers':
-        return handleRefreshDevicePrinters(req);
+        return handleRefreshDevicePrinters(req, user.id);
       
       case 'print':
         return handlePrintRequest(req, user.id);
+
+      case 'preview':
+        return handlePreviewRequest(req, user.id);
       
       default:
         return createResponse({ error: 'Invalid endpoint' }, 404);
@@ -73,7 +114,7 @@ Deno.serve(async (req) => {
   }
 });
 
-async function handleGetPrinters(url: URL) {
+async function handleGetPrinters(url: URL, userId: string) {
   try {
     const deviceId = url.searchParams.get('deviceId');
     const restaurantId = url.searchParams.get('restaurantId');
@@ -81,6 +122,10 @@ async function handleGetPrinters(url: URL) {
     if (!restaurantId) {
       return createResponse({ error: 'Missing restaurantId parameter' }, 400);
     }
+
+    if (!await userHasPermission(supabase, userId, restaurantId, 'settings')) {
+      return createResponse({ error: 'You do not have permission to set up printers' }, 403);
+    }
     
     // Get restaurant's print API configuration
     const { data: restaurant, error: restaurantError } = await supabase
@@ -123,13 +168,17 @@ async function handleGetPrinters(url: URL) {
 }
 
 // Handler for refreshing printers for a specific device
-async function handleRefreshDevicePrinters(req: Request) {
+async function handleRefreshDevicePrinters(req: Request, userId: string) {
   try {
     const { deviceId, restaurantId } = await req.json();
     
     if (!deviceId || !restaurantId) {
       return createResponse({ error: 'Missing required parameters' }, 400);
     }
+
+    if (!await userHasPermission(supabase, userId, restaurantId, 'settings')) {
+      return createResponse({ error: 'You do not have permission to set up printers' }, 403);
+    }
     
     // Get restaurant's print API configuration
     const { data: restaurant, error: restaurantError } = await supabase
@@ -176,41 +225,40 @@ async function handleRefreshDevicePrinters(req: Request) {
   }
 }
 
+// Prints either ready-made content (HTML from older clients) or one of the
+// templates, rendered for the chosen printer. Templates for saved printers are
+// queued and sent straight away; the response says whether the first attempt
+// got through.
 async function handlePrintRequest(req: Request, userId: string) {
   try {
-    const { restaurantId, deviceId, printerId, content, options, jobName } = await req.json();
+    const {
+      restaurantId,
+      printerConfigId,
+      template,
+      data,
+      deviceId,
+      printerId,
+      content,
+      options,
+      jobName,
+      outputFormat,
+      paperWidthMm,
+      printLogo
+    } = await req.json();
 
     // Validate required parameters
-    if (!restaurantId || !deviceId || !printerId || !content) {
-      return createResponse({ error: 'Missing required parameters: restaurantId, deviceId, printerId, content' }, 400);
+    if (!restaurantId || !(template && (printerConfigId || (deviceId && printerId))) && !(deviceId && printerId && content)) {
+      return createResponse({ error: 'Missing required parameters: restaurantId, a template or content, and the printer' }, 400);
     }
-    
-    // Verify user has access to this restaurant
-    const { data: restaurant, error: restaurantError } = await supabase
-      .from('restaurants')
-      .select('id')
-      .eq('id', restaurantId)
-      .eq('owner_id', userId)
-      .single();
-
-    if (restaurantError || !restaurant) {
-      // Also check if user is staff member
-      const { data: userProfile, error: profileError } = await supabase
-        .from('user_profiles')
-        .select('restaurant_id')
-        .eq('id', userId)
-        .eq('restaurant_id', restaurantId)
-        .single();
 
-      if (profileError || !userProfile) {
-        return createResponse({ error: 'You do not have access to this restaurant' }, 403);
-      }
+    if (!await userHasPermission(supabase, userId, restaurantId, 'printing')) {
+      return createResponse({ error: 'You do not have permission to print for this restaurant' }, 403);
     }
     
     // Get restaurant's print API configuration
     const { data: restaurantConfig, error: configError } = await supabase
       .from('restaurants')
-      .select('print_api_url, print_api_key')
+      .select('name, address, phone, print_api_url, print_api_key')
       .eq('id', restaurantId)
       .single();
     
@@ -218,37 +266,559 @@ async function handlePrintRequest(req: Request, userId: string) {
       return createResponse({ error: 'Print API not configured for this restaurant' }, 400);
     }
 
-    // Prepare print job payload
-    const printPayload = {
-      deviceId,
-      command: 'print',
-      payload: {
+    if (template && !DASHBOARD_TEMPLATES.includes(template)) {
+      return createResponse({ error: `Unknown template: ${template}` }, 400);
+    }
+    if (template === 'table_qr' && (!data?.tableNumber || !data?.url)) {
+      return createResponse({ error: 'Missing tableNumber or url' }, 400);
+    }
+
+    // Saved printers print through the queue, so a printer that's briefly
+    // offline gets the job when it's back
+    if (template && printerConfigId) {
+      const job = await queueJob({
+        restaurant_id: restaurantId,
+        printer_config_id: printerConfigId,
+        job_type: template,
+        payload: data || {}
+      });
+      const status = await processJob(job);
+      const { data: result } = await supabase
+        .from('print_jobs')
+        .select('status, error_message')
+        .eq('id', job.id)
+        .single();
+
+      return createResponse({
+        success: status === 'sent' || status === 'printed',
+        jobId: job.id,
+        status: result?.status ?? status,
+        error: result?.error_message ?? null
+      });
+    }
+
+    if (template) {
+      // Test prints from the printer form, before the printer has been saved
+      const printer: PrinterRow = {
+        id: null,
+        printer_name: 'New Printer',
+        device_id: deviceId,
         printer_id: printerId,
+        output_format: outputFormat === 'escpos' ? 'escpos' : 'html',
+        paper_width_mm: paperWidthMm || 80,
+        print_logo: !!printLogo,
+        is_active: true,
+        backup_printer_config_id: null
+      };
+      const document = buildTemplate(template, data || {}, restaurantConfig, printer.printer_name);
+      const rendered = renderForPrinter(document, printer.output_format, renderOptions(printer));
+
+      await sendToPrinter(restaurantConfig, {
+        deviceId: printer.device_id,
+        printerId: printer.printer_id,
+        content: rendered.content,
+        options: rendered.options,
+        jobName: jobName || document.title
+      });
+    } else {
+      await sendToPrinter(restaurantConfig, {
+        deviceId,
+        printerId,
         content,
         options: options || { mimeType: 'text/html', copies: 1 },
         jobName: jobName || `QR Code Print - ${new Date().toISOString()}`
+      });
+    }
+
+    return createResponse({ success: true, message: 'Print job sent successfully' });
+  } catch (error) {
+    console.error('Error processing print request:', error);
+    return createResponse({ error: error.message }, 500);
+  }
+}
+
+// Renders a template as plain text, the way a printer of the given paper width
+// would print it, for checking layouts without hardware
+async function handlePreviewRequest(req: Request, userId: string) {
+  try {
+    const { restaurantId, template, paperWidthMm, printLogo } = await req.json();
+
+    if (!restaurantId || !template) {
+      return createResponse({ error: 'Missing required parameters: restaurantId, template' }, 400);
+    }
+
+    if (!await userHasPermission(supabase, userId, restaurantId, 'printing')) {
+      return createResponse({ error: 'You do not have permission to print for this restaurant' }, 403);
+    }
+
+    const { data: restaurant, error: restaurantError } = await supabase
+      .from('restaurants')
+      .select('name, address, phone')
+      .eq('id', restaurantId)
+      .single();
+
+    if (restaurantError || !restaurant) {
+      return createResponse({ error: 'Restaurant not found' }, 404);
+    }
+
+    const document = sampleDocument(template as PrintTemplate, restaurant);
+    const text = renderPlainText(document, {
+      width: PAPER_WIDTH_CHARS[paperWidthMm] ?? PAPER_WIDTH_CHARS[80],
+      logo: !!printLogo
+    });
+
+    return createResponse({ title: document.title, text });
+  } catch (error) {
+    console.error('Error rendering preview:', error);
+    return createResponse({ error: error.message }, 500);
+  }
+}
+
+interface PrinterRow {
+  id: string | null;
+  printer_name: string;
+  device_id: string;
+  printer_id: string;
+  output_format: PrintFormat;
+  paper_width_mm: number;
+  print_logo: boolean;
+  is_active: boolean;
+  backup_printer_config_id: string | null;
+}
+
+async function findPrinter(printerConfigId: string | null, restaurantId: string): Promise<PrinterRow | null> {
+  if (!printerConfigId) return null;
+
+  const { data: printer, error } = await supabase
+    .from('printer_configs')
+    .select('id, printer_name, device_id, printer_id, output_format, paper_width_mm, print_logo, is_active, backup_printer_config_id')
+    .eq('id', printerConfigId)
+    .eq('restaurant_id', restaurantId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return printer as PrinterRow | null;
+}
+
+const isUsable = (printer: PrinterRow | null): printer is PrinterRow => {
+  return !!printer && printer.is_active && !!printer.device_id && !!printer.printer_id;
+};
+
+function renderOptions(printer: PrinterRow) {
+  return {
+    width: PAPER_WIDTH_CHARS[printer.paper_width_mm] ?? PAPER_WIDTH_CHARS[80],
+    logo: printer.print_logo
+  };
+}
+
+// Templates printed from the dashboard rather than for an order
+const DASHBOARD_TEMPLATES = ['test_page', 'table_qr'];
+
+function buildTemplate(
+  template: string,
+  data: Record<string, string>,
+  restaurant: { name: string },
+  printerName: string
+): PrintDocument {
+  switch (template) {
+    case 'table_qr':
+      if (!data.tableNumber || !data.url) throw new Error('Missing tableNumber or url');
+      return tableQr({ restaurantName: restaurant.name, tableNumber: data.tableNumber, url: data.url });
+    case 'test_page':
+      return testPage({
+        restaurantName: restaurant.name,
+        printerName,
+        printedAt: new Date().toLocaleString('en-SG', { timeZone: 'Asia/Singapore' })
+      });
+    default:
+      throw new Error(`Unknown template: ${template}`);
+  }
+}
+
+interface PrintApiConfig {
+  print_api_url: string;
+  print_api_key: string;
+}
+
+interface PrintCommand {
+  deviceId: string;
+  printerId: string;
+  content: string;
+  options: Record<string, unknown>;
+  jobName: string;
+  jobId?: string;
+}
+
+// Sends one print command to the restaurant's print middleware
+async function sendToPrinter(config: PrintApiConfig, command: PrintCommand) {
+  const response = await fetch(`${config.print_api_url}/api/command`, {
+    method: 'POST',
+    headers: {
+      'x-api-key': config.print_api_key,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      deviceId: command.deviceId,
+      command: 'print',
+      payload: {
+        printer_id: command.printerId,
+        content: command.content,
+        options: command.options,
+        jobName: command.jobName,
+        jobId: command.jobId
       }
-    };
+    })
+  });
 
-    // Send print job to external API
-    const response = await fetch(`${restaurantConfig.print_api_url}/api/command`, {
-      method: 'POST',
-      headers: {
-        'x-api-key': restaurantConfig.print_api_key,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(printPayload)
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Print request failed: ${response.status}`);
+  }
+
+  return await response.json().catch(() => null);
+}
+
+interface PrintJobRow {
+  id: string;
+  restaurant_id: string;
+  order_id: string | null;
+  station_id: string | null;
+  printer_config_id: string | null;
+  failed_over_from: string | null;
+  job_type: 'kitchen_ticket' | 'receipt' | 'test_page' | 'table_qr';
+  item_ids: string[];
+  payload: Record<string, string>;
+  is_reprint: boolean;
+  attempts: number;
+}
+
+const JOB_COLUMNS = 'id, restaurant_id, order_id, station_id, printer_config_id, failed_over_from, job_type, item_ids, payload, is_reprint, attempts';
+
+async function queueJob(job: Partial<PrintJobRow>): Promise<PrintJobRow> {
+  const { data, error } = await supabase
+    .from('print_jobs')
+    .insert(job)
+    .select(JOB_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data as PrintJobRow;
+}
+
+// Prints due jobs: every restaurant's for the scheduled run, otherwise only
+// the restaurant of a staff member with the printing permission
+async function handleProcessJobs(req: Request) {
+  try {
+    const { restaurantId } = await req.json().catch(() => ({}));
+    const secret = req.headers.get('x-print-jobs-secret');
+    const scheduled = printJobsSecret !== '' && secret === printJobsSecret;
+
+    if (!scheduled) {
+      const token = (req.headers.get('Authorization') ?? '').replace('Bearer ', '');
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+      if (authError || !user) {
+        return createResponse({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!restaurantId) {
+        return createResponse({ error: 'Missing restaurantId parameter' }, 400);
+      }
+
+      if (!await userHasPermission(supabase, user.id, restaurantId, 'printing')) {
+        return createResponse({ error: 'You do not have permission to print for this restaurant' }, 403);
+      }
+    }
+
+    let query = supabase
+      .from('print_jobs')
+      .select(JOB_COLUMNS)
+      .eq('status', 'queued')
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (restaurantId) {
+      query = query.eq('restaurant_id', restaurantId);
+    }
+
+    const { data: due, error: dueError } = await query;
+    if (dueError) throw dueError;
+
+    const results = { sent: 0, printed: 0, failed: 0, retrying: 0 };
+    for (const job of (due || []) as PrintJobRow[]) {
+      const outcome = await processJob(job);
+      if (outcome === 'queued') results.retrying++;
+      else if (outcome) results[outcome]++;
+    }
+
+    return createResponse(results);
+  } catch (error) {
+    console.error('Error processing print jobs:', error);
+    return createResponse({ error: error.message }, 500);
+  }
+}
+
+type JobOutcome = 'sent' | 'printed' | 'failed' | 'queued';
+
+async function processJob(job: PrintJobRow): Promise<JobOutcome | null> {
+  // Claim the row so concurrent runs don't print it twice
+  const { data: claimed, error: claimError } = await supabase
+    .from('print_jobs')
+    .update({ attempts: job.attempts + 1 })
+    .eq('id', job.id)
+    .eq('status', 'queued')
+    .eq('attempts', job.attempts)
+    .select('id');
+
+  if (claimError) throw claimError;
+  if (!claimed || claimed.length === 0) return null;
+
+  const attempt = job.attempts + 1;
+  let printer: PrinterRow | null = null;
+
+  try {
+    printer = await findPrinter(job.printer_config_id, job.restaurant_id);
+    if (!isUsable(printer)) {
+      throw new Error('Printer is missing or inactive');
+    }
+
+    const { data: config, error: configError } = await supabase
+      .from('restaurants')
+      .select('name, address, phone, print_api_url, print_api_key')
+      .eq('id', job.restaurant_id)
+      .single();
+
+    if (configError) throw configError;
+    if (!config.print_api_url || !config.print_api_key) {
+      throw new Error('Print API not configured for this restaurant');
+    }
+
+    const document = await buildJobDocument(job, config, printer);
+    const rendered = renderForPrinter(document, printer.output_format, renderOptions(printer));
+
+    const result = await sendToPrinter(config, {
+      deviceId: printer.device_id,
+      printerId: printer.printer_id,
+      content: rendered.content,
+      options: rendered.options,
+      jobName: document.title,
+      jobId: job.id
     });
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.error || `Print request failed: ${response.status}`);
+    // Print clients that print synchronously say so straight away; the rest
+    // report back through job-status
+    const status = result?.status === 'printed' || result?.status === 'completed' ? 'printed' : 'sent';
+    await recordAttempt(job, attempt, printer.id, status, null);
+    return await finishJob(job.id, status, {
+      error_message: null,
+      sent_at: new Date().toISOString(),
+      ...(status === 'printed' ? { printed_at: new Date().toISOString() } : {})
+    });
+  } catch (error) {
+    console.error(`Error printing job ${job.id}:`, error);
+    await recordAttempt(job, attempt, job.printer_config_id, 'failed', error.message);
+    return await scheduleRetry(job, attempt, printer, error.message);
+  }
+}
+
+// After a failed attempt: move to the backup printer, try again later, or give up
+async function scheduleRetry(
+  job: PrintJobRow,
+  attempt: number,
+  printer: PrinterRow | null,
+  errorMessage: string
+): Promise<JobOutcome> {
+  if (!job.failed_over_from && printer?.backup_printer_config_id && (attempt >= FAILOVER_AFTER || !isUsable(printer))) {
+    const backup = await findPrinter(printer.backup_printer_config_id, job.restaurant_id);
+    if (isUsable(backup) && attempt < MAX_ATTEMPTS) {
+      return await finishJob(job.id, 'queued', {
+        printer_config_id: backup.id,
+        failed_over_from: job.printer_config_id,
+        next_attempt_at: new Date().toISOString(),
+        error_message: `${errorMessage} - moved to ${backup.printer_name}`
+      });
     }
+  }
 
-    const data = await response.json();
-    return createResponse({ success: true, message: 'Print job sent successfully' });
+  if (attempt >= MAX_ATTEMPTS) {
+    return await finishJob(job.id, 'failed', { error_message: errorMessage });
+  }
+
+  const delaySeconds = BACKOFF_BASE_SECONDS * 2 ** (attempt - 1);
+  return await finishJob(job.id, 'queued', {
+    error_message: errorMessage,
+    next_attempt_at: new Date(Date.now() + delaySeconds * 1000).toISOString()
+  });
+}
+
+async function recordAttempt(
+  job: PrintJobRow,
+  attempt: number,
+  printerConfigId: string | null,
+  status: 'sent' | 'printed' | 'failed',
+  errorMessage: string | null
+) {
+  const { error } = await supabase
+    .from('print_job_attempts')
+    .insert({
+      job_id: job.id,
+      restaurant_id: job.restaurant_id,
+      printer_config_id: printerConfigId,
+      attempt,
+      status,
+      error_message: errorMessage
+    });
+
+  // The attempt log is for history only; never fail a print over it
+  if (error) console.error(`Error recording attempt for job ${job.id}:`, error);
+}
+
+async function finishJob<T extends JobOutcome>(
+  id: string,
+  status: T,
+  fields: Record<string, unknown>
+): Promise<T> {
+  const { error } = await supabase
+    .from('print_jobs')
+    .update({ status, ...fields })
+    .eq('id', id);
+
+  if (error) throw error;
+  return status;
+}
+
+// The print client reports whether a sent job actually printed
+async function handleJobStatus(req: Request) {
+  try {
+    const { jobId, status, error: printError } = await req.json();
+
+    if (!jobId || !['printed', 'failed'].includes(status)) {
+      return createResponse({ error: 'Missing required parameters: jobId, status (printed or failed)' }, 400);
+    }
+
+    const { data: job, error: jobError } = await supabase
+      .from('print_jobs')
+      .select(`${JOB_COLUMNS}, status, restaurant:restaurants(print_api_key)`)
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (jobError) throw jobError;
+
+    const restaurant = job?.restaurant as { print_api_key: string | null } | null;
+    if (!job || !restaurant?.print_api_key || req.headers.get('x-api-key') !== restaurant.print_api_key) {
+      return createResponse({ error: 'Job not found' }, 404);
+    }
+
+    // Only jobs waiting for confirmation; repeated callbacks are ignored
+    if (job.status !== 'sent') {
+      return createResponse({ success: true, status: job.status });
+    }
+
+    const printJob = job as unknown as PrintJobRow;
+    if (status === 'printed') {
+      await recordAttempt(printJob, printJob.attempts, printJob.printer_config_id, 'printed', null);
+      await finishJob(printJob.id, 'printed', { printed_at: new Date().toISOString() });
+      return createResponse({ success: true, status: 'printed' });
+    }
+
+    const message = printError || 'Print client reported a failure';
+    await recordAttempt(printJob, printJob.attempts, printJob.printer_config_id, 'failed', message);
+    const printer = await findPrinter(printJob.printer_config_id, printJob.restaurant_id);
+    const outcome = await scheduleRetry(printJob, printJob.attempts, printer, message);
+    return createResponse({ success: true, status: outcome });
   } catch (error) {
-    console.error('Error processing print request:', error);
+    console.error('Error updating print job status:', error);
     return createResponse({ error: error.message }, 500);
   }
-}
\ No newline at end of file
+}
+
+interface OrderItemRow {
+  quantity: number;
+  total_price_sgd: number;
+  special_instructions: string | null;
+  modifiers: { group_name: string; name: string }[] | null;
+  menu_item: { name: string } | null;
+}
+
+async function buildJobDocument(
+  job: PrintJobRow,
+  restaurant: { name: string; address: string | null; phone: string | null },
+  printer: PrinterRow
+): Promise<PrintDocument> {
+  if (job.job_type === 'test_page' || job.job_type === 'table_qr') {
+    return buildTemplate(job.job_type, job.payload, restaurant, printer.printer_name);
+  }
+
+  const { data: order, error: orderError } = await supabase
+    .from('orders')
+    .select('order_number, created_at, subtotal_sgd, discount_sgd, total_sgd, session:order_sessions(table:restaurant_tables(table_number))')
+    .eq('id', job.order_id)
+    .maybeSingle();
+
+  if (orderError) throw orderError;
+  if (!order) throw new Error('Order no longer exists');
+
+  // Tickets print the items routed to one station; receipts print them all
+  let itemsQuery = supabase
+    .from('order_items')
+    .select('quantity, total_price_sgd, special_instructions, modifiers, menu_item:menu_items(name)')
+    .order('created_at', { ascending: true });
+
+  itemsQuery = job.job_type === 'kitchen_ticket'
+    ? itemsQuery.in('id', job.item_ids)
+    : itemsQuery.eq('order_id', job.order_id);
+
+  const { data: items, error: itemsError } = await itemsQuery;
+  if (itemsError) throw itemsError;
+
+  const lines: TicketLine[] = ((items || []) as OrderItemRow[]).map(item => ({
+    quantity: item.quantity,
+    name: item.menu_item?.name || 'Item',
+    modifiers: (item.modifiers || []).map(modifier => `${modifier.group_name}: ${modifier.name}`),
+    instructions: item.special_instructions,
+    totalPrice: Number(item.total_price_sgd)
+  }));
+
+  const session = order.session as { table: { table_number: string } | null } | null;
+  const tableNumber = session?.table?.table_number || '-';
+  const placedAt = new Date(order.created_at).toLocaleTimeString('en-SG', {
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'Asia/Singapore'
+  });
+
+  if (job.job_type === 'receipt') {
+    return receipt({
+      restaurantName: restaurant.name,
+      restaurantAddress: restaurant.address,
+      restaurantPhone: restaurant.phone,
+      tableNumber,
+      orderNumber: order.order_number,
+      placedAt,
+      items: lines,
+      subtotal: Number(order.subtotal_sgd),
+      discount: Number(order.discount_sgd),
+      total: Number(order.total_sgd)
+    });
+  }
+
+  let stationName = 'Kitchen';
+  if (job.station_id) {
+    const { data: station } = await supabase
+      .from('kitchen_stations')
+      .select('name')
+      .eq('id', job.station_id)
+      .maybeSingle();
+    stationName = station?.name || stationName;
+  }
+
+  return kitchenTicket({
+    stationName,
+    tableNumber,
+    orderNumber: order.order_number,
+    placedAt,
+    reprint: job.is_reprint,
+    items: lines
+  });
+}
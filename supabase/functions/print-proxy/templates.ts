@@ -0,0 +1,207 @@
+import type { PrintBlock, PrintDocument } from '../_shared/printDocument.ts';
+
+export type PrintTemplate = 'kitchen_ticket' | 'receipt' | 'test_page' | 'table_qr';
+
+export interface TicketLine {
+  quantity: number;
+  name: string;
+  modifiers: string[];
+  instructions: string | null;
+  totalPrice: number;
+}
+
+export interface KitchenTicketData {
+  stationName: string;
+  tableNumber: string;
+  orderNumber: string;
+  placedAt: string;
+  reprint: boolean;
+  items: TicketLine[];
+}
+
+export interface ReceiptData {
+  restaurantName: string;
+  restaurantAddress: string | null;
+  restaurantPhone: string | null;
+  tableNumber: string;
+  orderNumber: string;
+  placedAt: string;
+  items: TicketLine[];
+  subtotal: number;
+  discount: number;
+  total: number;
+}
+
+export interface TestPageData {
+  restaurantName: string;
+  printerName: string;
+  printedAt: string;
+}
+
+export interface TableQrData {
+  restaurantName: string;
+  tableNumber: string;
+  url: string;
+}
+
+const formatPrice = (amount: number) => `S$${Number(amount).toFixed(2)}`;
+
+export function kitchenTicket(data: KitchenTicketData): PrintDocument {
+  const blocks: PrintBlock[] = [
+    { type: 'text', text: data.stationName.toUpperCase(), align: 'center', bold: true, size: 'double' }
+  ];
+
+  if (data.reprint) {
+    blocks.push({ type: 'text', text: '*** REPRINT ***', align: 'center', bold: true });
+  }
+
+  blocks.push(
+    { type: 'divider' },
+    { type: 'row', left: `Table ${data.tableNumber}`, right: data.placedAt, bold: true },
+    { type: 'text', text: `Order ${data.orderNumber}` },
+    { type: 'divider', char: '=' }
+  );
+
+  for (const item of data.items) {
+    blocks.push({ type: 'text', text: `${item.quantity} x ${item.name}`, bold: true, size: 'tall' });
+    for (const modifier of item.modifiers) {
+      blocks.push({ type: 'text', text: `   ${modifier}` });
+    }
+    if (item.instructions) {
+      blocks.push({ type: 'text', text: `   ** ${item.instructions}`, bold: true });
+    }
+  }
+
+  blocks.push({ type: 'divider', char: '=' }, { type: 'feed', lines: 2 }, { type: 'cut' });
+
+  return {
+    title: `${data.stationName} - Table ${data.tableNumber} - ${data.orderNumber}`,
+    blocks
+  };
+}
+
+export function receipt(data: ReceiptData): PrintDocument {
+  const blocks: PrintBlock[] = [
+    { type: 'logo' },
+    { type: 'text', text: data.restaurantName, align: 'center', bold: true, size: 'double' }
+  ];
+
+  if (data.restaurantAddress) {
+    blocks.push({ type: 'text', text: data.restaurantAddress, align: 'center' });
+  }
+  if (data.restaurantPhone) {
+    blocks.push({ type: 'text', text: data.restaurantPhone, align: 'center' });
+  }
+
+  blocks.push(
+    { type: 'divider' },
+    { type: 'row', left: `Table ${data.tableNumber}`, right: data.placedAt },
+    { type: 'text', text: `Order ${data.orderNumber}` },
+    { type: 'divider' }
+  );
+
+  for (const item of data.items) {
+    blocks.push({ type: 'row', left: `${item.quantity} x ${item.name}`, right: formatPrice(item.totalPrice) });
+    for (const modifier of item.modifiers) {
+      blocks.push({ type: 'text', text: `   ${modifier}` });
+    }
+  }
+
+  blocks.push(
+    { type: 'divider' },
+    { type: 'row', left: 'Subtotal', right: formatPrice(data.subtotal) }
+  );
+  if (data.discount > 0) {
+    blocks.push({ type: 'row', left: 'Loyalty discount', right: `-${formatPrice(data.discount)}` });
+  }
+  blocks.push(
+    { type: 'row', left: 'TOTAL', right: formatPrice(data.total), bold: true },
+    { type: 'divider' },
+    { type: 'text', text: 'Thank you for dining with us!', align: 'center' },
+    { type: 'feed', lines: 3 },
+    { type: 'cut' }
+  );
+
+  return { title: `Receipt - ${data.orderNumber}`, blocks };
+}
+
+export function testPage(data: TestPageData): PrintDocument {
+  return {
+    title: 'Printer Test',
+    blocks: [
+      { type: 'logo' },
+      { type: 'text', text: 'Printer Test Page', align: 'center', bold: true, size: 'double' },
+      { type: 'divider' },
+      { type: 'row', left: 'Restaurant', right: data.restaurantName },
+      { type: 'row', left: 'Printer', right: data.printerName },
+      { type: 'row', left: 'Date', right: data.printedAt },
+      { type: 'divider' },
+      { type: 'text', text: 'Left aligned' },
+      { type: 'text', text: 'Centered', align: 'center' },
+      { type: 'text', text: 'Right aligned', align: 'right' },
+      { type: 'text', text: 'Bold text', bold: true },
+      { type: 'text', text: 'Tall text', size: 'tall' },
+      { type: 'text', text: 'Double', size: 'double' },
+      { type: 'divider' },
+      { type: 'text', text: 'If you can read this, your printer is working correctly!', align: 'center' },
+      { type: 'feed', lines: 3 },
+      { type: 'cut' }
+    ]
+  };
+}
+
+export function tableQr(data: TableQrData): PrintDocument {
+  return {
+    title: `QR Code - Table ${data.tableNumber}`,
+    blocks: [
+      { type: 'text', text: data.restaurantName, align: 'center', bold: true },
+      { type: 'text', text: `Table ${data.tableNumber}`, align: 'center', bold: true, size: 'double' },
+      { type: 'feed' },
+      { type: 'qr', data: data.url, size: 8 },
+      { type: 'feed' },
+      { type: 'text', text: 'Scan to order', align: 'center' },
+      { type: 'feed', lines: 3 },
+      { type: 'cut' }
+    ]
+  };
+}
+
+// Example content for previewing templates without a real order
+const sampleItems: TicketLine[] = [
+  { quantity: 2, name: 'Hainanese Chicken Rice', modifiers: ['Size: Large', 'Extra chilli'], instructions: null, totalPrice: 13 },
+  { quantity: 1, name: 'Char Kway Teow', modifiers: [], instructions: 'No cockles, less spicy please', totalPrice: 7.5 },
+  { quantity: 3, name: 'Iced Lemon Tea', modifiers: ['Sugar: Less sweet'], instructions: null, totalPrice: 9 }
+];
+
+export function sampleDocument(template: PrintTemplate, restaurant: { name: string; address: string | null; phone: string | null }): PrintDocument {
+  const placedAt = new Date().toLocaleTimeString('en-SG', { hour: '2-digit', minute: '2-digit', timeZone: 'Asia/Singapore' });
+
+  switch (template) {
+    case 'kitchen_ticket':
+      return kitchenTicket({
+        stationName: 'Grill',
+        tableNumber: '12',
+        orderNumber: 'ORD-20261019-0042',
+        placedAt,
+        reprint: false,
+        items: sampleItems
+      });
+    case 'receipt':
+      return receipt({
+        restaurantName: restaurant.name,
+        restaurantAddress: restaurant.address,
+        restaurantPhone: restaurant.phone,
+        tableNumber: '12',
+        orderNumber: 'ORD-20261019-0042',
+        placedAt,
+        items: sampleItems,
+        subtotal: 29.5,
+        discount: 2.95,
+        total: 26.55
+      });
+    case 'table_qr':
+      return tableQr({ restaurantName: restaurant.name, tableNumber: '12', url: 'https://example.com/order/sample' });
+    default:
+      return testPage({ restaurantName: restaurant.name, printerName: 'Preview', printedAt: new Date().toLocaleString('en-SG') });
+  }
+}
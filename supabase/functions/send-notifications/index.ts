@@ -0,0 +1,234 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2.49.1';
+import { getProvider, NotificationChannel } from '../_shared/notificationProviders.ts';
+
+// Initialize Supabase client with service role key for admin access
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+// Public site URL used to build guest manage links
+const siteUrl = (Deno.env.get('SITE_URL') ?? '').replace(/\/$/, '');
+
+// Queued rows are retried until they've been attempted this many times
+const MAX_ATTEMPTS = 3;
+const BATCH_SIZE = 50;
+
+// CORS headers for all responses
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Helper function to create responses with CORS headers
+function createResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+interface NotificationRow {
+  id: string;
+  restaurant_id: string;
+  booking_id: string | null;
+  waiting_list_id: string | null;
+  event: string;
+  channel: NotificationChannel;
+  attempts: number;
+}
+
+// Delivers queued notifications. Anyone may trigger a run: it only sends what
+// booking and waiting list triggers have already queued.
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return createResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { data: pending, error: pendingError } = await supabase
+      .from('notification_log')
+      .select('id, restaurant_id, booking_id, waiting_list_id, event, channel, attempts')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (pendingError) throw pendingError;
+
+    const results = { sent: 0, failed: 0, skipped: 0 };
+    for (const notification of (pending || []) as NotificationRow[]) {
+      const outcome = await deliver(notification);
+      if (outcome) results[outcome]++;
+    }
+
+    return createResponse(results);
+  } catch (error) {
+    console.error('Error sending notifications:', error);
+    return createResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
+
+async function deliver(notification: NotificationRow): Promise<'sent' | 'failed' | 'skipped' | null> {
+  // Claim the row so concurrent runs don't send it twice
+  const { data: claimed, error: claimError } = await supabase
+    .from('notification_log')
+    .update({ attempts: notification.attempts + 1 })
+    .eq('id', notification.id)
+    .eq('status', 'pending')
+    .eq('attempts', notification.attempts)
+    .select('id');
+
+  if (claimError) throw claimError;
+  if (!claimed || claimed.length === 0) return null;
+
+  try {
+    const context = await loadContext(notification);
+    if (!context) {
+      return await finish(notification.id, 'skipped', { error_message: 'Booking no longer exists' });
+    }
+
+    const template = await loadTemplate(notification);
+    if (!template || !template.is_enabled) {
+      return await finish(notification.id, 'skipped', { error_message: template ? 'Template disabled' : 'No template for this event' });
+    }
+
+    const recipient = notification.channel === 'email' ? context.email : context.phone;
+    if (!recipient) {
+      return await finish(notification.id, 'skipped', { error_message: `Guest has no ${notification.channel === 'email' ? 'email address' : 'phone number'}` });
+    }
+
+    const subject = template.subject ? render(template.subject, context.variables) : null;
+    const body = render(template.body, context.variables);
+    const provider = getProvider(notification.channel);
+
+    const { providerMessageId } = await provider.send({
+      channel: notification.channel,
+      to: recipient,
+      subject,
+      body,
+    });
+
+    return await finish(notification.id, 'sent', {
+      recipient,
+      subject,
+      body,
+      provider: provider.name,
+      provider_message_id: providerMessageId,
+      error_message: null,
+      sent_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error(`Error delivering notification ${notification.id}:`, error);
+    const exhausted = notification.attempts + 1 >= MAX_ATTEMPTS;
+    await finish(notification.id, exhausted ? 'failed' : 'pending', {
+      error_message: error instanceof Error ? error.message : String(error),
+    });
+    return exhausted ? 'failed' : null;
+  }
+}
+
+async function finish<T extends 'sent' | 'failed' | 'skipped' | 'pending'>(
+  id: string,
+  status: T,
+  fields: Record<string, unknown>
+): Promise<T> {
+  const { error } = await supabase
+    .from('notification_log')
+    .update({ status, ...fields })
+    .eq('id', id);
+
+  if (error) throw error;
+  return status;
+}
+
+async function loadContext(notification: NotificationRow) {
+  const source = notification.booking_id
+    ? { table: 'bookings', id: notification.booking_id }
+    : notification.waiting_list_id
+      ? { table: 'waiting_list', id: notification.waiting_list_id }
+      : null;
+  if (!source) return null;
+
+  const { data: entry, error: entryError } = await supabase
+    .from(source.table)
+    .select('manage_token, customer:customers(name, email, phone)')
+    .eq('id', source.id)
+    .maybeSingle();
+
+  if (entryError) throw entryError;
+  if (!entry) return null;
+
+  // Same view of the booking the guest sees on the manage page
+  const { data: managed, error: managedError } = await supabase
+    .rpc('get_managed_booking', { p_token: entry.manage_token });
+
+  if (managedError) throw managedError;
+  if (!managed || managed.length === 0) return null;
+
+  const booking = managed[0];
+  const customer = entry.customer as { name: string; email: string | null; phone: string | null } | null;
+
+  return {
+    email: customer?.email || null,
+    phone: customer?.phone || null,
+    variables: {
+      customer_name: customer?.name || 'there',
+      restaurant_name: booking.restaurant_name,
+      restaurant_phone: booking.restaurant_phone || '',
+      date: formatDate(booking.booking_date),
+      time: formatTime(booking.booking_time),
+      party_size: String(booking.party_size),
+      table_numbers: (booking.table_numbers || []).join(' + '),
+      waitlist_position: booking.waitlist_position ? String(booking.waitlist_position) : '',
+      offer_minutes: booking.offer_expires_at
+        ? String(Math.max(1, Math.round((new Date(booking.offer_expires_at).getTime() - Date.now()) / 60000)))
+        : '',
+      manage_link: `${siteUrl}/manage/${entry.manage_token}`,
+    } as Record<string, string>,
+  };
+}
+
+// Restaurant template first, then the built-in default
+async function loadTemplate(notification: NotificationRow) {
+  const { data, error } = await supabase
+    .from('notification_templates')
+    .select('restaurant_id, subject, body, is_enabled')
+    .eq('event', notification.event)
+    .eq('channel', notification.channel)
+    .or(`restaurant_id.eq.${notification.restaurant_id},restaurant_id.is.null`);
+
+  if (error) throw error;
+  return (data || []).find(t => t.restaurant_id) ?? (data || [])[0] ?? null;
+}
+
+function render(template: string, variables: Record<string, string>) {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) => variables[key] ?? match);
+}
+
+function formatDate(date: string) {
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
+function formatTime(time: string) {
+  const [hour, minute] = time.split(':').map(Number);
+  const period = hour >= 12 ? 'PM' : 'AM';
+  const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
+  return `${displayHour}:${minute.toString().padStart(2, '0')} ${period}`;
+}
@@ -0,0 +1,279 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
+import Stripe from 'npm:stripe@17.7.0';
+import { createClient } from 'npm:@supabase/supabase-js@2.49.1';
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+
+// 'stripe' (default) or 'mock', which marks the bill paid without charging anyone
+const provider = Deno.env.get('SESSION_PAYMENT_PROVIDER') === 'mock' ? 'mock' : 'stripe';
+const stripe = provider === 'stripe'
+  ? new Stripe(Deno.env.get('STRIPE_SECRET_KEY')!, {
+    appInfo: {
+      name: 'Bolt Integration',
+      version: '1.0.0',
+    },
+  })
+  : null;
+
+// Stripe requires checkout sessions to stay open for at least 30 minutes
+const CHECKOUT_EXPIRY_SECONDS = 31 * 60;
+
+// Helper function to create responses with CORS headers
+function corsResponse(body: string | object | null, status = 200) {
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': '*',
+  };
+
+  // For 204 No Content, don't include Content-Type or body
+  if (status === 204) {
+    return new Response(null, { status, headers });
+  }
+
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...headers,
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+const toCents = (amount: number) => Math.round(Number(amount) * 100);
+
+// Diners pay with the session token from their table's QR code. The amount is
+// always worked out here from the orders in the database, never from the client.
+Deno.serve(async (req) => {
+  try {
+    if (req.method === 'OPTIONS') {
+      return corsResponse({}, 204);
+    }
+
+    if (req.method !== 'POST') {
+      return corsResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const { session_token, share_id, tip_sgd, success_url, cancel_url } = await req.json();
+
+    if (typeof session_token !== 'string' || typeof success_url !== 'string' || typeof cancel_url !== 'string') {
+      return corsResponse({ error: 'session_token, success_url and cancel_url are required' }, 400);
+    }
+
+    const tip = Number(tip_sgd ?? 0);
+    if (!Number.isFinite(tip) || tip < 0) {
+      return corsResponse({ error: 'tip_sgd must be a positive amount' }, 400);
+    }
+
+    const { data: session, error: sessionError } = await supabase
+      .from('order_sessions')
+      .select('id, restaurant_id, table:restaurant_tables(table_number), restaurant:restaurants(name)')
+      .eq('session_token', session_token)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (sessionError) throw sessionError;
+    if (!session) {
+      return corsResponse({ error: 'This table session has already been closed' }, 404);
+    }
+
+    const roundedTip = Math.round(tip * 100) / 100;
+    const urls = { successUrl: success_url, cancelUrl: cancel_url };
+
+    if (typeof share_id === 'string') {
+      return await payShare(session as OrderSession, share_id, roundedTip, urls);
+    }
+
+    return await payFullBill(session as OrderSession, roundedTip, urls);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Session payment error: ${message}`);
+    return corsResponse({ error: message }, 500);
+  }
+});
+
+interface OrderSession {
+  id: string;
+  restaurant_id: string;
+  table: { table_number: string } | null;
+  restaurant: { name: string } | null;
+}
+
+interface ReturnUrls {
+  successUrl: string;
+  cancelUrl: string;
+}
+
+async function payFullBill(session: OrderSession, tip: number, urls: ReturnUrls) {
+  const { data: openSplit, error: splitError } = await supabase
+    .from('bill_splits')
+    .select('id')
+    .eq('session_id', session.id)
+    .eq('status', 'open')
+    .maybeSingle();
+
+  if (splitError) throw splitError;
+  if (openSplit) {
+    return corsResponse({ error: 'This bill is being split. Pay a share, or cancel the split first.' }, 400);
+  }
+
+  const { data: orders, error: ordersError } = await supabase
+    .from('orders')
+    .select('id, total_sgd')
+    .eq('session_id', session.id)
+    .neq('status', 'paid');
+
+  if (ordersError) throw ordersError;
+  if (!orders || orders.length === 0) {
+    return corsResponse({ error: 'There is nothing left to pay' }, 400);
+  }
+
+  const subtotal = orders.reduce((sum, order) => sum + Number(order.total_sgd), 0);
+
+  // A new checkout replaces any earlier one the diner abandoned. If an earlier
+  // one is paid anyway, complete_session_payment marks it for a refund.
+  const { data: replaced, error: cancelError } = await supabase
+    .from('session_payments')
+    .update({ status: 'cancelled' })
+    .eq('session_id', session.id)
+    .is('split_id', null)
+    .eq('status', 'pending')
+    .select('stripe_checkout_session_id');
+
+  if (cancelError) throw cancelError;
+
+  for (const { stripe_checkout_session_id: checkoutId } of replaced ?? []) {
+    await expireCheckout(checkoutId);
+  }
+
+  const { data: payment, error: paymentError } = await supabase
+    .from('session_payments')
+    .insert({
+      session_id: session.id,
+      restaurant_id: session.restaurant_id,
+      order_ids: orders.map(order => order.id),
+      provider,
+      subtotal_sgd: subtotal,
+      tip_sgd: tip,
+      total_sgd: subtotal + tip,
+    })
+    .select('id')
+    .single();
+
+  if (paymentError) throw paymentError;
+
+  const description = `${orders.length} order${orders.length === 1 ? '' : 's'}`;
+  return await checkout(session, payment.id, subtotal, tip, description, urls);
+}
+
+async function payShare(session: OrderSession, shareId: string, tip: number, urls: ReturnUrls) {
+  const { data: share, error: shareError } = await supabase
+    .from('session_payments')
+    .select('id, label, subtotal_sgd, status, stripe_checkout_session_id, split:bill_splits(status)')
+    .eq('id', shareId)
+    .eq('session_id', session.id)
+    .not('split_id', 'is', null)
+    .maybeSingle();
+
+  if (shareError) throw shareError;
+
+  const split = share?.split as { status: string } | null | undefined;
+  if (!share || split?.status !== 'open') {
+    return corsResponse({ error: 'This share is no longer part of the bill' }, 404);
+  }
+
+  if (share.status !== 'pending') {
+    return corsResponse({ error: 'This share has already been paid' }, 400);
+  }
+
+  // Only the latest checkout for a share may be paid
+  await expireCheckout(share.stripe_checkout_session_id);
+
+  const amount = Number(share.subtotal_sgd);
+  const { error: updateError } = await supabase
+    .from('session_payments')
+    .update({ provider, tip_sgd: tip, total_sgd: amount + tip, stripe_checkout_session_id: null })
+    .eq('id', share.id);
+
+  if (updateError) throw updateError;
+
+  return await checkout(session, share.id, amount, tip, `Share: ${share.label}`, urls);
+}
+
+// Stops an earlier checkout from being paid; it may already be complete or expired
+async function expireCheckout(checkoutId: string | null) {
+  if (!stripe || !checkoutId) return;
+
+  try {
+    await stripe.checkout.sessions.expire(checkoutId);
+  } catch (error) {
+    console.warn(`Could not expire checkout ${checkoutId}:`, error);
+  }
+}
+
+async function checkout(
+  session: OrderSession,
+  paymentId: string,
+  amount: number,
+  tip: number,
+  description: string,
+  { successUrl, cancelUrl }: ReturnUrls,
+) {
+  if (!stripe) {
+    const { error: completeError } = await supabase
+      .rpc('complete_session_payment', { p_payment_id: paymentId });
+
+    if (completeError) throw completeError;
+
+    console.log(`Mock payment ${paymentId} completed for session ${session.id}`);
+    return corsResponse({ paymentId, url: successUrl });
+  }
+
+  const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [
+    {
+      price_data: {
+        currency: 'sgd',
+        unit_amount: toCents(amount),
+        product_data: {
+          name: `${session.restaurant?.name ?? 'Restaurant'} - Table ${session.table?.table_number ?? ''}`.trim(),
+          description,
+        },
+      },
+      quantity: 1,
+    },
+  ];
+
+  if (tip > 0) {
+    lineItems.push({
+      price_data: {
+        currency: 'sgd',
+        unit_amount: toCents(tip),
+        product_data: { name: 'Tip' },
+      },
+      quantity: 1,
+    });
+  }
+
+  const metadata = { session_payment_id: paymentId, order_session_id: session.id };
+  const checkoutSession = await stripe.checkout.sessions.create({
+    mode: 'payment',
+    payment_method_types: ['card'],
+    line_items: lineItems,
+    payment_intent_data: { metadata },
+    metadata,
+    expires_at: Math.floor(Date.now() / 1000) + CHECKOUT_EXPIRY_SECONDS,
+    success_url: successUrl,
+    cancel_url: cancelUrl,
+  });
+
+  const { error: updateError } = await supabase
+    .from('session_payments')
+    .update({ stripe_checkout_session_id: checkoutSession.id })
+    .eq('id', paymentId);
+
+  if (updateError) throw updateError;
+
+  console.log(`Created checkout session ${checkoutSession.id} for order session ${session.id}`);
+
+  return corsResponse({ paymentId, url: checkoutSession.url });
+}
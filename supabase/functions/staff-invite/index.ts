@@ -0,0 +1,160 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2.49.1';
+import { getProvider } from '../_shared/notificationProviders.ts';
+import { StaffRole, userCanAssignRole } from '../_shared/staffPermissions.ts';
+
+// Initialize Supabase client with service role key for admin access
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+// Public site URL used to build invitation links
+const siteUrl = (Deno.env.get('SITE_URL') ?? '').replace(/\/$/, '');
+
+const roleLabels: Record<string, string> = {
+  manager: 'Manager',
+  host: 'Host',
+  server: 'Server',
+  kitchen: 'Kitchen',
+};
+
+// CORS headers for all responses
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Helper function to create responses with CORS headers
+function createResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+// Invites someone to the restaurant's team: records the invitation and emails
+// them a link to accept it. Inviting the same address again replaces the open
+// invitation and sends a new link.
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return createResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return createResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return createResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const { restaurantId, email, role } = await req.json();
+    const normalizedEmail = typeof email === 'string' ? email.trim().toLowerCase() : '';
+
+    if (!restaurantId || !normalizedEmail || !role) {
+      return createResponse({ error: 'Missing required parameters: restaurantId, email, role' }, 400);
+    }
+
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) {
+      return createResponse({ error: 'Enter a valid email address' }, 400);
+    }
+
+    if (!roleLabels[role]) {
+      return createResponse({ error: `Unknown role "${role}"` }, 400);
+    }
+
+    if (!await userCanAssignRole(supabase, user.id, restaurantId, role as StaffRole)) {
+      return createResponse({ error: 'You do not have permission to invite this role' }, 403);
+    }
+
+    const { data: restaurant, error: restaurantError } = await supabase
+      .from('restaurants')
+      .select('name')
+      .eq('id', restaurantId)
+      .single();
+
+    if (restaurantError || !restaurant) {
+      return createResponse({ error: 'Restaurant not found' }, 404);
+    }
+
+    const { error: replaceError } = await supabase
+      .from('staff_invitations')
+      .delete()
+      .eq('restaurant_id', restaurantId)
+      .eq('email', normalizedEmail)
+      .is('accepted_at', null);
+
+    if (replaceError) throw replaceError;
+
+    const { data: invitation, error: invitationError } = await supabase
+      .from('staff_invitations')
+      .insert({
+        restaurant_id: restaurantId,
+        email: normalizedEmail,
+        role,
+        invited_by: user.id,
+      })
+      .select('id, email, role, token, expires_at')
+      .single();
+
+    if (invitationError) throw invitationError;
+
+    const inviteLink = `${siteUrl}/invite/${invitation.token}`;
+
+    // The invitation stands even if the email doesn't go out; the dashboard
+    // shows the link so it can be passed on another way
+    let emailError: string | null = null;
+    try {
+      await getProvider('email').send({
+        channel: 'email',
+        to: normalizedEmail,
+        subject: `You're invited to join ${restaurant.name}`,
+        body: [
+          'Hi,',
+          '',
+          `${user.email ?? 'A manager'} has invited you to join the team at ${restaurant.name} as ${roleLabels[role]}.`,
+          '',
+          `Accept the invitation: ${inviteLink}`,
+          '',
+          `Sign in or create an account with this email address. The link expires on ${new Date(invitation.expires_at).toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}.`,
+        ].join('\n'),
+      });
+    } catch (error) {
+      console.error('Error sending staff invitation:', error);
+      emailError = error instanceof Error ? error.message : String(error);
+    }
+
+    return createResponse({
+      invitation: {
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role,
+        expires_at: invitation.expires_at,
+      },
+      inviteLink,
+      emailSent: emailError === null,
+      emailError,
+    });
+  } catch (error) {
+    console.error('Error inviting staff member:', error);
+    return createResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
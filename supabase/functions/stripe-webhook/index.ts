@@ -60,6 +60,25 @@ async function handleEvent(event: Stripe.Event) {
     return;
   }
 
+  // Charges copy their payment intent's metadata, so check refunds first
+  if (event.type === 'charge.refunded') {
+    await syncBookingPaymentRefund(event.data.object);
+    return;
+  }
+
+  // Booking deposits and card guarantees carry their booking_payments id
+  const metadata = 'metadata' in stripeData ? stripeData.metadata : null;
+  if (metadata?.booking_payment_id) {
+    await handleBookingPaymentEvent(event, metadata.booking_payment_id);
+    return;
+  }
+
+  // Pay-at-table checkouts carry their session_payments id
+  if (metadata?.session_payment_id) {
+    await handleSessionPaymentEvent(event, metadata.session_payment_id);
+    return;
+  }
+
   if (!('customer' in stripeData)) {
     return;
   }
@@ -124,6 +143,269 @@ async function handleEvent(event: Stripe.Event) {
   }
 }
 
+async function handleBookingPaymentEvent(event: Stripe.Event, bookingPaymentId: string) {
+  const { data: payment, error: paymentError } = await supabase
+    .from('booking_payments')
+    .select('id, booking_id, payment_type, status')
+    .eq('id', bookingPaymentId)
+    .maybeSingle();
+
+  if (paymentError) {
+    console.error('Error fetching booking payment:', paymentError);
+    return;
+  }
+
+  if (!payment) {
+    console.error(`No booking payment found for ${bookingPaymentId}`);
+    return;
+  }
+
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const session = event.data.object;
+      let fields: Record<string, unknown>;
+
+      if (session.mode === 'setup') {
+        const setupIntentId = typeof session.setup_intent === 'string' ? session.setup_intent : session.setup_intent?.id;
+        if (!setupIntentId) {
+          console.error(`No setup intent on checkout session ${session.id}`);
+          return;
+        }
+
+        const setupIntent = await stripe.setupIntents.retrieve(setupIntentId);
+        fields = {
+          status: 'card_saved',
+          stripe_customer_id: typeof session.customer === 'string' ? session.customer : session.customer?.id ?? null,
+          stripe_payment_method_id: typeof setupIntent.payment_method === 'string'
+            ? setupIntent.payment_method
+            : setupIntent.payment_method?.id ?? null,
+        };
+      } else if (session.payment_status === 'paid') {
+        fields = {
+          status: 'paid',
+          stripe_payment_intent_id: typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id ?? null,
+        };
+      } else {
+        return;
+      }
+
+      const { error: updateError } = await supabase
+        .from('booking_payments')
+        .update({ ...fields, error_message: null })
+        .eq('id', payment.id)
+        .eq('status', 'pending');
+
+      if (updateError) {
+        console.error('Error recording booking payment:', updateError);
+        return;
+      }
+
+      // The booking was only held until the guest paid
+      const { data: confirmed, error: bookingError } = await supabase
+        .from('bookings')
+        .update({ status: 'confirmed', updated_at: new Date().toISOString() })
+        .eq('id', payment.booking_id)
+        .eq('status', 'pending')
+        .select('id');
+
+      if (bookingError) {
+        console.error('Error confirming booking after payment:', bookingError);
+        return;
+      }
+
+      // Paid after the booking was already cancelled: hand the money back
+      if (!confirmed || confirmed.length === 0) {
+        const { data: booking } = await supabase
+          .from('bookings')
+          .select('status')
+          .eq('id', payment.booking_id)
+          .maybeSingle();
+
+        if (booking?.status === 'cancelled') {
+          await supabase
+            .from('booking_payments')
+            .update(payment.payment_type === 'deposit' ? { pending_action: 'refund' } : { status: 'released' })
+            .eq('id', payment.id);
+        }
+      }
+
+      console.info(`Booking ${payment.booking_id} ${payment.payment_type} completed via session ${session.id}`);
+      break;
+    }
+
+    case 'checkout.session.expired': {
+      const { error: updateError } = await supabase
+        .from('booking_payments')
+        .update({ status: 'cancelled' })
+        .eq('id', payment.id)
+        .eq('status', 'pending');
+
+      if (updateError) {
+        console.error('Error expiring booking payment:', updateError);
+        return;
+      }
+
+      // Release the held tables so other guests can book them
+      const { data: cancelled, error: bookingError } = await supabase
+        .from('bookings')
+        .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+        .eq('id', payment.booking_id)
+        .eq('status', 'pending')
+        .select('id');
+
+      if (bookingError) {
+        console.error('Error cancelling unpaid booking:', bookingError);
+        return;
+      }
+
+      if (cancelled && cancelled.length > 0) {
+        const { data: heldTables } = await supabase
+          .from('booking_tables')
+          .select('table_id')
+          .eq('booking_id', payment.booking_id);
+
+        await supabase
+          .from('restaurant_tables')
+          .update({ status: 'available', updated_at: new Date().toISOString() })
+          .in('id', (heldTables || []).map(held => held.table_id))
+          .eq('status', 'reserved');
+
+        console.info(`Cancelled unpaid booking ${payment.booking_id}`);
+      }
+      break;
+    }
+
+    case 'payment_intent.succeeded': {
+      // Confirms the off-session no-show charge; deposits are recorded at checkout
+      if (payment.payment_type === 'guarantee') {
+        await supabase
+          .from('booking_payments')
+          .update({ status: 'charged', stripe_payment_intent_id: event.data.object.id, error_message: null })
+          .eq('id', payment.id);
+      }
+      break;
+    }
+
+    case 'payment_intent.payment_failed': {
+      if (payment.payment_type === 'guarantee') {
+        await supabase
+          .from('booking_payments')
+          .update({
+            status: 'failed',
+            error_message: event.data.object.last_payment_error?.message ?? 'Payment failed',
+          })
+          .eq('id', payment.id);
+      }
+      break;
+    }
+  }
+}
+
+async function handleSessionPaymentEvent(event: Stripe.Event, sessionPaymentId: string) {
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const session = event.data.object;
+      if (session.payment_status !== 'paid') {
+        return;
+      }
+
+      // Marks the orders paid, then closes the session and frees the table
+      const { data: completed, error } = await supabase
+        .rpc('complete_session_payment', {
+          p_payment_id: sessionPaymentId,
+          p_payment_intent_id: typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id ?? null,
+        });
+
+      if (error) {
+        console.error('Error completing session payment:', error);
+        return;
+      }
+
+      // Also on a retried event, in case the refund failed the first time
+      await refundSessionPayment(sessionPaymentId);
+
+      console.info(`Session payment ${sessionPaymentId} ${completed ? 'completed' : 'was already handled'} via session ${session.id}`);
+      break;
+    }
+
+    case 'checkout.session.expired': {
+      // Split shares stay payable; only abandoned full-bill checkouts close
+      const { error } = await supabase
+        .from('session_payments')
+        .update({ status: 'cancelled' })
+        .eq('id', sessionPaymentId)
+        .is('split_id', null)
+        .eq('status', 'pending');
+
+      if (error) {
+        console.error('Error expiring session payment:', error);
+      }
+      break;
+    }
+  }
+}
+
+// A checkout paid after it was replaced (by a newer checkout or a bill split), or
+// for orders already paid, covers nothing on the bill, so
+// complete_session_payment leaves it 'refund_due' for us to hand back
+async function refundSessionPayment(sessionPaymentId: string) {
+  const { data: payment, error } = await supabase
+    .from('session_payments')
+    .select('id, stripe_payment_intent_id')
+    .eq('id', sessionPaymentId)
+    .eq('status', 'refund_due')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading session payment for refund:', error);
+    return;
+  }
+  if (!payment?.stripe_payment_intent_id) {
+    return;
+  }
+
+  try {
+    // Keyed on the payment so a retried webhook can't refund it twice
+    await stripe.refunds.create(
+      { payment_intent: payment.stripe_payment_intent_id },
+      { idempotencyKey: `session-payment-refund-${payment.id}` },
+    );
+  } catch (refundError) {
+    // Left 'refund_due' so staff can see it still needs refunding
+    console.error(`Failed to refund session payment ${payment.id}:`, refundError);
+    return;
+  }
+
+  const { error: updateError } = await supabase
+    .from('session_payments')
+    .update({ status: 'refunded' })
+    .eq('id', payment.id);
+
+  if (updateError) {
+    console.error('Error recording session payment refund:', updateError);
+  }
+
+  console.info(`Refunded session payment ${payment.id}, which no longer covered the bill`);
+}
+
+// Refunds made from the Stripe dashboard are reflected on the booking too
+async function syncBookingPaymentRefund(charge: Stripe.Charge) {
+  const paymentIntentId = typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+  if (!paymentIntentId || !charge.refunded) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('booking_payments')
+    .update({ status: 'refunded', pending_action: null })
+    .eq('stripe_payment_intent_id', paymentIntentId)
+    .in('status', ['paid', 'retained', 'charged', 'failed']);
+
+  if (error) {
+    console.error('Error syncing booking payment refund:', error);
+  }
+}
+
 // based on the excellent https://github.com/t3dotgg/stripe-recommendations
 async function syncCustomerFromStripe(customerId: string) {
   try {
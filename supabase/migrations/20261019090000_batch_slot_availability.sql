@@ -0,0 +1,120 @@
+/*
+  # Batch Time Slot Availability
+
+  The booking page used to call get_time_slot_availability once per slot, which
+  meant ~50 sequential round trips for a full day. This migration adds a single
+  day-level function that returns every bookable slot for a date (or a date range)
+  in one call.
+
+  1. New Functions
+    - get_day_availability(restaurant_id, start_date, end_date)
+      - Generates slots from restaurant_operating_hours and time_slot_duration_minutes
+      - Returns capacity, booked capacity and waiting count for every slot
+      - end_date is optional; ranges are limited to 31 days
+
+  2. Realtime
+    - bookings and waiting_list use REPLICA IDENTITY FULL so that update and delete
+      events carry the previous date and time, letting clients invalidate only the
+      slots that actually changed
+*/
+
+CREATE OR REPLACE FUNCTION get_day_availability(
+  p_restaurant_id uuid,
+  p_start_date date,
+  p_end_date date DEFAULT NULL
+)
+RETURNS TABLE(
+  slot_date date,
+  slot_time time,
+  total_capacity integer,
+  booked_capacity integer,
+  available_capacity integer,
+  waiting_count integer
+) AS $$
+DECLARE
+  v_end_date date := COALESCE(p_end_date, p_start_date);
+  v_slot_minutes integer;
+  v_total_capacity integer := 0;
+BEGIN
+  IF v_end_date < p_start_date THEN
+    RAISE EXCEPTION 'End date must be on or after start date';
+  END IF;
+
+  IF v_end_date - p_start_date > 31 THEN
+    RAISE EXCEPTION 'Date range cannot exceed 31 days';
+  END IF;
+
+  SELECT COALESCE(r.time_slot_duration_minutes, 15)
+  INTO v_slot_minutes
+  FROM restaurants r
+  WHERE r.id = p_restaurant_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Same capacity rule as get_time_slot_availability
+  SELECT COALESCE(SUM(rt.capacity), 0)
+  INTO v_total_capacity
+  FROM restaurant_tables rt
+  WHERE rt.restaurant_id = p_restaurant_id
+    AND rt.status IN ('available', 'reserved', 'occupied');
+
+  RETURN QUERY
+  WITH days AS (
+    SELECT d::date AS day
+    FROM generate_series(p_start_date, v_end_date, interval '1 day') d
+  ),
+  slots AS (
+    SELECT days.day, s::time AS start_time
+    FROM days
+    JOIN restaurant_operating_hours oh
+      ON oh.restaurant_id = p_restaurant_id
+     AND oh.day_of_week = EXTRACT(DOW FROM days.day)::integer
+     AND oh.is_closed = false
+    CROSS JOIN LATERAL generate_series(
+      days.day + oh.opening_time,
+      days.day + oh.closing_time,
+      make_interval(mins => v_slot_minutes)
+    ) s
+    WHERE s < days.day + oh.closing_time
+  ),
+  booked AS (
+    SELECT b.booking_date, b.booking_time, SUM(b.party_size)::integer AS party_total
+    FROM bookings b
+    WHERE b.restaurant_id = p_restaurant_id
+      AND b.booking_date BETWEEN p_start_date AND v_end_date
+      AND b.status IN ('confirmed', 'seated', 'pending')
+    GROUP BY b.booking_date, b.booking_time
+  ),
+  waiting AS (
+    SELECT w.requested_date, w.requested_time, COUNT(*)::integer AS waiting_total
+    FROM waiting_list w
+    WHERE w.restaurant_id = p_restaurant_id
+      AND w.requested_date BETWEEN p_start_date AND v_end_date
+      AND w.status = 'waiting'
+    GROUP BY w.requested_date, w.requested_time
+  )
+  SELECT
+    slots.day,
+    slots.start_time,
+    v_total_capacity,
+    COALESCE(booked.party_total, 0),
+    GREATEST(0, v_total_capacity - COALESCE(booked.party_total, 0)),
+    COALESCE(waiting.waiting_total, 0)
+  FROM slots
+  LEFT JOIN booked
+    ON booked.booking_date = slots.day AND booked.booking_time = slots.start_time
+  LEFT JOIN waiting
+    ON waiting.requested_date = slots.day AND waiting.requested_time = slots.start_time
+  ORDER BY slots.day, slots.start_time;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_day_availability(uuid, date, date) TO anon, authenticated;
+
+COMMENT ON FUNCTION get_day_availability(uuid, date, date) IS 'Returns capacity and availability for every bookable slot of a date or date range in a single call';
+
+-- Include old row values in realtime update/delete events
+ALTER TABLE bookings REPLICA IDENTITY FULL;
+ALTER TABLE waiting_list REPLICA IDENTITY FULL;
@@ -0,0 +1,264 @@
+/*
+  # Duration-Aware Table Occupancy
+
+  Bookings previously only blocked a table for their exact start slot, so a table
+  booked at 19:00 could be handed out again at 19:15. Each booking now carries an
+  expected dining duration and availability checks block the table for the whole
+  sitting.
+
+  1. Changes
+    - bookings.expected_duration_minutes (defaults by party size, can be overridden)
+    - Existing bookings are backfilled with the party size default
+
+  2. New Functions
+    - get_default_dining_duration(party_size)
+      - 1-2 guests: 90 minutes, 3-4: 105, 5-6: 120, 7+: 150
+    - set_booking_duration() trigger fills the default when no duration is given
+
+  3. Updated Functions
+    - get_available_tables takes an optional duration and excludes tables with any
+      overlapping booking
+    - get_time_slot_availability and get_day_availability count every booking still
+      at the table during a slot, not just bookings starting in it
+*/
+
+CREATE OR REPLACE FUNCTION get_default_dining_duration(p_party_size integer)
+RETURNS integer AS $$
+BEGIN
+  RETURN CASE
+    WHEN p_party_size <= 2 THEN 90
+    WHEN p_party_size <= 4 THEN 105
+    WHEN p_party_size <= 6 THEN 120
+    ELSE 150
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS expected_duration_minutes integer;
+
+UPDATE bookings
+SET expected_duration_minutes = get_default_dining_duration(party_size)
+WHERE expected_duration_minutes IS NULL;
+
+CREATE OR REPLACE FUNCTION set_booking_duration()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.expected_duration_minutes IS NULL THEN
+    NEW.expected_duration_minutes := get_default_dining_duration(NEW.party_size);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_booking_duration ON bookings;
+CREATE TRIGGER set_booking_duration
+  BEFORE INSERT OR UPDATE OF party_size, expected_duration_minutes ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION set_booking_duration();
+
+ALTER TABLE bookings
+  ALTER COLUMN expected_duration_minutes SET NOT NULL,
+  ADD CONSTRAINT bookings_expected_duration_positive CHECK (expected_duration_minutes > 0);
+
+CREATE INDEX IF NOT EXISTS idx_bookings_restaurant_date
+  ON bookings(restaurant_id, booking_date);
+
+-- The signature changes, so the old version has to go first
+DROP FUNCTION IF EXISTS get_available_tables(uuid, date, time, integer);
+
+CREATE OR REPLACE FUNCTION get_available_tables(
+  p_restaurant_id uuid,
+  p_date date,
+  p_time time,
+  p_party_size integer,
+  p_duration_minutes integer DEFAULT NULL
+)
+RETURNS TABLE(
+  table_id uuid,
+  table_number text,
+  capacity integer
+) AS $$
+DECLARE
+  v_start timestamp := p_date + p_time;
+  v_end timestamp := p_date + p_time
+    + make_interval(mins => COALESCE(p_duration_minutes, get_default_dining_duration(p_party_size)));
+BEGIN
+  RETURN QUERY
+  SELECT
+    rt.id as table_id,
+    rt.table_number,
+    rt.capacity
+  FROM restaurant_tables rt
+  WHERE rt.restaurant_id = p_restaurant_id
+    AND rt.capacity >= p_party_size
+    AND rt.status = 'available'
+    AND rt.id NOT IN (
+      -- Exclude tables held by any booking overlapping the requested sitting
+      SELECT DISTINCT b.table_id
+      FROM bookings b
+      WHERE b.restaurant_id = p_restaurant_id
+        AND b.booking_date BETWEEN p_date - 1 AND p_date + 1
+        AND b.table_id IS NOT NULL
+        AND b.status IN ('confirmed', 'seated', 'pending')
+        AND b.booking_date + b.booking_time < v_end
+        AND v_start < b.booking_date + b.booking_time + make_interval(mins => b.expected_duration_minutes)
+    )
+  ORDER BY rt.capacity ASC, rt.table_number ASC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_time_slot_availability(
+  p_restaurant_id uuid,
+  p_date date,
+  p_time time
+)
+RETURNS TABLE(
+  total_capacity integer,
+  booked_capacity integer,
+  available_capacity integer,
+  waiting_count integer
+) AS $$
+DECLARE
+  v_slot timestamp := p_date + p_time;
+  v_total_capacity integer := 0;
+  v_booked_capacity integer := 0;
+  v_waiting_count integer := 0;
+BEGIN
+  -- Get total capacity from all available tables
+  SELECT COALESCE(SUM(capacity), 0)
+  INTO v_total_capacity
+  FROM restaurant_tables
+  WHERE restaurant_id = p_restaurant_id
+    AND status IN ('available', 'reserved', 'occupied');
+
+  -- Get capacity of every booking still dining during this slot
+  SELECT COALESCE(SUM(b.party_size), 0)
+  INTO v_booked_capacity
+  FROM bookings b
+  WHERE b.restaurant_id = p_restaurant_id
+    AND b.booking_date BETWEEN p_date - 1 AND p_date
+    AND b.status IN ('confirmed', 'seated', 'pending')
+    AND b.booking_date + b.booking_time <= v_slot
+    AND v_slot < b.booking_date + b.booking_time + make_interval(mins => b.expected_duration_minutes);
+
+  -- Get waiting list count for this time slot
+  SELECT COUNT(*)
+  INTO v_waiting_count
+  FROM waiting_list w
+  WHERE w.restaurant_id = p_restaurant_id
+    AND w.requested_date = p_date
+    AND w.requested_time = p_time
+    AND w.status = 'waiting';
+
+  RETURN QUERY
+  SELECT
+    v_total_capacity,
+    v_booked_capacity,
+    GREATEST(0, v_total_capacity - v_booked_capacity) as available_capacity,
+    v_waiting_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_day_availability(
+  p_restaurant_id uuid,
+  p_start_date date,
+  p_end_date date DEFAULT NULL
+)
+RETURNS TABLE(
+  slot_date date,
+  slot_time time,
+  total_capacity integer,
+  booked_capacity integer,
+  available_capacity integer,
+  waiting_count integer
+) AS $$
+DECLARE
+  v_end_date date := COALESCE(p_end_date, p_start_date);
+  v_slot_minutes integer;
+  v_total_capacity integer := 0;
+BEGIN
+  IF v_end_date < p_start_date THEN
+    RAISE EXCEPTION 'End date must be on or after start date';
+  END IF;
+
+  IF v_end_date - p_start_date > 31 THEN
+    RAISE EXCEPTION 'Date range cannot exceed 31 days';
+  END IF;
+
+  SELECT COALESCE(r.time_slot_duration_minutes, 15)
+  INTO v_slot_minutes
+  FROM restaurants r
+  WHERE r.id = p_restaurant_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Same capacity rule as get_time_slot_availability
+  SELECT COALESCE(SUM(rt.capacity), 0)
+  INTO v_total_capacity
+  FROM restaurant_tables rt
+  WHERE rt.restaurant_id = p_restaurant_id
+    AND rt.status IN ('available', 'reserved', 'occupied');
+
+  RETURN QUERY
+  WITH days AS (
+    SELECT d::date AS day
+    FROM generate_series(p_start_date, v_end_date, interval '1 day') d
+  ),
+  slots AS (
+    SELECT days.day, s::time AS start_time, s AS starts_at
+    FROM days
+    JOIN restaurant_operating_hours oh
+      ON oh.restaurant_id = p_restaurant_id
+     AND oh.day_of_week = EXTRACT(DOW FROM days.day)::integer
+     AND oh.is_closed = false
+    CROSS JOIN LATERAL generate_series(
+      days.day + oh.opening_time,
+      days.day + oh.closing_time,
+      make_interval(mins => v_slot_minutes)
+    ) s
+    WHERE s < days.day + oh.closing_time
+  ),
+  booked AS (
+    -- Every booking still at the table when the slot starts
+    SELECT slots.starts_at, SUM(b.party_size)::integer AS party_total
+    FROM slots
+    JOIN bookings b
+      ON b.restaurant_id = p_restaurant_id
+     AND b.booking_date BETWEEN p_start_date - 1 AND v_end_date
+     AND b.status IN ('confirmed', 'seated', 'pending')
+     AND b.booking_date + b.booking_time <= slots.starts_at
+     AND slots.starts_at < b.booking_date + b.booking_time + make_interval(mins => b.expected_duration_minutes)
+    GROUP BY slots.starts_at
+  ),
+  waiting AS (
+    SELECT w.requested_date, w.requested_time, COUNT(*)::integer AS waiting_total
+    FROM waiting_list w
+    WHERE w.restaurant_id = p_restaurant_id
+      AND w.requested_date BETWEEN p_start_date AND v_end_date
+      AND w.status = 'waiting'
+    GROUP BY w.requested_date, w.requested_time
+  )
+  SELECT
+    slots.day,
+    slots.start_time,
+    v_total_capacity,
+    COALESCE(booked.party_total, 0),
+    GREATEST(0, v_total_capacity - COALESCE(booked.party_total, 0)),
+    COALESCE(waiting.waiting_total, 0)
+  FROM slots
+  LEFT JOIN booked
+    ON booked.starts_at = slots.starts_at
+  LEFT JOIN waiting
+    ON waiting.requested_date = slots.day AND waiting.requested_time = slots.start_time
+  ORDER BY slots.day, slots.start_time;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_default_dining_duration(integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_available_tables(uuid, date, time, integer, integer) TO anon, authenticated;
+
+COMMENT ON COLUMN bookings.expected_duration_minutes IS 'How long the party is expected to hold the table. Defaults by party size.';
+COMMENT ON FUNCTION get_default_dining_duration(integer) IS 'Default expected dining duration in minutes for a party size';
+COMMENT ON FUNCTION get_available_tables(uuid, date, time, integer, integer) IS 'Returns tables free for the whole sitting starting at the given time';
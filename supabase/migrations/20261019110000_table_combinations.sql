@@ -0,0 +1,272 @@
+/*
+  # Table Combinations for Large Parties
+
+  Auto-assignment only ever considered single tables, so large parties went to the
+  waiting list even when two tables could be pushed together. Restaurants can now
+  define combinable table groups and a booking can hold several tables at once.
+
+  1. New Tables
+    - table_combinations: named group of tables that can be pushed together
+    - table_combination_members: tables in each group
+    - booking_tables: every table held by a booking (bookings.table_id stays the
+      primary table used for QR order sessions)
+
+  2. Changes
+    - bookings.combination_id records which group a combined booking uses
+    - A trigger keeps booking_tables in sync with bookings.table_id so single-table
+      code paths keep working unchanged
+
+  3. New Functions
+    - get_held_table_ids: tables held by any booking overlapping a time window
+    - get_available_table_combinations: free groups that fit a party
+
+  4. Updated Functions
+    - get_available_tables also excludes tables held through a combined booking
+*/
+
+CREATE TABLE IF NOT EXISTS table_combinations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS table_combination_members (
+  combination_id uuid NOT NULL REFERENCES table_combinations(id) ON DELETE CASCADE,
+  table_id uuid NOT NULL REFERENCES restaurant_tables(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (combination_id, table_id)
+);
+
+CREATE TABLE IF NOT EXISTS booking_tables (
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  table_id uuid NOT NULL REFERENCES restaurant_tables(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (booking_id, table_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_table_combinations_restaurant ON table_combinations(restaurant_id);
+CREATE INDEX IF NOT EXISTS idx_booking_tables_table ON booking_tables(table_id);
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS combination_id uuid REFERENCES table_combinations(id) ON DELETE SET NULL;
+
+-- Backfill holdings for bookings that already have a table
+INSERT INTO booking_tables (booking_id, table_id)
+SELECT id, table_id FROM bookings WHERE table_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION sync_booking_primary_table()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.table_id IS DISTINCT FROM NEW.table_id THEN
+    -- Reassigning a table releases the whole previous holding
+    DELETE FROM booking_tables WHERE booking_id = NEW.id;
+  END IF;
+
+  IF NEW.table_id IS NOT NULL THEN
+    INSERT INTO booking_tables (booking_id, table_id)
+    VALUES (NEW.id, NEW.table_id)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_booking_primary_table ON bookings;
+CREATE TRIGGER sync_booking_primary_table
+  AFTER INSERT OR UPDATE OF table_id ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_booking_primary_table();
+
+DROP TRIGGER IF EXISTS update_table_combinations_updated_at ON table_combinations;
+CREATE TRIGGER update_table_combinations_updated_at
+  BEFORE UPDATE ON table_combinations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE table_combinations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE table_combination_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE booking_tables ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can read table combinations"
+  ON table_combinations
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Restaurant staff can manage table combinations"
+  ON table_combinations
+  FOR ALL
+  TO authenticated
+  USING (user_can_access_restaurant(restaurant_id))
+  WITH CHECK (user_can_access_restaurant(restaurant_id));
+
+CREATE POLICY "Public can read table combination members"
+  ON table_combination_members
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Restaurant staff can manage table combination members"
+  ON table_combination_members
+  FOR ALL
+  TO authenticated
+  USING (
+    combination_id IN (
+      SELECT id FROM table_combinations WHERE user_can_access_restaurant(restaurant_id)
+    )
+  )
+  WITH CHECK (
+    combination_id IN (
+      SELECT id FROM table_combinations WHERE user_can_access_restaurant(restaurant_id)
+    )
+  );
+
+-- Same access as bookings: public booking flow creates combined bookings
+CREATE POLICY "Public can read booking tables"
+  ON booking_tables
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Public can hold tables for bookings"
+  ON booking_tables
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Restaurant staff can manage booking tables"
+  ON booking_tables
+  FOR ALL
+  TO authenticated
+  USING (
+    booking_id IN (
+      SELECT id FROM bookings WHERE user_can_access_restaurant(restaurant_id)
+    )
+  )
+  WITH CHECK (
+    booking_id IN (
+      SELECT id FROM bookings WHERE user_can_access_restaurant(restaurant_id)
+    )
+  );
+
+-- =============================================
+-- AVAILABILITY FUNCTIONS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_held_table_ids(
+  p_restaurant_id uuid,
+  p_start timestamp,
+  p_end timestamp
+)
+RETURNS TABLE(table_id uuid) AS $$
+  SELECT bt.table_id
+  FROM booking_tables bt
+  JOIN bookings b ON b.id = bt.booking_id
+  WHERE b.restaurant_id = p_restaurant_id
+    AND b.booking_date BETWEEN p_start::date - 1 AND p_end::date
+    AND b.status IN ('confirmed', 'seated', 'pending')
+    AND b.booking_date + b.booking_time < p_end
+    AND p_start < b.booking_date + b.booking_time + make_interval(mins => b.expected_duration_minutes)
+  UNION
+  SELECT b.table_id
+  FROM bookings b
+  WHERE b.restaurant_id = p_restaurant_id
+    AND b.booking_date BETWEEN p_start::date - 1 AND p_end::date
+    AND b.table_id IS NOT NULL
+    AND b.status IN ('confirmed', 'seated', 'pending')
+    AND b.booking_date + b.booking_time < p_end
+    AND p_start < b.booking_date + b.booking_time + make_interval(mins => b.expected_duration_minutes);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_available_tables(
+  p_restaurant_id uuid,
+  p_date date,
+  p_time time,
+  p_party_size integer,
+  p_duration_minutes integer DEFAULT NULL
+)
+RETURNS TABLE(
+  table_id uuid,
+  table_number text,
+  capacity integer
+) AS $$
+DECLARE
+  v_start timestamp := p_date + p_time;
+  v_end timestamp := p_date + p_time
+    + make_interval(mins => COALESCE(p_duration_minutes, get_default_dining_duration(p_party_size)));
+BEGIN
+  RETURN QUERY
+  SELECT
+    rt.id as table_id,
+    rt.table_number,
+    rt.capacity
+  FROM restaurant_tables rt
+  WHERE rt.restaurant_id = p_restaurant_id
+    AND rt.capacity >= p_party_size
+    AND rt.status = 'available'
+    AND rt.id NOT IN (
+      -- Exclude tables held by any booking overlapping the requested sitting
+      SELECT held.table_id FROM get_held_table_ids(p_restaurant_id, v_start, v_end) held
+    )
+  ORDER BY rt.capacity ASC, rt.table_number ASC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_available_table_combinations(
+  p_restaurant_id uuid,
+  p_date date,
+  p_time time,
+  p_party_size integer,
+  p_duration_minutes integer DEFAULT NULL
+)
+RETURNS TABLE(
+  combination_id uuid,
+  combination_name text,
+  table_ids uuid[],
+  table_numbers text[],
+  capacity integer
+) AS $$
+DECLARE
+  v_start timestamp := p_date + p_time;
+  v_end timestamp := p_date + p_time
+    + make_interval(mins => COALESCE(p_duration_minutes, get_default_dining_duration(p_party_size)));
+BEGIN
+  RETURN QUERY
+  WITH held AS (
+    SELECT h.table_id FROM get_held_table_ids(p_restaurant_id, v_start, v_end) h
+  )
+  SELECT
+    tc.id,
+    tc.name,
+    array_agg(rt.id ORDER BY rt.table_number),
+    array_agg(rt.table_number ORDER BY rt.table_number),
+    SUM(rt.capacity)::integer
+  FROM table_combinations tc
+  JOIN table_combination_members m ON m.combination_id = tc.id
+  JOIN restaurant_tables rt ON rt.id = m.table_id
+  LEFT JOIN held ON held.table_id = rt.id
+  WHERE tc.restaurant_id = p_restaurant_id
+    AND tc.is_active = true
+  GROUP BY tc.id, tc.name
+  HAVING SUM(rt.capacity) >= p_party_size
+    -- Every member must be free for the whole sitting
+    AND bool_and(rt.status = 'available' AND held.table_id IS NULL)
+  ORDER BY SUM(rt.capacity) ASC, COUNT(*) ASC, tc.name ASC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_held_table_ids(uuid, timestamp, timestamp) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_available_table_combinations(uuid, date, time, integer, integer) TO anon, authenticated;
+
+COMMENT ON TABLE table_combinations IS 'Groups of tables that can be pushed together for larger parties';
+COMMENT ON TABLE booking_tables IS 'All tables held by a booking. bookings.table_id is the primary table.';
+COMMENT ON FUNCTION get_available_table_combinations(uuid, date, time, integer, integer) IS 'Returns table groups that are free for the whole sitting and fit the party, smallest first';
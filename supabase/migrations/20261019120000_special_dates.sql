@@ -0,0 +1,326 @@
+/*
+  # Special Dates and Holiday Overrides
+
+  Operating hours were keyed only by day of week, so there was no way to close for a
+  public holiday, open late on New Year's Eve or block a private event. Date-specific
+  overrides now take precedence over the weekly schedule.
+
+  1. New Tables
+    - restaurant_special_dates
+      - One row per restaurant and date
+      - is_closed closes the restaurant for the whole day
+      - opening_time / closing_time replace the weekly hours when set
+      - time_slot_duration_minutes replaces the restaurant slot length when set
+
+  2. New Functions
+    - get_service_periods(restaurant_id, date): effective opening periods for a date,
+      applying any special date override to the weekly schedule
+    - is_restaurant_open(restaurant_id, date, time)
+
+  3. Updated Functions
+    - get_day_availability generates slots from get_service_periods
+    - get_available_tables returns nothing when the restaurant is closed at that time
+*/
+
+CREATE TABLE IF NOT EXISTS restaurant_special_dates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  special_date date NOT NULL,
+  name text NOT NULL,
+  is_closed boolean NOT NULL DEFAULT false,
+  opening_time time,
+  closing_time time,
+  time_slot_duration_minutes integer CHECK (time_slot_duration_minutes > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (restaurant_id, special_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_restaurant_special_dates_lookup
+  ON restaurant_special_dates(restaurant_id, special_date);
+
+DROP TRIGGER IF EXISTS update_restaurant_special_dates_updated_at ON restaurant_special_dates;
+CREATE TRIGGER update_restaurant_special_dates_updated_at
+  BEFORE UPDATE ON restaurant_special_dates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE restaurant_special_dates ENABLE ROW LEVEL SECURITY;
+
+-- Allow public to read special dates for restaurants with public slugs
+CREATE POLICY "Public can read special dates"
+  ON restaurant_special_dates
+  FOR SELECT
+  TO anon, authenticated
+  USING (
+    restaurant_id IN (
+      SELECT id FROM restaurants WHERE slug IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Restaurant staff can manage special dates"
+  ON restaurant_special_dates
+  FOR ALL
+  TO authenticated
+  USING (user_can_access_restaurant(restaurant_id))
+  WITH CHECK (user_can_access_restaurant(restaurant_id));
+
+-- =============================================
+-- EFFECTIVE HOURS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_service_periods(
+  p_restaurant_id uuid,
+  p_date date
+)
+RETURNS TABLE(
+  period_name text,
+  opening_time time,
+  closing_time time,
+  slot_minutes integer
+) AS $$
+DECLARE
+  v_special restaurant_special_dates%ROWTYPE;
+  v_weekly restaurant_operating_hours%ROWTYPE;
+  v_slot_minutes integer;
+BEGIN
+  SELECT COALESCE(r.time_slot_duration_minutes, 15)
+  INTO v_slot_minutes
+  FROM restaurants r
+  WHERE r.id = p_restaurant_id;
+
+  SELECT * INTO v_special
+  FROM restaurant_special_dates sd
+  WHERE sd.restaurant_id = p_restaurant_id
+    AND sd.special_date = p_date;
+
+  SELECT * INTO v_weekly
+  FROM restaurant_operating_hours oh
+  WHERE oh.restaurant_id = p_restaurant_id
+    AND oh.day_of_week = EXTRACT(DOW FROM p_date)::integer;
+
+  IF v_special.id IS NOT NULL THEN
+    IF v_special.is_closed THEN
+      RETURN;
+    END IF;
+
+    -- Custom hours fall back to the weekly hours for whichever end isn't set
+    IF COALESCE(v_special.opening_time, v_weekly.opening_time) IS NULL
+      OR COALESCE(v_special.closing_time, v_weekly.closing_time) IS NULL THEN
+      RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+      v_special.name,
+      COALESCE(v_special.opening_time, v_weekly.opening_time),
+      COALESCE(v_special.closing_time, v_weekly.closing_time),
+      COALESCE(v_special.time_slot_duration_minutes, v_slot_minutes);
+    RETURN;
+  END IF;
+
+  IF v_weekly.id IS NULL OR v_weekly.is_closed THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT NULL::text, v_weekly.opening_time, v_weekly.closing_time, v_slot_minutes;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION is_restaurant_open(
+  p_restaurant_id uuid,
+  p_date date,
+  p_time time
+)
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM get_service_periods(p_restaurant_id, p_date) sp
+    WHERE p_time >= sp.opening_time
+      AND p_time < sp.closing_time
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_available_tables(
+  p_restaurant_id uuid,
+  p_date date,
+  p_time time,
+  p_party_size integer,
+  p_duration_minutes integer DEFAULT NULL
+)
+RETURNS TABLE(
+  table_id uuid,
+  table_number text,
+  capacity integer
+) AS $$
+DECLARE
+  v_start timestamp := p_date + p_time;
+  v_end timestamp := p_date + p_time
+    + make_interval(mins => COALESCE(p_duration_minutes, get_default_dining_duration(p_party_size)));
+BEGIN
+  -- No tables on closed days or outside opening hours
+  IF NOT is_restaurant_open(p_restaurant_id, p_date, p_time) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    rt.id as table_id,
+    rt.table_number,
+    rt.capacity
+  FROM restaurant_tables rt
+  WHERE rt.restaurant_id = p_restaurant_id
+    AND rt.capacity >= p_party_size
+    AND rt.status = 'available'
+    AND rt.id NOT IN (
+      -- Exclude tables held by any booking overlapping the requested sitting
+      SELECT held.table_id FROM get_held_table_ids(p_restaurant_id, v_start, v_end) held
+    )
+  ORDER BY rt.capacity ASC, rt.table_number ASC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_available_table_combinations(
+  p_restaurant_id uuid,
+  p_date date,
+  p_time time,
+  p_party_size integer,
+  p_duration_minutes integer DEFAULT NULL
+)
+RETURNS TABLE(
+  combination_id uuid,
+  combination_name text,
+  table_ids uuid[],
+  table_numbers text[],
+  capacity integer
+) AS $$
+DECLARE
+  v_start timestamp := p_date + p_time;
+  v_end timestamp := p_date + p_time
+    + make_interval(mins => COALESCE(p_duration_minutes, get_default_dining_duration(p_party_size)));
+BEGIN
+  IF NOT is_restaurant_open(p_restaurant_id, p_date, p_time) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH held AS (
+    SELECT h.table_id FROM get_held_table_ids(p_restaurant_id, v_start, v_end) h
+  )
+  SELECT
+    tc.id,
+    tc.name,
+    array_agg(rt.id ORDER BY rt.table_number),
+    array_agg(rt.table_number ORDER BY rt.table_number),
+    SUM(rt.capacity)::integer
+  FROM table_combinations tc
+  JOIN table_combination_members m ON m.combination_id = tc.id
+  JOIN restaurant_tables rt ON rt.id = m.table_id
+  LEFT JOIN held ON held.table_id = rt.id
+  WHERE tc.restaurant_id = p_restaurant_id
+    AND tc.is_active = true
+  GROUP BY tc.id, tc.name
+  HAVING SUM(rt.capacity) >= p_party_size
+    -- Every member must be free for the whole sitting
+    AND bool_and(rt.status = 'available' AND held.table_id IS NULL)
+  ORDER BY SUM(rt.capacity) ASC, COUNT(*) ASC, tc.name ASC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_day_availability(
+  p_restaurant_id uuid,
+  p_start_date date,
+  p_end_date date DEFAULT NULL
+)
+RETURNS TABLE(
+  slot_date date,
+  slot_time time,
+  total_capacity integer,
+  booked_capacity integer,
+  available_capacity integer,
+  waiting_count integer
+) AS $$
+DECLARE
+  v_end_date date := COALESCE(p_end_date, p_start_date);
+  v_total_capacity integer := 0;
+BEGIN
+  IF v_end_date < p_start_date THEN
+    RAISE EXCEPTION 'End date must be on or after start date';
+  END IF;
+
+  IF v_end_date - p_start_date > 31 THEN
+    RAISE EXCEPTION 'Date range cannot exceed 31 days';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM restaurants r WHERE r.id = p_restaurant_id) THEN
+    RETURN;
+  END IF;
+
+  -- Same capacity rule as get_time_slot_availability
+  SELECT COALESCE(SUM(rt.capacity), 0)
+  INTO v_total_capacity
+  FROM restaurant_tables rt
+  WHERE rt.restaurant_id = p_restaurant_id
+    AND rt.status IN ('available', 'reserved', 'occupied');
+
+  RETURN QUERY
+  WITH days AS (
+    SELECT d::date AS day
+    FROM generate_series(p_start_date, v_end_date, interval '1 day') d
+  ),
+  slots AS (
+    SELECT days.day, s::time AS start_time, s AS starts_at
+    FROM days
+    CROSS JOIN LATERAL get_service_periods(p_restaurant_id, days.day) sp
+    CROSS JOIN LATERAL generate_series(
+      days.day + sp.opening_time,
+      days.day + sp.closing_time,
+      make_interval(mins => sp.slot_minutes)
+    ) s
+    WHERE s < days.day + sp.closing_time
+  ),
+  booked AS (
+    -- Every booking still at the table when the slot starts
+    SELECT slots.starts_at, SUM(b.party_size)::integer AS party_total
+    FROM slots
+    JOIN bookings b
+      ON b.restaurant_id = p_restaurant_id
+     AND b.booking_date BETWEEN p_start_date - 1 AND v_end_date
+     AND b.status IN ('confirmed', 'seated', 'pending')
+     AND b.booking_date + b.booking_time <= slots.starts_at
+     AND slots.starts_at < b.booking_date + b.booking_time + make_interval(mins => b.expected_duration_minutes)
+    GROUP BY slots.starts_at
+  ),
+  waiting AS (
+    SELECT w.requested_date, w.requested_time, COUNT(*)::integer AS waiting_total
+    FROM waiting_list w
+    WHERE w.restaurant_id = p_restaurant_id
+      AND w.requested_date BETWEEN p_start_date AND v_end_date
+      AND w.status = 'waiting'
+    GROUP BY w.requested_date, w.requested_time
+  )
+  SELECT
+    slots.day,
+    slots.start_time,
+    v_total_capacity,
+    COALESCE(booked.party_total, 0),
+    GREATEST(0, v_total_capacity - COALESCE(booked.party_total, 0)),
+    COALESCE(waiting.waiting_total, 0)
+  FROM slots
+  LEFT JOIN booked
+    ON booked.starts_at = slots.starts_at
+  LEFT JOIN waiting
+    ON waiting.requested_date = slots.day AND waiting.requested_time = slots.start_time
+  ORDER BY slots.day, slots.start_time;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_service_periods(uuid, date) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION is_restaurant_open(uuid, date, time) TO anon, authenticated;
+
+COMMENT ON TABLE restaurant_special_dates IS 'Date-specific overrides of the weekly operating hours (holidays, private events, late openings)';
+COMMENT ON FUNCTION get_service_periods(uuid, date) IS 'Effective opening periods for a date after applying special date overrides';
+COMMENT ON FUNCTION is_restaurant_open(uuid, date, time) IS 'Whether the restaurant takes bookings at the given date and time';
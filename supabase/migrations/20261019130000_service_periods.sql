@@ -0,0 +1,272 @@
+/*
+  # Split Shifts with Named Service Periods
+
+  Each weekday only had one opening/closing pair, so a lunch and dinner schedule
+  produced bookable slots during the afternoon break. Days now have any number of
+  named service periods, each with its own last seating time.
+
+  1. New Tables
+    - restaurant_service_periods
+      - name (e.g. Lunch, Dinner), opening_time, closing_time
+      - last_seating_time: latest slot offered for the period (optional)
+      - restaurant_operating_hours keeps the per-day closed flag and the overall
+        opening/closing envelope
+
+  2. Data Migration
+    - Every open day gets one "Service" period matching its current hours
+
+  3. Updated Functions
+    - get_service_periods returns one row per period (with last seating)
+    - get_day_availability returns the service period name for every slot and
+      no longer generates slots in the gaps between periods
+    - is_restaurant_open respects gaps and last seating times
+*/
+
+CREATE TABLE IF NOT EXISTS restaurant_service_periods (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  day_of_week integer NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  name text NOT NULL,
+  opening_time time NOT NULL,
+  closing_time time NOT NULL,
+  last_seating_time time,
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (closing_time > opening_time),
+  CHECK (last_seating_time IS NULL OR (last_seating_time >= opening_time AND last_seating_time < closing_time))
+);
+
+CREATE INDEX IF NOT EXISTS idx_restaurant_service_periods_day
+  ON restaurant_service_periods(restaurant_id, day_of_week);
+
+INSERT INTO restaurant_service_periods (restaurant_id, day_of_week, name, opening_time, closing_time)
+SELECT oh.restaurant_id, oh.day_of_week, 'Service', oh.opening_time, oh.closing_time
+FROM restaurant_operating_hours oh
+WHERE oh.is_closed = false
+  AND oh.closing_time > oh.opening_time
+  AND NOT EXISTS (
+    SELECT 1 FROM restaurant_service_periods sp
+    WHERE sp.restaurant_id = oh.restaurant_id AND sp.day_of_week = oh.day_of_week
+  );
+
+DROP TRIGGER IF EXISTS update_restaurant_service_periods_updated_at ON restaurant_service_periods;
+CREATE TRIGGER update_restaurant_service_periods_updated_at
+  BEFORE UPDATE ON restaurant_service_periods
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE restaurant_service_periods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can read service periods"
+  ON restaurant_service_periods
+  FOR SELECT
+  TO anon, authenticated
+  USING (
+    restaurant_id IN (
+      SELECT id FROM restaurants WHERE slug IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Restaurant staff can manage service periods"
+  ON restaurant_service_periods
+  FOR ALL
+  TO authenticated
+  USING (user_can_access_restaurant(restaurant_id))
+  WITH CHECK (user_can_access_restaurant(restaurant_id));
+
+-- =============================================
+-- EFFECTIVE HOURS
+-- =============================================
+
+-- Return type changes, so the old version has to go first
+DROP FUNCTION IF EXISTS get_service_periods(uuid, date);
+
+CREATE OR REPLACE FUNCTION get_service_periods(
+  p_restaurant_id uuid,
+  p_date date
+)
+RETURNS TABLE(
+  period_name text,
+  opening_time time,
+  closing_time time,
+  last_seating_time time,
+  slot_minutes integer
+) AS $$
+DECLARE
+  v_special restaurant_special_dates%ROWTYPE;
+  v_weekly restaurant_operating_hours%ROWTYPE;
+  v_slot_minutes integer;
+  v_day integer := EXTRACT(DOW FROM p_date)::integer;
+BEGIN
+  SELECT COALESCE(r.time_slot_duration_minutes, 15)
+  INTO v_slot_minutes
+  FROM restaurants r
+  WHERE r.id = p_restaurant_id;
+
+  SELECT * INTO v_special
+  FROM restaurant_special_dates sd
+  WHERE sd.restaurant_id = p_restaurant_id
+    AND sd.special_date = p_date;
+
+  SELECT * INTO v_weekly
+  FROM restaurant_operating_hours oh
+  WHERE oh.restaurant_id = p_restaurant_id
+    AND oh.day_of_week = v_day;
+
+  IF v_special.id IS NOT NULL THEN
+    IF v_special.is_closed THEN
+      RETURN;
+    END IF;
+
+    -- Custom hours replace the day's periods with a single one; unset ends fall
+    -- back to the weekly envelope
+    IF v_special.opening_time IS NOT NULL OR v_special.closing_time IS NOT NULL THEN
+      IF COALESCE(v_special.opening_time, v_weekly.opening_time) IS NULL
+        OR COALESCE(v_special.closing_time, v_weekly.closing_time) IS NULL THEN
+        RETURN;
+      END IF;
+
+      RETURN QUERY
+      SELECT
+        v_special.name,
+        COALESCE(v_special.opening_time, v_weekly.opening_time),
+        COALESCE(v_special.closing_time, v_weekly.closing_time),
+        NULL::time,
+        COALESCE(v_special.time_slot_duration_minutes, v_slot_minutes);
+      RETURN;
+    END IF;
+
+    -- Only the slot length is overridden: keep the regular periods
+    v_slot_minutes := COALESCE(v_special.time_slot_duration_minutes, v_slot_minutes);
+  END IF;
+
+  IF v_weekly.id IS NULL OR v_weekly.is_closed THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT sp.name, sp.opening_time, sp.closing_time, sp.last_seating_time, v_slot_minutes
+  FROM restaurant_service_periods sp
+  WHERE sp.restaurant_id = p_restaurant_id
+    AND sp.day_of_week = v_day
+  ORDER BY sp.opening_time, sp.display_order;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION is_restaurant_open(
+  p_restaurant_id uuid,
+  p_date date,
+  p_time time
+)
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM get_service_periods(p_restaurant_id, p_date) sp
+    WHERE p_time >= sp.opening_time
+      AND p_time < sp.closing_time
+      AND (sp.last_seating_time IS NULL OR p_time <= sp.last_seating_time)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+DROP FUNCTION IF EXISTS get_day_availability(uuid, date, date);
+
+CREATE OR REPLACE FUNCTION get_day_availability(
+  p_restaurant_id uuid,
+  p_start_date date,
+  p_end_date date DEFAULT NULL
+)
+RETURNS TABLE(
+  slot_date date,
+  slot_time time,
+  period_name text,
+  total_capacity integer,
+  booked_capacity integer,
+  available_capacity integer,
+  waiting_count integer
+) AS $$
+DECLARE
+  v_end_date date := COALESCE(p_end_date, p_start_date);
+  v_total_capacity integer := 0;
+BEGIN
+  IF v_end_date < p_start_date THEN
+    RAISE EXCEPTION 'End date must be on or after start date';
+  END IF;
+
+  IF v_end_date - p_start_date > 31 THEN
+    RAISE EXCEPTION 'Date range cannot exceed 31 days';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM restaurants r WHERE r.id = p_restaurant_id) THEN
+    RETURN;
+  END IF;
+
+  -- Same capacity rule as get_time_slot_availability
+  SELECT COALESCE(SUM(rt.capacity), 0)
+  INTO v_total_capacity
+  FROM restaurant_tables rt
+  WHERE rt.restaurant_id = p_restaurant_id
+    AND rt.status IN ('available', 'reserved', 'occupied');
+
+  RETURN QUERY
+  WITH days AS (
+    SELECT d::date AS day
+    FROM generate_series(p_start_date, v_end_date, interval '1 day') d
+  ),
+  slots AS (
+    SELECT days.day, s::time AS start_time, s AS starts_at, sp.period_name AS service_name
+    FROM days
+    CROSS JOIN LATERAL get_service_periods(p_restaurant_id, days.day) sp
+    CROSS JOIN LATERAL generate_series(
+      days.day + sp.opening_time,
+      days.day + COALESCE(sp.last_seating_time, sp.closing_time),
+      make_interval(mins => sp.slot_minutes)
+    ) s
+    WHERE s < days.day + sp.closing_time
+      AND (sp.last_seating_time IS NULL OR s <= days.day + sp.last_seating_time)
+  ),
+  booked AS (
+    -- Every booking still at the table when the slot starts
+    SELECT slots.starts_at, SUM(b.party_size)::integer AS party_total
+    FROM slots
+    JOIN bookings b
+      ON b.restaurant_id = p_restaurant_id
+     AND b.booking_date BETWEEN p_start_date - 1 AND v_end_date
+     AND b.status IN ('confirmed', 'seated', 'pending')
+     AND b.booking_date + b.booking_time <= slots.starts_at
+     AND slots.starts_at < b.booking_date + b.booking_time + make_interval(mins => b.expected_duration_minutes)
+    GROUP BY slots.starts_at
+  ),
+  waiting AS (
+    SELECT w.requested_date, w.requested_time, COUNT(*)::integer AS waiting_total
+    FROM waiting_list w
+    WHERE w.restaurant_id = p_restaurant_id
+      AND w.requested_date BETWEEN p_start_date AND v_end_date
+      AND w.status = 'waiting'
+    GROUP BY w.requested_date, w.requested_time
+  )
+  SELECT DISTINCT ON (slots.day, slots.start_time)
+    slots.day,
+    slots.start_time,
+    slots.service_name,
+    v_total_capacity,
+    COALESCE(booked.party_total, 0),
+    GREATEST(0, v_total_capacity - COALESCE(booked.party_total, 0)),
+    COALESCE(waiting.waiting_total, 0)
+  FROM slots
+  LEFT JOIN booked
+    ON booked.starts_at = slots.starts_at
+  LEFT JOIN waiting
+    ON waiting.requested_date = slots.day AND waiting.requested_time = slots.start_time
+  ORDER BY slots.day, slots.start_time;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_service_periods(uuid, date) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_day_availability(uuid, date, date) TO anon, authenticated;
+
+COMMENT ON TABLE restaurant_service_periods IS 'Named service periods (e.g. lunch, dinner) per weekday with optional last seating';
+COMMENT ON FUNCTION get_service_periods(uuid, date) IS 'Effective service periods for a date after applying special date overrides';
+COMMENT ON FUNCTION get_day_availability(uuid, date, date) IS 'Returns capacity and availability for every bookable slot of a date or date range in a single call';
@@ -0,0 +1,223 @@
+/*
+  # Guest Notifications
+
+  Booking confirmations, waiting list promotions and the 'notified' waiting list
+  status existed, but nothing ever reached the guest. Booking and waiting list
+  state changes now queue email and SMS notifications that the send-notifications
+  edge function delivers through the configured providers.
+
+  1. New Tables
+    - notification_templates: subject/body per event and channel. Rows with a
+      null restaurant_id are the built-in defaults; restaurants override them
+      with their own rows.
+    - notification_log: one row per outbound message, used both as the delivery
+      queue (status 'pending') and the delivery log
+
+  2. Triggers
+    - bookings: confirmed, updated (date, time or party size), cancelled, and
+      promoted from the waiting list
+    - waiting_list: joined, and notified that a table is available
+
+  3. Template placeholders
+    {{customer_name}}, {{restaurant_name}}, {{restaurant_phone}}, {{date}},
+    {{time}}, {{party_size}}, {{table_numbers}}, {{waitlist_position}},
+    {{manage_link}}
+*/
+
+CREATE TABLE IF NOT EXISTS notification_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid REFERENCES restaurants(id) ON DELETE CASCADE,
+  event text NOT NULL CHECK (event IN (
+    'booking_confirmed', 'booking_updated', 'booking_cancelled',
+    'waitlist_joined', 'waitlist_promoted', 'waitlist_notified'
+  )),
+  channel text NOT NULL CHECK (channel IN ('email', 'sms')),
+  subject text,
+  body text NOT NULL,
+  is_enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- One template per event and channel for each restaurant, and one default
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_templates_restaurant
+  ON notification_templates(restaurant_id, event, channel) WHERE restaurant_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_templates_default
+  ON notification_templates(event, channel) WHERE restaurant_id IS NULL;
+
+CREATE TABLE IF NOT EXISTS notification_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  booking_id uuid REFERENCES bookings(id) ON DELETE SET NULL,
+  waiting_list_id uuid REFERENCES waiting_list(id) ON DELETE SET NULL,
+  event text NOT NULL,
+  channel text NOT NULL CHECK (channel IN ('email', 'sms')),
+  recipient text,
+  subject text,
+  body text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'skipped')),
+  provider text,
+  provider_message_id text,
+  error_message text,
+  attempts integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  sent_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_log_restaurant ON notification_log(restaurant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notification_log_pending ON notification_log(created_at) WHERE status = 'pending';
+
+DROP TRIGGER IF EXISTS update_notification_templates_updated_at ON notification_templates;
+CREATE TRIGGER update_notification_templates_updated_at
+  BEFORE UPDATE ON notification_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- DEFAULT TEMPLATES
+-- =============================================
+
+INSERT INTO notification_templates (restaurant_id, event, channel, subject, body) VALUES
+  (NULL, 'booking_confirmed', 'email', 'Your table at {{restaurant_name}} is confirmed',
+   E'Hi {{customer_name}},\n\nYour table for {{party_size}} at {{restaurant_name}} on {{date}} at {{time}} is confirmed.\n\nNeed to change or cancel? {{manage_link}}\n\nSee you soon!'),
+  (NULL, 'booking_confirmed', 'sms', NULL,
+   '{{restaurant_name}}: your table for {{party_size}} on {{date}} at {{time}} is confirmed. Manage: {{manage_link}}'),
+  (NULL, 'booking_updated', 'email', 'Your booking at {{restaurant_name}} has changed',
+   E'Hi {{customer_name}},\n\nYour booking at {{restaurant_name}} is now for {{party_size}} on {{date}} at {{time}}.\n\nManage your booking: {{manage_link}}'),
+  (NULL, 'booking_updated', 'sms', NULL,
+   '{{restaurant_name}}: your booking is now for {{party_size}} on {{date}} at {{time}}. Manage: {{manage_link}}'),
+  (NULL, 'booking_cancelled', 'email', 'Your booking at {{restaurant_name}} has been cancelled',
+   E'Hi {{customer_name}},\n\nYour booking at {{restaurant_name}} on {{date}} at {{time}} has been cancelled.\n\nWe hope to see you another time. Questions? Call us on {{restaurant_phone}}.'),
+  (NULL, 'booking_cancelled', 'sms', NULL,
+   '{{restaurant_name}}: your booking on {{date}} at {{time}} has been cancelled.'),
+  (NULL, 'waitlist_joined', 'email', 'You''re on the waiting list at {{restaurant_name}}',
+   E'Hi {{customer_name}},\n\nYou''re #{{waitlist_position}} on the waiting list for {{party_size}} at {{restaurant_name}} on {{date}} at {{time}}. We''ll let you know as soon as a table frees up.\n\nCheck your position or leave the list: {{manage_link}}'),
+  (NULL, 'waitlist_joined', 'sms', NULL,
+   '{{restaurant_name}}: you''re #{{waitlist_position}} on the waiting list for {{date}} at {{time}}. Details: {{manage_link}}'),
+  (NULL, 'waitlist_promoted', 'email', 'Good news - a table is yours at {{restaurant_name}}',
+   E'Hi {{customer_name}},\n\nA table opened up! Your booking for {{party_size}} at {{restaurant_name}} on {{date}} at {{time}} is confirmed.\n\nManage your booking: {{manage_link}}'),
+  (NULL, 'waitlist_promoted', 'sms', NULL,
+   '{{restaurant_name}}: a table opened up! You''re booked for {{party_size}} on {{date}} at {{time}}. Manage: {{manage_link}}'),
+  (NULL, 'waitlist_notified', 'email', 'A table is available at {{restaurant_name}}',
+   E'Hi {{customer_name}},\n\nA table for {{party_size}} is available at {{restaurant_name}} on {{date}} at {{time}}.\n\nRespond here: {{manage_link}}'),
+  (NULL, 'waitlist_notified', 'sms', NULL,
+   '{{restaurant_name}}: a table for {{party_size}} is available on {{date}} at {{time}}. Respond: {{manage_link}}')
+ON CONFLICT DO NOTHING;
+
+-- =============================================
+-- QUEUEING
+-- =============================================
+
+-- Queues the event on both channels; the edge function renders the template and
+-- skips channels without a recipient or with the template disabled
+CREATE OR REPLACE FUNCTION enqueue_notification(
+  p_restaurant_id uuid,
+  p_event text,
+  p_booking_id uuid DEFAULT NULL,
+  p_waiting_list_id uuid DEFAULT NULL
+)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO notification_log (restaurant_id, booking_id, waiting_list_id, event, channel)
+  SELECT p_restaurant_id, p_booking_id, p_waiting_list_id, p_event, channel
+  FROM unnest(ARRAY['email', 'sms']) AS channel;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION queue_booking_notifications()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Walk-ins are already at the restaurant
+  IF NEW.is_walk_in THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status = 'confirmed' THEN
+      PERFORM enqueue_notification(
+        NEW.restaurant_id,
+        CASE WHEN NEW.was_on_waitlist THEN 'waitlist_promoted' ELSE 'booking_confirmed' END,
+        NEW.id
+      );
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    PERFORM enqueue_notification(NEW.restaurant_id, 'booking_cancelled', NEW.id);
+  ELSIF NEW.status = 'confirmed' AND OLD.status = 'pending' THEN
+    PERFORM enqueue_notification(NEW.restaurant_id, 'booking_confirmed', NEW.id);
+  ELSIF NEW.status IN ('pending', 'confirmed') AND (
+    NEW.booking_date IS DISTINCT FROM OLD.booking_date
+    OR NEW.booking_time IS DISTINCT FROM OLD.booking_time
+    OR NEW.party_size IS DISTINCT FROM OLD.party_size
+  ) THEN
+    PERFORM enqueue_notification(NEW.restaurant_id, 'booking_updated', NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS queue_booking_notifications ON bookings;
+CREATE TRIGGER queue_booking_notifications
+  AFTER INSERT OR UPDATE OF status, booking_date, booking_time, party_size ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_booking_notifications();
+
+CREATE OR REPLACE FUNCTION queue_waiting_list_notifications()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.status = 'waiting' THEN
+    PERFORM enqueue_notification(NEW.restaurant_id, 'waitlist_joined', NULL, NEW.id);
+  ELSIF TG_OP = 'UPDATE' AND NEW.status = 'notified' AND OLD.status IS DISTINCT FROM 'notified' THEN
+    PERFORM enqueue_notification(NEW.restaurant_id, 'waitlist_notified', NULL, NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS queue_waiting_list_notifications ON waiting_list;
+CREATE TRIGGER queue_waiting_list_notifications
+  AFTER INSERT OR UPDATE OF status ON waiting_list
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_waiting_list_notifications();
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE notification_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read default templates"
+  ON notification_templates
+  FOR SELECT
+  TO authenticated
+  USING (restaurant_id IS NULL);
+
+CREATE POLICY "Restaurant staff can manage notification templates"
+  ON notification_templates
+  FOR ALL
+  TO authenticated
+  USING (restaurant_id IS NOT NULL AND user_can_access_restaurant(restaurant_id))
+  WITH CHECK (restaurant_id IS NOT NULL AND user_can_access_restaurant(restaurant_id));
+
+-- Rows are written by triggers and the edge function; staff can read and retry
+CREATE POLICY "Restaurant staff can read notification log"
+  ON notification_log
+  FOR SELECT
+  TO authenticated
+  USING (user_can_access_restaurant(restaurant_id));
+
+CREATE POLICY "Restaurant staff can retry notifications"
+  ON notification_log
+  FOR UPDATE
+  TO authenticated
+  USING (user_can_access_restaurant(restaurant_id))
+  WITH CHECK (user_can_access_restaurant(restaurant_id));
+
+COMMENT ON TABLE notification_templates IS 'Guest notification templates per event and channel. restaurant_id NULL rows are the defaults.';
+COMMENT ON TABLE notification_log IS 'Outbound guest notifications: pending rows are the delivery queue, the rest the delivery log';
+COMMENT ON FUNCTION enqueue_notification(uuid, text, uuid, uuid) IS 'Queues an event notification on every channel for the send-notifications edge function';
@@ -0,0 +1,368 @@
+/*
+  # Waiting List Table Offers
+
+  Freeing a table used to turn the first waiting list entry straight into a
+  confirmed booking, even when the guest had long since left. The guest is now
+  offered the table instead: the entry moves to 'notified' and the tables are
+  held for a short window while the guest accepts or declines through their
+  manage link. Offers that run out move to 'expired' and the table is offered to
+  the next guest in line.
+
+  1. Changes
+    - restaurants.waitlist_offer_minutes: how long an offer holds the table
+      (default 15 minutes)
+    - waiting_list.offered_at / offer_expires_at: the current offer window
+    - waiting_list.offer_table_ids / offer_combination_id: the tables held for
+      the offer
+    - get_held_table_ids now includes tables held by open offers
+    - get_managed_booking returns offer_expires_at for the guest page
+
+  2. New Functions
+    - offer_waitlist_table(restaurant, date, time): offers a free table to the
+      next waiting guest for the sitting
+    - respond_to_waitlist_offer(token, accept): guest accepts (booking created on
+      the held tables) or declines (table offered to the next guest)
+    - expire_waitlist_offers(restaurant): expires lapsed offers and rolls each
+      table to the next guest. Scheduled every minute when pg_cron is available;
+      the staff dashboard also runs it while open.
+*/
+
+ALTER TABLE restaurants
+  ADD COLUMN IF NOT EXISTS waitlist_offer_minutes integer NOT NULL DEFAULT 15
+  CHECK (waitlist_offer_minutes > 0);
+
+ALTER TABLE waiting_list
+  ADD COLUMN IF NOT EXISTS offered_at timestamptz,
+  ADD COLUMN IF NOT EXISTS offer_expires_at timestamptz,
+  ADD COLUMN IF NOT EXISTS offer_table_ids uuid[],
+  ADD COLUMN IF NOT EXISTS offer_combination_id uuid REFERENCES table_combinations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_waiting_list_open_offers
+  ON waiting_list(restaurant_id, offer_expires_at) WHERE status = 'notified';
+
+-- =============================================
+-- AVAILABILITY
+-- =============================================
+
+-- Same as before, plus tables held for open waiting list offers
+CREATE OR REPLACE FUNCTION get_held_table_ids(
+  p_restaurant_id uuid,
+  p_start timestamp,
+  p_end timestamp
+)
+RETURNS TABLE(table_id uuid) AS $$
+  SELECT bt.table_id
+  FROM booking_tables bt
+  JOIN bookings b ON b.id = bt.booking_id
+  WHERE b.restaurant_id = p_restaurant_id
+    AND b.booking_date BETWEEN p_start::date - 1 AND p_end::date
+    AND b.status IN ('confirmed', 'seated', 'pending')
+    AND b.booking_date + b.booking_time < p_end
+    AND p_start < b.booking_date + b.booking_time + make_interval(mins => b.expected_duration_minutes)
+  UNION
+  SELECT b.table_id
+  FROM bookings b
+  WHERE b.restaurant_id = p_restaurant_id
+    AND b.booking_date BETWEEN p_start::date - 1 AND p_end::date
+    AND b.table_id IS NOT NULL
+    AND b.status IN ('confirmed', 'seated', 'pending')
+    AND b.booking_date + b.booking_time < p_end
+    AND p_start < b.booking_date + b.booking_time + make_interval(mins => b.expected_duration_minutes)
+  UNION
+  SELECT unnest(w.offer_table_ids)
+  FROM waiting_list w
+  WHERE w.restaurant_id = p_restaurant_id
+    AND w.status = 'notified'
+    AND w.offer_expires_at > now()
+    AND w.requested_date BETWEEN p_start::date - 1 AND p_end::date
+    AND w.requested_date + w.requested_time < p_end
+    AND p_start < w.requested_date + w.requested_time + make_interval(mins => get_default_dining_duration(w.party_size));
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- =============================================
+-- OFFERS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION offer_waitlist_table(
+  p_restaurant_id uuid,
+  p_date date,
+  p_time time
+)
+RETURNS uuid AS $$
+DECLARE
+  v_entry waiting_list%ROWTYPE;
+  v_offer_minutes integer;
+  v_table_ids uuid[];
+  v_combination_id uuid;
+BEGIN
+  -- Next guest in line for this sitting
+  SELECT * INTO v_entry
+  FROM waiting_list
+  WHERE restaurant_id = p_restaurant_id
+    AND requested_date = p_date
+    AND requested_time = p_time
+    AND status = 'waiting'
+  ORDER BY priority_order, created_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT ARRAY[t.table_id] INTO v_table_ids
+  FROM get_available_tables(p_restaurant_id, p_date, p_time, v_entry.party_size) t
+  LIMIT 1;
+
+  IF v_table_ids IS NULL THEN
+    SELECT tc.table_ids, tc.combination_id INTO v_table_ids, v_combination_id
+    FROM get_available_table_combinations(p_restaurant_id, p_date, p_time, v_entry.party_size) tc
+    LIMIT 1;
+  END IF;
+
+  IF v_table_ids IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT r.waitlist_offer_minutes INTO v_offer_minutes
+  FROM restaurants r
+  WHERE r.id = p_restaurant_id;
+
+  UPDATE waiting_list
+  SET
+    status = 'notified',
+    offered_at = now(),
+    offer_expires_at = now() + make_interval(mins => v_offer_minutes),
+    offer_table_ids = v_table_ids,
+    offer_combination_id = v_combination_id,
+    updated_at = now()
+  WHERE id = v_entry.id;
+
+  RETURN v_entry.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION expire_waitlist_offers(p_restaurant_id uuid DEFAULT NULL)
+RETURNS integer AS $$
+DECLARE
+  v_entry waiting_list%ROWTYPE;
+  v_expired integer := 0;
+BEGIN
+  FOR v_entry IN
+    UPDATE waiting_list
+    SET
+      status = 'expired',
+      offer_table_ids = NULL,
+      offer_combination_id = NULL,
+      updated_at = now()
+    WHERE status = 'notified'
+      AND offer_expires_at <= now()
+      AND (p_restaurant_id IS NULL OR restaurant_id = p_restaurant_id)
+    RETURNING *
+  LOOP
+    v_expired := v_expired + 1;
+    PERFORM offer_waitlist_table(v_entry.restaurant_id, v_entry.requested_date, v_entry.requested_time);
+  END LOOP;
+
+  RETURN v_expired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Returns the manage token of the new booking when the offer is accepted
+CREATE OR REPLACE FUNCTION respond_to_waitlist_offer(p_token text, p_accept boolean)
+RETURNS text AS $$
+DECLARE
+  v_entry waiting_list%ROWTYPE;
+  v_booking_id uuid;
+  v_booking_token text;
+BEGIN
+  SELECT * INTO v_entry
+  FROM waiting_list
+  WHERE manage_token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Waiting list entry not found';
+  END IF;
+
+  IF v_entry.status <> 'notified' THEN
+    RAISE EXCEPTION 'There is no open table offer for this request';
+  END IF;
+
+  IF v_entry.offer_expires_at <= now() THEN
+    RAISE EXCEPTION 'This table offer has expired';
+  END IF;
+
+  IF NOT p_accept THEN
+    UPDATE waiting_list
+    SET
+      status = 'cancelled',
+      offer_table_ids = NULL,
+      offer_combination_id = NULL,
+      updated_at = now()
+    WHERE id = v_entry.id;
+
+    PERFORM offer_waitlist_table(v_entry.restaurant_id, v_entry.requested_date, v_entry.requested_time);
+    RETURN NULL;
+  END IF;
+
+  -- Release the hold first so the booking isn't blocked by its own offer
+  UPDATE waiting_list
+  SET
+    status = 'confirmed',
+    offer_table_ids = NULL,
+    offer_combination_id = NULL,
+    updated_at = now()
+  WHERE id = v_entry.id;
+
+  INSERT INTO bookings (
+    restaurant_id, table_id, combination_id, customer_id, booking_date, booking_time,
+    party_size, notes, status, assignment_method, was_on_waitlist, is_walk_in
+  )
+  VALUES (
+    v_entry.restaurant_id, v_entry.offer_table_ids[1], v_entry.offer_combination_id, v_entry.customer_id,
+    v_entry.requested_date, v_entry.requested_time, v_entry.party_size, v_entry.notes,
+    'confirmed', 'waitlist', true, false
+  )
+  RETURNING id, manage_token INTO v_booking_id, v_booking_token;
+
+  INSERT INTO booking_tables (booking_id, table_id)
+  SELECT v_booking_id, unnest(v_entry.offer_table_ids)
+  ON CONFLICT DO NOTHING;
+
+  UPDATE restaurant_tables
+  SET status = 'reserved', updated_at = now()
+  WHERE id = ANY(v_entry.offer_table_ids)
+    AND status = 'available';
+
+  RETURN v_booking_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================
+-- GUEST PAGE
+-- =============================================
+
+DROP FUNCTION IF EXISTS get_managed_booking(text);
+
+CREATE OR REPLACE FUNCTION get_managed_booking(p_token text)
+RETURNS TABLE(
+  entry_type text,
+  entry_id uuid,
+  restaurant_id uuid,
+  restaurant_name text,
+  restaurant_phone text,
+  customer_name text,
+  booking_date date,
+  booking_time time,
+  party_size integer,
+  expected_duration_minutes integer,
+  status text,
+  notes text,
+  table_numbers text[],
+  waitlist_position integer,
+  change_cutoff_hours integer,
+  can_change boolean,
+  offer_expires_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    'booking'::text,
+    b.id,
+    r.id,
+    r.name,
+    r.phone,
+    c.name,
+    b.booking_date,
+    b.booking_time,
+    b.party_size,
+    b.expected_duration_minutes,
+    b.status::text,
+    b.notes,
+    (
+      SELECT array_agg(rt.table_number ORDER BY rt.table_number)
+      FROM booking_tables bt
+      JOIN restaurant_tables rt ON rt.id = bt.table_id
+      WHERE bt.booking_id = b.id
+    ),
+    NULL::integer,
+    r.booking_change_cutoff_hours,
+    b.status IN ('pending', 'confirmed')
+      AND LOCALTIMESTAMP < b.booking_date + b.booking_time - make_interval(hours => r.booking_change_cutoff_hours),
+    NULL::timestamptz
+  FROM bookings b
+  JOIN restaurants r ON r.id = b.restaurant_id
+  LEFT JOIN customers c ON c.id = b.customer_id
+  WHERE b.manage_token = p_token;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    'waitlist'::text,
+    w.id,
+    r.id,
+    r.name,
+    r.phone,
+    c.name,
+    w.requested_date,
+    w.requested_time,
+    w.party_size,
+    get_default_dining_duration(w.party_size),
+    w.status::text,
+    w.notes,
+    (
+      SELECT array_agg(rt.table_number ORDER BY rt.table_number)
+      FROM restaurant_tables rt
+      WHERE rt.id = ANY(w.offer_table_ids)
+    ),
+    CASE WHEN w.status = 'waiting' THEN (
+      SELECT COUNT(*)::integer
+      FROM waiting_list ahead
+      WHERE ahead.restaurant_id = w.restaurant_id
+        AND ahead.requested_date = w.requested_date
+        AND ahead.requested_time = w.requested_time
+        AND ahead.status = 'waiting'
+        AND (ahead.priority_order, ahead.created_at) <= (w.priority_order, w.created_at)
+    ) END,
+    r.booking_change_cutoff_hours,
+    w.status = 'waiting',
+    CASE WHEN w.status = 'notified' THEN w.offer_expires_at END
+  FROM waiting_list w
+  JOIN restaurants r ON r.id = w.restaurant_id
+  LEFT JOIN customers c ON c.id = w.customer_id
+  WHERE w.manage_token = p_token;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Offer messages tell the guest how long the table is held
+UPDATE notification_templates
+SET body = E'Hi {{customer_name}},\n\nA table for {{party_size}} is available at {{restaurant_name}} on {{date}} at {{time}}. We''re holding it for you for the next {{offer_minutes}} minutes.\n\nAccept or decline here: {{manage_link}}'
+WHERE restaurant_id IS NULL AND event = 'waitlist_notified' AND channel = 'email';
+
+UPDATE notification_templates
+SET body = '{{restaurant_name}}: a table for {{party_size}} is available on {{date}} at {{time}}, held for {{offer_minutes}} min. Accept or decline: {{manage_link}}'
+WHERE restaurant_id IS NULL AND event = 'waitlist_notified' AND channel = 'sms';
+
+-- Expire lapsed offers every minute where pg_cron is installed
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-waitlist-offers', '* * * * *', 'SELECT expire_waitlist_offers()');
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_managed_booking(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION respond_to_waitlist_offer(text, boolean) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION offer_waitlist_table(uuid, date, time) TO authenticated;
+GRANT EXECUTE ON FUNCTION expire_waitlist_offers(uuid) TO authenticated;
+
+COMMENT ON COLUMN restaurants.waitlist_offer_minutes IS 'Minutes a waiting list guest has to accept an offered table before it goes to the next guest';
+COMMENT ON FUNCTION get_managed_booking(text) IS 'Booking or waiting list entry behind a guest manage link';
+COMMENT ON FUNCTION offer_waitlist_table(uuid, date, time) IS 'Holds a free table for the next waiting guest of a sitting and moves them to notified';
+COMMENT ON FUNCTION expire_waitlist_offers(uuid) IS 'Expires lapsed waiting list offers and offers each table to the next guest';
+COMMENT ON FUNCTION respond_to_waitlist_offer(text, boolean) IS 'Guest accepts (creates the booking) or declines a waiting list table offer';
@@ -0,0 +1,388 @@
+/*
+  # Smarter Waiting List Matching
+
+  Offers only ever went to the first guest in line, so a freed 2-top stayed
+  empty while a party of 6 headed the list. The offer step now looks at every
+  eligible waiting guest and offers the freed tables to as many of them as fit.
+
+  1. Changes
+    - restaurants.waitlist_matching_mode: how strictly the queue order is kept
+        - 'strict': only the first guest in line; nobody is skipped
+        - 'first_fit' (default): the first guest in line whose party fits
+        - 'best_fit': the party that fills the freed tables most closely, with
+          queue order breaking ties
+    - restaurants.waitlist_time_tolerance_minutes: guests who asked for a sitting
+      up to this many minutes before or after the freed one are also eligible
+      (default 0, exact sitting only)
+    - waiting_list.offer_time: the sitting a table was offered for, which can
+      differ from requested_time within the tolerance
+
+  2. Updated Functions
+    - offer_waitlist_table now returns the number of offers made and keeps
+      offering until no eligible guest fits the remaining free tables
+    - get_held_table_ids, respond_to_waitlist_offer, expire_waitlist_offers and
+      get_managed_booking use the offered sitting
+*/
+
+ALTER TABLE restaurants
+  ADD COLUMN IF NOT EXISTS waitlist_matching_mode text NOT NULL DEFAULT 'first_fit'
+  CHECK (waitlist_matching_mode IN ('strict', 'first_fit', 'best_fit')),
+  ADD COLUMN IF NOT EXISTS waitlist_time_tolerance_minutes integer NOT NULL DEFAULT 0
+  CHECK (waitlist_time_tolerance_minutes BETWEEN 0 AND 120);
+
+ALTER TABLE waiting_list
+  ADD COLUMN IF NOT EXISTS offer_time time;
+
+-- Open offers from before this change were made for the requested sitting
+UPDATE waiting_list
+SET offer_time = requested_time
+WHERE status = 'notified' AND offer_time IS NULL;
+
+-- =============================================
+-- AVAILABILITY
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_held_table_ids(
+  p_restaurant_id uuid,
+  p_start timestamp,
+  p_end timestamp
+)
+RETURNS TABLE(table_id uuid) AS $$
+  SELECT bt.table_id
+  FROM booking_tables bt
+  JOIN bookings b ON b.id = bt.booking_id
+  WHERE b.restaurant_id = p_restaurant_id
+    AND b.booking_date BETWEEN p_start::date - 1 AND p_end::date
+    AND b.status IN ('confirmed', 'seated', 'pending')
+    AND b.booking_date + b.booking_time < p_end
+    AND p_start < b.booking_date + b.booking_time + make_interval(mins => b.expected_duration_minutes)
+  UNION
+  SELECT b.table_id
+  FROM bookings b
+  WHERE b.restaurant_id = p_restaurant_id
+    AND b.booking_date BETWEEN p_start::date - 1 AND p_end::date
+    AND b.table_id IS NOT NULL
+    AND b.status IN ('confirmed', 'seated', 'pending')
+    AND b.booking_date + b.booking_time < p_end
+    AND p_start < b.booking_date + b.booking_time + make_interval(mins => b.expected_duration_minutes)
+  UNION
+  SELECT unnest(w.offer_table_ids)
+  FROM waiting_list w
+  WHERE w.restaurant_id = p_restaurant_id
+    AND w.status = 'notified'
+    AND w.offer_expires_at > now()
+    AND w.requested_date BETWEEN p_start::date - 1 AND p_end::date
+    AND w.requested_date + COALESCE(w.offer_time, w.requested_time) < p_end
+    AND p_start < w.requested_date + COALESCE(w.offer_time, w.requested_time) + make_interval(mins => get_default_dining_duration(w.party_size));
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- =============================================
+-- OFFERS
+-- =============================================
+
+DROP FUNCTION IF EXISTS offer_waitlist_table(uuid, date, time);
+
+CREATE OR REPLACE FUNCTION offer_waitlist_table(
+  p_restaurant_id uuid,
+  p_date date,
+  p_time time
+)
+RETURNS integer AS $$
+DECLARE
+  v_mode text;
+  v_tolerance integer;
+  v_offer_minutes integer;
+  v_candidate record;
+  v_best_entry_id uuid;
+  v_best_table_ids uuid[];
+  v_best_combination_id uuid;
+  v_best_empty_seats integer;
+  v_table_ids uuid[];
+  v_combination_id uuid;
+  v_capacity integer;
+  v_offers integer := 0;
+BEGIN
+  SELECT r.waitlist_matching_mode, r.waitlist_time_tolerance_minutes, r.waitlist_offer_minutes
+  INTO v_mode, v_tolerance, v_offer_minutes
+  FROM restaurants r
+  WHERE r.id = p_restaurant_id;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  LOOP
+    v_best_entry_id := NULL;
+    v_best_empty_seats := NULL;
+
+    -- Eligible guests in queue order: the freed sitting, or a nearby one within the tolerance
+    FOR v_candidate IN
+      SELECT w.id, w.party_size
+      FROM waiting_list w
+      WHERE w.restaurant_id = p_restaurant_id
+        AND w.requested_date = p_date
+        AND w.status = 'waiting'
+        AND abs(EXTRACT(EPOCH FROM (w.requested_time - p_time))) <= v_tolerance * 60
+      ORDER BY w.priority_order, w.created_at
+      FOR UPDATE SKIP LOCKED
+    LOOP
+      v_table_ids := NULL;
+      v_combination_id := NULL;
+      v_capacity := NULL;
+
+      SELECT ARRAY[t.table_id], t.capacity INTO v_table_ids, v_capacity
+      FROM get_available_tables(p_restaurant_id, p_date, p_time, v_candidate.party_size) t
+      LIMIT 1;
+
+      IF v_table_ids IS NULL THEN
+        SELECT tc.table_ids, tc.combination_id, tc.capacity INTO v_table_ids, v_combination_id, v_capacity
+        FROM get_available_table_combinations(p_restaurant_id, p_date, p_time, v_candidate.party_size) tc
+        LIMIT 1;
+      END IF;
+
+      IF v_table_ids IS NOT NULL AND (
+        v_best_entry_id IS NULL OR v_capacity - v_candidate.party_size < v_best_empty_seats
+      ) THEN
+        v_best_entry_id := v_candidate.id;
+        v_best_table_ids := v_table_ids;
+        v_best_combination_id := v_combination_id;
+        v_best_empty_seats := v_capacity - v_candidate.party_size;
+      END IF;
+
+      -- Strict keeps the queue order; first fit stops at the first party that fits;
+      -- best fit only stops early on a perfect fit
+      EXIT WHEN v_mode = 'strict'
+        OR (v_mode = 'first_fit' AND v_best_entry_id IS NOT NULL)
+        OR v_best_empty_seats = 0;
+    END LOOP;
+
+    EXIT WHEN v_best_entry_id IS NULL;
+
+    UPDATE waiting_list
+    SET
+      status = 'notified',
+      offered_at = now(),
+      offer_expires_at = now() + make_interval(mins => v_offer_minutes),
+      offer_time = p_time,
+      offer_table_ids = v_best_table_ids,
+      offer_combination_id = v_best_combination_id,
+      updated_at = now()
+    WHERE id = v_best_entry_id;
+
+    v_offers := v_offers + 1;
+  END LOOP;
+
+  RETURN v_offers;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION expire_waitlist_offers(p_restaurant_id uuid DEFAULT NULL)
+RETURNS integer AS $$
+DECLARE
+  v_entry record;
+  v_expired integer := 0;
+BEGIN
+  FOR v_entry IN
+    WITH expired AS (
+      SELECT id, offer_time
+      FROM waiting_list
+      WHERE status = 'notified'
+        AND offer_expires_at <= now()
+        AND (p_restaurant_id IS NULL OR restaurant_id = p_restaurant_id)
+      FOR UPDATE SKIP LOCKED
+    )
+    UPDATE waiting_list w
+    SET
+      status = 'expired',
+      offer_time = NULL,
+      offer_table_ids = NULL,
+      offer_combination_id = NULL,
+      updated_at = now()
+    FROM expired
+    WHERE w.id = expired.id
+    RETURNING w.restaurant_id, w.requested_date, COALESCE(expired.offer_time, w.requested_time) AS sitting_time
+  LOOP
+    v_expired := v_expired + 1;
+    PERFORM offer_waitlist_table(v_entry.restaurant_id, v_entry.requested_date, v_entry.sitting_time);
+  END LOOP;
+
+  RETURN v_expired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION respond_to_waitlist_offer(p_token text, p_accept boolean)
+RETURNS text AS $$
+DECLARE
+  v_entry waiting_list%ROWTYPE;
+  v_booking_id uuid;
+  v_booking_token text;
+BEGIN
+  SELECT * INTO v_entry
+  FROM waiting_list
+  WHERE manage_token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Waiting list entry not found';
+  END IF;
+
+  IF v_entry.status <> 'notified' THEN
+    RAISE EXCEPTION 'There is no open table offer for this request';
+  END IF;
+
+  IF v_entry.offer_expires_at <= now() THEN
+    RAISE EXCEPTION 'This table offer has expired';
+  END IF;
+
+  IF NOT p_accept THEN
+    UPDATE waiting_list
+    SET
+      status = 'cancelled',
+      offer_time = NULL,
+      offer_table_ids = NULL,
+      offer_combination_id = NULL,
+      updated_at = now()
+    WHERE id = v_entry.id;
+
+    PERFORM offer_waitlist_table(v_entry.restaurant_id, v_entry.requested_date, v_entry.offer_time);
+    RETURN NULL;
+  END IF;
+
+  -- Release the hold first so the booking isn't blocked by its own offer
+  UPDATE waiting_list
+  SET
+    status = 'confirmed',
+    offer_time = NULL,
+    offer_table_ids = NULL,
+    offer_combination_id = NULL,
+    updated_at = now()
+  WHERE id = v_entry.id;
+
+  INSERT INTO bookings (
+    restaurant_id, table_id, combination_id, customer_id, booking_date, booking_time,
+    party_size, notes, status, assignment_method, was_on_waitlist, is_walk_in
+  )
+  VALUES (
+    v_entry.restaurant_id, v_entry.offer_table_ids[1], v_entry.offer_combination_id, v_entry.customer_id,
+    v_entry.requested_date, v_entry.offer_time, v_entry.party_size, v_entry.notes,
+    'confirmed', 'waitlist', true, false
+  )
+  RETURNING id, manage_token INTO v_booking_id, v_booking_token;
+
+  INSERT INTO booking_tables (booking_id, table_id)
+  SELECT v_booking_id, unnest(v_entry.offer_table_ids)
+  ON CONFLICT DO NOTHING;
+
+  UPDATE restaurant_tables
+  SET status = 'reserved', updated_at = now()
+  WHERE id = ANY(v_entry.offer_table_ids)
+    AND status = 'available';
+
+  RETURN v_booking_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================
+-- GUEST PAGE
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_managed_booking(p_token text)
+RETURNS TABLE(
+  entry_type text,
+  entry_id uuid,
+  restaurant_id uuid,
+  restaurant_name text,
+  restaurant_phone text,
+  customer_name text,
+  booking_date date,
+  booking_time time,
+  party_size integer,
+  expected_duration_minutes integer,
+  status text,
+  notes text,
+  table_numbers text[],
+  waitlist_position integer,
+  change_cutoff_hours integer,
+  can_change boolean,
+  offer_expires_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    'booking'::text,
+    b.id,
+    r.id,
+    r.name,
+    r.phone,
+    c.name,
+    b.booking_date,
+    b.booking_time,
+    b.party_size,
+    b.expected_duration_minutes,
+    b.status::text,
+    b.notes,
+    (
+      SELECT array_agg(rt.table_number ORDER BY rt.table_number)
+      FROM booking_tables bt
+      JOIN restaurant_tables rt ON rt.id = bt.table_id
+      WHERE bt.booking_id = b.id
+    ),
+    NULL::integer,
+    r.booking_change_cutoff_hours,
+    b.status IN ('pending', 'confirmed')
+      AND LOCALTIMESTAMP < b.booking_date + b.booking_time - make_interval(hours => r.booking_change_cutoff_hours),
+    NULL::timestamptz
+  FROM bookings b
+  JOIN restaurants r ON r.id = b.restaurant_id
+  LEFT JOIN customers c ON c.id = b.customer_id
+  WHERE b.manage_token = p_token;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    'waitlist'::text,
+    w.id,
+    r.id,
+    r.name,
+    r.phone,
+    c.name,
+    w.requested_date,
+    -- An open offer may be for a nearby sitting rather than the requested one
+    CASE WHEN w.status = 'notified' THEN COALESCE(w.offer_time, w.requested_time) ELSE w.requested_time END,
+    w.party_size,
+    get_default_dining_duration(w.party_size),
+    w.status::text,
+    w.notes,
+    (
+      SELECT array_agg(rt.table_number ORDER BY rt.table_number)
+      FROM restaurant_tables rt
+      WHERE rt.id = ANY(w.offer_table_ids)
+    ),
+    CASE WHEN w.status = 'waiting' THEN (
+      SELECT COUNT(*)::integer
+      FROM waiting_list ahead
+      WHERE ahead.restaurant_id = w.restaurant_id
+        AND ahead.requested_date = w.requested_date
+        AND ahead.requested_time = w.requested_time
+        AND ahead.status = 'waiting'
+        AND (ahead.priority_order, ahead.created_at) <= (w.priority_order, w.created_at)
+    ) END,
+    r.booking_change_cutoff_hours,
+    w.status = 'waiting',
+    CASE WHEN w.status = 'notified' THEN w.offer_expires_at END
+  FROM waiting_list w
+  JOIN restaurants r ON r.id = w.restaurant_id
+  LEFT JOIN customers c ON c.id = w.customer_id
+  WHERE w.manage_token = p_token;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION offer_waitlist_table(uuid, date, time) TO authenticated;
+
+COMMENT ON COLUMN restaurants.waitlist_matching_mode IS 'strict, first_fit or best_fit: how waiting guests are matched to freed tables';
+COMMENT ON COLUMN restaurants.waitlist_time_tolerance_minutes IS 'Minutes either side of the freed sitting within which waiting guests are also eligible';
+COMMENT ON COLUMN waiting_list.offer_time IS 'Sitting the open table offer is for; may differ from requested_time within the tolerance';
+COMMENT ON FUNCTION offer_waitlist_table(uuid, date, time) IS 'Offers freed tables to the eligible waiting guests that fit, per the restaurant matching mode. Returns the number of offers.';
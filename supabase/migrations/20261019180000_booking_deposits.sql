@@ -0,0 +1,221 @@
+/*
+  # Booking Deposits and Card Guarantees
+
+  Restaurants can now ask guests for money up front on bookings that are costly
+  to lose: large parties and chosen dates such as public holidays.
+
+  1. Policies (restaurants.deposit_policy)
+    - 'none': no payment is collected
+    - 'deposit': the guest pays deposit_amount_per_guest x party size by card when
+      booking. Refunded when the booking is cancelled before the change cutoff;
+      kept on no-shows and late cancellations.
+    - 'guarantee': the guest saves a card when booking. Nothing is charged unless
+      the booking is marked as a no-show, when deposit_amount_per_guest x party
+      size is charged to the saved card.
+
+    The policy applies to parties of deposit_min_party_size or more, and to every
+    party on special dates with requires_deposit set.
+
+  2. Changes
+    - restaurants: deposit_policy, deposit_amount_per_guest, deposit_min_party_size,
+      deposit_currency
+    - restaurant_special_dates.requires_deposit
+
+  3. New Tables
+    - booking_payments: one row per booking that needed a payment, tracking the
+      Stripe checkout session, payment intent and saved card. pending_action
+      queues refunds and no-show charges for the booking-payment edge function.
+
+  4. Flow
+    - Public bookings that need a payment are created as 'pending' (tables held)
+      and the guest is sent to Stripe Checkout by the booking-payment function
+    - stripe-webhook marks the payment paid / card saved and confirms the
+      booking, or cancels the booking when the checkout session expires
+    - Booking status changes queue the refund or no-show charge, which
+      booking-payment settles with Stripe
+*/
+
+ALTER TABLE restaurants
+  ADD COLUMN IF NOT EXISTS deposit_policy text NOT NULL DEFAULT 'none'
+    CHECK (deposit_policy IN ('none', 'deposit', 'guarantee')),
+  ADD COLUMN IF NOT EXISTS deposit_amount_per_guest numeric(10,2) NOT NULL DEFAULT 0
+    CHECK (deposit_amount_per_guest >= 0),
+  ADD COLUMN IF NOT EXISTS deposit_min_party_size integer
+    CHECK (deposit_min_party_size > 0),
+  ADD COLUMN IF NOT EXISTS deposit_currency text NOT NULL DEFAULT 'sgd';
+
+ALTER TABLE restaurant_special_dates
+  ADD COLUMN IF NOT EXISTS requires_deposit boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS booking_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL UNIQUE REFERENCES bookings(id) ON DELETE CASCADE,
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  payment_type text NOT NULL CHECK (payment_type IN ('deposit', 'guarantee')),
+  amount numeric(10,2) NOT NULL CHECK (amount >= 0),
+  currency text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN (
+    'pending',    -- waiting for the guest to complete checkout
+    'paid',       -- deposit collected
+    'card_saved', -- guarantee card on file
+    'charged',    -- no-show fee charged to the saved card
+    'refunded',   -- deposit returned after a timely cancellation
+    'retained',   -- deposit kept after a no-show or late cancellation
+    'released',   -- guarantee no longer needed
+    'cancelled',  -- checkout never completed
+    'failed'      -- refund or charge failed, see error_message
+  )),
+  pending_action text CHECK (pending_action IN ('refund', 'charge')),
+  stripe_checkout_session_id text,
+  stripe_customer_id text,
+  stripe_payment_intent_id text,
+  stripe_payment_method_id text,
+  stripe_refund_id text,
+  error_message text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_payments_restaurant ON booking_payments(restaurant_id);
+CREATE INDEX IF NOT EXISTS idx_booking_payments_pending_action ON booking_payments(updated_at) WHERE pending_action IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_booking_payments_updated_at ON booking_payments;
+CREATE TRIGGER update_booking_payments_updated_at
+  BEFORE UPDATE ON booking_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- REQUIREMENTS
+-- =============================================
+
+-- Payment the guest must make for a booking; amount is 0 when none is needed
+CREATE OR REPLACE FUNCTION get_deposit_requirement(
+  p_restaurant_id uuid,
+  p_date date,
+  p_party_size integer
+)
+RETURNS TABLE(
+  payment_type text,
+  amount_per_guest numeric,
+  amount numeric,
+  currency text
+) AS $$
+  SELECT
+    r.deposit_policy,
+    r.deposit_amount_per_guest,
+    r.deposit_amount_per_guest * p_party_size,
+    r.deposit_currency
+  FROM restaurants r
+  WHERE r.id = p_restaurant_id
+    AND r.deposit_policy <> 'none'
+    AND r.deposit_amount_per_guest > 0
+    AND (
+      (r.deposit_min_party_size IS NOT NULL AND p_party_size >= r.deposit_min_party_size)
+      OR EXISTS (
+        SELECT 1
+        FROM restaurant_special_dates sd
+        WHERE sd.restaurant_id = r.id
+          AND sd.special_date = p_date
+          AND sd.requires_deposit
+      )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Payment status for the guest manage page
+CREATE OR REPLACE FUNCTION get_booking_payment(p_token text)
+RETURNS TABLE(
+  payment_type text,
+  amount numeric,
+  currency text,
+  status text
+) AS $$
+  SELECT bp.payment_type, bp.amount, bp.currency, bp.status
+  FROM booking_payments bp
+  JOIN bookings b ON b.id = bp.booking_id
+  WHERE b.manage_token = p_token;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- =============================================
+-- SETTLEMENT
+-- =============================================
+
+-- Decides what happens to the money when a booking closes. Refunds and charges
+-- are queued in pending_action for the booking-payment edge function.
+CREATE OR REPLACE FUNCTION settle_booking_payment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_cutoff_hours integer;
+  v_timely boolean;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'cancelled' THEN
+    SELECT r.booking_change_cutoff_hours INTO v_cutoff_hours
+    FROM restaurants r
+    WHERE r.id = NEW.restaurant_id;
+
+    v_timely := LOCALTIMESTAMP < NEW.booking_date + NEW.booking_time - make_interval(hours => v_cutoff_hours);
+
+    -- Abandoned checkouts just close
+    UPDATE booking_payments
+    SET status = 'cancelled'
+    WHERE booking_id = NEW.id AND status = 'pending';
+
+    UPDATE booking_payments
+    SET
+      status = CASE WHEN v_timely THEN status ELSE 'retained' END,
+      pending_action = CASE WHEN v_timely THEN 'refund' END
+    WHERE booking_id = NEW.id AND status = 'paid';
+
+    -- Only no-shows are charged to a guarantee card
+    UPDATE booking_payments
+    SET status = 'released'
+    WHERE booking_id = NEW.id AND status = 'card_saved';
+  ELSIF NEW.status = 'no_show' THEN
+    UPDATE booking_payments
+    SET status = 'retained'
+    WHERE booking_id = NEW.id AND status = 'paid';
+
+    UPDATE booking_payments
+    SET pending_action = 'charge'
+    WHERE booking_id = NEW.id AND status = 'card_saved';
+  ELSIF NEW.status = 'completed' THEN
+    UPDATE booking_payments
+    SET status = 'released'
+    WHERE booking_id = NEW.id AND status = 'card_saved';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS settle_booking_payment ON bookings;
+CREATE TRIGGER settle_booking_payment
+  AFTER UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION settle_booking_payment();
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE booking_payments ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the booking-payment and stripe-webhook functions
+CREATE POLICY "Restaurant staff can read booking payments"
+  ON booking_payments
+  FOR SELECT
+  TO authenticated
+  USING (user_can_access_restaurant(restaurant_id));
+
+GRANT EXECUTE ON FUNCTION get_deposit_requirement(uuid, date, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_booking_payment(text) TO anon, authenticated;
+
+COMMENT ON COLUMN restaurants.deposit_policy IS 'none, deposit (paid up front) or guarantee (card on file, charged on no-show)';
+COMMENT ON COLUMN restaurants.deposit_min_party_size IS 'Parties of this size or larger need a deposit or guarantee; NULL = only on special dates that require one';
+COMMENT ON COLUMN restaurant_special_dates.requires_deposit IS 'Every booking on this date needs the restaurant deposit or guarantee';
+COMMENT ON TABLE booking_payments IS 'Deposits and card guarantees collected through Stripe for bookings';
+COMMENT ON FUNCTION get_deposit_requirement(uuid, date, integer) IS 'Deposit or guarantee a booking needs under the restaurant policy, if any';
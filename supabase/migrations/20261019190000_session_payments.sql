@@ -0,0 +1,169 @@
+/*
+  # Pay-at-Table for QR Ordering Sessions
+
+  Diners can now settle the bill for their table from the QR ordering page
+  instead of waiting for staff to mark every order as paid.
+
+  1. New Tables
+    - session_payments: one row per checkout attempt for an order session. It
+      records which orders the payment covers, the tip and the provider used
+      ('stripe', or 'mock' for local testing without Stripe).
+
+  2. Flow
+    - The session-payment edge function totals the session's unpaid orders,
+      records a pending session_payments row and sends the diner to Stripe
+      Checkout (the mock provider completes the payment straight away)
+    - stripe-webhook calls complete_session_payment when checkout succeeds,
+      which marks every covered order 'paid'
+    - Once nothing is left unpaid the session is closed, a seated booking is
+      completed, its tables are released and waiting guests are offered them
+
+  3. Guest access
+    - get_session_payment(p_token) reports the latest payment for a session,
+      including after the session has closed
+*/
+
+CREATE TABLE IF NOT EXISTS session_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid NOT NULL REFERENCES order_sessions(id) ON DELETE CASCADE,
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  order_ids uuid[] NOT NULL,
+  provider text NOT NULL CHECK (provider IN ('stripe', 'mock')),
+  subtotal_sgd numeric(10,2) NOT NULL CHECK (subtotal_sgd >= 0),
+  tip_sgd numeric(10,2) NOT NULL DEFAULT 0 CHECK (tip_sgd >= 0),
+  total_sgd numeric(10,2) NOT NULL CHECK (total_sgd >= 0),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'cancelled')),
+  stripe_checkout_session_id text,
+  stripe_payment_intent_id text,
+  paid_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_payments_session ON session_payments(session_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_session_payments_restaurant ON session_payments(restaurant_id, created_at);
+
+DROP TRIGGER IF EXISTS update_session_payments_updated_at ON session_payments;
+CREATE TRIGGER update_session_payments_updated_at
+  BEFORE UPDATE ON session_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- COMPLETION
+-- =============================================
+
+-- Marks a checkout as paid and closes the table once its bill is settled.
+-- Returns false when the payment was already handled.
+CREATE OR REPLACE FUNCTION complete_session_payment(
+  p_payment_id uuid,
+  p_payment_intent_id text DEFAULT NULL
+)
+RETURNS boolean AS $$
+DECLARE
+  v_payment session_payments%ROWTYPE;
+  v_session order_sessions%ROWTYPE;
+  v_table_ids uuid[];
+BEGIN
+  SELECT * INTO v_payment
+  FROM session_payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  -- A checkout replaced by a newer one can still be paid in another tab, so only
+  -- a payment already recorded as paid is skipped
+  IF NOT FOUND OR v_payment.status = 'paid' THEN
+    RETURN false;
+  END IF;
+
+  UPDATE session_payments
+  SET
+    status = 'paid',
+    paid_at = now(),
+    stripe_payment_intent_id = COALESCE(p_payment_intent_id, stripe_payment_intent_id)
+  WHERE id = p_payment_id;
+
+  UPDATE orders
+  SET status = 'paid', updated_at = now()
+  WHERE id = ANY(v_payment.order_ids)
+    AND status <> 'paid';
+
+  -- Orders placed while the diner was paying keep the table open
+  IF EXISTS (
+    SELECT 1 FROM orders
+    WHERE session_id = v_payment.session_id
+      AND status <> 'paid'
+  ) THEN
+    RETURN true;
+  END IF;
+
+  UPDATE order_sessions
+  SET is_active = false
+  WHERE id = v_payment.session_id
+    AND is_active
+  RETURNING * INTO v_session;
+
+  IF NOT FOUND THEN
+    RETURN true;
+  END IF;
+
+  IF v_session.booking_id IS NOT NULL THEN
+    UPDATE bookings
+    SET status = 'completed', updated_at = now()
+    WHERE id = v_session.booking_id
+      AND status = 'seated';
+
+    SELECT array_agg(bt.table_id) INTO v_table_ids
+    FROM booking_tables bt
+    WHERE bt.booking_id = v_session.booking_id;
+  END IF;
+
+  v_table_ids := COALESCE(v_table_ids, ARRAY[v_session.table_id]);
+
+  UPDATE restaurant_tables
+  SET status = 'available', updated_at = now()
+  WHERE id = ANY(v_table_ids)
+    AND status = 'occupied';
+
+  PERFORM offer_waitlist_table(v_session.restaurant_id, CURRENT_DATE, LOCALTIME::time(0));
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Latest payment for a session, readable by the diner after the session closes
+CREATE OR REPLACE FUNCTION get_session_payment(p_token text)
+RETURNS TABLE(
+  status text,
+  subtotal_sgd numeric,
+  tip_sgd numeric,
+  total_sgd numeric,
+  paid_at timestamptz,
+  session_active boolean
+) AS $$
+  SELECT sp.status, sp.subtotal_sgd, sp.tip_sgd, sp.total_sgd, sp.paid_at, os.is_active
+  FROM session_payments sp
+  JOIN order_sessions os ON os.id = sp.session_id
+  WHERE os.session_token = p_token
+  ORDER BY sp.created_at DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE session_payments ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the session-payment and stripe-webhook functions
+CREATE POLICY "Restaurant staff can read session payments"
+  ON session_payments
+  FOR SELECT
+  TO authenticated
+  USING (user_can_access_restaurant(restaurant_id));
+
+REVOKE EXECUTE ON FUNCTION complete_session_payment(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_session_payment(text) TO anon, authenticated;
+
+COMMENT ON TABLE session_payments IS 'Diner payments for QR ordering sessions, covering every unpaid order at the table';
+COMMENT ON FUNCTION complete_session_payment(uuid, text) IS 'Marks a session payment and its orders paid, then closes the session and releases the table when nothing is left to pay';
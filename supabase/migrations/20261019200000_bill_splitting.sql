@@ -0,0 +1,437 @@
+/*
+  # Bill Splitting
+
+  Groups sharing a QR table can split the bill and pay their shares separately.
+
+  1. New Tables
+    - bill_splits: a split of a session's unpaid orders, made evenly across a
+      number of payers, by assigning items to people, or with custom amounts.
+      At most one split per session is open at a time.
+
+  2. Changes
+    - session_payments: each share of a split is a session_payments row with
+      split_id, share_number and label set, created 'pending' before anyone pays.
+      item_ids lists the order items in the share for item splits. provider is
+      set when the share is paid, so it is now nullable.
+
+  3. Settlement
+    - complete_session_payment marks a share paid; the orders in the split are
+      only marked paid, and the session closed, once every share is paid
+    - A split can be replaced or cancelled until someone pays into it
+
+  4. Guest access
+    - create_bill_split, cancel_bill_split and get_bill_split work with the
+      session token from the table's QR code
+    - get_session_payment takes an optional payment id so a payer sees their
+      own share after returning from checkout
+*/
+
+CREATE TABLE IF NOT EXISTS bill_splits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid NOT NULL REFERENCES order_sessions(id) ON DELETE CASCADE,
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  split_method text NOT NULL CHECK (split_method IN ('even', 'items', 'custom')),
+  order_ids uuid[] NOT NULL,
+  total_sgd numeric(10,2) NOT NULL CHECK (total_sgd >= 0),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'settled', 'cancelled')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bill_splits_open_session ON bill_splits(session_id) WHERE status = 'open';
+
+DROP TRIGGER IF EXISTS update_bill_splits_updated_at ON bill_splits;
+CREATE TRIGGER update_bill_splits_updated_at
+  BEFORE UPDATE ON bill_splits
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE session_payments
+  ADD COLUMN IF NOT EXISTS split_id uuid REFERENCES bill_splits(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS share_number integer,
+  ADD COLUMN IF NOT EXISTS label text,
+  ADD COLUMN IF NOT EXISTS item_ids uuid[];
+
+ALTER TABLE session_payments ALTER COLUMN provider DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_session_payments_split ON session_payments(split_id) WHERE split_id IS NOT NULL;
+
+-- =============================================
+-- SPLITS
+-- =============================================
+
+-- Splits the session's unpaid orders into shares. p_shares depends on p_method:
+--   even:   {"count": 3}
+--   items:  [{"label": "Seat 1", "item_ids": ["<order_items.id>", ...]}, ...]
+--   custom: [{"label": "Alex", "amount": 42.50}, ...]
+-- Cents left over from rounding go to the last share.
+CREATE OR REPLACE FUNCTION create_bill_split(
+  p_token text,
+  p_method text,
+  p_shares jsonb
+)
+RETURNS uuid AS $$
+DECLARE
+  v_session order_sessions%ROWTYPE;
+  v_split_id uuid;
+  v_order_ids uuid[];
+  v_total numeric;
+  v_count integer;
+  v_index integer;
+  v_share jsonb;
+  v_label text;
+  v_amount numeric;
+  v_allocated numeric := 0;
+  v_item_ids uuid[];
+  v_all_item_ids uuid[];
+  v_assigned uuid[] := '{}';
+BEGIN
+  SELECT * INTO v_session
+  FROM order_sessions
+  WHERE session_token = p_token
+    AND is_active
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This table session has already been closed';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM bill_splits bs
+    JOIN session_payments sp ON sp.split_id = bs.id
+    WHERE bs.session_id = v_session.id
+      AND bs.status = 'open'
+      AND sp.status = 'paid'
+  ) THEN
+    RAISE EXCEPTION 'Part of the bill has already been paid, so the split can no longer be changed';
+  END IF;
+
+  -- Replace a split nobody has paid into yet, and any full-bill checkout in progress
+  UPDATE session_payments
+  SET status = 'cancelled'
+  WHERE session_id = v_session.id
+    AND status = 'pending';
+
+  UPDATE bill_splits
+  SET status = 'cancelled'
+  WHERE session_id = v_session.id
+    AND status = 'open';
+
+  SELECT array_agg(o.id), COALESCE(sum(o.total_sgd), 0)
+  INTO v_order_ids, v_total
+  FROM orders o
+  WHERE o.session_id = v_session.id
+    AND o.status <> 'paid';
+
+  IF v_order_ids IS NULL THEN
+    RAISE EXCEPTION 'There is nothing left to pay';
+  END IF;
+
+  INSERT INTO bill_splits (session_id, restaurant_id, split_method, order_ids, total_sgd)
+  VALUES (v_session.id, v_session.restaurant_id, p_method, v_order_ids, v_total)
+  RETURNING id INTO v_split_id;
+
+  IF p_method = 'even' THEN
+    v_count := (p_shares->>'count')::integer;
+    IF v_count IS NULL OR v_count < 2 OR v_count > 20 THEN
+      RAISE EXCEPTION 'The bill can be split between 2 and 20 people';
+    END IF;
+
+    FOR v_index IN 1..v_count LOOP
+      v_amount := CASE
+        WHEN v_index = v_count THEN v_total - v_allocated
+        ELSE trunc(v_total / v_count, 2)
+      END;
+
+      INSERT INTO session_payments (session_id, restaurant_id, order_ids, split_id, share_number, label, subtotal_sgd, total_sgd)
+      VALUES (v_session.id, v_session.restaurant_id, v_order_ids, v_split_id, v_index, 'Guest ' || v_index, v_amount, v_amount);
+
+      v_allocated := v_allocated + v_amount;
+    END LOOP;
+  ELSIF p_method = 'custom' THEN
+    v_count := jsonb_array_length(p_shares);
+    IF v_count < 2 OR v_count > 20 THEN
+      RAISE EXCEPTION 'The bill can be split between 2 and 20 people';
+    END IF;
+
+    FOR v_index IN 1..v_count LOOP
+      v_share := p_shares->(v_index - 1);
+      v_amount := round((v_share->>'amount')::numeric, 2);
+      IF v_amount IS NULL OR v_amount <= 0 THEN
+        RAISE EXCEPTION 'Every share needs an amount';
+      END IF;
+
+      v_label := COALESCE(NULLIF(trim(v_share->>'label'), ''), 'Guest ' || v_index);
+
+      INSERT INTO session_payments (session_id, restaurant_id, order_ids, split_id, share_number, label, subtotal_sgd, total_sgd)
+      VALUES (v_session.id, v_session.restaurant_id, v_order_ids, v_split_id, v_index, v_label, v_amount, v_amount);
+
+      v_allocated := v_allocated + v_amount;
+    END LOOP;
+
+    IF v_allocated <> v_total THEN
+      RAISE EXCEPTION 'Shares add up to S$% but the bill is S$%', v_allocated, v_total;
+    END IF;
+  ELSIF p_method = 'items' THEN
+    v_count := jsonb_array_length(p_shares);
+    IF v_count < 2 OR v_count > 20 THEN
+      RAISE EXCEPTION 'The bill can be split between 2 and 20 people';
+    END IF;
+
+    SELECT array_agg(oi.id) INTO v_all_item_ids
+    FROM order_items oi
+    WHERE oi.order_id = ANY(v_order_ids);
+
+    FOR v_index IN 1..v_count LOOP
+      v_share := p_shares->(v_index - 1);
+      v_item_ids := ARRAY(SELECT jsonb_array_elements_text(v_share->'item_ids')::uuid);
+
+      IF cardinality(v_item_ids) = 0 THEN
+        RAISE EXCEPTION 'Every person needs at least one item';
+      END IF;
+      IF NOT v_item_ids <@ v_all_item_ids THEN
+        RAISE EXCEPTION 'Some items are not on this bill';
+      END IF;
+      IF v_item_ids && v_assigned THEN
+        RAISE EXCEPTION 'Each item can only be assigned to one person';
+      END IF;
+
+      -- Items carry their order's loyalty discount
+      IF v_index = v_count THEN
+        v_amount := v_total - v_allocated;
+      ELSE
+        SELECT COALESCE(round(sum(
+          oi.total_price_sgd * COALESCE(o.total_sgd / NULLIF(o.subtotal_sgd, 0), 1)
+        ), 2), 0)
+        INTO v_amount
+        FROM order_items oi
+        JOIN orders o ON o.id = oi.order_id
+        WHERE oi.id = ANY(v_item_ids);
+      END IF;
+
+      v_label := COALESCE(NULLIF(trim(v_share->>'label'), ''), 'Guest ' || v_index);
+
+      INSERT INTO session_payments (session_id, restaurant_id, order_ids, split_id, share_number, label, item_ids, subtotal_sgd, total_sgd)
+      VALUES (v_session.id, v_session.restaurant_id, v_order_ids, v_split_id, v_index, v_label, v_item_ids, v_amount, v_amount);
+
+      v_allocated := v_allocated + v_amount;
+      v_assigned := v_assigned || v_item_ids;
+    END LOOP;
+
+    IF NOT v_all_item_ids <@ v_assigned THEN
+      RAISE EXCEPTION 'Every item needs to be assigned to someone';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unknown split method %', p_method;
+  END IF;
+
+  RETURN v_split_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION cancel_bill_split(p_token text)
+RETURNS void AS $$
+DECLARE
+  v_split_id uuid;
+BEGIN
+  SELECT bs.id INTO v_split_id
+  FROM bill_splits bs
+  JOIN order_sessions os ON os.id = bs.session_id
+  WHERE os.session_token = p_token
+    AND bs.status = 'open'
+  FOR UPDATE OF bs;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM session_payments WHERE split_id = v_split_id AND status = 'paid') THEN
+    RAISE EXCEPTION 'Part of the bill has already been paid, so the split can no longer be cancelled';
+  END IF;
+
+  UPDATE session_payments
+  SET status = 'cancelled'
+  WHERE split_id = v_split_id
+    AND status = 'pending';
+
+  UPDATE bill_splits
+  SET status = 'cancelled'
+  WHERE id = v_split_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Shares of the session's open split, in the order they were made
+CREATE OR REPLACE FUNCTION get_bill_split(p_token text)
+RETURNS TABLE(
+  split_id uuid,
+  split_method text,
+  split_total_sgd numeric,
+  share_id uuid,
+  share_number integer,
+  label text,
+  item_ids uuid[],
+  amount_sgd numeric,
+  tip_sgd numeric,
+  status text
+) AS $$
+  SELECT bs.id, bs.split_method, bs.total_sgd, sp.id, sp.share_number, sp.label, sp.item_ids, sp.subtotal_sgd, sp.tip_sgd, sp.status
+  FROM bill_splits bs
+  JOIN order_sessions os ON os.id = bs.session_id
+  JOIN session_payments sp ON sp.split_id = bs.id
+  WHERE os.session_token = p_token
+    AND bs.status = 'open'
+  ORDER BY sp.share_number;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- =============================================
+-- COMPLETION
+-- =============================================
+
+-- Marks a checkout as paid and closes the table once its bill is settled. A
+-- share only settles its orders when it is the last share of its split to be
+-- paid. Returns false when the payment was already handled.
+CREATE OR REPLACE FUNCTION complete_session_payment(
+  p_payment_id uuid,
+  p_payment_intent_id text DEFAULT NULL
+)
+RETURNS boolean AS $$
+DECLARE
+  v_payment session_payments%ROWTYPE;
+  v_session order_sessions%ROWTYPE;
+  v_order_ids uuid[];
+  v_table_ids uuid[];
+BEGIN
+  SELECT * INTO v_payment
+  FROM session_payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  -- A checkout replaced by a newer one can still be paid in another tab, so only
+  -- a payment already recorded as paid is skipped
+  IF NOT FOUND OR v_payment.status = 'paid' THEN
+    RETURN false;
+  END IF;
+
+  UPDATE session_payments
+  SET
+    status = 'paid',
+    paid_at = now(),
+    stripe_payment_intent_id = COALESCE(p_payment_intent_id, stripe_payment_intent_id)
+  WHERE id = p_payment_id;
+
+  v_order_ids := v_payment.order_ids;
+
+  IF v_payment.split_id IS NOT NULL THEN
+    -- Serialise the last shares of a split so exactly one of them settles it
+    PERFORM 1 FROM bill_splits WHERE id = v_payment.split_id FOR UPDATE;
+
+    IF EXISTS (
+      SELECT 1 FROM session_payments
+      WHERE split_id = v_payment.split_id
+        AND status = 'pending'
+    ) THEN
+      RETURN true;
+    END IF;
+
+    UPDATE bill_splits
+    SET status = 'settled'
+    WHERE id = v_payment.split_id
+      AND status = 'open'
+    RETURNING order_ids INTO v_order_ids;
+
+    IF NOT FOUND THEN
+      RETURN true;
+    END IF;
+  END IF;
+
+  UPDATE orders
+  SET status = 'paid', updated_at = now()
+  WHERE id = ANY(v_order_ids)
+    AND status <> 'paid';
+
+  -- Orders placed while the diner was paying keep the table open
+  IF EXISTS (
+    SELECT 1 FROM orders
+    WHERE session_id = v_payment.session_id
+      AND status <> 'paid'
+  ) THEN
+    RETURN true;
+  END IF;
+
+  UPDATE order_sessions
+  SET is_active = false
+  WHERE id = v_payment.session_id
+    AND is_active
+  RETURNING * INTO v_session;
+
+  IF NOT FOUND THEN
+    RETURN true;
+  END IF;
+
+  IF v_session.booking_id IS NOT NULL THEN
+    UPDATE bookings
+    SET status = 'completed', updated_at = now()
+    WHERE id = v_session.booking_id
+      AND status = 'seated';
+
+    SELECT array_agg(bt.table_id) INTO v_table_ids
+    FROM booking_tables bt
+    WHERE bt.booking_id = v_session.booking_id;
+  END IF;
+
+  v_table_ids := COALESCE(v_table_ids, ARRAY[v_session.table_id]);
+
+  UPDATE restaurant_tables
+  SET status = 'available', updated_at = now()
+  WHERE id = ANY(v_table_ids)
+    AND status = 'occupied';
+
+  PERFORM offer_waitlist_table(v_session.restaurant_id, CURRENT_DATE, LOCALTIME::time(0));
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION IF EXISTS get_session_payment(text);
+
+-- A specific payment, or the latest one, readable by the diner after the session closes
+CREATE OR REPLACE FUNCTION get_session_payment(p_token text, p_payment_id uuid DEFAULT NULL)
+RETURNS TABLE(
+  status text,
+  label text,
+  subtotal_sgd numeric,
+  tip_sgd numeric,
+  total_sgd numeric,
+  paid_at timestamptz,
+  session_active boolean
+) AS $$
+  SELECT sp.status, sp.label, sp.subtotal_sgd, sp.tip_sgd, sp.total_sgd, sp.paid_at, os.is_active
+  FROM session_payments sp
+  JOIN order_sessions os ON os.id = sp.session_id
+  WHERE os.session_token = p_token
+    AND (p_payment_id IS NULL OR sp.id = p_payment_id)
+  ORDER BY sp.created_at DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE bill_splits ENABLE ROW LEVEL SECURITY;
+
+-- Guests work with splits through the functions above
+CREATE POLICY "Restaurant staff can read bill splits"
+  ON bill_splits
+  FOR SELECT
+  TO authenticated
+  USING (user_can_access_restaurant(restaurant_id));
+
+GRANT EXECUTE ON FUNCTION create_bill_split(text, text, jsonb) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION cancel_bill_split(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_bill_split(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_session_payment(text, uuid) TO anon, authenticated;
+
+COMMENT ON TABLE bill_splits IS 'Splits of a QR session bill into shares paid separately through session_payments';
+COMMENT ON FUNCTION create_bill_split(text, text, jsonb) IS 'Splits a session''s unpaid orders evenly, by item or by custom amounts';
@@ -0,0 +1,119 @@
+/*
+  # Menu Item Modifiers and Option Groups
+
+  Menu items can now offer choices such as "Spice level", "Choose a side" or
+  "Add egg +$1.00".
+
+  1. New Tables
+    - menu_modifier_groups: a set of choices on one menu item. min_selections of
+      1 or more makes the group required; max_selections caps how many options
+      can be picked (NULL = no limit).
+    - menu_modifier_options: the choices in a group, each with a price delta
+      added to the item's price.
+
+  2. Changes
+    - order_items.modifiers: the options picked, copied as
+      [{group_id, group_name, option_id, name, price_delta_sgd}] so tickets and
+      bills keep showing what was ordered after the menu changes.
+      unit_price_sgd includes the price deltas.
+*/
+
+CREATE TABLE IF NOT EXISTS menu_modifier_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  menu_item_id uuid NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  min_selections integer NOT NULL DEFAULT 0 CHECK (min_selections >= 0),
+  max_selections integer CHECK (max_selections IS NULL OR max_selections >= 1),
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (max_selections IS NULL OR max_selections >= min_selections)
+);
+
+CREATE TABLE IF NOT EXISTS menu_modifier_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid NOT NULL REFERENCES menu_modifier_groups(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  price_delta_sgd numeric(10,2) NOT NULL DEFAULT 0,
+  is_available boolean NOT NULL DEFAULT true,
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_menu_modifier_groups_item ON menu_modifier_groups(menu_item_id, display_order);
+CREATE INDEX IF NOT EXISTS idx_menu_modifier_options_group ON menu_modifier_options(group_id, display_order);
+
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS modifiers jsonb NOT NULL DEFAULT '[]';
+
+DROP TRIGGER IF EXISTS update_menu_modifier_groups_updated_at ON menu_modifier_groups;
+CREATE TRIGGER update_menu_modifier_groups_updated_at
+  BEFORE UPDATE ON menu_modifier_groups
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_menu_modifier_options_updated_at ON menu_modifier_options;
+CREATE TRIGGER update_menu_modifier_options_updated_at
+  BEFORE UPDATE ON menu_modifier_options
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE menu_modifier_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE menu_modifier_options ENABLE ROW LEVEL SECURITY;
+
+-- Diners see modifiers alongside the public menu
+CREATE POLICY "Public can read menu modifier groups"
+  ON menu_modifier_groups
+  FOR SELECT
+  TO anon, authenticated
+  USING (
+    restaurant_id IN (
+      SELECT id FROM restaurants WHERE slug IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Restaurant staff can manage menu modifier groups"
+  ON menu_modifier_groups
+  FOR ALL
+  TO authenticated
+  USING (user_can_access_restaurant(restaurant_id))
+  WITH CHECK (user_can_access_restaurant(restaurant_id));
+
+CREATE POLICY "Public can read menu modifier options"
+  ON menu_modifier_options
+  FOR SELECT
+  TO anon, authenticated
+  USING (
+    group_id IN (
+      SELECT g.id
+      FROM menu_modifier_groups g
+      JOIN restaurants r ON r.id = g.restaurant_id
+      WHERE r.slug IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Restaurant staff can manage menu modifier options"
+  ON menu_modifier_options
+  FOR ALL
+  TO authenticated
+  USING (
+    group_id IN (
+      SELECT id FROM menu_modifier_groups WHERE user_can_access_restaurant(restaurant_id)
+    )
+  )
+  WITH CHECK (
+    group_id IN (
+      SELECT id FROM menu_modifier_groups WHERE user_can_access_restaurant(restaurant_id)
+    )
+  );
+
+COMMENT ON TABLE menu_modifier_groups IS 'Choices offered on a menu item, e.g. spice level or sides';
+COMMENT ON COLUMN menu_modifier_groups.min_selections IS 'Options the diner must pick; 1 or more makes the group required';
+COMMENT ON COLUMN menu_modifier_groups.max_selections IS 'Most options the diner may pick; NULL = no limit';
+COMMENT ON COLUMN order_items.modifiers IS 'Options picked for this item, copied from the menu when ordered';
@@ -0,0 +1,193 @@
+/*
+  # Scheduled Menus
+
+  Item and category availability were manual toggles, so breakfast stayed
+  orderable at dinner unless someone switched it off. Categories can now belong
+  to a scheduled menu (e.g. Breakfast, Weekend Brunch, Festive Set) that is only
+  offered at certain times.
+
+  1. New Tables
+    - menu_schedules
+      - days_of_week: weekdays the menu is offered (0 = Sunday)
+      - start_time / end_time: time window; either end left unset follows the
+        restaurant's hours
+      - start_date / end_date: optional date range for seasonal menus
+    - A scheduled menu is only ever offered while the restaurant is open, using
+      the same effective hours as bookings (service periods and special dates)
+
+  2. Changes
+    - menu_categories.schedule_id: the menu a category belongs to. Categories
+      without one are offered whenever the restaurant takes orders, as before.
+
+  3. New Functions
+    - is_menu_schedule_available: whether a menu is offered at a given moment
+    - get_available_menu_schedules: the restaurant's menus offered right now
+    - get_unorderable_menu_items: which of the given items can't be ordered now
+    - order_items are checked on insert so an out-of-hours item can't be ordered
+      from a menu page that was left open
+*/
+
+CREATE TABLE IF NOT EXISTS menu_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  days_of_week integer[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}',
+  start_time time,
+  end_time time,
+  start_date date,
+  end_date date,
+  is_active boolean NOT NULL DEFAULT true,
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (days_of_week <@ ARRAY[0, 1, 2, 3, 4, 5, 6]),
+  CHECK (start_time IS NULL OR end_time IS NULL OR end_time > start_time),
+  CHECK (start_date IS NULL OR end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_menu_schedules_restaurant ON menu_schedules(restaurant_id, display_order);
+
+ALTER TABLE menu_categories
+  ADD COLUMN IF NOT EXISTS schedule_id uuid REFERENCES menu_schedules(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_menu_categories_schedule ON menu_categories(schedule_id);
+
+DROP TRIGGER IF EXISTS update_menu_schedules_updated_at ON menu_schedules;
+CREATE TRIGGER update_menu_schedules_updated_at
+  BEFORE UPDATE ON menu_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE menu_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can read menu schedules"
+  ON menu_schedules
+  FOR SELECT
+  TO anon, authenticated
+  USING (
+    restaurant_id IN (
+      SELECT id FROM restaurants WHERE slug IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Restaurant staff can manage menu schedules"
+  ON menu_schedules
+  FOR ALL
+  TO authenticated
+  USING (user_can_access_restaurant(restaurant_id))
+  WITH CHECK (user_can_access_restaurant(restaurant_id));
+
+-- =============================================
+-- AVAILABILITY
+-- =============================================
+
+-- Unlike is_restaurant_open, last seating doesn't apply: seated diners keep
+-- ordering until the period closes
+CREATE OR REPLACE FUNCTION is_menu_schedule_available(
+  p_schedule_id uuid,
+  p_at timestamp DEFAULT LOCALTIMESTAMP
+)
+RETURNS boolean AS $$
+DECLARE
+  v_schedule menu_schedules%ROWTYPE;
+  v_date date := p_at::date;
+  v_time time := p_at::time;
+BEGIN
+  SELECT * INTO v_schedule
+  FROM menu_schedules
+  WHERE id = p_schedule_id;
+
+  IF v_schedule.id IS NULL OR NOT v_schedule.is_active THEN
+    RETURN false;
+  END IF;
+
+  IF (v_schedule.start_date IS NOT NULL AND v_date < v_schedule.start_date)
+    OR (v_schedule.end_date IS NOT NULL AND v_date > v_schedule.end_date)
+    OR NOT (EXTRACT(DOW FROM v_date)::integer = ANY(v_schedule.days_of_week)) THEN
+    RETURN false;
+  END IF;
+
+  IF (v_schedule.start_time IS NOT NULL AND v_time < v_schedule.start_time)
+    OR (v_schedule.end_time IS NOT NULL AND v_time >= v_schedule.end_time) THEN
+    RETURN false;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM get_service_periods(v_schedule.restaurant_id, v_date) sp
+    WHERE v_time >= sp.opening_time
+      AND v_time < sp.closing_time
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_available_menu_schedules(p_restaurant_id uuid)
+RETURNS TABLE(schedule_id uuid) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT ms.id
+  FROM menu_schedules ms
+  WHERE ms.restaurant_id = p_restaurant_id
+    AND is_menu_schedule_available(ms.id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION is_menu_item_orderable(
+  p_menu_item_id uuid,
+  p_at timestamp DEFAULT LOCALTIMESTAMP
+)
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM menu_items mi
+    JOIN menu_categories mc ON mc.id = mi.category_id
+    WHERE mi.id = p_menu_item_id
+      AND mi.is_available
+      AND mc.is_active
+      AND (mc.schedule_id IS NULL OR is_menu_schedule_available(mc.schedule_id, p_at))
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Lets the ordering page tell the diner which cart items to remove before it
+-- creates the order
+CREATE OR REPLACE FUNCTION get_unorderable_menu_items(p_menu_item_ids uuid[])
+RETURNS TABLE(menu_item_id uuid, name text) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT mi.id, mi.name
+  FROM menu_items mi
+  WHERE mi.id = ANY(p_menu_item_ids)
+    AND NOT is_menu_item_orderable(mi.id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION check_order_item_orderable()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_name text;
+BEGIN
+  IF NOT is_menu_item_orderable(NEW.menu_item_id) THEN
+    SELECT name INTO v_name FROM menu_items WHERE id = NEW.menu_item_id;
+    RAISE EXCEPTION '% is not available right now', COALESCE(v_name, 'This item');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_order_item_orderable ON order_items;
+CREATE TRIGGER check_order_item_orderable
+  BEFORE INSERT ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION check_order_item_orderable();
+
+GRANT EXECUTE ON FUNCTION is_menu_schedule_available(uuid, timestamp) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_available_menu_schedules(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_unorderable_menu_items(uuid[]) TO anon, authenticated;
+
+COMMENT ON TABLE menu_schedules IS 'Menus offered at set times, e.g. breakfast or a seasonal set menu';
+COMMENT ON COLUMN menu_schedules.days_of_week IS 'Weekdays the menu is offered, 0 = Sunday';
+COMMENT ON COLUMN menu_categories.schedule_id IS 'Scheduled menu this category belongs to; NULL = offered whenever the restaurant takes orders';
@@ -0,0 +1,228 @@
+/*
+  # Inventory Tracking and Automatic 86-ing
+
+  Staff had to remember to switch items off when they ran out. Stock can now be
+  counted per menu item (e.g. 20 portions of the daily special) and per
+  ingredient (e.g. 5 kg of prawns shared by several dishes), and is deducted as
+  orders come in.
+
+  1. New Tables
+    - inventory_ingredients: stock on hand, unit, low-stock threshold and par
+      level (the amount to restock up to)
+    - menu_item_ingredients: how much of each ingredient one portion uses
+
+  2. Changes to menu_items
+    - stock_quantity: portions left; NULL = not counted
+    - low_stock_threshold / par_level: as for ingredients
+    - sold_out_at: set when an item was switched off because it ran out, so
+      restocking switches it back on. Items staff switched off by hand stay off.
+    - restocked_at on items and ingredients for the daily restock screen
+
+  3. Behaviour
+    - Inserting an order item deducts the item's stock and its ingredients. An
+      order for more portions than are left is rejected; ingredient counts are
+      estimates, so they stop at zero instead.
+    - An item becomes unavailable when its stock or any ingredient it needs runs
+      out, and available again once restocked
+*/
+
+CREATE TABLE IF NOT EXISTS inventory_ingredients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  unit text NOT NULL DEFAULT 'portion',
+  stock_quantity numeric(10,2) NOT NULL DEFAULT 0 CHECK (stock_quantity >= 0),
+  low_stock_threshold numeric(10,2) CHECK (low_stock_threshold IS NULL OR low_stock_threshold >= 0),
+  par_level numeric(10,2) CHECK (par_level IS NULL OR par_level >= 0),
+  restocked_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (restaurant_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS menu_item_ingredients (
+  menu_item_id uuid NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  ingredient_id uuid NOT NULL REFERENCES inventory_ingredients(id) ON DELETE CASCADE,
+  quantity numeric(10,2) NOT NULL CHECK (quantity > 0),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (menu_item_id, ingredient_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_menu_item_ingredients_ingredient ON menu_item_ingredients(ingredient_id);
+
+ALTER TABLE menu_items
+  ADD COLUMN IF NOT EXISTS stock_quantity integer,
+  ADD COLUMN IF NOT EXISTS low_stock_threshold integer CHECK (low_stock_threshold IS NULL OR low_stock_threshold >= 0),
+  ADD COLUMN IF NOT EXISTS par_level integer CHECK (par_level IS NULL OR par_level >= 0),
+  ADD COLUMN IF NOT EXISTS sold_out_at timestamptz,
+  ADD COLUMN IF NOT EXISTS restocked_at timestamptz;
+
+DROP TRIGGER IF EXISTS update_inventory_ingredients_updated_at ON inventory_ingredients;
+CREATE TRIGGER update_inventory_ingredients_updated_at
+  BEFORE UPDATE ON inventory_ingredients
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE inventory_ingredients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE menu_item_ingredients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant staff can manage ingredients"
+  ON inventory_ingredients
+  FOR ALL
+  TO authenticated
+  USING (user_can_access_restaurant(restaurant_id))
+  WITH CHECK (user_can_access_restaurant(restaurant_id));
+
+CREATE POLICY "Restaurant staff can manage menu item ingredients"
+  ON menu_item_ingredients
+  FOR ALL
+  TO authenticated
+  USING (
+    menu_item_id IN (
+      SELECT id FROM menu_items WHERE user_can_access_restaurant(restaurant_id)
+    )
+  )
+  WITH CHECK (
+    menu_item_id IN (
+      SELECT id FROM menu_items WHERE user_can_access_restaurant(restaurant_id)
+    )
+  );
+
+-- =============================================
+-- AVAILABILITY
+-- =============================================
+
+CREATE OR REPLACE FUNCTION sync_menu_item_stock_availability(p_menu_item_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_out_of_stock boolean;
+BEGIN
+  SELECT
+    (mi.stock_quantity IS NOT NULL AND mi.stock_quantity <= 0)
+    OR EXISTS (
+      SELECT 1
+      FROM menu_item_ingredients mii
+      JOIN inventory_ingredients i ON i.id = mii.ingredient_id
+      WHERE mii.menu_item_id = mi.id
+        AND i.stock_quantity < mii.quantity
+    )
+  INTO v_out_of_stock
+  FROM menu_items mi
+  WHERE mi.id = p_menu_item_id;
+
+  IF v_out_of_stock THEN
+    UPDATE menu_items
+    SET is_available = false, sold_out_at = now()
+    WHERE id = p_menu_item_id
+      AND is_available;
+  ELSE
+    UPDATE menu_items
+    SET is_available = true, sold_out_at = NULL
+    WHERE id = p_menu_item_id
+      AND sold_out_at IS NOT NULL;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION sync_menu_item_stock_on_item_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM sync_menu_item_stock_availability(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_menu_item_stock ON menu_items;
+CREATE TRIGGER sync_menu_item_stock
+  AFTER INSERT OR UPDATE OF stock_quantity ON menu_items
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_menu_item_stock_on_item_change();
+
+CREATE OR REPLACE FUNCTION sync_menu_item_stock_on_ingredient_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_menu_item_id uuid;
+BEGIN
+  FOR v_menu_item_id IN
+    SELECT menu_item_id FROM menu_item_ingredients WHERE ingredient_id = NEW.id
+  LOOP
+    PERFORM sync_menu_item_stock_availability(v_menu_item_id);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_ingredient_stock ON inventory_ingredients;
+CREATE TRIGGER sync_ingredient_stock
+  AFTER UPDATE OF stock_quantity ON inventory_ingredients
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_menu_item_stock_on_ingredient_change();
+
+CREATE OR REPLACE FUNCTION sync_menu_item_stock_on_recipe_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM sync_menu_item_stock_availability(OLD.menu_item_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM sync_menu_item_stock_availability(NEW.menu_item_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_recipe_stock ON menu_item_ingredients;
+CREATE TRIGGER sync_recipe_stock
+  AFTER INSERT OR UPDATE OR DELETE ON menu_item_ingredients
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_menu_item_stock_on_recipe_change();
+
+-- =============================================
+-- STOCK DEDUCTION
+-- =============================================
+
+-- Runs after check_order_item_orderable (triggers fire in name order), so
+-- unavailable items are rejected before any stock is touched
+CREATE OR REPLACE FUNCTION deduct_order_item_stock()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_item menu_items%ROWTYPE;
+BEGIN
+  SELECT * INTO v_item
+  FROM menu_items
+  WHERE id = NEW.menu_item_id
+  FOR UPDATE;
+
+  IF v_item.stock_quantity IS NOT NULL THEN
+    IF v_item.stock_quantity < NEW.quantity THEN
+      RAISE EXCEPTION 'Only % x % left', GREATEST(v_item.stock_quantity, 0), v_item.name;
+    END IF;
+
+    UPDATE menu_items
+    SET stock_quantity = stock_quantity - NEW.quantity
+    WHERE id = NEW.menu_item_id;
+  END IF;
+
+  UPDATE inventory_ingredients i
+  SET stock_quantity = GREATEST(0, i.stock_quantity - mii.quantity * NEW.quantity)
+  FROM menu_item_ingredients mii
+  WHERE mii.menu_item_id = NEW.menu_item_id
+    AND mii.ingredient_id = i.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS deduct_order_item_stock ON order_items;
+CREATE TRIGGER deduct_order_item_stock
+  BEFORE INSERT ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION deduct_order_item_stock();
+
+REVOKE EXECUTE ON FUNCTION sync_menu_item_stock_availability(uuid) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE inventory_ingredients IS 'Ingredient stock shared by menu items';
+COMMENT ON TABLE menu_item_ingredients IS 'Ingredient used by one portion of a menu item';
+COMMENT ON COLUMN menu_items.stock_quantity IS 'Portions left; NULL = stock not counted';
+COMMENT ON COLUMN menu_items.sold_out_at IS 'Set when the item was switched off for running out; cleared on restock';
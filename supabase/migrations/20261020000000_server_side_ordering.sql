@@ -0,0 +1,219 @@
+/*
+  # Server-Side Order Pricing
+
+  The ordering page worked out prices and totals in the browser and inserted
+  them straight into orders and order_items, so a tampered request could order
+  anything for $0. Orders now go through submit_order, which only accepts what
+  was ordered and does the pricing itself.
+
+  1. New Functions
+    - submit_order(p_token, p_items, p_loyalty_user_ids)
+      - p_items: [{menu_item_id, quantity, option_ids, special_instructions}]
+      - checks the session token, that every item is on the session's menu and
+        orderable now, and that the options picked are available and meet their
+        group's min/max rules
+      - prices each item from menu_items plus the option price deltas, applies
+        the loyalty discount from check_loyalty_discount and records the
+        loyalty spending
+      - writes the order and its items in one transaction, so a rejected item
+        (e.g. sold out) leaves no half-written order behind
+
+  2. Security
+    - Diners can no longer insert, edit or delete orders and order items directly
+    - update_loyalty_spending is only called from submit_order
+*/
+
+CREATE OR REPLACE FUNCTION submit_order(
+  p_token text,
+  p_items jsonb,
+  p_loyalty_user_ids text[] DEFAULT NULL
+)
+RETURNS TABLE(
+  order_id uuid,
+  order_number text,
+  subtotal_sgd numeric,
+  discount_sgd numeric,
+  total_sgd numeric
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_session order_sessions%ROWTYPE;
+  v_order_id uuid;
+  v_order_number text;
+  v_line jsonb;
+  v_item menu_items%ROWTYPE;
+  v_quantity integer;
+  v_option_ids uuid[];
+  v_group_name text;
+  v_modifiers jsonb;
+  v_price_delta numeric;
+  v_unit_price numeric;
+  v_instructions text;
+  v_subtotal numeric := 0;
+  v_discount numeric := 0;
+  v_total numeric;
+  v_loyalty_ids text[] := NULLIF(COALESCE(p_loyalty_user_ids, '{}'), '{}');
+  v_discount_eligible boolean := false;
+  v_triggering_user_id text;
+BEGIN
+  SELECT * INTO v_session
+  FROM order_sessions
+  WHERE session_token = p_token
+    AND is_active = true;
+
+  IF v_session.id IS NULL THEN
+    RAISE EXCEPTION 'This table session has ended. Please scan the QR code again.';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  v_order_number := generate_order_number();
+
+  INSERT INTO orders (restaurant_id, session_id, order_number, loyalty_user_ids, status)
+  VALUES (v_session.restaurant_id, v_session.id, v_order_number, v_loyalty_ids, 'pending')
+  RETURNING id INTO v_order_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    SELECT * INTO v_item
+    FROM menu_items
+    WHERE id = (v_line->>'menu_item_id')::uuid
+      AND restaurant_id = v_session.restaurant_id;
+
+    IF v_item.id IS NULL THEN
+      RAISE EXCEPTION 'An item in your cart is no longer on the menu';
+    END IF;
+
+    IF NOT is_menu_item_orderable(v_item.id) THEN
+      RAISE EXCEPTION '% is not available right now', v_item.name;
+    END IF;
+
+    v_quantity := (v_line->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 99 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_item.name;
+    END IF;
+
+    v_option_ids := ARRAY(
+      SELECT DISTINCT option_id::uuid
+      FROM jsonb_array_elements_text(COALESCE(v_line->'option_ids', '[]')) AS option_id
+    );
+
+    IF EXISTS (
+      SELECT 1
+      FROM unnest(v_option_ids) AS picked(option_id)
+      WHERE NOT EXISTS (
+        SELECT 1
+        FROM menu_modifier_options o
+        JOIN menu_modifier_groups g ON g.id = o.group_id
+        WHERE o.id = picked.option_id
+          AND g.menu_item_id = v_item.id
+          AND o.is_available
+      )
+    ) THEN
+      RAISE EXCEPTION 'An option chosen for % is no longer available', v_item.name;
+    END IF;
+
+    SELECT g.name INTO v_group_name
+    FROM menu_modifier_groups g
+    CROSS JOIN LATERAL (
+      SELECT count(*) AS picked
+      FROM menu_modifier_options o
+      WHERE o.group_id = g.id
+        AND o.id = ANY(v_option_ids)
+    ) c
+    WHERE g.menu_item_id = v_item.id
+      AND (c.picked < g.min_selections OR (g.max_selections IS NOT NULL AND c.picked > g.max_selections))
+    ORDER BY g.display_order
+    LIMIT 1;
+
+    IF v_group_name IS NOT NULL THEN
+      RAISE EXCEPTION 'Please check your "%" choice for %', v_group_name, v_item.name;
+    END IF;
+
+    -- Same shape as SelectedModifier on the client
+    SELECT
+      COALESCE(jsonb_agg(jsonb_build_object(
+        'group_id', g.id,
+        'group_name', g.name,
+        'option_id', o.id,
+        'name', o.name,
+        'price_delta_sgd', o.price_delta_sgd
+      ) ORDER BY g.display_order, o.display_order), '[]'::jsonb),
+      COALESCE(sum(o.price_delta_sgd), 0)
+    INTO v_modifiers, v_price_delta
+    FROM menu_modifier_options o
+    JOIN menu_modifier_groups g ON g.id = o.group_id
+    WHERE o.id = ANY(v_option_ids);
+
+    v_unit_price := GREATEST(v_item.price_sgd + v_price_delta, 0);
+    v_instructions := NULLIF(left(btrim(v_line->>'special_instructions'), 500), '');
+
+    INSERT INTO order_items (
+      order_id,
+      menu_item_id,
+      quantity,
+      unit_price_sgd,
+      total_price_sgd,
+      special_instructions,
+      modifiers
+    )
+    VALUES (
+      v_order_id,
+      v_item.id,
+      v_quantity,
+      v_unit_price,
+      v_unit_price * v_quantity,
+      v_instructions,
+      v_modifiers
+    );
+
+    v_subtotal := v_subtotal + v_unit_price * v_quantity;
+  END LOOP;
+
+  IF v_loyalty_ids IS NOT NULL THEN
+    SELECT ld.discount_eligible, ld.triggering_user_id, round(v_subtotal * ld.discount_amount, 2)
+    INTO v_discount_eligible, v_triggering_user_id, v_discount
+    FROM check_loyalty_discount(v_session.restaurant_id, v_loyalty_ids) ld;
+
+    IF NOT COALESCE(v_discount_eligible, false) THEN
+      v_discount_eligible := false;
+      v_triggering_user_id := NULL;
+      v_discount := 0;
+    END IF;
+  END IF;
+
+  v_total := v_subtotal - v_discount;
+
+  UPDATE orders o
+  SET subtotal_sgd = v_subtotal,
+      discount_sgd = v_discount,
+      total_sgd = v_total,
+      discount_applied = v_discount_eligible,
+      triggering_user_id = v_triggering_user_id
+  WHERE o.id = v_order_id;
+
+  -- Same as the ordering page did before: spending is recorded against the
+  -- loyalty member whose status earned the discount
+  IF v_discount_eligible THEN
+    PERFORM update_loyalty_spending(v_session.restaurant_id, v_triggering_user_id, v_total);
+  END IF;
+
+  RETURN QUERY SELECT v_order_id, v_order_number, v_subtotal, v_discount, v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION submit_order(text, jsonb, text[]) TO anon, authenticated;
+
+-- Orders are only written by submit_order from now on, and diners can't edit
+-- prices on an order once it has been placed
+DROP POLICY IF EXISTS "Public can create orders" ON orders;
+DROP POLICY IF EXISTS "Public can update orders" ON orders;
+DROP POLICY IF EXISTS "Public can create order items" ON order_items;
+DROP POLICY IF EXISTS "Public can update order items" ON order_items;
+DROP POLICY IF EXISTS "Public can delete order items" ON order_items;
+
+REVOKE EXECUTE ON FUNCTION update_loyalty_spending(uuid, text, decimal) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION submit_order(text, jsonb, text[]) IS 'Prices, validates and writes a diner''s order from their table session token';
@@ -0,0 +1,162 @@
+/*
+  # Kitchen Display System with Station Routing
+
+  Staff saw whole orders in one list. Orders are now split into tickets per
+  kitchen station (e.g. Grill, Bar, Dessert), and each item is bumped
+  separately as it's made.
+
+  1. New Tables
+    - kitchen_stations: name, colour and the ticket ages (in minutes) at which
+      the display turns amber and red
+
+  2. Changes
+    - menu_categories.station_id: the station that makes the category's items.
+      Items from categories without a station only show on the all-stations view.
+    - order_items.station_id: copied from the category when ordered, so moving
+      a category later doesn't reroute tickets already in the kitchen
+    - order_items.kitchen_status: pending -> preparing -> ready, with the times
+      each step was reached. Recalling a bumped ticket puts its items back to
+      preparing.
+
+  3. Order Status
+    - Orders follow their items: preparing once any item has been started,
+      ready once every item is ready, and back to preparing if an item is
+      recalled. Pending, served and paid orders are left alone; the kitchen only
+      works on orders staff have confirmed.
+*/
+
+CREATE TABLE IF NOT EXISTS kitchen_stations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  color text NOT NULL DEFAULT '#2563eb',
+  warning_minutes integer NOT NULL DEFAULT 10 CHECK (warning_minutes > 0),
+  critical_minutes integer NOT NULL DEFAULT 20,
+  display_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (restaurant_id, name),
+  CHECK (critical_minutes > warning_minutes)
+);
+
+ALTER TABLE menu_categories
+  ADD COLUMN IF NOT EXISTS station_id uuid REFERENCES kitchen_stations(id) ON DELETE SET NULL;
+
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS station_id uuid REFERENCES kitchen_stations(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS kitchen_status text NOT NULL DEFAULT 'pending'
+    CHECK (kitchen_status IN ('pending', 'preparing', 'ready')),
+  ADD COLUMN IF NOT EXISTS kitchen_started_at timestamptz,
+  ADD COLUMN IF NOT EXISTS kitchen_ready_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_order_items_station ON order_items(station_id, kitchen_status);
+
+DROP TRIGGER IF EXISTS update_kitchen_stations_updated_at ON kitchen_stations;
+CREATE TRIGGER update_kitchen_stations_updated_at
+  BEFORE UPDATE ON kitchen_stations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE kitchen_stations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant staff can manage kitchen stations"
+  ON kitchen_stations
+  FOR ALL
+  TO authenticated
+  USING (user_can_access_restaurant(restaurant_id))
+  WITH CHECK (user_can_access_restaurant(restaurant_id));
+
+-- =============================================
+-- ROUTING
+-- =============================================
+
+CREATE OR REPLACE FUNCTION assign_order_item_station()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT mc.station_id INTO NEW.station_id
+  FROM menu_items mi
+  JOIN menu_categories mc ON mc.id = mi.category_id
+  WHERE mi.id = NEW.menu_item_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS assign_order_item_station ON order_items;
+CREATE TRIGGER assign_order_item_station
+  BEFORE INSERT ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_order_item_station();
+
+-- =============================================
+-- ITEM AND ORDER STATUS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION stamp_order_item_kitchen_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.kitchen_status = 'pending' THEN
+    NEW.kitchen_started_at := NULL;
+    NEW.kitchen_ready_at := NULL;
+  ELSIF NEW.kitchen_status = 'preparing' THEN
+    NEW.kitchen_started_at := COALESCE(NEW.kitchen_started_at, now());
+    NEW.kitchen_ready_at := NULL;
+  ELSE
+    NEW.kitchen_started_at := COALESCE(NEW.kitchen_started_at, now());
+    NEW.kitchen_ready_at := COALESCE(NEW.kitchen_ready_at, now());
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stamp_order_item_kitchen_status ON order_items;
+CREATE TRIGGER stamp_order_item_kitchen_status
+  BEFORE UPDATE OF kitchen_status ON order_items
+  FOR EACH ROW
+  WHEN (OLD.kitchen_status IS DISTINCT FROM NEW.kitchen_status)
+  EXECUTE FUNCTION stamp_order_item_kitchen_status();
+
+CREATE OR REPLACE FUNCTION sync_order_kitchen_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_total integer;
+  v_ready integer;
+  v_started integer;
+  v_status text;
+BEGIN
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE kitchen_status = 'ready'),
+    count(*) FILTER (WHERE kitchen_status <> 'pending')
+  INTO v_total, v_ready, v_started
+  FROM order_items
+  WHERE order_id = NEW.order_id;
+
+  v_status := CASE
+    WHEN v_ready = v_total THEN 'ready'
+    WHEN v_started > 0 THEN 'preparing'
+    ELSE 'confirmed'
+  END;
+
+  UPDATE orders
+  SET status = v_status
+  WHERE id = NEW.order_id
+    AND status IN ('confirmed', 'preparing', 'ready')
+    AND status <> v_status;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_order_kitchen_status ON order_items;
+CREATE TRIGGER sync_order_kitchen_status
+  AFTER UPDATE OF kitchen_status ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_order_kitchen_status();
+
+COMMENT ON TABLE kitchen_stations IS 'Kitchen stations that tickets are routed to, e.g. grill or bar';
+COMMENT ON COLUMN menu_categories.station_id IS 'Station that makes this category''s items';
+COMMENT ON COLUMN order_items.station_id IS 'Station the item was routed to when ordered';
+COMMENT ON COLUMN order_items.kitchen_status IS 'pending, preparing or ready (bumped)';
@@ -0,0 +1,185 @@
+/*
+  # Automatic Kitchen Ticket Printing
+
+  Printers were only used for QR code sheets and test prints. New orders now
+  print a ticket at each kitchen station's printer as soon as they're placed.
+  Every order a table sends (the first round and any later additions) is its
+  own order, so each prints its own tickets.
+
+  1. Changes
+    - restaurants.auto_print_tickets: turns automatic printing on or off
+    - kitchen_stations.printer_config_id: the printer the station's tickets go
+      to. Stations without one, and items from categories without a station,
+      print at the restaurant's default printer.
+
+  2. New Tables
+    - print_jobs: one row per ticket to print, used both as the print queue
+      (status 'pending') and the print log. The print-proxy edge function
+      renders and sends queued jobs, retrying a failed job up to 3 times.
+
+  3. New Functions
+    - queue_kitchen_tickets(order, reprint, station): queues one job per
+      station for the order's items. Runs automatically when an order is
+      committed, so the ticket includes every item written with it.
+    - reprint_kitchen_ticket(order, station): lets staff print a ticket again
+*/
+
+ALTER TABLE restaurants
+  ADD COLUMN IF NOT EXISTS auto_print_tickets boolean NOT NULL DEFAULT false;
+
+ALTER TABLE kitchen_stations
+  ADD COLUMN IF NOT EXISTS printer_config_id uuid REFERENCES printer_configs(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS print_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  order_id uuid REFERENCES orders(id) ON DELETE CASCADE,
+  station_id uuid REFERENCES kitchen_stations(id) ON DELETE SET NULL,
+  printer_config_id uuid REFERENCES printer_configs(id) ON DELETE SET NULL,
+  job_type text NOT NULL DEFAULT 'kitchen_ticket' CHECK (job_type IN ('kitchen_ticket')),
+  item_ids uuid[] NOT NULL DEFAULT '{}',
+  is_reprint boolean NOT NULL DEFAULT false,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  error_message text,
+  attempts integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  sent_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_print_jobs_restaurant ON print_jobs(restaurant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_print_jobs_pending ON print_jobs(created_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_print_jobs_order ON print_jobs(order_id);
+
+-- =============================================
+-- QUEUEING
+-- =============================================
+
+CREATE OR REPLACE FUNCTION queue_kitchen_tickets(
+  p_order_id uuid,
+  p_reprint boolean DEFAULT false,
+  p_station_id uuid DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  v_restaurant_id uuid;
+  v_default_printer_id uuid;
+  v_queued integer;
+BEGIN
+  SELECT restaurant_id INTO v_restaurant_id
+  FROM orders
+  WHERE id = p_order_id;
+
+  IF v_restaurant_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  SELECT id INTO v_default_printer_id
+  FROM printer_configs
+  WHERE restaurant_id = v_restaurant_id
+    AND is_active = true
+    AND device_id IS NOT NULL
+    AND printer_id IS NOT NULL
+  ORDER BY is_default DESC, created_at
+  LIMIT 1;
+
+  INSERT INTO print_jobs (restaurant_id, order_id, station_id, printer_config_id, item_ids, is_reprint)
+  SELECT
+    v_restaurant_id,
+    p_order_id,
+    oi.station_id,
+    COALESCE(pc.id, v_default_printer_id),
+    array_agg(oi.id ORDER BY oi.created_at),
+    p_reprint
+  FROM order_items oi
+  LEFT JOIN kitchen_stations ks ON ks.id = oi.station_id
+  LEFT JOIN printer_configs pc ON pc.id = ks.printer_config_id AND pc.is_active = true
+  WHERE oi.order_id = p_order_id
+    AND (p_station_id IS NULL OR oi.station_id = p_station_id)
+    AND COALESCE(pc.id, v_default_printer_id) IS NOT NULL
+  GROUP BY oi.station_id, COALESCE(pc.id, v_default_printer_id);
+
+  GET DIAGNOSTICS v_queued = ROW_COUNT;
+  RETURN v_queued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION queue_kitchen_tickets(uuid, boolean, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION queue_order_kitchen_tickets()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM restaurants
+    WHERE id = NEW.restaurant_id
+      AND auto_print_tickets = true
+  ) THEN
+    PERFORM queue_kitchen_tickets(NEW.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Deferred to commit: submit_order writes the order before its items
+DROP TRIGGER IF EXISTS queue_order_kitchen_tickets ON orders;
+CREATE CONSTRAINT TRIGGER queue_order_kitchen_tickets
+  AFTER INSERT ON orders
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_order_kitchen_tickets();
+
+CREATE OR REPLACE FUNCTION reprint_kitchen_ticket(
+  p_order_id uuid,
+  p_station_id uuid DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  v_restaurant_id uuid;
+  v_queued integer;
+BEGIN
+  SELECT restaurant_id INTO v_restaurant_id
+  FROM orders
+  WHERE id = p_order_id;
+
+  IF v_restaurant_id IS NULL OR NOT user_can_access_restaurant(v_restaurant_id) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  v_queued := queue_kitchen_tickets(p_order_id, true, p_station_id);
+
+  IF v_queued = 0 THEN
+    RAISE EXCEPTION 'No printer is set up for this ticket';
+  END IF;
+
+  RETURN v_queued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION reprint_kitchen_ticket(uuid, uuid) TO authenticated;
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE print_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the queueing functions and the edge function; staff can
+-- read and retry
+CREATE POLICY "Restaurant staff can read print jobs"
+  ON print_jobs
+  FOR SELECT
+  TO authenticated
+  USING (user_can_access_restaurant(restaurant_id));
+
+CREATE POLICY "Restaurant staff can retry print jobs"
+  ON print_jobs
+  FOR UPDATE
+  TO authenticated
+  USING (user_can_access_restaurant(restaurant_id))
+  WITH CHECK (user_can_access_restaurant(restaurant_id));
+
+COMMENT ON COLUMN restaurants.auto_print_tickets IS 'Print kitchen tickets automatically when orders are placed';
+COMMENT ON COLUMN kitchen_stations.printer_config_id IS 'Printer for this station''s tickets; the default printer when null';
+COMMENT ON TABLE print_jobs IS 'Tickets to print: pending rows are the print queue, the rest the print log';
+COMMENT ON FUNCTION queue_kitchen_tickets(uuid, boolean, uuid) IS 'Queues one kitchen ticket per station for an order''s items';
+COMMENT ON FUNCTION reprint_kitchen_ticket(uuid, uuid) IS 'Queues a kitchen ticket to print again, for all stations when p_station_id is null';
@@ -0,0 +1,73 @@
+/*
+  # ESC/POS Printing and Order Receipts
+
+  Everything was sent to printers as HTML, which most 80mm thermal printers
+  print badly or not at all. Each printer now chooses how it's sent to:
+  ESC/POS commands for thermal printers, or HTML as before. Tickets and
+  receipts are laid out once and rendered to either.
+
+  1. Changes
+    - printer_configs.output_format: 'html' or 'escpos'
+    - printer_configs.paper_width_mm: 80 or 58, which sets the characters per line
+    - printer_configs.print_logo: print the logo stored in the printer's memory
+      at the top of receipts
+    - print_jobs.job_type: adds 'receipt'
+
+  2. New Functions
+    - queue_order_receipt(order): lets staff print an order's receipt at the
+      default printer
+*/
+
+ALTER TABLE printer_configs
+  ADD COLUMN IF NOT EXISTS output_format text NOT NULL DEFAULT 'html'
+    CHECK (output_format IN ('html', 'escpos')),
+  ADD COLUMN IF NOT EXISTS paper_width_mm integer NOT NULL DEFAULT 80
+    CHECK (paper_width_mm IN (58, 80)),
+  ADD COLUMN IF NOT EXISTS print_logo boolean NOT NULL DEFAULT false;
+
+ALTER TABLE print_jobs DROP CONSTRAINT IF EXISTS print_jobs_job_type_check;
+ALTER TABLE print_jobs
+  ADD CONSTRAINT print_jobs_job_type_check CHECK (job_type IN ('kitchen_ticket', 'receipt'));
+
+CREATE OR REPLACE FUNCTION queue_order_receipt(p_order_id uuid)
+RETURNS uuid AS $$
+DECLARE
+  v_restaurant_id uuid;
+  v_printer_id uuid;
+  v_job_id uuid;
+BEGIN
+  SELECT restaurant_id INTO v_restaurant_id
+  FROM orders
+  WHERE id = p_order_id;
+
+  IF v_restaurant_id IS NULL OR NOT user_can_access_restaurant(v_restaurant_id) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  SELECT id INTO v_printer_id
+  FROM printer_configs
+  WHERE restaurant_id = v_restaurant_id
+    AND is_active = true
+    AND device_id IS NOT NULL
+    AND printer_id IS NOT NULL
+  ORDER BY is_default DESC, created_at
+  LIMIT 1;
+
+  IF v_printer_id IS NULL THEN
+    RAISE EXCEPTION 'No printer is set up for receipts';
+  END IF;
+
+  INSERT INTO print_jobs (restaurant_id, order_id, printer_config_id, job_type)
+  VALUES (v_restaurant_id, p_order_id, v_printer_id, 'receipt')
+  RETURNING id INTO v_job_id;
+
+  RETURN v_job_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION queue_order_receipt(uuid) TO authenticated;
+
+COMMENT ON COLUMN printer_configs.output_format IS 'How jobs are sent: escpos for thermal printers, html otherwise';
+COMMENT ON COLUMN printer_configs.paper_width_mm IS 'Paper roll width, 80 or 58mm';
+COMMENT ON COLUMN printer_configs.print_logo IS 'Print the logo stored in the printer (NV graphics slot 1) on receipts';
+COMMENT ON FUNCTION queue_order_receipt(uuid) IS 'Queues an order''s receipt at the restaurant''s default printer';
@@ -0,0 +1,81 @@
+/*
+  # Print Job Queue with Retry, Failover and Audit
+
+  Test pages and table QR codes were sent to the printer in a single request,
+  and a failure was only shown as an error; a printer that was offline for a
+  few minutes lost kitchen tickets after three quick attempts. Every print now
+  goes through print_jobs and is retried with backoff, moving to a backup
+  printer when its own printer keeps failing. Only test prints of a printer
+  that hasn't been saved yet are still sent directly.
+
+  1. Job States
+    - queued: waiting to be sent (renamed from 'pending')
+    - sent: accepted by the print middleware
+    - printed: the print client reported the job as printed
+    - failed: gave up after every attempt, or the print client reported a
+      failure after the last attempt
+
+  2. Changes
+    - print_jobs.next_attempt_at: failed attempts are retried after 15s, 30s,
+      1m, 2m and so on
+    - print_jobs.failed_over_from: the printer the job was meant for when it
+      moved to a backup printer
+    - print_jobs.payload: template data for test pages and table QR codes
+    - print_jobs.job_type: adds 'test_page' and 'table_qr'
+    - printer_configs.backup_printer_config_id: where jobs go when this printer
+      fails twice in a row
+
+  3. New Tables
+    - print_job_attempts: every attempt, with the printer used and the error
+*/
+
+ALTER TABLE print_jobs DROP CONSTRAINT IF EXISTS print_jobs_status_check;
+UPDATE print_jobs SET status = 'queued' WHERE status = 'pending';
+ALTER TABLE print_jobs
+  ALTER COLUMN status SET DEFAULT 'queued',
+  ADD CONSTRAINT print_jobs_status_check CHECK (status IN ('queued', 'sent', 'printed', 'failed'));
+
+ALTER TABLE print_jobs DROP CONSTRAINT IF EXISTS print_jobs_job_type_check;
+ALTER TABLE print_jobs
+  ADD CONSTRAINT print_jobs_job_type_check CHECK (job_type IN ('kitchen_ticket', 'receipt', 'test_page', 'table_qr'));
+
+ALTER TABLE print_jobs
+  ADD COLUMN IF NOT EXISTS next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS failed_over_from uuid REFERENCES printer_configs(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS payload jsonb NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS printed_at timestamptz;
+
+DROP INDEX IF EXISTS idx_print_jobs_pending;
+CREATE INDEX IF NOT EXISTS idx_print_jobs_queued ON print_jobs(next_attempt_at) WHERE status = 'queued';
+
+ALTER TABLE printer_configs
+  ADD COLUMN IF NOT EXISTS backup_printer_config_id uuid REFERENCES printer_configs(id) ON DELETE SET NULL,
+  ADD CONSTRAINT printer_configs_backup_not_self CHECK (backup_printer_config_id IS DISTINCT FROM id);
+
+CREATE TABLE IF NOT EXISTS print_job_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid NOT NULL REFERENCES print_jobs(id) ON DELETE CASCADE,
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  printer_config_id uuid REFERENCES printer_configs(id) ON DELETE SET NULL,
+  attempt integer NOT NULL,
+  status text NOT NULL CHECK (status IN ('sent', 'printed', 'failed')),
+  error_message text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_print_job_attempts_job ON print_job_attempts(job_id, created_at);
+
+ALTER TABLE print_job_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Written by the print-proxy edge function only
+CREATE POLICY "Restaurant staff can read print job attempts"
+  ON print_job_attempts
+  FOR SELECT
+  TO authenticated
+  USING (user_can_access_restaurant(restaurant_id));
+
+COMMENT ON COLUMN print_jobs.status IS 'queued, sent (accepted by the middleware), printed (confirmed by the print client) or failed';
+COMMENT ON COLUMN print_jobs.next_attempt_at IS 'When a queued job is next due; pushed back after each failed attempt';
+COMMENT ON COLUMN print_jobs.failed_over_from IS 'Printer the job was meant for before it moved to that printer''s backup';
+COMMENT ON COLUMN printer_configs.backup_printer_config_id IS 'Printer that takes this printer''s jobs when it keeps failing';
+COMMENT ON TABLE print_job_attempts IS 'Every attempt to print a job, for the print history';
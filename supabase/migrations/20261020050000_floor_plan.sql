@@ -0,0 +1,67 @@
+/*
+  # Floor Plan
+
+  Tables were shown as a grid in table-number order, with where they stand
+  only described in location_notes. Each table can now be placed on a floor
+  plan: in a dining area (a room or zone such as the patio or the bar), at a
+  position, with a shape, size and rotation. The dashboard draws the live
+  floor from the same layout.
+
+  1. New Tables
+    - dining_areas: the rooms and zones of the restaurant, each drawn as its own
+      floor plan of the given width and height
+
+  2. Changes
+    - restaurant_tables.area_id: the area the table stands in
+    - restaurant_tables.pos_x, pos_y: top-left corner on the area's plan; tables
+      without a position aren't on the plan yet
+    - restaurant_tables.shape: square, round or rectangle
+    - restaurant_tables.width, height: size on the plan
+    - restaurant_tables.rotation: degrees clockwise
+
+  Plan units are pixels at 100% zoom.
+*/
+
+CREATE TABLE IF NOT EXISTS dining_areas (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  display_order integer NOT NULL DEFAULT 0,
+  width integer NOT NULL DEFAULT 900 CHECK (width BETWEEN 300 AND 3000),
+  height integer NOT NULL DEFAULT 600 CHECK (height BETWEEN 300 AND 3000),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (restaurant_id, name)
+);
+
+ALTER TABLE restaurant_tables
+  ADD COLUMN IF NOT EXISTS area_id uuid REFERENCES dining_areas(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS pos_x integer,
+  ADD COLUMN IF NOT EXISTS pos_y integer,
+  ADD COLUMN IF NOT EXISTS shape text NOT NULL DEFAULT 'square'
+    CHECK (shape IN ('square', 'round', 'rectangle')),
+  ADD COLUMN IF NOT EXISTS width integer NOT NULL DEFAULT 80 CHECK (width BETWEEN 40 AND 400),
+  ADD COLUMN IF NOT EXISTS height integer NOT NULL DEFAULT 80 CHECK (height BETWEEN 40 AND 400),
+  ADD COLUMN IF NOT EXISTS rotation integer NOT NULL DEFAULT 0 CHECK (rotation >= 0 AND rotation < 360);
+
+CREATE INDEX IF NOT EXISTS idx_restaurant_tables_area ON restaurant_tables(area_id);
+
+DROP TRIGGER IF EXISTS update_dining_areas_updated_at ON dining_areas;
+CREATE TRIGGER update_dining_areas_updated_at
+  BEFORE UPDATE ON dining_areas
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE dining_areas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant staff can manage dining areas"
+  ON dining_areas
+  FOR ALL
+  TO authenticated
+  USING (user_can_access_restaurant(restaurant_id))
+  WITH CHECK (user_can_access_restaurant(restaurant_id));
+
+COMMENT ON TABLE dining_areas IS 'Rooms and zones of the restaurant, each with its own floor plan';
+COMMENT ON COLUMN restaurant_tables.area_id IS 'Dining area the table stands in';
+COMMENT ON COLUMN restaurant_tables.pos_x IS 'Left edge on the area''s floor plan; NULL when the table hasn''t been placed';
+COMMENT ON COLUMN restaurant_tables.rotation IS 'Degrees clockwise on the floor plan';
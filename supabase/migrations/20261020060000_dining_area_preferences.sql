@@ -0,0 +1,345 @@
+/*
+  # Dining Area Preferences
+
+  Dining areas were only drawn on the floor plan. Staff can now close an area
+  (the patio when it rains, a room booked out for an event) so its tables stop
+  being offered, and guests can ask for an area when they book.
+
+  1. Changes
+    - dining_areas.is_open: closed areas are left out of availability and table
+      assignment; tables outside any area count as open
+    - dining_areas.description: short text shown to guests next to the area name
+    - bookings.seating_area_id: the area the guest asked for, if any
+
+  2. Functions
+    - get_seating_areas: the open areas guests can choose from
+    - get_seating_capacity: seats of every bookable table in an open area
+    - get_available_tables and get_available_table_combinations skip closed
+      areas, return the area of each option and list options in the preferred
+      area first
+    - get_time_slot_availability and get_day_availability no longer count
+      closed areas
+
+  A preference is a preference: when the area is full the guest is still given
+  a table elsewhere. Rescheduling and waitlist offers don't look at it yet.
+*/
+
+ALTER TABLE dining_areas
+  ADD COLUMN IF NOT EXISTS is_open boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS description text;
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS seating_area_id uuid REFERENCES dining_areas(id) ON DELETE SET NULL;
+
+-- =============================================
+-- SEATING AREAS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_seating_areas(p_restaurant_id uuid)
+RETURNS TABLE(
+  area_id uuid,
+  name text,
+  description text
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT da.id, da.name, da.description
+  FROM dining_areas da
+  WHERE da.restaurant_id = p_restaurant_id
+    AND da.is_open = true
+    -- Only areas with somewhere to sit
+    AND EXISTS (
+      SELECT 1 FROM restaurant_tables rt
+      WHERE rt.area_id = da.id
+        AND rt.status <> 'maintenance'
+    )
+  ORDER BY da.display_order, da.name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_seating_capacity(p_restaurant_id uuid)
+RETURNS integer AS $$
+BEGIN
+  RETURN (
+    SELECT COALESCE(SUM(rt.capacity), 0)::integer
+    FROM restaurant_tables rt
+    LEFT JOIN dining_areas da ON da.id = rt.area_id
+    WHERE rt.restaurant_id = p_restaurant_id
+      AND rt.status IN ('available', 'reserved', 'occupied')
+      AND COALESCE(da.is_open, true)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- =============================================
+-- TABLE ASSIGNMENT
+-- =============================================
+
+-- Signature and return type change, so the old versions have to go first
+DROP FUNCTION IF EXISTS get_available_tables(uuid, date, time, integer, integer);
+DROP FUNCTION IF EXISTS get_available_table_combinations(uuid, date, time, integer, integer);
+
+CREATE OR REPLACE FUNCTION get_available_tables(
+  p_restaurant_id uuid,
+  p_date date,
+  p_time time,
+  p_party_size integer,
+  p_duration_minutes integer DEFAULT NULL,
+  p_area_id uuid DEFAULT NULL
+)
+RETURNS TABLE(
+  table_id uuid,
+  table_number text,
+  capacity integer,
+  area_id uuid,
+  area_name text
+) AS $$
+DECLARE
+  v_start timestamp := p_date + p_time;
+  v_end timestamp := p_date + p_time
+    + make_interval(mins => COALESCE(p_duration_minutes, get_default_dining_duration(p_party_size)));
+BEGIN
+  -- No tables on closed days or outside opening hours
+  IF NOT is_restaurant_open(p_restaurant_id, p_date, p_time) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    rt.id as table_id,
+    rt.table_number,
+    rt.capacity,
+    rt.area_id,
+    da.name as area_name
+  FROM restaurant_tables rt
+  LEFT JOIN dining_areas da ON da.id = rt.area_id
+  WHERE rt.restaurant_id = p_restaurant_id
+    AND rt.capacity >= p_party_size
+    AND rt.status = 'available'
+    AND COALESCE(da.is_open, true)
+    AND rt.id NOT IN (
+      -- Exclude tables held by any booking overlapping the requested sitting
+      SELECT held.table_id FROM get_held_table_ids(p_restaurant_id, v_start, v_end) held
+    )
+  ORDER BY
+    -- Tables in the preferred area first, then the best fit anywhere
+    CASE WHEN rt.area_id = p_area_id THEN 0 ELSE 1 END,
+    rt.capacity ASC,
+    rt.table_number ASC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_available_table_combinations(
+  p_restaurant_id uuid,
+  p_date date,
+  p_time time,
+  p_party_size integer,
+  p_duration_minutes integer DEFAULT NULL,
+  p_area_id uuid DEFAULT NULL
+)
+RETURNS TABLE(
+  combination_id uuid,
+  combination_name text,
+  table_ids uuid[],
+  table_numbers text[],
+  capacity integer,
+  area_id uuid
+) AS $$
+DECLARE
+  v_start timestamp := p_date + p_time;
+  v_end timestamp := p_date + p_time
+    + make_interval(mins => COALESCE(p_duration_minutes, get_default_dining_duration(p_party_size)));
+BEGIN
+  IF NOT is_restaurant_open(p_restaurant_id, p_date, p_time) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH held AS (
+    SELECT h.table_id FROM get_held_table_ids(p_restaurant_id, v_start, v_end) h
+  ),
+  options AS (
+    SELECT
+      tc.id,
+      tc.name,
+      array_agg(rt.id ORDER BY rt.table_number) AS member_ids,
+      array_agg(rt.table_number ORDER BY rt.table_number) AS member_numbers,
+      SUM(rt.capacity)::integer AS seats,
+      COUNT(*) AS member_count,
+      -- The combination's area when every member stands in the same one
+      CASE
+        WHEN bool_and(rt.area_id IS NOT NULL) AND COUNT(DISTINCT rt.area_id) = 1
+        THEN (array_agg(rt.area_id))[1]
+      END AS shared_area_id
+    FROM table_combinations tc
+    JOIN table_combination_members m ON m.combination_id = tc.id
+    JOIN restaurant_tables rt ON rt.id = m.table_id
+    LEFT JOIN dining_areas da ON da.id = rt.area_id
+    LEFT JOIN held ON held.table_id = rt.id
+    WHERE tc.restaurant_id = p_restaurant_id
+      AND tc.is_active = true
+    GROUP BY tc.id, tc.name
+    HAVING SUM(rt.capacity) >= p_party_size
+      -- Every member must be free for the whole sitting, in an open area
+      AND bool_and(rt.status = 'available' AND held.table_id IS NULL AND COALESCE(da.is_open, true))
+  )
+  SELECT
+    options.id,
+    options.name,
+    options.member_ids,
+    options.member_numbers,
+    options.seats,
+    options.shared_area_id
+  FROM options
+  ORDER BY
+    CASE WHEN options.shared_area_id = p_area_id THEN 0 ELSE 1 END,
+    options.seats ASC,
+    options.member_count ASC,
+    options.name ASC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================
+-- AVAILABILITY
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_time_slot_availability(
+  p_restaurant_id uuid,
+  p_date date,
+  p_time time
+)
+RETURNS TABLE(
+  total_capacity integer,
+  booked_capacity integer,
+  available_capacity integer,
+  waiting_count integer
+) AS $$
+DECLARE
+  v_slot timestamp := p_date + p_time;
+  v_total_capacity integer := get_seating_capacity(p_restaurant_id);
+  v_booked_capacity integer := 0;
+  v_waiting_count integer := 0;
+BEGIN
+  -- Get capacity of every booking still dining during this slot
+  SELECT COALESCE(SUM(b.party_size), 0)
+  INTO v_booked_capacity
+  FROM bookings b
+  WHERE b.restaurant_id = p_restaurant_id
+    AND b.booking_date BETWEEN p_date - 1 AND p_date
+    AND b.status IN ('confirmed', 'seated', 'pending')
+    AND b.booking_date + b.booking_time <= v_slot
+    AND v_slot < b.booking_date + b.booking_time + make_interval(mins => b.expected_duration_minutes);
+
+  -- Get waiting list count for this time slot
+  SELECT COUNT(*)
+  INTO v_waiting_count
+  FROM waiting_list w
+  WHERE w.restaurant_id = p_restaurant_id
+    AND w.requested_date = p_date
+    AND w.requested_time = p_time
+    AND w.status = 'waiting';
+
+  RETURN QUERY
+  SELECT
+    v_total_capacity,
+    v_booked_capacity,
+    GREATEST(0, v_total_capacity - v_booked_capacity) as available_capacity,
+    v_waiting_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_day_availability(
+  p_restaurant_id uuid,
+  p_start_date date,
+  p_end_date date DEFAULT NULL
+)
+RETURNS TABLE(
+  slot_date date,
+  slot_time time,
+  period_name text,
+  total_capacity integer,
+  booked_capacity integer,
+  available_capacity integer,
+  waiting_count integer
+) AS $$
+DECLARE
+  v_end_date date := COALESCE(p_end_date, p_start_date);
+  v_total_capacity integer := 0;
+BEGIN
+  IF v_end_date < p_start_date THEN
+    RAISE EXCEPTION 'End date must be on or after start date';
+  END IF;
+
+  IF v_end_date - p_start_date > 31 THEN
+    RAISE EXCEPTION 'Date range cannot exceed 31 days';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM restaurants r WHERE r.id = p_restaurant_id) THEN
+    RETURN;
+  END IF;
+
+  -- Same capacity rule as get_time_slot_availability
+  v_total_capacity := get_seating_capacity(p_restaurant_id);
+
+  RETURN QUERY
+  WITH days AS (
+    SELECT d::date AS day
+    FROM generate_series(p_start_date, v_end_date, interval '1 day') d
+  ),
+  slots AS (
+    SELECT days.day, s::time AS start_time, s AS starts_at, sp.period_name AS service_name
+    FROM days
+    CROSS JOIN LATERAL get_service_periods(p_restaurant_id, days.day) sp
+    CROSS JOIN LATERAL generate_series(
+      days.day + sp.opening_time,
+      days.day + COALESCE(sp.last_seating_time, sp.closing_time),
+      make_interval(mins => sp.slot_minutes)
+    ) s
+    WHERE s < days.day + sp.closing_time
+      AND (sp.last_seating_time IS NULL OR s <= days.day + sp.last_seating_time)
+  ),
+  booked AS (
+    -- Every booking still at the table when the slot starts
+    SELECT slots.starts_at, SUM(b.party_size)::integer AS party_total
+    FROM slots
+    JOIN bookings b
+      ON b.restaurant_id = p_restaurant_id
+     AND b.booking_date BETWEEN p_start_date - 1 AND v_end_date
+     AND b.status IN ('confirmed', 'seated', 'pending')
+     AND b.booking_date + b.booking_time <= slots.starts_at
+     AND slots.starts_at < b.booking_date + b.booking_time + make_interval(mins => b.expected_duration_minutes)
+    GROUP BY slots.starts_at
+  ),
+  waiting AS (
+    SELECT w.requested_date, w.requested_time, COUNT(*)::integer AS waiting_total
+    FROM waiting_list w
+    WHERE w.restaurant_id = p_restaurant_id
+      AND w.requested_date BETWEEN p_start_date AND v_end_date
+      AND w.status = 'waiting'
+    GROUP BY w.requested_date, w.requested_time
+  )
+  SELECT DISTINCT ON (slots.day, slots.start_time)
+    slots.day,
+    slots.start_time,
+    slots.service_name,
+    v_total_capacity,
+    COALESCE(booked.party_total, 0),
+    GREATEST(0, v_total_capacity - COALESCE(booked.party_total, 0)),
+    COALESCE(waiting.waiting_total, 0)
+  FROM slots
+  LEFT JOIN booked
+    ON booked.starts_at = slots.starts_at
+  LEFT JOIN waiting
+    ON waiting.requested_date = slots.day AND waiting.requested_time = slots.start_time
+  ORDER BY slots.day, slots.start_time;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_seating_areas(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_available_tables(uuid, date, time, integer, integer, uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_available_table_combinations(uuid, date, time, integer, integer, uuid) TO anon, authenticated;
+
+COMMENT ON COLUMN dining_areas.is_open IS 'Closed areas are left out of availability and table assignment';
+COMMENT ON COLUMN bookings.seating_area_id IS 'Dining area the guest asked to sit in';
+COMMENT ON FUNCTION get_seating_areas(uuid) IS 'Open dining areas guests can ask to sit in';
+COMMENT ON FUNCTION get_available_tables(uuid, date, time, integer, integer, uuid) IS 'Free tables in open areas for a sitting, preferred area first';
@@ -0,0 +1,494 @@
+/*
+  # Staff Roles and Permissions
+
+  Anyone who owned the restaurant or had it set on their user profile could do
+  everything: change settings, edit the menu, see analytics. Each member of the
+  team now has a role, and the role decides what they can do, in the dashboard,
+  in the edge functions and in the row-level policies below.
+
+  1. Roles
+    - owner: everything, including billing; the restaurant's owner_id is always
+      the owner
+    - manager: everything but billing; can't add or remove other managers
+    - host: bookings, waiting list and tables
+    - server: tables, orders and the kitchen display
+    - kitchen: the kitchen display
+
+  2. Permissions
+    - bookings, tables, orders, kitchen, printing, menu, settings, analytics,
+      loyalty, staff, billing. role_has_permission is the matrix; the
+      dashboard keeps a copy in src/lib/staff.ts.
+
+  3. Changes
+    - user_profiles.role is limited to the roles above. Existing profiles
+      without one of them become managers, so nobody loses access they had.
+    - Signed-in users can no longer set their own role or restaurant, except
+      as the owner of a restaurant they created
+
+  4. New Tables
+    - staff_invitations: email invitations to join a restaurant's team with a
+      role, accepted from the emailed link
+
+  5. Row-Level Security
+    Restrictive policies on top of the existing staff policies: members of the
+    restaurant need the permission to change settings, the menu, bookings and
+    orders. Guests and other restaurants are unaffected. Analytics and loyalty
+    read data staff already see for bookings, so they are limited in the
+    dashboard only.
+*/
+
+UPDATE user_profiles p
+SET role = 'owner'
+FROM restaurants r
+WHERE r.id = p.restaurant_id
+  AND r.owner_id = p.id;
+
+UPDATE user_profiles
+SET role = 'manager'
+WHERE role IS NULL OR role NOT IN ('owner', 'manager', 'host', 'server', 'kitchen');
+
+ALTER TABLE user_profiles DROP CONSTRAINT IF EXISTS user_profiles_role_check;
+ALTER TABLE user_profiles
+  ADD CONSTRAINT user_profiles_role_check CHECK (role IN ('owner', 'manager', 'host', 'server', 'kitchen'));
+
+CREATE TABLE IF NOT EXISTS staff_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  role text NOT NULL CHECK (role IN ('manager', 'host', 'server', 'kitchen')),
+  token uuid NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '7 days',
+  accepted_at timestamptz,
+  accepted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- One open invitation per person; inviting again replaces it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_staff_invitations_open
+  ON staff_invitations(restaurant_id, lower(email)) WHERE accepted_at IS NULL;
+
+-- =============================================
+-- PERMISSIONS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION role_has_permission(p_role text, p_permission text)
+RETURNS boolean AS $$
+BEGIN
+  RETURN p_permission = ANY(CASE p_role
+    WHEN 'owner' THEN ARRAY['bookings', 'tables', 'orders', 'kitchen', 'printing', 'menu', 'settings', 'analytics', 'loyalty', 'staff', 'billing']
+    WHEN 'manager' THEN ARRAY['bookings', 'tables', 'orders', 'kitchen', 'printing', 'menu', 'settings', 'analytics', 'loyalty', 'staff']
+    WHEN 'host' THEN ARRAY['bookings', 'tables', 'printing']
+    WHEN 'server' THEN ARRAY['tables', 'orders', 'kitchen', 'printing']
+    WHEN 'kitchen' THEN ARRAY['kitchen', 'printing']
+    ELSE ARRAY[]::text[]
+  END);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- The user's role at the restaurant, or NULL when they aren't on its team
+CREATE OR REPLACE FUNCTION staff_role(p_user_id uuid, p_restaurant_id uuid)
+RETURNS text AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM restaurants r WHERE r.id = p_restaurant_id AND r.owner_id = p_user_id) THEN
+    RETURN 'owner';
+  END IF;
+
+  RETURN (
+    SELECT p.role
+    FROM user_profiles p
+    WHERE p.id = p_user_id
+      AND p.restaurant_id = p_restaurant_id
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION staff_has_permission(p_user_id uuid, p_restaurant_id uuid, p_permission text)
+RETURNS boolean AS $$
+BEGIN
+  RETURN COALESCE(role_has_permission(staff_role(p_user_id, p_restaurant_id), p_permission), false);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION user_has_permission(p_restaurant_id uuid, p_permission text)
+RETURNS boolean AS $$
+BEGIN
+  RETURN staff_has_permission(auth.uid(), p_restaurant_id, p_permission);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_my_staff_role(p_restaurant_id uuid)
+RETURNS text AS $$
+BEGIN
+  RETURN staff_role(auth.uid(), p_restaurant_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Managers look after the team below them; only owners add or remove managers
+CREATE OR REPLACE FUNCTION staff_can_assign_role(p_user_id uuid, p_restaurant_id uuid, p_role text)
+RETURNS boolean AS $$
+BEGIN
+  RETURN p_role IN ('manager', 'host', 'server', 'kitchen')
+    AND staff_has_permission(p_user_id, p_restaurant_id, 'staff')
+    AND (p_role <> 'manager' OR staff_role(p_user_id, p_restaurant_id) = 'owner');
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- =============================================
+-- TEAM
+-- =============================================
+
+-- People may keep editing their own profile, but joining a team or changing
+-- role only happens through the functions below, or by owning the restaurant
+CREATE OR REPLACE FUNCTION guard_user_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.role IS NOT DISTINCT FROM OLD.role
+    AND NEW.restaurant_id IS NOT DISTINCT FROM OLD.restaurant_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.restaurant_id IS NOT NULL AND NOT (
+    NEW.role = 'owner'
+    AND EXISTS (SELECT 1 FROM restaurants r WHERE r.id = NEW.restaurant_id AND r.owner_id = NEW.id)
+  ) THEN
+    RAISE EXCEPTION 'Roles are given by the restaurant''s owner or managers';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_user_profile_role ON user_profiles;
+CREATE TRIGGER guard_user_profile_role
+  BEFORE INSERT OR UPDATE ON user_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_user_profile_role();
+
+CREATE OR REPLACE FUNCTION get_restaurant_staff(p_restaurant_id uuid)
+RETURNS TABLE(
+  user_id uuid,
+  email text,
+  role text
+) AS $$
+BEGIN
+  IF NOT user_has_permission(p_restaurant_id, 'staff') THEN
+    RAISE EXCEPTION 'You do not have permission to manage staff';
+  END IF;
+
+  RETURN QUERY
+  SELECT u.id, u.email::text, staff_role(u.id, p_restaurant_id)
+  FROM auth.users u
+  WHERE u.id IN (
+    SELECT p.id FROM user_profiles p WHERE p.restaurant_id = p_restaurant_id
+    UNION
+    SELECT r.owner_id FROM restaurants r WHERE r.id = p_restaurant_id
+  )
+  ORDER BY
+    array_position(ARRAY['owner', 'manager', 'host', 'server', 'kitchen'], staff_role(u.id, p_restaurant_id)),
+    u.email;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION set_staff_role(p_restaurant_id uuid, p_user_id uuid, p_role text)
+RETURNS void AS $$
+DECLARE
+  v_current text := staff_role(p_user_id, p_restaurant_id);
+BEGIN
+  IF v_current IS NULL THEN
+    RAISE EXCEPTION 'This person is not on the team';
+  END IF;
+
+  IF v_current = 'owner' THEN
+    RAISE EXCEPTION 'The owner''s role can''t be changed';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t change your own role';
+  END IF;
+
+  IF NOT staff_can_assign_role(auth.uid(), p_restaurant_id, v_current)
+    OR NOT staff_can_assign_role(auth.uid(), p_restaurant_id, p_role) THEN
+    RAISE EXCEPTION 'You do not have permission to make this change';
+  END IF;
+
+  UPDATE user_profiles
+  SET role = p_role
+  WHERE id = p_user_id
+    AND restaurant_id = p_restaurant_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION remove_staff_member(p_restaurant_id uuid, p_user_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_current text := staff_role(p_user_id, p_restaurant_id);
+BEGIN
+  IF v_current IS NULL THEN
+    RAISE EXCEPTION 'This person is not on the team';
+  END IF;
+
+  IF v_current = 'owner' THEN
+    RAISE EXCEPTION 'The owner can''t be removed';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t remove yourself';
+  END IF;
+
+  IF NOT staff_can_assign_role(auth.uid(), p_restaurant_id, v_current) THEN
+    RAISE EXCEPTION 'You do not have permission to make this change';
+  END IF;
+
+  -- The profile stays; it just no longer points at the restaurant
+  UPDATE user_profiles
+  SET restaurant_id = NULL
+  WHERE id = p_user_id
+    AND restaurant_id = p_restaurant_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================
+-- INVITATIONS
+-- =============================================
+
+-- What the invite page shows before the person signs in
+CREATE OR REPLACE FUNCTION get_staff_invitation(p_token uuid)
+RETURNS TABLE(
+  restaurant_name text,
+  email text,
+  role text,
+  expires_at timestamptz,
+  accepted_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT r.name, i.email, i.role, i.expires_at, i.accepted_at
+  FROM staff_invitations i
+  JOIN restaurants r ON r.id = i.restaurant_id
+  WHERE i.token = p_token;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION accept_staff_invitation(p_token uuid)
+RETURNS uuid AS $$
+DECLARE
+  v_invitation staff_invitations%ROWTYPE;
+  v_email text;
+  v_profile_restaurant_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to accept the invitation';
+  END IF;
+
+  SELECT * INTO v_invitation
+  FROM staff_invitations
+  WHERE token = p_token
+  FOR UPDATE;
+
+  IF v_invitation.id IS NULL THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  IF v_invitation.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invitation has already been used';
+  END IF;
+
+  IF v_invitation.expires_at < now() THEN
+    RAISE EXCEPTION 'This invitation has expired. Ask for a new one.';
+  END IF;
+
+  SELECT u.email INTO v_email FROM auth.users u WHERE u.id = auth.uid();
+  IF lower(v_email) IS DISTINCT FROM lower(v_invitation.email) THEN
+    RAISE EXCEPTION 'This invitation was sent to %. Sign in with that email address to accept it.', v_invitation.email;
+  END IF;
+
+  -- A profile points at a single restaurant
+  SELECT p.restaurant_id INTO v_profile_restaurant_id FROM user_profiles p WHERE p.id = auth.uid();
+  IF (v_profile_restaurant_id IS NOT NULL AND v_profile_restaurant_id <> v_invitation.restaurant_id)
+    OR EXISTS (SELECT 1 FROM restaurants r WHERE r.owner_id = auth.uid() AND r.id <> v_invitation.restaurant_id) THEN
+    RAISE EXCEPTION 'This account already belongs to another restaurant''s team';
+  END IF;
+
+  INSERT INTO user_profiles (id, restaurant_id, role)
+  VALUES (auth.uid(), v_invitation.restaurant_id, v_invitation.role)
+  ON CONFLICT (id) DO UPDATE
+  SET restaurant_id = EXCLUDED.restaurant_id,
+      role = EXCLUDED.role;
+
+  UPDATE staff_invitations
+  SET accepted_at = now(),
+      accepted_by = auth.uid()
+  WHERE id = v_invitation.id;
+
+  RETURN v_invitation.restaurant_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER TABLE staff_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Created by the staff-invite edge function, which sends the email
+CREATE POLICY "Restaurant staff can read staff invitations"
+  ON staff_invitations
+  FOR SELECT
+  TO authenticated
+  USING (user_has_permission(restaurant_id, 'staff'));
+
+CREATE POLICY "Restaurant staff can revoke staff invitations"
+  ON staff_invitations
+  FOR DELETE
+  TO authenticated
+  USING (user_has_permission(restaurant_id, 'staff') AND accepted_at IS NULL);
+
+-- =============================================
+-- ROW LEVEL SECURITY BY ROLE
+-- =============================================
+
+-- Members of the restaurant need the permission to change these tables. The
+-- policies are restrictive, so they narrow the existing staff policies instead
+-- of adding to them; people outside the team fall through to those policies.
+DO $$
+DECLARE
+  v_rule record;
+  v_command text;
+BEGIN
+  FOR v_rule IN
+    SELECT * FROM (VALUES
+      ('restaurant_operating_hours', 'settings'),
+      ('restaurant_service_periods', 'settings'),
+      ('restaurant_special_dates', 'settings'),
+      ('dining_areas', 'settings'),
+      ('table_combinations', 'settings'),
+      ('printer_configs', 'settings'),
+      ('kitchen_stations', 'settings'),
+      ('notification_templates', 'settings'),
+      ('menu_categories', 'menu'),
+      ('menu_items', 'menu'),
+      ('menu_schedules', 'menu'),
+      ('menu_modifier_groups', 'menu'),
+      ('inventory_ingredients', 'menu'),
+      ('waiting_list', 'bookings')
+    ) AS rules(table_name, permission)
+  LOOP
+    FOREACH v_command IN ARRAY ARRAY['INSERT', 'UPDATE', 'DELETE'] LOOP
+      EXECUTE format(
+        'CREATE POLICY %I ON %I AS RESTRICTIVE FOR %s TO authenticated %s',
+        format('Staff need the %s permission to %s', v_rule.permission, lower(v_command)),
+        v_rule.table_name,
+        v_command,
+        CASE v_command
+          WHEN 'INSERT' THEN format(
+            'WITH CHECK (NOT user_can_access_restaurant(restaurant_id) OR user_has_permission(restaurant_id, %L))',
+            v_rule.permission)
+          ELSE format(
+            'USING (NOT user_can_access_restaurant(restaurant_id) OR user_has_permission(restaurant_id, %L))',
+            v_rule.permission)
+        END
+      );
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+CREATE POLICY "Staff need the settings permission to update"
+  ON restaurants
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (NOT user_can_access_restaurant(id) OR user_has_permission(id, 'settings'));
+
+-- Adding and removing tables is setup; changing their status is service
+CREATE POLICY "Staff need the settings permission to insert"
+  ON restaurant_tables
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT user_can_access_restaurant(restaurant_id) OR user_has_permission(restaurant_id, 'settings'));
+
+CREATE POLICY "Staff need the settings permission to delete"
+  ON restaurant_tables
+  AS RESTRICTIVE
+  FOR DELETE
+  TO authenticated
+  USING (NOT user_can_access_restaurant(restaurant_id) OR user_has_permission(restaurant_id, 'settings'));
+
+CREATE POLICY "Staff need the tables permission to update"
+  ON restaurant_tables
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (NOT user_can_access_restaurant(restaurant_id) OR user_has_permission(restaurant_id, 'tables'));
+
+-- Servers seat walk-ins, which are bookings too
+CREATE POLICY "Staff need the bookings or tables permission to insert"
+  ON bookings
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    NOT user_can_access_restaurant(restaurant_id)
+    OR user_has_permission(restaurant_id, 'bookings')
+    OR user_has_permission(restaurant_id, 'tables')
+  );
+
+CREATE POLICY "Staff need the bookings or tables permission to update"
+  ON bookings
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (
+    NOT user_can_access_restaurant(restaurant_id)
+    OR user_has_permission(restaurant_id, 'bookings')
+    OR user_has_permission(restaurant_id, 'tables')
+  );
+
+CREATE POLICY "Staff need the bookings permission to delete"
+  ON bookings
+  AS RESTRICTIVE
+  FOR DELETE
+  TO authenticated
+  USING (NOT user_can_access_restaurant(restaurant_id) OR user_has_permission(restaurant_id, 'bookings'));
+
+-- The kitchen moves orders along as it cooks them
+CREATE POLICY "Staff need the orders or kitchen permission to update"
+  ON orders
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (
+    NOT user_can_access_restaurant(restaurant_id)
+    OR user_has_permission(restaurant_id, 'orders')
+    OR user_has_permission(restaurant_id, 'kitchen')
+  );
+
+CREATE POLICY "Staff need the orders permission to delete"
+  ON orders
+  AS RESTRICTIVE
+  FOR DELETE
+  TO authenticated
+  USING (NOT user_can_access_restaurant(restaurant_id) OR user_has_permission(restaurant_id, 'orders'));
+
+GRANT EXECUTE ON FUNCTION get_staff_invitation(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_my_staff_role(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_restaurant_staff(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_staff_role(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_staff_member(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_staff_invitation(uuid) TO authenticated;
+
+-- Take any user id, so only the edge functions may call them
+REVOKE EXECUTE ON FUNCTION staff_has_permission(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION staff_can_assign_role(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION staff_role(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION staff_has_permission(uuid, uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION staff_can_assign_role(uuid, uuid, text) TO service_role;
+
+COMMENT ON COLUMN user_profiles.role IS 'owner, manager, host, server or kitchen; decides what the person can do at the restaurant';
+COMMENT ON TABLE staff_invitations IS 'Email invitations to join a restaurant''s team with a role';
+COMMENT ON FUNCTION role_has_permission(text, text) IS 'The permission matrix: whether a staff role grants a permission';
+COMMENT ON FUNCTION user_has_permission(uuid, text) IS 'Whether the signed-in user''s role at the restaurant grants the permission';
+COMMENT ON FUNCTION accept_staff_invitation(uuid) IS 'Joins the signed-in user to the invitation''s restaurant with its role';
@@ -0,0 +1,614 @@
+/*
+  # Restaurant Groups
+
+  An owner with several outlets could only run one of them from their login.
+  Outlets owned by the same account can now be put in a group that shares a
+  menu, a loyalty programme and a combined analytics view.
+
+  1. New Tables
+    - restaurant_groups: a set of outlets with one owner
+      - menu_restaurant_id: the outlet whose menu the group shares (NULL = each
+        outlet keeps its own menu)
+      - menu_published_at: when the shared menu was last copied to the outlets
+      - shared_loyalty: members' spending counts at every outlet in the group
+
+  2. Changes
+    - restaurants.group_id: the group the outlet belongs to. Only the owner can
+      move an outlet in or out, and only into their own groups.
+    - menu_categories.shared_category_id, menu_items.shared_item_id,
+      menu_modifier_groups.shared_group_id, menu_modifier_options.shared_option_id:
+      the group menu row an outlet's copy was made from
+    - menu_items.overridden_fields: fields the outlet changed on its copy
+      (name, description, price_sgd, image_url, allergens, dietary_info,
+      category_id). Publishing leaves them alone until the outlet resets the
+      item.
+
+  3. Shared Menu
+    - sync_group_menu(p_group_id) copies the source outlet's categories, items
+      and modifiers to every other outlet, adding what's new and updating what
+      isn't overridden. Availability, stock, stations and schedules stay with
+      each outlet.
+    - Removing a row from the group menu removes the outlets' copies.
+    - An outlet that leaves the group, or a change of source outlet, keeps the
+      copies as the outlets' own items.
+
+  4. Loyalty
+    - check_loyalty_discount and update_loyalty_spending add up a member's
+      spending across the group when shared_loyalty is on. Members still get a
+      loyalty_users row per outlet they've ordered at.
+    - get_loyalty_members(p_restaurant_id) lists members with their combined
+      spending, for the loyalty dashboard.
+
+  5. Analytics
+    - get_group_outlet_summary(p_group_id, p_start_date, p_end_date): bookings,
+      covers, no-shows, waiting list and order revenue per outlet, for the
+      group's owner
+*/
+
+CREATE TABLE IF NOT EXISTS restaurant_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  menu_restaurant_id uuid REFERENCES restaurants(id) ON DELETE SET NULL,
+  menu_published_at timestamptz,
+  shared_loyalty boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE restaurants
+  ADD COLUMN IF NOT EXISTS group_id uuid REFERENCES restaurant_groups(id) ON DELETE SET NULL;
+
+ALTER TABLE menu_categories
+  ADD COLUMN IF NOT EXISTS shared_category_id uuid REFERENCES menu_categories(id) ON DELETE CASCADE;
+
+ALTER TABLE menu_items
+  ADD COLUMN IF NOT EXISTS shared_item_id uuid REFERENCES menu_items(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS overridden_fields text[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE menu_modifier_groups
+  ADD COLUMN IF NOT EXISTS shared_group_id uuid REFERENCES menu_modifier_groups(id) ON DELETE CASCADE;
+
+ALTER TABLE menu_modifier_options
+  ADD COLUMN IF NOT EXISTS shared_option_id uuid REFERENCES menu_modifier_options(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_restaurant_groups_owner ON restaurant_groups(owner_id);
+CREATE INDEX IF NOT EXISTS idx_restaurants_group ON restaurants(group_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_menu_categories_shared
+  ON menu_categories(restaurant_id, shared_category_id) WHERE shared_category_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_menu_items_shared
+  ON menu_items(restaurant_id, shared_item_id) WHERE shared_item_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_menu_modifier_groups_shared
+  ON menu_modifier_groups(menu_item_id, shared_group_id) WHERE shared_group_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_menu_modifier_options_shared
+  ON menu_modifier_options(group_id, shared_option_id) WHERE shared_option_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_restaurant_groups_updated_at ON restaurant_groups;
+CREATE TRIGGER update_restaurant_groups_updated_at
+  BEFORE UPDATE ON restaurant_groups
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- GROUP MEMBERSHIP
+-- =============================================
+
+-- Managers can edit an outlet's settings, but only the owner moves it between
+-- groups, and only into groups they own
+CREATE OR REPLACE FUNCTION check_restaurant_group()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.group_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.group_id IS NOT DISTINCT FROM OLD.group_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF current_user IN ('anon', 'authenticated') AND auth.uid() IS DISTINCT FROM NEW.owner_id THEN
+    RAISE EXCEPTION 'Only the owner can change which group an outlet belongs to';
+  END IF;
+
+  IF NEW.group_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM restaurant_groups g WHERE g.id = NEW.group_id AND g.owner_id = NEW.owner_id
+  ) THEN
+    RAISE EXCEPTION 'Outlets can only join groups with the same owner';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_restaurant_group ON restaurants;
+CREATE TRIGGER check_restaurant_group
+  BEFORE INSERT OR UPDATE OF group_id ON restaurants
+  FOR EACH ROW
+  EXECUTE FUNCTION check_restaurant_group();
+
+-- Turns an outlet's copies of the group menu into its own items
+CREATE OR REPLACE FUNCTION detach_group_menu(p_restaurant_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE menu_categories SET shared_category_id = NULL
+  WHERE restaurant_id = p_restaurant_id AND shared_category_id IS NOT NULL;
+
+  UPDATE menu_items SET shared_item_id = NULL, overridden_fields = '{}'
+  WHERE restaurant_id = p_restaurant_id AND shared_item_id IS NOT NULL;
+
+  UPDATE menu_modifier_groups SET shared_group_id = NULL
+  WHERE restaurant_id = p_restaurant_id AND shared_group_id IS NOT NULL;
+
+  UPDATE menu_modifier_options o SET shared_option_id = NULL
+  FROM menu_modifier_groups mg
+  WHERE mg.id = o.group_id
+    AND mg.restaurant_id = p_restaurant_id
+    AND o.shared_option_id IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- An outlet leaving the group keeps its menu, and stops being the source of
+-- the group's menu
+CREATE OR REPLACE FUNCTION restaurant_left_group()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.group_id IS NULL OR NEW.group_id IS NOT DISTINCT FROM OLD.group_id THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM detach_group_menu(NEW.id);
+
+  UPDATE restaurant_groups
+  SET menu_restaurant_id = NULL
+  WHERE id = OLD.group_id AND menu_restaurant_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS restaurant_left_group ON restaurants;
+CREATE TRIGGER restaurant_left_group
+  AFTER UPDATE OF group_id ON restaurants
+  FOR EACH ROW
+  EXECUTE FUNCTION restaurant_left_group();
+
+CREATE OR REPLACE FUNCTION check_group_menu_source()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_outlet uuid;
+BEGIN
+  IF NEW.menu_restaurant_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM restaurants r WHERE r.id = NEW.menu_restaurant_id AND r.group_id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'The shared menu has to come from an outlet in the group';
+  END IF;
+
+  -- Copies of the old source's menu stay with the outlets as their own items
+  IF TG_OP = 'UPDATE' AND NEW.menu_restaurant_id IS DISTINCT FROM OLD.menu_restaurant_id THEN
+    FOR v_outlet IN SELECT r.id FROM restaurants r WHERE r.group_id = NEW.id LOOP
+      PERFORM detach_group_menu(v_outlet);
+    END LOOP;
+    NEW.menu_published_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_group_menu_source ON restaurant_groups;
+CREATE TRIGGER check_group_menu_source
+  BEFORE INSERT OR UPDATE OF menu_restaurant_id ON restaurant_groups
+  FOR EACH ROW
+  EXECUTE FUNCTION check_group_menu_source();
+
+-- =============================================
+-- SHARED MENU
+-- =============================================
+
+-- Edits an outlet makes to its copy of a group menu item are remembered, so
+-- publishing doesn't undo them
+CREATE OR REPLACE FUNCTION track_menu_item_overrides()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.shared_item_id IS NULL OR current_setting('app.syncing_group_menu', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.overridden_fields := ARRAY(
+    SELECT DISTINCT f
+    FROM unnest(NEW.overridden_fields || ARRAY[
+      CASE WHEN NEW.name IS DISTINCT FROM OLD.name THEN 'name' END,
+      CASE WHEN NEW.description IS DISTINCT FROM OLD.description THEN 'description' END,
+      CASE WHEN NEW.price_sgd IS DISTINCT FROM OLD.price_sgd THEN 'price_sgd' END,
+      CASE WHEN NEW.image_url IS DISTINCT FROM OLD.image_url THEN 'image_url' END,
+      CASE WHEN NEW.allergens IS DISTINCT FROM OLD.allergens THEN 'allergens' END,
+      CASE WHEN NEW.dietary_info IS DISTINCT FROM OLD.dietary_info THEN 'dietary_info' END,
+      CASE WHEN NEW.category_id IS DISTINCT FROM OLD.category_id THEN 'category_id' END
+    ]) f
+    WHERE f IS NOT NULL
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS track_menu_item_overrides ON menu_items;
+CREATE TRIGGER track_menu_item_overrides
+  BEFORE UPDATE ON menu_items
+  FOR EACH ROW
+  EXECUTE FUNCTION track_menu_item_overrides();
+
+CREATE OR REPLACE FUNCTION sync_group_menu(p_group_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_group restaurant_groups%ROWTYPE;
+  v_outlet uuid;
+  v_count integer := 0;
+BEGIN
+  SELECT * INTO v_group FROM restaurant_groups g WHERE g.id = p_group_id;
+
+  IF NOT FOUND OR v_group.owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the group''s owner can publish its menu';
+  END IF;
+
+  IF v_group.menu_restaurant_id IS NULL THEN
+    RAISE EXCEPTION 'Choose which outlet''s menu the group shares first';
+  END IF;
+
+  -- Lets track_menu_item_overrides tell publishing apart from an outlet's edits
+  PERFORM set_config('app.syncing_group_menu', 'on', true);
+
+  FOR v_outlet IN
+    SELECT r.id FROM restaurants r
+    WHERE r.group_id = p_group_id AND r.id <> v_group.menu_restaurant_id
+  LOOP
+    UPDATE menu_categories c
+    SET name = s.name,
+        description = s.description,
+        display_order = s.display_order
+    FROM menu_categories s
+    WHERE c.restaurant_id = v_outlet
+      AND c.shared_category_id = s.id;
+
+    INSERT INTO menu_categories (restaurant_id, name, description, display_order, is_active, shared_category_id)
+    SELECT v_outlet, s.name, s.description, s.display_order, s.is_active, s.id
+    FROM menu_categories s
+    WHERE s.restaurant_id = v_group.menu_restaurant_id
+      AND NOT EXISTS (
+        SELECT 1 FROM menu_categories c
+        WHERE c.restaurant_id = v_outlet AND c.shared_category_id = s.id
+      );
+
+    UPDATE menu_items i
+    SET name = CASE WHEN 'name' = ANY(i.overridden_fields) THEN i.name ELSE s.name END,
+        description = CASE WHEN 'description' = ANY(i.overridden_fields) THEN i.description ELSE s.description END,
+        price_sgd = CASE WHEN 'price_sgd' = ANY(i.overridden_fields) THEN i.price_sgd ELSE s.price_sgd END,
+        image_url = CASE WHEN 'image_url' = ANY(i.overridden_fields) THEN i.image_url ELSE s.image_url END,
+        allergens = CASE WHEN 'allergens' = ANY(i.overridden_fields) THEN i.allergens ELSE s.allergens END,
+        dietary_info = CASE WHEN 'dietary_info' = ANY(i.overridden_fields) THEN i.dietary_info ELSE s.dietary_info END,
+        category_id = CASE WHEN 'category_id' = ANY(i.overridden_fields) THEN i.category_id ELSE c.id END,
+        display_order = s.display_order
+    FROM menu_items s
+    JOIN menu_categories c ON c.shared_category_id = s.category_id AND c.restaurant_id = v_outlet
+    WHERE i.restaurant_id = v_outlet
+      AND i.shared_item_id = s.id;
+
+    INSERT INTO menu_items (
+      restaurant_id, category_id, name, description, price_sgd, image_url,
+      is_available, display_order, allergens, dietary_info, shared_item_id
+    )
+    SELECT v_outlet, c.id, s.name, s.description, s.price_sgd, s.image_url,
+      s.is_available, s.display_order, s.allergens, s.dietary_info, s.id
+    FROM menu_items s
+    JOIN menu_categories c ON c.shared_category_id = s.category_id AND c.restaurant_id = v_outlet
+    WHERE s.restaurant_id = v_group.menu_restaurant_id
+      AND NOT EXISTS (
+        SELECT 1 FROM menu_items i
+        WHERE i.restaurant_id = v_outlet AND i.shared_item_id = s.id
+      );
+
+    -- Modifiers follow the group menu; only option availability is the outlet's
+    UPDATE menu_modifier_groups mg
+    SET name = s.name,
+        min_selections = s.min_selections,
+        max_selections = s.max_selections,
+        display_order = s.display_order
+    FROM menu_modifier_groups s
+    WHERE mg.restaurant_id = v_outlet
+      AND mg.shared_group_id = s.id;
+
+    INSERT INTO menu_modifier_groups (restaurant_id, menu_item_id, name, min_selections, max_selections, display_order, shared_group_id)
+    SELECT v_outlet, i.id, s.name, s.min_selections, s.max_selections, s.display_order, s.id
+    FROM menu_modifier_groups s
+    JOIN menu_items i ON i.shared_item_id = s.menu_item_id AND i.restaurant_id = v_outlet
+    WHERE NOT EXISTS (
+      SELECT 1 FROM menu_modifier_groups mg
+      WHERE mg.menu_item_id = i.id AND mg.shared_group_id = s.id
+    );
+
+    UPDATE menu_modifier_options o
+    SET name = s.name,
+        price_delta_sgd = s.price_delta_sgd,
+        display_order = s.display_order
+    FROM menu_modifier_options s, menu_modifier_groups mg
+    WHERE mg.id = o.group_id
+      AND mg.restaurant_id = v_outlet
+      AND o.shared_option_id = s.id;
+
+    INSERT INTO menu_modifier_options (group_id, name, price_delta_sgd, is_available, display_order, shared_option_id)
+    SELECT mg.id, s.name, s.price_delta_sgd, s.is_available, s.display_order, s.id
+    FROM menu_modifier_options s
+    JOIN menu_modifier_groups mg ON mg.shared_group_id = s.group_id AND mg.restaurant_id = v_outlet
+    WHERE NOT EXISTS (
+      SELECT 1 FROM menu_modifier_options o
+      WHERE o.group_id = mg.id AND o.shared_option_id = s.id
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  UPDATE restaurant_groups SET menu_published_at = now() WHERE id = p_group_id;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Puts an outlet's copy of a group menu item back to the group's version
+CREATE OR REPLACE FUNCTION reset_menu_item_overrides(p_item_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_item menu_items%ROWTYPE;
+BEGIN
+  SELECT * INTO v_item FROM menu_items i WHERE i.id = p_item_id;
+
+  IF NOT FOUND OR v_item.shared_item_id IS NULL THEN
+    RAISE EXCEPTION 'This item isn''t from the group menu';
+  END IF;
+
+  IF NOT user_has_permission(v_item.restaurant_id, 'menu') THEN
+    RAISE EXCEPTION 'You do not have permission to edit the menu';
+  END IF;
+
+  PERFORM set_config('app.syncing_group_menu', 'on', true);
+
+  UPDATE menu_items i
+  SET name = s.name,
+      description = s.description,
+      price_sgd = s.price_sgd,
+      image_url = s.image_url,
+      allergens = s.allergens,
+      dietary_info = s.dietary_info,
+      category_id = COALESCE(c.id, i.category_id),
+      overridden_fields = '{}'
+  FROM menu_items s
+  LEFT JOIN menu_categories c ON c.shared_category_id = s.category_id AND c.restaurant_id = v_item.restaurant_id
+  WHERE i.id = p_item_id
+    AND s.id = v_item.shared_item_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================
+-- GROUP LOYALTY
+-- =============================================
+
+-- The outlets whose loyalty spending counts towards a member's status here
+CREATE OR REPLACE FUNCTION loyalty_restaurant_ids(p_restaurant_id uuid)
+RETURNS uuid[] AS $$
+BEGIN
+  RETURN COALESCE((
+    SELECT array_agg(r.id)
+    FROM restaurants me
+    JOIN restaurant_groups g ON g.id = me.group_id AND g.shared_loyalty
+    JOIN restaurants r ON r.group_id = g.id
+    WHERE me.id = p_restaurant_id
+  ), ARRAY[p_restaurant_id]);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION check_loyalty_discount(
+  p_restaurant_id uuid,
+  p_loyalty_user_ids text[]
+)
+RETURNS TABLE(
+  discount_eligible boolean,
+  discount_amount decimal,
+  triggering_user_id text
+) AS $$
+DECLARE
+  v_restaurant_ids uuid[] := loyalty_restaurant_ids(p_restaurant_id);
+  v_user_id text;
+BEGIN
+  FOREACH v_user_id IN ARRAY COALESCE(p_loyalty_user_ids, '{}') LOOP
+    IF (
+      SELECT COALESCE(sum(lu.total_spent_sgd), 0)
+      FROM loyalty_users lu
+      WHERE lu.restaurant_id = ANY(v_restaurant_ids)
+        AND lu.user_id = v_user_id
+    ) >= 100 THEN
+      -- 10% off for the first eligible member
+      RETURN QUERY SELECT true, 0.10::decimal, v_user_id;
+      RETURN;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY SELECT false, 0.00::decimal, NULL::text;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION update_loyalty_spending(
+  p_restaurant_id uuid,
+  p_user_id text,
+  p_amount decimal
+)
+RETURNS void AS $$
+DECLARE
+  v_restaurant_ids uuid[] := loyalty_restaurant_ids(p_restaurant_id);
+  v_total decimal;
+BEGIN
+  INSERT INTO loyalty_users (restaurant_id, user_id, total_spent_sgd, order_count, last_order_date)
+  VALUES (p_restaurant_id, p_user_id, p_amount, 1, CURRENT_TIMESTAMP)
+  ON CONFLICT (restaurant_id, user_id)
+  DO UPDATE SET
+    total_spent_sgd = loyalty_users.total_spent_sgd + p_amount,
+    order_count = loyalty_users.order_count + 1,
+    last_order_date = CURRENT_TIMESTAMP,
+    updated_at = CURRENT_TIMESTAMP;
+
+  SELECT COALESCE(sum(lu.total_spent_sgd), 0) INTO v_total
+  FROM loyalty_users lu
+  WHERE lu.restaurant_id = ANY(v_restaurant_ids)
+    AND lu.user_id = p_user_id;
+
+  UPDATE loyalty_users
+  SET discount_eligible = v_total >= 100
+  WHERE restaurant_id = ANY(v_restaurant_ids)
+    AND user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_loyalty_members(p_restaurant_id uuid)
+RETURNS TABLE(
+  user_id text,
+  name text,
+  email text,
+  phone text,
+  total_spent_sgd numeric,
+  order_count bigint,
+  last_order_date timestamptz,
+  discount_eligible boolean,
+  outlet_count bigint
+) AS $$
+BEGIN
+  IF NOT user_has_permission(p_restaurant_id, 'loyalty') THEN
+    RAISE EXCEPTION 'You do not have permission to view loyalty members';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    lu.user_id,
+    max(lu.name),
+    max(lu.email),
+    max(lu.phone),
+    sum(lu.total_spent_sgd)::numeric,
+    sum(lu.order_count)::bigint,
+    max(lu.last_order_date),
+    bool_or(lu.discount_eligible),
+    count(*)
+  FROM loyalty_users lu
+  WHERE lu.restaurant_id = ANY(loyalty_restaurant_ids(p_restaurant_id))
+  GROUP BY lu.user_id
+  ORDER BY sum(lu.total_spent_sgd) DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- =============================================
+-- GROUP ANALYTICS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_group_outlet_summary(
+  p_group_id uuid,
+  p_start_date date,
+  p_end_date date
+)
+RETURNS TABLE(
+  restaurant_id uuid,
+  restaurant_name text,
+  total_bookings bigint,
+  total_covers bigint,
+  no_shows bigint,
+  waitlist_entries bigint,
+  total_orders bigint,
+  total_revenue numeric,
+  avg_order_value numeric,
+  total_discounts numeric
+) AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM restaurant_groups g WHERE g.id = p_group_id AND g.owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the group''s owner can see analytics across its outlets';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.name,
+    COALESCE(b.total_bookings, 0),
+    COALESCE(b.total_covers, 0),
+    COALESCE(b.no_shows, 0),
+    COALESCE(w.waitlist_entries, 0),
+    COALESCE(o.total_orders, 0),
+    COALESCE(o.total_revenue, 0),
+    CASE WHEN COALESCE(o.total_orders, 0) > 0 THEN round(o.total_revenue / o.total_orders, 2) ELSE 0 END,
+    COALESCE(o.total_discounts, 0)
+  FROM restaurants r
+  LEFT JOIN LATERAL (
+    SELECT
+      count(*) FILTER (WHERE bk.status <> 'cancelled') AS total_bookings,
+      COALESCE(sum(bk.party_size) FILTER (WHERE bk.status IN ('seated', 'completed')), 0) AS total_covers,
+      count(*) FILTER (WHERE bk.status = 'no_show') AS no_shows
+    FROM bookings bk
+    WHERE bk.restaurant_id = r.id
+      AND bk.booking_date BETWEEN p_start_date AND p_end_date
+  ) b ON true
+  LEFT JOIN LATERAL (
+    SELECT count(*) AS waitlist_entries
+    FROM waiting_list wl
+    WHERE wl.restaurant_id = r.id
+      AND wl.requested_date BETWEEN p_start_date AND p_end_date
+  ) w ON true
+  LEFT JOIN LATERAL (
+    SELECT
+      count(*) AS total_orders,
+      sum(od.total_sgd) AS total_revenue,
+      sum(od.discount_sgd) AS total_discounts
+    FROM orders od
+    WHERE od.restaurant_id = r.id
+      AND od.created_at::date BETWEEN p_start_date AND p_end_date
+  ) o ON true
+  WHERE r.group_id = p_group_id
+  ORDER BY r.name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE restaurant_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage their restaurant groups"
+  ON restaurant_groups
+  FOR ALL
+  TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Restaurant staff can read their group"
+  ON restaurant_groups
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM restaurants r
+      WHERE r.group_id = restaurant_groups.id
+        AND user_can_access_restaurant(r.id)
+    )
+  );
+
+GRANT EXECUTE ON FUNCTION sync_group_menu(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION reset_menu_item_overrides(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_loyalty_members(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_group_outlet_summary(uuid, date, date) TO authenticated;
+
+-- Internal to the triggers and loyalty functions
+REVOKE EXECUTE ON FUNCTION detach_group_menu(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION loyalty_restaurant_ids(uuid) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE restaurant_groups IS 'Outlets with one owner that share a menu, loyalty programme and analytics';
+COMMENT ON COLUMN restaurants.group_id IS 'The restaurant group this outlet belongs to, if any';
+COMMENT ON COLUMN menu_items.overridden_fields IS 'Fields this outlet changed on its copy of a group menu item; publishing keeps them';
+COMMENT ON FUNCTION sync_group_menu(uuid) IS 'Copies the group''s shared menu to every other outlet in the group';
+COMMENT ON FUNCTION check_loyalty_discount(uuid, text[]) IS 'Checks loyalty user eligibility, counting spending across the restaurant''s group, and returns the discount rate';
+COMMENT ON FUNCTION get_group_outlet_summary(uuid, date, date) IS 'Bookings, covers and revenue per outlet of a restaurant group';
@@ -0,0 +1,507 @@
+/*
+  # Loyalty Settings and Discount Codes
+
+  The loyalty dashboard let staff edit the discount threshold and rate and
+  draft discount codes, but nothing was saved and check_loyalty_discount always
+  used S$100 and 10%. Both are now stored per restaurant and applied when an
+  order is placed.
+
+  1. New Tables
+    - loyalty_settings: one row per restaurant
+      - discount_threshold: spending a member needs before they get the
+        loyalty discount (default S$100)
+      - discount_percentage: the loyalty discount (default 10%)
+      - points_per_dollar, welcome_bonus, birthday_bonus, referral_bonus: kept
+        for the points programme, not used at order time yet
+    - discount_codes: promotional codes a diner can enter in their cart
+      - discount_type 'percentage' (discount_value is a %) or 'fixed' (S$ off)
+      - min_order_amount: the subtotal the order needs
+      - max_uses: how many orders can use the code (NULL = unlimited);
+        current_uses counts them
+      - valid_from / valid_until: the dates the code works on, inclusive
+        (NULL = open-ended)
+
+  2. Changes
+    - orders.discount_code_id, orders.discount_code and orders.code_discount_sgd
+      record the code an order used. discount_sgd stays the order's total
+      discount, loyalty plus code.
+    - check_loyalty_discount and update_loyalty_spending use the restaurant's
+      threshold and rate. Restaurants without settings keep S$100 and 10%.
+    - submit_order takes p_discount_code. It validates the code against the
+      subtotal, applies it on top of any loyalty discount and counts the use in
+      the same transaction, so a code can't go past max_uses.
+
+  3. New Functions
+    - check_discount_code(p_token, p_code): lets the ordering page show a code's
+      discount before the order is placed
+
+  4. Security
+    - Staff need the loyalty permission to change settings and codes
+    - Diners only see a code through check_discount_code, with a session token
+*/
+
+CREATE TABLE IF NOT EXISTS loyalty_settings (
+  restaurant_id uuid PRIMARY KEY REFERENCES restaurants(id) ON DELETE CASCADE,
+  discount_threshold numeric(10,2) NOT NULL DEFAULT 100 CHECK (discount_threshold >= 0),
+  discount_percentage numeric(5,2) NOT NULL DEFAULT 10 CHECK (discount_percentage BETWEEN 0 AND 100),
+  points_per_dollar integer NOT NULL DEFAULT 1 CHECK (points_per_dollar >= 0),
+  welcome_bonus integer NOT NULL DEFAULT 0 CHECK (welcome_bonus >= 0),
+  birthday_bonus integer NOT NULL DEFAULT 0 CHECK (birthday_bonus >= 0),
+  referral_bonus integer NOT NULL DEFAULT 0 CHECK (referral_bonus >= 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS discount_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  code text NOT NULL CHECK (code ~ '^[A-Z0-9_-]{3,32}$'),
+  description text,
+  discount_type text NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value numeric(10,2) NOT NULL CHECK (discount_value > 0),
+  min_order_amount numeric(10,2) NOT NULL DEFAULT 0 CHECK (min_order_amount >= 0),
+  max_uses integer CHECK (max_uses > 0),
+  current_uses integer NOT NULL DEFAULT 0,
+  valid_from date,
+  valid_until date,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (discount_type <> 'percentage' OR discount_value <= 100),
+  CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until >= valid_from)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_discount_codes_restaurant_code
+  ON discount_codes(restaurant_id, code);
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS discount_code_id uuid REFERENCES discount_codes(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS discount_code text,
+  ADD COLUMN IF NOT EXISTS code_discount_sgd numeric(10,2) NOT NULL DEFAULT 0;
+
+DROP TRIGGER IF EXISTS update_loyalty_settings_updated_at ON loyalty_settings;
+CREATE TRIGGER update_loyalty_settings_updated_at
+  BEFORE UPDATE ON loyalty_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_discount_codes_updated_at ON discount_codes;
+CREATE TRIGGER update_discount_codes_updated_at
+  BEFORE UPDATE ON discount_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- LOYALTY DISCOUNT
+-- =============================================
+
+-- Spending still counts across a group that shares loyalty; the threshold and
+-- rate are the outlet's the order is placed at
+CREATE OR REPLACE FUNCTION check_loyalty_discount(
+  p_restaurant_id uuid,
+  p_loyalty_user_ids text[]
+)
+RETURNS TABLE(
+  discount_eligible boolean,
+  discount_amount decimal,
+  triggering_user_id text
+) AS $$
+DECLARE
+  v_restaurant_ids uuid[] := loyalty_restaurant_ids(p_restaurant_id);
+  v_threshold numeric := 100;
+  v_percentage numeric := 10;
+  v_user_id text;
+BEGIN
+  SELECT s.discount_threshold, s.discount_percentage
+  INTO v_threshold, v_percentage
+  FROM loyalty_settings s
+  WHERE s.restaurant_id = p_restaurant_id;
+
+  v_threshold := COALESCE(v_threshold, 100);
+  v_percentage := COALESCE(v_percentage, 10);
+
+  IF v_percentage > 0 THEN
+    FOREACH v_user_id IN ARRAY COALESCE(p_loyalty_user_ids, '{}') LOOP
+      IF (
+        SELECT COALESCE(sum(lu.total_spent_sgd), 0)
+        FROM loyalty_users lu
+        WHERE lu.restaurant_id = ANY(v_restaurant_ids)
+          AND lu.user_id = v_user_id
+      ) >= v_threshold THEN
+        -- The discount goes to the first eligible member
+        RETURN QUERY SELECT true, (v_percentage / 100)::decimal, v_user_id;
+        RETURN;
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN QUERY SELECT false, 0.00::decimal, NULL::text;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION update_loyalty_spending(
+  p_restaurant_id uuid,
+  p_user_id text,
+  p_amount decimal
+)
+RETURNS void AS $$
+DECLARE
+  v_restaurant_ids uuid[] := loyalty_restaurant_ids(p_restaurant_id);
+  v_threshold numeric;
+  v_total decimal;
+BEGIN
+  SELECT s.discount_threshold INTO v_threshold
+  FROM loyalty_settings s
+  WHERE s.restaurant_id = p_restaurant_id;
+
+  INSERT INTO loyalty_users (restaurant_id, user_id, total_spent_sgd, order_count, last_order_date)
+  VALUES (p_restaurant_id, p_user_id, p_amount, 1, CURRENT_TIMESTAMP)
+  ON CONFLICT (restaurant_id, user_id)
+  DO UPDATE SET
+    total_spent_sgd = loyalty_users.total_spent_sgd + p_amount,
+    order_count = loyalty_users.order_count + 1,
+    last_order_date = CURRENT_TIMESTAMP,
+    updated_at = CURRENT_TIMESTAMP;
+
+  SELECT COALESCE(sum(lu.total_spent_sgd), 0) INTO v_total
+  FROM loyalty_users lu
+  WHERE lu.restaurant_id = ANY(v_restaurant_ids)
+    AND lu.user_id = p_user_id;
+
+  UPDATE loyalty_users
+  SET discount_eligible = v_total >= COALESCE(v_threshold, 100)
+  WHERE restaurant_id = ANY(v_restaurant_ids)
+    AND user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================
+-- DISCOUNT CODES
+-- =============================================
+
+-- The restaurant's code if it can be used today; the order minimum is checked
+-- against the subtotal by the caller
+CREATE OR REPLACE FUNCTION find_discount_code(p_restaurant_id uuid, p_code text)
+RETURNS discount_codes AS $$
+DECLARE
+  v_code discount_codes%ROWTYPE;
+  v_entered text := upper(btrim(p_code));
+BEGIN
+  SELECT * INTO v_code
+  FROM discount_codes
+  WHERE restaurant_id = p_restaurant_id
+    AND code = v_entered
+    AND is_active;
+
+  IF v_code.id IS NULL THEN
+    RAISE EXCEPTION 'The code % isn''t valid here', v_entered;
+  END IF;
+
+  IF v_code.valid_from IS NOT NULL AND CURRENT_DATE < v_code.valid_from THEN
+    RAISE EXCEPTION 'The code % can be used from %', v_code.code, to_char(v_code.valid_from, 'FMDD Mon YYYY');
+  END IF;
+
+  IF v_code.valid_until IS NOT NULL AND CURRENT_DATE > v_code.valid_until THEN
+    RAISE EXCEPTION 'The code % has expired', v_code.code;
+  END IF;
+
+  IF v_code.max_uses IS NOT NULL AND v_code.current_uses >= v_code.max_uses THEN
+    RAISE EXCEPTION 'The code % has been fully redeemed', v_code.code;
+  END IF;
+
+  RETURN v_code;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION check_discount_code(p_token text, p_code text)
+RETURNS TABLE(
+  code text,
+  description text,
+  discount_type text,
+  discount_value numeric,
+  min_order_amount numeric
+) AS $$
+DECLARE
+  v_restaurant_id uuid;
+  v_code discount_codes%ROWTYPE;
+BEGIN
+  SELECT s.restaurant_id INTO v_restaurant_id
+  FROM order_sessions s
+  WHERE s.session_token = p_token
+    AND s.is_active = true;
+
+  IF v_restaurant_id IS NULL THEN
+    RAISE EXCEPTION 'This table session has ended. Please scan the QR code again.';
+  END IF;
+
+  v_code := find_discount_code(v_restaurant_id, p_code);
+
+  RETURN QUERY SELECT v_code.code, v_code.description, v_code.discount_type, v_code.discount_value, v_code.min_order_amount;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- =============================================
+-- ORDERING
+-- =============================================
+
+DROP FUNCTION IF EXISTS submit_order(text, jsonb, text[]);
+
+CREATE OR REPLACE FUNCTION submit_order(
+  p_token text,
+  p_items jsonb,
+  p_loyalty_user_ids text[] DEFAULT NULL,
+  p_discount_code text DEFAULT NULL
+)
+RETURNS TABLE(
+  order_id uuid,
+  order_number text,
+  subtotal_sgd numeric,
+  discount_sgd numeric,
+  total_sgd numeric
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_session order_sessions%ROWTYPE;
+  v_order_id uuid;
+  v_order_number text;
+  v_line jsonb;
+  v_item menu_items%ROWTYPE;
+  v_quantity integer;
+  v_option_ids uuid[];
+  v_group_name text;
+  v_modifiers jsonb;
+  v_price_delta numeric;
+  v_unit_price numeric;
+  v_instructions text;
+  v_subtotal numeric := 0;
+  v_discount numeric := 0;
+  v_code discount_codes%ROWTYPE;
+  v_code_discount numeric := 0;
+  v_total numeric;
+  v_loyalty_ids text[] := NULLIF(COALESCE(p_loyalty_user_ids, '{}'), '{}');
+  v_discount_eligible boolean := false;
+  v_triggering_user_id text;
+BEGIN
+  SELECT * INTO v_session
+  FROM order_sessions
+  WHERE session_token = p_token
+    AND is_active = true;
+
+  IF v_session.id IS NULL THEN
+    RAISE EXCEPTION 'This table session has ended. Please scan the QR code again.';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  v_order_number := generate_order_number();
+
+  INSERT INTO orders (restaurant_id, session_id, order_number, loyalty_user_ids, status)
+  VALUES (v_session.restaurant_id, v_session.id, v_order_number, v_loyalty_ids, 'pending')
+  RETURNING id INTO v_order_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    SELECT * INTO v_item
+    FROM menu_items
+    WHERE id = (v_line->>'menu_item_id')::uuid
+      AND restaurant_id = v_session.restaurant_id;
+
+    IF v_item.id IS NULL THEN
+      RAISE EXCEPTION 'An item in your cart is no longer on the menu';
+    END IF;
+
+    IF NOT is_menu_item_orderable(v_item.id) THEN
+      RAISE EXCEPTION '% is not available right now', v_item.name;
+    END IF;
+
+    v_quantity := (v_line->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 99 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_item.name;
+    END IF;
+
+    v_option_ids := ARRAY(
+      SELECT DISTINCT option_id::uuid
+      FROM jsonb_array_elements_text(COALESCE(v_line->'option_ids', '[]')) AS option_id
+    );
+
+    IF EXISTS (
+      SELECT 1
+      FROM unnest(v_option_ids) AS picked(option_id)
+      WHERE NOT EXISTS (
+        SELECT 1
+        FROM menu_modifier_options o
+        JOIN menu_modifier_groups g ON g.id = o.group_id
+        WHERE o.id = picked.option_id
+          AND g.menu_item_id = v_item.id
+          AND o.is_available
+      )
+    ) THEN
+      RAISE EXCEPTION 'An option chosen for % is no longer available', v_item.name;
+    END IF;
+
+    SELECT g.name INTO v_group_name
+    FROM menu_modifier_groups g
+    CROSS JOIN LATERAL (
+      SELECT count(*) AS picked
+      FROM menu_modifier_options o
+      WHERE o.group_id = g.id
+        AND o.id = ANY(v_option_ids)
+    ) c
+    WHERE g.menu_item_id = v_item.id
+      AND (c.picked < g.min_selections OR (g.max_selections IS NOT NULL AND c.picked > g.max_selections))
+    ORDER BY g.display_order
+    LIMIT 1;
+
+    IF v_group_name IS NOT NULL THEN
+      RAISE EXCEPTION 'Please check your "%" choice for %', v_group_name, v_item.name;
+    END IF;
+
+    -- Same shape as SelectedModifier on the client
+    SELECT
+      COALESCE(jsonb_agg(jsonb_build_object(
+        'group_id', g.id,
+        'group_name', g.name,
+        'option_id', o.id,
+        'name', o.name,
+        'price_delta_sgd', o.price_delta_sgd
+      ) ORDER BY g.display_order, o.display_order), '[]'::jsonb),
+      COALESCE(sum(o.price_delta_sgd), 0)
+    INTO v_modifiers, v_price_delta
+    FROM menu_modifier_options o
+    JOIN menu_modifier_groups g ON g.id = o.group_id
+    WHERE o.id = ANY(v_option_ids);
+
+    v_unit_price := GREATEST(v_item.price_sgd + v_price_delta, 0);
+    v_instructions := NULLIF(left(btrim(v_line->>'special_instructions'), 500), '');
+
+    INSERT INTO order_items (
+      order_id,
+      menu_item_id,
+      quantity,
+      unit_price_sgd,
+      total_price_sgd,
+      special_instructions,
+      modifiers
+    )
+    VALUES (
+      v_order_id,
+      v_item.id,
+      v_quantity,
+      v_unit_price,
+      v_unit_price * v_quantity,
+      v_instructions,
+      v_modifiers
+    );
+
+    v_subtotal := v_subtotal + v_unit_price * v_quantity;
+  END LOOP;
+
+  IF v_loyalty_ids IS NOT NULL THEN
+    SELECT ld.discount_eligible, ld.triggering_user_id, round(v_subtotal * ld.discount_amount, 2)
+    INTO v_discount_eligible, v_triggering_user_id, v_discount
+    FROM check_loyalty_discount(v_session.restaurant_id, v_loyalty_ids) ld;
+
+    IF NOT COALESCE(v_discount_eligible, false) THEN
+      v_discount_eligible := false;
+      v_triggering_user_id := NULL;
+      v_discount := 0;
+    END IF;
+  END IF;
+
+  IF NULLIF(btrim(p_discount_code), '') IS NOT NULL THEN
+    v_code := find_discount_code(v_session.restaurant_id, p_discount_code);
+
+    IF v_subtotal < v_code.min_order_amount THEN
+      RAISE EXCEPTION 'Spend at least S$% to use the code %', to_char(v_code.min_order_amount, 'FM999990.00'), v_code.code;
+    END IF;
+
+    -- Codes come off the subtotal, on top of the loyalty discount
+    v_code_discount := CASE v_code.discount_type
+      WHEN 'percentage' THEN round(v_subtotal * v_code.discount_value / 100, 2)
+      ELSE v_code.discount_value
+    END;
+    v_code_discount := LEAST(v_code_discount, v_subtotal - v_discount);
+
+    -- Checked again here so two orders can't both take a code's last use
+    UPDATE discount_codes dc
+    SET current_uses = dc.current_uses + 1
+    WHERE dc.id = v_code.id
+      AND (dc.max_uses IS NULL OR dc.current_uses < dc.max_uses);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The code % has been fully redeemed', v_code.code;
+    END IF;
+
+    v_discount := v_discount + v_code_discount;
+  END IF;
+
+  v_total := v_subtotal - v_discount;
+
+  UPDATE orders o
+  SET subtotal_sgd = v_subtotal,
+      discount_sgd = v_discount,
+      total_sgd = v_total,
+      discount_applied = v_discount_eligible,
+      triggering_user_id = v_triggering_user_id,
+      discount_code_id = v_code.id,
+      discount_code = v_code.code,
+      code_discount_sgd = v_code_discount
+  WHERE o.id = v_order_id;
+
+  -- Same as the ordering page did before: spending is recorded against the
+  -- loyalty member whose status earned the discount
+  IF v_discount_eligible THEN
+    PERFORM update_loyalty_spending(v_session.restaurant_id, v_triggering_user_id, v_total);
+  END IF;
+
+  RETURN QUERY SELECT v_order_id, v_order_number, v_subtotal, v_discount, v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================
+-- ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE loyalty_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE discount_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant staff can read loyalty settings"
+  ON loyalty_settings
+  FOR SELECT
+  TO authenticated
+  USING (user_can_access_restaurant(restaurant_id));
+
+CREATE POLICY "Restaurant staff can manage loyalty settings"
+  ON loyalty_settings
+  FOR ALL
+  TO authenticated
+  USING (user_has_permission(restaurant_id, 'loyalty'))
+  WITH CHECK (user_has_permission(restaurant_id, 'loyalty'));
+
+CREATE POLICY "Restaurant staff can read discount codes"
+  ON discount_codes
+  FOR SELECT
+  TO authenticated
+  USING (user_can_access_restaurant(restaurant_id));
+
+CREATE POLICY "Restaurant staff can manage discount codes"
+  ON discount_codes
+  FOR ALL
+  TO authenticated
+  USING (user_has_permission(restaurant_id, 'loyalty'))
+  WITH CHECK (user_has_permission(restaurant_id, 'loyalty'));
+
+GRANT EXECUTE ON FUNCTION submit_order(text, jsonb, text[], text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_discount_code(text, text) TO anon, authenticated;
+
+-- Only used by submit_order and check_discount_code
+REVOKE EXECUTE ON FUNCTION find_discount_code(uuid, text) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE loyalty_settings IS 'Per-restaurant loyalty discount threshold and rate, plus points programme settings';
+COMMENT ON TABLE discount_codes IS 'Promotional codes diners can redeem when ordering';
+COMMENT ON COLUMN orders.code_discount_sgd IS 'The part of discount_sgd that came from discount_code';
+COMMENT ON FUNCTION check_loyalty_discount(uuid, text[]) IS 'Checks loyalty user eligibility against the restaurant''s loyalty settings, counting spending across its group, and returns the discount rate';
+COMMENT ON FUNCTION check_discount_code(text, text) IS 'Looks up a discount code a diner entered, raising a readable error if it can''t be used';
+COMMENT ON FUNCTION submit_order(text, jsonb, text[], text) IS 'Prices, validates and writes a diner''s order from their table session token';
@@ -0,0 +1,65 @@
+/*
+  # Server-Side Check for Longer Sittings
+
+  Extending a sitting was only checked against the next booking in the
+  dashboard, which missed sittings crossing midnight and didn't stop two people
+  from lengthening bookings into each other. The database now refuses a longer
+  sitting that runs into another booking or an open waiting list offer on any
+  of the tables it holds.
+
+  1. New Functions
+    - check_booking_duration_conflict() trigger: when expected_duration_minutes
+      goes up on a pending, confirmed or seated booking, looks for tables held
+      by someone else between the old and new end of the sitting, using
+      get_held_table_ids
+*/
+
+CREATE OR REPLACE FUNCTION check_booking_duration_conflict()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_table_ids uuid[];
+  v_start timestamp := NEW.booking_date + NEW.booking_time + make_interval(mins => OLD.expected_duration_minutes);
+  v_end timestamp := NEW.booking_date + NEW.booking_time + make_interval(mins => NEW.expected_duration_minutes);
+  v_table_number text;
+BEGIN
+  v_table_ids := ARRAY(
+    SELECT bt.table_id FROM booking_tables bt WHERE bt.booking_id = NEW.id
+    UNION
+    SELECT NEW.table_id WHERE NEW.table_id IS NOT NULL
+  );
+
+  IF cardinality(v_table_ids) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  -- Two sittings at the same table are lengthened one at a time
+  PERFORM 1 FROM restaurant_tables WHERE id = ANY(v_table_ids) FOR UPDATE;
+
+  -- Only the added time is checked; this booking's own sitting ends at v_start
+  -- so it isn't among the held tables
+  SELECT rt.table_number INTO v_table_number
+  FROM restaurant_tables rt
+  WHERE rt.id = ANY(v_table_ids)
+    AND rt.id IN (SELECT held.table_id FROM get_held_table_ids(NEW.restaurant_id, v_start, v_end) held)
+  ORDER BY rt.table_number
+  LIMIT 1;
+
+  IF v_table_number IS NOT NULL THEN
+    RAISE EXCEPTION 'Table % is booked before this sitting would end', v_table_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_booking_duration_conflict ON bookings;
+CREATE TRIGGER check_booking_duration_conflict
+  BEFORE UPDATE OF expected_duration_minutes ON bookings
+  FOR EACH ROW
+  WHEN (
+    NEW.expected_duration_minutes > OLD.expected_duration_minutes
+    AND NEW.status IN ('pending', 'confirmed', 'seated')
+  )
+  EXECUTE FUNCTION check_booking_duration_conflict();
+
+COMMENT ON FUNCTION check_booking_duration_conflict() IS 'Refuses a longer sitting that runs into another booking or waiting list offer at the same tables';
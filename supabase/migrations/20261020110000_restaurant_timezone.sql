@@ -0,0 +1,149 @@
+/*
+  # Restaurant Time Zone for Scheduled Menus
+
+  Scheduled menus were checked against LOCALTIMESTAMP, which is the database's
+  clock (UTC on Supabase), so a Singapore breakfast menu opened and closed eight
+  hours late. Each restaurant now has a time zone and menus are checked against
+  the restaurant's local time.
+
+  1. Changes
+    - restaurants.timezone: IANA time zone name (default Asia/Singapore)
+
+  2. New Functions
+    - restaurant_local_time(restaurant_id): the restaurant's wall-clock time now
+
+  3. Updated Functions
+    - is_menu_schedule_available and is_menu_item_orderable default to the
+      restaurant's local time instead of LOCALTIMESTAMP
+    - check_order_item_orderable lets the restaurant's staff add an item outside
+      its menu's hours (sold-out items are still refused)
+*/
+
+ALTER TABLE restaurants
+  ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'Asia/Singapore';
+
+CREATE OR REPLACE FUNCTION restaurant_local_time(p_restaurant_id uuid)
+RETURNS timestamp AS $$
+  SELECT now() AT TIME ZONE r.timezone
+  FROM restaurants r
+  WHERE r.id = p_restaurant_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- =============================================
+-- SCHEDULED MENUS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION is_menu_schedule_available(
+  p_schedule_id uuid,
+  p_at timestamp DEFAULT NULL
+)
+RETURNS boolean AS $$
+DECLARE
+  v_schedule menu_schedules%ROWTYPE;
+  v_at timestamp;
+  v_date date;
+  v_time time;
+BEGIN
+  SELECT * INTO v_schedule
+  FROM menu_schedules
+  WHERE id = p_schedule_id;
+
+  IF v_schedule.id IS NULL OR NOT v_schedule.is_active THEN
+    RETURN false;
+  END IF;
+
+  v_at := COALESCE(p_at, restaurant_local_time(v_schedule.restaurant_id));
+  v_date := v_at::date;
+  v_time := v_at::time;
+
+  IF (v_schedule.start_date IS NOT NULL AND v_date < v_schedule.start_date)
+    OR (v_schedule.end_date IS NOT NULL AND v_date > v_schedule.end_date)
+    OR NOT (EXTRACT(DOW FROM v_date)::integer = ANY(v_schedule.days_of_week)) THEN
+    RETURN false;
+  END IF;
+
+  IF (v_schedule.start_time IS NOT NULL AND v_time < v_schedule.start_time)
+    OR (v_schedule.end_time IS NOT NULL AND v_time >= v_schedule.end_time) THEN
+    RETURN false;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM get_service_periods(v_schedule.restaurant_id, v_date) sp
+    WHERE v_time >= sp.opening_time
+      AND v_time < sp.closing_time
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_available_menu_schedules(p_restaurant_id uuid)
+RETURNS TABLE(schedule_id uuid) AS $$
+DECLARE
+  v_now timestamp := restaurant_local_time(p_restaurant_id);
+BEGIN
+  RETURN QUERY
+  SELECT ms.id
+  FROM menu_schedules ms
+  WHERE ms.restaurant_id = p_restaurant_id
+    AND is_menu_schedule_available(ms.id, v_now);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- p_at is the restaurant's local time; NULL means now
+CREATE OR REPLACE FUNCTION is_menu_item_orderable(
+  p_menu_item_id uuid,
+  p_at timestamp DEFAULT NULL
+)
+RETURNS boolean AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM menu_items mi
+    JOIN menu_categories mc ON mc.id = mi.category_id
+    WHERE mi.id = p_menu_item_id
+      AND mi.is_available
+      AND mc.is_active
+      AND (mc.schedule_id IS NULL OR is_menu_schedule_available(mc.schedule_id, p_at))
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION check_order_item_orderable()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_restaurant_id uuid;
+  v_orderable boolean;
+  v_name text;
+BEGIN
+  SELECT o.restaurant_id INTO v_restaurant_id
+  FROM orders o
+  WHERE o.id = NEW.order_id;
+
+  IF user_can_access_restaurant(v_restaurant_id) THEN
+    -- Staff can still ring up an item outside its menu's hours, e.g. a late
+    -- breakfast, but not one that's sold out or switched off
+    v_orderable := EXISTS (
+      SELECT 1
+      FROM menu_items mi
+      JOIN menu_categories mc ON mc.id = mi.category_id
+      WHERE mi.id = NEW.menu_item_id
+        AND mi.is_available
+        AND mc.is_active
+    );
+  ELSE
+    v_orderable := is_menu_item_orderable(NEW.menu_item_id);
+  END IF;
+
+  IF NOT v_orderable THEN
+    SELECT name INTO v_name FROM menu_items WHERE id = NEW.menu_item_id;
+    RAISE EXCEPTION '% is not available right now', COALESCE(v_name, 'This item');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION restaurant_local_time(uuid) TO anon, authenticated;
+
+COMMENT ON COLUMN restaurants.timezone IS 'IANA time zone the restaurant''s opening hours and menu schedules are in';
+COMMENT ON FUNCTION restaurant_local_time(uuid) IS 'Current wall-clock time in the restaurant''s time zone';
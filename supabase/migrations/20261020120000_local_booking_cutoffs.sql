@@ -0,0 +1,292 @@
+/*
+  # Guest Change Cutoff in the Restaurant's Local Time
+
+  The guest manage page compared LOCALTIMESTAMP, the database's clock (UTC on
+  Supabase), with booking dates and times, which are the restaurant's local
+  time. In Singapore online changes and cancellations stayed open eight hours
+  past the cutoff. The cutoff is now checked against the restaurant's local
+  time (restaurants.timezone).
+
+  1. Updated Functions
+    - get_managed_booking: can_change uses the restaurant's local time
+    - modify_booking_by_token, cancel_booking_by_token: the cutoff and the
+      earliest new booking time use the restaurant's local time
+*/
+
+CREATE OR REPLACE FUNCTION get_managed_booking(p_token text)
+RETURNS TABLE(
+  entry_type text,
+  entry_id uuid,
+  restaurant_id uuid,
+  restaurant_name text,
+  restaurant_phone text,
+  customer_name text,
+  booking_date date,
+  booking_time time,
+  party_size integer,
+  expected_duration_minutes integer,
+  status text,
+  notes text,
+  table_numbers text[],
+  waitlist_position integer,
+  change_cutoff_hours integer,
+  can_change boolean,
+  offer_expires_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    'booking'::text,
+    b.id,
+    r.id,
+    r.name,
+    r.phone,
+    c.name,
+    b.booking_date,
+    b.booking_time,
+    b.party_size,
+    b.expected_duration_minutes,
+    b.status::text,
+    b.notes,
+    (
+      SELECT array_agg(rt.table_number ORDER BY rt.table_number)
+      FROM booking_tables bt
+      JOIN restaurant_tables rt ON rt.id = bt.table_id
+      WHERE bt.booking_id = b.id
+    ),
+    NULL::integer,
+    r.booking_change_cutoff_hours,
+    b.status IN ('pending', 'confirmed')
+      AND now() AT TIME ZONE r.timezone < b.booking_date + b.booking_time - make_interval(hours => r.booking_change_cutoff_hours),
+    NULL::timestamptz
+  FROM bookings b
+  JOIN restaurants r ON r.id = b.restaurant_id
+  LEFT JOIN customers c ON c.id = b.customer_id
+  WHERE b.manage_token = p_token;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    'waitlist'::text,
+    w.id,
+    r.id,
+    r.name,
+    r.phone,
+    c.name,
+    w.requested_date,
+    -- An open offer may be for a nearby sitting rather than the requested one
+    CASE WHEN w.status = 'notified' THEN COALESCE(w.offer_time, w.requested_time) ELSE w.requested_time END,
+    w.party_size,
+    get_default_dining_duration(w.party_size),
+    w.status::text,
+    w.notes,
+    (
+      SELECT array_agg(rt.table_number ORDER BY rt.table_number)
+      FROM restaurant_tables rt
+      WHERE rt.id = ANY(w.offer_table_ids)
+    ),
+    CASE WHEN w.status = 'waiting' THEN (
+      SELECT COUNT(*)::integer
+      FROM waiting_list ahead
+      WHERE ahead.restaurant_id = w.restaurant_id
+        AND ahead.requested_date = w.requested_date
+        AND ahead.requested_time = w.requested_time
+        AND ahead.status = 'waiting'
+        AND (ahead.priority_order, ahead.created_at) <= (w.priority_order, w.created_at)
+    ) END,
+    r.booking_change_cutoff_hours,
+    w.status = 'waiting',
+    CASE WHEN w.status = 'notified' THEN w.offer_expires_at END
+  FROM waiting_list w
+  JOIN restaurants r ON r.id = w.restaurant_id
+  LEFT JOIN customers c ON c.id = w.customer_id
+  WHERE w.manage_token = p_token;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION modify_booking_by_token(
+  p_token text,
+  p_date date,
+  p_time time,
+  p_party_size integer
+)
+RETURNS void AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_cutoff_hours integer;
+  v_now timestamp;
+  v_duration integer;
+  v_start timestamp := p_date + p_time;
+  v_end timestamp;
+  v_current_ids uuid[];
+  v_current_capacity integer;
+  v_table_ids uuid[];
+  v_combination_id uuid;
+BEGIN
+  SELECT * INTO v_booking
+  FROM bookings
+  WHERE manage_token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'This booking can no longer be changed';
+  END IF;
+
+  IF p_party_size IS NULL OR p_party_size < 1 THEN
+    RAISE EXCEPTION 'Party size must be at least 1';
+  END IF;
+
+  -- Booking dates and times are the restaurant's local time
+  SELECT r.booking_change_cutoff_hours, now() AT TIME ZONE r.timezone
+  INTO v_cutoff_hours, v_now
+  FROM restaurants r
+  WHERE r.id = v_booking.restaurant_id;
+
+  IF v_now >= v_booking.booking_date + v_booking.booking_time - make_interval(hours => v_cutoff_hours) THEN
+    RAISE EXCEPTION 'Online changes close % hours before the booking. Please call the restaurant.', v_cutoff_hours;
+  END IF;
+
+  IF v_start <= v_now + make_interval(hours => v_cutoff_hours) THEN
+    RAISE EXCEPTION 'Please choose a time at least % hours from now', v_cutoff_hours;
+  END IF;
+
+  IF NOT is_restaurant_open(v_booking.restaurant_id, p_date, p_time) THEN
+    RAISE EXCEPTION 'The restaurant is not taking bookings at that time';
+  END IF;
+
+  -- Keep a staff-adjusted duration unless the party size changes
+  v_duration := CASE
+    WHEN p_party_size = v_booking.party_size THEN v_booking.expected_duration_minutes
+    ELSE get_default_dining_duration(p_party_size)
+  END;
+  v_end := v_start + make_interval(mins => v_duration);
+
+  SELECT array_agg(rt.id), SUM(rt.capacity)::integer
+  INTO v_current_ids, v_current_capacity
+  FROM booking_tables bt
+  JOIN restaurant_tables rt ON rt.id = bt.table_id
+  WHERE bt.booking_id = v_booking.id;
+
+  -- Stay on the current tables when they still fit and nobody else holds them
+  IF v_current_capacity >= p_party_size AND NOT EXISTS (
+    SELECT 1
+    FROM bookings b
+    LEFT JOIN booking_tables bt ON bt.booking_id = b.id
+    WHERE b.restaurant_id = v_booking.restaurant_id
+      AND b.id <> v_booking.id
+      AND b.booking_date BETWEEN p_date - 1 AND v_end::date
+      AND b.status IN ('confirmed', 'seated', 'pending')
+      AND b.booking_date + b.booking_time < v_end
+      AND v_start < b.booking_date + b.booking_time + make_interval(mins => b.expected_duration_minutes)
+      AND (b.table_id = ANY(v_current_ids) OR bt.table_id = ANY(v_current_ids))
+  ) THEN
+    v_table_ids := v_current_ids;
+    v_combination_id := v_booking.combination_id;
+  ELSE
+    SELECT ARRAY[t.table_id] INTO v_table_ids
+    FROM get_available_tables(v_booking.restaurant_id, p_date, p_time, p_party_size, v_duration) t
+    LIMIT 1;
+
+    IF v_table_ids IS NULL THEN
+      SELECT tc.table_ids, tc.combination_id INTO v_table_ids, v_combination_id
+      FROM get_available_table_combinations(v_booking.restaurant_id, p_date, p_time, p_party_size, v_duration) tc
+      LIMIT 1;
+    END IF;
+
+    IF v_table_ids IS NULL THEN
+      RAISE EXCEPTION 'No tables are available at that time. Please choose another time.';
+    END IF;
+  END IF;
+
+  UPDATE bookings
+  SET
+    booking_date = p_date,
+    booking_time = p_time,
+    party_size = p_party_size,
+    expected_duration_minutes = v_duration,
+    table_id = v_table_ids[1],
+    combination_id = v_combination_id,
+    updated_at = now()
+  WHERE id = v_booking.id;
+
+  -- The primary table trigger only reacts to table_id changes, so sync the full holding here
+  DELETE FROM booking_tables
+  WHERE booking_id = v_booking.id
+    AND NOT (table_id = ANY(v_table_ids));
+
+  INSERT INTO booking_tables (booking_id, table_id)
+  SELECT v_booking.id, unnest(v_table_ids)
+  ON CONFLICT DO NOTHING;
+
+  UPDATE restaurant_tables
+  SET status = 'available', updated_at = now()
+  WHERE id = ANY(COALESCE(v_current_ids, '{}'))
+    AND NOT (id = ANY(v_table_ids))
+    AND status = 'reserved';
+
+  UPDATE restaurant_tables
+  SET status = 'reserved', updated_at = now()
+  WHERE id = ANY(v_table_ids)
+    AND status = 'available';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION cancel_booking_by_token(p_token text)
+RETURNS void AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_cutoff_hours integer;
+  v_now timestamp;
+BEGIN
+  SELECT * INTO v_booking
+  FROM bookings
+  WHERE manage_token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    -- Waiting list entries can be withdrawn at any time
+    UPDATE waiting_list
+    SET status = 'cancelled', updated_at = now()
+    WHERE manage_token = p_token
+      AND status IN ('waiting', 'notified');
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Booking not found or already closed';
+    END IF;
+    RETURN;
+  END IF;
+
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'This booking can no longer be cancelled';
+  END IF;
+
+  SELECT r.booking_change_cutoff_hours, now() AT TIME ZONE r.timezone
+  INTO v_cutoff_hours, v_now
+  FROM restaurants r
+  WHERE r.id = v_booking.restaurant_id;
+
+  IF v_now >= v_booking.booking_date + v_booking.booking_time - make_interval(hours => v_cutoff_hours) THEN
+    RAISE EXCEPTION 'Online cancellations close % hours before the booking. Please call the restaurant.', v_cutoff_hours;
+  END IF;
+
+  UPDATE bookings
+  SET status = 'cancelled', updated_at = now()
+  WHERE id = v_booking.id;
+
+  UPDATE restaurant_tables
+  SET status = 'available', updated_at = now()
+  WHERE id IN (
+      SELECT bt.table_id FROM booking_tables bt WHERE bt.booking_id = v_booking.id
+    )
+    AND status = 'reserved';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON COLUMN restaurants.timezone IS 'IANA time zone the restaurant''s opening hours, menu schedules and booking cutoffs are in';
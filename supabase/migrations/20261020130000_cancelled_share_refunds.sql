@@ -0,0 +1,148 @@
+/*
+  # Refunds for Shares of Cancelled Bill Splits
+
+  Replacing or cancelling a bill split cancels its shares, but a diner can still
+  finish a share's Stripe checkout in another tab. complete_session_payment then
+  marked the cancelled share paid, and the diner paid for nothing on the bill.
+  Such a payment is now marked for a refund, which stripe-webhook makes.
+
+  The table freed when a bill is settled was also offered to the waiting list
+  for the database's date and time (UTC on Supabase) rather than the
+  restaurant's.
+
+  1. Changes
+    - session_payments.status adds 'refund_due' (paid after the share was
+      cancelled, waiting for its refund) and 'refunded'
+
+  2. Updated Functions
+    - complete_session_payment
+      - a cancelled share that gets paid becomes 'refund_due' and settles nothing
+      - a payment already 'refund_due' or 'refunded' is skipped like a paid one
+      - the freed table is offered for the restaurant's local date and time
+*/
+
+ALTER TABLE session_payments DROP CONSTRAINT IF EXISTS session_payments_status_check;
+ALTER TABLE session_payments
+  ADD CONSTRAINT session_payments_status_check CHECK (status IN ('pending', 'paid', 'cancelled', 'refund_due', 'refunded'));
+
+-- Marks a checkout as paid and closes the table once its bill is settled. A
+-- share only settles its orders when it is the last share of its split to be
+-- paid, and a share of a cancelled split is marked for a refund instead.
+-- Returns false when the payment was already handled.
+CREATE OR REPLACE FUNCTION complete_session_payment(
+  p_payment_id uuid,
+  p_payment_intent_id text DEFAULT NULL
+)
+RETURNS boolean AS $$
+DECLARE
+  v_payment session_payments%ROWTYPE;
+  v_session order_sessions%ROWTYPE;
+  v_order_ids uuid[];
+  v_table_ids uuid[];
+  v_now timestamp;
+BEGIN
+  SELECT * INTO v_payment
+  FROM session_payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  -- A checkout replaced by a newer one can still be paid in another tab, so only
+  -- a payment already recorded as paid is skipped
+  IF NOT FOUND OR v_payment.status IN ('paid', 'refund_due', 'refunded') THEN
+    RETURN false;
+  END IF;
+
+  -- The split this share belonged to was replaced or cancelled, so the money
+  -- covers nothing on the bill and goes back to the diner
+  IF v_payment.split_id IS NOT NULL AND v_payment.status = 'cancelled' THEN
+    UPDATE session_payments
+    SET
+      status = 'refund_due',
+      paid_at = now(),
+      stripe_payment_intent_id = COALESCE(p_payment_intent_id, stripe_payment_intent_id)
+    WHERE id = p_payment_id;
+
+    RETURN true;
+  END IF;
+
+  UPDATE session_payments
+  SET
+    status = 'paid',
+    paid_at = now(),
+    stripe_payment_intent_id = COALESCE(p_payment_intent_id, stripe_payment_intent_id)
+  WHERE id = p_payment_id;
+
+  v_order_ids := v_payment.order_ids;
+
+  IF v_payment.split_id IS NOT NULL THEN
+    -- Serialise the last shares of a split so exactly one of them settles it
+    PERFORM 1 FROM bill_splits WHERE id = v_payment.split_id FOR UPDATE;
+
+    IF EXISTS (
+      SELECT 1 FROM session_payments
+      WHERE split_id = v_payment.split_id
+        AND status = 'pending'
+    ) THEN
+      RETURN true;
+    END IF;
+
+    UPDATE bill_splits
+    SET status = 'settled'
+    WHERE id = v_payment.split_id
+      AND status = 'open'
+    RETURNING order_ids INTO v_order_ids;
+
+    IF NOT FOUND THEN
+      RETURN true;
+    END IF;
+  END IF;
+
+  UPDATE orders
+  SET status = 'paid', updated_at = now()
+  WHERE id = ANY(v_order_ids)
+    AND status <> 'paid';
+
+  -- Orders placed while the diner was paying keep the table open
+  IF EXISTS (
+    SELECT 1 FROM orders
+    WHERE session_id = v_payment.session_id
+      AND status <> 'paid'
+  ) THEN
+    RETURN true;
+  END IF;
+
+  UPDATE order_sessions
+  SET is_active = false
+  WHERE id = v_payment.session_id
+    AND is_active
+  RETURNING * INTO v_session;
+
+  IF NOT FOUND THEN
+    RETURN true;
+  END IF;
+
+  IF v_session.booking_id IS NOT NULL THEN
+    UPDATE bookings
+    SET status = 'completed', updated_at = now()
+    WHERE id = v_session.booking_id
+      AND status = 'seated';
+
+    SELECT array_agg(bt.table_id) INTO v_table_ids
+    FROM booking_tables bt
+    WHERE bt.booking_id = v_session.booking_id;
+  END IF;
+
+  v_table_ids := COALESCE(v_table_ids, ARRAY[v_session.table_id]);
+
+  UPDATE restaurant_tables
+  SET status = 'available', updated_at = now()
+  WHERE id = ANY(v_table_ids)
+    AND status = 'occupied';
+
+  -- Sittings are in the restaurant's local time, not the database's
+  v_now := restaurant_local_time(v_session.restaurant_id);
+  PERFORM offer_waitlist_table(v_session.restaurant_id, v_now::date, v_now::time(0));
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
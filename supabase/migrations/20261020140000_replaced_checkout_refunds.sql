@@ -0,0 +1,142 @@
+/*
+  # Refunds for Replaced Full-Bill Checkouts
+
+  Starting a new full-bill checkout, or splitting the bill, cancels a full-bill
+  checkout that is still open, but Stripe kept it payable.
+  complete_session_payment only refunded cancelled split shares, so when two
+  diners both paid the full bill, or one paid after the bill was split, both
+  were charged and the orders marked paid twice.
+
+  1. Updated Functions
+    - complete_session_payment marks any payment that is no longer 'pending',
+      or that covers an order already paid, as 'refund_due'; stripe-webhook
+      refunds it. Payments for the same orders are completed one at a time.
+*/
+
+-- Marks a checkout as paid and closes the table once its bill is settled. A
+-- share only settles its orders when it is the last share of its split to be
+-- paid. A replaced checkout, or one for orders already paid, is marked for a
+-- refund instead. Returns false when the payment was already handled.
+CREATE OR REPLACE FUNCTION complete_session_payment(
+  p_payment_id uuid,
+  p_payment_intent_id text DEFAULT NULL
+)
+RETURNS boolean AS $$
+DECLARE
+  v_payment session_payments%ROWTYPE;
+  v_session order_sessions%ROWTYPE;
+  v_order_ids uuid[];
+  v_table_ids uuid[];
+  v_now timestamp;
+BEGIN
+  SELECT * INTO v_payment
+  FROM session_payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  -- A payment already handled is skipped; Stripe retries webhooks
+  IF NOT FOUND OR v_payment.status IN ('paid', 'refund_due', 'refunded') THEN
+    RETURN false;
+  END IF;
+
+  -- Two checkouts for the same orders complete one at a time
+  PERFORM 1 FROM orders WHERE id = ANY(v_payment.order_ids) ORDER BY id FOR UPDATE;
+
+  -- The checkout was replaced (by a newer one, or by a split) or its orders were
+  -- paid some other way, so the money covers nothing and goes back to the diner
+  IF v_payment.status <> 'pending' OR EXISTS (
+    SELECT 1 FROM orders
+    WHERE id = ANY(v_payment.order_ids)
+      AND status = 'paid'
+  ) THEN
+    UPDATE session_payments
+    SET
+      status = 'refund_due',
+      paid_at = now(),
+      stripe_payment_intent_id = COALESCE(p_payment_intent_id, stripe_payment_intent_id)
+    WHERE id = p_payment_id;
+
+    RETURN true;
+  END IF;
+
+  UPDATE session_payments
+  SET
+    status = 'paid',
+    paid_at = now(),
+    stripe_payment_intent_id = COALESCE(p_payment_intent_id, stripe_payment_intent_id)
+  WHERE id = p_payment_id;
+
+  v_order_ids := v_payment.order_ids;
+
+  IF v_payment.split_id IS NOT NULL THEN
+    -- Serialise the last shares of a split so exactly one of them settles it
+    PERFORM 1 FROM bill_splits WHERE id = v_payment.split_id FOR UPDATE;
+
+    IF EXISTS (
+      SELECT 1 FROM session_payments
+      WHERE split_id = v_payment.split_id
+        AND status = 'pending'
+    ) THEN
+      RETURN true;
+    END IF;
+
+    UPDATE bill_splits
+    SET status = 'settled'
+    WHERE id = v_payment.split_id
+      AND status = 'open'
+    RETURNING order_ids INTO v_order_ids;
+
+    IF NOT FOUND THEN
+      RETURN true;
+    END IF;
+  END IF;
+
+  UPDATE orders
+  SET status = 'paid', updated_at = now()
+  WHERE id = ANY(v_order_ids)
+    AND status <> 'paid';
+
+  -- Orders placed while the diner was paying keep the table open
+  IF EXISTS (
+    SELECT 1 FROM orders
+    WHERE session_id = v_payment.session_id
+      AND status <> 'paid'
+  ) THEN
+    RETURN true;
+  END IF;
+
+  UPDATE order_sessions
+  SET is_active = false
+  WHERE id = v_payment.session_id
+    AND is_active
+  RETURNING * INTO v_session;
+
+  IF NOT FOUND THEN
+    RETURN true;
+  END IF;
+
+  IF v_session.booking_id IS NOT NULL THEN
+    UPDATE bookings
+    SET status = 'completed', updated_at = now()
+    WHERE id = v_session.booking_id
+      AND status = 'seated';
+
+    SELECT array_agg(bt.table_id) INTO v_table_ids
+    FROM booking_tables bt
+    WHERE bt.booking_id = v_session.booking_id;
+  END IF;
+
+  v_table_ids := COALESCE(v_table_ids, ARRAY[v_session.table_id]);
+
+  UPDATE restaurant_tables
+  SET status = 'available', updated_at = now()
+  WHERE id = ANY(v_table_ids)
+    AND status = 'occupied';
+
+  -- Sittings are in the restaurant's local time, not the database's
+  v_now := restaurant_local_time(v_session.restaurant_id);
+  PERFORM offer_waitlist_table(v_session.restaurant_id, v_now::date, v_now::time(0));
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
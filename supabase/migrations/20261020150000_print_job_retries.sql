@@ -0,0 +1,99 @@
+/*
+  # Print Job Retries
+
+  Staff could update print jobs directly to retry them, and print-proxy only
+  printed queued jobs when someone called it, which in practice meant while a
+  kitchen screen was open. Retries now go through an RPC and the queue is run
+  every minute from the database.
+
+  1. Security
+    - Drops the staff update policy on print_jobs. print-proxy prints whatever
+      order and items a job points at, so staff retry through retry_print_job,
+      which only resets the job's progress.
+
+  2. New Functions
+    - retry_print_job(job): puts a job back in the queue to go out straight away
+    - run_print_jobs(): asks print-proxy to print due jobs for all restaurants
+
+  3. Scheduling
+    - run_print_jobs runs every minute through pg_cron. It needs the pg_net
+      extension and the project_url, anon_key and print_jobs_secret Vault
+      secrets; print_jobs_secret must match print-proxy's PRINT_JOBS_SECRET.
+*/
+
+DROP POLICY IF EXISTS "Restaurant staff can retry print jobs" ON print_jobs;
+
+-- Only the job's progress is reset; what it prints stays as it was queued
+CREATE OR REPLACE FUNCTION retry_print_job(p_job_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_restaurant_id uuid;
+BEGIN
+  SELECT restaurant_id INTO v_restaurant_id
+  FROM print_jobs
+  WHERE id = p_job_id;
+
+  IF v_restaurant_id IS NULL OR NOT user_has_permission(v_restaurant_id, 'printing') THEN
+    RAISE EXCEPTION 'Print job not found';
+  END IF;
+
+  UPDATE print_jobs
+  SET status = 'queued', attempts = 0, error_message = NULL, next_attempt_at = now()
+  WHERE id = p_job_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION retry_print_job(uuid) TO authenticated;
+
+-- =============================================
+-- SCHEDULED RUNS
+-- =============================================
+
+-- Fire and forget: pg_net sends the request after the transaction commits
+CREATE OR REPLACE FUNCTION run_print_jobs()
+RETURNS void AS $$
+DECLARE
+  v_url text;
+  v_anon_key text;
+  v_secret text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net')
+    OR NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'supabase_vault') THEN
+    RETURN;
+  END IF;
+
+  EXECUTE $sql$
+    SELECT
+      max(decrypted_secret) FILTER (WHERE name = 'project_url'),
+      max(decrypted_secret) FILTER (WHERE name = 'anon_key'),
+      max(decrypted_secret) FILTER (WHERE name = 'print_jobs_secret')
+    FROM vault.decrypted_secrets
+  $sql$ INTO v_url, v_anon_key, v_secret;
+
+  IF v_url IS NULL OR v_anon_key IS NULL OR v_secret IS NULL THEN
+    RETURN;
+  END IF;
+
+  EXECUTE 'SELECT net.http_post(url := $1, headers := $2, body := $3)'
+  USING
+    v_url || '/functions/v1/print-proxy/process-jobs',
+    jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_anon_key,
+      'x-print-jobs-secret', v_secret
+    ),
+    '{}'::jsonb;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION run_print_jobs() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('process-print-jobs', '* * * * *', 'SELECT run_print_jobs()');
+  END IF;
+END $$;
+
+COMMENT ON FUNCTION retry_print_job(uuid) IS 'Puts a print job back in the queue without changing what it prints';
+COMMENT ON FUNCTION run_print_jobs() IS 'Asks print-proxy to print due jobs; run every minute by pg_cron';
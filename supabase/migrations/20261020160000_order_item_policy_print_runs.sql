@@ -0,0 +1,47 @@
+/*
+  # Order Item Policy and Printing Submitted Orders
+
+  1. Security
+    - "Restaurant staff can manage order items" allowed any signed-in user,
+      including diners signed in for loyalty, to change any order item. It now
+      only covers staff of the order's restaurant.
+
+  2. Printing
+    - The ordering page asked print-proxy to print the order's kitchen tickets
+      as the diner. Queuing jobs now starts a print run from the database
+      (run_print_jobs), so a submitted order prints without the diner's help.
+*/
+
+DROP POLICY IF EXISTS "Restaurant staff can manage order items" ON order_items;
+
+CREATE POLICY "Restaurant staff can manage order items"
+  ON order_items
+  FOR ALL
+  TO authenticated
+  USING (user_can_access_restaurant((SELECT o.restaurant_id FROM orders o WHERE o.id = order_id)))
+  WITH CHECK (user_can_access_restaurant((SELECT o.restaurant_id FROM orders o WHERE o.id = order_id)));
+
+-- =============================================
+-- PRINT RUNS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION run_print_jobs_after_queue()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM queued_jobs WHERE status = 'queued') THEN
+    PERFORM run_print_jobs();
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Once per statement, so an order's tickets for several stations start one run
+DROP TRIGGER IF EXISTS run_print_jobs_after_queue ON print_jobs;
+CREATE TRIGGER run_print_jobs_after_queue
+  AFTER INSERT ON print_jobs
+  REFERENCING NEW TABLE AS queued_jobs
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION run_print_jobs_after_queue();
+
+COMMENT ON FUNCTION run_print_jobs_after_queue() IS 'Starts a print run when jobs are queued, e.g. an order''s kitchen tickets';
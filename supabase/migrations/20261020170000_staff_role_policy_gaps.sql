@@ -0,0 +1,132 @@
+/*
+  # Staff Role Policy Gaps
+
+  The role policies missed some tables, so a kitchen or host account could
+  still write orders and modifier options directly.
+
+  1. Changes
+    - user_profiles.role loses its old 'staff' default, which the role check no
+      longer allows; a profile gets its role when it joins a restaurant
+
+  2. Row-Level Security
+    Restrictive policies, the same shape as the other role policies:
+    - orders: the orders permission to insert
+    - order_items: the orders permission to insert and delete, orders or
+      kitchen to update
+    - order_sessions: the orders or tables permission to insert and update,
+      orders to delete
+    - menu_modifier_options: the menu permission to insert, update and delete
+*/
+
+ALTER TABLE user_profiles ALTER COLUMN role DROP DEFAULT;
+
+-- =============================================
+-- ORDERS
+-- =============================================
+
+-- Diners order through submit_order, which isn't affected
+DROP POLICY IF EXISTS "Staff need the orders permission to insert" ON orders;
+CREATE POLICY "Staff need the orders permission to insert"
+  ON orders
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT user_can_access_restaurant(restaurant_id) OR user_has_permission(restaurant_id, 'orders'));
+
+-- Order items have no restaurant_id of their own, so go through the order
+DROP POLICY IF EXISTS "Staff need the orders permission to insert" ON order_items;
+CREATE POLICY "Staff need the orders permission to insert"
+  ON order_items
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    NOT user_can_access_restaurant((SELECT o.restaurant_id FROM orders o WHERE o.id = order_id))
+    OR user_has_permission((SELECT o.restaurant_id FROM orders o WHERE o.id = order_id), 'orders')
+  );
+
+-- The kitchen display marks items as it cooks them
+DROP POLICY IF EXISTS "Staff need the orders or kitchen permission to update" ON order_items;
+CREATE POLICY "Staff need the orders or kitchen permission to update"
+  ON order_items
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (
+    NOT user_can_access_restaurant((SELECT o.restaurant_id FROM orders o WHERE o.id = order_id))
+    OR user_has_permission((SELECT o.restaurant_id FROM orders o WHERE o.id = order_id), 'orders')
+    OR user_has_permission((SELECT o.restaurant_id FROM orders o WHERE o.id = order_id), 'kitchen')
+  );
+
+DROP POLICY IF EXISTS "Staff need the orders permission to delete" ON order_items;
+CREATE POLICY "Staff need the orders permission to delete"
+  ON order_items
+  AS RESTRICTIVE
+  FOR DELETE
+  TO authenticated
+  USING (
+    NOT user_can_access_restaurant((SELECT o.restaurant_id FROM orders o WHERE o.id = order_id))
+    OR user_has_permission((SELECT o.restaurant_id FROM orders o WHERE o.id = order_id), 'orders')
+  );
+
+-- Seating a walk-in opens the table's ordering session and completing a
+-- booking closes it, so hosts need these too
+DROP POLICY IF EXISTS "Staff need the orders or tables permission to insert" ON order_sessions;
+CREATE POLICY "Staff need the orders or tables permission to insert"
+  ON order_sessions
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    NOT user_can_access_restaurant(restaurant_id)
+    OR user_has_permission(restaurant_id, 'orders')
+    OR user_has_permission(restaurant_id, 'tables')
+  );
+
+DROP POLICY IF EXISTS "Staff need the orders or tables permission to update" ON order_sessions;
+CREATE POLICY "Staff need the orders or tables permission to update"
+  ON order_sessions
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (
+    NOT user_can_access_restaurant(restaurant_id)
+    OR user_has_permission(restaurant_id, 'orders')
+    OR user_has_permission(restaurant_id, 'tables')
+  );
+
+DROP POLICY IF EXISTS "Staff need the orders permission to delete" ON order_sessions;
+CREATE POLICY "Staff need the orders permission to delete"
+  ON order_sessions
+  AS RESTRICTIVE
+  FOR DELETE
+  TO authenticated
+  USING (NOT user_can_access_restaurant(restaurant_id) OR user_has_permission(restaurant_id, 'orders'));
+
+-- =============================================
+-- MENU MODIFIER OPTIONS
+-- =============================================
+
+-- Options have no restaurant_id of their own, so go through the group
+DO $$
+DECLARE
+  v_command text;
+  v_restaurant text := '(SELECT g.restaurant_id FROM menu_modifier_groups g WHERE g.id = group_id)';
+BEGIN
+  FOREACH v_command IN ARRAY ARRAY['INSERT', 'UPDATE', 'DELETE'] LOOP
+    EXECUTE format(
+      'DROP POLICY IF EXISTS %I ON menu_modifier_options',
+      format('Staff need the menu permission to %s', lower(v_command))
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON menu_modifier_options AS RESTRICTIVE FOR %s TO authenticated %s (NOT user_can_access_restaurant(%s) OR user_has_permission(%s, %L))',
+      format('Staff need the menu permission to %s', lower(v_command)),
+      v_command,
+      CASE v_command WHEN 'INSERT' THEN 'WITH CHECK' ELSE 'USING' END,
+      v_restaurant,
+      v_restaurant,
+      'menu'
+    );
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,313 @@
+/*
+  # Loyalty Spending on Payment
+
+  submit_order recorded loyalty spending and counted a discount code's use as
+  soon as the order was placed, so an order that was never paid still moved a
+  member towards the discount threshold and used up the code.
+
+  1. Changes
+    - Spending is recorded when an order is marked paid, against the member
+      whose status earned the discount or else the first member on the order,
+      so members below the threshold can reach it
+    - Deleting an order that wasn't paid gives its discount code use back
+    - Discount code validity dates are checked against the restaurant's local
+      date instead of the database's (UTC)
+
+  2. Updated Functions
+    - submit_order no longer records spending; it still counts the code's use
+      so two orders can't both take its last one
+    - find_discount_code uses restaurant_local_time
+*/
+
+-- The restaurant's code if it can be used today, in the restaurant's time zone; the order minimum is checked
+-- against the subtotal by the caller
+CREATE OR REPLACE FUNCTION find_discount_code(p_restaurant_id uuid, p_code text)
+RETURNS discount_codes AS $$
+DECLARE
+  v_code discount_codes%ROWTYPE;
+  v_entered text := upper(btrim(p_code));
+  v_today date := restaurant_local_time(p_restaurant_id)::date;
+BEGIN
+  SELECT * INTO v_code
+  FROM discount_codes
+  WHERE restaurant_id = p_restaurant_id
+    AND code = v_entered
+    AND is_active;
+
+  IF v_code.id IS NULL THEN
+    RAISE EXCEPTION 'The code % isn''t valid here', v_entered;
+  END IF;
+
+  IF v_code.valid_from IS NOT NULL AND v_today < v_code.valid_from THEN
+    RAISE EXCEPTION 'The code % can be used from %', v_code.code, to_char(v_code.valid_from, 'FMDD Mon YYYY');
+  END IF;
+
+  IF v_code.valid_until IS NOT NULL AND v_today > v_code.valid_until THEN
+    RAISE EXCEPTION 'The code % has expired', v_code.code;
+  END IF;
+
+  IF v_code.max_uses IS NOT NULL AND v_code.current_uses >= v_code.max_uses THEN
+    RAISE EXCEPTION 'The code % has been fully redeemed', v_code.code;
+  END IF;
+
+  RETURN v_code;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION submit_order(
+  p_token text,
+  p_items jsonb,
+  p_loyalty_user_ids text[] DEFAULT NULL,
+  p_discount_code text DEFAULT NULL
+)
+RETURNS TABLE(
+  order_id uuid,
+  order_number text,
+  subtotal_sgd numeric,
+  discount_sgd numeric,
+  total_sgd numeric
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_session order_sessions%ROWTYPE;
+  v_order_id uuid;
+  v_order_number text;
+  v_line jsonb;
+  v_item menu_items%ROWTYPE;
+  v_quantity integer;
+  v_option_ids uuid[];
+  v_group_name text;
+  v_modifiers jsonb;
+  v_price_delta numeric;
+  v_unit_price numeric;
+  v_instructions text;
+  v_subtotal numeric := 0;
+  v_discount numeric := 0;
+  v_code discount_codes%ROWTYPE;
+  v_code_discount numeric := 0;
+  v_total numeric;
+  v_loyalty_ids text[] := NULLIF(COALESCE(p_loyalty_user_ids, '{}'), '{}');
+  v_discount_eligible boolean := false;
+  v_triggering_user_id text;
+BEGIN
+  SELECT * INTO v_session
+  FROM order_sessions
+  WHERE session_token = p_token
+    AND is_active = true;
+
+  IF v_session.id IS NULL THEN
+    RAISE EXCEPTION 'This table session has ended. Please scan the QR code again.';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  v_order_number := generate_order_number();
+
+  INSERT INTO orders (restaurant_id, session_id, order_number, loyalty_user_ids, status)
+  VALUES (v_session.restaurant_id, v_session.id, v_order_number, v_loyalty_ids, 'pending')
+  RETURNING id INTO v_order_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    SELECT * INTO v_item
+    FROM menu_items
+    WHERE id = (v_line->>'menu_item_id')::uuid
+      AND restaurant_id = v_session.restaurant_id;
+
+    IF v_item.id IS NULL THEN
+      RAISE EXCEPTION 'An item in your cart is no longer on the menu';
+    END IF;
+
+    IF NOT is_menu_item_orderable(v_item.id) THEN
+      RAISE EXCEPTION '% is not available right now', v_item.name;
+    END IF;
+
+    v_quantity := (v_line->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 99 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_item.name;
+    END IF;
+
+    v_option_ids := ARRAY(
+      SELECT DISTINCT option_id::uuid
+      FROM jsonb_array_elements_text(COALESCE(v_line->'option_ids', '[]')) AS option_id
+    );
+
+    IF EXISTS (
+      SELECT 1
+      FROM unnest(v_option_ids) AS picked(option_id)
+      WHERE NOT EXISTS (
+        SELECT 1
+        FROM menu_modifier_options o
+        JOIN menu_modifier_groups g ON g.id = o.group_id
+        WHERE o.id = picked.option_id
+          AND g.menu_item_id = v_item.id
+          AND o.is_available
+      )
+    ) THEN
+      RAISE EXCEPTION 'An option chosen for % is no longer available', v_item.name;
+    END IF;
+
+    SELECT g.name INTO v_group_name
+    FROM menu_modifier_groups g
+    CROSS JOIN LATERAL (
+      SELECT count(*) AS picked
+      FROM menu_modifier_options o
+      WHERE o.group_id = g.id
+        AND o.id = ANY(v_option_ids)
+    ) c
+    WHERE g.menu_item_id = v_item.id
+      AND (c.picked < g.min_selections OR (g.max_selections IS NOT NULL AND c.picked > g.max_selections))
+    ORDER BY g.display_order
+    LIMIT 1;
+
+    IF v_group_name IS NOT NULL THEN
+      RAISE EXCEPTION 'Please check your "%" choice for %', v_group_name, v_item.name;
+    END IF;
+
+    -- Same shape as SelectedModifier on the client
+    SELECT
+      COALESCE(jsonb_agg(jsonb_build_object(
+        'group_id', g.id,
+        'group_name', g.name,
+        'option_id', o.id,
+        'name', o.name,
+        'price_delta_sgd', o.price_delta_sgd
+      ) ORDER BY g.display_order, o.display_order), '[]'::jsonb),
+      COALESCE(sum(o.price_delta_sgd), 0)
+    INTO v_modifiers, v_price_delta
+    FROM menu_modifier_options o
+    JOIN menu_modifier_groups g ON g.id = o.group_id
+    WHERE o.id = ANY(v_option_ids);
+
+    v_unit_price := GREATEST(v_item.price_sgd + v_price_delta, 0);
+    v_instructions := NULLIF(left(btrim(v_line->>'special_instructions'), 500), '');
+
+    INSERT INTO order_items (
+      order_id,
+      menu_item_id,
+      quantity,
+      unit_price_sgd,
+      total_price_sgd,
+      special_instructions,
+      modifiers
+    )
+    VALUES (
+      v_order_id,
+      v_item.id,
+      v_quantity,
+      v_unit_price,
+      v_unit_price * v_quantity,
+      v_instructions,
+      v_modifiers
+    );
+
+    v_subtotal := v_subtotal + v_unit_price * v_quantity;
+  END LOOP;
+
+  IF v_loyalty_ids IS NOT NULL THEN
+    SELECT ld.discount_eligible, ld.triggering_user_id, round(v_subtotal * ld.discount_amount, 2)
+    INTO v_discount_eligible, v_triggering_user_id, v_discount
+    FROM check_loyalty_discount(v_session.restaurant_id, v_loyalty_ids) ld;
+
+    IF NOT COALESCE(v_discount_eligible, false) THEN
+      v_discount_eligible := false;
+      v_triggering_user_id := NULL;
+      v_discount := 0;
+    END IF;
+  END IF;
+
+  IF NULLIF(btrim(p_discount_code), '') IS NOT NULL THEN
+    v_code := find_discount_code(v_session.restaurant_id, p_discount_code);
+
+    IF v_subtotal < v_code.min_order_amount THEN
+      RAISE EXCEPTION 'Spend at least S$% to use the code %', to_char(v_code.min_order_amount, 'FM999990.00'), v_code.code;
+    END IF;
+
+    -- Codes come off the subtotal, on top of the loyalty discount
+    v_code_discount := CASE v_code.discount_type
+      WHEN 'percentage' THEN round(v_subtotal * v_code.discount_value / 100, 2)
+      ELSE v_code.discount_value
+    END;
+    v_code_discount := LEAST(v_code_discount, v_subtotal - v_discount);
+
+    -- Checked again here so two orders can't both take a code's last use
+    UPDATE discount_codes dc
+    SET current_uses = dc.current_uses + 1
+    WHERE dc.id = v_code.id
+      AND (dc.max_uses IS NULL OR dc.current_uses < dc.max_uses);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The code % has been fully redeemed', v_code.code;
+    END IF;
+
+    v_discount := v_discount + v_code_discount;
+  END IF;
+
+  v_total := v_subtotal - v_discount;
+
+  UPDATE orders o
+  SET subtotal_sgd = v_subtotal,
+      discount_sgd = v_discount,
+      total_sgd = v_total,
+      discount_applied = v_discount_eligible,
+      triggering_user_id = v_triggering_user_id,
+      discount_code_id = v_code.id,
+      discount_code = v_code.code,
+      code_discount_sgd = v_code_discount
+  WHERE o.id = v_order_id;
+
+  -- Loyalty spending is recorded once the order is paid, by
+  -- record_order_loyalty_spending
+
+  RETURN QUERY SELECT v_order_id, v_order_number, v_subtotal, v_discount, v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =============================================
+-- ORDER PAYMENT
+-- =============================================
+
+CREATE OR REPLACE FUNCTION record_order_loyalty_spending()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.loyalty_user_ids IS NOT NULL AND cardinality(NEW.loyalty_user_ids) > 0 THEN
+    PERFORM update_loyalty_spending(
+      NEW.restaurant_id,
+      COALESCE(NEW.triggering_user_id, NEW.loyalty_user_ids[1]),
+      COALESCE(NEW.total_sgd, 0)
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_order_loyalty_spending ON orders;
+CREATE TRIGGER record_order_loyalty_spending
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'paid' AND OLD.status IS DISTINCT FROM 'paid')
+  EXECUTE FUNCTION record_order_loyalty_spending();
+
+CREATE OR REPLACE FUNCTION release_order_discount_code()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE discount_codes
+  SET current_uses = GREATEST(current_uses - 1, 0)
+  WHERE id = OLD.discount_code_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS release_order_discount_code ON orders;
+CREATE TRIGGER release_order_discount_code
+  AFTER DELETE ON orders
+  FOR EACH ROW
+  WHEN (OLD.discount_code_id IS NOT NULL AND OLD.status IS DISTINCT FROM 'paid')
+  EXECUTE FUNCTION release_order_discount_code();
+
+COMMENT ON FUNCTION record_order_loyalty_spending() IS 'Records a paid order''s spending against its loyalty member';
+COMMENT ON FUNCTION release_order_discount_code() IS 'Gives back the discount code use of an order deleted before it was paid';
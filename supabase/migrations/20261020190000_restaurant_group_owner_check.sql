@@ -0,0 +1,40 @@
+/*
+  # Restaurant Group Owner Check
+
+  check_restaurant_group only let the owner move an outlet between groups when
+  current_user was anon or authenticated. The function is SECURITY DEFINER, so
+  current_user is always its owner and the check never ran: any manager could
+  move an outlet into another group of the same owner, or out of its group.
+
+  1. Updated Functions
+    - check_restaurant_group reads the caller's role from the request's JWT
+      (auth.role()), which SECURITY DEFINER doesn't change. The service role
+      and migrations are still allowed through.
+*/
+
+-- Managers can edit an outlet's settings, but only the owner moves it between
+-- groups, and only into groups they own
+CREATE OR REPLACE FUNCTION check_restaurant_group()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.group_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.group_id IS NOT DISTINCT FROM OLD.group_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.role() IN ('anon', 'authenticated') AND auth.uid() IS DISTINCT FROM NEW.owner_id THEN
+    RAISE EXCEPTION 'Only the owner can change which group an outlet belongs to';
+  END IF;
+
+  IF NEW.group_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM restaurant_groups g WHERE g.id = NEW.group_id AND g.owner_id = NEW.owner_id
+  ) THEN
+    RAISE EXCEPTION 'Outlets can only join groups with the same owner';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
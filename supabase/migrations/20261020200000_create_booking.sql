@@ -0,0 +1,167 @@
+/*
+  # Booking and Table Hold in One Step
+
+  The booking form wrote the booking, then added the rest of a table
+  combination to booking_tables and reserved the tables in separate requests.
+  Two guests could both be given the same free tables, and a failure part way
+  left a booking without all its tables. "Public can hold tables for bookings"
+  also let anyone attach any table to any booking.
+
+  1. New Functions
+    - create_booking(...): checks the tables belong to the restaurant and are
+      still free for the whole sitting, then writes the booking, holds every
+      table and reserves them, in one transaction. The tables are locked
+      first, so two bookings for the same tables are made one at a time.
+      Guests always get the default dining duration and an 'auto' booking;
+      the duration, status and assignment method are for staff with the
+      bookings permission.
+
+  2. Security
+    - Drops "Public can hold tables for bookings". The primary table is still
+      held by sync_booking_primary_table; the rest of a combination only
+      through create_booking.
+*/
+
+CREATE OR REPLACE FUNCTION create_booking(
+  p_restaurant_id uuid,
+  p_customer_id uuid,
+  p_booking_date date,
+  p_booking_time time,
+  p_party_size integer,
+  p_table_ids uuid[],
+  p_combination_id uuid DEFAULT NULL,
+  p_duration_minutes integer DEFAULT NULL,
+  p_notes text DEFAULT NULL,
+  p_seating_area_id uuid DEFAULT NULL,
+  p_status text DEFAULT 'confirmed',
+  p_assignment_method text DEFAULT 'auto',
+  p_was_on_waitlist boolean DEFAULT false
+)
+RETURNS TABLE(booking_id uuid, manage_token text) AS $$
+#variable_conflict use_column
+DECLARE
+  v_is_staff boolean := user_has_permission(p_restaurant_id, 'bookings');
+  v_duration integer;
+  v_start timestamp;
+  v_capacity integer;
+  v_table_number text;
+  v_booking_id uuid;
+  v_manage_token text;
+BEGIN
+  IF NOT v_is_staff AND NOT EXISTS (
+    SELECT 1 FROM restaurants WHERE id = p_restaurant_id AND slug IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Restaurant not found';
+  END IF;
+
+  IF p_table_ids IS NULL OR cardinality(p_table_ids) = 0 THEN
+    RAISE EXCEPTION 'A booking needs at least one table';
+  END IF;
+
+  IF (
+    SELECT count(*) FROM restaurant_tables
+    WHERE id = ANY(p_table_ids) AND restaurant_id = p_restaurant_id
+  ) <> (SELECT count(DISTINCT t) FROM unnest(p_table_ids) AS t) THEN
+    RAISE EXCEPTION 'Table not found';
+  END IF;
+
+  IF p_combination_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM table_combinations
+    WHERE id = p_combination_id AND restaurant_id = p_restaurant_id
+  ) THEN
+    RAISE EXCEPTION 'Table combination not found';
+  END IF;
+
+  -- Guests get the default sitting and can only ask for a plain booking
+  IF v_is_staff THEN
+    v_duration := COALESCE(p_duration_minutes, get_default_dining_duration(p_party_size));
+  ELSE
+    v_duration := get_default_dining_duration(p_party_size);
+
+    IF p_status NOT IN ('pending', 'confirmed')
+      OR p_assignment_method <> 'auto'
+      OR p_was_on_waitlist THEN
+      RAISE EXCEPTION 'Only restaurant staff can make this booking';
+    END IF;
+  END IF;
+
+  -- Bookings for the same tables are made one at a time
+  PERFORM 1 FROM restaurant_tables WHERE id = ANY(p_table_ids) ORDER BY id FOR UPDATE;
+
+  SELECT sum(capacity) INTO v_capacity
+  FROM restaurant_tables
+  WHERE id = ANY(p_table_ids);
+
+  IF v_capacity < p_party_size THEN
+    RAISE EXCEPTION 'These tables don''t seat a party of %', p_party_size;
+  END IF;
+
+  v_start := p_booking_date + p_booking_time;
+
+  SELECT rt.table_number INTO v_table_number
+  FROM restaurant_tables rt
+  WHERE rt.id = ANY(p_table_ids)
+    AND rt.id IN (
+      SELECT held.table_id
+      FROM get_held_table_ids(p_restaurant_id, v_start, v_start + make_interval(mins => v_duration)) held
+    )
+  ORDER BY rt.table_number
+  LIMIT 1;
+
+  IF v_table_number IS NOT NULL THEN
+    RAISE EXCEPTION 'Table % has just been booked. Please choose another time.', v_table_number;
+  END IF;
+
+  INSERT INTO bookings (
+    restaurant_id,
+    table_id,
+    combination_id,
+    customer_id,
+    booking_date,
+    booking_time,
+    party_size,
+    expected_duration_minutes,
+    notes,
+    seating_area_id,
+    is_walk_in,
+    status,
+    assignment_method,
+    was_on_waitlist
+  )
+  VALUES (
+    p_restaurant_id,
+    p_table_ids[1],
+    p_combination_id,
+    p_customer_id,
+    p_booking_date,
+    p_booking_time,
+    p_party_size,
+    v_duration,
+    p_notes,
+    p_seating_area_id,
+    false,
+    p_status::booking_status,
+    p_assignment_method,
+    p_was_on_waitlist
+  )
+  RETURNING id, manage_token INTO v_booking_id, v_manage_token;
+
+  -- The primary table is held by sync_booking_primary_table
+  INSERT INTO booking_tables (booking_id, table_id)
+  SELECT v_booking_id, t
+  FROM unnest(p_table_ids) AS t
+  ON CONFLICT DO NOTHING;
+
+  UPDATE restaurant_tables
+  SET status = 'reserved', updated_at = now()
+  WHERE id = ANY(p_table_ids);
+
+  RETURN QUERY SELECT v_booking_id, v_manage_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Public can hold tables for bookings" ON booking_tables;
+
+GRANT EXECUTE ON FUNCTION create_booking(uuid, uuid, date, time, integer, uuid[], uuid, integer, text, uuid, text, text, boolean) TO anon, authenticated;
+
+COMMENT ON FUNCTION create_booking(uuid, uuid, date, time, integer, uuid[], uuid, integer, text, uuid, text, text, boolean) IS 'Books a party into tables that are still free for the whole sitting, holding and reserving every table';
@@ -0,0 +1,50 @@
+/*
+  # Dining Duration Follows Party Size
+
+  set_booking_duration only filled the default sitting length when a booking
+  was written without one, so a booking that grew from 2 to 8 guests kept the
+  shorter sitting of a party of 2.
+
+  1. Updated Functions
+    - set_booking_duration(): when the party size changes, a booking still on
+      the default sitting for its old size moves to the default for its new
+      size. A duration staff chose, before or in the same update, is kept.
+
+  2. Triggers
+    - The check for a longer sitting now also runs when the party size
+      changes, and after set_booking_duration (BEFORE triggers run in name
+      order), so it sees the recomputed duration. It is renamed from
+      check_booking_duration_conflict to validate_booking_duration for that.
+      A booking moved to another date or time is checked by whatever moves it
+      (modify_booking_by_token), not here.
+*/
+
+CREATE OR REPLACE FUNCTION set_booking_duration()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.expected_duration_minutes IS NULL THEN
+    NEW.expected_duration_minutes := get_default_dining_duration(NEW.party_size);
+  ELSIF TG_OP = 'UPDATE'
+    AND NEW.party_size IS DISTINCT FROM OLD.party_size
+    AND NEW.expected_duration_minutes = OLD.expected_duration_minutes
+    AND OLD.expected_duration_minutes = get_default_dining_duration(OLD.party_size) THEN
+    NEW.expected_duration_minutes := get_default_dining_duration(NEW.party_size);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_booking_duration_conflict ON bookings;
+DROP TRIGGER IF EXISTS validate_booking_duration ON bookings;
+CREATE TRIGGER validate_booking_duration
+  BEFORE UPDATE OF party_size, expected_duration_minutes ON bookings
+  FOR EACH ROW
+  WHEN (
+    NEW.expected_duration_minutes > OLD.expected_duration_minutes
+    AND NEW.status IN ('pending', 'confirmed', 'seated')
+    AND NEW.booking_date = OLD.booking_date
+    AND NEW.booking_time = OLD.booking_time
+  )
+  EXECUTE FUNCTION check_booking_duration_conflict();
+
+COMMENT ON FUNCTION set_booking_duration() IS 'Fills the default dining duration, and keeps it in step with the party size unless staff chose one';
@@ -0,0 +1,144 @@
+/*
+  # Required Booking Payments
+
+  Whether a booking waited for its deposit was up to the booking form, which
+  set status 'pending' itself: a guest could book straight into 'confirmed'
+  without paying. A booking whose checkout never started also stayed pending
+  with its tables held, as nothing but an expired checkout released it.
+
+  1. Security
+    - Guests can no longer insert bookings directly; they book through
+      create_booking, which only makes plain 'auto' bookings
+    - require_booking_payment() trigger: a guest's confirmed booking that
+      get_deposit_requirement says needs a payment is written as 'pending'
+      instead. Staff bookings and accepted waiting list offers are unchanged.
+
+  2. New Functions
+    - abandon_booking_payment(token): cancels a pending booking and releases
+      its tables when no Stripe checkout was created for it, e.g. when the
+      booking-payment function failed. Bookings with a checkout are cancelled
+      by stripe-webhook when it expires.
+
+  3. Updated Functions
+    - settle_booking_payment checks the refund cutoff against the restaurant's
+      local time instead of the database's (UTC)
+*/
+
+DROP POLICY IF EXISTS "Public can create bookings" ON bookings;
+DROP POLICY IF EXISTS "Allow public insert to bookings" ON bookings;
+
+CREATE OR REPLACE FUNCTION require_booking_payment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT NEW.is_walk_in
+    AND NOT COALESCE(NEW.was_on_waitlist, false)
+    AND NOT user_can_access_restaurant(NEW.restaurant_id)
+    AND EXISTS (SELECT 1 FROM get_deposit_requirement(NEW.restaurant_id, NEW.booking_date, NEW.party_size)) THEN
+    NEW.status := 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS require_booking_payment ON bookings;
+CREATE TRIGGER require_booking_payment
+  BEFORE INSERT ON bookings
+  FOR EACH ROW
+  WHEN (NEW.status = 'confirmed')
+  EXECUTE FUNCTION require_booking_payment();
+
+-- Returns false when a checkout exists or the booking isn't waiting for one
+CREATE OR REPLACE FUNCTION abandon_booking_payment(p_token text)
+RETURNS boolean AS $$
+DECLARE
+  v_booking_id uuid;
+BEGIN
+  UPDATE bookings b
+  SET status = 'cancelled', updated_at = now()
+  WHERE b.manage_token = p_token
+    AND b.status = 'pending'
+    AND NOT EXISTS (
+      SELECT 1 FROM booking_payments bp
+      WHERE bp.booking_id = b.id
+        AND bp.stripe_checkout_session_id IS NOT NULL
+    )
+  RETURNING b.id INTO v_booking_id;
+
+  IF v_booking_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE restaurant_tables
+  SET status = 'available', updated_at = now()
+  WHERE id IN (
+      SELECT bt.table_id FROM booking_tables bt WHERE bt.booking_id = v_booking_id
+    )
+    AND status = 'reserved';
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =============================================
+-- SETTLEMENT
+-- =============================================
+
+-- Decides what happens to the money when a booking closes. Refunds and charges
+-- are queued in pending_action for the booking-payment edge function.
+CREATE OR REPLACE FUNCTION settle_booking_payment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_cutoff_hours integer;
+  v_now timestamp;
+  v_timely boolean;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'cancelled' THEN
+    SELECT r.booking_change_cutoff_hours, now() AT TIME ZONE r.timezone
+    INTO v_cutoff_hours, v_now
+    FROM restaurants r
+    WHERE r.id = NEW.restaurant_id;
+
+    v_timely := v_now < NEW.booking_date + NEW.booking_time - make_interval(hours => v_cutoff_hours);
+
+    -- Abandoned checkouts just close
+    UPDATE booking_payments
+    SET status = 'cancelled'
+    WHERE booking_id = NEW.id AND status = 'pending';
+
+    UPDATE booking_payments
+    SET
+      status = CASE WHEN v_timely THEN status ELSE 'retained' END,
+      pending_action = CASE WHEN v_timely THEN 'refund' END
+    WHERE booking_id = NEW.id AND status = 'paid';
+
+    -- Only no-shows are charged to a guarantee card
+    UPDATE booking_payments
+    SET status = 'released'
+    WHERE booking_id = NEW.id AND status = 'card_saved';
+  ELSIF NEW.status = 'no_show' THEN
+    UPDATE booking_payments
+    SET status = 'retained'
+    WHERE booking_id = NEW.id AND status = 'paid';
+
+    UPDATE booking_payments
+    SET pending_action = 'charge'
+    WHERE booking_id = NEW.id AND status = 'card_saved';
+  ELSIF NEW.status = 'completed' THEN
+    UPDATE booking_payments
+    SET status = 'released'
+    WHERE booking_id = NEW.id AND status = 'card_saved';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION abandon_booking_payment(text) TO anon, authenticated;
+
+COMMENT ON FUNCTION require_booking_payment() IS 'Keeps a guest booking that needs a deposit or card guarantee pending until it is paid';
+COMMENT ON FUNCTION abandon_booking_payment(text) IS 'Cancels a pending booking whose payment checkout was never created, releasing its tables';
@@ -0,0 +1,80 @@
+/*
+  # Scheduled Waiting List Offer Expiry
+
+  Lapsed table offers were only expired every minute where pg_cron happened to
+  be installed already; everywhere else they waited for a staff dashboard to be
+  open, and the next guest's offer message waited for a dashboard to send it.
+
+  1. Extensions
+    - pg_cron and pg_net are enabled where the database offers them
+
+  2. New Functions
+    - run_waitlist_offer_expiry(): expires lapsed offers for every restaurant
+      and, when tables rolled to the next guest, asks send-notifications to send
+      their offer messages. Uses the project_url and anon_key Vault secrets.
+
+  3. Scheduling
+    - expire-waitlist-offers runs run_waitlist_offer_expiry every minute
+*/
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_net') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_net;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION run_waitlist_offer_expiry()
+RETURNS integer AS $$
+DECLARE
+  v_expired integer;
+  v_url text;
+  v_anon_key text;
+BEGIN
+  v_expired := expire_waitlist_offers();
+
+  IF v_expired = 0
+    OR NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net')
+    OR NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'supabase_vault') THEN
+    RETURN v_expired;
+  END IF;
+
+  EXECUTE $sql$
+    SELECT
+      max(decrypted_secret) FILTER (WHERE name = 'project_url'),
+      max(decrypted_secret) FILTER (WHERE name = 'anon_key')
+    FROM vault.decrypted_secrets
+  $sql$ INTO v_url, v_anon_key;
+
+  IF v_url IS NOT NULL AND v_anon_key IS NOT NULL THEN
+    EXECUTE 'SELECT net.http_post(url := $1, headers := $2, body := $3)'
+    USING
+      v_url || '/functions/v1/send-notifications',
+      jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || v_anon_key
+      ),
+      '{}'::jsonb;
+  END IF;
+
+  RETURN v_expired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION run_waitlist_offer_expiry() FROM PUBLIC, anon, authenticated;
+
+-- Replaces the job of the same name scheduled with the waiting list offers
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-waitlist-offers', '* * * * *', 'SELECT run_waitlist_offer_expiry()');
+  END IF;
+END;
+$$;
+
+COMMENT ON FUNCTION run_waitlist_offer_expiry() IS 'Expires lapsed waiting list offers and sends the next guests'' offer messages; run every minute by pg_cron';
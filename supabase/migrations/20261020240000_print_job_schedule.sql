@@ -0,0 +1,18 @@
+/*
+  # Print Job Schedule
+
+  The print queue was only scheduled where pg_cron was already installed when
+  print job retries were added. pg_cron is enabled by the waiting list offer
+  expiry migration, so the print run is scheduled again here.
+
+  1. Scheduling
+    - process-print-jobs runs run_print_jobs every minute
+*/
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('process-print-jobs', '* * * * *', 'SELECT run_print_jobs()');
+  END IF;
+END;
+$$;
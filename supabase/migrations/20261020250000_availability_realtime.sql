@@ -0,0 +1,40 @@
+/*
+  # Realtime Changes for Booking Availability
+
+  The booking page caches slot availability and clears it when opening hours,
+  service periods or special dates change, but those tables were never added
+  to the realtime publication, so the change events never arrived and guests
+  kept seeing the old slots until they reloaded.
+
+  1. Changes
+    - Adds the tables availability is worked out from to supabase_realtime,
+      where the publication exists and they aren't in it already
+*/
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    RETURN;
+  END IF;
+
+  FOREACH v_table IN ARRAY ARRAY[
+    'bookings',
+    'waiting_list',
+    'restaurant_tables',
+    'restaurant_operating_hours',
+    'restaurant_service_periods',
+    'restaurant_special_dates'
+  ] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE %I', v_table);
+    END IF;
+  END LOOP;
+END;
+$$;
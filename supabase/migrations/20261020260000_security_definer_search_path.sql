@@ -0,0 +1,101 @@
+/*
+  # Search Path for Security Definer Functions
+
+  The SECURITY DEFINER functions added since 20261019090000 ran with
+  the caller's search_path, so a caller could put their own table or function
+  with the same name ahead of public and have it run with the definer's
+  rights. Functions added or redefined from here on set it in their
+  definition; this fixes the rest in place.
+
+  1. Changes
+    - search_path = public on every SECURITY DEFINER function whose latest
+      definition didn't set one
+*/
+
+-- Table combinations
+ALTER FUNCTION sync_booking_primary_table() SET search_path = public;
+
+-- Service periods
+ALTER FUNCTION is_restaurant_open(uuid, date, time) SET search_path = public;
+ALTER FUNCTION get_service_periods(uuid, date) SET search_path = public;
+
+-- Notifications
+ALTER FUNCTION enqueue_notification(uuid, text, uuid, uuid) SET search_path = public;
+ALTER FUNCTION queue_booking_notifications() SET search_path = public;
+ALTER FUNCTION queue_waiting_list_notifications() SET search_path = public;
+
+-- Waitlist matching
+ALTER FUNCTION get_held_table_ids(uuid, timestamp, timestamp) SET search_path = public;
+ALTER FUNCTION expire_waitlist_offers(uuid) SET search_path = public;
+ALTER FUNCTION respond_to_waitlist_offer(text, boolean) SET search_path = public;
+ALTER FUNCTION offer_waitlist_table(uuid, date, time) SET search_path = public;
+
+-- Booking deposits
+ALTER FUNCTION get_deposit_requirement(uuid, date, integer) SET search_path = public;
+ALTER FUNCTION get_booking_payment(text) SET search_path = public;
+
+-- Bill splitting
+ALTER FUNCTION create_bill_split(text, text, jsonb) SET search_path = public;
+ALTER FUNCTION cancel_bill_split(text) SET search_path = public;
+ALTER FUNCTION get_bill_split(text) SET search_path = public;
+ALTER FUNCTION get_session_payment(text, uuid) SET search_path = public;
+
+-- Menu schedules
+ALTER FUNCTION get_unorderable_menu_items(uuid[]) SET search_path = public;
+
+-- Inventory
+ALTER FUNCTION sync_menu_item_stock_availability(uuid) SET search_path = public;
+ALTER FUNCTION sync_menu_item_stock_on_item_change() SET search_path = public;
+ALTER FUNCTION sync_menu_item_stock_on_ingredient_change() SET search_path = public;
+ALTER FUNCTION sync_menu_item_stock_on_recipe_change() SET search_path = public;
+ALTER FUNCTION deduct_order_item_stock() SET search_path = public;
+
+-- Kitchen display
+ALTER FUNCTION assign_order_item_station() SET search_path = public;
+ALTER FUNCTION sync_order_kitchen_status() SET search_path = public;
+
+-- Kitchen ticket printing
+ALTER FUNCTION queue_kitchen_tickets(uuid, boolean, uuid) SET search_path = public;
+ALTER FUNCTION queue_order_kitchen_tickets() SET search_path = public;
+ALTER FUNCTION reprint_kitchen_ticket(uuid, uuid) SET search_path = public;
+
+-- Escpos printing
+ALTER FUNCTION queue_order_receipt(uuid) SET search_path = public;
+
+-- Dining area preferences
+ALTER FUNCTION get_time_slot_availability(uuid, date, time) SET search_path = public;
+ALTER FUNCTION get_day_availability(uuid, date, date) SET search_path = public;
+ALTER FUNCTION get_seating_areas(uuid) SET search_path = public;
+ALTER FUNCTION get_seating_capacity(uuid) SET search_path = public;
+ALTER FUNCTION get_available_tables(uuid, date, time, integer, integer, uuid) SET search_path = public;
+ALTER FUNCTION get_available_table_combinations(uuid, date, time, integer, integer, uuid) SET search_path = public;
+
+-- Staff roles
+ALTER FUNCTION staff_role(uuid, uuid) SET search_path = public;
+ALTER FUNCTION staff_has_permission(uuid, uuid, text) SET search_path = public;
+ALTER FUNCTION user_has_permission(uuid, text) SET search_path = public;
+ALTER FUNCTION get_my_staff_role(uuid) SET search_path = public;
+ALTER FUNCTION staff_can_assign_role(uuid, uuid, text) SET search_path = public;
+ALTER FUNCTION get_restaurant_staff(uuid) SET search_path = public;
+ALTER FUNCTION set_staff_role(uuid, uuid, text) SET search_path = public;
+ALTER FUNCTION remove_staff_member(uuid, uuid) SET search_path = public;
+ALTER FUNCTION get_staff_invitation(uuid) SET search_path = public;
+ALTER FUNCTION accept_staff_invitation(uuid) SET search_path = public;
+
+-- Restaurant groups
+ALTER FUNCTION detach_group_menu(uuid) SET search_path = public;
+ALTER FUNCTION restaurant_left_group() SET search_path = public;
+ALTER FUNCTION check_group_menu_source() SET search_path = public;
+ALTER FUNCTION sync_group_menu(uuid) SET search_path = public;
+ALTER FUNCTION reset_menu_item_overrides(uuid) SET search_path = public;
+ALTER FUNCTION loyalty_restaurant_ids(uuid) SET search_path = public;
+ALTER FUNCTION get_loyalty_members(uuid) SET search_path = public;
+ALTER FUNCTION get_group_outlet_summary(uuid, date, date) SET search_path = public;
+
+-- Loyalty settings discount codes
+ALTER FUNCTION check_loyalty_discount(uuid, text[]) SET search_path = public;
+ALTER FUNCTION update_loyalty_spending(uuid, text, decimal) SET search_path = public;
+ALTER FUNCTION check_discount_code(text, text) SET search_path = public;
+
+-- Booking duration conflicts
+ALTER FUNCTION check_booking_duration_conflict() SET search_path = public;